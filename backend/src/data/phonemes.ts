@@ -0,0 +1,115 @@
+// Phoneme inventory for General Australian English, written in IPA.
+// Vowel targets are F1/F2 in Hz for adult speakers (roughly the female
+// averages from acoustic studies of Australian English - the scorer
+// normalises for each speaker's vocal tract, so only the shape matters).
+
+export type PhonemeClass =
+  | 'vowel'
+  | 'diphthong'
+  | 'stop'
+  | 'affricate'
+  | 'fricative'
+  | 'nasal'
+  | 'approximant'
+  | 'flap';
+
+export interface FormantTarget {
+  f1: number;
+  f2: number;
+}
+
+export interface Phoneme {
+  symbol: string;
+  class: PhonemeClass;
+  voiced: boolean;
+  // Example word, shown in feedback
+  example: string;
+  // Monophthongs have one target; diphthongs glide from the first to the second
+  targets?: [FormantTarget] | [FormantTarget, FormantTarget];
+  // What to do when the vowel misses its target
+  tip?: string;
+}
+
+const vowel = (symbol: string, example: string, f1: number, f2: number, tip: string): Phoneme => ({
+  symbol, class: 'vowel', voiced: true, example, targets: [{ f1, f2 }], tip,
+});
+
+const diphthong = (
+  symbol: string,
+  example: string,
+  from: [number, number],
+  to: [number, number],
+  tip: string
+): Phoneme => ({
+  symbol,
+  class: 'diphthong',
+  voiced: true,
+  example,
+  targets: [{ f1: from[0], f2: from[1] }, { f1: to[0], f2: to[1] }],
+  tip,
+});
+
+const consonant = (symbol: string, phonemeClass: PhonemeClass, voiced: boolean, example: string): Phoneme => ({
+  symbol, class: phonemeClass, voiced, example,
+});
+
+const PHONEME_LIST: Phoneme[] = [
+  // Monophthongs
+  vowel('iː', 'see', 360, 2700, 'Spread your lips and keep the tongue high and forward, like "ee".'),
+  vowel('ɪ', 'it', 420, 2500, 'Keep it short and high - Aussie "i" is closer to "ee" than in American English.'),
+  vowel('e', 'let', 580, 2300, 'Keep the jaw fairly closed - the Aussie "e" in "let" is raised, almost "lit".'),
+  vowel('æ', 'cat', 870, 1880, 'Open your mouth wide with the tongue forward, as in "cat".'),
+  vowel('ɐ', 'cup', 920, 1550, 'A short, open "uh" from the centre of the mouth.'),
+  vowel('ɐː', 'arvo', 930, 1500, 'A long, open "ah" from the centre of the mouth - no "r" after it.'),
+  vowel('ɔ', 'lot', 700, 1100, 'Short and rounded, with the jaw open, as in "lot".'),
+  vowel('oː', 'all', 480, 870, 'Round your lips firmly and hold it - "aw" as in "all".'),
+  vowel('ʊ', 'good', 480, 1300, 'Short, relaxed and slightly rounded, as in "good".'),
+  vowel('ʉː', 'boot', 380, 2050, 'Keep "oo" forward in the mouth - Aussie "oo" is made further forward than you might expect.'),
+  vowel('ɜː', 'nurse', 560, 1850, 'Long "er" with rounded lips and no "r" sound.'),
+  vowel('ə', 'a', 560, 1700, 'Relax into a quick, neutral "uh" - this syllable is unstressed.'),
+  vowel('eː', 'fair', 600, 2250, 'Hold a long, steady "eh" - Aussies say "fair" without an "r" or a glide.'),
+
+  // Diphthongs
+  diphthong('æɪ', 'mate', [800, 1950], [480, 2450], 'Start open, like the "a" in "cat", then glide up to "ee" - "mate" sounds close to "mite".'),
+  diphthong('ɑe', 'right', [880, 1350], [560, 2100], 'Start far back with an open "ah", then glide forward to "eh".'),
+  diphthong('oɪ', 'boy', [520, 900], [420, 2300], 'Start with rounded "aw" and glide to "ee".'),
+  diphthong('æɔ', 'out', [880, 1850], [620, 1200], 'Start with the "a" of "cat", then round your lips - "out" starts at the front of the mouth.'),
+  diphthong('əʉ', 'go', [640, 1600], [470, 1750], 'Start from a neutral "uh" and glide to a forward "oo" - "go" sounds like "guh-oo".'),
+  diphthong('ɪə', 'here', [420, 2450], [650, 1800], 'Glide from "ee" to a relaxed "uh", with no "r" at the end.'),
+
+  // Consonants
+  consonant('p', 'stop', false, 'pup'),
+  consonant('b', 'stop', true, 'boot'),
+  consonant('t', 'stop', false, 'too'),
+  consonant('d', 'stop', true, 'day'),
+  consonant('k', 'stop', false, 'cuppa'),
+  consonant('ɡ', 'stop', true, 'go'),
+  consonant('tʃ', 'affricate', false, 'chuck'),
+  consonant('dʒ', 'affricate', true, 'job'),
+  consonant('f', 'fricative', false, 'fair'),
+  consonant('v', 'fricative', true, 'arvo'),
+  consonant('θ', 'fricative', false, 'strewth'),
+  consonant('ð', 'fricative', true, 'that'),
+  consonant('s', 'fricative', false, 'see'),
+  consonant('z', 'fricative', true, 'easy'),
+  consonant('ʃ', 'fricative', false, 'shoot'),
+  consonant('ʒ', 'fricative', true, 'measure'),
+  consonant('h', 'fricative', false, 'heaps'),
+  consonant('m', 'nasal', true, 'mate'),
+  consonant('n', 'nasal', true, 'no'),
+  consonant('ŋ', 'nasal', true, 'drinking'),
+  consonant('l', 'approximant', true, 'like'),
+  consonant('r', 'approximant', true, 'right'),
+  consonant('w', 'approximant', true, 'worries'),
+  consonant('j', 'approximant', true, 'yarn'),
+  // The quick "d"-like t between vowels: "later" -> "lay-da"
+  consonant('ɾ', 'flap', true, 'later'),
+];
+
+export const PHONEMES: Record<string, Phoneme> = Object.fromEntries(
+  PHONEME_LIST.map(phoneme => [phoneme.symbol, phoneme])
+);
+
+export function isVowel(phoneme: Phoneme): boolean {
+  return phoneme.class === 'vowel' || phoneme.class === 'diphthong';
+}
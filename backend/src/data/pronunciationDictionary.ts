@@ -0,0 +1,104 @@
+// Pronunciation dictionary for the practice phrases (PRACTICE_PHRASES in the
+// frontend's usePronunciationScoring), in General Australian English:
+// non-rhotic, with the Aussie vowels from data/phonemes.ts. Phonemes are
+// separated by spaces.
+
+const DICTIONARY: Record<string, string> = {
+  a: 'ə',
+  about: 'ə b æɔ t',
+  action: 'æ k ʃ ə n',
+  all: 'oː l',
+  an: 'ə n',
+  arvo: 'ɐː v əʉ',
+  at: 'æ t',
+  back: 'b æ k',
+  base: 'b æɪ s',
+  be: 'b iː',
+  bloody: 'b l ɐ d iː',
+  bonzer: 'b ɔ n z ə',
+  boot: 'b ʉː t',
+  cheers: 'tʃ ɪə z',
+  chockers: 'tʃ ɔ k ə z',
+  chuck: 'tʃ ɐ k',
+  circle: 's ɜː k ə l',
+  cuppa: 'k ɐ p ə',
+  "don't": 'd əʉ n t',
+  dramas: 'd r ɐː m ə z',
+  drinking: 'd r ɪ ŋ k ɪ ŋ',
+  easy: 'iː z iː',
+  email: 'iː m æɪ l',
+  fair: 'f eː',
+  fine: 'f ɑe n',
+  flat: 'f l æ t',
+  follow: 'f ɔ l əʉ',
+  "g'day": 'ɡ ə d æɪ',
+  go: 'ɡ əʉ',
+  going: 'ɡ əʉ ɪ n',
+  good: 'ɡ ʊ d',
+  grab: 'ɡ r æ b',
+  happy: 'h æ p iː',
+  have: 'h æ v',
+  having: 'h æ v ɪ n',
+  heaps: 'h iː p s',
+  here: 'h ɪə',
+  how: 'h æɔ',
+  i: 'ɑe',
+  "i'll": 'ɑe l',
+  in: 'ɪ n',
+  it: 'ɪ t',
+  "it'll": 'ɪ ɾ ə l',
+  "it's": 'ɪ t s',
+  later: 'l æɪ ɾ ə',
+  let: 'l e t',
+  "let's": 'l e t s',
+  like: 'l ɑe k',
+  lizard: 'l ɪ z ə d',
+  mate: 'm æɪ t',
+  mates: 'm æɪ t s',
+  me: 'm iː',
+  monday: 'm ɐ n d æɪ',
+  no: 'n əʉ',
+  on: 'ɔ n',
+  out: 'æɔ t',
+  reckon: 'r e k ə n',
+  right: 'r ɑe t',
+  ripper: 'r ɪ p ə',
+  see: 's iː',
+  "she'll": 'ʃ iː l',
+  shoot: 'ʃ ʉː t',
+  sook: 's ʊ k',
+  sounds: 's æɔ n d z',
+  strewth: 's t r ʉː θ',
+  that: 'ð æ t',
+  "that's": 'ð æ t s',
+  the: 'ð ə',
+  this: 'ð ɪ s',
+  to: 't ə',
+  today: 't ə d æɪ',
+  too: 't ʉː',
+  touch: 't ɐ tʃ',
+  up: 'ɐ p',
+  with: 'w ɪ ð',
+  worries: 'w ɐ r iː z',
+  ya: 'j ə',
+  yarn: 'j ɐː n',
+  you: 'j ʉː',
+};
+
+/**
+ * Split a target phrase into dictionary words - lowercase, keeping
+ * apostrophes, with curly quotes straightened
+ */
+export function tokenizePhrase(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[^a-z'\s]/g, ' ')
+    .split(/\s+/)
+    .map(word => word.replace(/^'+|'+$/g, ''))
+    .filter(Boolean);
+}
+
+export function lookupWord(word: string): string[] | undefined {
+  return DICTIONARY[word]?.split(' ');
+}
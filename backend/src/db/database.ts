@@ -1,5 +1,9 @@
 import Database, { Database as DatabaseType } from 'better-sqlite3';
-import { schema } from './schema.js';
+import { applyMigrations, describeMigration } from './migrator.js';
+import { migrations } from './migrations/index.js';
+import { applyPostgresMigrations } from './postgres.js';
+import { postgresMigrations } from './migrations/postgres/index.js';
+import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
 
@@ -8,31 +12,87 @@ const __dirname = path.dirname(__filename);
 
 const dbPath = process.env.DATABASE_PATH || path.join(__dirname, '../../data/aussie-english.db');
 
-// Ensure data directory exists
-import fs from 'fs';
-const dataDir = path.dirname(dbPath);
-if (!fs.existsSync(dataDir)) {
-  fs.mkdirSync(dataDir, { recursive: true });
+let sqlite: DatabaseType | undefined;
+
+/**
+ * The SQLite database for DATABASE_DRIVER=sqlite, opened on first use from
+ * DATABASE_PATH
+ */
+export function getSqlite(): DatabaseType {
+  if (!sqlite) {
+    // Ensure data directory exists
+    const dataDir = path.dirname(dbPath);
+    if (!fs.existsSync(dataDir)) {
+      fs.mkdirSync(dataDir, { recursive: true });
+    }
+
+    sqlite = new Database(dbPath);
+    // Enable foreign keys
+    sqlite.pragma('foreign_keys = ON');
+  }
+  return sqlite;
+}
+
+export type DatabaseDriver = 'sqlite' | 'postgres';
+
+function getDatabaseDriver(): DatabaseDriver {
+  const driver = process.env.DATABASE_DRIVER || 'sqlite';
+  if (driver !== 'sqlite' && driver !== 'postgres') {
+    throw new Error(`Unknown DATABASE_DRIVER "${driver}" - use sqlite or postgres`);
+  }
+  return driver;
 }
 
-export const db: DatabaseType = new Database(dbPath);
+// Where everything is stored (see src/repositories)
+export const databaseDriver: DatabaseDriver = getDatabaseDriver();
+
+// Bring the schema up to date
+export async function initializeDatabase(): Promise<void> {
+  if (databaseDriver === 'postgres') {
+    for (const migration of await applyPostgresMigrations(postgresMigrations)) {
+      console.log(`Applied Postgres migration ${describeMigration(migration)}`);
+    }
+  } else {
+    upgradeLegacyDatabase();
 
-// Enable foreign keys
-db.pragma('foreign_keys = ON');
+    const applied = applyMigrations(getSqlite(), migrations);
+    for (const migration of applied) {
+      console.log(`Applied migration ${describeMigration(migration)}`);
+    }
+  }
 
-// Initialize schema
-export function initializeDatabase(): void {
-  db.exec(schema);
   console.log('Database initialized successfully');
 }
 
-// Helper for running migrations
-export function runMigration(sql: string): void {
-  db.exec(sql);
+function tableExists(table: string): boolean {
+  return getSqlite().prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(table) !== undefined;
+}
+
+/**
+ * Databases from before versioned migrations may be missing columns that
+ * used to be patched in at startup. Add them so the baseline migration
+ * matches what the database actually has.
+ */
+export function upgradeLegacyDatabase(): void {
+  if (tableExists('schema_migrations') || !tableExists('practice_sessions')) return;
+
+  const db = getSqlite();
+  const columns = db.prepare('PRAGMA table_info(practice_sessions)').all() as { name: string }[];
+  const legacyColumns: [string, string][] = [
+    ['scenario_id', 'TEXT'],
+    ['billed_seconds', 'INTEGER DEFAULT 0'],
+    ['last_activity_at', 'TEXT'],
+  ];
+
+  for (const [column, definition] of legacyColumns) {
+    if (!columns.some(c => c.name === column)) {
+      db.exec(`ALTER TABLE practice_sessions ADD COLUMN ${column} ${definition}`);
+    }
+  }
 }
 
 // Graceful shutdown
-process.on('exit', () => db.close());
+process.on('exit', () => sqlite?.close());
 process.on('SIGHUP', () => process.exit(128 + 1));
 process.on('SIGINT', () => process.exit(128 + 2));
 process.on('SIGTERM', () => process.exit(128 + 15));
@@ -1,7 +1,115 @@
 import 'dotenv/config';
-import { initializeDatabase } from './database.js';
+import { getSqlite, databaseDriver, upgradeLegacyDatabase } from './database.js';
+import {
+  Migration,
+  MigrationStatus,
+  applyMigrations,
+  rollbackMigrations,
+  getMigrationStatus,
+  describeMigration,
+} from './migrator.js';
+import { migrations } from './migrations/index.js';
+import { postgresMigrations } from './migrations/postgres/index.js';
+import {
+  applyPostgresMigrations,
+  rollbackPostgresMigrations,
+  getPostgresMigrationStatus,
+  closePool,
+} from './postgres.js';
 
-console.log('Running database migrations...');
-initializeDatabase();
-console.log('Migrations complete!');
-process.exit(0);
+// Usage:
+//   npm run db:migrate                     apply every pending migration
+//   npm run db:migrate -- up --to 3        apply pending migrations up to version 3
+//   npm run db:migrate -- down             roll back the latest migration
+//   npm run db:migrate -- down --steps 2   roll back the latest two
+//   npm run db:migrate -- status           list migrations and whether they ran
+//
+// They run against the database DATABASE_DRIVER picks: the SQLite file, or
+// the Postgres schema in DATABASE_URL.
+
+function option(args: string[], name: string): number | undefined {
+  const index = args.indexOf(name);
+  if (index === -1) return undefined;
+
+  const value = Number(args[index + 1]);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${name} needs a whole number`);
+  }
+  return value;
+}
+
+interface MigrationTarget {
+  apply(target?: number): Promise<Migration[]>;
+  rollback(steps: number): Promise<Migration[]>;
+  status(): Promise<MigrationStatus[]>;
+}
+
+const sqliteTarget: MigrationTarget = {
+  async apply(target) {
+    upgradeLegacyDatabase();
+    return applyMigrations(getSqlite(), migrations, target);
+  },
+  async rollback(steps) {
+    return rollbackMigrations(getSqlite(), migrations, steps);
+  },
+  async status() {
+    return getMigrationStatus(getSqlite(), migrations);
+  },
+};
+
+const postgresTarget: MigrationTarget = {
+  apply: target => applyPostgresMigrations(postgresMigrations, target),
+  rollback: steps => rollbackPostgresMigrations(postgresMigrations, steps),
+  status: () => getPostgresMigrationStatus(postgresMigrations),
+};
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const command = args[0] && !args[0].startsWith('--') ? args[0] : 'up';
+
+  const target = databaseDriver === 'postgres' ? postgresTarget : sqliteTarget;
+
+  if (command === 'up') {
+    const applied = await target.apply(option(args, '--to'));
+    if (applied.length === 0) {
+      console.log('Database is up to date');
+    }
+    for (const migration of applied) {
+      console.log(`Applied ${describeMigration(migration)}`);
+    }
+    return;
+  }
+
+  if (command === 'down') {
+    const rolledBack = await target.rollback(option(args, '--steps') ?? 1);
+    if (rolledBack.length === 0) {
+      console.log('Nothing to roll back');
+    }
+    for (const migration of rolledBack) {
+      console.log(`Rolled back ${describeMigration(migration)}`);
+    }
+    return;
+  }
+
+  if (command === 'status') {
+    for (const status of await target.status()) {
+      const state = status.applied_at
+        ? `applied ${status.applied_at}${status.checksum_ok ? '' : ' (CHANGED SINCE APPLIED)'}`
+        : 'pending';
+      console.log(`${describeMigration(status)}  ${state}`);
+    }
+    return;
+  }
+
+  throw new Error(`Unknown command "${command}" - use up, down or status`);
+}
+
+main()
+  .then(async () => {
+    await closePool();
+    process.exit(0);
+  })
+  .catch(error => {
+    console.error('Migration failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -0,0 +1,12 @@
+import type { Migration } from '../migrator.js';
+import initialSchema from './001_initial_schema.js';
+import conversationTurnUsage from './002_conversation_turn_usage.js';
+import sessionReportUsage from './003_session_report_usage.js';
+
+// Every migration, in version order. Name new files NNN_description.ts and
+// add them here; never edit one that has been applied anywhere.
+export const migrations: Migration[] = [
+  initialSchema,
+  conversationTurnUsage,
+  sessionReportUsage,
+];
@@ -1,26 +1,40 @@
-// Database schema definitions for SQLite
-// Tables: users, subscriptions, usage_records, sessions
+import type { Migration } from '../../migrator.js';
 
-export const schema = `
--- Users table
-CREATE TABLE IF NOT EXISTS users (
+// The tables behind the storage repositories (users, subscriptions, plan
+// limits, usage and practice sessions). Columns mirror the SQLite schema -
+// TEXT timestamps in datetime('now') format, INTEGER 0/1 flags - so rows
+// look the same whichever driver is in use.
+
+const up = `
+CREATE FUNCTION utc_now_text() RETURNS TEXT AS $$
+  SELECT to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS')
+$$ LANGUAGE SQL STABLE;
+
+CREATE TABLE users (
   id TEXT PRIMARY KEY,
   email TEXT UNIQUE NOT NULL,
   password_hash TEXT NOT NULL,
   name TEXT,
-  created_at TEXT DEFAULT (datetime('now')),
-  updated_at TEXT DEFAULT (datetime('now')),
+  created_at TEXT DEFAULT utc_now_text(),
+  updated_at TEXT DEFAULT utc_now_text(),
   email_verified INTEGER DEFAULT 0,
   stripe_customer_id TEXT UNIQUE
 );
 
--- Subscription plans reference
--- starter: 5 mins/day ($29 AUD/month)
--- professional: 15 mins/day ($49 AUD/month)
--- executive: unlimited ($99 AUD/month)
+CREATE TABLE plan_limits (
+  plan TEXT PRIMARY KEY,
+  daily_minutes INTEGER NOT NULL,
+  monthly_price_cents INTEGER NOT NULL,
+  description TEXT
+);
 
--- Subscriptions table
-CREATE TABLE IF NOT EXISTS subscriptions (
+INSERT INTO plan_limits (plan, daily_minutes, monthly_price_cents, description) VALUES
+  ('free', 2, 0, 'Free trial - 2 minutes per day'),
+  ('starter', 5, 2900, 'Starter plan - 5 minutes per day'),
+  ('professional', 15, 4900, 'Professional plan - 15 minutes per day'),
+  ('executive', 60, 9900, 'Executive plan - Unlimited practice');
+
+CREATE TABLE subscriptions (
   id TEXT PRIMARY KEY,
   user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
   plan TEXT NOT NULL CHECK(plan IN ('free', 'starter', 'professional', 'executive')),
@@ -30,62 +44,56 @@ CREATE TABLE IF NOT EXISTS subscriptions (
   current_period_start TEXT,
   current_period_end TEXT,
   cancel_at_period_end INTEGER DEFAULT 0,
-  created_at TEXT DEFAULT (datetime('now')),
-  updated_at TEXT DEFAULT (datetime('now'))
+  created_at TEXT DEFAULT utc_now_text(),
+  updated_at TEXT DEFAULT utc_now_text()
 );
 
--- Daily usage records
-CREATE TABLE IF NOT EXISTS usage_records (
+CREATE TABLE usage_records (
   id TEXT PRIMARY KEY,
   user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
   date TEXT NOT NULL,
-  minutes_used REAL DEFAULT 0,
+  minutes_used DOUBLE PRECISION DEFAULT 0,
   sessions_count INTEGER DEFAULT 0,
-  created_at TEXT DEFAULT (datetime('now')),
-  updated_at TEXT DEFAULT (datetime('now')),
+  created_at TEXT DEFAULT utc_now_text(),
+  updated_at TEXT DEFAULT utc_now_text(),
   UNIQUE(user_id, date)
 );
 
--- Individual session records
-CREATE TABLE IF NOT EXISTS practice_sessions (
+CREATE TABLE practice_sessions (
   id TEXT PRIMARY KEY,
   user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
   started_at TEXT NOT NULL,
   ended_at TEXT,
   duration_seconds INTEGER DEFAULT 0,
   mode TEXT CHECK(mode IN ('everyday', 'slang', 'workplace')),
+  scenario_id TEXT,
   messages_count INTEGER DEFAULT 0,
   feedback INTEGER,
-  created_at TEXT DEFAULT (datetime('now'))
+  billed_seconds INTEGER DEFAULT 0,
+  last_activity_at TEXT,
+  created_at TEXT DEFAULT utc_now_text()
 );
 
--- Plan limits configuration
-CREATE TABLE IF NOT EXISTS plan_limits (
-  plan TEXT PRIMARY KEY,
-  daily_minutes INTEGER NOT NULL,
-  monthly_price_cents INTEGER NOT NULL,
-  description TEXT
-);
-
--- Insert default plan limits
-INSERT OR IGNORE INTO plan_limits (plan, daily_minutes, monthly_price_cents, description) VALUES
-  ('free', 2, 0, 'Free trial - 2 minutes per day'),
-  ('starter', 5, 2900, 'Starter plan - 5 minutes per day'),
-  ('professional', 15, 4900, 'Professional plan - 15 minutes per day'),
-  ('executive', 60, 9900, 'Executive plan - Unlimited practice');
-
--- Indexes for performance
-CREATE INDEX IF NOT EXISTS idx_subscriptions_user_id ON subscriptions(user_id);
-CREATE INDEX IF NOT EXISTS idx_subscriptions_status ON subscriptions(status);
-CREATE INDEX IF NOT EXISTS idx_usage_records_user_date ON usage_records(user_id, date);
-CREATE INDEX IF NOT EXISTS idx_practice_sessions_user_id ON practice_sessions(user_id);
-CREATE INDEX IF NOT EXISTS idx_practice_sessions_started_at ON practice_sessions(started_at);
+CREATE INDEX idx_subscriptions_user_id ON subscriptions(user_id);
+CREATE INDEX idx_subscriptions_status ON subscriptions(status);
+CREATE INDEX idx_practice_sessions_user_id ON practice_sessions(user_id);
+CREATE INDEX idx_practice_sessions_started_at ON practice_sessions(started_at);
 `;
 
-export const dropSchema = `
+const down = `
 DROP TABLE IF EXISTS practice_sessions;
 DROP TABLE IF EXISTS usage_records;
 DROP TABLE IF EXISTS subscriptions;
 DROP TABLE IF EXISTS plan_limits;
 DROP TABLE IF EXISTS users;
+DROP FUNCTION IF EXISTS utc_now_text();
 `;
+
+const migration: Migration = {
+  version: 1,
+  name: 'core_tables',
+  up,
+  down,
+};
+
+export default migration;
@@ -0,0 +1,342 @@
+import type { Migration } from '../../migrator.js';
+
+// The rest of the schema: conversations, voice and anonymous usage, progress
+// sync, decks, phrase lists, organisations and auth. Columns mirror the SQLite
+// schema as of its migration 003, following the same rules as 001.
+
+const up = `
+-- Voice conversation turns (keyed by the voice conversation's session id,
+-- linked to a practice session when the client uses one as that id)
+CREATE TABLE conversation_turns (
+  id TEXT PRIMARY KEY,
+  session_id TEXT NOT NULL,
+  practice_session_id TEXT REFERENCES practice_sessions(id) ON DELETE CASCADE,
+  turn_index INTEGER NOT NULL,
+  role TEXT NOT NULL CHECK(role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  emotion TEXT,
+  created_at TEXT DEFAULT utc_now_text(),
+  UNIQUE(session_id, turn_index)
+);
+
+-- AI feedback reports generated from a session's transcript
+CREATE TABLE session_reports (
+  session_id TEXT PRIMARY KEY REFERENCES practice_sessions(id) ON DELETE CASCADE,
+  report TEXT NOT NULL,
+  created_at TEXT DEFAULT utc_now_text(),
+  updated_at TEXT DEFAULT utc_now_text()
+);
+
+-- Metered Fish Audio / Claude usage of the voice routes, per signed-in user or
+-- anonymous device. minutes is what the request cost against the daily
+-- allowance (0 when the practice session's own time is billed instead)
+CREATE TABLE voice_usage (
+  id TEXT PRIMARY KEY,
+  user_id TEXT REFERENCES users(id) ON DELETE CASCADE,
+  device_id TEXT,
+  practice_session_id TEXT REFERENCES practice_sessions(id) ON DELETE SET NULL,
+  date TEXT NOT NULL,
+  route TEXT NOT NULL,
+  tts_characters INTEGER DEFAULT 0,
+  stt_seconds DOUBLE PRECISION DEFAULT 0,
+  llm_turns INTEGER DEFAULT 0,
+  minutes DOUBLE PRECISION DEFAULT 0,
+  created_at TEXT DEFAULT utc_now_text()
+);
+
+-- Free trial usage by anonymous devices, keyed by the server-issued device
+-- token plus a hash of the client IP (so clearing the token does not reset the
+-- trial). Today's minutes are carried into the account on registration.
+CREATE TABLE anonymous_usage (
+  id TEXT PRIMARY KEY,
+  device_id TEXT NOT NULL,
+  ip_hash TEXT NOT NULL,
+  date TEXT NOT NULL,
+  minutes_used DOUBLE PRECISION DEFAULT 0,
+  sessions_count INTEGER DEFAULT 0,
+  session_started_at TEXT,
+  last_activity_at TEXT,
+  claimed_by_user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+  created_at TEXT DEFAULT utc_now_text(),
+  updated_at TEXT DEFAULT utc_now_text(),
+  UNIQUE(device_id, date)
+);
+
+-- Client progress documents synced across devices (one JSON document per
+-- localStorage key, versioned for optimistic concurrency)
+CREATE TABLE progress_documents (
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  doc_key TEXT NOT NULL,
+  data TEXT NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1,
+  reset_version INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT DEFAULT utc_now_text(),
+  updated_at TEXT DEFAULT utc_now_text(),
+  PRIMARY KEY (user_id, doc_key)
+);
+
+-- User-authored slang decks (industry terms etc.), used alongside the
+-- built-in slang list
+CREATE TABLE decks (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  created_at TEXT DEFAULT utc_now_text(),
+  updated_at TEXT DEFAULT utc_now_text()
+);
+
+CREATE TABLE deck_terms (
+  id TEXT PRIMARY KEY,
+  deck_id TEXT NOT NULL REFERENCES decks(id) ON DELETE CASCADE,
+  term TEXT NOT NULL,
+  meaning TEXT NOT NULL,
+  example TEXT NOT NULL,
+  category TEXT NOT NULL,
+  difficulty TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  created_at TEXT DEFAULT utc_now_text(),
+  updated_at TEXT DEFAULT utc_now_text()
+);
+
+-- User-authored pronunciation phrase lists
+CREATE TABLE phrase_lists (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  created_at TEXT DEFAULT utc_now_text(),
+  updated_at TEXT DEFAULT utc_now_text()
+);
+
+CREATE TABLE phrase_list_items (
+  id TEXT PRIMARY KEY,
+  list_id TEXT NOT NULL REFERENCES phrase_lists(id) ON DELETE CASCADE,
+  text TEXT NOT NULL,
+  hint TEXT,
+  position INTEGER NOT NULL,
+  created_at TEXT DEFAULT utc_now_text(),
+  updated_at TEXT DEFAULT utc_now_text()
+);
+
+-- Organisations (e.g. a workplace-readiness program) that buy seats for
+-- groups of learners. Admins manage the organisation and its billing,
+-- teachers run cohorts and see their learners' dashboards
+CREATE TABLE organisations (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  created_at TEXT DEFAULT utc_now_text(),
+  updated_at TEXT DEFAULT utc_now_text()
+);
+
+-- has_seat marks learners covered by the organisation's subscription
+CREATE TABLE organisation_members (
+  organisation_id TEXT NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK(role IN ('admin', 'teacher', 'learner')),
+  has_seat INTEGER DEFAULT 0,
+  created_at TEXT DEFAULT utc_now_text(),
+  updated_at TEXT DEFAULT utc_now_text(),
+  PRIMARY KEY (organisation_id, user_id)
+);
+
+CREATE TABLE cohorts (
+  id TEXT PRIMARY KEY,
+  organisation_id TEXT NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  created_at TEXT DEFAULT utc_now_text(),
+  updated_at TEXT DEFAULT utc_now_text()
+);
+
+CREATE TABLE cohort_members (
+  cohort_id TEXT NOT NULL REFERENCES cohorts(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TEXT DEFAULT utc_now_text(),
+  PRIMARY KEY (cohort_id, user_id)
+);
+
+-- Invite codes join an organisation with a role, optionally straight into
+-- a cohort
+CREATE TABLE organisation_invites (
+  id TEXT PRIMARY KEY,
+  organisation_id TEXT NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+  cohort_id TEXT REFERENCES cohorts(id) ON DELETE CASCADE,
+  code TEXT UNIQUE NOT NULL,
+  role TEXT NOT NULL CHECK(role IN ('admin', 'teacher', 'learner')),
+  max_uses INTEGER,
+  uses INTEGER DEFAULT 0,
+  expires_at TEXT,
+  created_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  created_at TEXT DEFAULT utc_now_text()
+);
+
+-- Pooled subscription shared by an organisation's seated learners
+CREATE TABLE organisation_subscriptions (
+  id TEXT PRIMARY KEY,
+  organisation_id TEXT NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+  plan TEXT NOT NULL CHECK(plan IN ('starter', 'professional', 'executive')),
+  seats INTEGER NOT NULL,
+  status TEXT NOT NULL CHECK(status IN ('active', 'canceled', 'past_due', 'trialing')),
+  stripe_subscription_id TEXT UNIQUE,
+  stripe_price_id TEXT,
+  current_period_start TEXT,
+  current_period_end TEXT,
+  cancel_at_period_end INTEGER DEFAULT 0,
+  created_at TEXT DEFAULT utc_now_text(),
+  updated_at TEXT DEFAULT utc_now_text()
+);
+
+-- Work set by teachers for a cohort, due by a date. Each task is a scenario
+-- to practise or a slang quiz to pass
+CREATE TABLE assignments (
+  id TEXT PRIMARY KEY,
+  cohort_id TEXT NOT NULL REFERENCES cohorts(id) ON DELETE CASCADE,
+  created_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  due_at TEXT NOT NULL,
+  created_at TEXT DEFAULT utc_now_text(),
+  updated_at TEXT DEFAULT utc_now_text()
+);
+
+-- scenario tasks use scenario_id; slang_quiz tasks use question_count and
+-- optionally category, deck_id and min_score (percent correct)
+CREATE TABLE assignment_tasks (
+  id TEXT PRIMARY KEY,
+  assignment_id TEXT NOT NULL REFERENCES assignments(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK(type IN ('scenario', 'slang_quiz')),
+  scenario_id TEXT,
+  category TEXT,
+  deck_id TEXT REFERENCES decks(id) ON DELETE SET NULL,
+  question_count INTEGER,
+  min_score INTEGER,
+  position INTEGER NOT NULL
+);
+
+-- Finished slang quizzes, reported by the client
+CREATE TABLE quiz_results (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  category TEXT,
+  difficulty TEXT,
+  deck_id TEXT,
+  question_count INTEGER NOT NULL,
+  correct_count INTEGER NOT NULL,
+  completed_at TEXT NOT NULL,
+  created_at TEXT DEFAULT utc_now_text()
+);
+
+-- Single-use tokens for password resets and email verification. Only a
+-- hash of each token is stored; the token itself goes out by email
+CREATE TABLE auth_tokens (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK(type IN ('password_reset', 'email_verification')),
+  token_hash TEXT UNIQUE NOT NULL,
+  expires_at TEXT NOT NULL,
+  used_at TEXT,
+  created_at TEXT DEFAULT utc_now_text()
+);
+
+-- Signed-in devices. Each holds a refresh token that is swapped for a new
+-- one on every refresh; presenting the previous token again means it was
+-- copied, and revokes the session
+CREATE TABLE auth_sessions (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  refresh_token_hash TEXT UNIQUE NOT NULL,
+  previous_token_hash TEXT,
+  user_agent TEXT,
+  created_at TEXT DEFAULT utc_now_text(),
+  last_used_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL,
+  revoked_at TEXT
+);
+
+-- External sign-in identities (Google, Apple, ...) linked to users
+CREATE TABLE user_identities (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  email TEXT,
+  created_at TEXT DEFAULT utc_now_text(),
+  last_login_at TEXT,
+  UNIQUE(provider, subject)
+);
+
+-- In-flight OAuth sign-ins. The state row is created when the user is sent
+-- to the provider; after the callback it holds a one-time login code that
+-- the frontend trades for tokens
+CREATE TABLE oauth_states (
+  id TEXT PRIMARY KEY,
+  state_hash TEXT UNIQUE NOT NULL,
+  provider TEXT NOT NULL,
+  nonce TEXT NOT NULL,
+  code_verifier TEXT,
+  user_id TEXT REFERENCES users(id) ON DELETE CASCADE,
+  login_code_hash TEXT UNIQUE,
+  expires_at TEXT NOT NULL,
+  used_at TEXT,
+  created_at TEXT DEFAULT utc_now_text()
+);
+
+CREATE INDEX idx_conversation_turns_session_id ON conversation_turns(session_id);
+CREATE INDEX idx_conversation_turns_practice_session_id ON conversation_turns(practice_session_id);
+CREATE INDEX idx_voice_usage_user_date ON voice_usage(user_id, date);
+CREATE INDEX idx_voice_usage_device_date ON voice_usage(device_id, date);
+CREATE INDEX idx_voice_usage_practice_session_id ON voice_usage(practice_session_id);
+CREATE INDEX idx_anonymous_usage_ip_date ON anonymous_usage(ip_hash, date);
+CREATE INDEX idx_decks_user_id ON decks(user_id);
+CREATE INDEX idx_deck_terms_deck_id ON deck_terms(deck_id, position);
+CREATE INDEX idx_phrase_lists_user_id ON phrase_lists(user_id);
+CREATE INDEX idx_phrase_list_items_list_id ON phrase_list_items(list_id, position);
+CREATE INDEX idx_organisation_members_user_id ON organisation_members(user_id);
+CREATE INDEX idx_cohorts_organisation_id ON cohorts(organisation_id);
+CREATE INDEX idx_cohort_members_user_id ON cohort_members(user_id);
+CREATE INDEX idx_organisation_invites_organisation_id ON organisation_invites(organisation_id);
+CREATE INDEX idx_organisation_subscriptions_organisation_id ON organisation_subscriptions(organisation_id);
+CREATE INDEX idx_assignments_cohort_id ON assignments(cohort_id, due_at);
+CREATE INDEX idx_assignment_tasks_assignment_id ON assignment_tasks(assignment_id, position);
+CREATE INDEX idx_quiz_results_user_id ON quiz_results(user_id, completed_at);
+CREATE INDEX idx_auth_tokens_user_id ON auth_tokens(user_id, type);
+CREATE INDEX idx_auth_sessions_user_id ON auth_sessions(user_id);
+CREATE INDEX idx_auth_sessions_previous_token_hash ON auth_sessions(previous_token_hash);
+CREATE INDEX idx_user_identities_user_id ON user_identities(user_id);
+`;
+
+const down = `
+DROP TABLE IF EXISTS oauth_states;
+DROP TABLE IF EXISTS user_identities;
+DROP TABLE IF EXISTS auth_sessions;
+DROP TABLE IF EXISTS auth_tokens;
+DROP TABLE IF EXISTS quiz_results;
+DROP TABLE IF EXISTS assignment_tasks;
+DROP TABLE IF EXISTS assignments;
+DROP TABLE IF EXISTS organisation_subscriptions;
+DROP TABLE IF EXISTS organisation_invites;
+DROP TABLE IF EXISTS cohort_members;
+DROP TABLE IF EXISTS cohorts;
+DROP TABLE IF EXISTS organisation_members;
+DROP TABLE IF EXISTS organisations;
+DROP TABLE IF EXISTS phrase_list_items;
+DROP TABLE IF EXISTS phrase_lists;
+DROP TABLE IF EXISTS deck_terms;
+DROP TABLE IF EXISTS decks;
+DROP TABLE IF EXISTS progress_documents;
+DROP TABLE IF EXISTS anonymous_usage;
+DROP TABLE IF EXISTS voice_usage;
+DROP TABLE IF EXISTS session_reports;
+DROP TABLE IF EXISTS conversation_turns;
+`;
+
+const migration: Migration = {
+  version: 2,
+  name: 'remaining_tables',
+  up,
+  down,
+};
+
+export default migration;
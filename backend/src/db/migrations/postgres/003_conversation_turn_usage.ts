@@ -0,0 +1,24 @@
+import type { Migration } from '../../migrator.js';
+
+// Which tutor model wrote each assistant turn and the tokens it used
+
+const up = `
+ALTER TABLE conversation_turns ADD COLUMN model TEXT;
+ALTER TABLE conversation_turns ADD COLUMN input_tokens INTEGER;
+ALTER TABLE conversation_turns ADD COLUMN output_tokens INTEGER;
+`;
+
+const down = `
+ALTER TABLE conversation_turns DROP COLUMN output_tokens;
+ALTER TABLE conversation_turns DROP COLUMN input_tokens;
+ALTER TABLE conversation_turns DROP COLUMN model;
+`;
+
+const migration: Migration = {
+  version: 3,
+  name: 'conversation_turn_usage',
+  up,
+  down,
+};
+
+export default migration;
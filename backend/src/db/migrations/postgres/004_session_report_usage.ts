@@ -0,0 +1,24 @@
+import type { Migration } from '../../migrator.js';
+
+// Which tutor model wrote each feedback report and the tokens it used
+
+const up = `
+ALTER TABLE session_reports ADD COLUMN model TEXT;
+ALTER TABLE session_reports ADD COLUMN input_tokens INTEGER;
+ALTER TABLE session_reports ADD COLUMN output_tokens INTEGER;
+`;
+
+const down = `
+ALTER TABLE session_reports DROP COLUMN output_tokens;
+ALTER TABLE session_reports DROP COLUMN input_tokens;
+ALTER TABLE session_reports DROP COLUMN model;
+`;
+
+const migration: Migration = {
+  version: 4,
+  name: 'session_report_usage',
+  up,
+  down,
+};
+
+export default migration;
@@ -0,0 +1,14 @@
+import type { Migration } from '../../migrator.js';
+import coreTables from './001_core_tables.js';
+import remainingTables from './002_remaining_tables.js';
+import conversationTurnUsage from './003_conversation_turn_usage.js';
+import sessionReportUsage from './004_session_report_usage.js';
+
+// Migrations for the PostgreSQL database used with DATABASE_DRIVER=postgres.
+// Same rules as the SQLite list: NNN_description.ts, never edit one once applied.
+export const postgresMigrations: Migration[] = [
+  coreTables,
+  remainingTables,
+  conversationTurnUsage,
+  sessionReportUsage,
+];
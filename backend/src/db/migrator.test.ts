@@ -0,0 +1,133 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import Database from 'better-sqlite3';
+import {
+  Migration,
+  applyMigrations,
+  rollbackMigrations,
+  getMigrationStatus,
+  migrationChecksum,
+} from './migrator.js';
+import { migrations } from './migrations/index.js';
+
+const createNotes: Migration = {
+  version: 1,
+  name: 'notes',
+  up: 'CREATE TABLE notes (id INTEGER PRIMARY KEY, body TEXT NOT NULL);',
+  down: 'DROP TABLE notes;',
+};
+
+const addNoteTitle: Migration = {
+  version: 2,
+  name: 'note_title',
+  up: 'ALTER TABLE notes ADD COLUMN title TEXT;',
+  down: 'ALTER TABLE notes DROP COLUMN title;',
+};
+
+function tables(db: Database.Database): string[] {
+  return (db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name").all() as { name: string }[])
+    .map(row => row.name);
+}
+
+function columns(db: Database.Database, table: string): string[] {
+  return (db.pragma(`table_info(${table})`) as { name: string }[]).map(column => column.name);
+}
+
+test('pending migrations are applied in version order and recorded once', () => {
+  const db = new Database(':memory:');
+
+  assert.deepEqual(applyMigrations(db, [addNoteTitle, createNotes], 1).map(m => m.version), [1]);
+  assert.deepEqual(applyMigrations(db, [addNoteTitle, createNotes]).map(m => m.version), [2]);
+  assert.deepEqual(applyMigrations(db, [createNotes, addNoteTitle]), []);
+
+  assert.deepEqual(columns(db, 'notes'), ['id', 'body', 'title']);
+  const recorded = db.prepare('SELECT version, checksum FROM schema_migrations ORDER BY version').all();
+  assert.deepEqual(recorded, [
+    { version: 1, checksum: migrationChecksum(createNotes) },
+    { version: 2, checksum: migrationChecksum(addNoteTitle) },
+  ]);
+});
+
+test('a migration edited after it was applied is refused', () => {
+  const db = new Database(':memory:');
+  applyMigrations(db, [createNotes]);
+
+  const edited = { ...createNotes, up: 'CREATE TABLE notes (id INTEGER PRIMARY KEY);' };
+  assert.throws(() => applyMigrations(db, [edited, addNoteTitle]), /has changed since it was applied/);
+  assert.throws(() => rollbackMigrations(db, [edited]), /has changed since it was applied/);
+  assert.equal(getMigrationStatus(db, [edited])[0].checksum_ok, false);
+  // Nothing after it ran either
+  assert.deepEqual(columns(db, 'notes'), ['id', 'body']);
+
+  assert.throws(() => applyMigrations(db, [addNoteTitle]), /missing from the code/);
+});
+
+test('rolling back runs down steps newest first', () => {
+  const db = new Database(':memory:');
+  applyMigrations(db, [createNotes, addNoteTitle]);
+
+  assert.deepEqual(rollbackMigrations(db, [createNotes, addNoteTitle]).map(m => m.version), [2]);
+  assert.deepEqual(columns(db, 'notes'), ['id', 'body']);
+  assert.deepEqual(getMigrationStatus(db, [createNotes, addNoteTitle]).map(s => s.applied_at !== null), [true, false]);
+
+  applyMigrations(db, [createNotes, addNoteTitle]);
+  assert.deepEqual(rollbackMigrations(db, [createNotes, addNoteTitle], 5).map(m => m.version), [2, 1]);
+  assert.deepEqual(tables(db), ['schema_migrations']);
+});
+
+test('a failing migration leaves no trace', () => {
+  const db = new Database(':memory:');
+  const broken: Migration = {
+    version: 2,
+    name: 'broken',
+    up: 'CREATE TABLE tags (id INTEGER PRIMARY KEY); INSERT INTO missing_table VALUES (1);',
+    down: 'DROP TABLE tags;',
+  };
+
+  assert.throws(() => applyMigrations(db, [createNotes, broken]), /no such table/);
+  assert.deepEqual(tables(db), ['notes', 'schema_migrations']);
+  assert.deepEqual(getMigrationStatus(db, [createNotes, broken]).map(s => s.applied_at !== null), [true, false]);
+});
+
+test('a migration run without foreign keys must not leave violations', () => {
+  const db = new Database(':memory:');
+  db.pragma('foreign_keys = ON');
+  const createComments: Migration = {
+    version: 2,
+    name: 'comments',
+    up: 'CREATE TABLE comments (id INTEGER PRIMARY KEY, note_id INTEGER NOT NULL REFERENCES notes(id));',
+    down: 'DROP TABLE comments;',
+  };
+  applyMigrations(db, [createNotes, createComments]);
+  db.exec("INSERT INTO notes (id, body) VALUES (1, 'hi'); INSERT INTO comments (note_id) VALUES (1);");
+
+  const orphaning: Migration = {
+    version: 3,
+    name: 'orphaning',
+    up: 'DELETE FROM notes;',
+    down: '',
+    disableForeignKeys: true,
+  };
+  assert.throws(() => applyMigrations(db, [createNotes, createComments, orphaning]), /1 foreign key violation/);
+  assert.equal((db.prepare('SELECT COUNT(*) AS count FROM notes').get() as { count: number }).count, 1);
+  assert.equal(db.pragma('foreign_keys', { simple: true }), 1);
+});
+
+test('duplicate versions are refused', () => {
+  const db = new Database(':memory:');
+  assert.throws(() => applyMigrations(db, [createNotes, { ...addNoteTitle, version: 1 }]), /Duplicate migration version 1/);
+});
+
+test('the app\'s migrations all roll back and apply again', () => {
+  const db = new Database(':memory:');
+  db.pragma('foreign_keys = ON');
+
+  applyMigrations(db, migrations);
+  const schema = tables(db);
+
+  assert.equal(rollbackMigrations(db, migrations, migrations.length).length, migrations.length);
+  assert.deepEqual(tables(db), ['schema_migrations']);
+
+  applyMigrations(db, migrations);
+  assert.deepEqual(tables(db), schema);
+});
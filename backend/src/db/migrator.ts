@@ -0,0 +1,175 @@
+import crypto from 'crypto';
+import type { Database as DatabaseType } from 'better-sqlite3';
+
+/**
+ * A versioned schema change. Migrations are applied in version order, each
+ * in its own transaction, and recorded in schema_migrations with a checksum
+ * of their up SQL - so editing one that has already run is caught rather
+ * than silently ignored. Add new ones to migrations/index.ts.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string;
+  // SQLite can only rebuild a table (to change a column or CHECK constraint)
+  // with foreign key enforcement off. The keys are checked before committing.
+  disableForeignKeys?: boolean;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: string;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied_at: string | null;
+  // False when the migration changed after it was applied
+  checksum_ok: boolean;
+}
+
+// e.g. 001_initial_schema
+export function describeMigration(migration: Pick<Migration, 'version' | 'name'>): string {
+  return `${String(migration.version).padStart(3, '0')}_${migration.name}`;
+}
+
+export function migrationChecksum(migration: Migration): string {
+  return crypto.createHash('sha256').update(migration.up).digest('hex');
+}
+
+function ensureMigrationsTable(db: DatabaseType): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      checksum TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+}
+
+function getApplied(db: DatabaseType): AppliedMigration[] {
+  ensureMigrationsTable(db);
+  return db.prepare('SELECT * FROM schema_migrations ORDER BY version ASC').all() as AppliedMigration[];
+}
+
+export function sortMigrations(migrations: Migration[]): Migration[] {
+  const sorted = [...migrations].sort((a, b) => a.version - b.version);
+  sorted.forEach((migration, i) => {
+    if (i > 0 && sorted[i - 1].version === migration.version) {
+      throw new Error(`Duplicate migration version ${migration.version}`);
+    }
+  });
+  return sorted;
+}
+
+// Every applied migration must still exist and be unchanged
+export function verifyApplied(applied: AppliedMigration[], migrations: Migration[]): void {
+  const byVersion = new Map(migrations.map(migration => [migration.version, migration]));
+
+  for (const row of applied) {
+    const migration = byVersion.get(row.version);
+    if (!migration) {
+      throw new Error(`Migration ${describeMigration(row)} was applied but is missing from the code`);
+    }
+    if (migrationChecksum(migration) !== row.checksum) {
+      throw new Error(
+        `Migration ${describeMigration(row)} has changed since it was applied - add a new migration instead`
+      );
+    }
+  }
+}
+
+function runInTransaction(db: DatabaseType, migration: Migration, sql: string, record: () => void): void {
+  const run = db.transaction(() => {
+    db.exec(sql);
+    if (migration.disableForeignKeys) {
+      const violations = db.pragma('foreign_key_check') as unknown[];
+      if (violations.length > 0) {
+        throw new Error(`Migration ${describeMigration(migration)} left ${violations.length} foreign key violation(s)`);
+      }
+    }
+    record();
+  });
+
+  if (!migration.disableForeignKeys) {
+    run();
+    return;
+  }
+
+  db.pragma('foreign_keys = OFF');
+  try {
+    run();
+  } finally {
+    db.pragma('foreign_keys = ON');
+  }
+}
+
+/**
+ * Apply pending migrations, up to and including `target` if given.
+ * Returns the migrations that ran.
+ */
+export function applyMigrations(db: DatabaseType, migrations: Migration[], target?: number): Migration[] {
+  const sorted = sortMigrations(migrations);
+  const applied = getApplied(db);
+  verifyApplied(applied, sorted);
+
+  const appliedVersions = new Set(applied.map(row => row.version));
+  const pending = sorted.filter(migration =>
+    !appliedVersions.has(migration.version) && (target === undefined || migration.version <= target)
+  );
+
+  const record = db.prepare('INSERT INTO schema_migrations (version, name, checksum, applied_at) VALUES (?, ?, ?, ?)');
+  for (const migration of pending) {
+    runInTransaction(db, migration, migration.up, () => {
+      record.run(migration.version, migration.name, migrationChecksum(migration), new Date().toISOString());
+    });
+  }
+
+  return pending;
+}
+
+/**
+ * Undo the most recently applied migrations, newest first. Returns the
+ * migrations that were rolled back.
+ */
+export function rollbackMigrations(db: DatabaseType, migrations: Migration[], steps: number = 1): Migration[] {
+  if (steps < 1) return [];
+
+  const sorted = sortMigrations(migrations);
+  const applied = getApplied(db);
+  verifyApplied(applied, sorted);
+
+  const byVersion = new Map(sorted.map(migration => [migration.version, migration]));
+  const toRollBack = applied
+    .slice(-steps)
+    .reverse()
+    .map(row => byVersion.get(row.version) as Migration);
+
+  const remove = db.prepare('DELETE FROM schema_migrations WHERE version = ?');
+  for (const migration of toRollBack) {
+    runInTransaction(db, migration, migration.down, () => {
+      remove.run(migration.version);
+    });
+  }
+
+  return toRollBack;
+}
+
+export function getMigrationStatus(db: DatabaseType, migrations: Migration[]): MigrationStatus[] {
+  const applied = new Map(getApplied(db).map(row => [row.version, row]));
+
+  return sortMigrations(migrations).map(migration => {
+    const row = applied.get(migration.version);
+    return {
+      version: migration.version,
+      name: migration.name,
+      applied_at: row?.applied_at ?? null,
+      checksum_ok: !row || row.checksum === migrationChecksum(migration),
+    };
+  });
+}
@@ -0,0 +1,142 @@
+import pg from 'pg';
+import type { Pool, PoolClient } from 'pg';
+import {
+  Migration,
+  AppliedMigration,
+  MigrationStatus,
+  migrationChecksum,
+  sortMigrations,
+  verifyApplied,
+} from './migrator.js';
+
+let pool: Pool | undefined;
+
+/**
+ * The shared connection pool for DATABASE_DRIVER=postgres, created on first
+ * use from DATABASE_URL (and DATABASE_POOL_SIZE, default 10)
+ */
+export function getPool(): Pool {
+  if (!pool) {
+    if (!process.env.DATABASE_URL) {
+      throw new Error('DATABASE_URL is required when DATABASE_DRIVER=postgres');
+    }
+    pool = new pg.Pool({
+      connectionString: process.env.DATABASE_URL,
+      max: Number(process.env.DATABASE_POOL_SIZE) || 10,
+    });
+    pool.on('error', error => console.error('Postgres pool error:', error));
+  }
+  return pool;
+}
+
+export async function closePool(): Promise<void> {
+  if (!pool) return;
+  const closing = pool;
+  pool = undefined;
+  await closing.end();
+}
+
+// Serialises migration runs from several app instances starting at once
+const MIGRATION_LOCK_ID = 7314529;
+
+async function withMigrationLock<T>(run: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await getPool().connect();
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        checksum TEXT NOT NULL,
+        applied_at TEXT NOT NULL
+      )
+    `);
+    return await run(client);
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]).catch(() => undefined);
+    client.release();
+  }
+}
+
+async function getApplied(client: PoolClient): Promise<AppliedMigration[]> {
+  const result = await client.query('SELECT * FROM schema_migrations ORDER BY version ASC');
+  return result.rows as AppliedMigration[];
+}
+
+async function runInTransaction(client: PoolClient, sql: string, record: () => Promise<unknown>): Promise<void> {
+  await client.query('BEGIN');
+  try {
+    await client.query(sql);
+    await record();
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
+}
+
+// The Postgres counterparts of applyMigrations / rollbackMigrations /
+// getMigrationStatus in migrator.ts, with the same checksum rules
+
+export async function applyPostgresMigrations(migrations: Migration[], target?: number): Promise<Migration[]> {
+  return withMigrationLock(async client => {
+    const sorted = sortMigrations(migrations);
+    const applied = await getApplied(client);
+    verifyApplied(applied, sorted);
+
+    const appliedVersions = new Set(applied.map(row => row.version));
+    const pending = sorted.filter(migration =>
+      !appliedVersions.has(migration.version) && (target === undefined || migration.version <= target)
+    );
+
+    for (const migration of pending) {
+      await runInTransaction(client, migration.up, () => client.query(
+        'INSERT INTO schema_migrations (version, name, checksum, applied_at) VALUES ($1, $2, $3, $4)',
+        [migration.version, migration.name, migrationChecksum(migration), new Date().toISOString()]
+      ));
+    }
+
+    return pending;
+  });
+}
+
+export async function rollbackPostgresMigrations(migrations: Migration[], steps: number = 1): Promise<Migration[]> {
+  if (steps < 1) return [];
+
+  return withMigrationLock(async client => {
+    const sorted = sortMigrations(migrations);
+    const applied = await getApplied(client);
+    verifyApplied(applied, sorted);
+
+    const byVersion = new Map(sorted.map(migration => [migration.version, migration]));
+    const toRollBack = applied
+      .slice(-steps)
+      .reverse()
+      .map(row => byVersion.get(row.version) as Migration);
+
+    for (const migration of toRollBack) {
+      await runInTransaction(client, migration.down, () => client.query(
+        'DELETE FROM schema_migrations WHERE version = $1',
+        [migration.version]
+      ));
+    }
+
+    return toRollBack;
+  });
+}
+
+export async function getPostgresMigrationStatus(migrations: Migration[]): Promise<MigrationStatus[]> {
+  return withMigrationLock(async client => {
+    const applied = new Map((await getApplied(client)).map(row => [row.version, row]));
+
+    return sortMigrations(migrations).map(migration => {
+      const row = applied.get(migration.version);
+      return {
+        version: migration.version,
+        name: migration.name,
+        applied_at: row?.applied_at ?? null,
+        checksum_ok: !row || row.checksum === migrationChecksum(migration),
+      };
+    });
+  });
+}
@@ -0,0 +1,263 @@
+import 'dotenv/config';
+import { v4 as uuidv4 } from 'uuid';
+import { getSqlite, databaseDriver, initializeDatabase } from './database.js';
+import { UserModel } from '../models/User.js';
+import { SubscriptionModel, PlanType } from '../models/Subscription.js';
+import { scenarios } from '../data/scenarios.js';
+
+// Fills the database with made-up learners for local development: accounts
+// on every plan, and a few weeks of practice sessions with transcripts,
+// daily usage and slang quiz scores. Runs are repeatable for the same
+// --seed, and learners that already exist are left alone.
+//
+// Usage: npm run db:seed [-- --users 12 --days 30 --seed 1]
+
+const SEED_PASSWORD = 'password123';
+
+const FIRST_NAMES = [
+  'Priya', 'Wei', 'Carlos', 'Aisha', 'Tomasz', 'Mei', 'Olusegun', 'Yuki',
+  'Fatima', 'Diego', 'Anh', 'Ravi', 'Sofia', 'Hamid', 'Ji-woo', 'Lucia',
+];
+const LAST_NAMES = [
+  'Sharma', 'Chen', 'Rodriguez', 'Okafor', 'Nowak', 'Tanaka', 'Haddad', 'Nguyen',
+  'Silva', 'Kim', 'Patel', 'Rossi', 'Ahmadi', 'Garcia', 'Singh', 'Park',
+];
+
+// Roughly how the user base splits across plans
+const PLAN_WEIGHTS: [PlanType, number][] = [
+  ['free', 5],
+  ['starter', 3],
+  ['professional', 2],
+  ['executive', 1],
+];
+
+const LEARNER_REPLIES = [
+  "G'day! Yeah, I'm going well, thanks. How are you?",
+  'Sorry, could you say that again a bit slower?',
+  "I've been working in hospitality for about three years now.",
+  "No worries, I can do that by arvo if that's alright.",
+  'What does "flat out" mean exactly?',
+  "I reckon that'd work for me.",
+  'Thanks heaps, that was really helpful.',
+];
+
+const TUTOR_REPLIES = [
+  "Good on ya! That sounds spot on.",
+  "Ah, \"flat out\" just means really busy - like \"I'm flat out like a lizard drinking\".",
+  "Too easy. And what made you want to move into this kind of role?",
+  "Nice one - you'd hear that a lot around the office here.",
+  "Fair enough! Let's keep going.",
+];
+
+const QUIZ_CATEGORIES = ['greetings', 'expressions', 'food', 'workplace', 'wildlife'];
+
+// Small deterministic PRNG (mulberry32) so a seed always gives the same data
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function option(args: string[], name: string, fallback: number): number {
+  const index = args.indexOf(name);
+  if (index === -1) return fallback;
+
+  const value = Number(args[index + 1]);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`${name} needs a positive whole number`);
+  }
+  return value;
+}
+
+async function main(): Promise<void> {
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('Refusing to seed a production database');
+  }
+  // Practice history is written straight into the SQLite tables
+  if (databaseDriver !== 'sqlite') {
+    throw new Error('Seeding only supports DATABASE_DRIVER=sqlite');
+  }
+
+  const args = process.argv.slice(2);
+  const userCount = option(args, '--users', 12);
+  const days = option(args, '--days', 30);
+  const random = createRandom(option(args, '--seed', 1));
+
+  const pickPlan = (): PlanType => {
+    const total = PLAN_WEIGHTS.reduce((sum, [, weight]) => sum + weight, 0);
+    let roll = random() * total;
+    for (const [plan, weight] of PLAN_WEIGHTS) {
+      roll -= weight;
+      if (roll < 0) return plan;
+    }
+    return 'free';
+  };
+
+  await initializeDatabase();
+
+  const db = getSqlite();
+  const insertSession = db.prepare(`
+    INSERT INTO practice_sessions (
+      id, user_id, started_at, ended_at, duration_seconds, billed_seconds, scenario_id,
+      messages_count, feedback, last_activity_at, created_at
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const insertTurn = db.prepare(`
+    INSERT INTO conversation_turns (id, session_id, practice_session_id, turn_index, role, content, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  const insertUsage = db.prepare(`
+    INSERT INTO usage_records (id, user_id, date, minutes_used, sessions_count, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  const insertQuiz = db.prepare(`
+    INSERT INTO quiz_results (id, user_id, category, question_count, correct_count, completed_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+
+  let created = 0;
+  let sessionCount = 0;
+
+  for (let i = 0; i < userCount; i++) {
+    // Draw every value for this learner up front, so skipping an existing
+    // learner doesn't shift the data generated for the ones after it
+    const firstName = FIRST_NAMES[i % FIRST_NAMES.length];
+    const lastName = LAST_NAMES[(i * 7) % LAST_NAMES.length];
+    const email = `${firstName}.${lastName}${i >= FIRST_NAMES.length ? i : ''}@example.com`
+      .toLowerCase()
+      .replace(/[^a-z0-9.@]/g, '');
+    const plan = pickPlan();
+    const verified = random() < 0.85;
+    // How many of the days this learner practises
+    const engagement = 0.2 + random() * 0.7;
+    const periodStartDaysAgo = 1 + Math.floor(random() * 25);
+    const learnerSeed = Math.floor(random() * 2 ** 32);
+
+    if (await UserModel.findByEmail(email)) continue;
+
+    const learnerRandom = createRandom(learnerSeed);
+    const user = await UserModel.create({ email, password: SEED_PASSWORD, name: `${firstName} ${lastName}` });
+    if (verified) await UserModel.markEmailVerified(user.id);
+
+    const now = new Date();
+    const periodStart = new Date(now.getTime() - periodStartDaysAgo * 24 * 60 * 60 * 1000);
+    await SubscriptionModel.create({
+      user_id: user.id,
+      plan,
+      status: 'active',
+      ...(plan === 'free' ? {} : {
+        current_period_start: periodStart.toISOString(),
+        current_period_end: new Date(periodStart.getTime() + 30 * 24 * 60 * 60 * 1000).toISOString(),
+      }),
+    });
+    const dailyLimitSeconds = ((await SubscriptionModel.getPlanLimit(plan))?.daily_minutes ?? 2) * 60;
+
+    const seedHistory = db.transaction(() => {
+      for (let day = days - 1; day >= 0; day--) {
+        if (learnerRandom() > engagement) continue;
+
+        const date = new Date(now);
+        date.setUTCDate(date.getUTCDate() - day);
+        date.setUTCHours(8 + Math.floor(learnerRandom() * 12), Math.floor(learnerRandom() * 60), 0, 0);
+        // Today's sessions can't be in the future
+        if (date > now) date.setTime(now.getTime() - 60 * 60 * 1000);
+        const dateKey = date.toISOString().split('T')[0];
+
+        const sessionsToday = 1 + Math.floor(learnerRandom() * 2);
+        let secondsLeft = dailyLimitSeconds;
+        let secondsUsed = 0;
+        let sessionsStarted = 0;
+
+        for (let s = 0; s < sessionsToday && secondsLeft >= 30; s++) {
+          const scenario = scenarios[Math.floor(learnerRandom() * scenarios.length)];
+          const duration = Math.min(secondsLeft, 60 + Math.floor(learnerRandom() * 12 * 60));
+          const startedAt = new Date(date.getTime() + s * 45 * 60 * 1000);
+          const endedAt = new Date(startedAt.getTime() + duration * 1000);
+          const sessionId = uuidv4();
+
+          const turns = [scenario.firstMessage];
+          const exchanges = 2 + Math.floor(learnerRandom() * 4);
+          for (let t = 0; t < exchanges; t++) {
+            turns.push(LEARNER_REPLIES[Math.floor(learnerRandom() * LEARNER_REPLIES.length)]);
+            turns.push(TUTOR_REPLIES[Math.floor(learnerRandom() * TUTOR_REPLIES.length)]);
+          }
+
+          const feedbackRoll = learnerRandom();
+          insertSession.run(
+            sessionId,
+            user.id,
+            startedAt.toISOString(),
+            endedAt.toISOString(),
+            duration,
+            duration,
+            scenario.id,
+            turns.length,
+            feedbackRoll < 0.6 ? 1 : feedbackRoll < 0.7 ? 0 : null,
+            endedAt.toISOString(),
+            startedAt.toISOString()
+          );
+
+          turns.forEach((content, index) => {
+            const spokenAt = new Date(startedAt.getTime() + (duration * 1000 * index) / turns.length);
+            insertTurn.run(
+              uuidv4(),
+              sessionId,
+              sessionId,
+              index,
+              index % 2 === 0 ? 'assistant' : 'user',
+              content,
+              spokenAt.toISOString()
+            );
+          });
+
+          secondsLeft -= duration;
+          secondsUsed += duration;
+          sessionsStarted++;
+          sessionCount++;
+        }
+
+        insertUsage.run(
+          uuidv4(),
+          user.id,
+          dateKey,
+          Math.round((secondsUsed / 60) * 100) / 100,
+          sessionsStarted,
+          date.toISOString(),
+          date.toISOString()
+        );
+
+        if (learnerRandom() < 0.4) {
+          const questions = learnerRandom() < 0.5 ? 10 : 20;
+          const completedAt = new Date(Math.min(date.getTime() + 2 * 60 * 60 * 1000, now.getTime()));
+          insertQuiz.run(
+            uuidv4(),
+            user.id,
+            QUIZ_CATEGORIES[Math.floor(learnerRandom() * QUIZ_CATEGORIES.length)],
+            questions,
+            Math.round(questions * (0.4 + learnerRandom() * 0.6)),
+            completedAt.toISOString()
+          );
+        }
+      }
+    });
+    seedHistory();
+
+    created++;
+    console.log(`Created ${email} (${plan})`);
+  }
+
+  console.log(`Seeded ${created} learner(s) with ${sessionCount} practice session(s). Password for all: ${SEED_PASSWORD}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('Seeding failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
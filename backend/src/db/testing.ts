@@ -0,0 +1,39 @@
+import { databaseDriver, getSqlite, initializeDatabase } from './database.js';
+import { closePool, getPool } from './postgres.js';
+
+// Helpers for the test suite, which runs against whichever database
+// DATABASE_DRIVER picks (npm test for SQLite, npm run test:postgres)
+
+/**
+ * A freshly migrated, empty database for a test file. On Postgres this
+ * drops everything in the database, so it only runs against
+ * TEST_DATABASE_URL.
+ */
+export async function resetTestDatabase(): Promise<void> {
+  if (databaseDriver === 'postgres') {
+    if (!process.env.TEST_DATABASE_URL || process.env.DATABASE_URL !== process.env.TEST_DATABASE_URL) {
+      throw new Error('Refusing to reset a Postgres database other than TEST_DATABASE_URL');
+    }
+    await getPool().query('DROP SCHEMA public CASCADE; CREATE SCHEMA public');
+  }
+
+  await initializeDatabase();
+}
+
+/**
+ * Run a statement with ? placeholders on either database - for putting
+ * rows in a state the app never would, such as backdating them
+ */
+export async function execute(sql: string, params: unknown[] = []): Promise<void> {
+  if (databaseDriver === 'postgres') {
+    let index = 0;
+    await getPool().query(sql.replace(/\?/g, () => `$${++index}`), params);
+  } else {
+    getSqlite().prepare(sql).run(...params);
+  }
+}
+
+// Lets the test process exit once its tests are done
+export async function closeTestDatabase(): Promise<void> {
+  await closePool();
+}
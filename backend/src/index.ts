@@ -7,16 +7,34 @@ import { initializeDatabase } from './db/database.js';
 
 // Routes
 import authRoutes from './routes/auth.js';
+import oauthRoutes from './routes/oauth.js';
+import { createMockOidcRouter } from './routes/mockOidc.js';
+import { oauthService, MOCK_ISSUER_PATH } from './services/oauthService.js';
 import subscriptionRoutes from './routes/subscriptions.js';
 import sessionRoutes from './routes/sessions.js';
 import billingRoutes from './routes/billing.js';
 import voiceRoutes from './routes/voice.js';
+import progressRoutes from './routes/progress.js';
+import anonymousRoutes from './routes/anonymous.js';
+import deckRoutes from './routes/decks.js';
+import phraseListRoutes from './routes/phraseLists.js';
+import exportRoutes from './routes/exports.js';
+import organisationRoutes from './routes/organisations.js';
+import assignmentRoutes from './routes/assignments.js';
+import quizResultRoutes from './routes/quizResults.js';
+import { attachVoiceSocket } from './routes/voiceSocket.js';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
 
 // Initialize database
-initializeDatabase();
+await initializeDatabase();
+
+// Behind a load balancer, trust its X-Forwarded-For so req.ip (used by the
+// rate limiter and anonymous trial limits) is the client's address
+if (process.env.TRUST_PROXY) {
+  app.set('trust proxy', Number(process.env.TRUST_PROXY) || process.env.TRUST_PROXY);
+}
 
 // Security middleware
 app.use(helmet());
@@ -45,17 +63,28 @@ app.use(cors({
   credentials: true,
 }));
 
-// Rate limiting
+// Rate limiting. Heartbeats arrive every 30 seconds for as long as a session
+// runs, so they have their own per-user and per-device limits instead (see
+// routes/sessions.ts and routes/anonymous.ts)
+const HEARTBEAT_PATH = /^\/api\/(sessions\/[^/]+|anonymous\/sessions)\/heartbeat$/;
+
 const limiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: 100, // limit each IP to 100 requests per windowMs
   message: { error: 'Too many requests, please try again later' },
+  skip: (req) => req.method === 'POST' && HEARTBEAT_PATH.test(req.path),
 });
 app.use(limiter);
 
 // Stripe webhook needs raw body
 app.use('/api/billing/webhook', express.raw({ type: 'application/json' }));
 
+// Anki exports post a whole deck with its review state
+app.use('/api/exports', express.json({ limit: '2mb' }));
+
+// Synced progress documents keep every practice session, so they only grow
+app.use('/api/progress', express.json({ limit: '5mb' }));
+
 // Parse JSON for other routes
 app.use(express.json());
 
@@ -65,11 +94,24 @@ app.get('/health', (_req, res) => {
 });
 
 // API routes
+// Local stand-in for Google/Apple sign-in (OAUTH_MOCK_ENABLED=true)
+if (oauthService.mockIssuer) {
+  app.use(MOCK_ISSUER_PATH, createMockOidcRouter(oauthService.mockIssuer));
+}
+app.use('/api/auth/oauth', oauthRoutes);
 app.use('/api/auth', authRoutes);
 app.use('/api/subscriptions', subscriptionRoutes);
 app.use('/api/sessions', sessionRoutes);
 app.use('/api/billing', billingRoutes);
 app.use('/api/voice', voiceRoutes);
+app.use('/api/progress', progressRoutes);
+app.use('/api/anonymous', anonymousRoutes);
+app.use('/api/decks', deckRoutes);
+app.use('/api/phrase-lists', phraseListRoutes);
+app.use('/api/exports', exportRoutes);
+app.use('/api/organisations', organisationRoutes);
+app.use('/api/assignments', assignmentRoutes);
+app.use('/api/quiz-results', quizResultRoutes);
 
 // 404 handler
 app.use((_req, res) => {
@@ -83,7 +125,7 @@ app.use((err: any, _req: express.Request, res: express.Response, _next: express.
 });
 
 // Start server
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   console.log(`
 ╔════════════════════════════════════════════════════╗
 ║   Aussie English Practice Backend                  ║
@@ -92,4 +134,7 @@ app.listen(PORT, () => {
   `);
 });
 
+// Full-duplex voice channel (WebSocket on /api/voice/ws)
+attachVoiceSocket(server);
+
 export default app;
@@ -1,15 +1,40 @@
 import { Request, Response, NextFunction } from 'express';
-import { verifyToken, JWTPayload } from '../utils/jwt.js';
 import { UserModel } from '../models/User.js';
+import { authSessionService } from '../services/authSessionService.js';
+import { anonymousUsageService, AnonymousDevice } from '../services/anonymousUsageService.js';
 
 export interface AuthenticatedRequest extends Request {
   user?: {
     id: string;
     email: string;
+    // The signed-in device the access token belongs to
+    sessionId: string;
   };
 }
 
-export function authenticate(req: AuthenticatedRequest, res: Response, next: NextFunction): void {
+export interface DeviceRequest extends AuthenticatedRequest {
+  device?: AnonymousDevice;
+}
+
+/**
+ * The anonymous trial device from the X-Device-Token header, if valid
+ */
+export function getRequestDevice(req: Request): AnonymousDevice | null {
+  return anonymousUsageService.resolveDevice(req.get('X-Device-Token'), req.ip);
+}
+
+export function authenticateDevice(req: DeviceRequest, res: Response, next: NextFunction): void {
+  const device = getRequestDevice(req);
+  if (!device) {
+    res.status(401).json({ error: 'Device token required', code: 'DEVICE_TOKEN_REQUIRED' });
+    return;
+  }
+
+  req.device = device;
+  next();
+}
+
+export async function authenticate(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
   const authHeader = req.headers.authorization;
 
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
@@ -19,28 +44,42 @@ export function authenticate(req: AuthenticatedRequest, res: Response, next: Nex
 
   const token = authHeader.substring(7);
 
+  // Expired tokens, and tokens from signed-out sessions, are rejected
+  let payload;
   try {
-    const payload: JWTPayload = verifyToken(token);
-
-    // Verify user still exists
-    const user = UserModel.findById(payload.userId);
-    if (!user) {
-      res.status(401).json({ error: 'User not found' });
-      return;
-    }
-
-    req.user = {
-      id: payload.userId,
-      email: payload.email,
-    };
+    payload = await authSessionService.verifyAccessToken(token);
+  } catch (error) {
+    next(error);
+    return;
+  }
+  if (!payload) {
+    res.status(401).json({ error: 'Invalid token', code: 'INVALID_TOKEN' });
+    return;
+  }
 
-    next();
+  // Verify user still exists
+  let user;
+  try {
+    user = await UserModel.findById(payload.userId);
   } catch (error) {
-    res.status(401).json({ error: 'Invalid token' });
+    next(error);
+    return;
+  }
+  if (!user) {
+    res.status(401).json({ error: 'User not found' });
+    return;
   }
+
+  req.user = {
+    id: payload.userId,
+    email: payload.email,
+    sessionId: payload.sessionId,
+  };
+
+  next();
 }
 
-export function optionalAuth(req: AuthenticatedRequest, res: Response, next: NextFunction): void {
+export async function optionalAuth(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
   const authHeader = req.headers.authorization;
 
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
@@ -51,17 +90,18 @@ export function optionalAuth(req: AuthenticatedRequest, res: Response, next: Nex
   const token = authHeader.substring(7);
 
   try {
-    const payload: JWTPayload = verifyToken(token);
-    const user = UserModel.findById(payload.userId);
-
-    if (user) {
+    // Token invalid, continue without auth
+    const payload = await authSessionService.verifyAccessToken(token);
+    if (payload && await UserModel.findById(payload.userId)) {
       req.user = {
         id: payload.userId,
         email: payload.email,
+        sessionId: payload.sessionId,
       };
     }
-  } catch {
-    // Token invalid, continue without auth
+  } catch (error) {
+    next(error);
+    return;
   }
 
   next();
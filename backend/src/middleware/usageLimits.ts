@@ -1,7 +1,9 @@
 import { Response, NextFunction } from 'express';
-import { AuthenticatedRequest } from './auth.js';
+import { AuthenticatedRequest, DeviceRequest, getRequestDevice } from './auth.js';
 import { SubscriptionModel } from '../models/Subscription.js';
 import { UsageModel } from '../models/Usage.js';
+import { voiceMeteringService, VoiceMeter } from '../services/voiceMeteringService.js';
+import { anonymousUsageService, AnonymousUsageStatus } from '../services/anonymousUsageService.js';
 
 export interface UsageCheckResult {
   allowed: boolean;
@@ -11,44 +13,88 @@ export interface UsageCheckResult {
   plan: string;
 }
 
-export function checkUsageLimits(req: AuthenticatedRequest, res: Response, next: NextFunction): void {
+export interface VoiceMeteredRequest extends AuthenticatedRequest {
+  voiceMeter?: VoiceMeter;
+}
+
+/**
+ * Body of the 403 returned when the daily allowance is used up
+ */
+export function usageLimitReachedResponse(dailyLimit: number, minutesUsed: number) {
+  return {
+    error: 'Daily usage limit reached',
+    code: 'USAGE_LIMIT_REACHED',
+    daily_limit_minutes: dailyLimit,
+    minutes_used: minutesUsed,
+    remaining_minutes: 0,
+  };
+}
+
+export async function checkUsageLimits(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
   if (!req.user) {
     res.status(401).json({ error: 'Authentication required' });
     return;
   }
 
-  const userId = req.user.id;
-  const dailyLimit = SubscriptionModel.getUserDailyLimit(userId);
-  const todayUsage = UsageModel.getTodayUsage(userId);
-
-  const remaining = Math.max(0, dailyLimit - todayUsage.minutes_used);
+  let status: UsageCheckResult;
+  try {
+    status = await getUsageStatus(req.user.id);
+  } catch (error) {
+    next(error);
+    return;
+  }
 
-  if (remaining <= 0) {
-    res.status(403).json({
-      error: 'Daily usage limit reached',
-      code: 'USAGE_LIMIT_REACHED',
-      daily_limit_minutes: dailyLimit,
-      minutes_used: todayUsage.minutes_used,
-      remaining_minutes: 0,
-    });
+  if (!status.allowed) {
+    res.status(403).json(usageLimitReachedResponse(status.daily_limit_minutes, status.minutes_used));
     return;
   }
 
   // Attach usage info to request for downstream use
   (req as any).usageInfo = {
-    daily_limit_minutes: dailyLimit,
-    minutes_used: todayUsage.minutes_used,
-    remaining_minutes: remaining,
+    daily_limit_minutes: status.daily_limit_minutes,
+    minutes_used: status.minutes_used,
+    remaining_minutes: status.remaining_minutes,
+  };
+
+  next();
+}
+
+/**
+ * Trial counterpart of checkUsageLimits for anonymous devices. Must run
+ * after authenticateDevice.
+ */
+export async function checkAnonymousUsageLimits(req: DeviceRequest, res: Response, next: NextFunction): Promise<void> {
+  if (!req.device) {
+    res.status(401).json({ error: 'Device token required', code: 'DEVICE_TOKEN_REQUIRED' });
+    return;
+  }
+
+  let status: AnonymousUsageStatus;
+  try {
+    status = await anonymousUsageService.getUsageStatus(req.device);
+  } catch (error) {
+    next(error);
+    return;
+  }
+
+  if (!status.allowed) {
+    res.status(403).json(usageLimitReachedResponse(status.daily_limit_minutes, status.minutes_used));
+    return;
+  }
+
+  (req as any).usageInfo = {
+    daily_limit_minutes: status.daily_limit_minutes,
+    minutes_used: status.minutes_used,
+    remaining_minutes: status.remaining_minutes,
   };
 
   next();
 }
 
-export function getUsageStatus(userId: string): UsageCheckResult {
-  const subscription = SubscriptionModel.findByUserId(userId);
-  const plan = subscription?.plan || 'free';
-  const dailyLimit = SubscriptionModel.getUserDailyLimit(userId);
-  const todayUsage = UsageModel.getTodayUsage(userId);
+export async function getUsageStatus(userId: string): Promise<UsageCheckResult> {
+  const plan = await SubscriptionModel.getEffectivePlan(userId);
+  const dailyLimit = (await SubscriptionModel.getPlanLimit(plan))?.daily_minutes || 2;
+  const todayUsage = await UsageModel.getTodayUsage(userId);
   const remaining = Math.max(0, dailyLimit - todayUsage.minutes_used);
 
   return {
@@ -59,3 +105,37 @@ export function getUsageStatus(userId: string): UsageCheckResult {
     plan,
   };
 }
+
+/**
+ * Meter a voice route against the caller's daily allowance - signed-in users
+ * by plan, anonymous callers by their device token's trial allowance. Must
+ * run after optionalAuth (and after multer for multipart routes, to read
+ * sessionId).
+ */
+export async function checkVoiceUsageLimits(req: VoiceMeteredRequest, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const result = await voiceMeteringService.resolveMeter(
+      req.user?.id || null,
+      getRequestDevice(req),
+      typeof req.body?.sessionId === 'string' ? req.body.sessionId : undefined
+    );
+
+    if ('error' in result) {
+      res.status(result.status).json({ error: result.error, code: result.code });
+      return;
+    }
+
+    const allowance = await voiceMeteringService.getAllowance(result.meter);
+    if (!allowance.allowed) {
+      res.status(403).json(usageLimitReachedResponse(allowance.daily_limit_minutes, allowance.minutes_used));
+      return;
+    }
+
+    req.voiceMeter = result.meter;
+  } catch (error) {
+    next(error);
+    return;
+  }
+
+  next();
+}
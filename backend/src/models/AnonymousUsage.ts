@@ -0,0 +1,86 @@
+import { repositories } from '../repositories/index.js';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface AnonymousUsageRecord {
+  id: string;
+  device_id: string;
+  ip_hash: string;
+  date: string;
+  minutes_used: number;
+  sessions_count: number;
+  session_started_at: string | null;
+  last_activity_at: string | null;
+  claimed_by_user_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+function getTodayDate(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+export const AnonymousUsageModel = {
+  /**
+   * Today's record for a device. The IP hash is the one the device first
+   * used today; it is what the per-network cap is counted against.
+   */
+  async getOrCreateDailyRecord(deviceId: string, ipHash: string): Promise<AnonymousUsageRecord> {
+    const date = getTodayDate();
+
+    const record = await this.findByDeviceAndDate(deviceId, date);
+    if (record) return record;
+
+    const id = uuidv4();
+    await repositories.anonymousUsage.insert({ id, device_id: deviceId, ip_hash: ipHash, date });
+
+    return (await this.findById(id)) as AnonymousUsageRecord;
+  },
+
+  async findById(id: string): Promise<AnonymousUsageRecord | undefined> {
+    return repositories.anonymousUsage.findById(id);
+  },
+
+  async findByDeviceAndDate(deviceId: string, date: string): Promise<AnonymousUsageRecord | undefined> {
+    return repositories.anonymousUsage.findByDeviceAndDate(deviceId, date);
+  },
+
+  async findTodayByDevice(deviceId: string): Promise<AnonymousUsageRecord | undefined> {
+    return this.findByDeviceAndDate(deviceId, getTodayDate());
+  },
+
+  async getIpMinutesToday(ipHash: string): Promise<number> {
+    return repositories.anonymousUsage.sumIpMinutes(ipHash, getTodayDate());
+  },
+
+  async addMinutes(id: string, minutes: number): Promise<AnonymousUsageRecord> {
+    await repositories.anonymousUsage.addMinutes(id, minutes);
+    return (await this.findById(id)) as AnonymousUsageRecord;
+  },
+
+  async startSession(id: string, at: Date = new Date()): Promise<AnonymousUsageRecord> {
+    await repositories.anonymousUsage.startSession(id, at.toISOString());
+    return (await this.findById(id)) as AnonymousUsageRecord;
+  },
+
+  /**
+   * Bill the time since the last heartbeat and move the billed point forward
+   */
+  async recordActivity(id: string, at: Date = new Date()): Promise<AnonymousUsageRecord> {
+    const record = (await this.findById(id)) as AnonymousUsageRecord;
+    if (!record.last_activity_at) return record;
+
+    const unbilled = Math.max(0, (at.getTime() - new Date(record.last_activity_at).getTime()) / 1000);
+    await repositories.anonymousUsage.recordActivity(id, unbilled / 60, at.toISOString());
+
+    return (await this.findById(id)) as AnonymousUsageRecord;
+  },
+
+  async endSession(id: string): Promise<AnonymousUsageRecord> {
+    await repositories.anonymousUsage.endSession(id);
+    return (await this.findById(id)) as AnonymousUsageRecord;
+  },
+
+  async markClaimed(id: string, userId: string): Promise<void> {
+    await repositories.anonymousUsage.markClaimed(id, userId);
+  },
+};
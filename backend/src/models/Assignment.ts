@@ -0,0 +1,143 @@
+import { repositories } from '../repositories/index.js';
+import { v4 as uuidv4 } from 'uuid';
+import type { SlangCategory } from './Deck.js';
+
+export const ASSIGNMENT_TASK_TYPES = ['scenario', 'slang_quiz'] as const;
+
+export type AssignmentTaskType = typeof ASSIGNMENT_TASK_TYPES[number];
+
+export interface Assignment {
+  id: string;
+  cohort_id: string;
+  created_by: string | null;
+  title: string;
+  description: string | null;
+  due_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LearnerAssignment extends Assignment {
+  cohort_name: string;
+  organisation_name: string;
+}
+
+export interface AssignmentTask {
+  id: string;
+  assignment_id: string;
+  type: AssignmentTaskType;
+  scenario_id: string | null;
+  category: SlangCategory | null;
+  deck_id: string | null;
+  question_count: number | null;
+  min_score: number | null;
+  position: number;
+}
+
+export interface AssignmentInput {
+  title: string;
+  description?: string | null;
+  due_at: string;
+}
+
+export type AssignmentTaskInput =
+  | { type: 'scenario'; scenario_id: string }
+  | {
+      type: 'slang_quiz';
+      question_count: number;
+      category?: SlangCategory | null;
+      deck_id?: string | null;
+      min_score?: number | null;
+    };
+
+// Rows for the tasks, numbered in order
+function toTaskRows(assignmentId: string, tasks: AssignmentTaskInput[]): AssignmentTask[] {
+  return tasks.map((task, position) => task.type === 'scenario'
+    ? {
+        id: uuidv4(),
+        assignment_id: assignmentId,
+        type: task.type,
+        scenario_id: task.scenario_id,
+        category: null,
+        deck_id: null,
+        question_count: null,
+        min_score: null,
+        position,
+      }
+    : {
+        id: uuidv4(),
+        assignment_id: assignmentId,
+        type: task.type,
+        scenario_id: null,
+        category: task.category ?? null,
+        deck_id: task.deck_id ?? null,
+        question_count: task.question_count,
+        min_score: task.min_score ?? null,
+        position,
+      });
+}
+
+export const AssignmentModel = {
+  /**
+   * Create an assignment with its tasks
+   */
+  async create(
+    cohortId: string,
+    createdBy: string,
+    input: AssignmentInput,
+    tasks: AssignmentTaskInput[]
+  ): Promise<Assignment> {
+    const id = uuidv4();
+    await repositories.assignments.insert({
+      id,
+      cohort_id: cohortId,
+      created_by: createdBy,
+      title: input.title,
+      description: input.description ?? null,
+      due_at: input.due_at,
+    }, toTaskRows(id, tasks));
+
+    return (await this.findById(id)) as Assignment;
+  },
+
+  async findById(id: string): Promise<Assignment | undefined> {
+    return repositories.assignments.findById(id);
+  },
+
+  async findByCohortId(cohortId: string): Promise<Assignment[]> {
+    return repositories.assignments.findByCohortId(cohortId);
+  },
+
+  /**
+   * Assignments for every cohort the user is a learner in, with the cohort
+   * and organisation names
+   */
+  async findForLearner(userId: string): Promise<LearnerAssignment[]> {
+    return repositories.assignments.findForLearner(userId);
+  },
+
+  // Whether a deck is part of an assignment given to the user, so they can
+  // practise it without owning it
+  async isDeckAssignedToUser(deckId: string, userId: string): Promise<boolean> {
+    return repositories.assignments.isDeckAssignedToUser(deckId, userId);
+  },
+
+  async update(id: string, input: AssignmentInput): Promise<Assignment | undefined> {
+    await repositories.assignments.update(id, input);
+    return this.findById(id);
+  },
+
+  async delete(id: string): Promise<void> {
+    await repositories.assignments.delete(id);
+  },
+};
+
+export const AssignmentTaskModel = {
+  async findByAssignmentId(assignmentId: string): Promise<AssignmentTask[]> {
+    return repositories.assignments.findTasks(assignmentId);
+  },
+
+  async replaceAll(assignmentId: string, tasks: AssignmentTaskInput[]): Promise<void> {
+    await repositories.assignments.replaceTasks(assignmentId, toTaskRows(assignmentId, tasks));
+  },
+};
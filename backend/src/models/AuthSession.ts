@@ -0,0 +1,93 @@
+import { repositories } from '../repositories/index.js';
+import { v4 as uuidv4 } from 'uuid';
+import crypto from 'crypto';
+import { signValue } from '../utils/jwt.js';
+
+export interface AuthSession {
+  id: string;
+  user_id: string;
+  refresh_token_hash: string;
+  previous_token_hash: string | null;
+  user_agent: string | null;
+  created_at: string;
+  last_used_at: string;
+  expires_at: string;
+  revoked_at: string | null;
+}
+
+export type AuthSessionSummary = Pick<AuthSession, 'id' | 'user_agent' | 'created_at' | 'last_used_at' | 'expires_at'>;
+
+const REFRESH_TOKEN_BYTES = 32;
+
+export function hashRefreshToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function generateRefreshToken(): string {
+  return crypto.randomBytes(REFRESH_TOKEN_BYTES).toString('base64url');
+}
+
+// The token a refresh token is rotated to. It is worked out from the old one,
+// so a second request with the old token can be given the same new one.
+export function nextRefreshToken(sessionId: string, token: string): string {
+  return signValue(`${sessionId}:${token}`);
+}
+
+export const AuthSessionModel = {
+  async create(userId: string, refreshToken: string, expiresAt: string, userAgent: string | null): Promise<AuthSession> {
+    const id = uuidv4();
+    await repositories.authSessions.insert({
+      id,
+      user_id: userId,
+      refresh_token_hash: hashRefreshToken(refreshToken),
+      user_agent: userAgent,
+      last_used_at: new Date().toISOString(),
+      expires_at: expiresAt,
+    });
+
+    return (await this.findById(id)) as AuthSession;
+  },
+
+  async findById(id: string): Promise<AuthSession | undefined> {
+    return repositories.authSessions.findById(id);
+  },
+
+  async findByRefreshToken(token: string): Promise<AuthSession | undefined> {
+    return repositories.authSessions.findByRefreshTokenHash(hashRefreshToken(token));
+  },
+
+  // The session a refresh token belonged to before it was rotated
+  async findByPreviousToken(token: string): Promise<AuthSession | undefined> {
+    return repositories.authSessions.findByPreviousTokenHash(hashRefreshToken(token));
+  },
+
+  isActive(session: AuthSession, now: Date = new Date()): boolean {
+    return session.revoked_at === null && new Date(session.expires_at) > now;
+  },
+
+  /**
+   * Swap the session's refresh token for a new one and extend it. Returns
+   * false if the old token was rotated by another request first.
+   */
+  async rotate(id: string, oldToken: string, newToken: string, expiresAt: string): Promise<boolean> {
+    return repositories.authSessions.rotate(
+      id,
+      hashRefreshToken(oldToken),
+      hashRefreshToken(newToken),
+      new Date().toISOString(),
+      expiresAt
+    );
+  },
+
+  async findActiveByUserId(userId: string): Promise<AuthSessionSummary[]> {
+    return repositories.authSessions.findActiveByUserId(userId, new Date().toISOString());
+  },
+
+  async revoke(id: string): Promise<void> {
+    await repositories.authSessions.revoke(id, new Date().toISOString());
+  },
+
+  async revokeAllForUser(userId: string): Promise<number> {
+    return repositories.authSessions.revokeAllForUser(userId, new Date().toISOString());
+  },
+};
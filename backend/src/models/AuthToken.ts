@@ -0,0 +1,57 @@
+import { repositories } from '../repositories/index.js';
+import { v4 as uuidv4 } from 'uuid';
+import crypto from 'crypto';
+
+export type AuthTokenType = 'password_reset' | 'email_verification';
+
+export interface AuthToken {
+  id: string;
+  user_id: string;
+  type: AuthTokenType;
+  token_hash: string;
+  expires_at: string;
+  used_at: string | null;
+  created_at: string;
+}
+
+const TOKEN_BYTES = 32;
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export const AuthTokenModel = {
+  /**
+   * Issue a token, replacing the user's earlier ones of the same type.
+   * Returns the plain token - only its hash is stored.
+   */
+  async create(userId: string, type: AuthTokenType, ttlMinutes: number): Promise<string> {
+    const token = crypto.randomBytes(TOKEN_BYTES).toString('base64url');
+
+    await repositories.authTokens.replace({
+      id: uuidv4(),
+      user_id: userId,
+      type,
+      token_hash: hashToken(token),
+      expires_at: new Date(Date.now() + ttlMinutes * 60 * 1000).toISOString(),
+    });
+
+    return token;
+  },
+
+  async findByToken(token: string, type: AuthTokenType): Promise<AuthToken | undefined> {
+    return repositories.authTokens.findByTokenHash(hashToken(token), type);
+  },
+
+  isUsable(authToken: AuthToken, now: Date = new Date()): boolean {
+    return authToken.used_at === null && new Date(authToken.expires_at) > now;
+  },
+
+  /**
+   * Mark a token used. Returns false if it was already used, so two requests
+   * racing with the same token can't both succeed.
+   */
+  async markUsed(id: string): Promise<boolean> {
+    return repositories.authTokens.markUsed(id, new Date().toISOString());
+  },
+};
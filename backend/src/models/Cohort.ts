@@ -0,0 +1,78 @@
+import { repositories } from '../repositories/index.js';
+import { v4 as uuidv4 } from 'uuid';
+import type { OrganisationRole } from './Organisation.js';
+
+export interface Cohort {
+  id: string;
+  organisation_id: string;
+  name: string;
+  description: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CohortSummary extends Cohort {
+  member_count: number;
+}
+
+export interface CohortInput {
+  name: string;
+  description?: string | null;
+}
+
+export interface CohortMemberDetails {
+  user_id: string;
+  email: string;
+  name: string | null;
+  role: OrganisationRole;
+  has_seat: number;
+  joined_at: string;
+}
+
+export const CohortModel = {
+  async create(organisationId: string, input: CohortInput): Promise<Cohort> {
+    const id = uuidv4();
+    await repositories.cohorts.insert(id, organisationId, input);
+
+    return (await this.findById(id)) as Cohort;
+  },
+
+  async findById(id: string): Promise<Cohort | undefined> {
+    return repositories.cohorts.findById(id);
+  },
+
+  async findByOrganisationId(organisationId: string): Promise<CohortSummary[]> {
+    return repositories.cohorts.findByOrganisationId(organisationId);
+  },
+
+  async update(id: string, input: CohortInput): Promise<Cohort | undefined> {
+    await repositories.cohorts.update(id, input);
+    return this.findById(id);
+  },
+
+  async delete(id: string): Promise<void> {
+    await repositories.cohorts.delete(id);
+  },
+};
+
+export const CohortMemberModel = {
+  // Adding an existing member is a no-op
+  async add(cohortId: string, userId: string): Promise<void> {
+    await repositories.cohorts.addMember(cohortId, userId);
+  },
+
+  async remove(cohortId: string, userId: string): Promise<void> {
+    await repositories.cohorts.removeMember(cohortId, userId);
+  },
+
+  async isMember(cohortId: string, userId: string): Promise<boolean> {
+    return repositories.cohorts.isMember(cohortId, userId);
+  },
+
+  /**
+   * Members with their role in the cohort's organisation, by name
+   */
+  async findByCohortId(cohortId: string): Promise<CohortMemberDetails[]> {
+    return repositories.cohorts.findMembers(cohortId);
+  },
+};
@@ -0,0 +1,83 @@
+import { repositories } from '../repositories/index.js';
+import { toSqliteTime } from '../repositories/types.js';
+import { v4 as uuidv4 } from 'uuid';
+
+export type ConversationRole = 'user' | 'assistant';
+
+export interface ConversationTurn {
+  id: string;
+  session_id: string;
+  practice_session_id: string | null;
+  turn_index: number;
+  role: ConversationRole;
+  content: string;
+  emotion: string | null;
+  // Set on assistant turns written by a tutor model
+  model: string | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  created_at: string;
+}
+
+export interface TurnUsage {
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+}
+
+export const ConversationTurnModel = {
+  async append(
+    sessionId: string,
+    role: ConversationRole,
+    content: string,
+    emotion?: string,
+    usage?: TurnUsage
+  ): Promise<ConversationTurn> {
+    const id = uuidv4();
+
+    // The turn is linked to a practice session when the conversation uses its id
+    await repositories.conversationTurns.insert({
+      id,
+      session_id: sessionId,
+      role,
+      content,
+      emotion: emotion || null,
+      model: usage?.model ?? null,
+      input_tokens: usage?.input_tokens ?? null,
+      output_tokens: usage?.output_tokens ?? null,
+    });
+
+    return (await this.findById(id)) as ConversationTurn;
+  },
+
+  async findById(id: string): Promise<ConversationTurn | undefined> {
+    return repositories.conversationTurns.findById(id);
+  },
+
+  async findBySessionId(sessionId: string): Promise<ConversationTurn[]> {
+    return repositories.conversationTurns.findBySessionId(sessionId);
+  },
+
+  async findByPracticeSessionId(practiceSessionId: string): Promise<ConversationTurn[]> {
+    return repositories.conversationTurns.findByPracticeSessionId(practiceSessionId);
+  },
+
+  async exists(sessionId: string): Promise<boolean> {
+    return repositories.conversationTurns.existsForSession(sessionId);
+  },
+
+  async isLinkedToPracticeSession(sessionId: string): Promise<boolean> {
+    return repositories.conversationTurns.isLinkedToPracticeSession(sessionId);
+  },
+
+  async deleteBySessionId(sessionId: string): Promise<void> {
+    await repositories.conversationTurns.deleteBySessionId(sessionId);
+  },
+
+  // Anonymous conversations (not linked to a practice session) with no turn
+  // in the last `hours`
+  async deleteStaleAnonymous(hours: number): Promise<number> {
+    const cutoff = new Date(Date.now() - hours * 60 * 60 * 1000);
+    return repositories.conversationTurns.deleteAnonymousBefore(toSqliteTime(cutoff));
+  },
+};
@@ -0,0 +1,127 @@
+import { repositories } from '../repositories/index.js';
+import { v4 as uuidv4 } from 'uuid';
+
+// Same categories and difficulties as the built-in slang list (slangData.ts
+// in the frontend)
+export const SLANG_CATEGORIES = [
+  'greetings',
+  'expressions',
+  'time',
+  'places',
+  'people',
+  'food',
+  'actions',
+  'descriptive',
+  'wildlife',
+  'workplace',
+] as const;
+
+export const SLANG_DIFFICULTIES = ['beginner', 'intermediate', 'advanced'] as const;
+
+export type SlangCategory = typeof SLANG_CATEGORIES[number];
+export type SlangDifficulty = typeof SLANG_DIFFICULTIES[number];
+
+export interface Deck {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DeckSummary extends Deck {
+  term_count: number;
+}
+
+export interface DeckTerm {
+  id: string;
+  deck_id: string;
+  term: string;
+  meaning: string;
+  example: string;
+  category: SlangCategory;
+  difficulty: SlangDifficulty;
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DeckInput {
+  name: string;
+  description?: string | null;
+}
+
+export interface DeckTermInput {
+  term: string;
+  meaning: string;
+  example: string;
+  category: SlangCategory;
+  difficulty: SlangDifficulty;
+}
+
+export const DeckModel = {
+  async create(userId: string, input: DeckInput): Promise<Deck> {
+    const id = uuidv4();
+    await repositories.decks.insert(id, userId, input);
+
+    return (await this.findById(id)) as Deck;
+  },
+
+  async findById(id: string): Promise<Deck | undefined> {
+    return repositories.decks.findById(id);
+  },
+
+  async findByUserId(userId: string): Promise<DeckSummary[]> {
+    return repositories.decks.findByUserId(userId);
+  },
+
+  async countByUserId(userId: string): Promise<number> {
+    return repositories.decks.countByUserId(userId);
+  },
+
+  async update(id: string, input: DeckInput): Promise<Deck | undefined> {
+    await repositories.decks.update(id, input);
+    return this.findById(id);
+  },
+
+  async delete(id: string): Promise<void> {
+    await repositories.decks.delete(id);
+  },
+};
+
+// Changing a deck's terms bumps the deck's updated_at
+export const DeckTermModel = {
+  async create(deckId: string, input: DeckTermInput): Promise<DeckTerm> {
+    const [term] = await this.createMany(deckId, [input]);
+    return term;
+  },
+
+  async createMany(deckId: string, inputs: DeckTermInput[]): Promise<DeckTerm[]> {
+    const terms = inputs.map(input => ({ ...input, id: uuidv4() }));
+    await repositories.deckTerms.insertMany(deckId, terms);
+
+    return Promise.all(terms.map(async term => (await this.findById(term.id)) as DeckTerm));
+  },
+
+  async findById(id: string): Promise<DeckTerm | undefined> {
+    return repositories.deckTerms.findById(id);
+  },
+
+  async findByDeckId(deckId: string): Promise<DeckTerm[]> {
+    return repositories.deckTerms.findByDeckId(deckId);
+  },
+
+  async countByDeckId(deckId: string): Promise<number> {
+    return repositories.deckTerms.countByDeckId(deckId);
+  },
+
+  async update(id: string, input: DeckTermInput): Promise<DeckTerm | undefined> {
+    await repositories.deckTerms.update(id, input);
+    return this.findById(id);
+  },
+
+  async delete(id: string): Promise<void> {
+    await repositories.deckTerms.delete(id);
+  },
+};
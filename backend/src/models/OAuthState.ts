@@ -0,0 +1,76 @@
+import { repositories } from '../repositories/index.js';
+import { v4 as uuidv4 } from 'uuid';
+import crypto from 'crypto';
+
+export interface OAuthState {
+  id: string;
+  state_hash: string;
+  provider: string;
+  nonce: string;
+  code_verifier: string | null;
+  user_id: string | null;
+  login_code_hash: string | null;
+  expires_at: string;
+  used_at: string | null;
+  created_at: string;
+}
+
+function hash(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+export const OAuthStateModel = {
+  async create(
+    state: string,
+    provider: string,
+    nonce: string,
+    codeVerifier: string | null,
+    ttlSeconds: number
+  ): Promise<OAuthState> {
+    const id = uuidv4();
+    await repositories.oauthStates.insert({
+      id,
+      state_hash: hash(state),
+      provider,
+      nonce,
+      code_verifier: codeVerifier,
+      expires_at: new Date(Date.now() + ttlSeconds * 1000).toISOString(),
+    });
+
+    return (await this.findById(id)) as OAuthState;
+  },
+
+  async findById(id: string): Promise<OAuthState | undefined> {
+    return repositories.oauthStates.findById(id);
+  },
+
+  async findByState(state: string): Promise<OAuthState | undefined> {
+    return repositories.oauthStates.findByStateHash(hash(state));
+  },
+
+  async findByLoginCode(code: string): Promise<OAuthState | undefined> {
+    return repositories.oauthStates.findByLoginCodeHash(hash(code));
+  },
+
+  isUsable(state: OAuthState, now: Date = new Date()): boolean {
+    return state.used_at === null && new Date(state.expires_at) > now;
+  },
+
+  /**
+   * Finish the provider round trip: attach the signed-in user and a login
+   * code, which replaces the state as the way to find the row
+   */
+  async complete(id: string, userId: string, loginCode: string, ttlSeconds: number): Promise<boolean> {
+    const expiresAt = new Date(Date.now() + ttlSeconds * 1000).toISOString();
+    return repositories.oauthStates.complete(id, userId, hash(loginCode), expiresAt);
+  },
+
+  async markUsed(id: string): Promise<boolean> {
+    return repositories.oauthStates.markUsed(id, new Date().toISOString());
+  },
+
+  // Rows are only needed for a few minutes
+  async deleteExpired(): Promise<void> {
+    await repositories.oauthStates.deleteExpired(new Date().toISOString());
+  },
+};
@@ -0,0 +1,281 @@
+import { repositories } from '../repositories/index.js';
+import { v4 as uuidv4 } from 'uuid';
+import crypto from 'crypto';
+import type { PlanType, SubscriptionStatus } from './Subscription.js';
+
+export const ORGANISATION_ROLES = ['admin', 'teacher', 'learner'] as const;
+
+export type OrganisationRole = typeof ORGANISATION_ROLES[number];
+
+export interface Organisation {
+  id: string;
+  name: string;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// An organisation as seen by one of its members
+export interface OrganisationSummary extends Organisation {
+  role: OrganisationRole;
+  has_seat: number;
+  member_count: number;
+}
+
+export interface OrganisationMember {
+  organisation_id: string;
+  user_id: string;
+  role: OrganisationRole;
+  has_seat: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OrganisationMemberDetails extends OrganisationMember {
+  email: string;
+  name: string | null;
+}
+
+export interface OrganisationInvite {
+  id: string;
+  organisation_id: string;
+  cohort_id: string | null;
+  code: string;
+  role: OrganisationRole;
+  max_uses: number | null;
+  uses: number;
+  expires_at: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface CreateInviteInput {
+  role: OrganisationRole;
+  cohort_id?: string | null;
+  max_uses?: number | null;
+  expires_at?: string | null;
+}
+
+export interface OrganisationSubscription {
+  id: string;
+  organisation_id: string;
+  plan: Exclude<PlanType, 'free'>;
+  seats: number;
+  status: SubscriptionStatus;
+  stripe_subscription_id: string | null;
+  stripe_price_id: string | null;
+  current_period_start: string | null;
+  current_period_end: string | null;
+  cancel_at_period_end: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateOrganisationSubscriptionInput {
+  organisation_id: string;
+  plan: Exclude<PlanType, 'free'>;
+  seats: number;
+  status?: SubscriptionStatus;
+  stripe_subscription_id?: string;
+  stripe_price_id?: string;
+  current_period_start?: string;
+  current_period_end?: string;
+}
+
+// Unambiguous characters for invite codes (no 0/O, 1/I)
+const INVITE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const INVITE_CODE_LENGTH = 8;
+
+function generateInviteCode(): string {
+  const bytes = crypto.randomBytes(INVITE_CODE_LENGTH);
+  return Array.from(bytes, byte => INVITE_ALPHABET[byte % INVITE_ALPHABET.length]).join('');
+}
+
+export const OrganisationModel = {
+  /**
+   * Create an organisation with its creator as the first admin
+   */
+  async create(userId: string, name: string): Promise<Organisation> {
+    const id = uuidv4();
+    await repositories.organisations.insert(id, name, userId, {
+      organisation_id: id,
+      user_id: userId,
+      role: 'admin',
+      has_seat: 0,
+    });
+
+    return (await this.findById(id)) as Organisation;
+  },
+
+  async findById(id: string): Promise<Organisation | undefined> {
+    return repositories.organisations.findById(id);
+  },
+
+  async findByUserId(userId: string): Promise<OrganisationSummary[]> {
+    return repositories.organisations.findByUserId(userId);
+  },
+
+  async update(id: string, name: string): Promise<Organisation | undefined> {
+    await repositories.organisations.update(id, name);
+    return this.findById(id);
+  },
+
+  async delete(id: string): Promise<void> {
+    await repositories.organisations.delete(id);
+  },
+};
+
+export const OrganisationMemberModel = {
+  async add(
+    organisationId: string,
+    userId: string,
+    role: OrganisationRole,
+    hasSeat: boolean = false
+  ): Promise<OrganisationMember> {
+    await repositories.organisationMembers.insert({
+      organisation_id: organisationId,
+      user_id: userId,
+      role,
+      has_seat: hasSeat ? 1 : 0,
+    });
+
+    return (await this.find(organisationId, userId)) as OrganisationMember;
+  },
+
+  async find(organisationId: string, userId: string): Promise<OrganisationMember | undefined> {
+    return repositories.organisationMembers.find(organisationId, userId);
+  },
+
+  async findByOrganisationId(organisationId: string): Promise<OrganisationMemberDetails[]> {
+    return repositories.organisationMembers.findByOrganisationId(organisationId);
+  },
+
+  async update(
+    organisationId: string,
+    userId: string,
+    updates: { role?: OrganisationRole; has_seat?: boolean }
+  ): Promise<OrganisationMember | undefined> {
+    await repositories.organisationMembers.update(organisationId, userId, {
+      role: updates.role,
+      has_seat: updates.has_seat === undefined ? undefined : updates.has_seat ? 1 : 0,
+    });
+
+    return this.find(organisationId, userId);
+  },
+
+  /**
+   * Remove a member, and take them out of the organisation's cohorts
+   */
+  async remove(organisationId: string, userId: string): Promise<void> {
+    await repositories.organisationMembers.remove(organisationId, userId);
+  },
+
+  async countByRole(organisationId: string, role: OrganisationRole): Promise<number> {
+    return repositories.organisationMembers.countByRole(organisationId, role);
+  },
+
+  async countSeatsUsed(organisationId: string): Promise<number> {
+    return repositories.organisationMembers.countSeatsUsed(organisationId);
+  },
+
+  /**
+   * Take seats back from the most recently seated members until at most
+   * `seats` are in use (after the subscription shrinks)
+   */
+  async releaseSeatsAbove(organisationId: string, seats: number): Promise<void> {
+    const excess = (await this.countSeatsUsed(organisationId)) - seats;
+    if (excess <= 0) return;
+
+    await repositories.organisationMembers.releaseSeats(organisationId, excess);
+  },
+};
+
+export const OrganisationInviteModel = {
+  async create(organisationId: string, createdBy: string, input: CreateInviteInput): Promise<OrganisationInvite> {
+    const id = uuidv4();
+    await repositories.organisationInvites.insert({
+      id,
+      organisation_id: organisationId,
+      cohort_id: input.cohort_id ?? null,
+      code: generateInviteCode(),
+      role: input.role,
+      max_uses: input.max_uses ?? null,
+      expires_at: input.expires_at ?? null,
+      created_by: createdBy,
+    });
+
+    return (await this.findById(id)) as OrganisationInvite;
+  },
+
+  async findById(id: string): Promise<OrganisationInvite | undefined> {
+    return repositories.organisationInvites.findById(id);
+  },
+
+  async findByCode(code: string): Promise<OrganisationInvite | undefined> {
+    return repositories.organisationInvites.findByCode(code.trim().toUpperCase());
+  },
+
+  async findByOrganisationId(organisationId: string): Promise<OrganisationInvite[]> {
+    return repositories.organisationInvites.findByOrganisationId(organisationId);
+  },
+
+  isUsable(invite: OrganisationInvite, now: Date = new Date()): boolean {
+    if (invite.max_uses !== null && invite.uses >= invite.max_uses) return false;
+    if (invite.expires_at && new Date(invite.expires_at) <= now) return false;
+    return true;
+  },
+
+  async recordUse(id: string): Promise<void> {
+    await repositories.organisationInvites.recordUse(id);
+  },
+
+  async delete(id: string): Promise<void> {
+    await repositories.organisationInvites.delete(id);
+  },
+};
+
+export const OrganisationSubscriptionModel = {
+  async create(input: CreateOrganisationSubscriptionInput): Promise<OrganisationSubscription> {
+    const id = uuidv4();
+    await repositories.organisationSubscriptions.insert({
+      id,
+      organisation_id: input.organisation_id,
+      plan: input.plan,
+      seats: input.seats,
+      status: input.status || 'active',
+      stripe_subscription_id: input.stripe_subscription_id || null,
+      stripe_price_id: input.stripe_price_id || null,
+      current_period_start: input.current_period_start || null,
+      current_period_end: input.current_period_end || null,
+    });
+
+    return (await this.findById(id)) as OrganisationSubscription;
+  },
+
+  async findById(id: string): Promise<OrganisationSubscription | undefined> {
+    return repositories.organisationSubscriptions.findById(id);
+  },
+
+  async findByOrganisationId(organisationId: string): Promise<OrganisationSubscription | undefined> {
+    return repositories.organisationSubscriptions.findActiveByOrganisationId(organisationId);
+  },
+
+  async findByStripeSubscriptionId(stripeSubId: string): Promise<OrganisationSubscription | undefined> {
+    return repositories.organisationSubscriptions.findByStripeSubscriptionId(stripeSubId);
+  },
+
+  /**
+   * The best plan the user gets from a seat in an organisation with an
+   * active subscription, if any
+   */
+  async findSeatPlan(userId: string): Promise<Exclude<PlanType, 'free'> | undefined> {
+    return repositories.organisationSubscriptions.findSeatPlan(userId);
+  },
+
+  async update(
+    id: string,
+    updates: Partial<Omit<OrganisationSubscription, 'id' | 'organisation_id' | 'created_at'>>
+  ): Promise<void> {
+    await repositories.organisationSubscriptions.update(id, updates);
+  },
+};
@@ -0,0 +1,101 @@
+import { repositories } from '../repositories/index.js';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface PhraseList {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PhraseListSummary extends PhraseList {
+  phrase_count: number;
+}
+
+export interface PhraseListItem {
+  id: string;
+  list_id: string;
+  text: string;
+  hint: string | null;
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PhraseListInput {
+  name: string;
+  description?: string | null;
+}
+
+export interface PhraseInput {
+  text: string;
+  hint?: string | null;
+}
+
+export const PhraseListModel = {
+  async create(userId: string, input: PhraseListInput): Promise<PhraseList> {
+    const id = uuidv4();
+    await repositories.phraseLists.insert(id, userId, input);
+
+    return (await this.findById(id)) as PhraseList;
+  },
+
+  async findById(id: string): Promise<PhraseList | undefined> {
+    return repositories.phraseLists.findById(id);
+  },
+
+  async findByUserId(userId: string): Promise<PhraseListSummary[]> {
+    return repositories.phraseLists.findByUserId(userId);
+  },
+
+  async countByUserId(userId: string): Promise<number> {
+    return repositories.phraseLists.countByUserId(userId);
+  },
+
+  async update(id: string, input: PhraseListInput): Promise<PhraseList | undefined> {
+    await repositories.phraseLists.update(id, input);
+    return this.findById(id);
+  },
+
+  async delete(id: string): Promise<void> {
+    await repositories.phraseLists.delete(id);
+  },
+};
+
+// Changing a list's phrases bumps the list's updated_at
+export const PhraseListItemModel = {
+  async create(listId: string, input: PhraseInput): Promise<PhraseListItem> {
+    const [phrase] = await this.createMany(listId, [input]);
+    return phrase;
+  },
+
+  async createMany(listId: string, inputs: PhraseInput[]): Promise<PhraseListItem[]> {
+    const phrases = inputs.map(input => ({ ...input, id: uuidv4() }));
+    await repositories.phraseListItems.insertMany(listId, phrases);
+
+    return Promise.all(phrases.map(async phrase => (await this.findById(phrase.id)) as PhraseListItem));
+  },
+
+  async findById(id: string): Promise<PhraseListItem | undefined> {
+    return repositories.phraseListItems.findById(id);
+  },
+
+  async findByListId(listId: string): Promise<PhraseListItem[]> {
+    return repositories.phraseListItems.findByListId(listId);
+  },
+
+  async countByListId(listId: string): Promise<number> {
+    return repositories.phraseListItems.countByListId(listId);
+  },
+
+  async update(id: string, input: PhraseInput): Promise<PhraseListItem | undefined> {
+    await repositories.phraseListItems.update(id, input);
+    return this.findById(id);
+  },
+
+  async delete(id: string): Promise<void> {
+    await repositories.phraseListItems.delete(id);
+  },
+};
@@ -0,0 +1,59 @@
+import { repositories } from '../repositories/index.js';
+import type { ProgressDocumentRow } from '../repositories/types.js';
+
+export interface ProgressDocument {
+  user_id: string;
+  doc_key: string;
+  data: unknown;
+  version: number;
+  // Version of the last reset (0 if never reset)
+  reset_version: number;
+  created_at: string;
+  updated_at: string;
+}
+
+function fromRow(row: ProgressDocumentRow): ProgressDocument {
+  return {
+    ...row,
+    data: JSON.parse(row.data),
+  };
+}
+
+export const ProgressDocumentModel = {
+  async findByUserId(userId: string): Promise<ProgressDocument[]> {
+    return (await repositories.progress.findByUserId(userId)).map(fromRow);
+  },
+
+  async findByKey(userId: string, docKey: string): Promise<ProgressDocument | undefined> {
+    const row = await repositories.progress.findByKey(userId, docKey);
+    return row ? fromRow(row) : undefined;
+  },
+
+  /**
+   * Write a document as `version`, only if the stored copy is still at
+   * `expectedVersion` (0: not stored yet). Returns undefined, changing
+   * nothing, when another write got there first.
+   */
+  async saveIfVersion(
+    userId: string,
+    docKey: string,
+    data: unknown,
+    version: number,
+    resetVersion: number,
+    expectedVersion: number
+  ): Promise<ProgressDocument | undefined> {
+    const document = {
+      user_id: userId,
+      doc_key: docKey,
+      data: JSON.stringify(data),
+      version,
+      reset_version: resetVersion,
+    };
+    const saved = expectedVersion === 0
+      ? await repositories.progress.insertIfAbsent(document)
+      : await repositories.progress.updateIfVersion(document, expectedVersion);
+    if (!saved) return undefined;
+
+    return this.findByKey(userId, docKey);
+  },
+};
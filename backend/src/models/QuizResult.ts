@@ -0,0 +1,57 @@
+import { repositories } from '../repositories/index.js';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface QuizResult {
+  id: string;
+  user_id: string;
+  category: string | null;
+  difficulty: string | null;
+  deck_id: string | null;
+  question_count: number;
+  correct_count: number;
+  completed_at: string;
+  created_at: string;
+}
+
+export interface QuizResultInput {
+  category?: string | null;
+  difficulty?: string | null;
+  deck_id?: string | null;
+  question_count: number;
+  correct_count: number;
+  completed_at?: string;
+}
+
+export const QuizResultModel = {
+  async create(userId: string, input: QuizResultInput): Promise<QuizResult> {
+    const id = uuidv4();
+    await repositories.quizResults.insert({
+      id,
+      user_id: userId,
+      category: input.category ?? null,
+      difficulty: input.difficulty ?? null,
+      deck_id: input.deck_id ?? null,
+      question_count: input.question_count,
+      correct_count: input.correct_count,
+      completed_at: input.completed_at || new Date().toISOString(),
+    });
+
+    return (await this.findById(id)) as QuizResult;
+  },
+
+  async findById(id: string): Promise<QuizResult | undefined> {
+    return repositories.quizResults.findById(id);
+  },
+
+  async findByUserSince(userId: string, since: string): Promise<QuizResult[]> {
+    return repositories.quizResults.findByUserSince(userId, since);
+  },
+
+  async findAllByUserId(userId: string): Promise<QuizResult[]> {
+    return repositories.quizResults.findAllByUserId(userId);
+  },
+
+  async getRecent(userId: string, limit: number = 20): Promise<QuizResult[]> {
+    return repositories.quizResults.findRecent(userId, limit);
+  },
+};
@@ -0,0 +1,38 @@
+import { repositories } from '../repositories/index.js';
+import type { FeedbackReport } from '../services/feedbackReportService.js';
+import type { TurnUsage } from './Conversation.js';
+
+export interface StoredSessionReport {
+  session_id: string;
+  report: FeedbackReport;
+  // The tutor model that wrote the report and its token usage
+  model: string | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const SessionReportModel = {
+  async save(sessionId: string, report: FeedbackReport, usage?: TurnUsage): Promise<StoredSessionReport> {
+    await repositories.sessionReports.save({
+      session_id: sessionId,
+      report: JSON.stringify(report),
+      model: usage?.model ?? null,
+      input_tokens: usage?.input_tokens ?? null,
+      output_tokens: usage?.output_tokens ?? null,
+    });
+
+    return (await this.findBySessionId(sessionId)) as StoredSessionReport;
+  },
+
+  async findBySessionId(sessionId: string): Promise<StoredSessionReport | undefined> {
+    const row = await repositories.sessionReports.findBySessionId(sessionId);
+    if (!row) return undefined;
+
+    return {
+      ...row,
+      report: JSON.parse(row.report) as FeedbackReport,
+    };
+  },
+};
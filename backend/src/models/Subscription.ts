@@ -1,5 +1,6 @@
-import { db } from '../db/database.js';
+import { repositories } from '../repositories/index.js';
 import { v4 as uuidv4 } from 'uuid';
+import { OrganisationSubscriptionModel } from './Organisation.js';
 
 export type PlanType = 'free' | 'starter' | 'professional' | 'executive';
 export type SubscriptionStatus = 'active' | 'canceled' | 'past_due' | 'trialing';
@@ -36,119 +37,73 @@ export interface CreateSubscriptionInput {
 }
 
 export const SubscriptionModel = {
-  create(input: CreateSubscriptionInput): Subscription {
+  async create(input: CreateSubscriptionInput): Promise<Subscription> {
     const id = uuidv4();
 
-    const stmt = db.prepare(`
-      INSERT INTO subscriptions (
-        id, user_id, plan, status, stripe_subscription_id, stripe_price_id,
-        current_period_start, current_period_end
-      )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-    `);
-
-    stmt.run(
+    await repositories.subscriptions.insert({
       id,
-      input.user_id,
-      input.plan,
-      input.status || 'active',
-      input.stripe_subscription_id || null,
-      input.stripe_price_id || null,
-      input.current_period_start || null,
-      input.current_period_end || null
-    );
-
-    return this.findById(id) as Subscription;
+      user_id: input.user_id,
+      plan: input.plan,
+      status: input.status || 'active',
+      stripe_subscription_id: input.stripe_subscription_id || null,
+      stripe_price_id: input.stripe_price_id || null,
+      current_period_start: input.current_period_start || null,
+      current_period_end: input.current_period_end || null,
+    });
+
+    return (await this.findById(id)) as Subscription;
+  },
+
+  async findById(id: string): Promise<Subscription | undefined> {
+    return repositories.subscriptions.findById(id);
   },
 
-  findById(id: string): Subscription | undefined {
-    const stmt = db.prepare('SELECT * FROM subscriptions WHERE id = ?');
-    return stmt.get(id) as Subscription | undefined;
+  async findByUserId(userId: string): Promise<Subscription | undefined> {
+    return repositories.subscriptions.findActiveByUserId(userId);
   },
 
-  findByUserId(userId: string): Subscription | undefined {
-    const stmt = db.prepare(`
-      SELECT * FROM subscriptions
-      WHERE user_id = ? AND status IN ('active', 'trialing')
-      ORDER BY created_at DESC
-      LIMIT 1
-    `);
-    return stmt.get(userId) as Subscription | undefined;
+  // Every subscription the user has had, including canceled ones
+  async findAllByUserId(userId: string): Promise<Subscription[]> {
+    return repositories.subscriptions.findAllByUserId(userId);
   },
 
-  findByStripeSubscriptionId(stripeSubId: string): Subscription | undefined {
-    const stmt = db.prepare('SELECT * FROM subscriptions WHERE stripe_subscription_id = ?');
-    return stmt.get(stripeSubId) as Subscription | undefined;
+  async findByStripeSubscriptionId(stripeSubId: string): Promise<Subscription | undefined> {
+    return repositories.subscriptions.findByStripeSubscriptionId(stripeSubId);
   },
 
-  update(id: string, updates: Partial<Omit<Subscription, 'id' | 'user_id' | 'created_at'>>): void {
-    const fields: string[] = [];
-    const values: any[] = [];
-
-    if (updates.plan !== undefined) {
-      fields.push('plan = ?');
-      values.push(updates.plan);
-    }
-    if (updates.status !== undefined) {
-      fields.push('status = ?');
-      values.push(updates.status);
-    }
-    if (updates.stripe_subscription_id !== undefined) {
-      fields.push('stripe_subscription_id = ?');
-      values.push(updates.stripe_subscription_id);
-    }
-    if (updates.stripe_price_id !== undefined) {
-      fields.push('stripe_price_id = ?');
-      values.push(updates.stripe_price_id);
-    }
-    if (updates.current_period_start !== undefined) {
-      fields.push('current_period_start = ?');
-      values.push(updates.current_period_start);
-    }
-    if (updates.current_period_end !== undefined) {
-      fields.push('current_period_end = ?');
-      values.push(updates.current_period_end);
-    }
-    if (updates.cancel_at_period_end !== undefined) {
-      fields.push('cancel_at_period_end = ?');
-      values.push(updates.cancel_at_period_end);
-    }
-
-    if (fields.length === 0) return;
-
-    fields.push("updated_at = datetime('now')");
-    values.push(id);
-
-    const stmt = db.prepare(`
-      UPDATE subscriptions SET ${fields.join(', ')}
-      WHERE id = ?
-    `);
-    stmt.run(...values);
+  async update(id: string, updates: Partial<Omit<Subscription, 'id' | 'user_id' | 'created_at'>>): Promise<void> {
+    await repositories.subscriptions.update(id, updates);
   },
 
-  cancel(id: string): void {
-    this.update(id, { status: 'canceled' });
+  async cancel(id: string): Promise<void> {
+    await this.update(id, { status: 'canceled' });
   },
 
-  getPlanLimits(): PlanLimit[] {
-    const stmt = db.prepare('SELECT * FROM plan_limits ORDER BY daily_minutes ASC');
-    return stmt.all() as PlanLimit[];
+  async getPlanLimits(): Promise<PlanLimit[]> {
+    return repositories.subscriptions.getPlanLimits();
   },
 
-  getPlanLimit(plan: PlanType): PlanLimit | undefined {
-    const stmt = db.prepare('SELECT * FROM plan_limits WHERE plan = ?');
-    return stmt.get(plan) as PlanLimit | undefined;
+  async getPlanLimit(plan: PlanType): Promise<PlanLimit | undefined> {
+    return repositories.subscriptions.getPlanLimit(plan);
   },
 
-  getUserDailyLimit(userId: string): number {
-    const subscription = this.findByUserId(userId);
-    if (!subscription) {
-      // Default to free tier
-      const freeLimit = this.getPlanLimit('free');
-      return freeLimit?.daily_minutes || 2;
-    }
+  /**
+   * The plan the user practises on: their own subscription, or a seat in an
+   * organisation's pooled subscription if that gives more minutes
+   */
+  async getEffectivePlan(userId: string): Promise<PlanType> {
+    // Default to free tier
+    const ownPlan = (await this.findByUserId(userId))?.plan || 'free';
+    const seatPlan = await OrganisationSubscriptionModel.findSeatPlan(userId);
+    if (!seatPlan) return ownPlan;
+
+    const ownMinutes = (await this.getPlanLimit(ownPlan))?.daily_minutes || 0;
+    const seatMinutes = (await this.getPlanLimit(seatPlan))?.daily_minutes || 0;
+    return seatMinutes > ownMinutes ? seatPlan : ownPlan;
+  },
 
-    const planLimit = this.getPlanLimit(subscription.plan);
+  async getUserDailyLimit(userId: string): Promise<number> {
+    const planLimit = await this.getPlanLimit(await this.getEffectivePlan(userId));
     return planLimit?.daily_minutes || 2;
   },
 };
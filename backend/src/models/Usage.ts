@@ -1,4 +1,4 @@
-import { db } from '../db/database.js';
+import { repositories } from '../repositories/index.js';
 import { v4 as uuidv4 } from 'uuid';
 
 export interface UsageRecord {
@@ -18,8 +18,11 @@ export interface PracticeSession {
   ended_at: string | null;
   duration_seconds: number;
   mode: 'everyday' | 'slang' | 'workplace' | null;
+  scenario_id: string | null;
   messages_count: number;
   feedback: number | null;
+  billed_seconds: number;
+  last_activity_at: string | null;
   created_at: string;
 }
 
@@ -35,154 +38,179 @@ function getTodayDate(): string {
   return new Date().toISOString().split('T')[0];
 }
 
-export const UsageModel = {
-  getOrCreateDailyRecord(userId: string, date?: string): UsageRecord {
-    const recordDate = date || getTodayDate();
-
-    let record = this.findByUserAndDate(userId, recordDate);
-    if (record) return record;
+// Clients send a heartbeat every 30 seconds; a session silent for longer than
+// this is treated as abandoned (closed tab, lost connection)
+export const STALE_SESSION_SECONDS = 90;
 
-    const id = uuidv4();
-    const stmt = db.prepare(`
-      INSERT INTO usage_records (id, user_id, date, minutes_used, sessions_count)
-      VALUES (?, ?, ?, 0, 0)
-    `);
-    stmt.run(id, userId, recordDate);
+function getLastActivity(session: PracticeSession): Date {
+  return new Date(session.last_activity_at || session.started_at);
+}
 
-    return this.findById(id) as UsageRecord;
+export const UsageModel = {
+  async getOrCreateDailyRecord(userId: string, date?: string): Promise<UsageRecord> {
+    return repositories.usage.getOrCreate(userId, date || getTodayDate());
   },
 
-  findById(id: string): UsageRecord | undefined {
-    const stmt = db.prepare('SELECT * FROM usage_records WHERE id = ?');
-    return stmt.get(id) as UsageRecord | undefined;
+  async findById(id: string): Promise<UsageRecord | undefined> {
+    return repositories.usage.findById(id);
   },
 
-  findByUserAndDate(userId: string, date: string): UsageRecord | undefined {
-    const stmt = db.prepare('SELECT * FROM usage_records WHERE user_id = ? AND date = ?');
-    return stmt.get(userId, date) as UsageRecord | undefined;
+  async findByUserAndDate(userId: string, date: string): Promise<UsageRecord | undefined> {
+    return repositories.usage.findByUserAndDate(userId, date);
   },
 
-  getTodayUsage(userId: string): UsageRecord {
+  async getTodayUsage(userId: string): Promise<UsageRecord> {
     return this.getOrCreateDailyRecord(userId);
   },
 
-  addMinutes(userId: string, minutes: number): UsageRecord {
-    const record = this.getOrCreateDailyRecord(userId);
-
-    const stmt = db.prepare(`
-      UPDATE usage_records
-      SET minutes_used = minutes_used + ?, updated_at = datetime('now')
-      WHERE id = ?
-    `);
-    stmt.run(minutes, record.id);
-
-    return this.findById(record.id) as UsageRecord;
+  async addMinutes(userId: string, minutes: number): Promise<UsageRecord> {
+    const record = await this.getOrCreateDailyRecord(userId);
+    await repositories.usage.addMinutes(record.id, minutes);
+    return (await this.findById(record.id)) as UsageRecord;
   },
 
-  incrementSessionCount(userId: string): void {
-    const record = this.getOrCreateDailyRecord(userId);
+  async incrementSessionCount(userId: string): Promise<void> {
+    const record = await this.getOrCreateDailyRecord(userId);
+    await repositories.usage.incrementSessionCount(record.id);
+  },
 
-    const stmt = db.prepare(`
-      UPDATE usage_records
-      SET sessions_count = sessions_count + 1, updated_at = datetime('now')
-      WHERE id = ?
-    `);
-    stmt.run(record.id);
+  async getUsageHistory(userId: string, days: number = 30): Promise<UsageRecord[]> {
+    return repositories.usage.findRecent(userId, days);
   },
 
-  getUsageHistory(userId: string, days: number = 30): UsageRecord[] {
-    const stmt = db.prepare(`
-      SELECT * FROM usage_records
-      WHERE user_id = ?
-      ORDER BY date DESC
-      LIMIT ?
-    `);
-    return stmt.all(userId, days) as UsageRecord[];
+  async findAllByUserId(userId: string): Promise<UsageRecord[]> {
+    return repositories.usage.findAllByUserId(userId);
   },
 
-  getTotalMinutesThisMonth(userId: string): number {
+  async getTotalMinutesThisMonth(userId: string): Promise<number> {
     const now = new Date();
     const firstDayOfMonth = new Date(now.getFullYear(), now.getMonth(), 1).toISOString().split('T')[0];
+    return this.getTotalMinutesSince(userId, firstDayOfMonth);
+  },
 
-    const stmt = db.prepare(`
-      SELECT COALESCE(SUM(minutes_used), 0) as total
-      FROM usage_records
-      WHERE user_id = ? AND date >= ?
-    `);
-    const result = stmt.get(userId, firstDayOfMonth) as { total: number };
-    return result.total;
+  async getTotalMinutesSince(userId: string, date: string): Promise<number> {
+    return repositories.usage.sumMinutesSince(userId, date);
   },
 };
 
+// Attempts at billing a session before giving up on concurrent heartbeats
+const BILLING_ATTEMPTS = 5;
+
 export const SessionModel = {
-  create(userId: string, mode?: string): PracticeSession {
+  async create(userId: string, mode?: string, scenarioId?: string): Promise<PracticeSession> {
     const id = uuidv4();
     const started_at = new Date().toISOString();
 
-    const stmt = db.prepare(`
-      INSERT INTO practice_sessions (id, user_id, started_at, mode)
-      VALUES (?, ?, ?, ?)
-    `);
-    stmt.run(id, userId, started_at, mode || null);
+    await repositories.sessions.insert({
+      id,
+      user_id: userId,
+      started_at,
+      mode: mode || null,
+      scenario_id: scenarioId || null,
+    });
 
     // Increment daily session count
-    UsageModel.incrementSessionCount(userId);
+    await UsageModel.incrementSessionCount(userId);
 
-    return this.findById(id) as PracticeSession;
+    return (await this.findById(id)) as PracticeSession;
   },
 
-  findById(id: string): PracticeSession | undefined {
-    const stmt = db.prepare('SELECT * FROM practice_sessions WHERE id = ?');
-    return stmt.get(id) as PracticeSession | undefined;
+  async findById(id: string): Promise<PracticeSession | undefined> {
+    return repositories.sessions.findById(id);
   },
 
-  end(id: string, feedback?: boolean): PracticeSession | undefined {
-    const session = this.findById(id);
+  /**
+   * Add the time elapsed since the last billed point to today's usage
+   */
+  async recordActivity(id: string, at: Date = new Date()): Promise<PracticeSession | undefined> {
+    for (let attempt = 0; attempt < BILLING_ATTEMPTS; attempt++) {
+      const session = await this.findById(id);
+      if (!session) return undefined;
+
+      const elapsed = Math.max(0, Math.round((at.getTime() - new Date(session.started_at).getTime()) / 1000));
+      const unbilled = elapsed - session.billed_seconds;
+
+      // Only bill the seconds this call moved billed_seconds past - a
+      // heartbeat racing an /end must not add the same time twice
+      const claimed = await repositories.sessions.updateBilling(
+        id,
+        session.billed_seconds,
+        Math.max(elapsed, session.billed_seconds),
+        at.toISOString()
+      );
+      if (!claimed) continue;
+
+      if (unbilled > 0) {
+        await UsageModel.addMinutes(session.user_id, unbilled / 60);
+      }
+      return this.findById(id);
+    }
+
+    throw new Error(`Could not bill practice session ${id}`);
+  },
+
+  /**
+   * End a session, billing any time not yet recorded by heartbeats. Ending
+   * an already ended session only updates its feedback.
+   */
+  async end(id: string, feedback?: boolean, endedAt: Date = new Date()): Promise<PracticeSession | undefined> {
+    const session = await this.findById(id);
     if (!session) return undefined;
 
-    const ended_at = new Date().toISOString();
-    const started = new Date(session.started_at).getTime();
-    const ended = new Date(ended_at).getTime();
-    const duration_seconds = Math.round((ended - started) / 1000);
+    if (!session.ended_at) {
+      const billed = (await this.recordActivity(id, endedAt)) as PracticeSession;
+      const ended = await repositories.sessions.markEnded(
+        id,
+        endedAt.toISOString(),
+        billed.billed_seconds,
+        feedback !== undefined ? (feedback ? 1 : 0) : null
+      );
+      if (ended) return this.findById(id);
+    }
+
+    if (feedback !== undefined) {
+      await repositories.sessions.updateFeedback(id, feedback ? 1 : 0);
+    }
+    return this.findById(id);
+  },
+
+  isStale(session: PracticeSession): boolean {
+    return !session.ended_at && Date.now() - getLastActivity(session).getTime() > STALE_SESSION_SECONDS * 1000;
+  },
 
-    const stmt = db.prepare(`
-      UPDATE practice_sessions
-      SET ended_at = ?, duration_seconds = ?, feedback = ?
-      WHERE id = ?
-    `);
-    stmt.run(ended_at, duration_seconds, feedback !== undefined ? (feedback ? 1 : 0) : null, id);
+  /**
+   * Close a stale session at its last sign of activity, so the silent
+   * period after the client went away is not billed
+   */
+  async closeIfStale(session: PracticeSession): Promise<PracticeSession> {
+    if (!this.isStale(session)) return session;
+    return (await this.end(session.id, undefined, getLastActivity(session))) as PracticeSession;
+  },
 
-    // Add minutes to usage record
-    const minutes_used = duration_seconds / 60;
-    UsageModel.addMinutes(session.user_id, minutes_used);
+  async updateMessageCount(id: string, count: number): Promise<void> {
+    await repositories.sessions.updateMessageCount(id, count);
+  },
 
-    return this.findById(id);
+  async getRecentSessions(userId: string, limit: number = 10): Promise<PracticeSession[]> {
+    return repositories.sessions.findRecent(userId, limit);
   },
 
-  updateMessageCount(id: string, count: number): void {
-    const stmt = db.prepare(`
-      UPDATE practice_sessions SET messages_count = ? WHERE id = ?
-    `);
-    stmt.run(count, id);
+  async findAllByUserId(userId: string): Promise<PracticeSession[]> {
+    return repositories.sessions.findAllByUserId(userId);
   },
 
-  getRecentSessions(userId: string, limit: number = 10): PracticeSession[] {
-    const stmt = db.prepare(`
-      SELECT * FROM practice_sessions
-      WHERE user_id = ?
-      ORDER BY started_at DESC
-      LIMIT ?
-    `);
-    return stmt.all(userId, limit) as PracticeSession[];
+  async getSessionsSince(userId: string, since: string): Promise<PracticeSession[]> {
+    return repositories.sessions.findStartedSince(userId, since);
   },
 
-  getActiveSession(userId: string): PracticeSession | undefined {
-    const stmt = db.prepare(`
-      SELECT * FROM practice_sessions
-      WHERE user_id = ? AND ended_at IS NULL
-      ORDER BY started_at DESC
-      LIMIT 1
-    `);
-    return stmt.get(userId) as PracticeSession | undefined;
+  async getActiveSession(userId: string): Promise<PracticeSession | undefined> {
+    const sessions = await repositories.sessions.findOpen(userId);
+
+    // Auto-close sessions the client abandoned without calling /end
+    const current: PracticeSession[] = [];
+    for (const session of sessions) {
+      current.push(await this.closeIfStale(session));
+    }
+    return current.find(session => !session.ended_at);
   },
 };
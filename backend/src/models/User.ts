@@ -1,4 +1,4 @@
-import { db } from '../db/database.js';
+import { repositories } from '../repositories/index.js';
 import { v4 as uuidv4 } from 'uuid';
 import bcrypt from 'bcryptjs';
 
@@ -15,11 +15,13 @@ export interface User {
 
 export interface CreateUserInput {
   email: string;
-  password: string;
+  // Left out for accounts made through a sign-in provider
+  password?: string;
   name?: string;
 }
 
 export interface UserWithSubscription extends Omit<User, 'password_hash'> {
+  has_password: boolean;
   subscription: {
     plan: string;
     status: string;
@@ -29,94 +31,77 @@ export interface UserWithSubscription extends Omit<User, 'password_hash'> {
 
 const SALT_ROUNDS = 12;
 
+// Stored for accounts with no password; no password matches it, and a
+// password reset sets a real one
+const NO_PASSWORD_HASH = '';
+
 export const UserModel = {
   async create(input: CreateUserInput): Promise<User> {
     const id = uuidv4();
-    const password_hash = await bcrypt.hash(input.password, SALT_ROUNDS);
-
-    const stmt = db.prepare(`
-      INSERT INTO users (id, email, password_hash, name)
-      VALUES (?, ?, ?, ?)
-    `);
+    const password_hash = input.password ? await bcrypt.hash(input.password, SALT_ROUNDS) : NO_PASSWORD_HASH;
 
-    stmt.run(id, input.email.toLowerCase(), password_hash, input.name || null);
+    await repositories.users.insert({
+      id,
+      email: input.email.toLowerCase(),
+      password_hash,
+      name: input.name || null,
+    });
 
-    const user = this.findById(id);
+    const user = await this.findById(id);
     if (!user) {
       throw new Error('Failed to create user');
     }
     return user;
   },
 
-  findById(id: string): User | undefined {
-    const stmt = db.prepare('SELECT * FROM users WHERE id = ?');
-    return stmt.get(id) as User | undefined;
+  async findById(id: string): Promise<User | undefined> {
+    return repositories.users.findById(id);
   },
 
-  findByEmail(email: string): User | undefined {
-    const stmt = db.prepare('SELECT * FROM users WHERE email = ?');
-    return stmt.get(email.toLowerCase()) as User | undefined;
+  async findByEmail(email: string): Promise<User | undefined> {
+    return repositories.users.findByEmail(email.toLowerCase());
   },
 
-  findByStripeCustomerId(customerId: string): User | undefined {
-    const stmt = db.prepare('SELECT * FROM users WHERE stripe_customer_id = ?');
-    return stmt.get(customerId) as User | undefined;
+  async findByStripeCustomerId(customerId: string): Promise<User | undefined> {
+    return repositories.users.findByStripeCustomerId(customerId);
+  },
+
+  hasPassword(user: User): boolean {
+    return user.password_hash !== NO_PASSWORD_HASH;
   },
 
   async verifyPassword(user: User, password: string): Promise<boolean> {
+    if (!this.hasPassword(user)) return false;
     return bcrypt.compare(password, user.password_hash);
   },
 
-  updateStripeCustomerId(userId: string, stripeCustomerId: string): void {
-    const stmt = db.prepare(`
-      UPDATE users SET stripe_customer_id = ?, updated_at = datetime('now')
-      WHERE id = ?
-    `);
-    stmt.run(stripeCustomerId, userId);
+  async updateStripeCustomerId(userId: string, stripeCustomerId: string): Promise<void> {
+    await repositories.users.updateStripeCustomerId(userId, stripeCustomerId);
+  },
+
+  async updatePassword(userId: string, password: string): Promise<void> {
+    const password_hash = await bcrypt.hash(password, SALT_ROUNDS);
+    await repositories.users.updatePasswordHash(userId, password_hash);
+  },
+
+  // Password sign-in stops working until the user sets one through a reset
+  async clearPassword(userId: string): Promise<void> {
+    await repositories.users.updatePasswordHash(userId, NO_PASSWORD_HASH);
+  },
+
+  async markEmailVerified(userId: string): Promise<void> {
+    await repositories.users.markEmailVerified(userId);
   },
 
-  updateName(userId: string, name: string): void {
-    const stmt = db.prepare(`
-      UPDATE users SET name = ?, updated_at = datetime('now')
-      WHERE id = ?
-    `);
-    stmt.run(name, userId);
+  async updateName(userId: string, name: string): Promise<void> {
+    await repositories.users.updateName(userId, name);
   },
 
-  getWithSubscription(userId: string): UserWithSubscription | undefined {
-    const stmt = db.prepare(`
-      SELECT
-        u.id, u.email, u.name, u.created_at, u.updated_at,
-        u.email_verified, u.stripe_customer_id,
-        s.plan, s.status,
-        pl.daily_minutes
-      FROM users u
-      LEFT JOIN subscriptions s ON u.id = s.user_id AND s.status IN ('active', 'trialing')
-      LEFT JOIN plan_limits pl ON s.plan = pl.plan
-      WHERE u.id = ?
-    `);
-
-    const row = stmt.get(userId) as any;
-    if (!row) return undefined;
-
-    return {
-      id: row.id,
-      email: row.email,
-      name: row.name,
-      created_at: row.created_at,
-      updated_at: row.updated_at,
-      email_verified: row.email_verified,
-      stripe_customer_id: row.stripe_customer_id,
-      subscription: row.plan ? {
-        plan: row.plan,
-        status: row.status,
-        daily_limit_minutes: row.daily_minutes,
-      } : null,
-    };
+  async getWithSubscription(userId: string): Promise<UserWithSubscription | undefined> {
+    return repositories.users.findWithSubscription(userId);
   },
 
-  delete(userId: string): void {
-    const stmt = db.prepare('DELETE FROM users WHERE id = ?');
-    stmt.run(userId);
+  async delete(userId: string): Promise<void> {
+    await repositories.users.delete(userId);
   },
 };
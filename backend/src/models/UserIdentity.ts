@@ -0,0 +1,44 @@
+import { repositories } from '../repositories/index.js';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface UserIdentity {
+  id: string;
+  user_id: string;
+  provider: string;
+  subject: string;
+  email: string | null;
+  created_at: string;
+  last_login_at: string | null;
+}
+
+export const UserIdentityModel = {
+  async create(userId: string, provider: string, subject: string, email: string | null): Promise<UserIdentity> {
+    const id = uuidv4();
+    await repositories.userIdentities.insert({
+      id,
+      user_id: userId,
+      provider,
+      subject,
+      email,
+      last_login_at: new Date().toISOString(),
+    });
+
+    return (await this.findById(id)) as UserIdentity;
+  },
+
+  async findById(id: string): Promise<UserIdentity | undefined> {
+    return repositories.userIdentities.findById(id);
+  },
+
+  async findByProviderSubject(provider: string, subject: string): Promise<UserIdentity | undefined> {
+    return repositories.userIdentities.findByProviderSubject(provider, subject);
+  },
+
+  async findByUserId(userId: string): Promise<UserIdentity[]> {
+    return repositories.userIdentities.findByUserId(userId);
+  },
+
+  async recordLogin(id: string, email: string | null): Promise<void> {
+    await repositories.userIdentities.recordLogin(id, email, new Date().toISOString());
+  },
+};
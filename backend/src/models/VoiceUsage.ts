@@ -0,0 +1,55 @@
+import { repositories } from '../repositories/index.js';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface VoiceUsageRecord {
+  id: string;
+  user_id: string | null;
+  device_id: string | null;
+  practice_session_id: string | null;
+  date: string;
+  route: string;
+  tts_characters: number;
+  stt_seconds: number;
+  llm_turns: number;
+  minutes: number;
+  created_at: string;
+}
+
+export interface RecordVoiceUsageInput {
+  user_id: string | null;
+  device_id: string | null;
+  practice_session_id: string | null;
+  route: string;
+  tts_characters: number;
+  stt_seconds: number;
+  llm_turns: number;
+  minutes: number;
+}
+
+function getTodayDate(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+export const VoiceUsageModel = {
+  async record(input: RecordVoiceUsageInput): Promise<VoiceUsageRecord> {
+    const id = uuidv4();
+    await repositories.voiceUsage.insert({ ...input, id, date: getTodayDate() });
+
+    return (await this.findById(id)) as VoiceUsageRecord;
+  },
+
+  async findById(id: string): Promise<VoiceUsageRecord | undefined> {
+    return repositories.voiceUsage.findById(id);
+  },
+
+  async findByUserId(userId: string): Promise<VoiceUsageRecord[]> {
+    return repositories.voiceUsage.findByUserId(userId);
+  },
+
+  /**
+   * Hand today's anonymous voice usage from a device over to a new account
+   */
+  async assignDeviceToUser(deviceId: string, userId: string): Promise<void> {
+    await repositories.voiceUsage.assignDeviceToUser(deviceId, userId, getTodayDate());
+  },
+};
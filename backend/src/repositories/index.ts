@@ -0,0 +1,14 @@
+import { getSqlite, databaseDriver } from '../db/database.js';
+import { getPool } from '../db/postgres.js';
+import { createSqliteRepositories } from './sqlite.js';
+import { createPostgresRepositories } from './postgres.js';
+import type { Repositories } from './types.js';
+
+export * from './types.js';
+export * from './sqlite.js';
+export * from './postgres.js';
+
+// Picked by DATABASE_DRIVER: sqlite (default) or postgres
+export const repositories: Repositories = databaseDriver === 'postgres'
+  ? createPostgresRepositories(getPool())
+  : createSqliteRepositories(getSqlite());
@@ -0,0 +1,1518 @@
+import type { Pool, PoolClient } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import type { User, UserWithSubscription } from '../models/User.js';
+import type { Subscription, PlanLimit, PlanType } from '../models/Subscription.js';
+import type { UsageRecord, PracticeSession } from '../models/Usage.js';
+import type { ConversationTurn } from '../models/Conversation.js';
+import type { VoiceUsageRecord } from '../models/VoiceUsage.js';
+import type { AnonymousUsageRecord } from '../models/AnonymousUsage.js';
+import type { QuizResult } from '../models/QuizResult.js';
+import type { AuthToken, AuthTokenType } from '../models/AuthToken.js';
+import type { AuthSession, AuthSessionSummary } from '../models/AuthSession.js';
+import type { OAuthState } from '../models/OAuthState.js';
+import type { UserIdentity } from '../models/UserIdentity.js';
+import type { Deck, DeckSummary, DeckTerm, DeckInput, DeckTermInput } from '../models/Deck.js';
+import type {
+  PhraseList,
+  PhraseListSummary,
+  PhraseListItem,
+  PhraseListInput,
+  PhraseInput,
+} from '../models/PhraseList.js';
+import type { Cohort, CohortSummary, CohortInput, CohortMemberDetails } from '../models/Cohort.js';
+import type { Assignment, AssignmentInput, AssignmentTask, LearnerAssignment } from '../models/Assignment.js';
+import type {
+  Organisation,
+  OrganisationSummary,
+  OrganisationMember,
+  OrganisationMemberDetails,
+  OrganisationRole,
+  OrganisationInvite,
+  OrganisationSubscription,
+} from '../models/Organisation.js';
+import {
+  Repositories,
+  UserRepository,
+  SubscriptionRepository,
+  UsageRepository,
+  SessionRepository,
+  ConversationTurnRepository,
+  SessionReportRepository,
+  VoiceUsageRepository,
+  AnonymousUsageRepository,
+  ProgressRepository,
+  QuizResultRepository,
+  AuthTokenRepository,
+  AuthSessionRepository,
+  OAuthStateRepository,
+  UserIdentityRepository,
+  DeckRepository,
+  DeckTermRepository,
+  PhraseListRepository,
+  PhraseListItemRepository,
+  CohortRepository,
+  AssignmentRepository,
+  OrganisationRepository,
+  OrganisationMemberRepository,
+  OrganisationInviteRepository,
+  OrganisationSubscriptionRepository,
+  NewUserRow,
+  NewSubscriptionRow,
+  NewSessionRow,
+  NewConversationTurnRow,
+  NewVoiceUsageRow,
+  NewAnonymousUsageRow,
+  NewQuizResultRow,
+  NewAuthTokenRow,
+  NewAuthSessionRow,
+  NewOAuthStateRow,
+  NewUserIdentityRow,
+  NewAssignmentRow,
+  NewOrganisationMemberRow,
+  NewOrganisationInviteRow,
+  NewOrganisationSubscriptionRow,
+  SessionReportRow,
+  SessionReportWrite,
+  ProgressDocumentRow,
+  ProgressDocumentWrite,
+  OrganisationMemberUpdate,
+  SubscriptionUpdate,
+  OrganisationSubscriptionUpdate,
+  SUBSCRIPTION_UPDATE_COLUMNS,
+  ORGANISATION_SUBSCRIPTION_UPDATE_COLUMNS,
+  UserSubscriptionRow,
+  toUserWithSubscription,
+} from './types.js';
+
+// Timestamps are TEXT in the same format as SQLite's datetime('now') (see
+// utc_now_text() in the Postgres migrations), so rows match across drivers
+
+type Queryable = Pool | PoolClient;
+
+async function one<T>(db: Queryable, sql: string, params: unknown[]): Promise<T | undefined> {
+  const result = await db.query(sql, params);
+  return result.rows[0] as T | undefined;
+}
+
+async function many<T>(db: Queryable, sql: string, params: unknown[]): Promise<T[]> {
+  const result = await db.query(sql, params);
+  return result.rows as T[];
+}
+
+async function changed(db: Queryable, sql: string, params: unknown[]): Promise<number> {
+  const result = await db.query(sql, params);
+  return result.rowCount ?? 0;
+}
+
+// Run work on one connection inside BEGIN/COMMIT, rolling back if it throws
+async function transaction<T>(pool: Pool, work: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await work(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+export class PostgresUserRepository implements UserRepository {
+  constructor(private readonly pool: Pool) {}
+
+  async insert(user: NewUserRow): Promise<void> {
+    await this.pool.query(
+      'INSERT INTO users (id, email, password_hash, name) VALUES ($1, $2, $3, $4)',
+      [user.id, user.email, user.password_hash, user.name]
+    );
+  }
+
+  async findById(id: string): Promise<User | undefined> {
+    return one<User>(this.pool, 'SELECT * FROM users WHERE id = $1', [id]);
+  }
+
+  async findByEmail(email: string): Promise<User | undefined> {
+    return one<User>(this.pool, 'SELECT * FROM users WHERE email = $1', [email]);
+  }
+
+  async findByStripeCustomerId(customerId: string): Promise<User | undefined> {
+    return one<User>(this.pool, 'SELECT * FROM users WHERE stripe_customer_id = $1', [customerId]);
+  }
+
+  async findWithSubscription(id: string): Promise<UserWithSubscription | undefined> {
+    const row = await one<UserSubscriptionRow>(this.pool, `
+      SELECT
+        u.id, u.email, u.name, u.created_at, u.updated_at,
+        u.email_verified, u.stripe_customer_id, u.password_hash <> '' AS has_password,
+        s.plan, s.status,
+        pl.daily_minutes
+      FROM users u
+      LEFT JOIN subscriptions s ON u.id = s.user_id AND s.status IN ('active', 'trialing')
+      LEFT JOIN plan_limits pl ON s.plan = pl.plan
+      WHERE u.id = $1
+      ORDER BY s.created_at DESC NULLS LAST
+      LIMIT 1
+    `, [id]);
+    return row && toUserWithSubscription(row);
+  }
+
+  async updateStripeCustomerId(id: string, stripeCustomerId: string): Promise<void> {
+    await this.pool.query(
+      'UPDATE users SET stripe_customer_id = $1, updated_at = utc_now_text() WHERE id = $2',
+      [stripeCustomerId, id]
+    );
+  }
+
+  async updatePasswordHash(id: string, passwordHash: string): Promise<void> {
+    await this.pool.query(
+      'UPDATE users SET password_hash = $1, updated_at = utc_now_text() WHERE id = $2',
+      [passwordHash, id]
+    );
+  }
+
+  async markEmailVerified(id: string): Promise<void> {
+    await this.pool.query('UPDATE users SET email_verified = 1, updated_at = utc_now_text() WHERE id = $1', [id]);
+  }
+
+  async updateName(id: string, name: string): Promise<void> {
+    await this.pool.query('UPDATE users SET name = $1, updated_at = utc_now_text() WHERE id = $2', [name, id]);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.pool.query('DELETE FROM users WHERE id = $1', [id]);
+  }
+}
+
+export class PostgresSubscriptionRepository implements SubscriptionRepository {
+  constructor(private readonly pool: Pool) {}
+
+  async insert(subscription: NewSubscriptionRow): Promise<void> {
+    await this.pool.query(`
+      INSERT INTO subscriptions (
+        id, user_id, plan, status, stripe_subscription_id, stripe_price_id,
+        current_period_start, current_period_end
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    `, [
+      subscription.id,
+      subscription.user_id,
+      subscription.plan,
+      subscription.status,
+      subscription.stripe_subscription_id,
+      subscription.stripe_price_id,
+      subscription.current_period_start,
+      subscription.current_period_end,
+    ]);
+  }
+
+  async findById(id: string): Promise<Subscription | undefined> {
+    return one<Subscription>(this.pool, 'SELECT * FROM subscriptions WHERE id = $1', [id]);
+  }
+
+  async findActiveByUserId(userId: string): Promise<Subscription | undefined> {
+    return one<Subscription>(this.pool, `
+      SELECT * FROM subscriptions
+      WHERE user_id = $1 AND status IN ('active', 'trialing')
+      ORDER BY created_at DESC
+      LIMIT 1
+    `, [userId]);
+  }
+
+  async findAllByUserId(userId: string): Promise<Subscription[]> {
+    return many<Subscription>(this.pool, 'SELECT * FROM subscriptions WHERE user_id = $1 ORDER BY created_at ASC', [userId]);
+  }
+
+  async findByStripeSubscriptionId(stripeSubscriptionId: string): Promise<Subscription | undefined> {
+    return one<Subscription>(
+      this.pool,
+      'SELECT * FROM subscriptions WHERE stripe_subscription_id = $1',
+      [stripeSubscriptionId]
+    );
+  }
+
+  async update(id: string, updates: SubscriptionUpdate): Promise<void> {
+    const columns = SUBSCRIPTION_UPDATE_COLUMNS.filter(column => updates[column] !== undefined);
+    if (columns.length === 0) return;
+
+    const assignments = columns.map((column, i) => `${column} = $${i + 1}`);
+    assignments.push('updated_at = utc_now_text()');
+
+    await this.pool.query(
+      `UPDATE subscriptions SET ${assignments.join(', ')} WHERE id = $${columns.length + 1}`,
+      [...columns.map(column => updates[column]), id]
+    );
+  }
+
+  async getPlanLimits(): Promise<PlanLimit[]> {
+    return many<PlanLimit>(this.pool, 'SELECT * FROM plan_limits ORDER BY daily_minutes ASC', []);
+  }
+
+  async getPlanLimit(plan: PlanType): Promise<PlanLimit | undefined> {
+    return one<PlanLimit>(this.pool, 'SELECT * FROM plan_limits WHERE plan = $1', [plan]);
+  }
+}
+
+export class PostgresUsageRepository implements UsageRepository {
+  constructor(private readonly pool: Pool) {}
+
+  async getOrCreate(userId: string, date: string): Promise<UsageRecord> {
+    await this.pool.query(`
+      INSERT INTO usage_records (id, user_id, date, minutes_used, sessions_count)
+      VALUES ($1, $2, $3, 0, 0)
+      ON CONFLICT (user_id, date) DO NOTHING
+    `, [uuidv4(), userId, date]);
+
+    return (await this.findByUserAndDate(userId, date)) as UsageRecord;
+  }
+
+  async findById(id: string): Promise<UsageRecord | undefined> {
+    return one<UsageRecord>(this.pool, 'SELECT * FROM usage_records WHERE id = $1', [id]);
+  }
+
+  async findByUserAndDate(userId: string, date: string): Promise<UsageRecord | undefined> {
+    return one<UsageRecord>(this.pool, 'SELECT * FROM usage_records WHERE user_id = $1 AND date = $2', [userId, date]);
+  }
+
+  async addMinutes(id: string, minutes: number): Promise<void> {
+    await this.pool.query(
+      'UPDATE usage_records SET minutes_used = minutes_used + $1, updated_at = utc_now_text() WHERE id = $2',
+      [minutes, id]
+    );
+  }
+
+  async incrementSessionCount(id: string): Promise<void> {
+    await this.pool.query(
+      'UPDATE usage_records SET sessions_count = sessions_count + 1, updated_at = utc_now_text() WHERE id = $1',
+      [id]
+    );
+  }
+
+  async findRecent(userId: string, limit: number): Promise<UsageRecord[]> {
+    return many<UsageRecord>(
+      this.pool,
+      'SELECT * FROM usage_records WHERE user_id = $1 ORDER BY date DESC LIMIT $2',
+      [userId, limit]
+    );
+  }
+
+  async findAllByUserId(userId: string): Promise<UsageRecord[]> {
+    return many<UsageRecord>(this.pool, 'SELECT * FROM usage_records WHERE user_id = $1 ORDER BY date ASC', [userId]);
+  }
+
+  async sumMinutesSince(userId: string, date: string): Promise<number> {
+    const row = await one<{ total: number }>(this.pool, `
+      SELECT COALESCE(SUM(minutes_used), 0) as total
+      FROM usage_records
+      WHERE user_id = $1 AND date >= $2
+    `, [userId, date]);
+    return row?.total ?? 0;
+  }
+}
+
+export class PostgresSessionRepository implements SessionRepository {
+  constructor(private readonly pool: Pool) {}
+
+  async insert(session: NewSessionRow): Promise<void> {
+    await this.pool.query(
+      'INSERT INTO practice_sessions (id, user_id, started_at, mode, scenario_id) VALUES ($1, $2, $3, $4, $5)',
+      [session.id, session.user_id, session.started_at, session.mode, session.scenario_id]
+    );
+  }
+
+  async findById(id: string): Promise<PracticeSession | undefined> {
+    return one<PracticeSession>(this.pool, 'SELECT * FROM practice_sessions WHERE id = $1', [id]);
+  }
+
+  async updateBilling(id: string, expected: number, billedSeconds: number, lastActivityAt: string): Promise<boolean> {
+    const count = await changed(this.pool, `
+      UPDATE practice_sessions
+      SET billed_seconds = $1, last_activity_at = $2
+      WHERE id = $3 AND billed_seconds = $4
+    `, [billedSeconds, lastActivityAt, id, expected]);
+    return count > 0;
+  }
+
+  async markEnded(id: string, endedAt: string, durationSeconds: number, feedback: number | null): Promise<boolean> {
+    const count = await changed(this.pool, `
+      UPDATE practice_sessions
+      SET ended_at = $1, duration_seconds = $2, feedback = $3
+      WHERE id = $4 AND ended_at IS NULL
+    `, [endedAt, durationSeconds, feedback, id]);
+    return count > 0;
+  }
+
+  async updateFeedback(id: string, feedback: number): Promise<void> {
+    await this.pool.query('UPDATE practice_sessions SET feedback = $1 WHERE id = $2', [feedback, id]);
+  }
+
+  async updateMessageCount(id: string, count: number): Promise<void> {
+    await this.pool.query('UPDATE practice_sessions SET messages_count = $1 WHERE id = $2', [count, id]);
+  }
+
+  async findRecent(userId: string, limit: number): Promise<PracticeSession[]> {
+    return many<PracticeSession>(
+      this.pool,
+      'SELECT * FROM practice_sessions WHERE user_id = $1 ORDER BY started_at DESC LIMIT $2',
+      [userId, limit]
+    );
+  }
+
+  async findAllByUserId(userId: string): Promise<PracticeSession[]> {
+    return many<PracticeSession>(
+      this.pool,
+      'SELECT * FROM practice_sessions WHERE user_id = $1 ORDER BY started_at ASC',
+      [userId]
+    );
+  }
+
+  async findStartedSince(userId: string, since: string): Promise<PracticeSession[]> {
+    return many<PracticeSession>(
+      this.pool,
+      'SELECT * FROM practice_sessions WHERE user_id = $1 AND started_at >= $2 ORDER BY started_at DESC',
+      [userId, since]
+    );
+  }
+
+  async findOpen(userId: string): Promise<PracticeSession[]> {
+    return many<PracticeSession>(
+      this.pool,
+      'SELECT * FROM practice_sessions WHERE user_id = $1 AND ended_at IS NULL ORDER BY started_at DESC',
+      [userId]
+    );
+  }
+}
+
+export class PostgresConversationTurnRepository implements ConversationTurnRepository {
+  constructor(private readonly pool: Pool) {}
+
+  async insert(turn: NewConversationTurnRow): Promise<void> {
+    await this.pool.query(`
+      INSERT INTO conversation_turns (
+        id, session_id, practice_session_id, turn_index, role, content, emotion,
+        model, input_tokens, output_tokens
+      )
+      VALUES (
+        $1, $2,
+        (SELECT id FROM practice_sessions WHERE id = $2),
+        (SELECT COALESCE(MAX(turn_index), -1) + 1 FROM conversation_turns WHERE session_id = $2),
+        $3, $4, $5, $6, $7, $8
+      )
+    `, [
+      turn.id, turn.session_id, turn.role, turn.content, turn.emotion,
+      turn.model, turn.input_tokens, turn.output_tokens,
+    ]);
+  }
+
+  async findById(id: string): Promise<ConversationTurn | undefined> {
+    return one<ConversationTurn>(this.pool, 'SELECT * FROM conversation_turns WHERE id = $1', [id]);
+  }
+
+  async findBySessionId(sessionId: string): Promise<ConversationTurn[]> {
+    return many<ConversationTurn>(
+      this.pool,
+      'SELECT * FROM conversation_turns WHERE session_id = $1 ORDER BY turn_index ASC',
+      [sessionId]
+    );
+  }
+
+  async findByPracticeSessionId(practiceSessionId: string): Promise<ConversationTurn[]> {
+    return many<ConversationTurn>(
+      this.pool,
+      'SELECT * FROM conversation_turns WHERE practice_session_id = $1 ORDER BY turn_index ASC',
+      [practiceSessionId]
+    );
+  }
+
+  async existsForSession(sessionId: string): Promise<boolean> {
+    const row = await one(this.pool, 'SELECT 1 FROM conversation_turns WHERE session_id = $1 LIMIT 1', [sessionId]);
+    return row !== undefined;
+  }
+
+  async isLinkedToPracticeSession(sessionId: string): Promise<boolean> {
+    const row = await one(this.pool, `
+      SELECT 1 FROM conversation_turns
+      WHERE session_id = $1 AND practice_session_id IS NOT NULL
+      LIMIT 1
+    `, [sessionId]);
+    return row !== undefined;
+  }
+
+  async deleteBySessionId(sessionId: string): Promise<void> {
+    await this.pool.query('DELETE FROM conversation_turns WHERE session_id = $1', [sessionId]);
+  }
+
+  async deleteAnonymousBefore(before: string): Promise<number> {
+    return changed(this.pool, `
+      DELETE FROM conversation_turns
+      WHERE session_id IN (
+        SELECT session_id FROM conversation_turns
+        GROUP BY session_id
+        HAVING MAX(practice_session_id) IS NULL AND MAX(created_at) < $1
+      )
+    `, [before]);
+  }
+}
+
+export class PostgresSessionReportRepository implements SessionReportRepository {
+  constructor(private readonly pool: Pool) {}
+
+  async save(report: SessionReportWrite): Promise<void> {
+    await this.pool.query(`
+      INSERT INTO session_reports (session_id, report, model, input_tokens, output_tokens)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (session_id) DO UPDATE SET
+        report = excluded.report,
+        model = excluded.model,
+        input_tokens = excluded.input_tokens,
+        output_tokens = excluded.output_tokens,
+        updated_at = utc_now_text()
+    `, [report.session_id, report.report, report.model, report.input_tokens, report.output_tokens]);
+  }
+
+  async findBySessionId(sessionId: string): Promise<SessionReportRow | undefined> {
+    return one<SessionReportRow>(this.pool, 'SELECT * FROM session_reports WHERE session_id = $1', [sessionId]);
+  }
+}
+
+export class PostgresVoiceUsageRepository implements VoiceUsageRepository {
+  constructor(private readonly pool: Pool) {}
+
+  async insert(record: NewVoiceUsageRow): Promise<void> {
+    await this.pool.query(`
+      INSERT INTO voice_usage (
+        id, user_id, device_id, practice_session_id, date, route,
+        tts_characters, stt_seconds, llm_turns, minutes
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+    `, [
+      record.id,
+      record.user_id,
+      record.device_id,
+      record.practice_session_id,
+      record.date,
+      record.route,
+      record.tts_characters,
+      record.stt_seconds,
+      record.llm_turns,
+      record.minutes,
+    ]);
+  }
+
+  async findById(id: string): Promise<VoiceUsageRecord | undefined> {
+    return one<VoiceUsageRecord>(this.pool, 'SELECT * FROM voice_usage WHERE id = $1', [id]);
+  }
+
+  async findByUserId(userId: string): Promise<VoiceUsageRecord[]> {
+    return many<VoiceUsageRecord>(
+      this.pool,
+      'SELECT * FROM voice_usage WHERE user_id = $1 ORDER BY created_at ASC',
+      [userId]
+    );
+  }
+
+  async assignDeviceToUser(deviceId: string, userId: string, date: string): Promise<void> {
+    await this.pool.query(`
+      UPDATE voice_usage
+      SET user_id = $1
+      WHERE device_id = $2 AND user_id IS NULL AND date = $3
+    `, [userId, deviceId, date]);
+  }
+}
+
+export class PostgresAnonymousUsageRepository implements AnonymousUsageRepository {
+  constructor(private readonly pool: Pool) {}
+
+  async insert(record: NewAnonymousUsageRow): Promise<void> {
+    await this.pool.query(`
+      INSERT INTO anonymous_usage (id, device_id, ip_hash, date, minutes_used, sessions_count)
+      VALUES ($1, $2, $3, $4, 0, 0)
+    `, [record.id, record.device_id, record.ip_hash, record.date]);
+  }
+
+  async findById(id: string): Promise<AnonymousUsageRecord | undefined> {
+    return one<AnonymousUsageRecord>(this.pool, 'SELECT * FROM anonymous_usage WHERE id = $1', [id]);
+  }
+
+  async findByDeviceAndDate(deviceId: string, date: string): Promise<AnonymousUsageRecord | undefined> {
+    return one<AnonymousUsageRecord>(
+      this.pool,
+      'SELECT * FROM anonymous_usage WHERE device_id = $1 AND date = $2',
+      [deviceId, date]
+    );
+  }
+
+  async sumIpMinutes(ipHash: string, date: string): Promise<number> {
+    const row = await one<{ total: number }>(this.pool, `
+      SELECT COALESCE(SUM(minutes_used), 0) as total
+      FROM anonymous_usage
+      WHERE ip_hash = $1 AND date = $2
+    `, [ipHash, date]);
+    return row?.total ?? 0;
+  }
+
+  async addMinutes(id: string, minutes: number): Promise<void> {
+    await this.pool.query(`
+      UPDATE anonymous_usage
+      SET minutes_used = minutes_used + $1, updated_at = utc_now_text()
+      WHERE id = $2
+    `, [minutes, id]);
+  }
+
+  async startSession(id: string, startedAt: string): Promise<void> {
+    await this.pool.query(`
+      UPDATE anonymous_usage
+      SET sessions_count = sessions_count + 1, session_started_at = $1, last_activity_at = $1,
+          updated_at = utc_now_text()
+      WHERE id = $2
+    `, [startedAt, id]);
+  }
+
+  async recordActivity(id: string, minutes: number, lastActivityAt: string): Promise<void> {
+    await this.pool.query(`
+      UPDATE anonymous_usage
+      SET minutes_used = minutes_used + $1, last_activity_at = $2, updated_at = utc_now_text()
+      WHERE id = $3
+    `, [minutes, lastActivityAt, id]);
+  }
+
+  async endSession(id: string): Promise<void> {
+    await this.pool.query(`
+      UPDATE anonymous_usage
+      SET session_started_at = NULL, last_activity_at = NULL, updated_at = utc_now_text()
+      WHERE id = $1
+    `, [id]);
+  }
+
+  async markClaimed(id: string, userId: string): Promise<void> {
+    await this.pool.query(`
+      UPDATE anonymous_usage
+      SET claimed_by_user_id = $1, updated_at = utc_now_text()
+      WHERE id = $2
+    `, [userId, id]);
+  }
+}
+
+export class PostgresProgressRepository implements ProgressRepository {
+  constructor(private readonly pool: Pool) {}
+
+  async findByUserId(userId: string): Promise<ProgressDocumentRow[]> {
+    return many<ProgressDocumentRow>(
+      this.pool,
+      'SELECT * FROM progress_documents WHERE user_id = $1 ORDER BY doc_key ASC',
+      [userId]
+    );
+  }
+
+  async findByKey(userId: string, docKey: string): Promise<ProgressDocumentRow | undefined> {
+    return one<ProgressDocumentRow>(
+      this.pool,
+      'SELECT * FROM progress_documents WHERE user_id = $1 AND doc_key = $2',
+      [userId, docKey]
+    );
+  }
+
+  async insertIfAbsent(document: ProgressDocumentWrite): Promise<boolean> {
+    const count = await changed(this.pool, `
+      INSERT INTO progress_documents (user_id, doc_key, data, version, reset_version)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (user_id, doc_key) DO NOTHING
+    `, [document.user_id, document.doc_key, document.data, document.version, document.reset_version]);
+    return count > 0;
+  }
+
+  async updateIfVersion(document: ProgressDocumentWrite, expectedVersion: number): Promise<boolean> {
+    const count = await changed(this.pool, `
+      UPDATE progress_documents
+      SET data = $1, version = $2, reset_version = $3, updated_at = utc_now_text()
+      WHERE user_id = $4 AND doc_key = $5 AND version = $6
+    `, [
+      document.data,
+      document.version,
+      document.reset_version,
+      document.user_id,
+      document.doc_key,
+      expectedVersion,
+    ]);
+    return count > 0;
+  }
+}
+
+export class PostgresQuizResultRepository implements QuizResultRepository {
+  constructor(private readonly pool: Pool) {}
+
+  async insert(result: NewQuizResultRow): Promise<void> {
+    await this.pool.query(`
+      INSERT INTO quiz_results (id, user_id, category, difficulty, deck_id, question_count, correct_count, completed_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    `, [
+      result.id,
+      result.user_id,
+      result.category,
+      result.difficulty,
+      result.deck_id,
+      result.question_count,
+      result.correct_count,
+      result.completed_at,
+    ]);
+  }
+
+  async findById(id: string): Promise<QuizResult | undefined> {
+    return one<QuizResult>(this.pool, 'SELECT * FROM quiz_results WHERE id = $1', [id]);
+  }
+
+  async findByUserSince(userId: string, since: string): Promise<QuizResult[]> {
+    return many<QuizResult>(this.pool, `
+      SELECT * FROM quiz_results
+      WHERE user_id = $1 AND completed_at >= $2
+      ORDER BY completed_at ASC
+    `, [userId, since]);
+  }
+
+  async findAllByUserId(userId: string): Promise<QuizResult[]> {
+    return many<QuizResult>(
+      this.pool,
+      'SELECT * FROM quiz_results WHERE user_id = $1 ORDER BY completed_at ASC',
+      [userId]
+    );
+  }
+
+  async findRecent(userId: string, limit: number): Promise<QuizResult[]> {
+    return many<QuizResult>(this.pool, `
+      SELECT * FROM quiz_results
+      WHERE user_id = $1
+      ORDER BY completed_at DESC
+      LIMIT $2
+    `, [userId, limit]);
+  }
+}
+
+export class PostgresAuthTokenRepository implements AuthTokenRepository {
+  constructor(private readonly pool: Pool) {}
+
+  async replace(token: NewAuthTokenRow): Promise<void> {
+    await transaction(this.pool, async client => {
+      await client.query('DELETE FROM auth_tokens WHERE user_id = $1 AND type = $2', [token.user_id, token.type]);
+      await client.query(`
+        INSERT INTO auth_tokens (id, user_id, type, token_hash, expires_at)
+        VALUES ($1, $2, $3, $4, $5)
+      `, [token.id, token.user_id, token.type, token.token_hash, token.expires_at]);
+    });
+  }
+
+  async findByTokenHash(tokenHash: string, type: AuthTokenType): Promise<AuthToken | undefined> {
+    return one<AuthToken>(
+      this.pool,
+      'SELECT * FROM auth_tokens WHERE token_hash = $1 AND type = $2',
+      [tokenHash, type]
+    );
+  }
+
+  async markUsed(id: string, usedAt: string): Promise<boolean> {
+    const count = await changed(
+      this.pool,
+      'UPDATE auth_tokens SET used_at = $1 WHERE id = $2 AND used_at IS NULL',
+      [usedAt, id]
+    );
+    return count > 0;
+  }
+}
+
+export class PostgresAuthSessionRepository implements AuthSessionRepository {
+  constructor(private readonly pool: Pool) {}
+
+  async insert(session: NewAuthSessionRow): Promise<void> {
+    await this.pool.query(`
+      INSERT INTO auth_sessions (id, user_id, refresh_token_hash, user_agent, last_used_at, expires_at)
+      VALUES ($1, $2, $3, $4, $5, $6)
+    `, [
+      session.id,
+      session.user_id,
+      session.refresh_token_hash,
+      session.user_agent,
+      session.last_used_at,
+      session.expires_at,
+    ]);
+  }
+
+  async findById(id: string): Promise<AuthSession | undefined> {
+    return one<AuthSession>(this.pool, 'SELECT * FROM auth_sessions WHERE id = $1', [id]);
+  }
+
+  async findByRefreshTokenHash(tokenHash: string): Promise<AuthSession | undefined> {
+    return one<AuthSession>(this.pool, 'SELECT * FROM auth_sessions WHERE refresh_token_hash = $1', [tokenHash]);
+  }
+
+  async findByPreviousTokenHash(tokenHash: string): Promise<AuthSession | undefined> {
+    return one<AuthSession>(this.pool, 'SELECT * FROM auth_sessions WHERE previous_token_hash = $1', [tokenHash]);
+  }
+
+  async rotate(id: string, oldHash: string, newHash: string, lastUsedAt: string, expiresAt: string): Promise<boolean> {
+    const count = await changed(this.pool, `
+      UPDATE auth_sessions
+      SET refresh_token_hash = $1, previous_token_hash = refresh_token_hash, last_used_at = $2, expires_at = $3
+      WHERE id = $4 AND refresh_token_hash = $5 AND revoked_at IS NULL
+    `, [newHash, lastUsedAt, expiresAt, id, oldHash]);
+    return count > 0;
+  }
+
+  async findActiveByUserId(userId: string, now: string): Promise<AuthSessionSummary[]> {
+    return many<AuthSessionSummary>(this.pool, `
+      SELECT id, user_agent, created_at, last_used_at, expires_at
+      FROM auth_sessions
+      WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > $2
+      ORDER BY last_used_at DESC
+    `, [userId, now]);
+  }
+
+  async revoke(id: string, revokedAt: string): Promise<void> {
+    await this.pool.query(
+      'UPDATE auth_sessions SET revoked_at = $1 WHERE id = $2 AND revoked_at IS NULL',
+      [revokedAt, id]
+    );
+  }
+
+  async revokeAllForUser(userId: string, revokedAt: string): Promise<number> {
+    return changed(
+      this.pool,
+      'UPDATE auth_sessions SET revoked_at = $1 WHERE user_id = $2 AND revoked_at IS NULL',
+      [revokedAt, userId]
+    );
+  }
+}
+
+export class PostgresOAuthStateRepository implements OAuthStateRepository {
+  constructor(private readonly pool: Pool) {}
+
+  async insert(state: NewOAuthStateRow): Promise<void> {
+    await this.pool.query(`
+      INSERT INTO oauth_states (id, state_hash, provider, nonce, code_verifier, expires_at)
+      VALUES ($1, $2, $3, $4, $5, $6)
+    `, [state.id, state.state_hash, state.provider, state.nonce, state.code_verifier, state.expires_at]);
+  }
+
+  async findById(id: string): Promise<OAuthState | undefined> {
+    return one<OAuthState>(this.pool, 'SELECT * FROM oauth_states WHERE id = $1', [id]);
+  }
+
+  async findByStateHash(stateHash: string): Promise<OAuthState | undefined> {
+    return one<OAuthState>(this.pool, 'SELECT * FROM oauth_states WHERE state_hash = $1', [stateHash]);
+  }
+
+  async findByLoginCodeHash(loginCodeHash: string): Promise<OAuthState | undefined> {
+    return one<OAuthState>(this.pool, 'SELECT * FROM oauth_states WHERE login_code_hash = $1', [loginCodeHash]);
+  }
+
+  async complete(id: string, userId: string, loginCodeHash: string, expiresAt: string): Promise<boolean> {
+    const count = await changed(this.pool, `
+      UPDATE oauth_states SET user_id = $1, login_code_hash = $2, expires_at = $3
+      WHERE id = $4 AND user_id IS NULL AND used_at IS NULL
+    `, [userId, loginCodeHash, expiresAt, id]);
+    return count > 0;
+  }
+
+  async markUsed(id: string, usedAt: string): Promise<boolean> {
+    const count = await changed(
+      this.pool,
+      'UPDATE oauth_states SET used_at = $1 WHERE id = $2 AND used_at IS NULL',
+      [usedAt, id]
+    );
+    return count > 0;
+  }
+
+  async deleteExpired(now: string): Promise<void> {
+    await this.pool.query('DELETE FROM oauth_states WHERE expires_at < $1', [now]);
+  }
+}
+
+export class PostgresUserIdentityRepository implements UserIdentityRepository {
+  constructor(private readonly pool: Pool) {}
+
+  async insert(identity: NewUserIdentityRow): Promise<void> {
+    await this.pool.query(`
+      INSERT INTO user_identities (id, user_id, provider, subject, email, last_login_at)
+      VALUES ($1, $2, $3, $4, $5, $6)
+    `, [
+      identity.id,
+      identity.user_id,
+      identity.provider,
+      identity.subject,
+      identity.email,
+      identity.last_login_at,
+    ]);
+  }
+
+  async findById(id: string): Promise<UserIdentity | undefined> {
+    return one<UserIdentity>(this.pool, 'SELECT * FROM user_identities WHERE id = $1', [id]);
+  }
+
+  async findByProviderSubject(provider: string, subject: string): Promise<UserIdentity | undefined> {
+    return one<UserIdentity>(
+      this.pool,
+      'SELECT * FROM user_identities WHERE provider = $1 AND subject = $2',
+      [provider, subject]
+    );
+  }
+
+  async findByUserId(userId: string): Promise<UserIdentity[]> {
+    return many<UserIdentity>(
+      this.pool,
+      'SELECT * FROM user_identities WHERE user_id = $1 ORDER BY created_at ASC',
+      [userId]
+    );
+  }
+
+  async recordLogin(id: string, email: string | null, at: string): Promise<void> {
+    await this.pool.query(`
+      UPDATE user_identities SET email = COALESCE($1, email), last_login_at = $2
+      WHERE id = $3
+    `, [email, at, id]);
+  }
+}
+
+export class PostgresDeckRepository implements DeckRepository {
+  constructor(private readonly pool: Pool) {}
+
+  async insert(id: string, userId: string, input: DeckInput): Promise<void> {
+    await this.pool.query(
+      'INSERT INTO decks (id, user_id, name, description) VALUES ($1, $2, $3, $4)',
+      [id, userId, input.name, input.description ?? null]
+    );
+  }
+
+  async findById(id: string): Promise<Deck | undefined> {
+    return one<Deck>(this.pool, 'SELECT * FROM decks WHERE id = $1', [id]);
+  }
+
+  async findByUserId(userId: string): Promise<DeckSummary[]> {
+    return many<DeckSummary>(this.pool, `
+      SELECT d.*, COUNT(t.id)::int as term_count
+      FROM decks d
+      LEFT JOIN deck_terms t ON t.deck_id = d.id
+      WHERE d.user_id = $1
+      GROUP BY d.id
+      ORDER BY d.created_at ASC
+    `, [userId]);
+  }
+
+  async countByUserId(userId: string): Promise<number> {
+    const row = await one<{ count: number }>(this.pool, 'SELECT COUNT(*)::int as count FROM decks WHERE user_id = $1', [userId]);
+    return row?.count ?? 0;
+  }
+
+  async update(id: string, input: DeckInput): Promise<void> {
+    await this.pool.query(`
+      UPDATE decks SET name = $1, description = $2, updated_at = utc_now_text()
+      WHERE id = $3
+    `, [input.name, input.description ?? null, id]);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.pool.query('DELETE FROM decks WHERE id = $1', [id]);
+  }
+}
+
+export class PostgresDeckTermRepository implements DeckTermRepository {
+  constructor(private readonly pool: Pool) {}
+
+  // Bump the deck's updated_at when its terms change
+  private async touchDeck(client: PoolClient, deckId: string): Promise<void> {
+    await client.query('UPDATE decks SET updated_at = utc_now_text() WHERE id = $1', [deckId]);
+  }
+
+  async insertMany(deckId: string, terms: (DeckTermInput & { id: string })[]): Promise<void> {
+    await transaction(this.pool, async client => {
+      for (const term of terms) {
+        await client.query(`
+          INSERT INTO deck_terms (id, deck_id, term, meaning, example, category, difficulty, position)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, (SELECT COALESCE(MAX(position), -1) + 1 FROM deck_terms WHERE deck_id = $2))
+        `, [term.id, deckId, term.term, term.meaning, term.example, term.category, term.difficulty]);
+      }
+      await this.touchDeck(client, deckId);
+    });
+  }
+
+  async findById(id: string): Promise<DeckTerm | undefined> {
+    return one<DeckTerm>(this.pool, 'SELECT * FROM deck_terms WHERE id = $1', [id]);
+  }
+
+  async findByDeckId(deckId: string): Promise<DeckTerm[]> {
+    return many<DeckTerm>(this.pool, 'SELECT * FROM deck_terms WHERE deck_id = $1 ORDER BY position ASC', [deckId]);
+  }
+
+  async countByDeckId(deckId: string): Promise<number> {
+    const row = await one<{ count: number }>(
+      this.pool,
+      'SELECT COUNT(*)::int as count FROM deck_terms WHERE deck_id = $1',
+      [deckId]
+    );
+    return row?.count ?? 0;
+  }
+
+  async update(id: string, input: DeckTermInput): Promise<void> {
+    await transaction(this.pool, async client => {
+      const term = await one<{ deck_id: string }>(client, `
+        UPDATE deck_terms SET
+          term = $1, meaning = $2, example = $3, category = $4, difficulty = $5,
+          updated_at = utc_now_text()
+        WHERE id = $6
+        RETURNING deck_id
+      `, [input.term, input.meaning, input.example, input.category, input.difficulty, id]);
+      if (term) await this.touchDeck(client, term.deck_id);
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await transaction(this.pool, async client => {
+      const term = await one<{ deck_id: string }>(client, 'DELETE FROM deck_terms WHERE id = $1 RETURNING deck_id', [id]);
+      if (term) await this.touchDeck(client, term.deck_id);
+    });
+  }
+}
+
+export class PostgresPhraseListRepository implements PhraseListRepository {
+  constructor(private readonly pool: Pool) {}
+
+  async insert(id: string, userId: string, input: PhraseListInput): Promise<void> {
+    await this.pool.query(
+      'INSERT INTO phrase_lists (id, user_id, name, description) VALUES ($1, $2, $3, $4)',
+      [id, userId, input.name, input.description ?? null]
+    );
+  }
+
+  async findById(id: string): Promise<PhraseList | undefined> {
+    return one<PhraseList>(this.pool, 'SELECT * FROM phrase_lists WHERE id = $1', [id]);
+  }
+
+  async findByUserId(userId: string): Promise<PhraseListSummary[]> {
+    return many<PhraseListSummary>(this.pool, `
+      SELECT l.*, COUNT(p.id)::int as phrase_count
+      FROM phrase_lists l
+      LEFT JOIN phrase_list_items p ON p.list_id = l.id
+      WHERE l.user_id = $1
+      GROUP BY l.id
+      ORDER BY l.created_at ASC
+    `, [userId]);
+  }
+
+  async countByUserId(userId: string): Promise<number> {
+    const row = await one<{ count: number }>(
+      this.pool,
+      'SELECT COUNT(*)::int as count FROM phrase_lists WHERE user_id = $1',
+      [userId]
+    );
+    return row?.count ?? 0;
+  }
+
+  async update(id: string, input: PhraseListInput): Promise<void> {
+    await this.pool.query(`
+      UPDATE phrase_lists SET name = $1, description = $2, updated_at = utc_now_text()
+      WHERE id = $3
+    `, [input.name, input.description ?? null, id]);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.pool.query('DELETE FROM phrase_lists WHERE id = $1', [id]);
+  }
+}
+
+export class PostgresPhraseListItemRepository implements PhraseListItemRepository {
+  constructor(private readonly pool: Pool) {}
+
+  // Bump the list's updated_at when its phrases change
+  private async touchList(client: PoolClient, listId: string): Promise<void> {
+    await client.query('UPDATE phrase_lists SET updated_at = utc_now_text() WHERE id = $1', [listId]);
+  }
+
+  async insertMany(listId: string, phrases: (PhraseInput & { id: string })[]): Promise<void> {
+    await transaction(this.pool, async client => {
+      for (const phrase of phrases) {
+        await client.query(`
+          INSERT INTO phrase_list_items (id, list_id, text, hint, position)
+          VALUES ($1, $2, $3, $4, (SELECT COALESCE(MAX(position), -1) + 1 FROM phrase_list_items WHERE list_id = $2))
+        `, [phrase.id, listId, phrase.text, phrase.hint ?? null]);
+      }
+      await this.touchList(client, listId);
+    });
+  }
+
+  async findById(id: string): Promise<PhraseListItem | undefined> {
+    return one<PhraseListItem>(this.pool, 'SELECT * FROM phrase_list_items WHERE id = $1', [id]);
+  }
+
+  async findByListId(listId: string): Promise<PhraseListItem[]> {
+    return many<PhraseListItem>(
+      this.pool,
+      'SELECT * FROM phrase_list_items WHERE list_id = $1 ORDER BY position ASC',
+      [listId]
+    );
+  }
+
+  async countByListId(listId: string): Promise<number> {
+    const row = await one<{ count: number }>(
+      this.pool,
+      'SELECT COUNT(*)::int as count FROM phrase_list_items WHERE list_id = $1',
+      [listId]
+    );
+    return row?.count ?? 0;
+  }
+
+  async update(id: string, input: PhraseInput): Promise<void> {
+    await transaction(this.pool, async client => {
+      const phrase = await one<{ list_id: string }>(client, `
+        UPDATE phrase_list_items SET text = $1, hint = $2, updated_at = utc_now_text()
+        WHERE id = $3
+        RETURNING list_id
+      `, [input.text, input.hint ?? null, id]);
+      if (phrase) await this.touchList(client, phrase.list_id);
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await transaction(this.pool, async client => {
+      const phrase = await one<{ list_id: string }>(
+        client,
+        'DELETE FROM phrase_list_items WHERE id = $1 RETURNING list_id',
+        [id]
+      );
+      if (phrase) await this.touchList(client, phrase.list_id);
+    });
+  }
+}
+
+export class PostgresCohortRepository implements CohortRepository {
+  constructor(private readonly pool: Pool) {}
+
+  async insert(id: string, organisationId: string, input: CohortInput): Promise<void> {
+    await this.pool.query(
+      'INSERT INTO cohorts (id, organisation_id, name, description) VALUES ($1, $2, $3, $4)',
+      [id, organisationId, input.name, input.description ?? null]
+    );
+  }
+
+  async findById(id: string): Promise<Cohort | undefined> {
+    return one<Cohort>(this.pool, 'SELECT * FROM cohorts WHERE id = $1', [id]);
+  }
+
+  async findByOrganisationId(organisationId: string): Promise<CohortSummary[]> {
+    return many<CohortSummary>(this.pool, `
+      SELECT c.*, COUNT(cm.user_id)::int as member_count
+      FROM cohorts c
+      LEFT JOIN cohort_members cm ON cm.cohort_id = c.id
+      WHERE c.organisation_id = $1
+      GROUP BY c.id
+      ORDER BY c.created_at ASC
+    `, [organisationId]);
+  }
+
+  async update(id: string, input: CohortInput): Promise<void> {
+    await this.pool.query(`
+      UPDATE cohorts SET name = $1, description = $2, updated_at = utc_now_text()
+      WHERE id = $3
+    `, [input.name, input.description ?? null, id]);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.pool.query('DELETE FROM cohorts WHERE id = $1', [id]);
+  }
+
+  async addMember(cohortId: string, userId: string): Promise<void> {
+    await this.pool.query(`
+      INSERT INTO cohort_members (cohort_id, user_id)
+      VALUES ($1, $2)
+      ON CONFLICT DO NOTHING
+    `, [cohortId, userId]);
+  }
+
+  async removeMember(cohortId: string, userId: string): Promise<void> {
+    await this.pool.query('DELETE FROM cohort_members WHERE cohort_id = $1 AND user_id = $2', [cohortId, userId]);
+  }
+
+  async isMember(cohortId: string, userId: string): Promise<boolean> {
+    const row = await one(
+      this.pool,
+      'SELECT 1 FROM cohort_members WHERE cohort_id = $1 AND user_id = $2',
+      [cohortId, userId]
+    );
+    return row !== undefined;
+  }
+
+  async findMembers(cohortId: string): Promise<CohortMemberDetails[]> {
+    // Byte order with NULLs first, as SQLite sorts
+    return many<CohortMemberDetails>(this.pool, `
+      SELECT u.id as user_id, u.email, u.name, m.role, m.has_seat, cm.created_at as joined_at
+      FROM cohort_members cm
+      JOIN cohorts c ON c.id = cm.cohort_id
+      JOIN users u ON u.id = cm.user_id
+      JOIN organisation_members m ON m.organisation_id = c.organisation_id AND m.user_id = cm.user_id
+      WHERE cm.cohort_id = $1
+      ORDER BY u.name COLLATE "C" ASC NULLS FIRST, u.email COLLATE "C" ASC
+    `, [cohortId]);
+  }
+}
+
+export class PostgresAssignmentRepository implements AssignmentRepository {
+  constructor(private readonly pool: Pool) {}
+
+  private async insertTasks(client: PoolClient, tasks: AssignmentTask[]): Promise<void> {
+    for (const task of tasks) {
+      await client.query(`
+        INSERT INTO assignment_tasks (id, assignment_id, type, scenario_id, category, deck_id, question_count, min_score, position)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      `, [
+        task.id,
+        task.assignment_id,
+        task.type,
+        task.scenario_id,
+        task.category,
+        task.deck_id,
+        task.question_count,
+        task.min_score,
+        task.position,
+      ]);
+    }
+  }
+
+  async insert(assignment: NewAssignmentRow, tasks: AssignmentTask[]): Promise<void> {
+    await transaction(this.pool, async client => {
+      await client.query(`
+        INSERT INTO assignments (id, cohort_id, created_by, title, description, due_at)
+        VALUES ($1, $2, $3, $4, $5, $6)
+      `, [
+        assignment.id,
+        assignment.cohort_id,
+        assignment.created_by,
+        assignment.title,
+        assignment.description,
+        assignment.due_at,
+      ]);
+      await this.insertTasks(client, tasks);
+    });
+  }
+
+  async findById(id: string): Promise<Assignment | undefined> {
+    return one<Assignment>(this.pool, 'SELECT * FROM assignments WHERE id = $1', [id]);
+  }
+
+  async findByCohortId(cohortId: string): Promise<Assignment[]> {
+    return many<Assignment>(this.pool, 'SELECT * FROM assignments WHERE cohort_id = $1 ORDER BY due_at ASC', [cohortId]);
+  }
+
+  async findForLearner(userId: string): Promise<LearnerAssignment[]> {
+    return many<LearnerAssignment>(this.pool, `
+      SELECT a.*, c.name as cohort_name, o.name as organisation_name
+      FROM assignments a
+      JOIN cohorts c ON c.id = a.cohort_id
+      JOIN organisations o ON o.id = c.organisation_id
+      JOIN cohort_members cm ON cm.cohort_id = a.cohort_id AND cm.user_id = $1
+      JOIN organisation_members m ON m.organisation_id = c.organisation_id AND m.user_id = cm.user_id
+      WHERE m.role = 'learner'
+      ORDER BY a.due_at ASC
+    `, [userId]);
+  }
+
+  async isDeckAssignedToUser(deckId: string, userId: string): Promise<boolean> {
+    const row = await one(this.pool, `
+      SELECT 1 FROM assignment_tasks t
+      JOIN assignments a ON a.id = t.assignment_id
+      JOIN cohort_members cm ON cm.cohort_id = a.cohort_id
+      WHERE t.deck_id = $1 AND cm.user_id = $2
+      LIMIT 1
+    `, [deckId, userId]);
+    return row !== undefined;
+  }
+
+  async update(id: string, input: AssignmentInput): Promise<void> {
+    await this.pool.query(`
+      UPDATE assignments SET title = $1, description = $2, due_at = $3, updated_at = utc_now_text()
+      WHERE id = $4
+    `, [input.title, input.description ?? null, input.due_at, id]);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.pool.query('DELETE FROM assignments WHERE id = $1', [id]);
+  }
+
+  async findTasks(assignmentId: string): Promise<AssignmentTask[]> {
+    return many<AssignmentTask>(
+      this.pool,
+      'SELECT * FROM assignment_tasks WHERE assignment_id = $1 ORDER BY position ASC',
+      [assignmentId]
+    );
+  }
+
+  async replaceTasks(assignmentId: string, tasks: AssignmentTask[]): Promise<void> {
+    await transaction(this.pool, async client => {
+      await client.query('DELETE FROM assignment_tasks WHERE assignment_id = $1', [assignmentId]);
+      await this.insertTasks(client, tasks);
+    });
+  }
+}
+
+export class PostgresOrganisationRepository implements OrganisationRepository {
+  constructor(private readonly pool: Pool) {}
+
+  async insert(id: string, name: string, createdBy: string, firstMember: NewOrganisationMemberRow): Promise<void> {
+    await transaction(this.pool, async client => {
+      await client.query('INSERT INTO organisations (id, name, created_by) VALUES ($1, $2, $3)', [id, name, createdBy]);
+      await client.query(`
+        INSERT INTO organisation_members (organisation_id, user_id, role, has_seat)
+        VALUES ($1, $2, $3, $4)
+      `, [firstMember.organisation_id, firstMember.user_id, firstMember.role, firstMember.has_seat]);
+    });
+  }
+
+  async findById(id: string): Promise<Organisation | undefined> {
+    return one<Organisation>(this.pool, 'SELECT * FROM organisations WHERE id = $1', [id]);
+  }
+
+  async findByUserId(userId: string): Promise<OrganisationSummary[]> {
+    return many<OrganisationSummary>(this.pool, `
+      SELECT o.*, m.role, m.has_seat,
+        (SELECT COUNT(*)::int FROM organisation_members WHERE organisation_id = o.id) as member_count
+      FROM organisations o
+      JOIN organisation_members m ON m.organisation_id = o.id
+      WHERE m.user_id = $1
+      ORDER BY o.created_at ASC
+    `, [userId]);
+  }
+
+  async update(id: string, name: string): Promise<void> {
+    await this.pool.query('UPDATE organisations SET name = $1, updated_at = utc_now_text() WHERE id = $2', [name, id]);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.pool.query('DELETE FROM organisations WHERE id = $1', [id]);
+  }
+}
+
+export class PostgresOrganisationMemberRepository implements OrganisationMemberRepository {
+  constructor(private readonly pool: Pool) {}
+
+  async insert(member: NewOrganisationMemberRow): Promise<void> {
+    await this.pool.query(`
+      INSERT INTO organisation_members (organisation_id, user_id, role, has_seat)
+      VALUES ($1, $2, $3, $4)
+    `, [member.organisation_id, member.user_id, member.role, member.has_seat]);
+  }
+
+  async find(organisationId: string, userId: string): Promise<OrganisationMember | undefined> {
+    return one<OrganisationMember>(
+      this.pool,
+      'SELECT * FROM organisation_members WHERE organisation_id = $1 AND user_id = $2',
+      [organisationId, userId]
+    );
+  }
+
+  async findByOrganisationId(organisationId: string): Promise<OrganisationMemberDetails[]> {
+    return many<OrganisationMemberDetails>(this.pool, `
+      SELECT m.*, u.email, u.name
+      FROM organisation_members m
+      JOIN users u ON u.id = m.user_id
+      WHERE m.organisation_id = $1
+      ORDER BY m.role ASC, m.created_at ASC
+    `, [organisationId]);
+  }
+
+  async update(organisationId: string, userId: string, updates: OrganisationMemberUpdate): Promise<void> {
+    const columns = (['role', 'has_seat'] as const).filter(column => updates[column] !== undefined);
+    if (columns.length === 0) return;
+
+    const assignments = columns.map((column, i) => `${column} = $${i + 1}`);
+    assignments.push('updated_at = utc_now_text()');
+
+    await this.pool.query(`
+      UPDATE organisation_members SET ${assignments.join(', ')}
+      WHERE organisation_id = $${columns.length + 1} AND user_id = $${columns.length + 2}
+    `, [...columns.map(column => updates[column]), organisationId, userId]);
+  }
+
+  async remove(organisationId: string, userId: string): Promise<void> {
+    await transaction(this.pool, async client => {
+      await client.query(`
+        DELETE FROM cohort_members
+        WHERE user_id = $1 AND cohort_id IN (SELECT id FROM cohorts WHERE organisation_id = $2)
+      `, [userId, organisationId]);
+      await client.query(
+        'DELETE FROM organisation_members WHERE organisation_id = $1 AND user_id = $2',
+        [organisationId, userId]
+      );
+    });
+  }
+
+  async countByRole(organisationId: string, role: OrganisationRole): Promise<number> {
+    const row = await one<{ count: number }>(
+      this.pool,
+      'SELECT COUNT(*)::int as count FROM organisation_members WHERE organisation_id = $1 AND role = $2',
+      [organisationId, role]
+    );
+    return row?.count ?? 0;
+  }
+
+  async countSeatsUsed(organisationId: string): Promise<number> {
+    const row = await one<{ count: number }>(
+      this.pool,
+      'SELECT COUNT(*)::int as count FROM organisation_members WHERE organisation_id = $1 AND has_seat = 1',
+      [organisationId]
+    );
+    return row?.count ?? 0;
+  }
+
+  async releaseSeats(organisationId: string, count: number): Promise<void> {
+    await this.pool.query(`
+      UPDATE organisation_members SET has_seat = 0, updated_at = utc_now_text()
+      WHERE organisation_id = $1 AND user_id IN (
+        SELECT user_id FROM organisation_members
+        WHERE organisation_id = $1 AND has_seat = 1
+        ORDER BY updated_at DESC, created_at DESC
+        LIMIT $2
+      )
+    `, [organisationId, count]);
+  }
+}
+
+export class PostgresOrganisationInviteRepository implements OrganisationInviteRepository {
+  constructor(private readonly pool: Pool) {}
+
+  async insert(invite: NewOrganisationInviteRow): Promise<void> {
+    await this.pool.query(`
+      INSERT INTO organisation_invites (id, organisation_id, cohort_id, code, role, max_uses, expires_at, created_by)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    `, [
+      invite.id,
+      invite.organisation_id,
+      invite.cohort_id,
+      invite.code,
+      invite.role,
+      invite.max_uses,
+      invite.expires_at,
+      invite.created_by,
+    ]);
+  }
+
+  async findById(id: string): Promise<OrganisationInvite | undefined> {
+    return one<OrganisationInvite>(this.pool, 'SELECT * FROM organisation_invites WHERE id = $1', [id]);
+  }
+
+  async findByCode(code: string): Promise<OrganisationInvite | undefined> {
+    return one<OrganisationInvite>(this.pool, 'SELECT * FROM organisation_invites WHERE code = $1', [code]);
+  }
+
+  async findByOrganisationId(organisationId: string): Promise<OrganisationInvite[]> {
+    return many<OrganisationInvite>(this.pool, `
+      SELECT * FROM organisation_invites
+      WHERE organisation_id = $1
+      ORDER BY created_at DESC
+    `, [organisationId]);
+  }
+
+  async recordUse(id: string): Promise<void> {
+    await this.pool.query('UPDATE organisation_invites SET uses = uses + 1 WHERE id = $1', [id]);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.pool.query('DELETE FROM organisation_invites WHERE id = $1', [id]);
+  }
+}
+
+export class PostgresOrganisationSubscriptionRepository implements OrganisationSubscriptionRepository {
+  constructor(private readonly pool: Pool) {}
+
+  async insert(subscription: NewOrganisationSubscriptionRow): Promise<void> {
+    await this.pool.query(`
+      INSERT INTO organisation_subscriptions (
+        id, organisation_id, plan, seats, status, stripe_subscription_id, stripe_price_id,
+        current_period_start, current_period_end
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    `, [
+      subscription.id,
+      subscription.organisation_id,
+      subscription.plan,
+      subscription.seats,
+      subscription.status,
+      subscription.stripe_subscription_id,
+      subscription.stripe_price_id,
+      subscription.current_period_start,
+      subscription.current_period_end,
+    ]);
+  }
+
+  async findById(id: string): Promise<OrganisationSubscription | undefined> {
+    return one<OrganisationSubscription>(this.pool, 'SELECT * FROM organisation_subscriptions WHERE id = $1', [id]);
+  }
+
+  async findActiveByOrganisationId(organisationId: string): Promise<OrganisationSubscription | undefined> {
+    return one<OrganisationSubscription>(this.pool, `
+      SELECT * FROM organisation_subscriptions
+      WHERE organisation_id = $1 AND status IN ('active', 'trialing')
+      ORDER BY created_at DESC
+      LIMIT 1
+    `, [organisationId]);
+  }
+
+  async findByStripeSubscriptionId(stripeSubscriptionId: string): Promise<OrganisationSubscription | undefined> {
+    return one<OrganisationSubscription>(
+      this.pool,
+      'SELECT * FROM organisation_subscriptions WHERE stripe_subscription_id = $1',
+      [stripeSubscriptionId]
+    );
+  }
+
+  async findSeatPlan(userId: string): Promise<Exclude<PlanType, 'free'> | undefined> {
+    const row = await one<{ plan: Exclude<PlanType, 'free'> }>(this.pool, `
+      SELECT s.plan
+      FROM organisation_members m
+      JOIN organisation_subscriptions s ON s.organisation_id = m.organisation_id
+      JOIN plan_limits pl ON pl.plan = s.plan
+      WHERE m.user_id = $1 AND m.has_seat = 1 AND s.status IN ('active', 'trialing')
+      ORDER BY pl.daily_minutes DESC
+      LIMIT 1
+    `, [userId]);
+    return row?.plan;
+  }
+
+  async update(id: string, updates: OrganisationSubscriptionUpdate): Promise<void> {
+    const columns = ORGANISATION_SUBSCRIPTION_UPDATE_COLUMNS.filter(column => updates[column] !== undefined);
+    if (columns.length === 0) return;
+
+    const assignments = columns.map((column, i) => `${column} = $${i + 1}`);
+    assignments.push('updated_at = utc_now_text()');
+
+    await this.pool.query(
+      `UPDATE organisation_subscriptions SET ${assignments.join(', ')} WHERE id = $${columns.length + 1}`,
+      [...columns.map(column => updates[column]), id]
+    );
+  }
+}
+
+export function createPostgresRepositories(pool: Pool): Repositories {
+  return {
+    users: new PostgresUserRepository(pool),
+    subscriptions: new PostgresSubscriptionRepository(pool),
+    usage: new PostgresUsageRepository(pool),
+    sessions: new PostgresSessionRepository(pool),
+    conversationTurns: new PostgresConversationTurnRepository(pool),
+    sessionReports: new PostgresSessionReportRepository(pool),
+    voiceUsage: new PostgresVoiceUsageRepository(pool),
+    anonymousUsage: new PostgresAnonymousUsageRepository(pool),
+    progress: new PostgresProgressRepository(pool),
+    quizResults: new PostgresQuizResultRepository(pool),
+    authTokens: new PostgresAuthTokenRepository(pool),
+    authSessions: new PostgresAuthSessionRepository(pool),
+    oauthStates: new PostgresOAuthStateRepository(pool),
+    userIdentities: new PostgresUserIdentityRepository(pool),
+    decks: new PostgresDeckRepository(pool),
+    deckTerms: new PostgresDeckTermRepository(pool),
+    phraseLists: new PostgresPhraseListRepository(pool),
+    phraseListItems: new PostgresPhraseListItemRepository(pool),
+    cohorts: new PostgresCohortRepository(pool),
+    assignments: new PostgresAssignmentRepository(pool),
+    organisations: new PostgresOrganisationRepository(pool),
+    organisationMembers: new PostgresOrganisationMemberRepository(pool),
+    organisationInvites: new PostgresOrganisationInviteRepository(pool),
+    organisationSubscriptions: new PostgresOrganisationSubscriptionRepository(pool),
+  };
+}
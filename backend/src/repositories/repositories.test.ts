@@ -0,0 +1,292 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { v4 as uuidv4 } from 'uuid';
+import { closeTestDatabase, resetTestDatabase } from '../db/testing.js';
+import { repositories } from './index.js';
+
+// The repository contract, run against whichever database DATABASE_DRIVER
+// picks: npm test covers SQLite and npm run test:postgres covers Postgres
+
+before(async () => {
+  await resetTestDatabase();
+});
+
+after(closeTestDatabase);
+
+async function createUser(name: string | null = null): Promise<string> {
+  const id = uuidv4();
+  await repositories.users.insert({ id, email: `${id}@example.com`, password_hash: 'hash', name });
+  return id;
+}
+
+test('users are found by id, email and stripe customer, in SQLite row shapes', async () => {
+  const id = await createUser();
+  await repositories.users.updateName(id, 'Bruce');
+  await repositories.users.markEmailVerified(id);
+  await repositories.users.updateStripeCustomerId(id, `cus_${id}`);
+
+  const user = await repositories.users.findByEmail(`${id}@example.com`);
+  assert.equal(user?.id, id);
+  assert.equal(user.name, 'Bruce');
+  assert.equal(user.email_verified, 1);
+  assert.equal(typeof user.created_at, 'string');
+  assert.equal((await repositories.users.findByStripeCustomerId(`cus_${id}`))?.id, id);
+
+  await repositories.users.delete(id);
+  assert.equal(await repositories.users.findById(id), undefined);
+});
+
+test('a user comes with their active subscription and its daily limit', async () => {
+  const userId = await createUser();
+  assert.equal((await repositories.users.findWithSubscription(userId))?.subscription, null);
+
+  const subscriptionId = uuidv4();
+  await repositories.subscriptions.insert({
+    id: subscriptionId,
+    user_id: userId,
+    plan: 'starter',
+    status: 'active',
+    stripe_subscription_id: `sub_${subscriptionId}`,
+    stripe_price_id: null,
+    current_period_start: null,
+    current_period_end: null,
+  });
+
+  assert.deepEqual((await repositories.users.findWithSubscription(userId))?.subscription, {
+    plan: 'starter',
+    status: 'active',
+    daily_limit_minutes: 5,
+  });
+  assert.equal((await repositories.subscriptions.findByStripeSubscriptionId(`sub_${subscriptionId}`))?.id, subscriptionId);
+
+  await repositories.subscriptions.update(subscriptionId, { status: 'canceled', cancel_at_period_end: 1 });
+  assert.equal(await repositories.subscriptions.findActiveByUserId(userId), undefined);
+
+  const [subscription] = await repositories.subscriptions.findAllByUserId(userId);
+  assert.equal(subscription.status, 'canceled');
+  assert.equal(subscription.cancel_at_period_end, 1);
+});
+
+test('plan limits are seeded and ordered by daily minutes', async () => {
+  const limits = await repositories.subscriptions.getPlanLimits();
+
+  assert.deepEqual(limits.map(limit => limit.plan), ['free', 'starter', 'professional', 'executive']);
+  assert.equal((await repositories.subscriptions.getPlanLimit('free'))?.daily_minutes, 2);
+});
+
+test('daily usage is created once per day and accumulates', async () => {
+  const userId = await createUser();
+  const first = await repositories.usage.getOrCreate(userId, '2024-05-01');
+  const again = await repositories.usage.getOrCreate(userId, '2024-05-01');
+  assert.equal(again.id, first.id);
+
+  await repositories.usage.addMinutes(first.id, 1.5);
+  await repositories.usage.addMinutes(first.id, 0.25);
+  await repositories.usage.incrementSessionCount(first.id);
+  const later = await repositories.usage.getOrCreate(userId, '2024-05-03');
+  await repositories.usage.addMinutes(later.id, 2);
+
+  const record = await repositories.usage.findByUserAndDate(userId, '2024-05-01');
+  assert.equal(record?.minutes_used, 1.75);
+  assert.equal(record.sessions_count, 1);
+  assert.equal(await repositories.usage.sumMinutesSince(userId, '2024-05-01'), 3.75);
+  assert.equal(await repositories.usage.sumMinutesSince(userId, '2024-05-02'), 2);
+  assert.deepEqual((await repositories.usage.findRecent(userId, 1)).map(r => r.date), ['2024-05-03']);
+});
+
+test('session billing and ending only succeed once', async () => {
+  const userId = await createUser();
+  const id = uuidv4();
+  await repositories.sessions.insert({
+    id,
+    user_id: userId,
+    started_at: '2024-05-01T10:00:00.000Z',
+    mode: 'everyday',
+    scenario_id: null,
+  });
+
+  assert.equal(await repositories.sessions.updateBilling(id, 0, 30, '2024-05-01T10:00:30.000Z'), true);
+  // A second request that read the old billed_seconds loses
+  assert.equal(await repositories.sessions.updateBilling(id, 0, 45, '2024-05-01T10:00:45.000Z'), false);
+  assert.deepEqual((await repositories.sessions.findOpen(userId)).map(s => s.id), [id]);
+
+  assert.equal(await repositories.sessions.markEnded(id, '2024-05-01T10:01:00.000Z', 60, 4), true);
+  assert.equal(await repositories.sessions.markEnded(id, '2024-05-01T10:02:00.000Z', 120, null), false);
+  await repositories.sessions.updateMessageCount(id, 6);
+
+  const session = await repositories.sessions.findById(id);
+  assert.equal(session?.billed_seconds, 30);
+  assert.equal(session.duration_seconds, 60);
+  assert.equal(session.feedback, 4);
+  assert.equal(session.messages_count, 6);
+  assert.deepEqual(await repositories.sessions.findOpen(userId), []);
+  assert.equal((await repositories.sessions.findStartedSince(userId, '2024-05-01T00:00:00.000Z')).length, 1);
+  assert.deepEqual(await repositories.sessions.findStartedSince(userId, '2024-05-02T00:00:00.000Z'), []);
+});
+
+
+test('conversation turns are numbered in order and linked to their practice session', async () => {
+  const userId = await createUser();
+  const sessionId = uuidv4();
+  await repositories.sessions.insert({
+    id: sessionId,
+    user_id: userId,
+    started_at: '2024-05-01T10:00:00.000Z',
+    mode: 'everyday',
+    scenario_id: null,
+  });
+
+  for (const [conversationId, content] of [[sessionId, 'One'], [sessionId, 'Two'], ['anonymous', 'Three']]) {
+    await repositories.conversationTurns.insert({
+      id: uuidv4(),
+      session_id: conversationId,
+      role: 'user',
+      content,
+      emotion: null,
+      model: null,
+      input_tokens: null,
+      output_tokens: null,
+    });
+  }
+
+  const turns = await repositories.conversationTurns.findByPracticeSessionId(sessionId);
+  assert.deepEqual(turns.map(turn => [turn.turn_index, turn.content]), [[0, 'One'], [1, 'Two']]);
+  assert.equal(await repositories.conversationTurns.isLinkedToPracticeSession(sessionId), true);
+  assert.equal(await repositories.conversationTurns.isLinkedToPracticeSession('anonymous'), false);
+
+  // Only the anonymous conversation goes, however old the practice session's turns are
+  assert.equal(await repositories.conversationTurns.deleteAnonymousBefore('9999-01-01 00:00:00'), 1);
+  assert.equal(await repositories.conversationTurns.existsForSession('anonymous'), false);
+  assert.equal(await repositories.conversationTurns.existsForSession(sessionId), true);
+});
+
+test('a progress document is only written on top of the version it was read at', async () => {
+  const userId = await createUser();
+  const document = { user_id: userId, doc_key: 'progress', data: '{"a":1}', version: 1, reset_version: 0 };
+
+  assert.equal(await repositories.progress.insertIfAbsent(document), true);
+  assert.equal(await repositories.progress.insertIfAbsent({ ...document, data: '{"b":2}' }), false);
+
+  assert.equal(await repositories.progress.updateIfVersion({ ...document, data: '{"c":3}', version: 2 }, 1), true);
+  assert.equal(await repositories.progress.updateIfVersion({ ...document, data: '{"d":4}', version: 2 }, 1), false);
+
+  const stored = await repositories.progress.findByKey(userId, 'progress');
+  assert.equal(stored?.data, '{"c":3}');
+  assert.equal(stored.version, 2);
+  assert.equal(typeof stored.updated_at, 'string');
+});
+
+test('deck terms keep their order and bump the deck when they change', async () => {
+  const userId = await createUser();
+  const deckId = uuidv4();
+  await repositories.decks.insert(deckId, userId, { name: 'Pub talk' });
+  const term = (text: string) => ({
+    id: uuidv4(),
+    term: text,
+    meaning: 'meaning',
+    example: 'example',
+    category: 'expressions' as const,
+    difficulty: 'beginner' as const,
+  });
+
+  const [first, second] = [term('Shout'), term('Schooner')];
+  await repositories.deckTerms.insertMany(deckId, [first, second]);
+  await repositories.deckTerms.insertMany(deckId, [term('Middy')]);
+
+  const terms = await repositories.deckTerms.findByDeckId(deckId);
+  assert.deepEqual(terms.map(t => [t.position, t.term]), [[0, 'Shout'], [1, 'Schooner'], [2, 'Middy']]);
+  assert.equal(await repositories.deckTerms.countByDeckId(deckId), 3);
+
+  await repositories.deckTerms.delete(second.id);
+  assert.deepEqual((await repositories.deckTerms.findByDeckId(deckId)).map(t => t.term), ['Shout', 'Middy']);
+  const [summary] = await repositories.decks.findByUserId(userId);
+  assert.equal(summary.term_count, 2);
+
+  // Deleting the deck takes its terms with it
+  await repositories.decks.delete(deckId);
+  assert.equal(await repositories.deckTerms.findById(first.id), undefined);
+});
+
+test('an organisation is created with its first member, and seats are released newest first', async () => {
+  const adminId = await createUser('Admin');
+  const organisationId = uuidv4();
+  await repositories.organisations.insert(organisationId, 'TAFE', adminId, {
+    organisation_id: organisationId,
+    user_id: adminId,
+    role: 'admin',
+    has_seat: 0,
+  });
+
+  const learners = [await createUser('Learner B'), await createUser('Learner A'), await createUser()];
+  for (const userId of learners) {
+    await repositories.organisationMembers.insert({ organisation_id: organisationId, user_id: userId, role: 'learner', has_seat: 1 });
+  }
+
+  const [organisation] = await repositories.organisations.findByUserId(adminId);
+  assert.equal(organisation.id, organisationId);
+  assert.equal(organisation.role, 'admin');
+  assert.equal(organisation.member_count, 4);
+  assert.equal(await repositories.organisationMembers.countByRole(organisationId, 'admin'), 1);
+  assert.equal(await repositories.organisationMembers.countSeatsUsed(organisationId), 3);
+
+  await repositories.organisationMembers.releaseSeats(organisationId, 2);
+  assert.equal(await repositories.organisationMembers.countSeatsUsed(organisationId), 1);
+
+  const members = await repositories.organisationMembers.findByOrganisationId(organisationId);
+  assert.deepEqual(members.map(member => member.role), ['admin', 'learner', 'learner', 'learner']);
+  assert.equal(members[0].email, `${adminId}@example.com`);
+});
+
+test('cohort members come with their details, and assignments with their tasks in order', async () => {
+  const teacherId = await createUser('Teacher');
+  const learnerIds = [await createUser('Zoe'), await createUser(null), await createUser('Amir')];
+  const organisationId = uuidv4();
+  await repositories.organisations.insert(organisationId, 'Night class', teacherId, {
+    organisation_id: organisationId,
+    user_id: teacherId,
+    role: 'teacher',
+    has_seat: 0,
+  });
+  const cohortId = uuidv4();
+  await repositories.cohorts.insert(cohortId, organisationId, { name: 'Tuesday' });
+  for (const userId of learnerIds) {
+    await repositories.organisationMembers.insert({ organisation_id: organisationId, user_id: userId, role: 'learner', has_seat: 1 });
+    await repositories.cohorts.addMember(cohortId, userId);
+  }
+
+  // By name, unnamed first
+  const members = await repositories.cohorts.findMembers(cohortId);
+  assert.deepEqual(members.map(member => member.name), [null, 'Amir', 'Zoe']);
+  assert.equal(members[1].role, 'learner');
+
+  const assignmentId = uuidv4();
+  const task = (position: number, scenarioId: string) => ({
+    id: uuidv4(),
+    assignment_id: assignmentId,
+    type: 'scenario' as const,
+    scenario_id: scenarioId,
+    category: null,
+    deck_id: null,
+    question_count: null,
+    min_score: null,
+    position,
+  });
+  await repositories.assignments.insert({
+    id: assignmentId,
+    cohort_id: cohortId,
+    created_by: teacherId,
+    title: 'Small talk',
+    description: null,
+    due_at: '2024-06-01T00:00:00.000Z',
+  }, [task(1, 'second'), task(0, 'first')]);
+
+  assert.deepEqual((await repositories.assignments.findTasks(assignmentId)).map(t => t.scenario_id), ['first', 'second']);
+  await repositories.assignments.replaceTasks(assignmentId, [task(0, 'only')]);
+  assert.deepEqual((await repositories.assignments.findTasks(assignmentId)).map(t => t.scenario_id), ['only']);
+
+  const [assigned] = await repositories.assignments.findForLearner(learnerIds[0]);
+  assert.equal(assigned.id, assignmentId);
+  assert.equal(assigned.cohort_name, 'Tuesday');
+  assert.equal(assigned.organisation_name, 'Night class');
+  assert.deepEqual(await repositories.assignments.findForLearner(teacherId), []);
+});
@@ -0,0 +1,1458 @@
+import type { Database as DatabaseType } from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+import type { User, UserWithSubscription } from '../models/User.js';
+import type { Subscription, PlanLimit, PlanType } from '../models/Subscription.js';
+import type { UsageRecord, PracticeSession } from '../models/Usage.js';
+import type { ConversationTurn } from '../models/Conversation.js';
+import type { VoiceUsageRecord } from '../models/VoiceUsage.js';
+import type { AnonymousUsageRecord } from '../models/AnonymousUsage.js';
+import type { QuizResult } from '../models/QuizResult.js';
+import type { AuthToken, AuthTokenType } from '../models/AuthToken.js';
+import type { AuthSession, AuthSessionSummary } from '../models/AuthSession.js';
+import type { OAuthState } from '../models/OAuthState.js';
+import type { UserIdentity } from '../models/UserIdentity.js';
+import type { Deck, DeckSummary, DeckTerm, DeckInput, DeckTermInput } from '../models/Deck.js';
+import type {
+  PhraseList,
+  PhraseListSummary,
+  PhraseListItem,
+  PhraseListInput,
+  PhraseInput,
+} from '../models/PhraseList.js';
+import type { Cohort, CohortSummary, CohortInput, CohortMemberDetails } from '../models/Cohort.js';
+import type { Assignment, AssignmentInput, AssignmentTask, LearnerAssignment } from '../models/Assignment.js';
+import type {
+  Organisation,
+  OrganisationSummary,
+  OrganisationMember,
+  OrganisationMemberDetails,
+  OrganisationRole,
+  OrganisationInvite,
+  OrganisationSubscription,
+} from '../models/Organisation.js';
+import {
+  Repositories,
+  UserRepository,
+  SubscriptionRepository,
+  UsageRepository,
+  SessionRepository,
+  ConversationTurnRepository,
+  SessionReportRepository,
+  VoiceUsageRepository,
+  AnonymousUsageRepository,
+  ProgressRepository,
+  QuizResultRepository,
+  AuthTokenRepository,
+  AuthSessionRepository,
+  OAuthStateRepository,
+  UserIdentityRepository,
+  DeckRepository,
+  DeckTermRepository,
+  PhraseListRepository,
+  PhraseListItemRepository,
+  CohortRepository,
+  AssignmentRepository,
+  OrganisationRepository,
+  OrganisationMemberRepository,
+  OrganisationInviteRepository,
+  OrganisationSubscriptionRepository,
+  NewUserRow,
+  NewSubscriptionRow,
+  NewSessionRow,
+  NewConversationTurnRow,
+  NewVoiceUsageRow,
+  NewAnonymousUsageRow,
+  NewQuizResultRow,
+  NewAuthTokenRow,
+  NewAuthSessionRow,
+  NewOAuthStateRow,
+  NewUserIdentityRow,
+  NewAssignmentRow,
+  NewOrganisationMemberRow,
+  NewOrganisationInviteRow,
+  NewOrganisationSubscriptionRow,
+  SessionReportRow,
+  SessionReportWrite,
+  ProgressDocumentRow,
+  ProgressDocumentWrite,
+  OrganisationMemberUpdate,
+  SubscriptionUpdate,
+  OrganisationSubscriptionUpdate,
+  SUBSCRIPTION_UPDATE_COLUMNS,
+  ORGANISATION_SUBSCRIPTION_UPDATE_COLUMNS,
+  UserSubscriptionRow,
+  toUserWithSubscription,
+} from './types.js';
+
+// better-sqlite3 is synchronous; these wrap it in the async repository API
+
+export class SqliteUserRepository implements UserRepository {
+  constructor(private readonly db: DatabaseType) {}
+
+  async insert(user: NewUserRow): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO users (id, email, password_hash, name)
+      VALUES (?, ?, ?, ?)
+    `).run(user.id, user.email, user.password_hash, user.name);
+  }
+
+  async findById(id: string): Promise<User | undefined> {
+    return this.db.prepare('SELECT * FROM users WHERE id = ?').get(id) as User | undefined;
+  }
+
+  async findByEmail(email: string): Promise<User | undefined> {
+    return this.db.prepare('SELECT * FROM users WHERE email = ?').get(email) as User | undefined;
+  }
+
+  async findByStripeCustomerId(customerId: string): Promise<User | undefined> {
+    return this.db.prepare('SELECT * FROM users WHERE stripe_customer_id = ?').get(customerId) as User | undefined;
+  }
+
+  async findWithSubscription(id: string): Promise<UserWithSubscription | undefined> {
+    const stmt = this.db.prepare(`
+      SELECT
+        u.id, u.email, u.name, u.created_at, u.updated_at,
+        u.email_verified, u.stripe_customer_id, u.password_hash <> '' AS has_password,
+        s.plan, s.status,
+        pl.daily_minutes
+      FROM users u
+      LEFT JOIN subscriptions s ON u.id = s.user_id AND s.status IN ('active', 'trialing')
+      LEFT JOIN plan_limits pl ON s.plan = pl.plan
+      WHERE u.id = ?
+      ORDER BY s.created_at DESC
+      LIMIT 1
+    `);
+    const row = stmt.get(id) as UserSubscriptionRow | undefined;
+    return row && toUserWithSubscription(row);
+  }
+
+  async updateStripeCustomerId(id: string, stripeCustomerId: string): Promise<void> {
+    this.db.prepare(`
+      UPDATE users SET stripe_customer_id = ?, updated_at = datetime('now')
+      WHERE id = ?
+    `).run(stripeCustomerId, id);
+  }
+
+  async updatePasswordHash(id: string, passwordHash: string): Promise<void> {
+    this.db.prepare(`
+      UPDATE users SET password_hash = ?, updated_at = datetime('now')
+      WHERE id = ?
+    `).run(passwordHash, id);
+  }
+
+  async markEmailVerified(id: string): Promise<void> {
+    this.db.prepare(`
+      UPDATE users SET email_verified = 1, updated_at = datetime('now')
+      WHERE id = ?
+    `).run(id);
+  }
+
+  async updateName(id: string, name: string): Promise<void> {
+    this.db.prepare(`
+      UPDATE users SET name = ?, updated_at = datetime('now')
+      WHERE id = ?
+    `).run(name, id);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.db.prepare('DELETE FROM users WHERE id = ?').run(id);
+  }
+}
+
+export class SqliteSubscriptionRepository implements SubscriptionRepository {
+  constructor(private readonly db: DatabaseType) {}
+
+  async insert(subscription: NewSubscriptionRow): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO subscriptions (
+        id, user_id, plan, status, stripe_subscription_id, stripe_price_id,
+        current_period_start, current_period_end
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      subscription.id,
+      subscription.user_id,
+      subscription.plan,
+      subscription.status,
+      subscription.stripe_subscription_id,
+      subscription.stripe_price_id,
+      subscription.current_period_start,
+      subscription.current_period_end
+    );
+  }
+
+  async findById(id: string): Promise<Subscription | undefined> {
+    return this.db.prepare('SELECT * FROM subscriptions WHERE id = ?').get(id) as Subscription | undefined;
+  }
+
+  async findActiveByUserId(userId: string): Promise<Subscription | undefined> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM subscriptions
+      WHERE user_id = ? AND status IN ('active', 'trialing')
+      ORDER BY created_at DESC
+      LIMIT 1
+    `);
+    return stmt.get(userId) as Subscription | undefined;
+  }
+
+  async findAllByUserId(userId: string): Promise<Subscription[]> {
+    const stmt = this.db.prepare('SELECT * FROM subscriptions WHERE user_id = ? ORDER BY created_at ASC');
+    return stmt.all(userId) as Subscription[];
+  }
+
+  async findByStripeSubscriptionId(stripeSubscriptionId: string): Promise<Subscription | undefined> {
+    const stmt = this.db.prepare('SELECT * FROM subscriptions WHERE stripe_subscription_id = ?');
+    return stmt.get(stripeSubscriptionId) as Subscription | undefined;
+  }
+
+  async update(id: string, updates: SubscriptionUpdate): Promise<void> {
+    const columns = SUBSCRIPTION_UPDATE_COLUMNS.filter(column => updates[column] !== undefined);
+    if (columns.length === 0) return;
+
+    const assignments = columns.map(column => `${column} = ?`);
+    assignments.push("updated_at = datetime('now')");
+
+    this.db.prepare(`
+      UPDATE subscriptions SET ${assignments.join(', ')}
+      WHERE id = ?
+    `).run(...columns.map(column => updates[column]), id);
+  }
+
+  async getPlanLimits(): Promise<PlanLimit[]> {
+    return this.db.prepare('SELECT * FROM plan_limits ORDER BY daily_minutes ASC').all() as PlanLimit[];
+  }
+
+  async getPlanLimit(plan: PlanType): Promise<PlanLimit | undefined> {
+    return this.db.prepare('SELECT * FROM plan_limits WHERE plan = ?').get(plan) as PlanLimit | undefined;
+  }
+}
+
+export class SqliteUsageRepository implements UsageRepository {
+  constructor(private readonly db: DatabaseType) {}
+
+  async getOrCreate(userId: string, date: string): Promise<UsageRecord> {
+    this.db.prepare(`
+      INSERT INTO usage_records (id, user_id, date, minutes_used, sessions_count)
+      VALUES (?, ?, ?, 0, 0)
+      ON CONFLICT(user_id, date) DO NOTHING
+    `).run(uuidv4(), userId, date);
+
+    return (await this.findByUserAndDate(userId, date)) as UsageRecord;
+  }
+
+  async findById(id: string): Promise<UsageRecord | undefined> {
+    return this.db.prepare('SELECT * FROM usage_records WHERE id = ?').get(id) as UsageRecord | undefined;
+  }
+
+  async findByUserAndDate(userId: string, date: string): Promise<UsageRecord | undefined> {
+    const stmt = this.db.prepare('SELECT * FROM usage_records WHERE user_id = ? AND date = ?');
+    return stmt.get(userId, date) as UsageRecord | undefined;
+  }
+
+  async addMinutes(id: string, minutes: number): Promise<void> {
+    this.db.prepare(`
+      UPDATE usage_records
+      SET minutes_used = minutes_used + ?, updated_at = datetime('now')
+      WHERE id = ?
+    `).run(minutes, id);
+  }
+
+  async incrementSessionCount(id: string): Promise<void> {
+    this.db.prepare(`
+      UPDATE usage_records
+      SET sessions_count = sessions_count + 1, updated_at = datetime('now')
+      WHERE id = ?
+    `).run(id);
+  }
+
+  async findRecent(userId: string, limit: number): Promise<UsageRecord[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM usage_records
+      WHERE user_id = ?
+      ORDER BY date DESC
+      LIMIT ?
+    `);
+    return stmt.all(userId, limit) as UsageRecord[];
+  }
+
+  async findAllByUserId(userId: string): Promise<UsageRecord[]> {
+    const stmt = this.db.prepare('SELECT * FROM usage_records WHERE user_id = ? ORDER BY date ASC');
+    return stmt.all(userId) as UsageRecord[];
+  }
+
+  async sumMinutesSince(userId: string, date: string): Promise<number> {
+    const stmt = this.db.prepare(`
+      SELECT COALESCE(SUM(minutes_used), 0) as total
+      FROM usage_records
+      WHERE user_id = ? AND date >= ?
+    `);
+    return (stmt.get(userId, date) as { total: number }).total;
+  }
+}
+
+export class SqliteSessionRepository implements SessionRepository {
+  constructor(private readonly db: DatabaseType) {}
+
+  async insert(session: NewSessionRow): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO practice_sessions (id, user_id, started_at, mode, scenario_id)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(session.id, session.user_id, session.started_at, session.mode, session.scenario_id);
+  }
+
+  async findById(id: string): Promise<PracticeSession | undefined> {
+    return this.db.prepare('SELECT * FROM practice_sessions WHERE id = ?').get(id) as PracticeSession | undefined;
+  }
+
+  async updateBilling(id: string, expected: number, billedSeconds: number, lastActivityAt: string): Promise<boolean> {
+    const result = this.db.prepare(`
+      UPDATE practice_sessions
+      SET billed_seconds = ?, last_activity_at = ?
+      WHERE id = ? AND billed_seconds = ?
+    `).run(billedSeconds, lastActivityAt, id, expected);
+    return result.changes > 0;
+  }
+
+  async markEnded(id: string, endedAt: string, durationSeconds: number, feedback: number | null): Promise<boolean> {
+    const result = this.db.prepare(`
+      UPDATE practice_sessions
+      SET ended_at = ?, duration_seconds = ?, feedback = ?
+      WHERE id = ? AND ended_at IS NULL
+    `).run(endedAt, durationSeconds, feedback, id);
+    return result.changes > 0;
+  }
+
+  async updateFeedback(id: string, feedback: number): Promise<void> {
+    this.db.prepare('UPDATE practice_sessions SET feedback = ? WHERE id = ?').run(feedback, id);
+  }
+
+  async updateMessageCount(id: string, count: number): Promise<void> {
+    this.db.prepare('UPDATE practice_sessions SET messages_count = ? WHERE id = ?').run(count, id);
+  }
+
+  async findRecent(userId: string, limit: number): Promise<PracticeSession[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM practice_sessions
+      WHERE user_id = ?
+      ORDER BY started_at DESC
+      LIMIT ?
+    `);
+    return stmt.all(userId, limit) as PracticeSession[];
+  }
+
+  async findAllByUserId(userId: string): Promise<PracticeSession[]> {
+    const stmt = this.db.prepare('SELECT * FROM practice_sessions WHERE user_id = ? ORDER BY started_at ASC');
+    return stmt.all(userId) as PracticeSession[];
+  }
+
+  async findStartedSince(userId: string, since: string): Promise<PracticeSession[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM practice_sessions
+      WHERE user_id = ? AND started_at >= ?
+      ORDER BY started_at DESC
+    `);
+    return stmt.all(userId, since) as PracticeSession[];
+  }
+
+  async findOpen(userId: string): Promise<PracticeSession[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM practice_sessions
+      WHERE user_id = ? AND ended_at IS NULL
+      ORDER BY started_at DESC
+    `);
+    return stmt.all(userId) as PracticeSession[];
+  }
+}
+
+export class SqliteConversationTurnRepository implements ConversationTurnRepository {
+  constructor(private readonly db: DatabaseType) {}
+
+  async insert(turn: NewConversationTurnRow): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO conversation_turns (
+        id, session_id, practice_session_id, turn_index, role, content, emotion,
+        model, input_tokens, output_tokens
+      )
+      VALUES (
+        ?, ?,
+        (SELECT id FROM practice_sessions WHERE id = ?),
+        (SELECT COALESCE(MAX(turn_index), -1) + 1 FROM conversation_turns WHERE session_id = ?),
+        ?, ?, ?, ?, ?, ?
+      )
+    `).run(
+      turn.id, turn.session_id, turn.session_id, turn.session_id, turn.role, turn.content, turn.emotion,
+      turn.model, turn.input_tokens, turn.output_tokens
+    );
+  }
+
+  async findById(id: string): Promise<ConversationTurn | undefined> {
+    return this.db.prepare('SELECT * FROM conversation_turns WHERE id = ?').get(id) as ConversationTurn | undefined;
+  }
+
+  async findBySessionId(sessionId: string): Promise<ConversationTurn[]> {
+    const stmt = this.db.prepare('SELECT * FROM conversation_turns WHERE session_id = ? ORDER BY turn_index ASC');
+    return stmt.all(sessionId) as ConversationTurn[];
+  }
+
+  async findByPracticeSessionId(practiceSessionId: string): Promise<ConversationTurn[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM conversation_turns
+      WHERE practice_session_id = ?
+      ORDER BY turn_index ASC
+    `);
+    return stmt.all(practiceSessionId) as ConversationTurn[];
+  }
+
+  async existsForSession(sessionId: string): Promise<boolean> {
+    const stmt = this.db.prepare('SELECT 1 FROM conversation_turns WHERE session_id = ? LIMIT 1');
+    return stmt.get(sessionId) !== undefined;
+  }
+
+  async isLinkedToPracticeSession(sessionId: string): Promise<boolean> {
+    const stmt = this.db.prepare(`
+      SELECT 1 FROM conversation_turns
+      WHERE session_id = ? AND practice_session_id IS NOT NULL
+      LIMIT 1
+    `);
+    return stmt.get(sessionId) !== undefined;
+  }
+
+  async deleteBySessionId(sessionId: string): Promise<void> {
+    this.db.prepare('DELETE FROM conversation_turns WHERE session_id = ?').run(sessionId);
+  }
+
+  async deleteAnonymousBefore(before: string): Promise<number> {
+    return this.db.prepare(`
+      DELETE FROM conversation_turns
+      WHERE session_id IN (
+        SELECT session_id FROM conversation_turns
+        GROUP BY session_id
+        HAVING MAX(practice_session_id) IS NULL AND MAX(created_at) < ?
+      )
+    `).run(before).changes;
+  }
+}
+
+export class SqliteSessionReportRepository implements SessionReportRepository {
+  constructor(private readonly db: DatabaseType) {}
+
+  async save(report: SessionReportWrite): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO session_reports (session_id, report, model, input_tokens, output_tokens)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(session_id) DO UPDATE SET
+        report = excluded.report,
+        model = excluded.model,
+        input_tokens = excluded.input_tokens,
+        output_tokens = excluded.output_tokens,
+        updated_at = datetime('now')
+    `).run(report.session_id, report.report, report.model, report.input_tokens, report.output_tokens);
+  }
+
+  async findBySessionId(sessionId: string): Promise<SessionReportRow | undefined> {
+    const stmt = this.db.prepare('SELECT * FROM session_reports WHERE session_id = ?');
+    return stmt.get(sessionId) as SessionReportRow | undefined;
+  }
+}
+
+export class SqliteVoiceUsageRepository implements VoiceUsageRepository {
+  constructor(private readonly db: DatabaseType) {}
+
+  async insert(record: NewVoiceUsageRow): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO voice_usage (
+        id, user_id, device_id, practice_session_id, date, route,
+        tts_characters, stt_seconds, llm_turns, minutes
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      record.id,
+      record.user_id,
+      record.device_id,
+      record.practice_session_id,
+      record.date,
+      record.route,
+      record.tts_characters,
+      record.stt_seconds,
+      record.llm_turns,
+      record.minutes
+    );
+  }
+
+  async findById(id: string): Promise<VoiceUsageRecord | undefined> {
+    return this.db.prepare('SELECT * FROM voice_usage WHERE id = ?').get(id) as VoiceUsageRecord | undefined;
+  }
+
+  async findByUserId(userId: string): Promise<VoiceUsageRecord[]> {
+    const stmt = this.db.prepare('SELECT * FROM voice_usage WHERE user_id = ? ORDER BY created_at ASC');
+    return stmt.all(userId) as VoiceUsageRecord[];
+  }
+
+  async assignDeviceToUser(deviceId: string, userId: string, date: string): Promise<void> {
+    this.db.prepare(`
+      UPDATE voice_usage
+      SET user_id = ?
+      WHERE device_id = ? AND user_id IS NULL AND date = ?
+    `).run(userId, deviceId, date);
+  }
+}
+
+export class SqliteAnonymousUsageRepository implements AnonymousUsageRepository {
+  constructor(private readonly db: DatabaseType) {}
+
+  async insert(record: NewAnonymousUsageRow): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO anonymous_usage (id, device_id, ip_hash, date, minutes_used, sessions_count)
+      VALUES (?, ?, ?, ?, 0, 0)
+    `).run(record.id, record.device_id, record.ip_hash, record.date);
+  }
+
+  async findById(id: string): Promise<AnonymousUsageRecord | undefined> {
+    return this.db.prepare('SELECT * FROM anonymous_usage WHERE id = ?').get(id) as AnonymousUsageRecord | undefined;
+  }
+
+  async findByDeviceAndDate(deviceId: string, date: string): Promise<AnonymousUsageRecord | undefined> {
+    const stmt = this.db.prepare('SELECT * FROM anonymous_usage WHERE device_id = ? AND date = ?');
+    return stmt.get(deviceId, date) as AnonymousUsageRecord | undefined;
+  }
+
+  async sumIpMinutes(ipHash: string, date: string): Promise<number> {
+    const stmt = this.db.prepare(`
+      SELECT COALESCE(SUM(minutes_used), 0) as total
+      FROM anonymous_usage
+      WHERE ip_hash = ? AND date = ?
+    `);
+    return (stmt.get(ipHash, date) as { total: number }).total;
+  }
+
+  async addMinutes(id: string, minutes: number): Promise<void> {
+    this.db.prepare(`
+      UPDATE anonymous_usage
+      SET minutes_used = minutes_used + ?, updated_at = datetime('now')
+      WHERE id = ?
+    `).run(minutes, id);
+  }
+
+  async startSession(id: string, startedAt: string): Promise<void> {
+    this.db.prepare(`
+      UPDATE anonymous_usage
+      SET sessions_count = sessions_count + 1, session_started_at = ?, last_activity_at = ?,
+          updated_at = datetime('now')
+      WHERE id = ?
+    `).run(startedAt, startedAt, id);
+  }
+
+  async recordActivity(id: string, minutes: number, lastActivityAt: string): Promise<void> {
+    this.db.prepare(`
+      UPDATE anonymous_usage
+      SET minutes_used = minutes_used + ?, last_activity_at = ?, updated_at = datetime('now')
+      WHERE id = ?
+    `).run(minutes, lastActivityAt, id);
+  }
+
+  async endSession(id: string): Promise<void> {
+    this.db.prepare(`
+      UPDATE anonymous_usage
+      SET session_started_at = NULL, last_activity_at = NULL, updated_at = datetime('now')
+      WHERE id = ?
+    `).run(id);
+  }
+
+  async markClaimed(id: string, userId: string): Promise<void> {
+    this.db.prepare(`
+      UPDATE anonymous_usage
+      SET claimed_by_user_id = ?, updated_at = datetime('now')
+      WHERE id = ?
+    `).run(userId, id);
+  }
+}
+
+export class SqliteProgressRepository implements ProgressRepository {
+  constructor(private readonly db: DatabaseType) {}
+
+  async findByUserId(userId: string): Promise<ProgressDocumentRow[]> {
+    const stmt = this.db.prepare('SELECT * FROM progress_documents WHERE user_id = ? ORDER BY doc_key ASC');
+    return stmt.all(userId) as ProgressDocumentRow[];
+  }
+
+  async findByKey(userId: string, docKey: string): Promise<ProgressDocumentRow | undefined> {
+    const stmt = this.db.prepare('SELECT * FROM progress_documents WHERE user_id = ? AND doc_key = ?');
+    return stmt.get(userId, docKey) as ProgressDocumentRow | undefined;
+  }
+
+  async insertIfAbsent(document: ProgressDocumentWrite): Promise<boolean> {
+    const result = this.db.prepare(`
+      INSERT INTO progress_documents (user_id, doc_key, data, version, reset_version)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(user_id, doc_key) DO NOTHING
+    `).run(document.user_id, document.doc_key, document.data, document.version, document.reset_version);
+    return result.changes > 0;
+  }
+
+  async updateIfVersion(document: ProgressDocumentWrite, expectedVersion: number): Promise<boolean> {
+    const result = this.db.prepare(`
+      UPDATE progress_documents
+      SET data = ?, version = ?, reset_version = ?, updated_at = datetime('now')
+      WHERE user_id = ? AND doc_key = ? AND version = ?
+    `).run(
+      document.data,
+      document.version,
+      document.reset_version,
+      document.user_id,
+      document.doc_key,
+      expectedVersion
+    );
+    return result.changes > 0;
+  }
+}
+
+export class SqliteQuizResultRepository implements QuizResultRepository {
+  constructor(private readonly db: DatabaseType) {}
+
+  async insert(result: NewQuizResultRow): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO quiz_results (id, user_id, category, difficulty, deck_id, question_count, correct_count, completed_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      result.id,
+      result.user_id,
+      result.category,
+      result.difficulty,
+      result.deck_id,
+      result.question_count,
+      result.correct_count,
+      result.completed_at
+    );
+  }
+
+  async findById(id: string): Promise<QuizResult | undefined> {
+    return this.db.prepare('SELECT * FROM quiz_results WHERE id = ?').get(id) as QuizResult | undefined;
+  }
+
+  async findByUserSince(userId: string, since: string): Promise<QuizResult[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM quiz_results
+      WHERE user_id = ? AND completed_at >= ?
+      ORDER BY completed_at ASC
+    `);
+    return stmt.all(userId, since) as QuizResult[];
+  }
+
+  async findAllByUserId(userId: string): Promise<QuizResult[]> {
+    const stmt = this.db.prepare('SELECT * FROM quiz_results WHERE user_id = ? ORDER BY completed_at ASC');
+    return stmt.all(userId) as QuizResult[];
+  }
+
+  async findRecent(userId: string, limit: number): Promise<QuizResult[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM quiz_results
+      WHERE user_id = ?
+      ORDER BY completed_at DESC
+      LIMIT ?
+    `);
+    return stmt.all(userId, limit) as QuizResult[];
+  }
+}
+
+export class SqliteAuthTokenRepository implements AuthTokenRepository {
+  constructor(private readonly db: DatabaseType) {}
+
+  async replace(token: NewAuthTokenRow): Promise<void> {
+    const replace = this.db.transaction(() => {
+      this.db.prepare('DELETE FROM auth_tokens WHERE user_id = ? AND type = ?').run(token.user_id, token.type);
+      this.db.prepare(`
+        INSERT INTO auth_tokens (id, user_id, type, token_hash, expires_at)
+        VALUES (?, ?, ?, ?, ?)
+      `).run(token.id, token.user_id, token.type, token.token_hash, token.expires_at);
+    });
+    replace();
+  }
+
+  async findByTokenHash(tokenHash: string, type: AuthTokenType): Promise<AuthToken | undefined> {
+    const stmt = this.db.prepare('SELECT * FROM auth_tokens WHERE token_hash = ? AND type = ?');
+    return stmt.get(tokenHash, type) as AuthToken | undefined;
+  }
+
+  async markUsed(id: string, usedAt: string): Promise<boolean> {
+    const stmt = this.db.prepare('UPDATE auth_tokens SET used_at = ? WHERE id = ? AND used_at IS NULL');
+    return stmt.run(usedAt, id).changes > 0;
+  }
+}
+
+export class SqliteAuthSessionRepository implements AuthSessionRepository {
+  constructor(private readonly db: DatabaseType) {}
+
+  async insert(session: NewAuthSessionRow): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO auth_sessions (id, user_id, refresh_token_hash, user_agent, last_used_at, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(
+      session.id,
+      session.user_id,
+      session.refresh_token_hash,
+      session.user_agent,
+      session.last_used_at,
+      session.expires_at
+    );
+  }
+
+  async findById(id: string): Promise<AuthSession | undefined> {
+    return this.db.prepare('SELECT * FROM auth_sessions WHERE id = ?').get(id) as AuthSession | undefined;
+  }
+
+  async findByRefreshTokenHash(tokenHash: string): Promise<AuthSession | undefined> {
+    const stmt = this.db.prepare('SELECT * FROM auth_sessions WHERE refresh_token_hash = ?');
+    return stmt.get(tokenHash) as AuthSession | undefined;
+  }
+
+  async findByPreviousTokenHash(tokenHash: string): Promise<AuthSession | undefined> {
+    const stmt = this.db.prepare('SELECT * FROM auth_sessions WHERE previous_token_hash = ?');
+    return stmt.get(tokenHash) as AuthSession | undefined;
+  }
+
+  async rotate(id: string, oldHash: string, newHash: string, lastUsedAt: string, expiresAt: string): Promise<boolean> {
+    const result = this.db.prepare(`
+      UPDATE auth_sessions
+      SET refresh_token_hash = ?, previous_token_hash = refresh_token_hash, last_used_at = ?, expires_at = ?
+      WHERE id = ? AND refresh_token_hash = ? AND revoked_at IS NULL
+    `).run(newHash, lastUsedAt, expiresAt, id, oldHash);
+    return result.changes > 0;
+  }
+
+  async findActiveByUserId(userId: string, now: string): Promise<AuthSessionSummary[]> {
+    const stmt = this.db.prepare(`
+      SELECT id, user_agent, created_at, last_used_at, expires_at
+      FROM auth_sessions
+      WHERE user_id = ? AND revoked_at IS NULL AND expires_at > ?
+      ORDER BY last_used_at DESC
+    `);
+    return stmt.all(userId, now) as AuthSessionSummary[];
+  }
+
+  async revoke(id: string, revokedAt: string): Promise<void> {
+    this.db.prepare('UPDATE auth_sessions SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL').run(revokedAt, id);
+  }
+
+  async revokeAllForUser(userId: string, revokedAt: string): Promise<number> {
+    const stmt = this.db.prepare('UPDATE auth_sessions SET revoked_at = ? WHERE user_id = ? AND revoked_at IS NULL');
+    return stmt.run(revokedAt, userId).changes;
+  }
+}
+
+export class SqliteOAuthStateRepository implements OAuthStateRepository {
+  constructor(private readonly db: DatabaseType) {}
+
+  async insert(state: NewOAuthStateRow): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO oauth_states (id, state_hash, provider, nonce, code_verifier, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(state.id, state.state_hash, state.provider, state.nonce, state.code_verifier, state.expires_at);
+  }
+
+  async findById(id: string): Promise<OAuthState | undefined> {
+    return this.db.prepare('SELECT * FROM oauth_states WHERE id = ?').get(id) as OAuthState | undefined;
+  }
+
+  async findByStateHash(stateHash: string): Promise<OAuthState | undefined> {
+    return this.db.prepare('SELECT * FROM oauth_states WHERE state_hash = ?').get(stateHash) as OAuthState | undefined;
+  }
+
+  async findByLoginCodeHash(loginCodeHash: string): Promise<OAuthState | undefined> {
+    const stmt = this.db.prepare('SELECT * FROM oauth_states WHERE login_code_hash = ?');
+    return stmt.get(loginCodeHash) as OAuthState | undefined;
+  }
+
+  async complete(id: string, userId: string, loginCodeHash: string, expiresAt: string): Promise<boolean> {
+    const result = this.db.prepare(`
+      UPDATE oauth_states SET user_id = ?, login_code_hash = ?, expires_at = ?
+      WHERE id = ? AND user_id IS NULL AND used_at IS NULL
+    `).run(userId, loginCodeHash, expiresAt, id);
+    return result.changes > 0;
+  }
+
+  async markUsed(id: string, usedAt: string): Promise<boolean> {
+    const stmt = this.db.prepare('UPDATE oauth_states SET used_at = ? WHERE id = ? AND used_at IS NULL');
+    return stmt.run(usedAt, id).changes > 0;
+  }
+
+  async deleteExpired(now: string): Promise<void> {
+    this.db.prepare('DELETE FROM oauth_states WHERE expires_at < ?').run(now);
+  }
+}
+
+export class SqliteUserIdentityRepository implements UserIdentityRepository {
+  constructor(private readonly db: DatabaseType) {}
+
+  async insert(identity: NewUserIdentityRow): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO user_identities (id, user_id, provider, subject, email, last_login_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(
+      identity.id,
+      identity.user_id,
+      identity.provider,
+      identity.subject,
+      identity.email,
+      identity.last_login_at
+    );
+  }
+
+  async findById(id: string): Promise<UserIdentity | undefined> {
+    return this.db.prepare('SELECT * FROM user_identities WHERE id = ?').get(id) as UserIdentity | undefined;
+  }
+
+  async findByProviderSubject(provider: string, subject: string): Promise<UserIdentity | undefined> {
+    const stmt = this.db.prepare('SELECT * FROM user_identities WHERE provider = ? AND subject = ?');
+    return stmt.get(provider, subject) as UserIdentity | undefined;
+  }
+
+  async findByUserId(userId: string): Promise<UserIdentity[]> {
+    const stmt = this.db.prepare('SELECT * FROM user_identities WHERE user_id = ? ORDER BY created_at ASC');
+    return stmt.all(userId) as UserIdentity[];
+  }
+
+  async recordLogin(id: string, email: string | null, at: string): Promise<void> {
+    this.db.prepare(`
+      UPDATE user_identities SET email = COALESCE(?, email), last_login_at = ?
+      WHERE id = ?
+    `).run(email, at, id);
+  }
+}
+
+export class SqliteDeckRepository implements DeckRepository {
+  constructor(private readonly db: DatabaseType) {}
+
+  async insert(id: string, userId: string, input: DeckInput): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO decks (id, user_id, name, description)
+      VALUES (?, ?, ?, ?)
+    `).run(id, userId, input.name, input.description ?? null);
+  }
+
+  async findById(id: string): Promise<Deck | undefined> {
+    return this.db.prepare('SELECT * FROM decks WHERE id = ?').get(id) as Deck | undefined;
+  }
+
+  async findByUserId(userId: string): Promise<DeckSummary[]> {
+    const stmt = this.db.prepare(`
+      SELECT d.*, COUNT(t.id) as term_count
+      FROM decks d
+      LEFT JOIN deck_terms t ON t.deck_id = d.id
+      WHERE d.user_id = ?
+      GROUP BY d.id
+      ORDER BY d.created_at ASC
+    `);
+    return stmt.all(userId) as DeckSummary[];
+  }
+
+  async countByUserId(userId: string): Promise<number> {
+    const stmt = this.db.prepare('SELECT COUNT(*) as count FROM decks WHERE user_id = ?');
+    return (stmt.get(userId) as { count: number }).count;
+  }
+
+  async update(id: string, input: DeckInput): Promise<void> {
+    this.db.prepare(`
+      UPDATE decks SET name = ?, description = ?, updated_at = datetime('now')
+      WHERE id = ?
+    `).run(input.name, input.description ?? null, id);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.db.prepare('DELETE FROM decks WHERE id = ?').run(id);
+  }
+}
+
+export class SqliteDeckTermRepository implements DeckTermRepository {
+  constructor(private readonly db: DatabaseType) {}
+
+  // Bump the deck's updated_at when its terms change
+  private touchDeck(deckId: string): void {
+    this.db.prepare(`UPDATE decks SET updated_at = datetime('now') WHERE id = ?`).run(deckId);
+  }
+
+  async insertMany(deckId: string, terms: (DeckTermInput & { id: string })[]): Promise<void> {
+    const insert = this.db.prepare(`
+      INSERT INTO deck_terms (id, deck_id, term, meaning, example, category, difficulty, position)
+      VALUES (?, ?, ?, ?, ?, ?, ?, (SELECT COALESCE(MAX(position), -1) + 1 FROM deck_terms WHERE deck_id = ?))
+    `);
+    const insertAll = this.db.transaction(() => {
+      for (const term of terms) {
+        insert.run(term.id, deckId, term.term, term.meaning, term.example, term.category, term.difficulty, deckId);
+      }
+      this.touchDeck(deckId);
+    });
+    insertAll();
+  }
+
+  async findById(id: string): Promise<DeckTerm | undefined> {
+    return this.db.prepare('SELECT * FROM deck_terms WHERE id = ?').get(id) as DeckTerm | undefined;
+  }
+
+  async findByDeckId(deckId: string): Promise<DeckTerm[]> {
+    const stmt = this.db.prepare('SELECT * FROM deck_terms WHERE deck_id = ? ORDER BY position ASC');
+    return stmt.all(deckId) as DeckTerm[];
+  }
+
+  async countByDeckId(deckId: string): Promise<number> {
+    const stmt = this.db.prepare('SELECT COUNT(*) as count FROM deck_terms WHERE deck_id = ?');
+    return (stmt.get(deckId) as { count: number }).count;
+  }
+
+  async update(id: string, input: DeckTermInput): Promise<void> {
+    const update = this.db.transaction(() => {
+      this.db.prepare(`
+        UPDATE deck_terms SET
+          term = ?, meaning = ?, example = ?, category = ?, difficulty = ?,
+          updated_at = datetime('now')
+        WHERE id = ?
+      `).run(input.term, input.meaning, input.example, input.category, input.difficulty, id);
+      const term = this.db.prepare('SELECT deck_id FROM deck_terms WHERE id = ?').get(id) as { deck_id: string } | undefined;
+      if (term) this.touchDeck(term.deck_id);
+    });
+    update();
+  }
+
+  async delete(id: string): Promise<void> {
+    const remove = this.db.transaction(() => {
+      const term = this.db.prepare('SELECT deck_id FROM deck_terms WHERE id = ?').get(id) as { deck_id: string } | undefined;
+      if (!term) return;
+      this.db.prepare('DELETE FROM deck_terms WHERE id = ?').run(id);
+      this.touchDeck(term.deck_id);
+    });
+    remove();
+  }
+}
+
+export class SqlitePhraseListRepository implements PhraseListRepository {
+  constructor(private readonly db: DatabaseType) {}
+
+  async insert(id: string, userId: string, input: PhraseListInput): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO phrase_lists (id, user_id, name, description)
+      VALUES (?, ?, ?, ?)
+    `).run(id, userId, input.name, input.description ?? null);
+  }
+
+  async findById(id: string): Promise<PhraseList | undefined> {
+    return this.db.prepare('SELECT * FROM phrase_lists WHERE id = ?').get(id) as PhraseList | undefined;
+  }
+
+  async findByUserId(userId: string): Promise<PhraseListSummary[]> {
+    const stmt = this.db.prepare(`
+      SELECT l.*, COUNT(p.id) as phrase_count
+      FROM phrase_lists l
+      LEFT JOIN phrase_list_items p ON p.list_id = l.id
+      WHERE l.user_id = ?
+      GROUP BY l.id
+      ORDER BY l.created_at ASC
+    `);
+    return stmt.all(userId) as PhraseListSummary[];
+  }
+
+  async countByUserId(userId: string): Promise<number> {
+    const stmt = this.db.prepare('SELECT COUNT(*) as count FROM phrase_lists WHERE user_id = ?');
+    return (stmt.get(userId) as { count: number }).count;
+  }
+
+  async update(id: string, input: PhraseListInput): Promise<void> {
+    this.db.prepare(`
+      UPDATE phrase_lists SET name = ?, description = ?, updated_at = datetime('now')
+      WHERE id = ?
+    `).run(input.name, input.description ?? null, id);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.db.prepare('DELETE FROM phrase_lists WHERE id = ?').run(id);
+  }
+}
+
+export class SqlitePhraseListItemRepository implements PhraseListItemRepository {
+  constructor(private readonly db: DatabaseType) {}
+
+  // Bump the list's updated_at when its phrases change
+  private touchList(listId: string): void {
+    this.db.prepare(`UPDATE phrase_lists SET updated_at = datetime('now') WHERE id = ?`).run(listId);
+  }
+
+  async insertMany(listId: string, phrases: (PhraseInput & { id: string })[]): Promise<void> {
+    const insert = this.db.prepare(`
+      INSERT INTO phrase_list_items (id, list_id, text, hint, position)
+      VALUES (?, ?, ?, ?, (SELECT COALESCE(MAX(position), -1) + 1 FROM phrase_list_items WHERE list_id = ?))
+    `);
+    const insertAll = this.db.transaction(() => {
+      for (const phrase of phrases) {
+        insert.run(phrase.id, listId, phrase.text, phrase.hint ?? null, listId);
+      }
+      this.touchList(listId);
+    });
+    insertAll();
+  }
+
+  async findById(id: string): Promise<PhraseListItem | undefined> {
+    return this.db.prepare('SELECT * FROM phrase_list_items WHERE id = ?').get(id) as PhraseListItem | undefined;
+  }
+
+  async findByListId(listId: string): Promise<PhraseListItem[]> {
+    const stmt = this.db.prepare('SELECT * FROM phrase_list_items WHERE list_id = ? ORDER BY position ASC');
+    return stmt.all(listId) as PhraseListItem[];
+  }
+
+  async countByListId(listId: string): Promise<number> {
+    const stmt = this.db.prepare('SELECT COUNT(*) as count FROM phrase_list_items WHERE list_id = ?');
+    return (stmt.get(listId) as { count: number }).count;
+  }
+
+  async update(id: string, input: PhraseInput): Promise<void> {
+    const update = this.db.transaction(() => {
+      this.db.prepare(`
+        UPDATE phrase_list_items SET text = ?, hint = ?, updated_at = datetime('now')
+        WHERE id = ?
+      `).run(input.text, input.hint ?? null, id);
+      const phrase = this.db.prepare('SELECT list_id FROM phrase_list_items WHERE id = ?').get(id) as
+        { list_id: string } | undefined;
+      if (phrase) this.touchList(phrase.list_id);
+    });
+    update();
+  }
+
+  async delete(id: string): Promise<void> {
+    const remove = this.db.transaction(() => {
+      const phrase = this.db.prepare('SELECT list_id FROM phrase_list_items WHERE id = ?').get(id) as
+        { list_id: string } | undefined;
+      if (!phrase) return;
+      this.db.prepare('DELETE FROM phrase_list_items WHERE id = ?').run(id);
+      this.touchList(phrase.list_id);
+    });
+    remove();
+  }
+}
+
+export class SqliteCohortRepository implements CohortRepository {
+  constructor(private readonly db: DatabaseType) {}
+
+  async insert(id: string, organisationId: string, input: CohortInput): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO cohorts (id, organisation_id, name, description)
+      VALUES (?, ?, ?, ?)
+    `).run(id, organisationId, input.name, input.description ?? null);
+  }
+
+  async findById(id: string): Promise<Cohort | undefined> {
+    return this.db.prepare('SELECT * FROM cohorts WHERE id = ?').get(id) as Cohort | undefined;
+  }
+
+  async findByOrganisationId(organisationId: string): Promise<CohortSummary[]> {
+    const stmt = this.db.prepare(`
+      SELECT c.*, COUNT(cm.user_id) as member_count
+      FROM cohorts c
+      LEFT JOIN cohort_members cm ON cm.cohort_id = c.id
+      WHERE c.organisation_id = ?
+      GROUP BY c.id
+      ORDER BY c.created_at ASC
+    `);
+    return stmt.all(organisationId) as CohortSummary[];
+  }
+
+  async update(id: string, input: CohortInput): Promise<void> {
+    this.db.prepare(`
+      UPDATE cohorts SET name = ?, description = ?, updated_at = datetime('now')
+      WHERE id = ?
+    `).run(input.name, input.description ?? null, id);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.db.prepare('DELETE FROM cohorts WHERE id = ?').run(id);
+  }
+
+  async addMember(cohortId: string, userId: string): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO cohort_members (cohort_id, user_id)
+      VALUES (?, ?)
+      ON CONFLICT DO NOTHING
+    `).run(cohortId, userId);
+  }
+
+  async removeMember(cohortId: string, userId: string): Promise<void> {
+    this.db.prepare('DELETE FROM cohort_members WHERE cohort_id = ? AND user_id = ?').run(cohortId, userId);
+  }
+
+  async isMember(cohortId: string, userId: string): Promise<boolean> {
+    const stmt = this.db.prepare('SELECT 1 FROM cohort_members WHERE cohort_id = ? AND user_id = ?');
+    return stmt.get(cohortId, userId) !== undefined;
+  }
+
+  async findMembers(cohortId: string): Promise<CohortMemberDetails[]> {
+    const stmt = this.db.prepare(`
+      SELECT u.id as user_id, u.email, u.name, m.role, m.has_seat, cm.created_at as joined_at
+      FROM cohort_members cm
+      JOIN cohorts c ON c.id = cm.cohort_id
+      JOIN users u ON u.id = cm.user_id
+      JOIN organisation_members m ON m.organisation_id = c.organisation_id AND m.user_id = cm.user_id
+      WHERE cm.cohort_id = ?
+      ORDER BY u.name ASC, u.email ASC
+    `);
+    return stmt.all(cohortId) as CohortMemberDetails[];
+  }
+}
+
+export class SqliteAssignmentRepository implements AssignmentRepository {
+  constructor(private readonly db: DatabaseType) {}
+
+  private insertTasks(tasks: AssignmentTask[]): void {
+    const insert = this.db.prepare(`
+      INSERT INTO assignment_tasks (id, assignment_id, type, scenario_id, category, deck_id, question_count, min_score, position)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    for (const task of tasks) {
+      insert.run(
+        task.id,
+        task.assignment_id,
+        task.type,
+        task.scenario_id,
+        task.category,
+        task.deck_id,
+        task.question_count,
+        task.min_score,
+        task.position
+      );
+    }
+  }
+
+  async insert(assignment: NewAssignmentRow, tasks: AssignmentTask[]): Promise<void> {
+    const insertWithTasks = this.db.transaction(() => {
+      this.db.prepare(`
+        INSERT INTO assignments (id, cohort_id, created_by, title, description, due_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).run(
+        assignment.id,
+        assignment.cohort_id,
+        assignment.created_by,
+        assignment.title,
+        assignment.description,
+        assignment.due_at
+      );
+      this.insertTasks(tasks);
+    });
+    insertWithTasks();
+  }
+
+  async findById(id: string): Promise<Assignment | undefined> {
+    return this.db.prepare('SELECT * FROM assignments WHERE id = ?').get(id) as Assignment | undefined;
+  }
+
+  async findByCohortId(cohortId: string): Promise<Assignment[]> {
+    const stmt = this.db.prepare('SELECT * FROM assignments WHERE cohort_id = ? ORDER BY due_at ASC');
+    return stmt.all(cohortId) as Assignment[];
+  }
+
+  async findForLearner(userId: string): Promise<LearnerAssignment[]> {
+    const stmt = this.db.prepare(`
+      SELECT a.*, c.name as cohort_name, o.name as organisation_name
+      FROM assignments a
+      JOIN cohorts c ON c.id = a.cohort_id
+      JOIN organisations o ON o.id = c.organisation_id
+      JOIN cohort_members cm ON cm.cohort_id = a.cohort_id AND cm.user_id = ?
+      JOIN organisation_members m ON m.organisation_id = c.organisation_id AND m.user_id = cm.user_id
+      WHERE m.role = 'learner'
+      ORDER BY a.due_at ASC
+    `);
+    return stmt.all(userId) as LearnerAssignment[];
+  }
+
+  async isDeckAssignedToUser(deckId: string, userId: string): Promise<boolean> {
+    const stmt = this.db.prepare(`
+      SELECT 1 FROM assignment_tasks t
+      JOIN assignments a ON a.id = t.assignment_id
+      JOIN cohort_members cm ON cm.cohort_id = a.cohort_id
+      WHERE t.deck_id = ? AND cm.user_id = ?
+      LIMIT 1
+    `);
+    return stmt.get(deckId, userId) !== undefined;
+  }
+
+  async update(id: string, input: AssignmentInput): Promise<void> {
+    this.db.prepare(`
+      UPDATE assignments SET title = ?, description = ?, due_at = ?, updated_at = datetime('now')
+      WHERE id = ?
+    `).run(input.title, input.description ?? null, input.due_at, id);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.db.prepare('DELETE FROM assignments WHERE id = ?').run(id);
+  }
+
+  async findTasks(assignmentId: string): Promise<AssignmentTask[]> {
+    const stmt = this.db.prepare('SELECT * FROM assignment_tasks WHERE assignment_id = ? ORDER BY position ASC');
+    return stmt.all(assignmentId) as AssignmentTask[];
+  }
+
+  async replaceTasks(assignmentId: string, tasks: AssignmentTask[]): Promise<void> {
+    const replace = this.db.transaction(() => {
+      this.db.prepare('DELETE FROM assignment_tasks WHERE assignment_id = ?').run(assignmentId);
+      this.insertTasks(tasks);
+    });
+    replace();
+  }
+}
+
+export class SqliteOrganisationRepository implements OrganisationRepository {
+  constructor(private readonly db: DatabaseType) {}
+
+  async insert(id: string, name: string, createdBy: string, firstMember: NewOrganisationMemberRow): Promise<void> {
+    const insertWithMember = this.db.transaction(() => {
+      this.db.prepare('INSERT INTO organisations (id, name, created_by) VALUES (?, ?, ?)').run(id, name, createdBy);
+      this.db.prepare(`
+        INSERT INTO organisation_members (organisation_id, user_id, role, has_seat)
+        VALUES (?, ?, ?, ?)
+      `).run(firstMember.organisation_id, firstMember.user_id, firstMember.role, firstMember.has_seat);
+    });
+    insertWithMember();
+  }
+
+  async findById(id: string): Promise<Organisation | undefined> {
+    return this.db.prepare('SELECT * FROM organisations WHERE id = ?').get(id) as Organisation | undefined;
+  }
+
+  async findByUserId(userId: string): Promise<OrganisationSummary[]> {
+    const stmt = this.db.prepare(`
+      SELECT o.*, m.role, m.has_seat,
+        (SELECT COUNT(*) FROM organisation_members WHERE organisation_id = o.id) as member_count
+      FROM organisations o
+      JOIN organisation_members m ON m.organisation_id = o.id
+      WHERE m.user_id = ?
+      ORDER BY o.created_at ASC
+    `);
+    return stmt.all(userId) as OrganisationSummary[];
+  }
+
+  async update(id: string, name: string): Promise<void> {
+    this.db.prepare(`
+      UPDATE organisations SET name = ?, updated_at = datetime('now')
+      WHERE id = ?
+    `).run(name, id);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.db.prepare('DELETE FROM organisations WHERE id = ?').run(id);
+  }
+}
+
+export class SqliteOrganisationMemberRepository implements OrganisationMemberRepository {
+  constructor(private readonly db: DatabaseType) {}
+
+  async insert(member: NewOrganisationMemberRow): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO organisation_members (organisation_id, user_id, role, has_seat)
+      VALUES (?, ?, ?, ?)
+    `).run(member.organisation_id, member.user_id, member.role, member.has_seat);
+  }
+
+  async find(organisationId: string, userId: string): Promise<OrganisationMember | undefined> {
+    const stmt = this.db.prepare('SELECT * FROM organisation_members WHERE organisation_id = ? AND user_id = ?');
+    return stmt.get(organisationId, userId) as OrganisationMember | undefined;
+  }
+
+  async findByOrganisationId(organisationId: string): Promise<OrganisationMemberDetails[]> {
+    const stmt = this.db.prepare(`
+      SELECT m.*, u.email, u.name
+      FROM organisation_members m
+      JOIN users u ON u.id = m.user_id
+      WHERE m.organisation_id = ?
+      ORDER BY m.role ASC, m.created_at ASC
+    `);
+    return stmt.all(organisationId) as OrganisationMemberDetails[];
+  }
+
+  async update(organisationId: string, userId: string, updates: OrganisationMemberUpdate): Promise<void> {
+    const columns = (['role', 'has_seat'] as const).filter(column => updates[column] !== undefined);
+    if (columns.length === 0) return;
+
+    const assignments = columns.map(column => `${column} = ?`);
+    assignments.push("updated_at = datetime('now')");
+
+    this.db.prepare(`
+      UPDATE organisation_members SET ${assignments.join(', ')}
+      WHERE organisation_id = ? AND user_id = ?
+    `).run(...columns.map(column => updates[column]), organisationId, userId);
+  }
+
+  async remove(organisationId: string, userId: string): Promise<void> {
+    const removeMember = this.db.transaction(() => {
+      this.db.prepare(`
+        DELETE FROM cohort_members
+        WHERE user_id = ? AND cohort_id IN (SELECT id FROM cohorts WHERE organisation_id = ?)
+      `).run(userId, organisationId);
+      this.db.prepare('DELETE FROM organisation_members WHERE organisation_id = ? AND user_id = ?')
+        .run(organisationId, userId);
+    });
+    removeMember();
+  }
+
+  async countByRole(organisationId: string, role: OrganisationRole): Promise<number> {
+    const stmt = this.db.prepare('SELECT COUNT(*) as count FROM organisation_members WHERE organisation_id = ? AND role = ?');
+    return (stmt.get(organisationId, role) as { count: number }).count;
+  }
+
+  async countSeatsUsed(organisationId: string): Promise<number> {
+    const stmt = this.db.prepare('SELECT COUNT(*) as count FROM organisation_members WHERE organisation_id = ? AND has_seat = 1');
+    return (stmt.get(organisationId) as { count: number }).count;
+  }
+
+  async releaseSeats(organisationId: string, count: number): Promise<void> {
+    this.db.prepare(`
+      UPDATE organisation_members SET has_seat = 0, updated_at = datetime('now')
+      WHERE organisation_id = ? AND user_id IN (
+        SELECT user_id FROM organisation_members
+        WHERE organisation_id = ? AND has_seat = 1
+        ORDER BY updated_at DESC, created_at DESC
+        LIMIT ?
+      )
+    `).run(organisationId, organisationId, count);
+  }
+}
+
+export class SqliteOrganisationInviteRepository implements OrganisationInviteRepository {
+  constructor(private readonly db: DatabaseType) {}
+
+  async insert(invite: NewOrganisationInviteRow): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO organisation_invites (id, organisation_id, cohort_id, code, role, max_uses, expires_at, created_by)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      invite.id,
+      invite.organisation_id,
+      invite.cohort_id,
+      invite.code,
+      invite.role,
+      invite.max_uses,
+      invite.expires_at,
+      invite.created_by
+    );
+  }
+
+  async findById(id: string): Promise<OrganisationInvite | undefined> {
+    return this.db.prepare('SELECT * FROM organisation_invites WHERE id = ?').get(id) as OrganisationInvite | undefined;
+  }
+
+  async findByCode(code: string): Promise<OrganisationInvite | undefined> {
+    const stmt = this.db.prepare('SELECT * FROM organisation_invites WHERE code = ?');
+    return stmt.get(code) as OrganisationInvite | undefined;
+  }
+
+  async findByOrganisationId(organisationId: string): Promise<OrganisationInvite[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM organisation_invites
+      WHERE organisation_id = ?
+      ORDER BY created_at DESC
+    `);
+    return stmt.all(organisationId) as OrganisationInvite[];
+  }
+
+  async recordUse(id: string): Promise<void> {
+    this.db.prepare('UPDATE organisation_invites SET uses = uses + 1 WHERE id = ?').run(id);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.db.prepare('DELETE FROM organisation_invites WHERE id = ?').run(id);
+  }
+}
+
+export class SqliteOrganisationSubscriptionRepository implements OrganisationSubscriptionRepository {
+  constructor(private readonly db: DatabaseType) {}
+
+  async insert(subscription: NewOrganisationSubscriptionRow): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO organisation_subscriptions (
+        id, organisation_id, plan, seats, status, stripe_subscription_id, stripe_price_id,
+        current_period_start, current_period_end
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      subscription.id,
+      subscription.organisation_id,
+      subscription.plan,
+      subscription.seats,
+      subscription.status,
+      subscription.stripe_subscription_id,
+      subscription.stripe_price_id,
+      subscription.current_period_start,
+      subscription.current_period_end
+    );
+  }
+
+  async findById(id: string): Promise<OrganisationSubscription | undefined> {
+    const stmt = this.db.prepare('SELECT * FROM organisation_subscriptions WHERE id = ?');
+    return stmt.get(id) as OrganisationSubscription | undefined;
+  }
+
+  async findActiveByOrganisationId(organisationId: string): Promise<OrganisationSubscription | undefined> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM organisation_subscriptions
+      WHERE organisation_id = ? AND status IN ('active', 'trialing')
+      ORDER BY created_at DESC
+      LIMIT 1
+    `);
+    return stmt.get(organisationId) as OrganisationSubscription | undefined;
+  }
+
+  async findByStripeSubscriptionId(stripeSubscriptionId: string): Promise<OrganisationSubscription | undefined> {
+    const stmt = this.db.prepare('SELECT * FROM organisation_subscriptions WHERE stripe_subscription_id = ?');
+    return stmt.get(stripeSubscriptionId) as OrganisationSubscription | undefined;
+  }
+
+  async findSeatPlan(userId: string): Promise<Exclude<PlanType, 'free'> | undefined> {
+    const stmt = this.db.prepare(`
+      SELECT s.plan
+      FROM organisation_members m
+      JOIN organisation_subscriptions s ON s.organisation_id = m.organisation_id
+      JOIN plan_limits pl ON pl.plan = s.plan
+      WHERE m.user_id = ? AND m.has_seat = 1 AND s.status IN ('active', 'trialing')
+      ORDER BY pl.daily_minutes DESC
+      LIMIT 1
+    `);
+    const row = stmt.get(userId) as { plan: Exclude<PlanType, 'free'> } | undefined;
+    return row?.plan;
+  }
+
+  async update(id: string, updates: OrganisationSubscriptionUpdate): Promise<void> {
+    const columns = ORGANISATION_SUBSCRIPTION_UPDATE_COLUMNS.filter(column => updates[column] !== undefined);
+    if (columns.length === 0) return;
+
+    const assignments = columns.map(column => `${column} = ?`);
+    assignments.push("updated_at = datetime('now')");
+
+    this.db.prepare(`
+      UPDATE organisation_subscriptions SET ${assignments.join(', ')}
+      WHERE id = ?
+    `).run(...columns.map(column => updates[column]), id);
+  }
+}
+
+export function createSqliteRepositories(db: DatabaseType): Repositories {
+  return {
+    users: new SqliteUserRepository(db),
+    subscriptions: new SqliteSubscriptionRepository(db),
+    usage: new SqliteUsageRepository(db),
+    sessions: new SqliteSessionRepository(db),
+    conversationTurns: new SqliteConversationTurnRepository(db),
+    sessionReports: new SqliteSessionReportRepository(db),
+    voiceUsage: new SqliteVoiceUsageRepository(db),
+    anonymousUsage: new SqliteAnonymousUsageRepository(db),
+    progress: new SqliteProgressRepository(db),
+    quizResults: new SqliteQuizResultRepository(db),
+    authTokens: new SqliteAuthTokenRepository(db),
+    authSessions: new SqliteAuthSessionRepository(db),
+    oauthStates: new SqliteOAuthStateRepository(db),
+    userIdentities: new SqliteUserIdentityRepository(db),
+    decks: new SqliteDeckRepository(db),
+    deckTerms: new SqliteDeckTermRepository(db),
+    phraseLists: new SqlitePhraseListRepository(db),
+    phraseListItems: new SqlitePhraseListItemRepository(db),
+    cohorts: new SqliteCohortRepository(db),
+    assignments: new SqliteAssignmentRepository(db),
+    organisations: new SqliteOrganisationRepository(db),
+    organisationMembers: new SqliteOrganisationMemberRepository(db),
+    organisationInvites: new SqliteOrganisationInviteRepository(db),
+    organisationSubscriptions: new SqliteOrganisationSubscriptionRepository(db),
+  };
+}
@@ -0,0 +1,528 @@
+import type { User, UserWithSubscription } from '../models/User.js';
+import type { Subscription, PlanLimit, PlanType } from '../models/Subscription.js';
+import type { UsageRecord, PracticeSession } from '../models/Usage.js';
+import type { ConversationTurn, ConversationRole } from '../models/Conversation.js';
+import type { VoiceUsageRecord, RecordVoiceUsageInput } from '../models/VoiceUsage.js';
+import type { AnonymousUsageRecord } from '../models/AnonymousUsage.js';
+import type { QuizResult } from '../models/QuizResult.js';
+import type { AuthToken, AuthTokenType } from '../models/AuthToken.js';
+import type { AuthSession, AuthSessionSummary } from '../models/AuthSession.js';
+import type { OAuthState } from '../models/OAuthState.js';
+import type { UserIdentity } from '../models/UserIdentity.js';
+import type { Deck, DeckSummary, DeckTerm, DeckInput, DeckTermInput } from '../models/Deck.js';
+import type {
+  PhraseList,
+  PhraseListSummary,
+  PhraseListItem,
+  PhraseListInput,
+  PhraseInput,
+} from '../models/PhraseList.js';
+import type { Cohort, CohortSummary, CohortInput, CohortMemberDetails } from '../models/Cohort.js';
+import type {
+  Assignment,
+  AssignmentInput,
+  AssignmentTask,
+  LearnerAssignment,
+} from '../models/Assignment.js';
+import type {
+  Organisation,
+  OrganisationSummary,
+  OrganisationMember,
+  OrganisationMemberDetails,
+  OrganisationRole,
+  OrganisationInvite,
+  OrganisationSubscription,
+} from '../models/Organisation.js';
+
+/**
+ * Storage behind the models. Repositories only read and write rows -
+ * hashing, plan rules and billing stay in the models, so every driver
+ * behaves the same. Rows come back in the SQLite shapes (TEXT timestamps,
+ * 0/1 flags, JSON as text) whichever driver is used, and each method that
+ * changes several rows does so in one transaction.
+ */
+
+// A time in the format of SQLite's datetime('now'), which the created_at and
+// updated_at columns hold with either driver
+export function toSqliteTime(date: Date): string {
+  return date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
+export interface NewUserRow {
+  id: string;
+  email: string;
+  password_hash: string;
+  name: string | null;
+}
+
+export interface UserRepository {
+  insert(user: NewUserRow): Promise<void>;
+  findById(id: string): Promise<User | undefined>;
+  findByEmail(email: string): Promise<User | undefined>;
+  findByStripeCustomerId(customerId: string): Promise<User | undefined>;
+  // The user with their active subscription, if any
+  findWithSubscription(id: string): Promise<UserWithSubscription | undefined>;
+  updateStripeCustomerId(id: string, stripeCustomerId: string): Promise<void>;
+  updatePasswordHash(id: string, passwordHash: string): Promise<void>;
+  markEmailVerified(id: string): Promise<void>;
+  updateName(id: string, name: string): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface NewSubscriptionRow {
+  id: string;
+  user_id: string;
+  plan: PlanType;
+  status: Subscription['status'];
+  stripe_subscription_id: string | null;
+  stripe_price_id: string | null;
+  current_period_start: string | null;
+  current_period_end: string | null;
+}
+
+export type SubscriptionUpdate = Partial<Omit<Subscription, 'id' | 'user_id' | 'created_at' | 'updated_at'>>;
+
+// Columns SubscriptionRepository.update() may change
+export const SUBSCRIPTION_UPDATE_COLUMNS = [
+  'plan',
+  'status',
+  'stripe_subscription_id',
+  'stripe_price_id',
+  'current_period_start',
+  'current_period_end',
+  'cancel_at_period_end',
+] as const satisfies readonly (keyof SubscriptionUpdate)[];
+
+export interface SubscriptionRepository {
+  insert(subscription: NewSubscriptionRow): Promise<void>;
+  findById(id: string): Promise<Subscription | undefined>;
+  // The newest active or trialing subscription
+  findActiveByUserId(userId: string): Promise<Subscription | undefined>;
+  findAllByUserId(userId: string): Promise<Subscription[]>;
+  findByStripeSubscriptionId(stripeSubscriptionId: string): Promise<Subscription | undefined>;
+  update(id: string, updates: SubscriptionUpdate): Promise<void>;
+  getPlanLimits(): Promise<PlanLimit[]>;
+  getPlanLimit(plan: PlanType): Promise<PlanLimit | undefined>;
+}
+
+export interface UsageRepository {
+  // Creates the day's record if it doesn't exist yet
+  getOrCreate(userId: string, date: string): Promise<UsageRecord>;
+  findById(id: string): Promise<UsageRecord | undefined>;
+  findByUserAndDate(userId: string, date: string): Promise<UsageRecord | undefined>;
+  addMinutes(id: string, minutes: number): Promise<void>;
+  incrementSessionCount(id: string): Promise<void>;
+  // Newest first
+  findRecent(userId: string, limit: number): Promise<UsageRecord[]>;
+  findAllByUserId(userId: string): Promise<UsageRecord[]>;
+  sumMinutesSince(userId: string, date: string): Promise<number>;
+}
+
+export interface NewSessionRow {
+  id: string;
+  user_id: string;
+  started_at: string;
+  mode: string | null;
+  scenario_id: string | null;
+}
+
+export interface SessionRepository {
+  insert(session: NewSessionRow): Promise<void>;
+  findById(id: string): Promise<PracticeSession | undefined>;
+  /**
+   * Move billed_seconds from `expected` to `billedSeconds`. Returns false,
+   * changing nothing, if another request billed the session first.
+   */
+  updateBilling(id: string, expected: number, billedSeconds: number, lastActivityAt: string): Promise<boolean>;
+  // Returns false if the session had already ended
+  markEnded(id: string, endedAt: string, durationSeconds: number, feedback: number | null): Promise<boolean>;
+  updateFeedback(id: string, feedback: number): Promise<void>;
+  updateMessageCount(id: string, count: number): Promise<void>;
+  // Newest first
+  findRecent(userId: string, limit: number): Promise<PracticeSession[]>;
+  findAllByUserId(userId: string): Promise<PracticeSession[]>;
+  // Newest first
+  findStartedSince(userId: string, since: string): Promise<PracticeSession[]>;
+  // Sessions not yet ended, newest first
+  findOpen(userId: string): Promise<PracticeSession[]>;
+}
+
+export interface NewConversationTurnRow {
+  id: string;
+  session_id: string;
+  role: ConversationRole;
+  content: string;
+  emotion: string | null;
+  model: string | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+}
+
+export interface ConversationTurnRepository {
+  /**
+   * Add the turn after the conversation's last one. It is linked to the
+   * practice session with the conversation's id, if there is one.
+   */
+  insert(turn: NewConversationTurnRow): Promise<void>;
+  findById(id: string): Promise<ConversationTurn | undefined>;
+  // In turn order
+  findBySessionId(sessionId: string): Promise<ConversationTurn[]>;
+  // In turn order
+  findByPracticeSessionId(practiceSessionId: string): Promise<ConversationTurn[]>;
+  existsForSession(sessionId: string): Promise<boolean>;
+  isLinkedToPracticeSession(sessionId: string): Promise<boolean>;
+  deleteBySessionId(sessionId: string): Promise<void>;
+  // Conversations not linked to a practice session whose last turn is older
+  // than `before`. Returns the number of turns deleted
+  deleteAnonymousBefore(before: string): Promise<number>;
+}
+
+// session_reports as stored, with the report as JSON text
+export interface SessionReportRow {
+  session_id: string;
+  report: string;
+  model: string | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type SessionReportWrite = Omit<SessionReportRow, 'created_at' | 'updated_at'>;
+
+export interface SessionReportRepository {
+  // Creates the session's report or replaces it
+  save(report: SessionReportWrite): Promise<void>;
+  findBySessionId(sessionId: string): Promise<SessionReportRow | undefined>;
+}
+
+export interface NewVoiceUsageRow extends RecordVoiceUsageInput {
+  id: string;
+  date: string;
+}
+
+export interface VoiceUsageRepository {
+  insert(record: NewVoiceUsageRow): Promise<void>;
+  findById(id: string): Promise<VoiceUsageRecord | undefined>;
+  findByUserId(userId: string): Promise<VoiceUsageRecord[]>;
+  // Give a device's anonymous usage on `date` to the user
+  assignDeviceToUser(deviceId: string, userId: string, date: string): Promise<void>;
+}
+
+export interface NewAnonymousUsageRow {
+  id: string;
+  device_id: string;
+  ip_hash: string;
+  date: string;
+}
+
+export interface AnonymousUsageRepository {
+  insert(record: NewAnonymousUsageRow): Promise<void>;
+  findById(id: string): Promise<AnonymousUsageRecord | undefined>;
+  findByDeviceAndDate(deviceId: string, date: string): Promise<AnonymousUsageRecord | undefined>;
+  sumIpMinutes(ipHash: string, date: string): Promise<number>;
+  addMinutes(id: string, minutes: number): Promise<void>;
+  startSession(id: string, startedAt: string): Promise<void>;
+  // Add billed minutes and move the billed point to `lastActivityAt`
+  recordActivity(id: string, minutes: number, lastActivityAt: string): Promise<void>;
+  endSession(id: string): Promise<void>;
+  markClaimed(id: string, userId: string): Promise<void>;
+}
+
+// progress_documents as stored, with the document as JSON text
+export interface ProgressDocumentRow {
+  user_id: string;
+  doc_key: string;
+  data: string;
+  version: number;
+  reset_version: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ProgressDocumentWrite = Pick<ProgressDocumentRow, 'user_id' | 'doc_key' | 'data' | 'version' | 'reset_version'>;
+
+export interface ProgressRepository {
+  // By key
+  findByUserId(userId: string): Promise<ProgressDocumentRow[]>;
+  findByKey(userId: string, docKey: string): Promise<ProgressDocumentRow | undefined>;
+  // Returns false, changing nothing, if the document is already stored
+  insertIfAbsent(document: ProgressDocumentWrite): Promise<boolean>;
+  // Returns false, changing nothing, unless the stored copy is at `expectedVersion`
+  updateIfVersion(document: ProgressDocumentWrite, expectedVersion: number): Promise<boolean>;
+}
+
+export type NewQuizResultRow = Omit<QuizResult, 'created_at'>;
+
+export interface QuizResultRepository {
+  insert(result: NewQuizResultRow): Promise<void>;
+  findById(id: string): Promise<QuizResult | undefined>;
+  // Oldest first
+  findByUserSince(userId: string, since: string): Promise<QuizResult[]>;
+  // Oldest first
+  findAllByUserId(userId: string): Promise<QuizResult[]>;
+  // Newest first
+  findRecent(userId: string, limit: number): Promise<QuizResult[]>;
+}
+
+export type NewAuthTokenRow = Pick<AuthToken, 'id' | 'user_id' | 'type' | 'token_hash' | 'expires_at'>;
+
+export interface AuthTokenRepository {
+  // Insert the token in place of the user's earlier ones of the same type
+  replace(token: NewAuthTokenRow): Promise<void>;
+  findByTokenHash(tokenHash: string, type: AuthTokenType): Promise<AuthToken | undefined>;
+  // Returns false if the token was already used
+  markUsed(id: string, usedAt: string): Promise<boolean>;
+}
+
+export type NewAuthSessionRow = Pick<
+  AuthSession,
+  'id' | 'user_id' | 'refresh_token_hash' | 'user_agent' | 'last_used_at' | 'expires_at'
+>;
+
+export interface AuthSessionRepository {
+  insert(session: NewAuthSessionRow): Promise<void>;
+  findById(id: string): Promise<AuthSession | undefined>;
+  findByRefreshTokenHash(tokenHash: string): Promise<AuthSession | undefined>;
+  findByPreviousTokenHash(tokenHash: string): Promise<AuthSession | undefined>;
+  /**
+   * Swap the refresh token hash, keeping the old one as the previous token.
+   * Returns false if the session no longer has `oldHash` or was revoked.
+   */
+  rotate(id: string, oldHash: string, newHash: string, lastUsedAt: string, expiresAt: string): Promise<boolean>;
+  // Sessions not revoked or expired at `now`, most recently used first
+  findActiveByUserId(userId: string, now: string): Promise<AuthSessionSummary[]>;
+  revoke(id: string, revokedAt: string): Promise<void>;
+  // Returns the number of sessions revoked
+  revokeAllForUser(userId: string, revokedAt: string): Promise<number>;
+}
+
+export type NewOAuthStateRow = Pick<OAuthState, 'id' | 'state_hash' | 'provider' | 'nonce' | 'code_verifier' | 'expires_at'>;
+
+export interface OAuthStateRepository {
+  insert(state: NewOAuthStateRow): Promise<void>;
+  findById(id: string): Promise<OAuthState | undefined>;
+  findByStateHash(stateHash: string): Promise<OAuthState | undefined>;
+  findByLoginCodeHash(loginCodeHash: string): Promise<OAuthState | undefined>;
+  // Returns false if the state was already completed or used
+  complete(id: string, userId: string, loginCodeHash: string, expiresAt: string): Promise<boolean>;
+  // Returns false if the state was already used
+  markUsed(id: string, usedAt: string): Promise<boolean>;
+  deleteExpired(now: string): Promise<void>;
+}
+
+export type NewUserIdentityRow = Omit<UserIdentity, 'created_at'>;
+
+export interface UserIdentityRepository {
+  insert(identity: NewUserIdentityRow): Promise<void>;
+  findById(id: string): Promise<UserIdentity | undefined>;
+  findByProviderSubject(provider: string, subject: string): Promise<UserIdentity | undefined>;
+  // Oldest first
+  findByUserId(userId: string): Promise<UserIdentity[]>;
+  // Keeps the stored email when `email` is null
+  recordLogin(id: string, email: string | null, at: string): Promise<void>;
+}
+
+export interface DeckRepository {
+  insert(id: string, userId: string, input: DeckInput): Promise<void>;
+  findById(id: string): Promise<Deck | undefined>;
+  // With their term counts, oldest first
+  findByUserId(userId: string): Promise<DeckSummary[]>;
+  countByUserId(userId: string): Promise<number>;
+  update(id: string, input: DeckInput): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface DeckTermRepository {
+  // Adds the terms after the deck's last one, in order
+  insertMany(deckId: string, terms: (DeckTermInput & { id: string })[]): Promise<void>;
+  findById(id: string): Promise<DeckTerm | undefined>;
+  // In position order
+  findByDeckId(deckId: string): Promise<DeckTerm[]>;
+  countByDeckId(deckId: string): Promise<number>;
+  update(id: string, input: DeckTermInput): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface PhraseListRepository {
+  insert(id: string, userId: string, input: PhraseListInput): Promise<void>;
+  findById(id: string): Promise<PhraseList | undefined>;
+  // With their phrase counts, oldest first
+  findByUserId(userId: string): Promise<PhraseListSummary[]>;
+  countByUserId(userId: string): Promise<number>;
+  update(id: string, input: PhraseListInput): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface PhraseListItemRepository {
+  // Adds the phrases after the list's last one, in order
+  insertMany(listId: string, phrases: (PhraseInput & { id: string })[]): Promise<void>;
+  findById(id: string): Promise<PhraseListItem | undefined>;
+  // In position order
+  findByListId(listId: string): Promise<PhraseListItem[]>;
+  countByListId(listId: string): Promise<number>;
+  update(id: string, input: PhraseInput): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface CohortRepository {
+  insert(id: string, organisationId: string, input: CohortInput): Promise<void>;
+  findById(id: string): Promise<Cohort | undefined>;
+  // With their member counts, oldest first
+  findByOrganisationId(organisationId: string): Promise<CohortSummary[]>;
+  update(id: string, input: CohortInput): Promise<void>;
+  delete(id: string): Promise<void>;
+  // Adding an existing member is a no-op
+  addMember(cohortId: string, userId: string): Promise<void>;
+  removeMember(cohortId: string, userId: string): Promise<void>;
+  isMember(cohortId: string, userId: string): Promise<boolean>;
+  // Members with their role in the cohort's organisation, by name (unnamed first)
+  findMembers(cohortId: string): Promise<CohortMemberDetails[]>;
+}
+
+export type NewAssignmentRow = Pick<Assignment, 'id' | 'cohort_id' | 'created_by' | 'title' | 'description' | 'due_at'>;
+
+export interface AssignmentRepository {
+  insert(assignment: NewAssignmentRow, tasks: AssignmentTask[]): Promise<void>;
+  findById(id: string): Promise<Assignment | undefined>;
+  // Soonest due first
+  findByCohortId(cohortId: string): Promise<Assignment[]>;
+  // Assignments for every cohort the user is a learner in, soonest due first
+  findForLearner(userId: string): Promise<LearnerAssignment[]>;
+  isDeckAssignedToUser(deckId: string, userId: string): Promise<boolean>;
+  update(id: string, input: AssignmentInput): Promise<void>;
+  delete(id: string): Promise<void>;
+  // In position order
+  findTasks(assignmentId: string): Promise<AssignmentTask[]>;
+  replaceTasks(assignmentId: string, tasks: AssignmentTask[]): Promise<void>;
+}
+
+export type NewOrganisationMemberRow = Pick<OrganisationMember, 'organisation_id' | 'user_id' | 'role' | 'has_seat'>;
+
+export interface OrganisationRepository {
+  // Creates the organisation with its first member
+  insert(id: string, name: string, createdBy: string, firstMember: NewOrganisationMemberRow): Promise<void>;
+  findById(id: string): Promise<Organisation | undefined>;
+  // The user's organisations with their membership, oldest first
+  findByUserId(userId: string): Promise<OrganisationSummary[]>;
+  update(id: string, name: string): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface OrganisationMemberUpdate {
+  role?: OrganisationRole;
+  has_seat?: number;
+}
+
+export interface OrganisationMemberRepository {
+  insert(member: NewOrganisationMemberRow): Promise<void>;
+  find(organisationId: string, userId: string): Promise<OrganisationMember | undefined>;
+  // With their email and name, by role, then oldest first
+  findByOrganisationId(organisationId: string): Promise<OrganisationMemberDetails[]>;
+  update(organisationId: string, userId: string, updates: OrganisationMemberUpdate): Promise<void>;
+  // Also takes the member out of the organisation's cohorts
+  remove(organisationId: string, userId: string): Promise<void>;
+  countByRole(organisationId: string, role: OrganisationRole): Promise<number>;
+  countSeatsUsed(organisationId: string): Promise<number>;
+  // Take seats from the `count` most recently seated members
+  releaseSeats(organisationId: string, count: number): Promise<void>;
+}
+
+export type NewOrganisationInviteRow = Omit<OrganisationInvite, 'uses' | 'created_at'>;
+
+export interface OrganisationInviteRepository {
+  insert(invite: NewOrganisationInviteRow): Promise<void>;
+  findById(id: string): Promise<OrganisationInvite | undefined>;
+  findByCode(code: string): Promise<OrganisationInvite | undefined>;
+  // Newest first
+  findByOrganisationId(organisationId: string): Promise<OrganisationInvite[]>;
+  recordUse(id: string): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export type NewOrganisationSubscriptionRow = Omit<
+  OrganisationSubscription,
+  'cancel_at_period_end' | 'created_at' | 'updated_at'
+>;
+
+export type OrganisationSubscriptionUpdate = Partial<
+  Omit<OrganisationSubscription, 'id' | 'organisation_id' | 'created_at' | 'updated_at'>
+>;
+
+// Columns OrganisationSubscriptionRepository.update() may change
+export const ORGANISATION_SUBSCRIPTION_UPDATE_COLUMNS = [
+  'plan',
+  'seats',
+  'status',
+  'stripe_subscription_id',
+  'stripe_price_id',
+  'current_period_start',
+  'current_period_end',
+  'cancel_at_period_end',
+] as const satisfies readonly (keyof OrganisationSubscriptionUpdate)[];
+
+export interface OrganisationSubscriptionRepository {
+  insert(subscription: NewOrganisationSubscriptionRow): Promise<void>;
+  findById(id: string): Promise<OrganisationSubscription | undefined>;
+  // The newest active or trialing subscription
+  findActiveByOrganisationId(organisationId: string): Promise<OrganisationSubscription | undefined>;
+  findByStripeSubscriptionId(stripeSubscriptionId: string): Promise<OrganisationSubscription | undefined>;
+  // The plan with the most daily minutes among the user's seats in
+  // organisations with an active subscription
+  findSeatPlan(userId: string): Promise<Exclude<PlanType, 'free'> | undefined>;
+  update(id: string, updates: OrganisationSubscriptionUpdate): Promise<void>;
+}
+
+export interface Repositories {
+  users: UserRepository;
+  subscriptions: SubscriptionRepository;
+  usage: UsageRepository;
+  sessions: SessionRepository;
+  conversationTurns: ConversationTurnRepository;
+  sessionReports: SessionReportRepository;
+  voiceUsage: VoiceUsageRepository;
+  anonymousUsage: AnonymousUsageRepository;
+  progress: ProgressRepository;
+  quizResults: QuizResultRepository;
+  authTokens: AuthTokenRepository;
+  authSessions: AuthSessionRepository;
+  oauthStates: OAuthStateRepository;
+  userIdentities: UserIdentityRepository;
+  decks: DeckRepository;
+  deckTerms: DeckTermRepository;
+  phraseLists: PhraseListRepository;
+  phraseListItems: PhraseListItemRepository;
+  cohorts: CohortRepository;
+  assignments: AssignmentRepository;
+  organisations: OrganisationRepository;
+  organisationMembers: OrganisationMemberRepository;
+  organisationInvites: OrganisationInviteRepository;
+  organisationSubscriptions: OrganisationSubscriptionRepository;
+}
+
+// Row from the users / subscriptions / plan_limits join both drivers run
+export interface UserSubscriptionRow extends Omit<User, 'password_hash'> {
+  // SQLite returns 0 or 1
+  has_password: boolean | number;
+  plan: string | null;
+  status: string | null;
+  daily_minutes: number | null;
+}
+
+export function toUserWithSubscription(row: UserSubscriptionRow): UserWithSubscription {
+  return {
+    id: row.id,
+    email: row.email,
+    name: row.name,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    email_verified: row.email_verified,
+    stripe_customer_id: row.stripe_customer_id,
+    has_password: Boolean(row.has_password),
+    subscription: row.plan ? {
+      plan: row.plan,
+      status: row.status as string,
+      daily_limit_minutes: row.daily_minutes as number,
+    } : null,
+  };
+}
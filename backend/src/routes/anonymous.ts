@@ -0,0 +1,111 @@
+import { Router, Request, Response } from 'express';
+import rateLimit from 'express-rate-limit';
+import { authenticateDevice, DeviceRequest } from '../middleware/auth.js';
+import { checkAnonymousUsageLimits } from '../middleware/usageLimits.js';
+import { anonymousUsageService } from '../services/anonymousUsageService.js';
+
+const router = Router();
+
+// One heartbeat every 30 seconds, with room for retries, per trial device
+const heartbeatLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 10,
+  keyGenerator: (req: Request) => (req as DeviceRequest).device!.deviceId,
+  message: { error: 'Too many requests, please try again later' },
+});
+
+// POST /anonymous/token - Issue a device token for the free trial
+router.post('/token', async (req: Request, res: Response) => {
+  try {
+    const deviceToken = anonymousUsageService.issueDeviceToken();
+    const device = anonymousUsageService.resolveDevice(deviceToken, req.ip)!;
+
+    res.status(201).json({
+      device_token: deviceToken,
+      usage: await anonymousUsageService.getUsageStatus(device),
+    });
+  } catch (error) {
+    console.error('Issue device token error:', error);
+    res.status(500).json({ error: 'Failed to issue device token' });
+  }
+});
+
+// GET /anonymous/usage - Today's trial usage for this device
+router.get('/usage', authenticateDevice, async (req: DeviceRequest, res: Response) => {
+  try {
+    const status = await anonymousUsageService.getUsageStatus(req.device!);
+
+    res.json({
+      can_start_session: status.allowed,
+      ...status,
+    });
+  } catch (error) {
+    console.error('Get anonymous usage error:', error);
+    res.status(500).json({ error: 'Failed to get usage' });
+  }
+});
+
+// POST /anonymous/sessions/start - Start a trial session
+router.post('/sessions/start', authenticateDevice, checkAnonymousUsageLimits, async (req: DeviceRequest, res: Response) => {
+  try {
+    const record = await anonymousUsageService.startSession(req.device!);
+
+    res.status(201).json({
+      session: {
+        started_at: record.session_started_at,
+      },
+      usage: await anonymousUsageService.getUsageStatus(req.device!),
+    });
+  } catch (error) {
+    console.error('Start anonymous session error:', error);
+    res.status(500).json({ error: 'Failed to start session' });
+  }
+});
+
+// POST /anonymous/sessions/heartbeat - Record elapsed time of a live trial session
+router.post('/sessions/heartbeat', authenticateDevice, heartbeatLimiter, async (req: DeviceRequest, res: Response) => {
+  try {
+    const record = await anonymousUsageService.recordActivity(req.device!);
+    if (!record) {
+      res.status(409).json({
+        error: 'Session already ended',
+        code: 'SESSION_ENDED',
+        usage: await anonymousUsageService.getUsageStatus(req.device!),
+      });
+      return;
+    }
+
+    const usageStatus = await anonymousUsageService.getUsageStatus(req.device!);
+
+    // Out of time - end the session here so the client cannot keep going
+    const limitReached = usageStatus.remaining_minutes <= 0;
+    if (limitReached) {
+      await anonymousUsageService.endSession(req.device!);
+    }
+
+    res.json({
+      usage: usageStatus,
+      limit_reached: limitReached,
+    });
+  } catch (error) {
+    console.error('Anonymous session heartbeat error:', error);
+    res.status(500).json({ error: 'Failed to record session heartbeat' });
+  }
+});
+
+// POST /anonymous/sessions/end - End a trial session
+router.post('/sessions/end', authenticateDevice, async (req: DeviceRequest, res: Response) => {
+  try {
+    await anonymousUsageService.endSession(req.device!);
+
+    res.json({
+      message: 'Session ended',
+      usage: await anonymousUsageService.getUsageStatus(req.device!),
+    });
+  } catch (error) {
+    console.error('End anonymous session error:', error);
+    res.status(500).json({ error: 'Failed to end session' });
+  }
+});
+
+export default router;
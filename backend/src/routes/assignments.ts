@@ -0,0 +1,246 @@
+import { Router, Response } from 'express';
+import { authenticate, AuthenticatedRequest } from '../middleware/auth.js';
+import { Assignment, AssignmentModel, AssignmentTaskModel } from '../models/Assignment.js';
+import { Cohort, CohortMemberModel, CohortModel } from '../models/Cohort.js';
+import { SLANG_CATEGORIES } from '../models/Deck.js';
+import { OrganisationMember, OrganisationMemberModel, OrganisationRole } from '../models/Organisation.js';
+import { assignmentService } from '../services/assignmentService.js';
+import { z } from 'zod';
+
+const router = Router();
+
+const MAX_TASKS_PER_ASSIGNMENT = 20;
+const MAX_ASSIGNMENTS_PER_COHORT = 500;
+
+const STAFF: OrganisationRole[] = ['admin', 'teacher'];
+
+const taskSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('scenario'),
+    scenario_id: z.string().min(1).max(100),
+  }),
+  z.object({
+    type: z.literal('slang_quiz'),
+    question_count: z.number().int().min(1).max(100).default(10),
+    category: z.enum(SLANG_CATEGORIES).nullable().optional(),
+    deck_id: z.string().min(1).nullable().optional(),
+    min_score: z.number().int().min(0).max(100).nullable().optional(),
+  }),
+]);
+
+const assignmentSchema = z.object({
+  title: z.string().trim().min(1).max(150),
+  description: z.string().trim().max(2000).nullable().optional(),
+  due_at: z.string().datetime(),
+  tasks: z.array(taskSchema).min(1).max(MAX_TASKS_PER_ASSIGNMENT),
+});
+
+const createAssignmentSchema = assignmentSchema.extend({
+  cohort_id: z.string().min(1),
+});
+
+const updateAssignmentSchema = assignmentSchema.partial();
+
+interface CohortAccess {
+  cohort: Cohort;
+  member: OrganisationMember;
+}
+
+/**
+ * The cohort and the caller's organisation membership, if the caller has one
+ * of `roles` - otherwise sends the error
+ */
+async function requireCohortAccess(
+  req: AuthenticatedRequest,
+  res: Response,
+  cohortId: string,
+  roles: readonly OrganisationRole[]
+): Promise<CohortAccess | undefined> {
+  const cohort = await CohortModel.findById(cohortId);
+  if (!cohort) {
+    res.status(404).json({ error: 'Cohort not found' });
+    return undefined;
+  }
+
+  const member = await OrganisationMemberModel.find(cohort.organisation_id, req.user!.id);
+  if (!member || !roles.includes(member.role)) {
+    res.status(403).json({ error: 'Not authorized' });
+    return undefined;
+  }
+
+  return { cohort, member };
+}
+
+/**
+ * The assignment - otherwise sends the error
+ */
+async function findAssignment(req: AuthenticatedRequest, res: Response): Promise<Assignment | undefined> {
+  const assignment = await AssignmentModel.findById(req.params.id);
+  if (!assignment) {
+    res.status(404).json({ error: 'Assignment not found' });
+    return undefined;
+  }
+
+  return assignment;
+}
+
+// GET /assignments - The caller's to-do list, across every cohort they learn in
+router.get('/', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const assignments = await Promise.all((await AssignmentModel.findForLearner(userId)).map(async assignment => {
+      const tasks = await AssignmentTaskModel.findByAssignmentId(assignment.id);
+      return {
+        ...assignment,
+        tasks,
+        progress: await assignmentService.getProgress(assignment, tasks, userId),
+      };
+    }));
+
+    res.json({ assignments });
+  } catch (error) {
+    console.error('List assignments error:', error);
+    res.status(500).json({ error: 'Failed to list assignments' });
+  }
+});
+
+// GET /assignments/cohorts/:cohortId - A cohort's assignments, for staff
+router.get('/cohorts/:cohortId', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const access = await requireCohortAccess(req, res, req.params.cohortId, STAFF);
+    if (!access) return;
+
+    const assignments = await Promise.all((await AssignmentModel.findByCohortId(access.cohort.id)).map(async assignment => ({
+      ...assignment,
+      tasks: await AssignmentTaskModel.findByAssignmentId(assignment.id),
+    })));
+
+    res.json({ assignments });
+  } catch (error) {
+    console.error('List cohort assignments error:', error);
+    res.status(500).json({ error: 'Failed to list assignments' });
+  }
+});
+
+// POST /assignments - Set an assignment for a cohort
+router.post('/', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validation = createAssignmentSchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const { cohort_id, tasks, ...input } = validation.data;
+    const access = await requireCohortAccess(req, res, cohort_id, STAFF);
+    if (!access) return;
+
+    if ((await AssignmentModel.findByCohortId(cohort_id)).length >= MAX_ASSIGNMENTS_PER_COHORT) {
+      res.status(400).json({ error: `Cohorts are limited to ${MAX_ASSIGNMENTS_PER_COHORT} assignments` });
+      return;
+    }
+
+    const taskError = await assignmentService.validateTasks(tasks, req.user!.id);
+    if (taskError) {
+      res.status(400).json({ error: taskError });
+      return;
+    }
+
+    const assignment = await AssignmentModel.create(cohort_id, req.user!.id, input, tasks);
+    res.status(201).json({ assignment, tasks: await AssignmentTaskModel.findByAssignmentId(assignment.id) });
+  } catch (error) {
+    console.error('Create assignment error:', error);
+    res.status(500).json({ error: 'Failed to create assignment' });
+  }
+});
+
+// GET /assignments/:id - Staff see every learner's progress; learners see their own
+router.get('/:id', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const assignment = await findAssignment(req, res);
+    if (!assignment) return;
+
+    const access = await requireCohortAccess(req, res, assignment.cohort_id, ['admin', 'teacher', 'learner']);
+    if (!access) return;
+
+    const tasks = await AssignmentTaskModel.findByAssignmentId(assignment.id);
+
+    if (STAFF.includes(access.member.role)) {
+      res.json({ assignment, tasks, learners: await assignmentService.getCohortProgress(assignment, tasks) });
+      return;
+    }
+
+    if (!(await CohortMemberModel.isMember(assignment.cohort_id, req.user!.id))) {
+      res.status(403).json({ error: 'Not authorized' });
+      return;
+    }
+
+    res.json({ assignment, tasks, progress: await assignmentService.getProgress(assignment, tasks, req.user!.id) });
+  } catch (error) {
+    console.error('Get assignment error:', error);
+    res.status(500).json({ error: 'Failed to get assignment' });
+  }
+});
+
+// PATCH /assignments/:id - Update an assignment; new tasks replace the old ones
+router.patch('/:id', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validation = updateAssignmentSchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const assignment = await findAssignment(req, res);
+    if (!assignment) return;
+
+    const access = await requireCohortAccess(req, res, assignment.cohort_id, STAFF);
+    if (!access) return;
+
+    const { tasks, ...input } = validation.data;
+    if (tasks) {
+      const taskError = await assignmentService.validateTasks(tasks, req.user!.id);
+      if (taskError) {
+        res.status(400).json({ error: taskError });
+        return;
+      }
+      await AssignmentTaskModel.replaceAll(assignment.id, tasks);
+    }
+
+    const updated = await AssignmentModel.update(assignment.id, {
+      title: input.title ?? assignment.title,
+      description: input.description !== undefined ? input.description : assignment.description,
+      due_at: input.due_at ?? assignment.due_at,
+    });
+
+    res.json({ assignment: updated, tasks: await AssignmentTaskModel.findByAssignmentId(assignment.id) });
+  } catch (error) {
+    console.error('Update assignment error:', error);
+    res.status(500).json({ error: 'Failed to update assignment' });
+  }
+});
+
+// DELETE /assignments/:id - Delete an assignment
+router.delete('/:id', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const assignment = await findAssignment(req, res);
+    if (!assignment) return;
+
+    const access = await requireCohortAccess(req, res, assignment.cohort_id, STAFF);
+    if (!access) return;
+
+    await AssignmentModel.delete(assignment.id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete assignment error:', error);
+    res.status(500).json({ error: 'Failed to delete assignment' });
+  }
+});
+
+export default router;
@@ -2,8 +2,11 @@ import { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import { UserModel } from '../models/User.js';
 import { SubscriptionModel } from '../models/Subscription.js';
-import { generateToken } from '../utils/jwt.js';
 import { authenticate, AuthenticatedRequest } from '../middleware/auth.js';
+import { anonymousUsageService } from '../services/anonymousUsageService.js';
+import { accountService } from '../services/accountService.js';
+import { authSessionService } from '../services/authSessionService.js';
+import { personalDataService } from '../services/personalDataService.js';
 
 const router = Router();
 
@@ -12,6 +15,8 @@ const registerSchema = z.object({
   email: z.string().email('Invalid email address'),
   password: z.string().min(8, 'Password must be at least 8 characters'),
   name: z.string().optional(),
+  // Trial device token, so today's anonymous minutes carry over
+  device_token: z.string().optional(),
 });
 
 const loginSchema = z.object({
@@ -19,6 +24,27 @@ const loginSchema = z.object({
   password: z.string().min(1, 'Password is required'),
 });
 
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email address'),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+});
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+});
+
+const refreshSchema = z.object({
+  refresh_token: z.string().min(1, 'Refresh token is required'),
+});
+
+const deleteAccountSchema = z.object({
+  password: z.string().optional(),
+});
+
 // POST /auth/register
 router.post('/register', async (req: Request, res: Response) => {
   try {
@@ -31,10 +57,10 @@ router.post('/register', async (req: Request, res: Response) => {
       return;
     }
 
-    const { email, password, name } = validation.data;
+    const { email, password, name, device_token } = validation.data;
 
     // Check if user already exists
-    const existingUser = UserModel.findByEmail(email);
+    const existingUser = await UserModel.findByEmail(email);
     if (existingUser) {
       res.status(409).json({ error: 'Email already registered' });
       return;
@@ -44,22 +70,33 @@ router.post('/register', async (req: Request, res: Response) => {
     const user = await UserModel.create({ email, password, name });
 
     // Create free tier subscription
-    SubscriptionModel.create({
+    await SubscriptionModel.create({
       user_id: user.id,
       plan: 'free',
       status: 'active',
     });
 
-    // Generate token
-    const token = generateToken({ userId: user.id, email: user.email });
+    // Carry today's trial usage over so registering does not reset it
+    if (device_token) {
+      await anonymousUsageService.claimForUser(device_token, user.id);
+    }
+
+    // A mail outage shouldn't block sign-up - the user can ask for another link
+    accountService.sendVerificationEmail(user).catch(error => {
+      console.error('Verification email error:', error);
+    });
+
+    // Sign in on this device
+    const tokens = await authSessionService.issue(user, req.get('User-Agent'));
 
     res.status(201).json({
       message: 'Registration successful',
-      token,
+      ...tokens,
       user: {
         id: user.id,
         email: user.email,
         name: user.name,
+        email_verified: user.email_verified,
       },
     });
   } catch (error) {
@@ -83,7 +120,7 @@ router.post('/login', async (req: Request, res: Response) => {
     const { email, password } = validation.data;
 
     // Find user
-    const user = UserModel.findByEmail(email);
+    const user = await UserModel.findByEmail(email);
     if (!user) {
       res.status(401).json({ error: 'Invalid email or password' });
       return;
@@ -96,15 +133,15 @@ router.post('/login', async (req: Request, res: Response) => {
       return;
     }
 
-    // Generate token
-    const token = generateToken({ userId: user.id, email: user.email });
+    // Sign in on this device
+    const tokens = await authSessionService.issue(user, req.get('User-Agent'));
 
     // Get user with subscription info
-    const userWithSub = UserModel.getWithSubscription(user.id);
+    const userWithSub = await UserModel.getWithSubscription(user.id);
 
     res.json({
       message: 'Login successful',
-      token,
+      ...tokens,
       user: userWithSub,
     });
   } catch (error) {
@@ -113,10 +150,192 @@ router.post('/login', async (req: Request, res: Response) => {
   }
 });
 
+// POST /auth/refresh - Trade a refresh token for new access and refresh tokens
+router.post('/refresh', async (req: Request, res: Response) => {
+  try {
+    const validation = refreshSchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const result = await authSessionService.refresh(validation.data.refresh_token);
+    if ('error' in result) {
+      res.status(result.status).json({ error: result.error, code: result.code });
+      return;
+    }
+
+    res.json(result.tokens);
+  } catch (error) {
+    console.error('Refresh token error:', error);
+    res.status(500).json({ error: 'Failed to refresh token' });
+  }
+});
+
+// POST /auth/logout - Sign out this device
+router.post('/logout', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    await authSessionService.revoke(req.user!.id, req.user!.sessionId);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Failed to log out' });
+  }
+});
+
+// POST /auth/logout-all - Sign out every device, including this one
+router.post('/logout-all', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const revoked = await authSessionService.revokeAll(req.user!.id);
+    res.json({ success: true, revoked });
+  } catch (error) {
+    console.error('Logout all error:', error);
+    res.status(500).json({ error: 'Failed to log out' });
+  }
+});
+
+// GET /auth/sessions - Devices the user is signed in on
+router.get('/sessions', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const sessions = (await authSessionService.list(req.user!.id)).map(session => ({
+      ...session,
+      current: session.id === req.user!.sessionId,
+    }));
+    res.json({ sessions });
+  } catch (error) {
+    console.error('List sessions error:', error);
+    res.status(500).json({ error: 'Failed to list sessions' });
+  }
+});
+
+// DELETE /auth/sessions/:id - Sign out one device, e.g. a lost phone
+router.delete('/sessions/:id', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!(await authSessionService.revoke(req.user!.id, req.params.id))) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({ error: 'Failed to revoke session' });
+  }
+});
+
+// POST /auth/forgot-password - Email a reset link. Responds the same whether
+// or not the address has an account
+router.post('/forgot-password', (req: Request, res: Response) => {
+  try {
+    const validation = forgotPasswordSchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    // Not awaited, so neither timing nor mail errors give away which
+    // addresses have accounts
+    accountService.requestPasswordReset(validation.data.email).catch(error => {
+      console.error('Password reset email error:', error);
+    });
+
+    res.json({ message: 'If an account uses that email, a reset link is on its way' });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({ error: 'Failed to send reset email' });
+  }
+});
+
+// POST /auth/reset-password - Set a new password with an emailed token, signing out
+// every other device and logging in on this one
+router.post('/reset-password', async (req: Request, res: Response) => {
+  try {
+    const validation = resetPasswordSchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const result = await accountService.resetPassword(validation.data.token, validation.data.password);
+    if ('error' in result) {
+      res.status(result.status).json({ error: result.error, code: result.code });
+      return;
+    }
+
+    // Whoever knew the old password is signed out everywhere
+    await authSessionService.revokeAll(result.user.id);
+    const tokens = await authSessionService.issue(result.user, req.get('User-Agent'));
+
+    res.json({
+      message: 'Password reset',
+      ...tokens,
+      user: await UserModel.getWithSubscription(result.user.id),
+    });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(500).json({ error: 'Failed to reset password' });
+  }
+});
+
+// POST /auth/verify-email - Verify the email address with an emailed token
+router.post('/verify-email', async (req: Request, res: Response) => {
+  try {
+    const validation = verifyEmailSchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const result = await accountService.verifyEmail(validation.data.token);
+    if ('error' in result) {
+      res.status(result.status).json({ error: result.error, code: result.code });
+      return;
+    }
+
+    res.json({ message: 'Email verified', user: await UserModel.getWithSubscription(result.user.id) });
+  } catch (error) {
+    console.error('Verify email error:', error);
+    res.status(500).json({ error: 'Failed to verify email' });
+  }
+});
+
+// POST /auth/verify-email/resend - Send another verification link
+router.post('/verify-email/resend', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const user = await UserModel.findById(req.user!.id);
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    if (user.email_verified) {
+      res.status(409).json({ error: 'Email already verified', code: 'ALREADY_VERIFIED' });
+      return;
+    }
+
+    await accountService.sendVerificationEmail(user);
+    res.json({ message: 'Verification email sent' });
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    res.status(500).json({ error: 'Failed to send verification email' });
+  }
+});
+
 // GET /auth/me
-router.get('/me', authenticate, (req: AuthenticatedRequest, res: Response) => {
+router.get('/me', authenticate, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const userWithSub = UserModel.getWithSubscription(req.user!.id);
+    const userWithSub = await UserModel.getWithSubscription(req.user!.id);
     if (!userWithSub) {
       res.status(404).json({ error: 'User not found' });
       return;
@@ -130,15 +349,15 @@ router.get('/me', authenticate, (req: AuthenticatedRequest, res: Response) => {
 });
 
 // PATCH /auth/me
-router.patch('/me', authenticate, (req: AuthenticatedRequest, res: Response) => {
+router.patch('/me', authenticate, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { name } = req.body;
 
     if (name !== undefined) {
-      UserModel.updateName(req.user!.id, name);
+      await UserModel.updateName(req.user!.id, name);
     }
 
-    const userWithSub = UserModel.getWithSubscription(req.user!.id);
+    const userWithSub = await UserModel.getWithSubscription(req.user!.id);
     res.json({ user: userWithSub });
   } catch (error) {
     console.error('Update user error:', error);
@@ -146,4 +365,74 @@ router.patch('/me', authenticate, (req: AuthenticatedRequest, res: Response) =>
   }
 });
 
+// GET /auth/me/export - Download everything we hold about the user as a zip
+router.get('/me/export', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const archive = await personalDataService.buildExport(req.user!.id);
+    if (!archive) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    const date = new Date().toISOString().split('T')[0];
+    res.set({
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="aussie-english-data-${date}.zip"`,
+      'Content-Length': archive.length,
+    });
+
+    res.send(archive);
+  } catch (error) {
+    console.error('Export user data error:', error);
+    res.status(500).json({ error: 'Failed to export data' });
+  }
+});
+
+// DELETE /auth/me - Delete the account and its data. Accounts with a
+// password confirm with it; accounts that only sign in with Google/Apple
+// must have signed in within the last few minutes.
+router.delete('/me', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validation = deleteAccountSchema.safeParse(req.body ?? {});
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const user = await UserModel.findById(req.user!.id);
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    const { password } = validation.data;
+    if (UserModel.hasPassword(user)) {
+      if (password === undefined || !(await UserModel.verifyPassword(user, password))) {
+        res.status(401).json({ error: 'Incorrect password', code: 'INVALID_PASSWORD' });
+        return;
+      }
+    } else if (!(await authSessionService.signedInRecently(req.user!.sessionId))) {
+      res.status(401).json({
+        error: 'Please sign in again, then delete your account within 10 minutes',
+        code: 'REAUTHENTICATION_REQUIRED',
+      });
+      return;
+    }
+
+    const result = await personalDataService.deleteAccount(user.id);
+    if ('status' in result) {
+      res.status(result.status).json({ error: result.error, code: result.code, organisations: result.organisations });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete account error:', error);
+    res.status(500).json({ error: 'Failed to delete account' });
+  }
+});
+
 export default router;
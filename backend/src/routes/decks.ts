@@ -0,0 +1,227 @@
+import { Router, Response } from 'express';
+import { authenticate, AuthenticatedRequest } from '../middleware/auth.js';
+import { Deck, DeckModel, DeckTermModel, SLANG_CATEGORIES, SLANG_DIFFICULTIES } from '../models/Deck.js';
+import { AssignmentModel } from '../models/Assignment.js';
+import { z } from 'zod';
+
+const router = Router();
+
+const MAX_DECKS_PER_USER = 50;
+const MAX_TERMS_PER_DECK = 500;
+
+const termSchema = z.object({
+  term: z.string().trim().min(1).max(100),
+  meaning: z.string().trim().min(1).max(300),
+  example: z.string().trim().min(1).max(500),
+  category: z.enum(SLANG_CATEGORIES),
+  difficulty: z.enum(SLANG_DIFFICULTIES),
+});
+
+const createDeckSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).nullable().optional(),
+  terms: z.array(termSchema).max(MAX_TERMS_PER_DECK).optional(),
+});
+
+const updateDeckSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  description: z.string().trim().max(500).nullable().optional(),
+});
+
+const updateTermSchema = termSchema.partial();
+
+/**
+ * The deck, if it exists and belongs to the user - otherwise sends the error.
+ * With `allowAssigned`, decks assigned to the user by a teacher count too.
+ */
+async function findOwnedDeck(
+  req: AuthenticatedRequest,
+  res: Response,
+  allowAssigned: boolean = false
+): Promise<Deck | undefined> {
+  const deck = await DeckModel.findById(req.params.id);
+  if (!deck) {
+    res.status(404).json({ error: 'Deck not found' });
+    return undefined;
+  }
+
+  const isAssigned = allowAssigned && await AssignmentModel.isDeckAssignedToUser(deck.id, req.user!.id);
+  if (deck.user_id !== req.user!.id && !isAssigned) {
+    res.status(403).json({ error: 'Not authorized' });
+    return undefined;
+  }
+
+  return deck;
+}
+
+// GET /decks - List the user's decks
+router.get('/', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const decks = await DeckModel.findByUserId(req.user!.id);
+    res.json({ decks });
+  } catch (error) {
+    console.error('List decks error:', error);
+    res.status(500).json({ error: 'Failed to list decks' });
+  }
+});
+
+// POST /decks - Create a deck, optionally with its terms
+router.post('/', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validation = createDeckSchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    if (await DeckModel.countByUserId(req.user!.id) >= MAX_DECKS_PER_USER) {
+      res.status(409).json({ error: `You can have up to ${MAX_DECKS_PER_USER} decks` });
+      return;
+    }
+
+    const { terms, ...input } = validation.data;
+    const deck = await DeckModel.create(req.user!.id, input);
+    const createdTerms = terms ? await DeckTermModel.createMany(deck.id, terms) : [];
+
+    res.status(201).json({ deck: await DeckModel.findById(deck.id), terms: createdTerms });
+  } catch (error) {
+    console.error('Create deck error:', error);
+    res.status(500).json({ error: 'Failed to create deck' });
+  }
+});
+
+// GET /decks/:id - Get a deck with its terms (own or assigned)
+router.get('/:id', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const deck = await findOwnedDeck(req, res, true);
+    if (!deck) return;
+
+    res.json({ deck, terms: await DeckTermModel.findByDeckId(deck.id) });
+  } catch (error) {
+    console.error('Get deck error:', error);
+    res.status(500).json({ error: 'Failed to get deck' });
+  }
+});
+
+// PATCH /decks/:id - Rename a deck or change its description
+router.patch('/:id', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validation = updateDeckSchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const deck = await findOwnedDeck(req, res);
+    if (!deck) return;
+
+    const updated = await DeckModel.update(deck.id, {
+      name: validation.data.name ?? deck.name,
+      description: validation.data.description !== undefined ? validation.data.description : deck.description,
+    });
+
+    res.json({ deck: updated });
+  } catch (error) {
+    console.error('Update deck error:', error);
+    res.status(500).json({ error: 'Failed to update deck' });
+  }
+});
+
+// DELETE /decks/:id - Delete a deck and its terms
+router.delete('/:id', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const deck = await findOwnedDeck(req, res);
+    if (!deck) return;
+
+    await DeckModel.delete(deck.id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete deck error:', error);
+    res.status(500).json({ error: 'Failed to delete deck' });
+  }
+});
+
+// POST /decks/:id/terms - Add a term to a deck
+router.post('/:id/terms', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validation = termSchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const deck = await findOwnedDeck(req, res);
+    if (!deck) return;
+
+    if (await DeckTermModel.countByDeckId(deck.id) >= MAX_TERMS_PER_DECK) {
+      res.status(409).json({ error: `A deck can have up to ${MAX_TERMS_PER_DECK} terms` });
+      return;
+    }
+
+    const term = await DeckTermModel.create(deck.id, validation.data);
+    res.status(201).json({ term });
+  } catch (error) {
+    console.error('Add deck term error:', error);
+    res.status(500).json({ error: 'Failed to add term' });
+  }
+});
+
+// PATCH /decks/:id/terms/:termId - Edit a term
+router.patch('/:id/terms/:termId', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validation = updateTermSchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const deck = await findOwnedDeck(req, res);
+    if (!deck) return;
+
+    const term = await DeckTermModel.findById(req.params.termId);
+    if (!term || term.deck_id !== deck.id) {
+      res.status(404).json({ error: 'Term not found' });
+      return;
+    }
+
+    const updated = await DeckTermModel.update(term.id, { ...term, ...validation.data });
+    res.json({ term: updated });
+  } catch (error) {
+    console.error('Update deck term error:', error);
+    res.status(500).json({ error: 'Failed to update term' });
+  }
+});
+
+// DELETE /decks/:id/terms/:termId - Remove a term
+router.delete('/:id/terms/:termId', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const deck = await findOwnedDeck(req, res);
+    if (!deck) return;
+
+    const term = await DeckTermModel.findById(req.params.termId);
+    if (!term || term.deck_id !== deck.id) {
+      res.status(404).json({ error: 'Term not found' });
+      return;
+    }
+
+    await DeckTermModel.delete(term.id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete deck term error:', error);
+    res.status(500).json({ error: 'Failed to delete term' });
+  }
+});
+
+export default router;
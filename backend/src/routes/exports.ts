@@ -0,0 +1,58 @@
+import { Router, Request, Response } from 'express';
+import { ankiExportService } from '../services/ankiExportService.js';
+import { z } from 'zod';
+
+const router = Router();
+
+const MAX_EXPORT_CARDS = 2000;
+
+const apkgSchema = z.object({
+  deck_name: z.string().trim().min(1).max(100),
+  cards: z.array(z.object({
+    id: z.string().min(1).max(100),
+    term: z.string().min(1).max(200),
+    meaning: z.string().min(1).max(500),
+    example: z.string().max(1000).optional(),
+    tags: z.array(z.string().min(1).max(50)).max(10).optional(),
+    review: z.object({
+      next_review: z.number().min(0),
+      interval: z.number().min(0),
+      ease: z.number().min(1).max(5),
+      repetitions: z.number().int().min(0),
+      lapses: z.number().int().min(0),
+    }).optional(),
+  })).min(1).max(MAX_EXPORT_CARDS),
+});
+
+// POST /exports/apkg - Build an Anki package from cards and their review state.
+// The cards come from the client (the built-in slang list and review progress
+// live in the app), so no sign-in is needed.
+router.post('/apkg', (req: Request, res: Response) => {
+  try {
+    const validation = apkgSchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const { deck_name, cards } = validation.data;
+    const apkg = ankiExportService.buildPackage(deck_name, cards);
+    const filename = deck_name.replace(/[^a-z0-9-_ ]/gi, '').trim().replace(/\s+/g, '-') || 'deck';
+
+    res.set({
+      'Content-Type': 'application/octet-stream',
+      'Content-Disposition': `attachment; filename="${filename}.apkg"`,
+      'Content-Length': apkg.length,
+    });
+
+    res.send(apkg);
+  } catch (error) {
+    console.error('Anki export error:', error);
+    res.status(500).json({ error: 'Failed to build Anki package' });
+  }
+});
+
+export default router;
@@ -0,0 +1,60 @@
+import express, { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { MockOidcIssuer } from '../services/mockOidcIssuer.js';
+
+const authorizeSchema = z.object({
+  client_id: z.string(),
+  redirect_uri: z.string().url(),
+  state: z.string().min(1),
+  nonce: z.string().min(1),
+  code_challenge: z.string().optional(),
+  login_hint: z.string().email().optional(),
+  name: z.string().optional(),
+  email_verified: z.enum(['true', 'false']).optional(),
+});
+
+/**
+ * Routes for the mock OpenID Connect issuer. Only mounted when
+ * OAUTH_MOCK_ENABLED=true outside production.
+ */
+export function createMockOidcRouter(issuer: MockOidcIssuer): Router {
+  const router = Router();
+
+  router.use(express.urlencoded({ extended: false }));
+
+  // GET /authorize - Signs in the login_hint email without a prompt
+  router.get('/authorize', (req: Request, res: Response) => {
+    const validation = authorizeSchema.safeParse(req.query);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const result = issuer.authorize(validation.data);
+    if ('error' in result) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+    res.redirect(result.redirect);
+  });
+
+  // POST /token
+  router.post('/token', (req: Request, res: Response) => {
+    const result = issuer.token(req.body);
+    if ('status' in result) {
+      res.status(result.status).json({ error: result.error });
+      return;
+    }
+    res.json(result);
+  });
+
+  // GET /jwks
+  router.get('/jwks', (_req: Request, res: Response) => {
+    res.json(issuer.jwks());
+  });
+
+  return router;
+}
@@ -0,0 +1,163 @@
+import express, { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { UserModel } from '../models/User.js';
+import { UserIdentityModel } from '../models/UserIdentity.js';
+import { authenticate, AuthenticatedRequest } from '../middleware/auth.js';
+import { STATE_TTL_SECONDS, oauthService } from '../services/oauthService.js';
+
+const router = Router();
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
+
+// Apple posts its callback as a form
+router.use(express.urlencoded({ extended: false }));
+
+const exchangeSchema = z.object({
+  login_code: z.string().min(1, 'Login code is required'),
+});
+
+// Apple's first callback carries the user's name as JSON in a form field
+const appleUserSchema = z.object({
+  name: z.object({
+    firstName: z.string().optional(),
+    lastName: z.string().optional(),
+  }).optional(),
+});
+
+// Holds the state of a sign-in in progress, so only the browser that
+// started it can finish it
+const STATE_COOKIE = 'oauth_state';
+const STATE_COOKIE_PATH = '/api/auth/oauth';
+
+// Browsers drop SameSite=Lax cookies from cross-site form posts, so a
+// provider that posts its callback needs SameSite=None, which must be Secure
+function stateCookieOptions(postsCallback: boolean): express.CookieOptions {
+  return {
+    httpOnly: true,
+    sameSite: postsCallback ? 'none' : 'lax',
+    secure: postsCallback || process.env.NODE_ENV === 'production',
+    path: STATE_COOKIE_PATH,
+    maxAge: STATE_TTL_SECONDS * 1000,
+  };
+}
+
+function readCookie(req: Request, name: string): string | undefined {
+  for (const part of (req.headers.cookie || '').split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) return decodeURIComponent(value.join('='));
+  }
+  return undefined;
+}
+
+function frontendRedirect(param: 'oauth_code' | 'oauth_error', value: string): string {
+  return `${FRONTEND_URL}/app?${param}=${encodeURIComponent(value)}`;
+}
+
+function nameFromAppleUser(raw: unknown): string | null {
+  if (typeof raw !== 'string') return null;
+  try {
+    const parsed = appleUserSchema.safeParse(JSON.parse(raw));
+    if (!parsed.success || !parsed.data.name) return null;
+    const { firstName, lastName } = parsed.data.name;
+    return [firstName, lastName].filter(Boolean).join(' ') || null;
+  } catch {
+    return null;
+  }
+}
+
+// GET /auth/oauth/providers - Sign-in providers configured on this server
+router.get('/providers', (_req: Request, res: Response) => {
+  res.json({ providers: oauthService.listProviders() });
+});
+
+// GET /auth/oauth/identities - External accounts linked to the user
+router.get('/identities', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const identities = (await UserIdentityModel.findByUserId(req.user!.id)).map(identity => ({
+      id: identity.id,
+      provider: identity.provider,
+      email: identity.email,
+      created_at: identity.created_at,
+      last_login_at: identity.last_login_at,
+    }));
+    res.json({ identities });
+  } catch (error) {
+    console.error('List identities error:', error);
+    res.status(500).json({ error: 'Failed to list linked accounts' });
+  }
+});
+
+// POST /auth/oauth/exchange - Trade the login code from the callback for tokens
+router.post('/exchange', async (req: Request, res: Response) => {
+  try {
+    const validation = exchangeSchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const result = await oauthService.exchangeLoginCode(validation.data.login_code, req.get('User-Agent'));
+    if ('status' in result) {
+      res.status(result.status).json({ error: result.error, code: result.code });
+      return;
+    }
+
+    res.json({
+      message: 'Login successful',
+      ...result.tokens,
+      user: await UserModel.getWithSubscription(result.user.id),
+    });
+  } catch (error) {
+    console.error('OAuth exchange error:', error);
+    res.status(500).json({ error: 'Login failed' });
+  }
+});
+
+// GET /auth/oauth/:provider/start - Send the browser to the provider
+router.get('/:provider/start', async (req: Request, res: Response) => {
+  try {
+    const loginHint = typeof req.query.login_hint === 'string' ? req.query.login_hint : undefined;
+    const result = await oauthService.start(req.params.provider, loginHint);
+    if ('status' in result) {
+      res.redirect(frontendRedirect('oauth_error', result.code));
+      return;
+    }
+    res.cookie(STATE_COOKIE, result.state, stateCookieOptions(result.postsCallback));
+    res.redirect(result.url);
+  } catch (error) {
+    console.error('OAuth start error:', error);
+    res.redirect(frontendRedirect('oauth_error', 'SERVER_ERROR'));
+  }
+});
+
+// GET or POST /auth/oauth/:provider/callback - The provider sends the browser
+// back here; we sign the user in and hand the frontend a login code
+async function handleCallback(req: Request, res: Response): Promise<void> {
+  try {
+    const params = req.method === 'POST' ? req.body : req.query;
+    const result = await oauthService.handleCallback(req.params.provider, {
+      code: typeof params.code === 'string' ? params.code : undefined,
+      state: typeof params.state === 'string' ? params.state : undefined,
+      error: typeof params.error === 'string' ? params.error : undefined,
+      name: nameFromAppleUser(params.user),
+    }, readCookie(req, STATE_COOKIE));
+    res.clearCookie(STATE_COOKIE, { path: STATE_COOKIE_PATH });
+
+    if ('status' in result) {
+      res.redirect(303, frontendRedirect('oauth_error', result.code));
+      return;
+    }
+    res.redirect(303, frontendRedirect('oauth_code', result.login_code));
+  } catch (error) {
+    console.error('OAuth callback error:', error);
+    res.redirect(303, frontendRedirect('oauth_error', 'SERVER_ERROR'));
+  }
+}
+
+router.get('/:provider/callback', handleCallback);
+router.post('/:provider/callback', handleCallback);
+
+export default router;
@@ -0,0 +1,597 @@
+import { Router, Response } from 'express';
+import { authenticate, AuthenticatedRequest } from '../middleware/auth.js';
+import {
+  ORGANISATION_ROLES,
+  Organisation,
+  OrganisationInviteModel,
+  OrganisationMember,
+  OrganisationMemberModel,
+  OrganisationModel,
+  OrganisationRole,
+} from '../models/Organisation.js';
+import { Cohort, CohortMemberModel, CohortModel } from '../models/Cohort.js';
+import { organisationService } from '../services/organisationService.js';
+import { cohortDashboardService } from '../services/cohortDashboardService.js';
+import { StripeService } from '../services/stripe.js';
+import { z } from 'zod';
+
+const router = Router();
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
+
+const MAX_ORGANISATIONS_PER_USER = 10;
+const MAX_COHORTS_PER_ORGANISATION = 200;
+const MAX_SEATS = 1000;
+const DEFAULT_DASHBOARD_DAYS = 30;
+
+const STAFF: OrganisationRole[] = ['admin', 'teacher'];
+
+const organisationSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+});
+
+const updateMemberSchema = z.object({
+  role: z.enum(ORGANISATION_ROLES).optional(),
+  has_seat: z.boolean().optional(),
+});
+
+const cohortSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).nullable().optional(),
+});
+
+const updateCohortSchema = cohortSchema.partial();
+
+const cohortMemberSchema = z.object({
+  user_id: z.string().min(1),
+});
+
+const inviteSchema = z.object({
+  role: z.enum(ORGANISATION_ROLES).default('learner'),
+  cohort_id: z.string().nullable().optional(),
+  max_uses: z.number().int().min(1).max(MAX_SEATS).nullable().optional(),
+  expires_in_days: z.number().int().min(1).max(365).nullable().optional(),
+});
+
+const joinSchema = z.object({
+  code: z.string().trim().min(1).max(32),
+});
+
+const checkoutSchema = z.object({
+  plan: z.enum(['starter', 'professional', 'executive']),
+  seats: z.number().int().min(1).max(MAX_SEATS),
+});
+
+interface Membership {
+  organisation: Organisation;
+  member: OrganisationMember;
+}
+
+/**
+ * The organisation and the caller's membership, if it exists and the caller
+ * has one of `roles` - otherwise sends the error
+ */
+async function requireMembership(
+  req: AuthenticatedRequest,
+  res: Response,
+  roles: readonly OrganisationRole[] = ORGANISATION_ROLES
+): Promise<Membership | undefined> {
+  const organisation = await OrganisationModel.findById(req.params.id);
+  if (!organisation) {
+    res.status(404).json({ error: 'Organisation not found' });
+    return undefined;
+  }
+
+  const member = await OrganisationMemberModel.find(organisation.id, req.user!.id);
+  if (!member || !roles.includes(member.role)) {
+    res.status(403).json({ error: 'Not authorized' });
+    return undefined;
+  }
+
+  return { organisation, member };
+}
+
+/**
+ * The cohort, if it belongs to the organisation - otherwise sends the error
+ */
+async function findCohort(req: AuthenticatedRequest, res: Response, organisationId: string): Promise<Cohort | undefined> {
+  const cohort = await CohortModel.findById(req.params.cohortId);
+  if (!cohort || cohort.organisation_id !== organisationId) {
+    res.status(404).json({ error: 'Cohort not found' });
+    return undefined;
+  }
+
+  return cohort;
+}
+
+// GET /organisations - List the organisations the user belongs to
+router.get('/', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const organisations = await OrganisationModel.findByUserId(req.user!.id);
+    res.json({ organisations });
+  } catch (error) {
+    console.error('List organisations error:', error);
+    res.status(500).json({ error: 'Failed to list organisations' });
+  }
+});
+
+// POST /organisations - Create an organisation, with the caller as admin
+router.post('/', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validation = organisationSchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const adminOf = (await OrganisationModel.findByUserId(req.user!.id)).filter(o => o.role === 'admin');
+    if (adminOf.length >= MAX_ORGANISATIONS_PER_USER) {
+      res.status(409).json({ error: `You can run up to ${MAX_ORGANISATIONS_PER_USER} organisations` });
+      return;
+    }
+
+    const organisation = await OrganisationModel.create(req.user!.id, validation.data.name);
+    res.status(201).json({ organisation });
+  } catch (error) {
+    console.error('Create organisation error:', error);
+    res.status(500).json({ error: 'Failed to create organisation' });
+  }
+});
+
+// POST /organisations/join - Join with an invite code
+router.post('/join', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validation = joinSchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const result = await organisationService.join(req.user!.id, validation.data.code);
+    if ('error' in result) {
+      res.status(result.status).json({ error: result.error, code: result.code });
+      return;
+    }
+
+    res.status(result.joined ? 201 : 200).json(result);
+  } catch (error) {
+    console.error('Join organisation error:', error);
+    res.status(500).json({ error: 'Failed to join organisation' });
+  }
+});
+
+// GET /organisations/:id - Get an organisation with its cohorts and seats
+router.get('/:id', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const membership = await requireMembership(req, res);
+    if (!membership) return;
+
+    const { organisation, member } = membership;
+    const isStaff = STAFF.includes(member.role);
+
+    // Learners only see their own cohorts
+    const cohorts: Cohort[] = [];
+    for (const cohort of await CohortModel.findByOrganisationId(organisation.id)) {
+      if (isStaff || await CohortMemberModel.isMember(cohort.id, req.user!.id)) cohorts.push(cohort);
+    }
+
+    res.json({
+      organisation,
+      role: member.role,
+      has_seat: member.has_seat === 1,
+      cohorts,
+      seats: isStaff ? await organisationService.getSeatStatus(organisation.id) : undefined,
+    });
+  } catch (error) {
+    console.error('Get organisation error:', error);
+    res.status(500).json({ error: 'Failed to get organisation' });
+  }
+});
+
+// PATCH /organisations/:id - Rename an organisation
+router.patch('/:id', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validation = organisationSchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const membership = await requireMembership(req, res, ['admin']);
+    if (!membership) return;
+
+    const organisation = await OrganisationModel.update(membership.organisation.id, validation.data.name);
+    res.json({ organisation });
+  } catch (error) {
+    console.error('Update organisation error:', error);
+    res.status(500).json({ error: 'Failed to update organisation' });
+  }
+});
+
+// DELETE /organisations/:id - Delete an organisation with its cohorts and invites
+router.delete('/:id', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const membership = await requireMembership(req, res, ['admin']);
+    if (!membership) return;
+
+    if ((await organisationService.getSeatStatus(membership.organisation.id)).subscription) {
+      res.status(409).json({ error: 'Cancel the organisation subscription before deleting it' });
+      return;
+    }
+
+    await OrganisationModel.delete(membership.organisation.id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete organisation error:', error);
+    res.status(500).json({ error: 'Failed to delete organisation' });
+  }
+});
+
+// GET /organisations/:id/members - List members with their roles and seats
+router.get('/:id/members', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const membership = await requireMembership(req, res, STAFF);
+    if (!membership) return;
+
+    const members = await OrganisationMemberModel.findByOrganisationId(membership.organisation.id);
+    res.json({ members });
+  } catch (error) {
+    console.error('List members error:', error);
+    res.status(500).json({ error: 'Failed to list members' });
+  }
+});
+
+// PATCH /organisations/:id/members/:userId - Change a member's role or seat
+router.patch('/:id/members/:userId', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validation = updateMemberSchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const membership = await requireMembership(req, res, ['admin']);
+    if (!membership) return;
+
+    const organisationId = membership.organisation.id;
+    const target = await OrganisationMemberModel.find(organisationId, req.params.userId);
+    if (!target) {
+      res.status(404).json({ error: 'Member not found' });
+      return;
+    }
+
+    const { role, has_seat } = validation.data;
+
+    if (role && role !== 'admin' && target.role === 'admin' &&
+        await OrganisationMemberModel.countByRole(organisationId, 'admin') <= 1) {
+      res.status(409).json({ error: 'An organisation needs at least one admin' });
+      return;
+    }
+
+    if (has_seat && !target.has_seat && (await organisationService.getSeatStatus(organisationId)).available <= 0) {
+      res.status(409).json({ error: 'No seats available', code: 'NO_SEATS_AVAILABLE' });
+      return;
+    }
+
+    const member = await OrganisationMemberModel.update(organisationId, target.user_id, { role, has_seat });
+
+    res.json({ member });
+  } catch (error) {
+    console.error('Update member error:', error);
+    res.status(500).json({ error: 'Failed to update member' });
+  }
+});
+
+// DELETE /organisations/:id/members/:userId - Remove a member (or leave)
+router.delete('/:id/members/:userId', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const isSelf = req.params.userId === req.user!.id;
+    const membership = await requireMembership(req, res, isSelf ? ORGANISATION_ROLES : ['admin']);
+    if (!membership) return;
+
+    const organisationId = membership.organisation.id;
+    const target = await OrganisationMemberModel.find(organisationId, req.params.userId);
+    if (!target) {
+      res.status(404).json({ error: 'Member not found' });
+      return;
+    }
+
+    if (target.role === 'admin' && await OrganisationMemberModel.countByRole(organisationId, 'admin') <= 1) {
+      res.status(409).json({ error: 'An organisation needs at least one admin' });
+      return;
+    }
+
+    await OrganisationMemberModel.remove(organisationId, target.user_id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Remove member error:', error);
+    res.status(500).json({ error: 'Failed to remove member' });
+  }
+});
+
+// GET /organisations/:id/invites - List invite codes
+router.get('/:id/invites', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const membership = await requireMembership(req, res, STAFF);
+    if (!membership) return;
+
+    const invites = await OrganisationInviteModel.findByOrganisationId(membership.organisation.id);
+    res.json({ invites });
+  } catch (error) {
+    console.error('List invites error:', error);
+    res.status(500).json({ error: 'Failed to list invites' });
+  }
+});
+
+// POST /organisations/:id/invites - Create an invite code
+router.post('/:id/invites', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validation = inviteSchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const membership = await requireMembership(req, res, STAFF);
+    if (!membership) return;
+
+    const { role, cohort_id, max_uses, expires_in_days } = validation.data;
+
+    // Teachers can only invite learners
+    if (role !== 'learner' && membership.member.role !== 'admin') {
+      res.status(403).json({ error: 'Only admins can invite teachers and admins' });
+      return;
+    }
+
+    if (cohort_id) {
+      const cohort = await CohortModel.findById(cohort_id);
+      if (!cohort || cohort.organisation_id !== membership.organisation.id) {
+        res.status(404).json({ error: 'Cohort not found' });
+        return;
+      }
+    }
+
+    const invite = await OrganisationInviteModel.create(membership.organisation.id, req.user!.id, {
+      role,
+      cohort_id,
+      max_uses,
+      expires_at: expires_in_days
+        ? new Date(Date.now() + expires_in_days * 24 * 60 * 60 * 1000).toISOString()
+        : null,
+    });
+
+    res.status(201).json({ invite });
+  } catch (error) {
+    console.error('Create invite error:', error);
+    res.status(500).json({ error: 'Failed to create invite' });
+  }
+});
+
+// DELETE /organisations/:id/invites/:inviteId - Revoke an invite code
+router.delete('/:id/invites/:inviteId', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const membership = await requireMembership(req, res, STAFF);
+    if (!membership) return;
+
+    const invite = await OrganisationInviteModel.findById(req.params.inviteId);
+    if (!invite || invite.organisation_id !== membership.organisation.id) {
+      res.status(404).json({ error: 'Invite not found' });
+      return;
+    }
+
+    await OrganisationInviteModel.delete(invite.id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete invite error:', error);
+    res.status(500).json({ error: 'Failed to delete invite' });
+  }
+});
+
+// POST /organisations/:id/cohorts - Create a cohort
+router.post('/:id/cohorts', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validation = cohortSchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const membership = await requireMembership(req, res, STAFF);
+    if (!membership) return;
+
+    const organisationId = membership.organisation.id;
+    if ((await CohortModel.findByOrganisationId(organisationId)).length >= MAX_COHORTS_PER_ORGANISATION) {
+      res.status(409).json({ error: `An organisation can have up to ${MAX_COHORTS_PER_ORGANISATION} cohorts` });
+      return;
+    }
+
+    const cohort = await CohortModel.create(organisationId, validation.data);
+    // The teacher who creates a cohort joins it
+    await CohortMemberModel.add(cohort.id, req.user!.id);
+
+    res.status(201).json({ cohort });
+  } catch (error) {
+    console.error('Create cohort error:', error);
+    res.status(500).json({ error: 'Failed to create cohort' });
+  }
+});
+
+// GET /organisations/:id/cohorts/:cohortId - Get a cohort and its members
+router.get('/:id/cohorts/:cohortId', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const membership = await requireMembership(req, res, STAFF);
+    if (!membership) return;
+
+    const cohort = await findCohort(req, res, membership.organisation.id);
+    if (!cohort) return;
+
+    res.json({ cohort, members: await CohortMemberModel.findByCohortId(cohort.id) });
+  } catch (error) {
+    console.error('Get cohort error:', error);
+    res.status(500).json({ error: 'Failed to get cohort' });
+  }
+});
+
+// PATCH /organisations/:id/cohorts/:cohortId - Update a cohort
+router.patch('/:id/cohorts/:cohortId', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validation = updateCohortSchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const membership = await requireMembership(req, res, STAFF);
+    if (!membership) return;
+
+    const cohort = await findCohort(req, res, membership.organisation.id);
+    if (!cohort) return;
+
+    const updated = await CohortModel.update(cohort.id, {
+      name: validation.data.name ?? cohort.name,
+      description: validation.data.description !== undefined ? validation.data.description : cohort.description,
+    });
+
+    res.json({ cohort: updated });
+  } catch (error) {
+    console.error('Update cohort error:', error);
+    res.status(500).json({ error: 'Failed to update cohort' });
+  }
+});
+
+// DELETE /organisations/:id/cohorts/:cohortId - Delete a cohort (members stay in the organisation)
+router.delete('/:id/cohorts/:cohortId', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const membership = await requireMembership(req, res, STAFF);
+    if (!membership) return;
+
+    const cohort = await findCohort(req, res, membership.organisation.id);
+    if (!cohort) return;
+
+    await CohortModel.delete(cohort.id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete cohort error:', error);
+    res.status(500).json({ error: 'Failed to delete cohort' });
+  }
+});
+
+// POST /organisations/:id/cohorts/:cohortId/members - Add an organisation member to a cohort
+router.post('/:id/cohorts/:cohortId/members', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validation = cohortMemberSchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const membership = await requireMembership(req, res, STAFF);
+    if (!membership) return;
+
+    const cohort = await findCohort(req, res, membership.organisation.id);
+    if (!cohort) return;
+
+    if (!(await OrganisationMemberModel.find(membership.organisation.id, validation.data.user_id))) {
+      res.status(404).json({ error: 'Member not found' });
+      return;
+    }
+
+    await CohortMemberModel.add(cohort.id, validation.data.user_id);
+    res.status(201).json({ members: await CohortMemberModel.findByCohortId(cohort.id) });
+  } catch (error) {
+    console.error('Add cohort member error:', error);
+    res.status(500).json({ error: 'Failed to add cohort member' });
+  }
+});
+
+// DELETE /organisations/:id/cohorts/:cohortId/members/:userId - Remove a member from a cohort
+router.delete('/:id/cohorts/:cohortId/members/:userId', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const membership = await requireMembership(req, res, STAFF);
+    if (!membership) return;
+
+    const cohort = await findCohort(req, res, membership.organisation.id);
+    if (!cohort) return;
+
+    await CohortMemberModel.remove(cohort.id, req.params.userId);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Remove cohort member error:', error);
+    res.status(500).json({ error: 'Failed to remove cohort member' });
+  }
+});
+
+// GET /organisations/:id/cohorts/:cohortId/dashboard - Learner practice, usage and scores
+router.get('/:id/cohorts/:cohortId/dashboard', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const membership = await requireMembership(req, res, STAFF);
+    if (!membership) return;
+
+    const cohort = await findCohort(req, res, membership.organisation.id);
+    if (!cohort) return;
+
+    const days = Math.min(365, Math.max(1, parseInt(req.query.days as string) || DEFAULT_DASHBOARD_DAYS));
+    res.json(await cohortDashboardService.getDashboard(cohort, days));
+  } catch (error) {
+    console.error('Cohort dashboard error:', error);
+    res.status(500).json({ error: 'Failed to get cohort dashboard' });
+  }
+});
+
+// POST /organisations/:id/billing/checkout - Buy seats for the organisation
+router.post('/:id/billing/checkout', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validation = checkoutSchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const membership = await requireMembership(req, res, ['admin']);
+    if (!membership) return;
+
+    const { plan, seats } = validation.data;
+    const session = await StripeService.createOrganisationCheckoutSession(
+      req.user!.id,
+      membership.organisation.id,
+      plan,
+      seats,
+      `${FRONTEND_URL}/subscription/success`,
+      `${FRONTEND_URL}/subscription/cancel`
+    );
+
+    res.json({ url: session.url });
+  } catch (error) {
+    console.error('Organisation checkout error:', error);
+    res.status(500).json({ error: 'Failed to create checkout session' });
+  }
+});
+
+export default router;
@@ -0,0 +1,222 @@
+import { Router, Response } from 'express';
+import { authenticate, AuthenticatedRequest } from '../middleware/auth.js';
+import { PhraseList, PhraseListModel, PhraseListItemModel } from '../models/PhraseList.js';
+import { z } from 'zod';
+
+const router = Router();
+
+const MAX_LISTS_PER_USER = 50;
+const MAX_PHRASES_PER_LIST = 200;
+
+const phraseSchema = z.object({
+  text: z.string().trim().min(1).max(200),
+  // Pronunciation guide, e.g. "no WUH-rees, mayt"
+  hint: z.string().trim().max(200).nullable().optional(),
+});
+
+const createListSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).nullable().optional(),
+  phrases: z.array(phraseSchema).max(MAX_PHRASES_PER_LIST).optional(),
+});
+
+const updateListSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  description: z.string().trim().max(500).nullable().optional(),
+});
+
+const updatePhraseSchema = phraseSchema.partial();
+
+/**
+ * The phrase list, if it exists and belongs to the user - otherwise sends
+ * the error
+ */
+async function findOwnedList(req: AuthenticatedRequest, res: Response): Promise<PhraseList | undefined> {
+  const list = await PhraseListModel.findById(req.params.id);
+  if (!list) {
+    res.status(404).json({ error: 'Phrase list not found' });
+    return undefined;
+  }
+
+  if (list.user_id !== req.user!.id) {
+    res.status(403).json({ error: 'Not authorized' });
+    return undefined;
+  }
+
+  return list;
+}
+
+// GET /phrase-lists - List the user's phrase lists
+router.get('/', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const lists = await PhraseListModel.findByUserId(req.user!.id);
+    res.json({ phrase_lists: lists });
+  } catch (error) {
+    console.error('List phrase lists error:', error);
+    res.status(500).json({ error: 'Failed to list phrase lists' });
+  }
+});
+
+// POST /phrase-lists - Create a phrase list, optionally with its phrases
+router.post('/', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validation = createListSchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    if (await PhraseListModel.countByUserId(req.user!.id) >= MAX_LISTS_PER_USER) {
+      res.status(409).json({ error: `You can have up to ${MAX_LISTS_PER_USER} phrase lists` });
+      return;
+    }
+
+    const { phrases, ...input } = validation.data;
+    const list = await PhraseListModel.create(req.user!.id, input);
+    const createdPhrases = phrases ? await PhraseListItemModel.createMany(list.id, phrases) : [];
+
+    res.status(201).json({ phrase_list: await PhraseListModel.findById(list.id), phrases: createdPhrases });
+  } catch (error) {
+    console.error('Create phrase list error:', error);
+    res.status(500).json({ error: 'Failed to create phrase list' });
+  }
+});
+
+// GET /phrase-lists/:id - Get a phrase list with its phrases
+router.get('/:id', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const list = await findOwnedList(req, res);
+    if (!list) return;
+
+    res.json({ phrase_list: list, phrases: await PhraseListItemModel.findByListId(list.id) });
+  } catch (error) {
+    console.error('Get phrase list error:', error);
+    res.status(500).json({ error: 'Failed to get phrase list' });
+  }
+});
+
+// PATCH /phrase-lists/:id - Rename a phrase list or change its description
+router.patch('/:id', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validation = updateListSchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const list = await findOwnedList(req, res);
+    if (!list) return;
+
+    const updated = await PhraseListModel.update(list.id, {
+      name: validation.data.name ?? list.name,
+      description: validation.data.description !== undefined ? validation.data.description : list.description,
+    });
+
+    res.json({ phrase_list: updated });
+  } catch (error) {
+    console.error('Update phrase list error:', error);
+    res.status(500).json({ error: 'Failed to update phrase list' });
+  }
+});
+
+// DELETE /phrase-lists/:id - Delete a phrase list and its phrases
+router.delete('/:id', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const list = await findOwnedList(req, res);
+    if (!list) return;
+
+    await PhraseListModel.delete(list.id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete phrase list error:', error);
+    res.status(500).json({ error: 'Failed to delete phrase list' });
+  }
+});
+
+// POST /phrase-lists/:id/phrases - Add a phrase to a list
+router.post('/:id/phrases', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validation = phraseSchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const list = await findOwnedList(req, res);
+    if (!list) return;
+
+    if (await PhraseListItemModel.countByListId(list.id) >= MAX_PHRASES_PER_LIST) {
+      res.status(409).json({ error: `A phrase list can have up to ${MAX_PHRASES_PER_LIST} phrases` });
+      return;
+    }
+
+    const phrase = await PhraseListItemModel.create(list.id, validation.data);
+    res.status(201).json({ phrase });
+  } catch (error) {
+    console.error('Add phrase error:', error);
+    res.status(500).json({ error: 'Failed to add phrase' });
+  }
+});
+
+// PATCH /phrase-lists/:id/phrases/:phraseId - Edit a phrase
+router.patch('/:id/phrases/:phraseId', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validation = updatePhraseSchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const list = await findOwnedList(req, res);
+    if (!list) return;
+
+    const phrase = await PhraseListItemModel.findById(req.params.phraseId);
+    if (!phrase || phrase.list_id !== list.id) {
+      res.status(404).json({ error: 'Phrase not found' });
+      return;
+    }
+
+    const updated = await PhraseListItemModel.update(phrase.id, {
+      text: validation.data.text ?? phrase.text,
+      hint: validation.data.hint !== undefined ? validation.data.hint : phrase.hint,
+    });
+    res.json({ phrase: updated });
+  } catch (error) {
+    console.error('Update phrase error:', error);
+    res.status(500).json({ error: 'Failed to update phrase' });
+  }
+});
+
+// DELETE /phrase-lists/:id/phrases/:phraseId - Remove a phrase
+router.delete('/:id/phrases/:phraseId', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const list = await findOwnedList(req, res);
+    if (!list) return;
+
+    const phrase = await PhraseListItemModel.findById(req.params.phraseId);
+    if (!phrase || phrase.list_id !== list.id) {
+      res.status(404).json({ error: 'Phrase not found' });
+      return;
+    }
+
+    await PhraseListItemModel.delete(phrase.id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete phrase error:', error);
+    res.status(500).json({ error: 'Failed to delete phrase' });
+  }
+});
+
+export default router;
@@ -0,0 +1,99 @@
+import { Router, Response } from 'express';
+import { authenticate, AuthenticatedRequest } from '../middleware/auth.js';
+import { ProgressDocument, ProgressDocumentModel } from '../models/Progress.js';
+import { progressSyncService } from '../services/progressSyncService.js';
+import { z } from 'zod';
+
+const router = Router();
+
+const saveDocumentSchema = z.object({
+  data: z.union([z.record(z.unknown()), z.array(z.unknown())]),
+  // Version the client's copy was based on (0 for data never synced)
+  base_version: z.number().int().min(0),
+  // Replace the document and stop stale copies being merged back in
+  reset: z.boolean().optional().default(false),
+});
+
+function toResponse(document: ProgressDocument) {
+  return {
+    key: document.doc_key,
+    data: document.data,
+    version: document.version,
+    updated_at: document.updated_at,
+  };
+}
+
+// GET /progress - Get all synced progress documents
+router.get('/', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const documents = await ProgressDocumentModel.findByUserId(req.user!.id);
+    res.json({ documents: documents.map(toResponse) });
+  } catch (error) {
+    console.error('Get progress error:', error);
+    res.status(500).json({ error: 'Failed to get progress' });
+  }
+});
+
+// GET /progress/:key - Get a single progress document
+router.get('/:key', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { key } = req.params;
+    if (!progressSyncService.isDocumentKey(key)) {
+      res.status(404).json({ error: 'Unknown progress document' });
+      return;
+    }
+
+    const document = await ProgressDocumentModel.findByKey(req.user!.id, key);
+    if (!document) {
+      res.status(404).json({ error: 'Progress document not found' });
+      return;
+    }
+
+    res.json(toResponse(document));
+  } catch (error) {
+    console.error('Get progress document error:', error);
+    res.status(500).json({ error: 'Failed to get progress document' });
+  }
+});
+
+// PUT /progress/:key - Save a progress document, merging stale writes that
+// are not from before a reset
+router.put('/:key', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { key } = req.params;
+    if (!progressSyncService.isDocumentKey(key)) {
+      res.status(404).json({ error: 'Unknown progress document' });
+      return;
+    }
+
+    const validation = saveDocumentSchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const { data, base_version, reset } = validation.data;
+    const result = await progressSyncService.save(req.user!.id, key, data, base_version, reset);
+    if ('error' in result) {
+      res.status(result.status).json({
+        error: result.error,
+        code: result.code,
+        document: result.current && toResponse(result.current),
+      });
+      return;
+    }
+
+    res.json({
+      ...toResponse(result.document),
+      merged: result.merged,
+    });
+  } catch (error) {
+    console.error('Save progress document error:', error);
+    res.status(500).json({ error: 'Failed to save progress document' });
+  }
+});
+
+export default router;
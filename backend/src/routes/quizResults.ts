@@ -0,0 +1,52 @@
+import { Router, Response } from 'express';
+import { authenticate, AuthenticatedRequest } from '../middleware/auth.js';
+import { QuizResultModel } from '../models/QuizResult.js';
+import { SLANG_CATEGORIES, SLANG_DIFFICULTIES } from '../models/Deck.js';
+import { z } from 'zod';
+
+const router = Router();
+
+const quizResultSchema = z.object({
+  category: z.enum(SLANG_CATEGORIES).nullable().optional(),
+  difficulty: z.enum(SLANG_DIFFICULTIES).nullable().optional(),
+  deck_id: z.string().min(1).nullable().optional(),
+  question_count: z.number().int().min(1).max(100),
+  correct_count: z.number().int().min(0),
+}).refine(result => result.correct_count <= result.question_count, {
+  message: 'correct_count cannot exceed question_count',
+  path: ['correct_count'],
+});
+
+// POST /quiz-results - Record a finished slang quiz
+router.post('/', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validation = quizResultSchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const result = await QuizResultModel.create(req.user!.id, validation.data);
+    res.status(201).json({ result });
+  } catch (error) {
+    console.error('Record quiz result error:', error);
+    res.status(500).json({ error: 'Failed to record quiz result' });
+  }
+});
+
+// GET /quiz-results - The user's recent quiz results
+router.get('/', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const results = await QuizResultModel.getRecent(req.user!.id, limit);
+    res.json({ results });
+  } catch (error) {
+    console.error('List quiz results error:', error);
+    res.status(500).json({ error: 'Failed to list quiz results' });
+  }
+});
+
+export default router;
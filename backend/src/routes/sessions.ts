@@ -1,22 +1,49 @@
-import { Router, Response } from 'express';
+import { Router, Response, Request } from 'express';
+import rateLimit from 'express-rate-limit';
 import { authenticate, AuthenticatedRequest } from '../middleware/auth.js';
 import { checkUsageLimits, getUsageStatus } from '../middleware/usageLimits.js';
 import { SessionModel } from '../models/Usage.js';
+import { SubscriptionModel } from '../models/Subscription.js';
+import { ConversationTurnModel } from '../models/Conversation.js';
+import { SessionReportModel } from '../models/SessionReport.js';
+import { feedbackReportService } from '../services/feedbackReportService.js';
+import { getScenarioById } from '../data/scenarios.js';
 import { z } from 'zod';
 
 const router = Router();
 
+// One heartbeat every 30 seconds, with room for retries. Counted per user
+// rather than per IP, so learners sharing an office or campus address don't
+// use up each other's allowance.
+const heartbeatLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 10,
+  keyGenerator: (req: Request) => (req as AuthenticatedRequest).user!.id,
+  message: { error: 'Too many requests, please try again later' },
+});
+
 const startSessionSchema = z.object({
   mode: z.enum(['everyday', 'slang', 'workplace']).optional(),
+  scenario_id: z.string().min(1).optional(),
 });
 
 const endSessionSchema = z.object({
   feedback: z.boolean().optional(),
   messages_count: z.number().optional(),
+  // Transcript recorded on the client, for conversations the backend did not run
+  transcript: z.array(z.object({
+    role: z.enum(['user', 'assistant']),
+    content: z.string().min(1).max(5000),
+  })).max(500).optional(),
+});
+
+const reportSchema = z.object({
+  // Write a new report even though the session already has one
+  regenerate: z.boolean().optional(),
 });
 
 // POST /sessions/start - Start a new practice session
-router.post('/start', authenticate, checkUsageLimits, (req: AuthenticatedRequest, res: Response) => {
+router.post('/start', authenticate, checkUsageLimits, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const validation = startSessionSchema.safeParse(req.body);
     if (!validation.success) {
@@ -28,7 +55,7 @@ router.post('/start', authenticate, checkUsageLimits, (req: AuthenticatedRequest
     }
 
     // Check if there's already an active session
-    const activeSession = SessionModel.getActiveSession(req.user!.id);
+    const activeSession = await SessionModel.getActiveSession(req.user!.id);
     if (activeSession) {
       res.status(409).json({
         error: 'Active session already exists',
@@ -37,8 +64,13 @@ router.post('/start', authenticate, checkUsageLimits, (req: AuthenticatedRequest
       return;
     }
 
-    const { mode } = validation.data;
-    const session = SessionModel.create(req.user!.id, mode);
+    const { mode, scenario_id } = validation.data;
+    if (scenario_id && !getScenarioById(scenario_id)) {
+      res.status(400).json({ error: 'Unknown scenario' });
+      return;
+    }
+
+    const session = await SessionModel.create(req.user!.id, mode, scenario_id);
     const usageInfo = (req as any).usageInfo;
 
     res.status(201).json({
@@ -52,7 +84,7 @@ router.post('/start', authenticate, checkUsageLimits, (req: AuthenticatedRequest
 });
 
 // POST /sessions/:id/end - End a practice session
-router.post('/:id/end', authenticate, (req: AuthenticatedRequest, res: Response) => {
+router.post('/:id/end', authenticate, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { id } = req.params;
     const validation = endSessionSchema.safeParse(req.body);
@@ -64,7 +96,7 @@ router.post('/:id/end', authenticate, (req: AuthenticatedRequest, res: Response)
       return;
     }
 
-    const session = SessionModel.findById(id);
+    const session = await SessionModel.findById(id);
     if (!session) {
       res.status(404).json({ error: 'Session not found' });
       return;
@@ -75,19 +107,23 @@ router.post('/:id/end', authenticate, (req: AuthenticatedRequest, res: Response)
       return;
     }
 
-    if (session.ended_at) {
-      res.status(400).json({ error: 'Session already ended' });
-      return;
-    }
-
-    const { feedback, messages_count } = validation.data;
+    // The server may already have closed the session (limit reached or
+    // abandoned), but the client's transcript and feedback are still recorded
+    const { feedback, messages_count, transcript } = validation.data;
 
     if (messages_count !== undefined) {
-      SessionModel.updateMessageCount(id, messages_count);
+      await SessionModel.updateMessageCount(id, messages_count);
     }
 
-    const endedSession = SessionModel.end(id, feedback);
-    const usageStatus = getUsageStatus(req.user!.id);
+    // Keep the server-side transcript if the backend ran the conversation
+    if (transcript && (await ConversationTurnModel.findByPracticeSessionId(id)).length === 0) {
+      for (const message of transcript) {
+        await ConversationTurnModel.append(id, message.role, message.content);
+      }
+    }
+
+    const endedSession = await SessionModel.end(id, feedback);
+    const usageStatus = await getUsageStatus(req.user!.id);
 
     res.json({
       session: endedSession,
@@ -99,10 +135,56 @@ router.post('/:id/end', authenticate, (req: AuthenticatedRequest, res: Response)
   }
 });
 
+// POST /sessions/:id/heartbeat - Record elapsed time of a live session
+router.post('/:id/heartbeat', authenticate, heartbeatLimiter, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const session = await SessionModel.findById(id);
+    if (!session) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    if (session.user_id !== req.user!.id) {
+      res.status(403).json({ error: 'Not authorized' });
+      return;
+    }
+
+    const current = await SessionModel.closeIfStale(session);
+    if (current.ended_at) {
+      res.status(409).json({
+        error: 'Session already ended',
+        code: 'SESSION_ENDED',
+        session: current,
+        usage: await getUsageStatus(req.user!.id),
+      });
+      return;
+    }
+
+    let updatedSession = (await SessionModel.recordActivity(id))!;
+    const usageStatus = await getUsageStatus(req.user!.id);
+
+    // Out of time - end the session here so the client cannot keep going
+    const limitReached = usageStatus.remaining_minutes <= 0;
+    if (limitReached) {
+      updatedSession = (await SessionModel.end(id))!;
+    }
+
+    res.json({
+      session: updatedSession,
+      usage: usageStatus,
+      limit_reached: limitReached,
+    });
+  } catch (error) {
+    console.error('Session heartbeat error:', error);
+    res.status(500).json({ error: 'Failed to record session heartbeat' });
+  }
+});
+
 // GET /sessions/active - Get current active session
-router.get('/active', authenticate, (req: AuthenticatedRequest, res: Response) => {
+router.get('/active', authenticate, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const activeSession = SessionModel.getActiveSession(req.user!.id);
+    const activeSession = await SessionModel.getActiveSession(req.user!.id);
     res.json({ session: activeSession || null });
   } catch (error) {
     console.error('Get active session error:', error);
@@ -111,10 +193,10 @@ router.get('/active', authenticate, (req: AuthenticatedRequest, res: Response) =
 });
 
 // GET /sessions/history - Get session history
-router.get('/history', authenticate, (req: AuthenticatedRequest, res: Response) => {
+router.get('/history', authenticate, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const limit = parseInt(req.query.limit as string) || 10;
-    const sessions = SessionModel.getRecentSessions(req.user!.id, limit);
+    const sessions = await SessionModel.getRecentSessions(req.user!.id, limit);
     res.json({ sessions });
   } catch (error) {
     console.error('Get session history error:', error);
@@ -122,4 +204,123 @@ router.get('/history', authenticate, (req: AuthenticatedRequest, res: Response)
   }
 });
 
+// GET /sessions/:id/transcript - Get the conversation transcript of a session
+router.get('/:id/transcript', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const session = await SessionModel.findById(id);
+    if (!session) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    if (session.user_id !== req.user!.id) {
+      res.status(403).json({ error: 'Not authorized' });
+      return;
+    }
+
+    const turns = await ConversationTurnModel.findByPracticeSessionId(id);
+
+    res.json({
+      session,
+      transcript: turns.map(turn => ({
+        index: turn.turn_index,
+        role: turn.role,
+        content: turn.content,
+        emotion: turn.emotion,
+        created_at: turn.created_at,
+      })),
+    });
+  } catch (error) {
+    console.error('Get transcript error:', error);
+    res.status(500).json({ error: 'Failed to get transcript' });
+  }
+});
+
+// POST /sessions/:id/report - Generate an AI feedback report from the session transcript
+router.post('/:id/report', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validation = reportSchema.safeParse(req.body ?? {});
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const { id } = req.params;
+
+    const session = await SessionModel.findById(id);
+    if (!session) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    if (session.user_id !== req.user!.id) {
+      res.status(403).json({ error: 'Not authorized' });
+      return;
+    }
+
+    const result = await feedbackReportService.reportForSession(
+      session,
+      await SubscriptionModel.getEffectivePlan(req.user!.id),
+      validation.data.regenerate
+    );
+    if ('error' in result) {
+      const { status, ...body } = result;
+      if (body.retry_after_seconds) {
+        res.set('Retry-After', String(body.retry_after_seconds));
+      }
+      res.status(status).json(body);
+      return;
+    }
+
+    res.status(result.generated ? 201 : 200).json({
+      report: result.stored.report,
+      session_id: id,
+      scenario_id: session.scenario_id,
+      generated_at: result.stored.updated_at,
+    });
+  } catch (error) {
+    console.error('Generate report error:', error);
+    res.status(500).json({ error: 'Failed to generate report' });
+  }
+});
+
+// GET /sessions/:id/report - Get a previously generated feedback report
+router.get('/:id/report', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const session = await SessionModel.findById(id);
+    if (!session) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    if (session.user_id !== req.user!.id) {
+      res.status(403).json({ error: 'Not authorized' });
+      return;
+    }
+
+    const stored = await SessionReportModel.findBySessionId(id);
+    if (!stored) {
+      res.status(404).json({ error: 'Report not found' });
+      return;
+    }
+
+    res.json({
+      report: stored.report,
+      session_id: id,
+      scenario_id: session.scenario_id,
+      generated_at: stored.updated_at,
+    });
+  } catch (error) {
+    console.error('Get report error:', error);
+    res.status(500).json({ error: 'Failed to get report' });
+  }
+});
+
 export default router;
@@ -7,9 +7,9 @@ import { getUsageStatus } from '../middleware/usageLimits.js';
 const router = Router();
 
 // GET /subscriptions/plans - Get available plans
-router.get('/plans', (_req, res: Response) => {
+router.get('/plans', async (_req, res: Response) => {
   try {
-    const plans = SubscriptionModel.getPlanLimits();
+    const plans = await SubscriptionModel.getPlanLimits();
     res.json({ plans });
   } catch (error) {
     console.error('Get plans error:', error);
@@ -18,10 +18,10 @@ router.get('/plans', (_req, res: Response) => {
 });
 
 // GET /subscriptions/current - Get current subscription
-router.get('/current', authenticate, (req: AuthenticatedRequest, res: Response) => {
+router.get('/current', authenticate, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const subscription = SubscriptionModel.findByUserId(req.user!.id);
-    const usageStatus = getUsageStatus(req.user!.id);
+    const subscription = await SubscriptionModel.findByUserId(req.user!.id);
+    const usageStatus = await getUsageStatus(req.user!.id);
 
     res.json({
       subscription: subscription || {
@@ -37,12 +37,12 @@ router.get('/current', authenticate, (req: AuthenticatedRequest, res: Response)
 });
 
 // GET /subscriptions/usage - Get usage history
-router.get('/usage', authenticate, (req: AuthenticatedRequest, res: Response) => {
+router.get('/usage', authenticate, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const days = parseInt(req.query.days as string) || 30;
-    const history = UsageModel.getUsageHistory(req.user!.id, days);
-    const monthlyTotal = UsageModel.getTotalMinutesThisMonth(req.user!.id);
-    const currentUsage = getUsageStatus(req.user!.id);
+    const history = await UsageModel.getUsageHistory(req.user!.id, days);
+    const monthlyTotal = await UsageModel.getTotalMinutesThisMonth(req.user!.id);
+    const currentUsage = await getUsageStatus(req.user!.id);
 
     res.json({
       current: currentUsage,
@@ -56,9 +56,9 @@ router.get('/usage', authenticate, (req: AuthenticatedRequest, res: Response) =>
 });
 
 // GET /subscriptions/check - Quick check if user can start session
-router.get('/check', authenticate, (req: AuthenticatedRequest, res: Response) => {
+router.get('/check', authenticate, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const status = getUsageStatus(req.user!.id);
+    const status = await getUsageStatus(req.user!.id);
 
     res.json({
       can_start_session: status.allowed,
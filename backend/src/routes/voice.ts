@@ -1,7 +1,12 @@
 import { Router, Response, Request } from 'express';
 import { optionalAuth, AuthenticatedRequest } from '../middleware/auth.js';
-import { fishAudioService, EmotionType } from '../services/fishAudioService.js';
-import { conversationService, PracticeMode } from '../services/conversationService.js';
+import { checkVoiceUsageLimits, VoiceMeteredRequest } from '../middleware/usageLimits.js';
+import { speechService, EMOTION_TYPES } from '../services/speechService.js';
+import { conversationService, ConversationResponse, PracticeMode } from '../services/conversationService.js';
+import { voiceMeteringService } from '../services/voiceMeteringService.js';
+import { pronunciationService } from '../services/pronunciationService.js';
+import { getScenarioById } from '../data/scenarios.js';
+import { decodeWav } from '../utils/wav.js';
 import { z } from 'zod';
 import multer from 'multer';
 
@@ -22,32 +27,74 @@ const transcribeSchema = z.object({
 
 const ttsSchema = z.object({
   text: z.string().min(1).max(5000),
-  emotion: z.enum(['encouraging', 'calm', 'happy', 'empathetic', 'curious', 'excited', 'friendly', 'professional']).optional(),
+  emotion: z.enum(EMOTION_TYPES).optional(),
   format: z.enum(['mp3', 'wav', 'opus']).optional().default('mp3'),
 });
 
 const conversationSchema = z.object({
   sessionId: z.string().min(1),
   mode: z.enum(['everyday', 'slang', 'workplace']),
+  scenarioId: z.string().min(1).optional(),
   userText: z.string().min(1).max(1000),
 });
 
 const startConversationSchema = z.object({
-  sessionId: z.string().min(1),
+  // The caller's practice session; left out for an anonymous conversation
+  sessionId: z.string().min(1).optional(),
   mode: z.enum(['everyday', 'slang', 'workplace']),
+  scenarioId: z.string().min(1).optional(),
+});
+
+const pronunciationSchema = z.object({
+  text: z.string().min(1).max(200),
 });
 
+// Practice phrases take a few seconds to say
+const MAX_PRONUNCIATION_SECONDS = 15;
+
+// Sentence boundary: terminal punctuation followed by whitespace
+const SENTENCE_BOUNDARY = /[.!?]+["')\]]*\s+/g;
+
+/**
+ * Split complete sentences off the front of a text buffer, returning them
+ * along with the unfinished remainder
+ */
+function takeSentences(buffer: string): { sentences: string[]; rest: string } {
+  const sentences: string[] = [];
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  SENTENCE_BOUNDARY.lastIndex = 0;
+  while ((match = SENTENCE_BOUNDARY.exec(buffer)) !== null) {
+    const end = match.index + match[0].length;
+    const sentence = buffer.slice(start, end).trim();
+    if (sentence) sentences.push(sentence);
+    start = end;
+  }
+
+  return { sentences, rest: buffer.slice(start) };
+}
+
+/**
+ * Write a Server-Sent Event to the response
+ */
+function sendEvent(res: Response, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
 // GET /voice/status - Check if voice services are configured
 router.get('/status', (_req: Request, res: Response) => {
   res.json({
-    fishAudio: fishAudioService.isConfigured(),
-    anthropic: conversationService.isConfigured(),
-    ready: fishAudioService.isConfigured() && conversationService.isConfigured(),
+    speech: speechService.isConfigured(),
+    speechProvider: speechService.getProviderName(),
+    tutor: conversationService.isConfigured(),
+    tutorProvider: conversationService.getTutorModelName(),
+    ready: speechService.isConfigured() && conversationService.isConfigured(),
   });
 });
 
-// POST /voice/transcribe - Transcribe audio using Fish Audio ASR
-router.post('/transcribe', optionalAuth, upload.single('audio'), async (req: AuthenticatedRequest, res: Response) => {
+// POST /voice/transcribe - Transcribe audio with the speech provider
+router.post('/transcribe', optionalAuth, upload.single('audio'), checkVoiceUsageLimits, async (req: VoiceMeteredRequest, res: Response) => {
   try {
     if (!req.file) {
       res.status(400).json({ error: 'No audio file provided' });
@@ -64,7 +111,11 @@ router.post('/transcribe', optionalAuth, upload.single('audio'), async (req: Aut
     }
 
     const { language } = validation.data;
-    const result = await fishAudioService.transcribe(req.file.buffer, language);
+    const result = await speechService.transcribe(req.file.buffer, language);
+
+    await voiceMeteringService.record(req.voiceMeter!, 'transcribe', {
+      sttSeconds: voiceMeteringService.estimateAudioSeconds(req.file.buffer),
+    });
 
     res.json({
       text: result.text,
@@ -77,8 +128,8 @@ router.post('/transcribe', optionalAuth, upload.single('audio'), async (req: Aut
   }
 });
 
-// POST /voice/tts - Convert text to speech using Fish Audio TTS
-router.post('/tts', optionalAuth, async (req: AuthenticatedRequest, res: Response) => {
+// POST /voice/tts - Convert text to speech with the speech provider
+router.post('/tts', optionalAuth, checkVoiceUsageLimits, async (req: VoiceMeteredRequest, res: Response) => {
   try {
     const validation = ttsSchema.safeParse(req.body);
     if (!validation.success) {
@@ -91,17 +142,15 @@ router.post('/tts', optionalAuth, async (req: AuthenticatedRequest, res: Respons
 
     const { text, emotion, format } = validation.data;
 
-    // Add emotion marker if specified
-    const processedText = emotion
-      ? fishAudioService.addEmotionMarker(text, emotion as EmotionType)
-      : text;
-
-    const audioBuffer = await fishAudioService.textToSpeech({
-      text: processedText,
+    const audioBuffer = await speechService.synthesize({
+      text,
+      emotion,
       format,
       latency: 'balanced',
     });
 
+    await voiceMeteringService.record(req.voiceMeter!, 'tts', { ttsCharacters: text.length });
+
     // Set appropriate content type
     const contentType = format === 'mp3' ? 'audio/mpeg' :
                         format === 'wav' ? 'audio/wav' :
@@ -120,7 +169,7 @@ router.post('/tts', optionalAuth, async (req: AuthenticatedRequest, res: Respons
 });
 
 // POST /voice/conversation/start - Start a new conversation
-router.post('/conversation/start', optionalAuth, (req: AuthenticatedRequest, res: Response) => {
+router.post('/conversation/start', optionalAuth, checkVoiceUsageLimits, async (req: VoiceMeteredRequest, res: Response) => {
   try {
     const validation = startConversationSchema.safeParse(req.body);
     if (!validation.success) {
@@ -131,13 +180,27 @@ router.post('/conversation/start', optionalAuth, (req: AuthenticatedRequest, res
       return;
     }
 
-    const { sessionId, mode } = validation.data;
-    const firstMessage = conversationService.startConversation(sessionId, mode as PracticeMode);
+    const { mode, scenarioId } = validation.data;
+
+    const scenario = scenarioId ? getScenarioById(scenarioId) : undefined;
+    if (scenarioId && !scenario) {
+      res.status(400).json({ error: 'Unknown scenario' });
+      return;
+    }
+
+    if (validation.data.sessionId && !(await conversationService.canAccess(validation.data.sessionId, req.voiceMeter!.userId))) {
+      res.status(403).json({ error: 'Not authorized' });
+      return;
+    }
+
+    const sessionId = validation.data.sessionId ?? conversationService.newConversationId();
+    const firstMessage = await conversationService.startConversation(sessionId, mode as PracticeMode, scenario);
 
     res.json({
       message: firstMessage,
       sessionId,
       mode,
+      scenarioId: scenario?.id || null,
     });
   } catch (error) {
     console.error('Start conversation error:', error);
@@ -146,7 +209,7 @@ router.post('/conversation/start', optionalAuth, (req: AuthenticatedRequest, res
 });
 
 // POST /voice/conversation - Handle a conversation turn (user speaks, AI responds)
-router.post('/conversation', optionalAuth, async (req: AuthenticatedRequest, res: Response) => {
+router.post('/conversation', optionalAuth, checkVoiceUsageLimits, async (req: VoiceMeteredRequest, res: Response) => {
   try {
     const validation = conversationSchema.safeParse(req.body);
     if (!validation.success) {
@@ -157,18 +220,36 @@ router.post('/conversation', optionalAuth, async (req: AuthenticatedRequest, res
       return;
     }
 
-    const { sessionId, mode, userText } = validation.data;
+    const { sessionId, mode, scenarioId, userText } = validation.data;
+
+    const scenario = scenarioId ? getScenarioById(scenarioId) : undefined;
+    if (scenarioId && !scenario) {
+      res.status(400).json({ error: 'Unknown scenario' });
+      return;
+    }
+
+    if (!(await conversationService.canAccess(sessionId, req.voiceMeter!.userId))) {
+      res.status(403).json({ error: 'Not authorized' });
+      return;
+    }
 
     // Generate AI response using Claude
     const response = await conversationService.generateResponse(
       sessionId,
       userText,
-      mode as PracticeMode
+      mode as PracticeMode,
+      scenario,
+      req.voiceMeter!.userId
     );
 
+    await voiceMeteringService.record(req.voiceMeter!, 'conversation', { llmTurns: 1 });
+
     res.json({
       text: response.text,
       emotion: response.emotion,
+      corrections: response.corrections,
+      vocab: response.vocab,
+      goalsMet: response.goalsMet,
     });
   } catch (error) {
     console.error('Conversation error:', error);
@@ -178,7 +259,7 @@ router.post('/conversation', optionalAuth, async (req: AuthenticatedRequest, res
 
 // POST /voice/conversation/audio - Full conversation turn with audio I/O
 // Accepts user audio, returns AI audio response
-router.post('/conversation/audio', optionalAuth, upload.single('audio'), async (req: AuthenticatedRequest, res: Response) => {
+router.post('/conversation/audio', optionalAuth, upload.single('audio'), checkVoiceUsageLimits, async (req: VoiceMeteredRequest, res: Response) => {
   try {
     if (!req.file) {
       res.status(400).json({ error: 'No audio file provided' });
@@ -187,16 +268,30 @@ router.post('/conversation/audio', optionalAuth, upload.single('audio'), async (
 
     const sessionId = req.body.sessionId;
     const mode = req.body.mode as PracticeMode;
+    const scenarioId = req.body.scenarioId as string | undefined;
 
     if (!sessionId || !mode) {
       res.status(400).json({ error: 'sessionId and mode are required' });
       return;
     }
 
+    const scenario = scenarioId ? getScenarioById(scenarioId) : undefined;
+    if (scenarioId && !scenario) {
+      res.status(400).json({ error: 'Unknown scenario' });
+      return;
+    }
+
+    if (!(await conversationService.canAccess(sessionId, req.voiceMeter!.userId))) {
+      res.status(403).json({ error: 'Not authorized' });
+      return;
+    }
+
     // Step 1: Transcribe user audio
-    const transcription = await fishAudioService.transcribe(req.file.buffer, 'en');
+    const transcription = await speechService.transcribe(req.file.buffer, 'en');
+    const sttSeconds = voiceMeteringService.estimateAudioSeconds(req.file.buffer);
 
     if (!transcription.text || transcription.text.trim() === '') {
+      await voiceMeteringService.record(req.voiceMeter!, 'conversation/audio', { sttSeconds });
       res.status(400).json({ error: 'Could not transcribe audio', userText: '' });
       return;
     }
@@ -205,22 +300,33 @@ router.post('/conversation/audio', optionalAuth, upload.single('audio'), async (
     const aiResponse = await conversationService.generateResponse(
       sessionId,
       transcription.text,
-      mode
+      mode,
+      scenario,
+      req.voiceMeter!.userId
     );
 
     // Step 3: Convert AI response to speech
-    const processedText = fishAudioService.addEmotionMarker(aiResponse.text, aiResponse.emotion);
-    const audioBuffer = await fishAudioService.textToSpeech({
-      text: processedText,
+    const audioBuffer = await speechService.synthesize({
+      text: aiResponse.text,
+      emotion: aiResponse.emotion,
       format: 'mp3',
       latency: 'balanced',
     });
 
+    await voiceMeteringService.record(req.voiceMeter!, 'conversation/audio', {
+      sttSeconds,
+      llmTurns: 1,
+      ttsCharacters: aiResponse.text.length,
+    });
+
     // Return both text and audio
     res.json({
       userText: transcription.text,
       aiText: aiResponse.text,
       emotion: aiResponse.emotion,
+      corrections: aiResponse.corrections,
+      vocab: aiResponse.vocab,
+      goalsMet: aiResponse.goalsMet,
       audio: audioBuffer.toString('base64'),
       audioFormat: 'mp3',
     });
@@ -230,8 +336,229 @@ router.post('/conversation/audio', optionalAuth, upload.single('audio'), async (
   }
 });
 
-// POST /voice/conversation/end - End a conversation and clear history
-router.post('/conversation/end', optionalAuth, (req: AuthenticatedRequest, res: Response) => {
+// POST /voice/conversation/stream - Full conversation turn streamed as Server-Sent Events
+// Emits `transcription`, `text` deltas, sentence-sized `audio` segments and a final `done`
+router.post('/conversation/stream', optionalAuth, upload.single('audio'), checkVoiceUsageLimits, async (req: VoiceMeteredRequest, res: Response) => {
+  if (!req.file) {
+    res.status(400).json({ error: 'No audio file provided' });
+    return;
+  }
+
+  const sessionId = req.body.sessionId;
+  const mode = req.body.mode as PracticeMode;
+  const scenarioId = req.body.scenarioId as string | undefined;
+
+  if (!sessionId || !mode) {
+    res.status(400).json({ error: 'sessionId and mode are required' });
+    return;
+  }
+
+  const scenario = scenarioId ? getScenarioById(scenarioId) : undefined;
+  if (scenarioId && !scenario) {
+    res.status(400).json({ error: 'Unknown scenario' });
+    return;
+  }
+
+  try {
+    if (!(await conversationService.canAccess(sessionId, req.voiceMeter!.userId))) {
+      res.status(403).json({ error: 'Not authorized' });
+      return;
+    }
+  } catch (error) {
+    console.error('Conversation stream error:', error);
+    res.status(500).json({ error: 'Failed to process conversation' });
+    return;
+  }
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  let clientClosed = false;
+  res.on('close', () => {
+    clientClosed = true;
+  });
+
+  try {
+    // Step 1: Transcribe user audio
+    const transcription = await speechService.transcribe(req.file.buffer, 'en');
+    const sttSeconds = voiceMeteringService.estimateAudioSeconds(req.file.buffer);
+
+    if (!transcription.text || transcription.text.trim() === '') {
+      await voiceMeteringService.record(req.voiceMeter!, 'conversation/stream', { sttSeconds });
+      sendEvent(res, 'error', { error: 'Could not transcribe audio', userText: '' });
+      res.end();
+      return;
+    }
+
+    sendEvent(res, 'transcription', { text: transcription.text });
+
+    // Step 2 and 3: Stream the AI response, synthesising each sentence as it completes.
+    // Segments are synthesised one after another so they arrive in order.
+    let segmentIndex = 0;
+    let synthesizedCharacters = 0;
+    let synthesis: Promise<void> = Promise.resolve();
+    let synthesisError: unknown = null;
+
+    const synthesizeSentence = (sentence: string) => {
+      const index = segmentIndex++;
+      synthesis = synthesis.then(async () => {
+        if (clientClosed || synthesisError) return;
+
+        synthesizedCharacters += sentence.length;
+        const emotion = conversationService.detectEmotion(sentence, transcription.text);
+        const chunks: Buffer[] = [];
+        for await (const chunk of speechService.synthesizeStream({
+          text: sentence,
+          emotion,
+          format: 'mp3',
+          latency: 'balanced',
+        })) {
+          if (chunk.audio.length > 0) chunks.push(chunk.audio);
+        }
+
+        if (!clientClosed) {
+          sendEvent(res, 'audio', {
+            index,
+            text: sentence,
+            audio: Buffer.concat(chunks).toString('base64'),
+            audioFormat: 'mp3',
+          });
+        }
+      }).catch((error) => {
+        // Held until the stream finishes so the rejection is never left unhandled
+        synthesisError = error;
+      });
+    };
+
+    let pending = '';
+    let turn: ConversationResponse | null = null;
+
+    for await (const chunk of conversationService.generateResponseStream(
+      sessionId,
+      transcription.text,
+      mode,
+      scenario,
+      req.voiceMeter!.userId
+    )) {
+      if (chunk.done) {
+        turn = chunk.response;
+        break;
+      }
+      if (clientClosed) continue;
+
+      sendEvent(res, 'text', { delta: chunk.text });
+
+      pending += chunk.text;
+      const { sentences, rest } = takeSentences(pending);
+      pending = rest;
+      sentences.forEach(synthesizeSentence);
+    }
+
+    if (pending.trim()) {
+      synthesizeSentence(pending.trim());
+    }
+
+    await synthesis;
+
+    await voiceMeteringService.record(req.voiceMeter!, 'conversation/stream', {
+      sttSeconds,
+      llmTurns: 1,
+      ttsCharacters: synthesizedCharacters,
+    });
+
+    if (synthesisError) {
+      throw synthesisError;
+    }
+
+    if (!clientClosed && turn) {
+      sendEvent(res, 'done', {
+        userText: transcription.text,
+        aiText: turn.text,
+        emotion: turn.emotion,
+        corrections: turn.corrections,
+        vocab: turn.vocab,
+        goalsMet: turn.goalsMet,
+        segments: segmentIndex,
+      });
+    }
+    res.end();
+  } catch (error) {
+    console.error('Conversation stream error:', error);
+    if (!clientClosed) {
+      sendEvent(res, 'error', { error: 'Failed to process conversation' });
+    }
+    res.end();
+  }
+});
+
+// POST /voice/pronunciation - Score a recording of a practice phrase per word and phoneme
+router.post('/pronunciation', optionalAuth, upload.single('audio'), checkVoiceUsageLimits, async (req: VoiceMeteredRequest, res: Response) => {
+  try {
+    if (!req.file) {
+      res.status(400).json({ error: 'No audio file provided' });
+      return;
+    }
+
+    const validation = pronunciationSchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const { text } = validation.data;
+    const lookup = pronunciationService.lookupTarget(text);
+    if ('unknownWords' in lookup) {
+      res.status(400).json({ error: 'Phrase contains unsupported words', unknown_words: lookup.unknownWords });
+      return;
+    }
+
+    const audio = decodeWav(req.file.buffer);
+    if (!audio) {
+      res.status(400).json({ error: 'Audio must be a 16-bit PCM WAV file' });
+      return;
+    }
+
+    const seconds = audio.samples.length / audio.sampleRate;
+    if (seconds > MAX_PRONUNCIATION_SECONDS) {
+      res.status(400).json({ error: `Recording must be at most ${MAX_PRONUNCIATION_SECONDS} seconds` });
+      return;
+    }
+
+    // The transcript only flags missed words, so scoring goes ahead without it
+    let transcript: string | null = null;
+    if (speechService.isConfigured()) {
+      try {
+        transcript = (await speechService.transcribe(req.file.buffer, 'en', 'wav')).text;
+      } catch (error) {
+        console.error('Pronunciation transcription error:', error);
+      }
+    }
+
+    await voiceMeteringService.record(req.voiceMeter!, 'pronunciation', { sttSeconds: seconds });
+
+    const result = pronunciationService.score(text, lookup.target, audio.samples, audio.sampleRate, transcript);
+    if (!result) {
+      res.status(400).json({ error: 'Recording is too short for this phrase' });
+      return;
+    }
+
+    res.json(result);
+  } catch (error) {
+    console.error('Pronunciation scoring error:', error);
+    res.status(500).json({ error: 'Failed to score pronunciation' });
+  }
+});
+
+// POST /voice/conversation/end - End a conversation (transcripts of practice sessions are kept)
+router.post('/conversation/end', optionalAuth, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { sessionId } = req.body;
     if (!sessionId) {
@@ -239,7 +566,12 @@ router.post('/conversation/end', optionalAuth, (req: AuthenticatedRequest, res:
       return;
     }
 
-    conversationService.clearConversation(sessionId);
+    if (!(await conversationService.canAccess(sessionId, req.user?.id ?? null))) {
+      res.status(403).json({ error: 'Not authorized' });
+      return;
+    }
+
+    await conversationService.endConversation(sessionId);
     res.json({ success: true });
   } catch (error) {
     console.error('End conversation error:', error);
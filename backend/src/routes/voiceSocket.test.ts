@@ -0,0 +1,109 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { closeTestDatabase, resetTestDatabase } from '../db/testing.js';
+import { UserModel } from '../models/User.js';
+import { VoiceUsageModel } from '../models/VoiceUsage.js';
+import { authSessionService } from '../services/authSessionService.js';
+import { conversationService } from '../services/conversationService.js';
+import { voiceMeteringService } from '../services/voiceMeteringService.js';
+import { attachVoiceSocket } from './voiceSocket.js';
+
+let server: http.Server;
+let url: string;
+
+before(async () => {
+  await resetTestDatabase();
+  server = http.createServer();
+  const wss = attachVoiceSocket(server);
+  server.on('close', () => wss.close());
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  url = `ws://localhost:${(server.address() as AddressInfo).port}/api/voice/ws`;
+});
+
+after(async () => {
+  server.close();
+  await closeTestDatabase();
+});
+
+function nextMessage(socket: WebSocket, type: string): Promise<Record<string, unknown>> {
+  return new Promise(resolve => {
+    const onMessage = (data: Buffer) => {
+      const message = JSON.parse(data.toString());
+      if (message.type === type) {
+        socket.off('message', onMessage);
+        resolve(message);
+      }
+    };
+    socket.on('message', onMessage);
+  });
+}
+
+async function waitFor<T>(check: () => Promise<T | undefined>, timeoutMs: number = 5000): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const value = await check();
+    if (value !== undefined) return value;
+    if (Date.now() > deadline) throw new Error('Timed out');
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+test('a turn is billed even when the client closes the socket mid-turn', async () => {
+  const user = await UserModel.create({ email: 'socket@example.com', password: 'Password123!' });
+  const { token } = await authSessionService.issue(user);
+
+  const socket = new WebSocket(url);
+  await new Promise(resolve => socket.once('open', resolve));
+
+  const started = nextMessage(socket, 'started');
+  socket.send(JSON.stringify({ type: 'start', mode: 'everyday', token }));
+  await started;
+
+  // Close once the tutor is answering, so the turn is genuinely in flight
+  const generateResponse = conversationService.generateResponse.bind(conversationService);
+  const generate = mock.method(conversationService, 'generateResponse', async (...args: Parameters<typeof generateResponse>) => {
+    socket.close();
+    await new Promise(resolve => socket.once('close', resolve));
+    return generateResponse(...args);
+  });
+  socket.send(JSON.stringify({ type: 'text', text: 'How are you going?' }));
+
+  const llmTurn = await waitFor(async () =>
+    (await VoiceUsageModel.findByUserId(user.id)).find(record => record.llm_turns === 1)
+  );
+  assert.equal(llmTurn.route, 'ws');
+  assert.ok(llmTurn.minutes > 0);
+  assert.equal(generate.mock.callCount(), 1);
+  generate.mock.restore();
+});
+
+test('a turn that fails before it starts sends an error and keeps the conversation', { timeout: 10000 }, async () => {
+  const user = await UserModel.create({ email: 'socket-error@example.com', password: 'Password123!' });
+  const { token } = await authSessionService.issue(user);
+
+  const socket = new WebSocket(url);
+  await new Promise(resolve => socket.once('open', resolve));
+
+  const started = nextMessage(socket, 'started');
+  socket.send(JSON.stringify({ type: 'start', mode: 'everyday', token }));
+  await started;
+
+  const getAllowance = mock.method(voiceMeteringService, 'getAllowance');
+  getAllowance.mock.mockImplementationOnce(async () => {
+    throw new Error('database is locked');
+  });
+
+  const error = nextMessage(socket, 'error');
+  socket.send(JSON.stringify({ type: 'text', text: 'How are you going?' }));
+  assert.equal((await error).error, 'Failed to process conversation');
+
+  const response = nextMessage(socket, 'response');
+  socket.send(JSON.stringify({ type: 'text', text: 'Still there?' }));
+  assert.ok((await response).text);
+
+  getAllowance.mock.restore();
+  socket.close();
+});
@@ -0,0 +1,334 @@
+import { Server, IncomingMessage } from 'http';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { z } from 'zod';
+import { speechService, EmotionType } from '../services/speechService.js';
+import { conversationService, PracticeMode } from '../services/conversationService.js';
+import { VoiceActivityDetector } from '../services/voiceActivityDetector.js';
+import { getScenarioById, Scenario } from '../data/scenarios.js';
+import { encodeWav } from '../utils/wav.js';
+import { authSessionService } from '../services/authSessionService.js';
+import { UserModel } from '../models/User.js';
+import { voiceMeteringService, VoiceMeter } from '../services/voiceMeteringService.js';
+import { anonymousUsageService } from '../services/anonymousUsageService.js';
+import { usageLimitReachedResponse } from '../middleware/usageLimits.js';
+
+// Microphone audio is streamed as 16kHz 16-bit mono PCM in binary frames
+const SAMPLE_RATE = 16000;
+
+// Client -> server control messages (JSON text frames)
+const clientMessageSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('start'),
+    // The caller's practice session; left out for an anonymous conversation
+    sessionId: z.string().min(1).optional(),
+    mode: z.enum(['everyday', 'slang', 'workplace']),
+    scenarioId: z.string().min(1).optional(),
+    // Browsers cannot set headers on a WebSocket, so credentials come here
+    token: z.string().min(1).optional(),
+    deviceToken: z.string().min(1).optional(),
+  }),
+  z.object({
+    type: z.literal('text'),
+    text: z.string().min(1).max(1000),
+  }),
+  z.object({ type: z.literal('interrupt') }),
+  z.object({ type: z.literal('end') }),
+]);
+
+interface ActiveConversation {
+  sessionId: string;
+  mode: PracticeMode;
+  scenario?: Scenario;
+  meter: VoiceMeter;
+}
+
+// Produces the learner's side of a turn, or null when there is nothing to answer
+type GetUserText = (turn: number, active: ActiveConversation) => Promise<string | null>;
+
+// Signed-in user for a start message token, or null when absent or invalid
+async function getTokenUserId(token?: string): Promise<string | null> {
+  if (!token) return null;
+  const payload = await authSessionService.verifyAccessToken(token);
+  return payload && await UserModel.findById(payload.userId) ? payload.userId : null;
+}
+
+// Client address for trial limits; behind a trusted proxy, the original
+// client from X-Forwarded-For
+function getClientIp(request: IncomingMessage): string | undefined {
+  const forwarded = request.headers['x-forwarded-for'];
+  if (process.env.TRUST_PROXY && typeof forwarded === 'string') {
+    return forwarded.split(',')[0].trim();
+  }
+  return request.socket.remoteAddress;
+}
+
+/**
+ * Handle one full-duplex voice connection. Microphone audio is endpointed on
+ * the server; each utterance runs transcribe -> respond -> TTS, and a new
+ * utterance (or an explicit interrupt) cancels any reply still in progress.
+ */
+function handleConnection(socket: WebSocket, request: IncomingMessage): void {
+  const detector = new VoiceActivityDetector({ sampleRate: SAMPLE_RATE });
+  let conversation: ActiveConversation | null = null;
+
+  // Each turn takes the next number; work from a superseded turn is dropped
+  let currentTurn = 0;
+  let respondingTurn: number | null = null;
+
+  const send = (message: Record<string, unknown>) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+
+  const interrupt = () => {
+    if (respondingTurn === null) return;
+
+    // The turn already sent to Claude may still be saved to the history
+    currentTurn++;
+    respondingTurn = null;
+    send({ type: 'interrupted' });
+  };
+
+  // Out of allowance: tell the client and stop the conversation
+  const hasAllowance = async (active: ActiveConversation): Promise<boolean> => {
+    const allowance = await voiceMeteringService.getAllowance(active.meter);
+    if (allowance.allowed) return true;
+
+    send({ type: 'error', ...usageLimitReachedResponse(allowance.daily_limit_minutes, allowance.minutes_used) });
+    await endConversation();
+    send({ type: 'ended' });
+    return false;
+  };
+
+  // Usage is billed to the conversation the turn started in, even if the
+  // client has ended it or closed the socket since
+  const speak = async (turn: number, active: ActiveConversation, text: string, emotion?: EmotionType) => {
+    const audioBuffer = await speechService.synthesize({
+      text,
+      emotion,
+      format: 'mp3',
+      latency: 'balanced',
+    });
+    await voiceMeteringService.record(active.meter, 'ws', { ttsCharacters: text.length });
+
+    if (turn === currentTurn) {
+      send({ type: 'audio', audio: audioBuffer.toString('base64'), audioFormat: 'mp3' });
+    }
+  };
+
+  const respond = async (turn: number, active: ActiveConversation, userText: string) => {
+    const aiResponse = await conversationService.generateResponse(
+      active.sessionId,
+      userText,
+      active.mode,
+      active.scenario,
+      active.meter.userId
+    );
+    await voiceMeteringService.record(active.meter, 'ws', { llmTurns: 1 });
+    if (turn !== currentTurn) return;
+
+    send({
+      type: 'response',
+      text: aiResponse.text,
+      emotion: aiResponse.emotion,
+      corrections: aiResponse.corrections,
+      vocab: aiResponse.vocab,
+      goalsMet: aiResponse.goalsMet,
+    });
+    await speak(turn, active, aiResponse.text, aiResponse.emotion);
+  };
+
+  const runTurn = async (getUserText: GetUserText) => {
+    const active = conversation;
+    if (!active) return;
+
+    const turn = ++currentTurn;
+    respondingTurn = turn;
+
+    try {
+      if (!(await hasAllowance(active))) return;
+
+      const userText = await getUserText(turn, active);
+      if (userText && turn === currentTurn) {
+        await respond(turn, active, userText);
+      }
+    } catch (error) {
+      console.error('Voice socket turn error:', error);
+      if (turn === currentTurn) {
+        send({ type: 'error', error: 'Failed to process conversation' });
+      }
+    } finally {
+      if (respondingTurn === turn) {
+        respondingTurn = null;
+      }
+    }
+  };
+
+  // Turns run alongside later messages, so nothing awaits them; a failure
+  // still reaches the client instead of becoming an unhandled rejection
+  const turnFailed = (error: unknown) => {
+    console.error('Voice socket turn error:', error);
+    send({ type: 'error', error: 'Failed to process conversation' });
+  };
+
+  const handleUtterance = (audio: Buffer) => runTurn(async (turn, active) => {
+    const wav = encodeWav(audio, SAMPLE_RATE);
+    const transcription = await speechService.transcribe(wav, 'en', 'wav');
+    await voiceMeteringService.record(active.meter, 'ws', {
+      sttSeconds: voiceMeteringService.estimateAudioSeconds(wav, 'wav'),
+    });
+    if (turn !== currentTurn) return null;
+
+    if (!transcription.text || transcription.text.trim() === '') {
+      send({ type: 'error', error: 'Could not transcribe audio', userText: '' });
+      return null;
+    }
+
+    send({ type: 'transcription', text: transcription.text });
+    return transcription.text;
+  });
+
+  const handleAudio = (chunk: Buffer) => {
+    if (!conversation) return;
+
+    for (const event of detector.push(chunk)) {
+      if (event.type === 'speech_start') {
+        // Barge-in: the learner talking over the tutor cancels the reply
+        interrupt();
+        send({ type: 'speech_started' });
+      } else {
+        send({ type: 'speech_ended' });
+        handleUtterance(event.audio).catch(turnFailed);
+      }
+    }
+  };
+
+  const endConversation = async () => {
+    if (!conversation) return;
+
+    const { sessionId } = conversation;
+    currentTurn++;
+    respondingTurn = null;
+    detector.reset();
+    conversation = null;
+    await conversationService.endConversation(sessionId);
+  };
+
+  const handleControl = async (raw: string) => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      send({ type: 'error', error: 'Invalid message' });
+      return;
+    }
+
+    const validation = clientMessageSchema.safeParse(parsed);
+    if (!validation.success) {
+      send({ type: 'error', error: 'Validation failed', details: validation.error.errors });
+      return;
+    }
+
+    const message = validation.data;
+    switch (message.type) {
+      case 'start': {
+        const scenario = message.scenarioId ? getScenarioById(message.scenarioId) : undefined;
+        if (message.scenarioId && !scenario) {
+          send({ type: 'error', error: 'Unknown scenario' });
+          return;
+        }
+
+        const result = await voiceMeteringService.resolveMeter(
+          await getTokenUserId(message.token),
+          anonymousUsageService.resolveDevice(message.deviceToken, getClientIp(request)),
+          message.sessionId
+        );
+        // The client may have gone while the meter was looked up
+        if (socket.readyState !== WebSocket.OPEN) return;
+        if ('error' in result) {
+          send({ type: 'error', error: result.error, code: result.code });
+          return;
+        }
+        if (message.sessionId && !(await conversationService.canAccess(message.sessionId, result.meter.userId))) {
+          send({ type: 'error', error: 'Not authorized' });
+          return;
+        }
+
+        await endConversation();
+        const active: ActiveConversation = {
+          sessionId: message.sessionId ?? conversationService.newConversationId(),
+          mode: message.mode,
+          scenario,
+          meter: result.meter,
+        };
+        conversation = active;
+        if (!(await hasAllowance(active))) return;
+
+        const firstMessage = await conversationService.startConversation(active.sessionId, message.mode, scenario);
+        send({ type: 'started', message: firstMessage, sessionId: active.sessionId, scenarioId: scenario?.id || null });
+
+        runTurn(async (turn) => {
+          await speak(turn, active, firstMessage);
+          return null;
+        }).catch(turnFailed);
+        break;
+      }
+      case 'text':
+        if (!conversation) {
+          send({ type: 'error', error: 'Conversation not started' });
+          return;
+        }
+        interrupt();
+        runTurn(async () => message.text).catch(turnFailed);
+        break;
+      case 'interrupt':
+        interrupt();
+        break;
+      case 'end':
+        await endConversation();
+        send({ type: 'ended' });
+        break;
+    }
+  };
+
+  const handleMessage = async (data: RawData, isBinary: boolean) => {
+    try {
+      if (isBinary) {
+        const chunk = Array.isArray(data) ? Buffer.concat(data) : Buffer.from(data as ArrayBuffer);
+        handleAudio(chunk);
+      } else {
+        await handleControl(data.toString());
+      }
+    } catch (error) {
+      console.error('Voice socket message error:', error);
+      send({ type: 'error', error: 'Failed to handle message' });
+    }
+  };
+
+  // Handle messages in order - audio sent straight after a start message
+  // must wait for the conversation it belongs to
+  let pending: Promise<void> = Promise.resolve();
+  socket.on('message', (data: RawData, isBinary: boolean) => {
+    pending = pending.then(() => handleMessage(data, isBinary));
+  });
+
+  socket.on('close', () => {
+    endConversation().catch(error => console.error('Voice socket close error:', error));
+  });
+}
+
+/**
+ * Attach the full-duplex voice WebSocket endpoint (/api/voice/ws) to the HTTP server
+ */
+export function attachVoiceSocket(server: Server): WebSocketServer {
+  const wss = new WebSocketServer({
+    server,
+    path: '/api/voice/ws',
+    maxPayload: 1024 * 1024, // 1MB per frame
+  });
+
+  wss.on('connection', handleConnection);
+
+  return wss;
+}
@@ -0,0 +1,111 @@
+import { AuthTokenModel, AuthTokenType } from '../models/AuthToken.js';
+import { User, UserModel } from '../models/User.js';
+import { mailService } from './mailService.js';
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
+
+const PASSWORD_RESET_TTL_MINUTES = 60;
+const EMAIL_VERIFICATION_TTL_MINUTES = 48 * 60;
+
+export type TokenResult =
+  | { user: User }
+  | { status: number; error: string; code: string };
+
+// Links open the app, which reads the token from the query string
+function appLink(param: string, token: string): string {
+  return `${FRONTEND_URL}/app?${param}=${encodeURIComponent(token)}`;
+}
+
+class AccountService {
+  /**
+   * Email the user a link to verify their address
+   */
+  async sendVerificationEmail(user: User): Promise<void> {
+    const token = await AuthTokenModel.create(user.id, 'email_verification', EMAIL_VERIFICATION_TTL_MINUTES);
+    const link = appLink('verify_token', token);
+
+    await mailService.send({
+      to: user.email,
+      subject: 'Confirm your email address',
+      text: [
+        `G'day${user.name ? ` ${user.name}` : ''},`,
+        '',
+        'Confirm your email address for Your Aussie Uncle by opening this link:',
+        link,
+        '',
+        'The link works for 48 hours. If you did not sign up, you can ignore this email.',
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Email a password reset link, if an account uses the address. Callers
+   * should respond the same either way, so addresses can't be probed.
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await UserModel.findByEmail(email);
+    if (!user) return;
+
+    const token = await AuthTokenModel.create(user.id, 'password_reset', PASSWORD_RESET_TTL_MINUTES);
+    const link = appLink('reset_token', token);
+
+    await mailService.send({
+      to: user.email,
+      subject: 'Reset your password',
+      text: [
+        `G'day${user.name ? ` ${user.name}` : ''},`,
+        '',
+        'Someone asked to reset the password for your account. Choose a new one here:',
+        link,
+        '',
+        'The link works for one hour and can only be used once. If it was not you, you can ignore this email.',
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Mark the token's user verified
+   */
+  async verifyEmail(token: string): Promise<TokenResult> {
+    const result = await this.redeem(token, 'email_verification');
+    if ('user' in result) {
+      await UserModel.markEmailVerified(result.user.id);
+    }
+    return result;
+  }
+
+  /**
+   * Set a new password. Resetting through an emailed link also proves the
+   * user owns the address, so it verifies it too.
+   */
+  async resetPassword(token: string, password: string): Promise<TokenResult> {
+    const result = await this.redeem(token, 'password_reset');
+    if ('user' in result) {
+      await UserModel.updatePassword(result.user.id, password);
+      await UserModel.markEmailVerified(result.user.id);
+    }
+    return result;
+  }
+
+  // Use up a token, returning its user
+  private async redeem(token: string, type: AuthTokenType): Promise<TokenResult> {
+    const authToken = await AuthTokenModel.findByToken(token, type);
+    if (!authToken || authToken.used_at) {
+      return { status: 400, error: 'This link is invalid or has already been used', code: 'INVALID_TOKEN' };
+    }
+
+    if (!AuthTokenModel.isUsable(authToken)) {
+      return { status: 410, error: 'This link has expired', code: 'TOKEN_EXPIRED' };
+    }
+
+    const user = await UserModel.findById(authToken.user_id);
+    if (!user || !(await AuthTokenModel.markUsed(authToken.id))) {
+      return { status: 400, error: 'This link is invalid or has already been used', code: 'INVALID_TOKEN' };
+    }
+
+    return { user };
+  }
+}
+
+export const accountService = new AccountService();
+export { AccountService };
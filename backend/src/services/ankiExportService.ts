@@ -0,0 +1,286 @@
+import Database from 'better-sqlite3';
+import crypto from 'crypto';
+import { createZip } from '../utils/zip.js';
+
+/**
+ * Builds Anki .apkg packages: a zip holding an Anki 2.1 collection
+ * (collection.anki2, schema version 11) and an empty media index. Cards
+ * carry over the learner's review state, so reviews continue in Anki where
+ * they left off.
+ */
+
+export interface AnkiCard {
+  id: string; // stable id, so re-importing updates rather than duplicates
+  term: string;
+  meaning: string;
+  example?: string;
+  tags?: string[];
+  // Omitted for cards never reviewed
+  review?: {
+    next_review: number; // timestamp (ms)
+    interval: number; // days
+    ease: number;
+    repetitions: number;
+    lapses: number;
+  };
+}
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+// Fixed so every export uses the same note type in the learner's collection
+const MODEL_ID = 1718203400123;
+
+const FIELD_NAMES = ['Term', 'Meaning', 'Example'];
+
+const CARD_CSS = `.card {
+  font-family: Arial, sans-serif;
+  font-size: 22px;
+  text-align: center;
+  color: #1a1a2e;
+  background-color: white;
+}
+.example {
+  margin-top: 12px;
+  font-size: 18px;
+  font-style: italic;
+  color: #6b7280;
+}`;
+
+const COLLECTION_SCHEMA = `
+CREATE TABLE col (
+  id integer primary key, crt integer not null, mod integer not null,
+  scm integer not null, ver integer not null, dty integer not null,
+  usn integer not null, ls integer not null, conf text not null,
+  models text not null, decks text not null, dconf text not null, tags text not null
+);
+CREATE TABLE notes (
+  id integer primary key, guid text not null, mid integer not null,
+  mod integer not null, usn integer not null, tags text not null,
+  flds text not null, sfld integer not null, csum integer not null,
+  flags integer not null, data text not null
+);
+CREATE TABLE cards (
+  id integer primary key, nid integer not null, did integer not null,
+  ord integer not null, mod integer not null, usn integer not null,
+  type integer not null, queue integer not null, due integer not null,
+  ivl integer not null, factor integer not null, reps integer not null,
+  lapses integer not null, left integer not null, odue integer not null,
+  odid integer not null, flags integer not null, data text not null
+);
+CREATE TABLE revlog (
+  id integer primary key, cid integer not null, usn integer not null,
+  ease integer not null, ivl integer not null, lastIvl integer not null,
+  factor integer not null, time integer not null, type integer not null
+);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function sha1(text: string): string {
+  return crypto.createHash('sha1').update(text, 'utf8').digest('hex');
+}
+
+class AnkiExportService {
+  /**
+   * Build an .apkg holding one deck of cards
+   */
+  buildPackage(deckName: string, cards: AnkiCard[]): Buffer {
+    const db = new Database(':memory:');
+    try {
+      db.exec(COLLECTION_SCHEMA);
+
+      const now = Date.now();
+      const nowSeconds = Math.floor(now / 1000);
+      // Review due dates are counted in days from the collection's creation
+      const createdSeconds = Math.floor(nowSeconds / DAY_SECONDS) * DAY_SECONDS;
+      const deckId = now;
+
+      this.insertCollection(db, deckName, deckId, createdSeconds, now);
+
+      const insertNote = db.prepare(`
+        INSERT INTO notes (id, guid, mid, mod, usn, tags, flds, sfld, csum, flags, data)
+        VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, '')
+      `);
+      const insertCard = db.prepare(`
+        INSERT INTO cards (id, nid, did, ord, mod, usn, type, queue, due, ivl, factor, reps, lapses, left, odue, odid, flags, data)
+        VALUES (?, ?, ?, 0, ?, -1, ?, ?, ?, ?, ?, ?, ?, 0, 0, 0, 0, '')
+      `);
+
+      const insertAll = db.transaction(() => {
+        cards.forEach((card, index) => {
+          // Note and card ids are millisecond timestamps in Anki
+          const noteId = now + index;
+          const fields = [card.term, card.meaning, card.example || ''].map(escapeHtml);
+          const tags = (card.tags || []).map(tag => tag.replace(/\s+/g, '_')).join(' ');
+
+          insertNote.run(
+            noteId,
+            sha1(`speakaussie:${card.id}`).slice(0, 10),
+            MODEL_ID,
+            nowSeconds,
+            tags ? ` ${tags} ` : '',
+            fields.join('\x1f'),
+            fields[0],
+            parseInt(sha1(card.term).slice(0, 8), 16)
+          );
+
+          const schedule = this.cardSchedule(card, index, createdSeconds);
+          insertCard.run(
+            noteId,
+            noteId,
+            deckId,
+            nowSeconds,
+            schedule.type,
+            schedule.queue,
+            schedule.due,
+            schedule.ivl,
+            schedule.factor,
+            schedule.reps,
+            schedule.lapses
+          );
+        });
+      });
+      insertAll();
+
+      const collection = db.serialize();
+      return createZip([
+        { name: 'collection.anki2', data: collection },
+        { name: 'media', data: Buffer.from('{}') },
+      ]);
+    } finally {
+      db.close();
+    }
+  }
+
+  /**
+   * Anki scheduling columns for a card. Cards the learner is still
+   * relearning (interval under a day) come in as reviews due today.
+   */
+  private cardSchedule(card: AnkiCard, index: number, createdSeconds: number) {
+    if (!card.review) {
+      // New cards are due in order of position
+      return { type: 0, queue: 0, due: index + 1, ivl: 0, factor: 0, reps: 0, lapses: 0 };
+    }
+
+    const due = Math.max(0, Math.floor((card.review.next_review / 1000 - createdSeconds) / DAY_SECONDS));
+    return {
+      type: 2,
+      queue: 2,
+      due,
+      ivl: Math.max(1, Math.round(card.review.interval)),
+      factor: Math.round(card.review.ease * 1000),
+      reps: card.review.repetitions,
+      lapses: card.review.lapses,
+    };
+  }
+
+  private insertCollection(db: Database.Database, deckName: string, deckId: number, createdSeconds: number, now: number) {
+    const nowSeconds = Math.floor(now / 1000);
+
+    const model = {
+      id: MODEL_ID,
+      name: 'SpeakAussie Slang',
+      type: 0,
+      mod: nowSeconds,
+      usn: -1,
+      sortf: 0,
+      did: deckId,
+      tmpls: [{
+        name: 'Card 1',
+        ord: 0,
+        qfmt: '{{Term}}',
+        afmt: '{{FrontSide}}<hr id=answer>{{Meaning}}{{#Example}}<div class="example">{{Example}}</div>{{/Example}}',
+        bqfmt: '',
+        bafmt: '',
+        did: null,
+        bfont: '',
+        bsize: 0,
+      }],
+      flds: FIELD_NAMES.map((name, ord) => ({
+        name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [],
+      })),
+      css: CARD_CSS,
+      latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+      latexPost: '\\end{document}',
+      tags: [],
+      vers: [],
+      req: [[0, 'all', [0]]],
+    };
+
+    const deck = (id: number, name: string) => ({
+      id,
+      name,
+      desc: '',
+      mod: nowSeconds,
+      usn: -1,
+      conf: 1,
+      dyn: 0,
+      collapsed: false,
+      extendNew: 10,
+      extendRev: 50,
+      newToday: [0, 0],
+      revToday: [0, 0],
+      lrnToday: [0, 0],
+      timeToday: [0, 0],
+    });
+
+    const deckConfig = {
+      id: 1,
+      name: 'Default',
+      mod: 0,
+      usn: 0,
+      maxTaken: 60,
+      autoplay: true,
+      timer: 0,
+      replayq: true,
+      new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, order: 1, perDay: 20, bury: true, separate: true },
+      rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, minSpace: 1, bury: true },
+      lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+    };
+
+    const config = {
+      activeDecks: [1],
+      curDeck: 1,
+      curModel: String(MODEL_ID),
+      newSpread: 0,
+      collapseTime: 1200,
+      timeLim: 0,
+      estTimes: true,
+      dueCounts: true,
+      nextPos: 1,
+      sortType: 'noteFld',
+      sortBackwards: false,
+      addToCur: true,
+    };
+
+    db.prepare(`
+      INSERT INTO col (id, crt, mod, scm, ver, dty, usn, ls, conf, models, decks, dconf, tags)
+      VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, '{}')
+    `).run(
+      createdSeconds,
+      now,
+      now,
+      JSON.stringify(config),
+      JSON.stringify({ [MODEL_ID]: model }),
+      JSON.stringify({ 1: deck(1, 'Default'), [deckId]: deck(deckId, deckName) }),
+      JSON.stringify({ 1: deckConfig })
+    );
+  }
+}
+
+export const ankiExportService = new AnkiExportService();
+export { AnkiExportService };
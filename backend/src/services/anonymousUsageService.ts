@@ -0,0 +1,159 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { AnonymousUsageModel, AnonymousUsageRecord } from '../models/AnonymousUsage.js';
+import { UsageModel, STALE_SESSION_SECONDS } from '../models/Usage.js';
+import { SubscriptionModel } from '../models/Subscription.js';
+import { VoiceUsageModel } from '../models/VoiceUsage.js';
+import { generateDeviceToken, verifyDeviceToken } from '../utils/jwt.js';
+
+const IP_HASH_SECRET = process.env.IP_HASH_SECRET || process.env.JWT_SECRET || 'dev-secret-change-in-production';
+
+// Offices, campuses and households share one address, so a network gets the
+// trial allowance of a few devices before new tokens stop helping
+const DEVICES_PER_IP = 3;
+
+// A trial caller: the device from its token and the network it is on
+export interface AnonymousDevice {
+  deviceId: string;
+  ipHash: string;
+}
+
+export interface AnonymousUsageStatus {
+  allowed: boolean;
+  daily_limit_minutes: number;
+  minutes_used: number;
+  remaining_minutes: number;
+  plan: 'anonymous';
+}
+
+function isLive(record: AnonymousUsageRecord): boolean {
+  return !!record.last_activity_at
+    && Date.now() - new Date(record.last_activity_at).getTime() <= STALE_SESSION_SECONDS * 1000;
+}
+
+class AnonymousUsageService {
+  issueDeviceToken(): string {
+    return generateDeviceToken(uuidv4());
+  }
+
+  /**
+   * The device behind a token, or null when the token is missing or invalid
+   */
+  resolveDevice(token: string | undefined, ip: string | undefined): AnonymousDevice | null {
+    if (!token) return null;
+
+    try {
+      const { deviceId } = verifyDeviceToken(token);
+      return { deviceId, ipHash: this.hashIp(ip || 'unknown') };
+    } catch {
+      return null;
+    }
+  }
+
+  // Only a keyed hash of the address is stored
+  hashIp(ip: string): string {
+    return crypto.createHmac('sha256', IP_HASH_SECRET).update(ip).digest('hex');
+  }
+
+  /**
+   * Today's trial allowance - the free plan's minutes per device, capped
+   * across every device on the same network
+   */
+  async getUsageStatus(device: AnonymousDevice): Promise<AnonymousUsageStatus> {
+    const dailyLimit = (await SubscriptionModel.getPlanLimit('free'))?.daily_minutes || 2;
+    const deviceMinutes = (await AnonymousUsageModel.findTodayByDevice(device.deviceId))?.minutes_used || 0;
+    const ipMinutes = await AnonymousUsageModel.getIpMinutesToday(device.ipHash);
+
+    const remaining = Math.max(0, Math.min(
+      dailyLimit - deviceMinutes,
+      dailyLimit * DEVICES_PER_IP - ipMinutes
+    ));
+
+    return {
+      allowed: remaining > 0,
+      daily_limit_minutes: dailyLimit,
+      minutes_used: deviceMinutes,
+      remaining_minutes: remaining,
+      plan: 'anonymous',
+    };
+  }
+
+  async startSession(device: AnonymousDevice): Promise<AnonymousUsageRecord> {
+    const record = await AnonymousUsageModel.getOrCreateDailyRecord(device.deviceId, device.ipHash);
+
+    // A session started over a live one keeps the time already used
+    if (isLive(record)) {
+      await AnonymousUsageModel.recordActivity(record.id);
+    }
+
+    return AnonymousUsageModel.startSession(record.id);
+  }
+
+  /**
+   * Bill a live trial session up to now. Returns null when there is no live
+   * session - never started, ended, or silent for longer than the stale
+   * window (it is closed at its last heartbeat, like practice sessions).
+   */
+  async recordActivity(device: AnonymousDevice): Promise<AnonymousUsageRecord | null> {
+    const record = await AnonymousUsageModel.findTodayByDevice(device.deviceId);
+    if (!record || !record.last_activity_at) return null;
+
+    if (!isLive(record)) {
+      await AnonymousUsageModel.endSession(record.id);
+      return null;
+    }
+
+    return AnonymousUsageModel.recordActivity(record.id);
+  }
+
+  async endSession(device: AnonymousDevice): Promise<void> {
+    const record = await this.recordActivity(device);
+    if (record) {
+      await AnonymousUsageModel.endSession(record.id);
+    }
+  }
+
+  /**
+   * Charge metered voice usage to a device. During a live trial session the
+   * elapsed time is billed instead, so the units cost nothing extra.
+   */
+  async chargeMinutes(device: AnonymousDevice, minutes: number): Promise<number> {
+    if (await this.recordActivity(device)) return 0;
+
+    if (minutes > 0) {
+      const record = await AnonymousUsageModel.getOrCreateDailyRecord(device.deviceId, device.ipHash);
+      await AnonymousUsageModel.addMinutes(record.id, minutes);
+    }
+    return minutes;
+  }
+
+  /**
+   * Carry a device's trial minutes from today into a new account, so
+   * registering does not reset the day's allowance. Returns the minutes moved.
+   */
+  async claimForUser(token: string, userId: string): Promise<number> {
+    let deviceId: string;
+    try {
+      deviceId = verifyDeviceToken(token).deviceId;
+    } catch {
+      return 0;
+    }
+
+    const today = await AnonymousUsageModel.findTodayByDevice(deviceId);
+    if (!today || today.claimed_by_user_id) return 0;
+
+    const record = isLive(today) ? await AnonymousUsageModel.recordActivity(today.id) : today;
+    await AnonymousUsageModel.endSession(record.id);
+    await AnonymousUsageModel.markClaimed(record.id, userId);
+
+    if (record.minutes_used > 0) {
+      await UsageModel.addMinutes(userId, record.minutes_used);
+    }
+    await VoiceUsageModel.assignDeviceToUser(deviceId, userId);
+
+    return record.minutes_used;
+  }
+}
+
+export const anonymousUsageService = new AnonymousUsageService();
+export { AnonymousUsageService };
@@ -0,0 +1,157 @@
+import { Assignment, AssignmentTask, AssignmentTaskInput } from '../models/Assignment.js';
+import { CohortMemberModel } from '../models/Cohort.js';
+import { DeckModel } from '../models/Deck.js';
+import { QuizResult, QuizResultModel } from '../models/QuizResult.js';
+import { PracticeSession, SessionModel } from '../models/Usage.js';
+import { getScenarioById } from '../data/scenarios.js';
+
+// A scenario counts as done once a session of it has run this long
+export const MIN_SCENARIO_SECONDS = 60;
+
+export type AssignmentStatus = 'not_started' | 'in_progress' | 'completed' | 'overdue';
+
+export interface TaskProgress {
+  task_id: string;
+  completed: boolean;
+  completed_at: string | null;
+  // Quiz tasks: best percentage scored on a qualifying quiz
+  best_score?: number | null;
+}
+
+export interface AssignmentProgress {
+  status: AssignmentStatus;
+  completed_tasks: number;
+  total_tasks: number;
+  completed_at: string | null;
+  late: boolean;
+  tasks: TaskProgress[];
+}
+
+export interface LearnerAssignmentProgress extends AssignmentProgress {
+  user_id: string;
+  email: string;
+  name: string | null;
+}
+
+// SQLite's datetime('now') is UTC without the T and Z
+function toIso(sqliteTime: string): string {
+  return sqliteTime.includes('T') ? sqliteTime : `${sqliteTime.replace(' ', 'T')}Z`;
+}
+
+const percent = (result: QuizResult) => Math.round((result.correct_count / result.question_count) * 100);
+
+function quizMatchesTask(result: QuizResult, task: AssignmentTask): boolean {
+  if (result.question_count < (task.question_count || 0)) return false;
+  if (task.category && result.category !== task.category) return false;
+  if (task.deck_id && result.deck_id !== task.deck_id) return false;
+  return true;
+}
+
+class AssignmentService {
+  /**
+   * Check a teacher's tasks before saving them. Returns the problem, or null.
+   */
+  async validateTasks(tasks: AssignmentTaskInput[], teacherId: string): Promise<string | null> {
+    for (const task of tasks) {
+      if (task.type === 'scenario' && !getScenarioById(task.scenario_id)) {
+        return `Unknown scenario: ${task.scenario_id}`;
+      }
+
+      if (task.type === 'slang_quiz' && task.deck_id) {
+        const deck = await DeckModel.findById(task.deck_id);
+        if (!deck || deck.user_id !== teacherId) {
+          return 'Assigned decks must be your own';
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * A learner's progress on an assignment, worked out from the practice
+   * sessions and quiz results they have reported since it was set
+   */
+  async getProgress(
+    assignment: Assignment,
+    tasks: AssignmentTask[],
+    userId: string,
+    now: Date = new Date()
+  ): Promise<AssignmentProgress> {
+    const since = toIso(assignment.created_at);
+    const sessions = (await SessionModel.getSessionsSince(userId, since))
+      .filter(session => session.ended_at && session.duration_seconds >= MIN_SCENARIO_SECONDS)
+      .reverse(); // oldest first
+    const quizzes = tasks.some(task => task.type === 'slang_quiz')
+      ? await QuizResultModel.findByUserSince(userId, since)
+      : [];
+
+    const taskProgress = tasks.map(task =>
+      task.type === 'scenario' ? this.scenarioProgress(task, sessions) : this.quizProgress(task, quizzes)
+    );
+
+    const completedTasks = taskProgress.filter(task => task.completed).length;
+    const isComplete = tasks.length > 0 && completedTasks === tasks.length;
+    const completedAt = isComplete
+      ? taskProgress.map(task => task.completed_at as string).sort().pop() as string
+      : null;
+    const dueAt = new Date(assignment.due_at);
+
+    let status: AssignmentStatus;
+    if (isComplete) {
+      status = 'completed';
+    } else if (now > dueAt) {
+      status = 'overdue';
+    } else {
+      status = completedTasks > 0 ? 'in_progress' : 'not_started';
+    }
+
+    return {
+      status,
+      completed_tasks: completedTasks,
+      total_tasks: tasks.length,
+      completed_at: completedAt,
+      late: completedAt !== null && new Date(completedAt) > dueAt,
+      tasks: taskProgress,
+    };
+  }
+
+  /**
+   * Progress of every learner in the assignment's cohort
+   */
+  async getCohortProgress(assignment: Assignment, tasks: AssignmentTask[]): Promise<LearnerAssignmentProgress[]> {
+    const learners = (await CohortMemberModel.findByCohortId(assignment.cohort_id))
+      .filter(member => member.role === 'learner');
+
+    return Promise.all(learners.map(async member => ({
+      user_id: member.user_id,
+      email: member.email,
+      name: member.name,
+      ...(await this.getProgress(assignment, tasks, member.user_id)),
+    })));
+  }
+
+  private scenarioProgress(task: AssignmentTask, sessions: PracticeSession[]): TaskProgress {
+    const session = sessions.find(s => s.scenario_id === task.scenario_id);
+    return {
+      task_id: task.id,
+      completed: session !== undefined,
+      completed_at: session?.ended_at || null,
+    };
+  }
+
+  private quizProgress(task: AssignmentTask, quizzes: QuizResult[]): TaskProgress {
+    const matching = quizzes.filter(result => quizMatchesTask(result, task));
+    const passed = matching.find(result => percent(result) >= (task.min_score || 0));
+
+    return {
+      task_id: task.id,
+      completed: passed !== undefined,
+      completed_at: passed?.completed_at || null,
+      best_score: matching.length > 0 ? Math.max(...matching.map(percent)) : null,
+    };
+  }
+}
+
+export const assignmentService = new AssignmentService();
+export { AssignmentService };
@@ -0,0 +1,100 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { closeTestDatabase, execute, resetTestDatabase } from '../db/testing.js';
+import { User, UserModel } from '../models/User.js';
+import { toSqliteTime } from '../repositories/types.js';
+import { authSessionService } from './authSessionService.js';
+
+let user: User;
+
+before(async () => {
+  await resetTestDatabase();
+  user = await UserModel.create({ email: 'devices@example.com', password: 'Password123!' });
+});
+
+after(closeTestDatabase);
+
+test('a refresh token is traded for a new pair and stops working', async () => {
+  const issued = await authSessionService.issue(user, 'Test browser');
+
+  const refreshed = await authSessionService.refresh(issued.refresh_token);
+  assert.ok('tokens' in refreshed);
+  assert.notEqual(refreshed.tokens.refresh_token, issued.refresh_token);
+  assert.ok(await authSessionService.verifyAccessToken(refreshed.tokens.token));
+
+  const again = await authSessionService.refresh(refreshed.tokens.refresh_token);
+  assert.ok('tokens' in again);
+});
+
+test('two tabs refreshing with the same token both get the new pair', async () => {
+  const issued = await authSessionService.issue(user);
+
+  const [first, second] = await Promise.all([
+    authSessionService.refresh(issued.refresh_token),
+    authSessionService.refresh(issued.refresh_token),
+  ]);
+  assert.ok('tokens' in first && 'tokens' in second);
+  assert.equal(second.tokens.refresh_token, first.tokens.refresh_token);
+  assert.ok(await authSessionService.verifyAccessToken(second.tokens.token));
+
+  // A little later still gets the same pair, which keeps working
+  const late = await authSessionService.refresh(issued.refresh_token);
+  assert.ok('tokens' in late);
+  assert.equal(late.tokens.refresh_token, first.tokens.refresh_token);
+  assert.ok('tokens' in await authSessionService.refresh(first.tokens.refresh_token));
+});
+
+test('reusing a traded-in refresh token revokes the whole session', async () => {
+  const issued = await authSessionService.issue(user);
+  const refreshed = await authSessionService.refresh(issued.refresh_token);
+  assert.ok('tokens' in refreshed);
+  // Past the grace window for a second tab
+  await execute('UPDATE auth_sessions SET last_used_at = ? WHERE id = ?', [
+    new Date(Date.now() - 60 * 1000).toISOString(),
+    (await authSessionService.verifyAccessToken(refreshed.tokens.token))!.sessionId,
+  ]);
+
+  const reused = await authSessionService.refresh(issued.refresh_token);
+  assert.ok('status' in reused);
+  assert.equal(reused.status, 401);
+  assert.equal(reused.code, 'REFRESH_TOKEN_REUSED');
+
+  // The copy the legitimate client holds is dead too, along with its access token
+  const afterReuse = await authSessionService.refresh(refreshed.tokens.refresh_token);
+  assert.ok('status' in afterReuse);
+  assert.equal(afterReuse.code, 'SESSION_REVOKED');
+  assert.equal(await authSessionService.verifyAccessToken(refreshed.tokens.token), null);
+});
+
+test('an unknown refresh token is refused without revoking anything', async () => {
+  const issued = await authSessionService.issue(user);
+
+  const result = await authSessionService.refresh('not-a-token');
+  assert.ok('status' in result);
+  assert.equal(result.code, 'INVALID_REFRESH_TOKEN');
+  assert.ok(await authSessionService.verifyAccessToken(issued.token));
+});
+
+test('signing out everywhere ends every session', async () => {
+  const other = await UserModel.create({ email: 'other-devices@example.com', password: 'Password123!' });
+  const first = await authSessionService.issue(other);
+  await authSessionService.issue(other);
+
+  assert.equal(await authSessionService.revokeAll(other.id), 2);
+  assert.deepEqual(await authSessionService.list(other.id), []);
+  assert.equal(await authSessionService.verifyAccessToken(first.token), null);
+});
+
+test('a device has signed in recently for ten minutes, however often it refreshes', async () => {
+  const issued = await authSessionService.issue(user);
+  const sessionId = (await authSessionService.verifyAccessToken(issued.token))!.sessionId;
+  assert.equal(await authSessionService.signedInRecently(sessionId), true);
+
+  await execute('UPDATE auth_sessions SET created_at = ? WHERE id = ?', [
+    toSqliteTime(new Date(Date.now() - 11 * 60 * 1000)),
+    sessionId,
+  ]);
+  const refreshed = await authSessionService.refresh(issued.refresh_token);
+  assert.ok('tokens' in refreshed);
+  assert.equal(await authSessionService.signedInRecently(sessionId), false);
+});
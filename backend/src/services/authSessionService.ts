@@ -0,0 +1,188 @@
+import {
+  AuthSession,
+  AuthSessionModel,
+  AuthSessionSummary,
+  generateRefreshToken,
+  hashRefreshToken,
+  nextRefreshToken,
+} from '../models/AuthSession.js';
+import { User, UserModel } from '../models/User.js';
+import { ACCESS_TOKEN_EXPIRES_IN_SECONDS, JWTPayload, generateToken, verifyToken } from '../utils/jwt.js';
+
+// Refresh tokens expire after this long unused; each refresh extends it
+const REFRESH_TOKEN_TTL_DAYS = 30;
+const MAX_USER_AGENT_LENGTH = 255;
+// Two tabs refreshing at once both send the same token; the one that loses
+// the race gets the pair the winner was given instead of being signed out
+const REFRESH_GRACE_SECONDS = 30;
+// Accounts without a password confirm sensitive changes by having signed in
+// this recently
+const RECENT_SIGN_IN_SECONDS = 10 * 60;
+
+export interface IssuedTokens {
+  token: string;
+  refresh_token: string;
+  expires_in: number;
+}
+
+export type RefreshResult =
+  | { tokens: IssuedTokens }
+  | { status: number; error: string; code: string };
+
+function refreshExpiry(): string {
+  return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+}
+
+// SQLite's datetime('now') is UTC without the T and Z
+function toTime(sqliteTime: string): number {
+  return new Date(sqliteTime.includes('T') ? sqliteTime : `${sqliteTime.replace(' ', 'T')}Z`).getTime();
+}
+
+function accessToken(session: AuthSession, email: string): string {
+  return generateToken({ userId: session.user_id, email, sessionId: session.id });
+}
+
+class AuthSessionService {
+  /**
+   * Sign a user in on a new device: a session with a refresh token, and an
+   * access token tied to it
+   */
+  async issue(user: Pick<User, 'id' | 'email'>, userAgent?: string): Promise<IssuedTokens> {
+    const refreshToken = generateRefreshToken();
+    const session = await AuthSessionModel.create(
+      user.id,
+      refreshToken,
+      refreshExpiry(),
+      userAgent ? userAgent.slice(0, MAX_USER_AGENT_LENGTH) : null
+    );
+
+    return {
+      token: accessToken(session, user.email),
+      refresh_token: refreshToken,
+      expires_in: ACCESS_TOKEN_EXPIRES_IN_SECONDS,
+    };
+  }
+
+  /**
+   * Trade a refresh token for a new access token and a new refresh token.
+   * A token traded in moments ago gets the same new pair again; one traded
+   * in earlier means someone else has a copy, so the whole session is
+   * revoked.
+   */
+  async refresh(refreshToken: string): Promise<RefreshResult> {
+    const session = await AuthSessionModel.findByRefreshToken(refreshToken);
+
+    if (!session) {
+      const reused = await AuthSessionModel.findByPreviousToken(refreshToken);
+      if (reused) {
+        const current = await this.currentPair(reused, refreshToken);
+        if (current) return current;
+
+        await AuthSessionModel.revoke(reused.id);
+        return { status: 401, error: 'Refresh token was already used - signed out', code: 'REFRESH_TOKEN_REUSED' };
+      }
+      return { status: 401, error: 'Invalid refresh token', code: 'INVALID_REFRESH_TOKEN' };
+    }
+
+    if (!AuthSessionModel.isActive(session)) {
+      return { status: 401, error: 'Session has ended', code: 'SESSION_REVOKED' };
+    }
+
+    const user = await UserModel.findById(session.user_id);
+    if (!user) {
+      return { status: 401, error: 'User not found', code: 'INVALID_REFRESH_TOKEN' };
+    }
+
+    const newRefreshToken = nextRefreshToken(session.id, refreshToken);
+    if (!(await AuthSessionModel.rotate(session.id, refreshToken, newRefreshToken, refreshExpiry()))) {
+      // Another request rotated it first
+      const rotated = await AuthSessionModel.findById(session.id);
+      return (rotated && await this.currentPair(rotated, refreshToken))
+        || { status: 401, error: 'Invalid refresh token', code: 'INVALID_REFRESH_TOKEN' };
+    }
+
+    return {
+      tokens: {
+        token: accessToken(session, user.email),
+        refresh_token: newRefreshToken,
+        expires_in: ACCESS_TOKEN_EXPIRES_IN_SECONDS,
+      },
+    };
+  }
+
+  /**
+   * The session's current pair for the token it was just rotated from, or
+   * null once the grace window has passed
+   */
+  private async currentPair(session: AuthSession, previousToken: string): Promise<RefreshResult | null> {
+    const rotatedAgoMs = Date.now() - new Date(session.last_used_at).getTime();
+    if (!AuthSessionModel.isActive(session) || rotatedAgoMs > REFRESH_GRACE_SECONDS * 1000) {
+      return null;
+    }
+
+    const refreshToken = nextRefreshToken(session.id, previousToken);
+    if (hashRefreshToken(refreshToken) !== session.refresh_token_hash) return null;
+
+    const user = await UserModel.findById(session.user_id);
+    if (!user) return null;
+
+    return {
+      tokens: {
+        token: accessToken(session, user.email),
+        refresh_token: refreshToken,
+        expires_in: ACCESS_TOKEN_EXPIRES_IN_SECONDS,
+      },
+    };
+  }
+
+  /**
+   * The payload of an access token whose session is still live, or null
+   */
+  async verifyAccessToken(token: string): Promise<JWTPayload | null> {
+    let payload: JWTPayload;
+    try {
+      payload = verifyToken(token);
+    } catch {
+      return null;
+    }
+    if (!payload.userId || !payload.sessionId) return null;
+
+    const session = await AuthSessionModel.findById(payload.sessionId);
+    if (!session || session.user_id !== payload.userId || !AuthSessionModel.isActive(session)) {
+      return null;
+    }
+
+    return payload;
+  }
+
+  /**
+   * Whether the device signed in (rather than refreshed its way here)
+   * within the last few minutes
+   */
+  async signedInRecently(sessionId: string): Promise<boolean> {
+    const session = await AuthSessionModel.findById(sessionId);
+    return !!session && Date.now() - toTime(session.created_at) <= RECENT_SIGN_IN_SECONDS * 1000;
+  }
+
+  async list(userId: string): Promise<AuthSessionSummary[]> {
+    return AuthSessionModel.findActiveByUserId(userId);
+  }
+
+  /**
+   * End one of the user's sessions. Returns false if it isn't theirs.
+   */
+  async revoke(userId: string, sessionId: string): Promise<boolean> {
+    const session = await AuthSessionModel.findById(sessionId);
+    if (!session || session.user_id !== userId) return false;
+
+    await AuthSessionModel.revoke(sessionId);
+    return true;
+  }
+
+  async revokeAll(userId: string): Promise<number> {
+    return AuthSessionModel.revokeAllForUser(userId);
+  }
+}
+
+export const authSessionService = new AuthSessionService();
+export { AuthSessionService };
@@ -0,0 +1,156 @@
+import { Cohort, CohortMemberModel } from '../models/Cohort.js';
+import { ProgressDocumentModel } from '../models/Progress.js';
+import { SubscriptionModel } from '../models/Subscription.js';
+import { SessionModel, UsageModel } from '../models/Usage.js';
+
+export interface LearnerDashboard {
+  user_id: string;
+  email: string;
+  name: string | null;
+  has_seat: boolean;
+  last_session_at: string | null;
+  practice: {
+    sessions: number;
+    minutes: number;
+    by_mode: Record<string, number>;
+    scenarios_practised: number;
+  };
+  usage: {
+    minutes_today: number;
+    minutes_in_period: number;
+    daily_limit_minutes: number;
+  };
+  scores: {
+    pronunciation_average: number | null;
+    pronunciation_attempts: number;
+    slang_quiz_high_score: number;
+    slang_quizzes_taken: number;
+    slang_cards_reviewed: number;
+  };
+}
+
+export interface CohortDashboard {
+  cohort: Cohort;
+  period: { days: number; since: string };
+  summary: {
+    learners: number;
+    active_learners: number;
+    sessions: number;
+    practice_minutes: number;
+    pronunciation_average: number | null;
+  };
+  learners: LearnerDashboard[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const asObject = (value: unknown): JsonObject =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as JsonObject) : {};
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const asNumber = (value: unknown): number => (typeof value === 'number' && Number.isFinite(value) ? value : 0);
+
+function timestamp(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') return new Date(value).getTime() || 0;
+  return 0;
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+}
+
+const roundMinutes = (minutes: number) => Math.round(minutes * 10) / 10;
+
+class CohortDashboardService {
+  /**
+   * Practice, usage and scores for each learner in a cohort over the last
+   * `days` days. Scores come from the learners' synced progress documents,
+   * so they only cover learners who are signed in on their devices.
+   */
+  async getDashboard(cohort: Cohort, days: number, now: Date = new Date()): Promise<CohortDashboard> {
+    const since = new Date(now.getTime() - days * DAY_MS);
+    const members = (await CohortMemberModel.findByCohortId(cohort.id))
+      .filter(member => member.role === 'learner');
+    const learners = await Promise.all(members.map(async member => ({
+      user_id: member.user_id,
+      email: member.email,
+      name: member.name,
+      has_seat: member.has_seat === 1,
+      ...(await this.getLearnerStats(member.user_id, since)),
+    })));
+
+    const pronunciationAverages = learners
+      .map(learner => learner.scores.pronunciation_average)
+      .filter((score): score is number => score !== null);
+
+    return {
+      cohort,
+      period: { days, since: since.toISOString() },
+      summary: {
+        learners: learners.length,
+        active_learners: learners.filter(learner => learner.practice.sessions > 0).length,
+        sessions: learners.reduce((sum, learner) => sum + learner.practice.sessions, 0),
+        practice_minutes: roundMinutes(learners.reduce((sum, learner) => sum + learner.practice.minutes, 0)),
+        pronunciation_average: average(pronunciationAverages),
+      },
+      learners,
+    };
+  }
+
+  private async getLearnerStats(userId: string, since: Date) {
+    const sessions = await SessionModel.getSessionsSince(userId, since.toISOString());
+    const [lastSession] = await SessionModel.getRecentSessions(userId, 1);
+    const usageToday = await UsageModel.findByUserAndDate(userId, new Date().toISOString().split('T')[0]);
+
+    const byMode: Record<string, number> = {};
+    for (const session of sessions) {
+      const mode = session.mode || 'everyday';
+      byMode[mode] = (byMode[mode] || 0) + 1;
+    }
+
+    return {
+      last_session_at: lastSession?.started_at || null,
+      practice: {
+        sessions: sessions.length,
+        // Billed time also covers sessions still in progress
+        minutes: roundMinutes(sessions.reduce((sum, session) => sum + session.billed_seconds, 0) / 60),
+        by_mode: byMode,
+        scenarios_practised: new Set(sessions.map(session => session.scenario_id).filter(Boolean)).size,
+      },
+      usage: {
+        minutes_today: roundMinutes(usageToday?.minutes_used || 0),
+        minutes_in_period: roundMinutes(await UsageModel.getTotalMinutesSince(userId, since.toISOString().split('T')[0])),
+        daily_limit_minutes: await SubscriptionModel.getUserDailyLimit(userId),
+      },
+      scores: await this.getScores(userId, since.getTime()),
+    };
+  }
+
+  private async getScores(userId: string, sinceMs: number): Promise<LearnerDashboard['scores']> {
+    const pronunciation = asObject((await ProgressDocumentModel.findByKey(userId, 'pronunciation'))?.data);
+    const attempts = asArray(pronunciation.sessions)
+      .flatMap(session => asArray(asObject(session).scores))
+      .map(asObject)
+      .filter(score => timestamp(score.timestamp) >= sinceMs);
+
+    const slang = asObject((await ProgressDocumentModel.findByKey(userId, 'slang-progress'))?.data);
+    const cardsReviewed = Object.values(asObject(slang.cards))
+      .filter(card => timestamp(asObject(card).lastReview) >= sinceMs).length;
+
+    return {
+      pronunciation_average: average(attempts.map(score => asNumber(score.overall))),
+      pronunciation_attempts: attempts.length,
+      slang_quiz_high_score: asNumber(slang.quizHighScore),
+      slang_quizzes_taken: asNumber(slang.totalQuizzesTaken),
+      slang_cards_reviewed: cardsReviewed,
+    };
+  }
+}
+
+export const cohortDashboardService = new CohortDashboardService();
+export { CohortDashboardService };
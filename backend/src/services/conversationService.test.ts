@@ -0,0 +1,149 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { closeTestDatabase, execute, resetTestDatabase } from '../db/testing.js';
+import { UserModel } from '../models/User.js';
+import { SessionModel } from '../models/Usage.js';
+import { ConversationTurnModel } from '../models/Conversation.js';
+import { toSqliteTime } from '../repositories/types.js';
+import { getScenarioById } from '../data/scenarios.js';
+import { conversationService } from './conversationService.js';
+import { TutorModel, TutorStreamChunk } from './tutorModels.js';
+
+before(async () => {
+  await resetTestDatabase();
+});
+
+after(closeTestDatabase);
+
+test('a practice session conversation is only open to its user', async () => {
+  const owner = await UserModel.create({ email: 'owner@example.com', password: 'Password123!' });
+  const other = await UserModel.create({ email: 'other@example.com', password: 'Password123!' });
+  const session = await SessionModel.create(owner.id, 'everyday');
+
+  assert.equal(await conversationService.canAccess(session.id, owner.id), true);
+  assert.equal(await conversationService.canAccess(session.id, other.id), false);
+  assert.equal(await conversationService.canAccess(session.id, null), false);
+});
+
+test('an anonymous conversation is only open under the id it was started with', async () => {
+  const sessionId = conversationService.newConversationId();
+  assert.equal(await conversationService.canAccess(sessionId, null), false);
+
+  await conversationService.startConversation(sessionId, 'everyday');
+  assert.equal(await conversationService.canAccess(sessionId, null), true);
+  assert.equal(await conversationService.canAccess('session_1700000000000_guessed', null), false);
+
+  await conversationService.endConversation(sessionId);
+  assert.equal(await conversationService.canAccess(sessionId, null), false);
+});
+
+test('starting a conversation prunes stale anonymous conversations', async () => {
+  await conversationService.startConversation('stale-anonymous', 'everyday');
+  await conversationService.startConversation('recent-anonymous', 'everyday');
+  await execute('UPDATE conversation_turns SET created_at = ? WHERE session_id = ?', [
+    toSqliteTime(new Date(Date.now() - 2 * 24 * 60 * 60 * 1000)),
+    'stale-anonymous',
+  ]);
+
+  await conversationService.startConversation('new-anonymous', 'slang');
+
+  assert.equal((await ConversationTurnModel.findBySessionId('stale-anonymous')).length, 0);
+  assert.equal((await ConversationTurnModel.findBySessionId('recent-anonymous')).length, 1);
+  assert.equal((await ConversationTurnModel.findBySessionId('new-anonymous')).length, 1);
+});
+
+test('stale practice session transcripts are kept', async () => {
+  const user = await UserModel.create({ email: 'learner@example.com', password: 'Password123!' });
+  const session = await SessionModel.create(user.id, 'everyday');
+  await conversationService.startConversation(session.id, 'everyday');
+  await execute('UPDATE conversation_turns SET created_at = ? WHERE session_id = ?', [
+    toSqliteTime(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)),
+    session.id,
+  ]);
+
+  await conversationService.startConversation('another-anonymous', 'everyday');
+
+  assert.equal((await ConversationTurnModel.findByPracticeSessionId(session.id)).length, 1);
+});
+
+// A tutor model that writes the same raw reply every time, streamed a few
+// characters at a time
+function fixedModel(raw: string): TutorModel {
+  const usage = { model: 'fixed', input_tokens: 1, output_tokens: 1 };
+  return {
+    name: 'fixed',
+    isConfigured: () => true,
+    complete: async () => ({ text: raw, usage }),
+    async *stream(): AsyncGenerator<TutorStreamChunk> {
+      for (let i = 0; i < raw.length; i += 3) {
+        yield { text: raw.slice(i, i + 3), done: false };
+      }
+      yield { text: '', done: true, usage };
+    },
+  };
+}
+
+const structuredTurn = JSON.stringify({
+  reply: 'Good on ya! \u201cArvo\u201d means afternoon. See you this arvo?',
+  emotion: 'excited',
+  corrections: [{ original: 'I am go', corrected: "I'm going", explanation: 'Use the -ing form.' }],
+  vocab: [{ term: 'arvo', meaning: 'afternoon' }],
+  goals_met: [2, 2, 9],
+});
+
+test('a structured turn brings its corrections, vocab and the goals it met', async () => {
+  conversationService.setTutorModel(fixedModel(`Here you go:\n\`\`\`json\n${structuredTurn}\n\`\`\``));
+  const scenario = getScenarioById('phone-screening')!;
+  await conversationService.startConversation('structured', 'everyday', scenario);
+
+  const response = await conversationService.generateResponse('structured', 'I am go to the shop', 'everyday', scenario);
+
+  assert.equal(response.text, 'Good on ya! \u201cArvo\u201d means afternoon. See you this arvo?');
+  assert.equal(response.emotion, 'excited');
+  assert.equal(response.corrections[0].corrected, "I'm going");
+  assert.deepEqual(response.vocab, [{ term: 'arvo', meaning: 'afternoon' }]);
+  // Repeated and out-of-range goal numbers are dropped
+  assert.deepEqual(response.goalsMet, [scenario.goals[1]]);
+  assert.equal((await ConversationTurnModel.findBySessionId('structured')).at(-1)?.content, response.text);
+});
+
+test('a reply that is not a structured turn is spoken as written', async () => {
+  conversationService.setTutorModel(fixedModel('No worries, mate!'));
+  await conversationService.startConversation('plain', 'slang');
+
+  const plain = await conversationService.generateResponse('plain', 'Thanks', 'slang');
+  assert.equal(plain.text, 'No worries, mate!');
+  assert.deepEqual([plain.corrections, plain.vocab, plain.goalsMet], [[], [], []]);
+
+  // Cut off at the token limit: the reply so far is still spoken
+  conversationService.setTutorModel(fixedModel('{"reply": "She\'ll be right, just give it a'));
+  const truncated = await conversationService.generateResponse('plain', 'Will it work?', 'slang');
+  assert.equal(truncated.text, "She'll be right, just give it a");
+});
+
+test('a streamed reply speaks only the reply text and ends with the whole turn', async () => {
+  conversationService.setTutorModel(fixedModel(structuredTurn));
+  const scenario = getScenarioById('phone-screening')!;
+  await conversationService.startConversation('streamed', 'everyday', scenario);
+
+  let spoken = '';
+  let final;
+  for await (const chunk of conversationService.generateResponseStream('streamed', 'I am go to the shop', 'everyday', scenario)) {
+    if (chunk.done) final = chunk.response;
+    else spoken += chunk.text;
+  }
+
+  assert.equal(spoken, 'Good on ya! \u201cArvo\u201d means afternoon. See you this arvo?');
+  assert.equal(final?.text, spoken);
+  assert.equal(final.emotion, 'excited');
+  assert.equal(final.corrections.length, 1);
+  assert.deepEqual(final.goalsMet, [scenario.goals[1]]);
+
+  // Plain text arrives in one piece once complete
+  conversationService.setTutorModel(fixedModel('Too easy!'));
+  const chunks = [];
+  for await (const chunk of conversationService.generateResponseStream('streamed', 'Cheers', 'everyday')) {
+    chunks.push(chunk);
+  }
+  assert.deepEqual(chunks.map(chunk => chunk.text), ['Too easy!', '']);
+});
@@ -1,5 +1,11 @@
-import Anthropic from '@anthropic-ai/sdk';
-import { EmotionType } from './fishAudioService.js';
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import { EmotionType, EMOTION_TYPES } from './speechService.js';
+import { TutorModel, TutorRequest, createTutorModel, getTutorModelConfig } from './tutorModels.js';
+import { ConversationTurnModel } from '../models/Conversation.js';
+import { SubscriptionModel } from '../models/Subscription.js';
+import { SessionModel } from '../models/Usage.js';
+import { Scenario, VocabItem } from '../data/scenarios.js';
 
 export type PracticeMode = 'everyday' | 'slang' | 'workplace';
 
@@ -8,11 +14,49 @@ interface ConversationMessage {
   content: string;
 }
 
-interface ConversationResponse {
+export interface Correction {
+  original: string;
+  corrected: string;
+  explanation: string;
+}
+
+export interface ConversationResponse {
   text: string;
   emotion: EmotionType;
+  // Mistakes in the learner's message
+  corrections: Correction[];
+  // Slang and expressions the reply introduces
+  vocab: VocabItem[];
+  // Scenario goals the learner met with this message
+  goalsMet: string[];
 }
 
+export type ConversationStreamChunk =
+  | { text: string; done: false }
+  // The whole turn, once the reply is complete
+  | { text: ''; done: true; response: ConversationResponse };
+
+// The JSON object the tutor model replies with for a structured turn
+const tutorTurnSchema = z.object({
+  reply: z.string().trim().min(1),
+  // An unknown emotion falls back to detectEmotion()
+  emotion: z.enum(EMOTION_TYPES).optional().catch(undefined),
+  corrections: z.array(z.object({
+    original: z.string().min(1),
+    corrected: z.string().min(1),
+    explanation: z.string(),
+  })).default([]),
+  vocab: z.array(z.object({
+    term: z.string().min(1),
+    meaning: z.string().min(1),
+    example: z.string().optional(),
+  })).default([]),
+  // 1-based numbers of the scenario's goals
+  goals_met: z.array(z.number().int()).default([]),
+});
+
+export type TutorTurn = z.input<typeof tutorTurnSchema>;
+
 // Mode-specific prompts (matching the frontend prompts)
 const modePrompts: Record<PracticeMode, string> = {
   everyday: `You are an Australian English teacher helping students practice everyday conversational English.
@@ -61,100 +105,259 @@ Additional guidelines:
 - If the student makes a mistake, acknowledge what they got right first, then help them improve
 - Respond in a way that continues the conversation naturally
 
-Important: Your responses will be converted to speech, so:
+{{SPEECH_GUIDELINES}}`;
+
+// System prompt for scenario role-plays (matching the ElevenLabs agent overrides)
+const scenarioPromptTemplate = `{{SCENARIO_PROMPT}}
+
+Role-play details:
+- Setting: {{SETTING}}
+- The student is playing: {{YOUR_ROLE}}
+- You are playing: {{THEIR_ROLE}}
+
+The student is working towards these goals:
+{{GOALS}}
+
+Stay in character and steer the conversation so the student gets a chance to meet each goal.
+
+{{SPEECH_GUIDELINES}}`;
+
+const speechGuidelines = `Important: Your responses will be converted to speech, so:
 - Avoid using emojis or special characters
 - Write numbers as words when spoken naturally
 - Keep sentences flowing and natural for speech`;
 
+const structuredReplyGuidelines = `Reply with only a JSON object, and no other text, in this shape:
+{
+  "reply": "what you say to the student, following the guidelines above",
+  "emotion": "the tone to speak your reply in: {{EMOTIONS}}",
+  "corrections": [{"original": "the student's words", "corrected": "a more natural way to say it", "explanation": "a short reason"}],
+  "vocab": [{"term": "slang or expression", "meaning": "what it means", "example": "an example sentence"}],
+  "goals_met": {{GOALS_MET}}
+}
+"corrections" only covers mistakes in the student's last message. "vocab" lists Australian slang and expressions your reply uses that the student may not know. Use empty lists when there are none.`;
+
+// Models sometimes wrap the JSON in a code fence or a sentence
+export function extractJson(text: string): unknown {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end < start) return undefined;
+
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch {
+    return undefined;
+  }
+}
+
+const PARTIAL_REPLY_PATTERN = /"reply"\s*:\s*"((?:[^"\\]|\\.)*)/;
+
+/**
+ * As much of the "reply" field as a structured turn still being written
+ * has, so a streamed reply can be spoken before the JSON is complete
+ */
+function partialReply(text: string): string {
+  const match = PARTIAL_REPLY_PATTERN.exec(text);
+  if (!match) return '';
+
+  // A \u escape may be cut off part way
+  const written = match[1].replace(/\\u[0-9a-fA-F]{0,3}$/, '');
+  try {
+    return JSON.parse(`"${written}"`);
+  } catch {
+    return written;
+  }
+}
+
+/**
+ * The spoken text of a reply that isn't a valid structured turn - the
+ * "reply" field of a JSON object cut off at the token limit, or else the
+ * reply as written
+ */
+function salvageReply(text: string): string {
+  const match = PARTIAL_REPLY_PATTERN.exec(text);
+  if (!match) return text.trim();
+
+  try {
+    return JSON.parse(`"${match[1].replace(/\\$/, '')}"`).trim();
+  } catch {
+    return match[1].trim();
+  }
+}
+
+/**
+ * Build the system prompt for a conversation, preferring the scenario's
+ * role-play details over the generic mode prompt when a scenario is given.
+ * Structured turns also ask for the reply as a JSON object.
+ */
+function buildSystemPrompt(mode: PracticeMode, scenario?: Scenario, structured: boolean = false): string {
+  const prompt = scenario
+    ? scenarioPromptTemplate
+      .replace('{{SCENARIO_PROMPT}}', scenario.prompt)
+      .replace('{{SETTING}}', scenario.setting)
+      .replace('{{YOUR_ROLE}}', scenario.yourRole)
+      .replace('{{THEIR_ROLE}}', scenario.theirRole)
+      .replace('{{GOALS}}', scenario.goals.map((goal, i) => `${i + 1}. ${goal}`).join('\n'))
+      .replace('{{SPEECH_GUIDELINES}}', speechGuidelines)
+    : systemPromptTemplate
+      .replace('{{MODE_PROMPT}}', modePrompts[mode])
+      .replace('{{SPEECH_GUIDELINES}}', speechGuidelines);
+
+  if (!structured) return prompt;
+
+  const structuredGuidelines = structuredReplyGuidelines
+    .replace('{{EMOTIONS}}', EMOTION_TYPES.join(', '))
+    .replace('{{GOALS_MET}}', scenario
+      ? "[the numbers of any goals above that the student's last message achieved]"
+      : '[]');
+  return `${prompt}\n\n${structuredGuidelines}`;
+}
+
+// How long an anonymous conversation is kept after its last turn
+const ANONYMOUS_CONVERSATION_TTL_HOURS = 24;
+
 class ConversationService {
-  private anthropic: Anthropic;
-  private conversations: Map<string, ConversationMessage[]>;
+  private tutorModel: TutorModel;
 
   constructor() {
-    this.anthropic = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    });
-    this.conversations = new Map();
+    this.tutorModel = createTutorModel();
+  }
+
+  setTutorModel(tutorModel: TutorModel): void {
+    this.tutorModel = tutorModel;
+  }
+
+  // Feedback reports are written by the same model
+  getTutorModel(): TutorModel {
+    return this.tutorModel;
+  }
+
+  getTutorModelName(): string {
+    return this.tutorModel.name;
   }
 
   /**
-   * Check if Anthropic is properly configured
+   * Check if the tutor model is properly configured
    */
   isConfigured(): boolean {
-    return !!process.env.ANTHROPIC_API_KEY;
+    return this.tutorModel.isConfigured();
+  }
+
+  /**
+   * Whether a caller may use a conversation. One on a practice session's id
+   * belongs to that session's user. Any other id must be an anonymous
+   * conversation already started with an id from newConversationId(); those
+   * are random, so only the client they were issued to knows them.
+   */
+  async canAccess(sessionId: string, userId: string | null): Promise<boolean> {
+    const session = await SessionModel.findById(sessionId);
+    if (session) return session.user_id === userId;
+    return ConversationTurnModel.exists(sessionId);
   }
 
   /**
-   * Start a new conversation session
+   * Id for a new anonymous conversation. Clients never pick their own.
    */
-  startConversation(sessionId: string, mode: PracticeMode): string {
-    this.conversations.set(sessionId, []);
-    return modeFirstMessages[mode];
+  newConversationId(): string {
+    return uuidv4();
+  }
+
+  /**
+   * Start a new conversation session. Check canAccess() first.
+   */
+  async startConversation(sessionId: string, mode: PracticeMode, scenario?: Scenario): Promise<string> {
+    const firstMessage = scenario ? scenario.firstMessage : modeFirstMessages[mode];
+
+    // Anonymous conversations that were never ended are only kept for a while
+    await ConversationTurnModel.deleteStaleAnonymous(ANONYMOUS_CONVERSATION_TTL_HOURS);
+
+    await ConversationTurnModel.deleteBySessionId(sessionId);
+    await ConversationTurnModel.append(sessionId, 'assistant', firstMessage, 'friendly');
+
+    return firstMessage;
   }
 
   /**
    * Get conversation history
    */
-  getConversationHistory(sessionId: string): ConversationMessage[] {
-    return this.conversations.get(sessionId) || [];
+  async getConversationHistory(sessionId: string): Promise<ConversationMessage[]> {
+    return (await ConversationTurnModel.findBySessionId(sessionId)).map(turn => ({
+      role: turn.role,
+      content: turn.content,
+    }));
   }
 
   /**
    * Clear conversation history
    */
-  clearConversation(sessionId: string): void {
-    this.conversations.delete(sessionId);
+  async clearConversation(sessionId: string): Promise<void> {
+    await ConversationTurnModel.deleteBySessionId(sessionId);
+  }
+
+  /**
+   * End a conversation. Turns linked to a practice session are kept so the
+   * transcript can be reviewed; anonymous conversations are discarded.
+   */
+  async endConversation(sessionId: string): Promise<void> {
+    if (!(await ConversationTurnModel.isLinkedToPracticeSession(sessionId))) {
+      await this.clearConversation(sessionId);
+    }
+  }
+
+  /**
+   * Build the tutor model request for a learner's message, using the model
+   * for the caller's plan (anonymous callers get the free plan's)
+   */
+  private async buildRequest(
+    sessionId: string,
+    userMessage: string,
+    mode: PracticeMode,
+    scenario: Scenario | undefined,
+    userId: string | null,
+    format: TutorRequest['format']
+  ): Promise<TutorRequest> {
+    const plan = userId ? await SubscriptionModel.getEffectivePlan(userId) : 'free';
+    const { model, maxTokens } = getTutorModelConfig(plan);
+
+    const history = await this.getConversationHistory(sessionId);
+    history.push({ role: 'user', content: userMessage });
+
+    return {
+      model,
+      maxTokens,
+      system: buildSystemPrompt(mode, scenario, format === 'json'),
+      messages: history,
+      format,
+      mode,
+      scenarioId: scenario?.id,
+    };
   }
 
   /**
-   * Generate a response using Claude
+   * Generate the tutor's reply, with corrections of the learner's message,
+   * the vocab it introduces and any scenario goals met
    */
   async generateResponse(
     sessionId: string,
     userMessage: string,
-    mode: PracticeMode
+    mode: PracticeMode,
+    scenario?: Scenario,
+    userId: string | null = null
   ): Promise<ConversationResponse> {
     if (!this.isConfigured()) {
-      throw new Error('Anthropic API key not configured');
+      throw new Error('Tutor model not configured');
     }
 
-    // Get or create conversation history
-    const history = this.conversations.get(sessionId) || [];
-
-    // Add the user message to history
-    history.push({ role: 'user', content: userMessage });
+    try {
+      const request = await this.buildRequest(sessionId, userMessage, mode, scenario, userId, 'json');
+      const { text: rawReply, usage } = await this.tutorModel.complete(request);
+      const response = this.parseTurn(rawReply, userMessage, scenario);
 
-    // Build the system prompt
-    const systemPrompt = systemPromptTemplate.replace('{{MODE_PROMPT}}', modePrompts[mode]);
+      // Persist both sides of the turn; the history keeps only the spoken reply
+      await ConversationTurnModel.append(sessionId, 'user', userMessage);
+      await ConversationTurnModel.append(sessionId, 'assistant', response.text, response.emotion, usage);
 
-    try {
-      // Call Claude API
-      const response = await this.anthropic.messages.create({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 300,
-        system: systemPrompt,
-        messages: history.map(msg => ({
-          role: msg.role,
-          content: msg.content,
-        })),
-      });
-
-      // Extract the response text
-      const assistantMessage = response.content[0].type === 'text'
-        ? response.content[0].text
-        : '';
-
-      // Add assistant response to history
-      history.push({ role: 'assistant', content: assistantMessage });
-      this.conversations.set(sessionId, history);
-
-      // Determine emotion based on content
-      const emotion = this.detectEmotion(assistantMessage, userMessage);
-
-      return {
-        text: assistantMessage,
-        emotion,
-      };
+      return response;
     } catch (error) {
       console.error('Error generating response:', error);
       throw new Error('Failed to generate conversation response');
@@ -162,58 +365,86 @@ class ConversationService {
   }
 
   /**
-   * Generate a streaming response using Claude
+   * Generate the tutor's reply, streamed as it is written. The reply is
+   * structured like generateResponse()'s: its spoken text streams as it
+   * arrives, and the last chunk carries the whole turn.
    */
   async *generateResponseStream(
     sessionId: string,
     userMessage: string,
-    mode: PracticeMode
-  ): AsyncGenerator<{ text: string; done: boolean }> {
+    mode: PracticeMode,
+    scenario?: Scenario,
+    userId: string | null = null
+  ): AsyncGenerator<ConversationStreamChunk> {
     if (!this.isConfigured()) {
-      throw new Error('Anthropic API key not configured');
+      throw new Error('Tutor model not configured');
     }
 
-    const history = this.conversations.get(sessionId) || [];
-    history.push({ role: 'user', content: userMessage });
-
-    const systemPrompt = systemPromptTemplate.replace('{{MODE_PROMPT}}', modePrompts[mode]);
-
     try {
-      const stream = await this.anthropic.messages.stream({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 300,
-        system: systemPrompt,
-        messages: history.map(msg => ({
-          role: msg.role,
-          content: msg.content,
-        })),
-      });
-
-      let fullResponse = '';
-
-      for await (const event of stream) {
-        if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
-          const text = event.delta.text;
-          fullResponse += text;
-          yield { text, done: false };
+      const request = await this.buildRequest(sessionId, userMessage, mode, scenario, userId, 'json');
+      let rawReply = '';
+      let spoken = '';
+
+      for await (const chunk of this.tutorModel.stream(request)) {
+        if (!chunk.done) {
+          rawReply += chunk.text;
+          const reply = partialReply(rawReply);
+          if (reply.length > spoken.length && reply.startsWith(spoken)) {
+            yield { text: reply.slice(spoken.length), done: false };
+            spoken = reply;
+          }
+          continue;
         }
-      }
 
-      // Save the complete response to history
-      history.push({ role: 'assistant', content: fullResponse });
-      this.conversations.set(sessionId, history);
+        const response = this.parseTurn(rawReply, userMessage, scenario);
+        // A reply that wasn't JSON is only spoken once it is complete
+        if (!spoken) {
+          yield { text: response.text, done: false };
+        }
 
-      yield { text: '', done: true };
+        // Save the complete turn to history
+        await ConversationTurnModel.append(sessionId, 'user', userMessage);
+        await ConversationTurnModel.append(sessionId, 'assistant', response.text, response.emotion, chunk.usage);
+
+        yield { text: '', done: true, response };
+      }
     } catch (error) {
       console.error('Error generating streaming response:', error);
       throw new Error('Failed to generate conversation response');
     }
   }
 
+  /**
+   * Read a structured turn from the tutor model's reply. A reply that isn't
+   * a JSON object of the expected shape is spoken as-is, with no teaching
+   * content.
+   */
+  private parseTurn(rawReply: string, userMessage: string, scenario?: Scenario): ConversationResponse {
+    const parsed = tutorTurnSchema.safeParse(extractJson(rawReply));
+    if (!parsed.success) {
+      console.warn('Tutor reply was not a structured turn - using it as plain text');
+      const text = salvageReply(rawReply);
+      return { text, emotion: this.detectEmotion(text, userMessage), corrections: [], vocab: [], goalsMet: [] };
+    }
+
+    const turn = parsed.data;
+    const goals = scenario?.goals ?? [];
+
+    return {
+      text: turn.reply,
+      emotion: turn.emotion ?? this.detectEmotion(turn.reply, userMessage),
+      corrections: turn.corrections,
+      vocab: turn.vocab,
+      goalsMet: [...new Set(turn.goals_met)]
+        .filter(goal => goal >= 1 && goal <= goals.length)
+        .map(goal => goals[goal - 1]),
+    };
+  }
+
   /**
    * Detect appropriate emotion for TTS based on message content
    */
-  private detectEmotion(assistantMessage: string, userMessage: string): EmotionType {
+  detectEmotion(assistantMessage: string, userMessage: string): EmotionType {
     const lowerResponse = assistantMessage.toLowerCase();
     const lowerUser = userMessage.toLowerCase();
 
@@ -0,0 +1,157 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { closeTestDatabase, execute, resetTestDatabase } from '../db/testing.js';
+import { getScenarioById } from '../data/scenarios.js';
+import { UserModel } from '../models/User.js';
+import { SessionModel, UsageModel } from '../models/Usage.js';
+import { SessionReportModel } from '../models/SessionReport.js';
+import { ConversationTurnModel } from '../models/Conversation.js';
+import { VoiceUsageModel } from '../models/VoiceUsage.js';
+import { toSqliteTime } from '../repositories/types.js';
+import { conversationService } from './conversationService.js';
+import { feedbackReportService } from './feedbackReportService.js';
+import { ScriptedTutorModel, TutorModel, TutorRequest, getTutorModelConfig } from './tutorModels.js';
+
+const requests: TutorRequest[] = [];
+
+// The scripted tutor, remembering what it was asked
+function recordingModel(scripted: TutorModel): TutorModel {
+  return {
+    name: scripted.name,
+    isConfigured: () => true,
+    complete: request => {
+      requests.push(request);
+      return scripted.complete(request);
+    },
+    stream: request => scripted.stream(request),
+  };
+}
+
+const transcript = [
+  { role: 'assistant' as const, content: "G'day, thanks for taking my call." },
+  { role: 'user' as const, content: 'No worries, I am very keen for this job.' },
+];
+
+before(async () => {
+  await resetTestDatabase();
+});
+
+after(closeTestDatabase);
+
+test('reports are written by the configured tutor model with the plan\'s model', async () => {
+  conversationService.setTutorModel(recordingModel(new ScriptedTutorModel({
+    modes: { everyday: [], slang: [], workplace: [] },
+    report: {
+      corrections: [{ utterance: 'I am very keen for this job', corrected: "I'm really keen on this job", explanation: 'Keen takes on.' }],
+      aussie_phrases_used_well: [{ phrase: 'No worries', comment: 'Relaxed and natural.' }],
+      next_steps: ['One', 'Two', 'Three'],
+    },
+  })));
+
+  const scenario = getScenarioById('phone-screening');
+  const { report, usage } = await feedbackReportService.generateReport(transcript, 'starter', 'workplace', scenario);
+
+  assert.equal(requests.at(-1)?.format, 'report');
+  assert.equal(requests.at(-1)?.model, getTutorModelConfig('starter').model);
+  assert.equal(report.corrections[0].corrected, "I'm really keen on this job");
+  assert.equal(report.aussie_phrases_used_well[0].phrase, 'No worries');
+  // Vocab the learner used isn't reported as missed
+  const missed = report.missed_vocab.map(item => item.term);
+  assert.ok(missed.includes('How ya going?'));
+  assert.ok(!missed.includes('No worries'));
+  assert.ok(!missed.includes('Keen'));
+
+  assert.equal(usage.model, 'scripted');
+  assert.ok(usage.input_tokens > 0 && usage.output_tokens > 0);
+});
+
+test('a report that does not match the expected shape is refused', async () => {
+  conversationService.setTutorModel(new ScriptedTutorModel({
+    modes: { everyday: [], slang: [], workplace: [] },
+    report: { corrections: [], aussie_phrases_used_well: [], next_steps: [] },
+  }));
+
+  await assert.rejects(
+    feedbackReportService.generateReport(transcript, 'free', 'everyday'),
+    /failed validation/
+  );
+});
+
+test('extra next steps are trimmed to three', async () => {
+  conversationService.setTutorModel(new ScriptedTutorModel({
+    modes: { everyday: [], slang: [], workplace: [] },
+    report: { corrections: [], aussie_phrases_used_well: [], next_steps: ['One', 'Two', 'Three', 'Four'] },
+  }));
+
+  const { report } = await feedbackReportService.generateReport(transcript, 'free', 'everyday');
+  assert.deepEqual(report.next_steps, ['One', 'Two', 'Three']);
+});
+
+test('a saved report keeps the model and tokens that wrote it', async () => {
+  const user = await UserModel.create({ email: 'report@example.com', password: 'Password123!' });
+  const session = await SessionModel.create(user.id, 'everyday');
+  conversationService.setTutorModel(new ScriptedTutorModel());
+
+  const { report, usage } = await feedbackReportService.generateReport(transcript, 'free', 'everyday');
+  await SessionReportModel.save(session.id, report, usage);
+
+  const stored = await SessionReportModel.findBySessionId(session.id);
+  assert.equal(stored?.report.next_steps.length, 3);
+  assert.equal(stored.model, 'scripted');
+  assert.equal(stored.input_tokens, usage.input_tokens);
+  assert.equal(stored.output_tokens, usage.output_tokens);
+});
+
+test('a session keeps its report until asked for a new one, and not too often', async () => {
+  const user = await UserModel.create({ email: 'report-again@example.com', password: 'Password123!' });
+  const session = await SessionModel.create(user.id, 'everyday');
+  for (const message of transcript) {
+    await ConversationTurnModel.append(session.id, message.role, message.content);
+  }
+  requests.length = 0;
+  conversationService.setTutorModel(recordingModel(new ScriptedTutorModel()));
+
+  const first = await feedbackReportService.reportForSession(session, 'free');
+  assert.ok('stored' in first && first.generated);
+
+  const again = await feedbackReportService.reportForSession(session, 'free');
+  assert.ok('stored' in again);
+  assert.equal(again.generated, false);
+  assert.equal(requests.length, 1);
+
+  const tooSoon = await feedbackReportService.reportForSession(session, 'free', true);
+  assert.ok('status' in tooSoon);
+  assert.equal(tooSoon.status, 429);
+  assert.equal(tooSoon.code, 'REPORT_RECENTLY_GENERATED');
+  assert.ok(tooSoon.retry_after_seconds! > 0);
+  assert.equal(requests.length, 1);
+
+  await execute('UPDATE session_reports SET updated_at = ? WHERE session_id = ?', [
+    toSqliteTime(new Date(Date.now() - 11 * 60 * 1000)),
+    session.id,
+  ]);
+  const regenerated = await feedbackReportService.reportForSession(session, 'free', true);
+  assert.ok('stored' in regenerated && regenerated.generated);
+  assert.equal(requests.length, 2);
+
+  // Only the rewrite is charged
+  assert.deepEqual((await VoiceUsageModel.findByUserId(user.id)).map(record => [record.route, record.llm_turns]), [['sessions/report', 1]]);
+});
+
+test('a report is not rewritten once the day\'s allowance is used', async () => {
+  const user = await UserModel.create({ email: 'report-allowance@example.com', password: 'Password123!' });
+  const session = await SessionModel.create(user.id, 'everyday');
+  await ConversationTurnModel.append(session.id, 'user', 'No worries, I am very keen for this job.');
+  conversationService.setTutorModel(recordingModel(new ScriptedTutorModel()));
+  assert.ok('stored' in await feedbackReportService.reportForSession(session, 'free'));
+
+  await UsageModel.addMinutes(user.id, 2);
+  await execute('UPDATE session_reports SET updated_at = ? WHERE session_id = ?', [
+    toSqliteTime(new Date(Date.now() - 11 * 60 * 1000)),
+    session.id,
+  ]);
+  const refused = await feedbackReportService.reportForSession(session, 'free', true);
+  assert.ok('status' in refused);
+  assert.equal(refused.status, 403);
+  assert.equal(refused.code, 'USAGE_LIMIT_REACHED');
+});
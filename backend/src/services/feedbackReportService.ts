@@ -0,0 +1,228 @@
+import { z } from 'zod';
+import { Scenario, VocabItem, getScenarioById } from '../data/scenarios.js';
+import type { PlanType } from '../models/Subscription.js';
+import type { PracticeSession } from '../models/Usage.js';
+import { ConversationTurnModel, TurnUsage } from '../models/Conversation.js';
+import { SessionReportModel, StoredSessionReport } from '../models/SessionReport.js';
+import { PracticeMode, conversationService, extractJson } from './conversationService.js';
+import { getTutorModelConfig } from './tutorModels.js';
+import { VoiceAllowance, VoiceMeter, voiceMeteringService } from './voiceMeteringService.js';
+
+interface TranscriptMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface UtteranceCorrection {
+  utterance: string;
+  corrected: string;
+  explanation: string;
+}
+
+export interface PhraseUsedWell {
+  phrase: string;
+  comment: string;
+}
+
+export interface FeedbackReport {
+  corrections: UtteranceCorrection[];
+  aussie_phrases_used_well: PhraseUsedWell[];
+  missed_vocab: VocabItem[];
+  next_steps: string[];
+}
+
+// Shape the tutor model must return
+const modelReportSchema = z.object({
+  corrections: z.array(z.object({
+    utterance: z.string(),
+    corrected: z.string(),
+    explanation: z.string(),
+  })),
+  aussie_phrases_used_well: z.array(z.object({
+    phrase: z.string(),
+    comment: z.string(),
+  })),
+  // Three are asked for; a list a little off is trimmed rather than refused
+  next_steps: z.array(z.string()).min(1).max(5),
+});
+
+const reportSystemPrompt = `You are "Your Aussie Uncle", a friendly Australian English teacher reviewing a recorded practice conversation.
+
+Review only what the student said (lines starting "Student:"). The tutor's lines are context.
+
+Guidelines:
+- Only list corrections for utterances that actually contain a mistake; speech-to-text may drop punctuation, so ignore punctuation and capitalisation
+- Prefer natural Australian workplace English in corrected versions
+- Keep explanations to one or two encouraging sentences
+- Next steps must be specific and achievable in the student's next session
+
+Respond with only a JSON object, no other text:
+{"corrections": [{"utterance": "the student utterance, quoted exactly", "corrected": "a natural Australian English version", "explanation": "a short, friendly explanation of the change"}], "aussie_phrases_used_well": [{"phrase": "an Australian expression the student used naturally", "comment": "why it worked well"}], "next_steps": ["exactly three concrete things to practise next"]}
+
+Use an empty list when there are no corrections or phrases used well.`;
+
+// Reports are longer than a tutor turn
+const REPORT_MAX_TOKENS = 1500;
+
+// Each report is a long tutor model call, so a session's report can only be
+// rewritten this often
+const REPORT_REGENERATE_COOLDOWN_SECONDS = 10 * 60;
+
+export interface GeneratedReport {
+  report: FeedbackReport;
+  usage: TurnUsage;
+}
+
+export type SessionReportResult =
+  | { stored: StoredSessionReport; generated: boolean }
+  | ({ status: number; error: string; code?: string; retry_after_seconds?: number } & Partial<Omit<VoiceAllowance, 'allowed'>>);
+
+// SQLite's datetime('now') is UTC without the T and Z
+function toTime(sqliteTime: string): number {
+  return new Date(sqliteTime.includes('T') ? sqliteTime : `${sqliteTime.replace(' ', 'T')}Z`).getTime();
+}
+
+/**
+ * Normalise text for vocabulary matching (case, punctuation and apostrophes)
+ */
+function normaliseForMatch(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[^a-z0-9' ]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Vocabulary from the scenario preview that the student never said
+ */
+export function findMissedVocab(userUtterances: string[], vocab: VocabItem[]): VocabItem[] {
+  const spoken = ` ${normaliseForMatch(userUtterances.join(' '))} `;
+  return vocab.filter(item => !spoken.includes(` ${normaliseForMatch(item.term)} `));
+}
+
+class FeedbackReportService {
+  isConfigured(): boolean {
+    return conversationService.getTutorModel().isConfigured();
+  }
+
+  /**
+   * Generate a feedback report from a session transcript with the tutor
+   * model for the user's plan
+   */
+  async generateReport(
+    transcript: TranscriptMessage[],
+    plan: PlanType,
+    mode: PracticeMode,
+    scenario?: Scenario
+  ): Promise<GeneratedReport> {
+    if (!this.isConfigured()) {
+      throw new Error('Tutor model not configured');
+    }
+
+    const userUtterances = transcript.filter(m => m.role === 'user').map(m => m.content);
+    if (userUtterances.length === 0) {
+      throw new Error('Transcript has no student utterances');
+    }
+
+    const context = scenario
+      ? `Scenario: ${scenario.title}\nThe student played: ${scenario.yourRole}\nGoals:\n${scenario.goals.map(g => `- ${g}`).join('\n')}\nTarget vocabulary: ${scenario.vocabPreview.map(v => v.term).join(', ')}\n\n`
+      : '';
+
+    const conversation = transcript
+      .map(m => `${m.role === 'user' ? 'Student' : 'Tutor'}: ${m.content}`)
+      .join('\n');
+
+    const { text, usage } = await conversationService.getTutorModel().complete({
+      model: getTutorModelConfig(plan).model,
+      maxTokens: REPORT_MAX_TOKENS,
+      system: reportSystemPrompt,
+      messages: [
+        {
+          role: 'user',
+          content: `${context}Transcript:\n${conversation}`,
+        },
+      ],
+      mode,
+      scenarioId: scenario?.id,
+      format: 'report',
+    });
+
+    const validation = modelReportSchema.safeParse(extractJson(text));
+    if (!validation.success) {
+      console.error('Invalid feedback report:', validation.error.errors);
+      throw new Error('Feedback report failed validation');
+    }
+
+    return {
+      report: {
+        ...validation.data,
+        next_steps: validation.data.next_steps.slice(0, 3),
+        missed_vocab: scenario ? findMissedVocab(userUtterances, scenario.vocabPreview) : [],
+      },
+      usage,
+    };
+  }
+
+  /**
+   * A practice session's report. One already written is returned as is;
+   * `regenerate` writes a new one, at most once per cooldown.
+   */
+  async reportForSession(session: PracticeSession, plan: PlanType, regenerate: boolean = false): Promise<SessionReportResult> {
+    const existing = await SessionReportModel.findBySessionId(session.id);
+    if (existing && !regenerate) {
+      return { stored: existing, generated: false };
+    }
+
+    // The first report comes with the session; a new one is charged like a
+    // tutor reply, outside the session's billed time
+    const meter: VoiceMeter = { userId: session.user_id, device: null, practiceSessionId: null };
+
+    if (existing) {
+      const elapsedSeconds = (Date.now() - toTime(existing.updated_at)) / 1000;
+      const retryAfter = Math.ceil(REPORT_REGENERATE_COOLDOWN_SECONDS - elapsedSeconds);
+      if (retryAfter > 0) {
+        return {
+          status: 429,
+          error: 'This report was generated recently, try again later',
+          code: 'REPORT_RECENTLY_GENERATED',
+          retry_after_seconds: retryAfter,
+        };
+      }
+
+      const allowance = await voiceMeteringService.getAllowance(meter);
+      if (!allowance.allowed) {
+        return {
+          status: 403,
+          error: 'Daily usage limit reached',
+          code: 'USAGE_LIMIT_REACHED',
+          daily_limit_minutes: allowance.daily_limit_minutes,
+          minutes_used: allowance.minutes_used,
+          remaining_minutes: 0,
+        };
+      }
+    }
+
+    const turns = await ConversationTurnModel.findByPracticeSessionId(session.id);
+    if (!turns.some(turn => turn.role === 'user')) {
+      return { status: 400, error: 'Session has no transcript to review' };
+    }
+
+    const { report, usage } = await this.generateReport(
+      turns.map(turn => ({ role: turn.role, content: turn.content })),
+      plan,
+      session.mode ?? 'everyday',
+      session.scenario_id ? getScenarioById(session.scenario_id) : undefined
+    );
+
+    if (existing) {
+      await voiceMeteringService.record(meter, 'sessions/report', { llmTurns: 1 });
+    }
+
+    return { stored: await SessionReportModel.save(session.id, report, usage), generated: true };
+  }
+}
+
+export const feedbackReportService = new FeedbackReportService();
+export { FeedbackReportService };
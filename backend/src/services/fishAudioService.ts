@@ -1,35 +1,26 @@
+import type {
+  SpeechProvider,
+  SynthesisRequest,
+  TranscriptionResult,
+  SpeechChunk,
+  AudioInputFormat,
+  EmotionType,
+} from './speechService.js';
+
 // Fish Audio API configuration
 const FISH_AUDIO_BASE_URL = 'https://api.fish.audio';
 
-interface TTSRequest {
-  text: string;
-  voiceId?: string;
-  format?: 'mp3' | 'wav' | 'opus';
-  latency?: 'normal' | 'balanced';
-}
-
-interface ASRResponse {
-  text: string;
-  duration?: number;
-  language?: string;
-}
-
-interface TTSStreamChunk {
-  audio: Buffer;
-  done: boolean;
-}
-
-class FishAudioService {
+/**
+ * Hosted speech recognition and synthesis with a cloned voice
+ */
+class FishAudioService implements SpeechProvider {
+  readonly name = 'fish-audio';
   private apiKey: string;
   private defaultVoiceId: string;
 
-  constructor() {
-    this.apiKey = process.env.FISH_AUDIO_API_KEY || '';
-    this.defaultVoiceId = process.env.FISH_AUDIO_VOICE_ID || '';
-
-    if (!this.apiKey) {
-      console.warn('FISH_AUDIO_API_KEY not set - Fish Audio features will be disabled');
-    }
+  constructor(apiKey: string, defaultVoiceId: string) {
+    this.apiKey = apiKey;
+    this.defaultVoiceId = defaultVoiceId;
   }
 
   /**
@@ -42,7 +33,11 @@ class FishAudioService {
   /**
    * Transcribe audio using Fish Audio ASR (Speech-to-Text)
    */
-  async transcribe(audioBuffer: Buffer, language: string = 'en'): Promise<ASRResponse> {
+  async transcribe(
+    audioBuffer: Buffer,
+    language: string = 'en',
+    format: AudioInputFormat = 'webm'
+  ): Promise<TranscriptionResult> {
     if (!this.apiKey) {
       throw new Error('Fish Audio API key not configured');
     }
@@ -50,8 +45,8 @@ class FishAudioService {
     const formData = new FormData();
     // Convert Buffer to Uint8Array for Blob compatibility
     const uint8Array = new Uint8Array(audioBuffer);
-    const blob = new Blob([uint8Array], { type: 'audio/webm' });
-    formData.append('audio', blob, 'audio.webm');
+    const blob = new Blob([uint8Array], { type: `audio/${format}` });
+    formData.append('audio', blob, `audio.${format}`);
     formData.append('language', language);
 
     const response = await fetch(`${FISH_AUDIO_BASE_URL}/v1/asr`, {
@@ -86,7 +81,7 @@ class FishAudioService {
    * Convert text to speech using Fish Audio TTS
    * Returns the audio as a Buffer
    */
-  async textToSpeech(options: TTSRequest): Promise<Buffer> {
+  async synthesize(options: SynthesisRequest): Promise<Buffer> {
     if (!this.apiKey) {
       throw new Error('Fish Audio API key not configured');
     }
@@ -103,7 +98,7 @@ class FishAudioService {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        text: options.text,
+        text: this.withEmotion(options),
         reference_id: voiceId,
         format: options.format || 'mp3',
         latency: options.latency || 'balanced',
@@ -131,7 +126,7 @@ class FishAudioService {
    * Stream text to speech using Fish Audio WebSocket for low latency
    * Yields audio chunks as they become available
    */
-  async *textToSpeechStream(options: TTSRequest): AsyncGenerator<TTSStreamChunk> {
+  async *synthesizeStream(options: SynthesisRequest): AsyncGenerator<SpeechChunk> {
     if (!this.apiKey) {
       throw new Error('Fish Audio API key not configured');
     }
@@ -149,7 +144,7 @@ class FishAudioService {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        text: options.text,
+        text: this.withEmotion(options),
         reference_id: voiceId,
         format: options.format || 'mp3',
         latency: options.latency || 'balanced',
@@ -182,6 +177,10 @@ class FishAudioService {
     }
   }
 
+  private withEmotion(options: SynthesisRequest): string {
+    return options.emotion ? this.addEmotionMarker(options.text, options.emotion) : options.text;
+  }
+
   /**
    * Add emotion markers to text for expressive TTS
    * Fish Audio supports 64+ emotion markers
@@ -217,15 +216,4 @@ class FishAudioService {
   }
 }
 
-export type EmotionType =
-  | 'encouraging'
-  | 'calm'
-  | 'happy'
-  | 'empathetic'
-  | 'curious'
-  | 'excited'
-  | 'friendly'
-  | 'professional';
-
-export const fishAudioService = new FishAudioService();
 export { FishAudioService };
@@ -0,0 +1,119 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Delivers mail. Pick one with MAIL_TRANSPORT, or plug in another with
+ * mailService.setTransport().
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Logs mail to the console - the development default
+ */
+export class ConsoleTransport implements MailTransport {
+  readonly name = 'console';
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+/**
+ * Writes each message to a JSON file in a directory, for inspecting mail in
+ * development and for end-to-end tests to read links back out of
+ */
+export class FileTransport implements MailTransport {
+  readonly name = 'file';
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const file = path.join(this.directory, `${Date.now()}-${safeRecipient}.json`);
+    await fs.writeFile(file, JSON.stringify({ ...message, sent_at: new Date().toISOString() }, null, 2));
+  }
+}
+
+/**
+ * Sends through the Resend HTTP API
+ */
+export class ResendTransport implements MailTransport {
+  readonly name = 'resend';
+
+  constructor(private readonly apiKey: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: message.from,
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Resend error: ${response.status} - ${error}`);
+    }
+  }
+}
+
+function createTransport(): MailTransport {
+  const transport = process.env.MAIL_TRANSPORT || 'console';
+
+  if (transport === 'file') {
+    return new FileTransport(process.env.MAIL_DIR || path.resolve('mail'));
+  }
+
+  if (transport === 'resend') {
+    if (!process.env.RESEND_API_KEY) {
+      console.warn('RESEND_API_KEY not set - falling back to logging mail to the console');
+      return new ConsoleTransport();
+    }
+    return new ResendTransport(process.env.RESEND_API_KEY);
+  }
+
+  if (transport !== 'console') {
+    console.warn(`Unknown MAIL_TRANSPORT "${transport}" - logging mail to the console`);
+  }
+  return new ConsoleTransport();
+}
+
+class MailService {
+  private transport: MailTransport;
+  private from: string;
+
+  constructor() {
+    this.transport = createTransport();
+    this.from = process.env.MAIL_FROM || 'Your Aussie Uncle <no-reply@youraussieuncle.com>';
+  }
+
+  setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.send({ ...message, from: this.from });
+  }
+}
+
+export const mailService = new MailService();
+export { MailService };
@@ -0,0 +1,141 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+
+/**
+ * A stand-in OpenID Connect issuer for development and end-to-end tests.
+ * It signs in whoever the authorization request names (login_hint) without
+ * asking, so it must never be enabled in production.
+ */
+
+export interface MockAuthorizeParams {
+  client_id: string;
+  redirect_uri: string;
+  state: string;
+  nonce: string;
+  code_challenge?: string;
+  login_hint?: string;
+  name?: string;
+  // Pass "false" to sign in as an unverified email
+  email_verified?: string;
+}
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  nonce: string;
+  codeChallenge: string | null;
+  email: string;
+  name: string | null;
+  emailVerified: boolean;
+  expiresAt: number;
+}
+
+export type MockTokenResult =
+  | { id_token: string; access_token: string; token_type: 'Bearer'; expires_in: number }
+  | { status: number; error: string };
+
+const CODE_TTL_MS = 60 * 1000;
+const ID_TOKEN_TTL_SECONDS = 5 * 60;
+const DEFAULT_EMAIL = 'mock.learner@example.com';
+
+class MockOidcIssuer {
+  readonly keyId = 'mock-key';
+  private readonly privateKey: crypto.KeyObject;
+  private readonly publicKey: crypto.KeyObject;
+  private codes = new Map<string, PendingCode>();
+
+  constructor(
+    readonly issuerUrl: string,
+    readonly clientId: string,
+    readonly clientSecret: string,
+    private readonly redirectUri: string
+  ) {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    this.privateKey = privateKey;
+    this.publicKey = publicKey;
+  }
+
+  /**
+   * Approve an authorization request straight away. Returns the URL to send
+   * the browser back to, or an error message.
+   */
+  authorize(params: MockAuthorizeParams): { redirect: string } | { error: string } {
+    if (params.client_id !== this.clientId) {
+      return { error: 'Unknown client_id' };
+    }
+    if (params.redirect_uri !== this.redirectUri) {
+      return { error: 'redirect_uri is not registered' };
+    }
+
+    const code = crypto.randomBytes(16).toString('base64url');
+    this.codes.set(code, {
+      clientId: params.client_id,
+      redirectUri: params.redirect_uri,
+      nonce: params.nonce,
+      codeChallenge: params.code_challenge || null,
+      email: (params.login_hint || DEFAULT_EMAIL).toLowerCase(),
+      name: params.name || null,
+      emailVerified: params.email_verified !== 'false',
+      expiresAt: Date.now() + CODE_TTL_MS,
+    });
+
+    const redirect = new URL(params.redirect_uri);
+    redirect.searchParams.set('code', code);
+    redirect.searchParams.set('state', params.state);
+    return { redirect: redirect.toString() };
+  }
+
+  token(params: Record<string, string | undefined>): MockTokenResult {
+    if (params.client_id !== this.clientId || params.client_secret !== this.clientSecret) {
+      return { status: 401, error: 'invalid_client' };
+    }
+
+    const pending = params.code ? this.codes.get(params.code) : undefined;
+    if (params.code) this.codes.delete(params.code);
+
+    if (!pending || pending.expiresAt < Date.now() || pending.redirectUri !== params.redirect_uri) {
+      return { status: 400, error: 'invalid_grant' };
+    }
+
+    if (pending.codeChallenge) {
+      const challenge = crypto.createHash('sha256').update(params.code_verifier || '').digest('base64url');
+      if (challenge !== pending.codeChallenge) {
+        return { status: 400, error: 'invalid_grant' };
+      }
+    }
+
+    const idToken = jwt.sign(
+      {
+        nonce: pending.nonce,
+        email: pending.email,
+        email_verified: pending.emailVerified,
+        ...(pending.name ? { name: pending.name } : {}),
+      },
+      this.privateKey,
+      {
+        algorithm: 'RS256',
+        keyid: this.keyId,
+        issuer: this.issuerUrl,
+        audience: pending.clientId,
+        // The same email always gets the same subject, like a real account
+        subject: `mock-${crypto.createHash('sha256').update(pending.email).digest('hex').slice(0, 16)}`,
+        expiresIn: ID_TOKEN_TTL_SECONDS,
+      }
+    );
+
+    return {
+      id_token: idToken,
+      access_token: crypto.randomBytes(16).toString('base64url'),
+      token_type: 'Bearer',
+      expires_in: ID_TOKEN_TTL_SECONDS,
+    };
+  }
+
+  jwks(): { keys: crypto.JsonWebKey[] } {
+    return {
+      keys: [{ ...this.publicKey.export({ format: 'jwk' }), kid: this.keyId, alg: 'RS256', use: 'sig' }],
+    };
+  }
+}
+
+export { MockOidcIssuer };
@@ -0,0 +1,299 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+
+/**
+ * Who the provider says signed in. The subject is the provider's stable id
+ * for the account; the email can change and may not be verified.
+ */
+export interface OAuthIdentity {
+  subject: string;
+  email: string | null;
+  email_verified: boolean;
+  name: string | null;
+}
+
+export interface AuthorizationParams {
+  redirectUri: string;
+  state: string;
+  nonce: string;
+  codeChallenge?: string;
+  loginHint?: string;
+}
+
+export interface CallbackParams {
+  code: string;
+  redirectUri: string;
+  nonce: string;
+  codeVerifier?: string;
+}
+
+/**
+ * An external sign-in provider. Add one by implementing this and
+ * registering it in createProviders().
+ */
+export interface OAuthProvider {
+  readonly id: string;
+  readonly label: string;
+  // Whether to send a PKCE challenge with the authorization request
+  readonly usesPkce: boolean;
+  // Whether the browser comes back with a cross-site form post
+  readonly postsCallback: boolean;
+  getAuthorizationUrl(params: AuthorizationParams): string;
+  authenticate(params: CallbackParams): Promise<OAuthIdentity>;
+}
+
+export interface OidcProviderConfig {
+  id: string;
+  label: string;
+  issuers: string[];
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  jwksUri: string;
+  clientId: string;
+  // Called per token request, as Apple's secret is a short-lived JWT
+  getClientSecret: () => string;
+  scope: string;
+  usesPkce: boolean;
+  // Apple posts the callback back as a form when asking for the email
+  responseMode?: 'query' | 'form_post';
+  extraAuthorizationParams?: Record<string, string>;
+}
+
+const JWKS_CACHE_MS = 60 * 60 * 1000;
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'ES256'];
+
+interface IdTokenClaims {
+  sub: string;
+  nonce?: string;
+  email?: string;
+  // Apple sends these as strings
+  email_verified?: boolean | string;
+  name?: string;
+}
+
+/**
+ * An OpenID Connect provider using the authorization code flow. The id
+ * token from the token endpoint is checked against the provider's
+ * published keys, issuer, client id and the nonce we sent.
+ */
+export class OidcProvider implements OAuthProvider {
+  private keys = new Map<string, crypto.KeyObject>();
+  private keysFetchedAt = 0;
+
+  constructor(private readonly config: OidcProviderConfig) {}
+
+  get id(): string {
+    return this.config.id;
+  }
+
+  get label(): string {
+    return this.config.label;
+  }
+
+  get usesPkce(): boolean {
+    return this.config.usesPkce;
+  }
+
+  get postsCallback(): boolean {
+    return this.config.responseMode === 'form_post';
+  }
+
+  getAuthorizationUrl(params: AuthorizationParams): string {
+    const url = new URL(this.config.authorizationEndpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', this.config.clientId);
+    url.searchParams.set('redirect_uri', params.redirectUri);
+    url.searchParams.set('scope', this.config.scope);
+    url.searchParams.set('state', params.state);
+    url.searchParams.set('nonce', params.nonce);
+    if (this.config.responseMode) {
+      url.searchParams.set('response_mode', this.config.responseMode);
+    }
+    if (params.codeChallenge) {
+      url.searchParams.set('code_challenge', params.codeChallenge);
+      url.searchParams.set('code_challenge_method', 'S256');
+    }
+    if (params.loginHint) {
+      url.searchParams.set('login_hint', params.loginHint);
+    }
+    for (const [key, value] of Object.entries(this.config.extraAuthorizationParams || {})) {
+      url.searchParams.set(key, value);
+    }
+    return url.toString();
+  }
+
+  async authenticate(params: CallbackParams): Promise<OAuthIdentity> {
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: params.code,
+      redirect_uri: params.redirectUri,
+      client_id: this.config.clientId,
+      client_secret: this.config.getClientSecret(),
+    });
+    if (params.codeVerifier) {
+      body.set('code_verifier', params.codeVerifier);
+    }
+
+    const response = await fetch(this.config.tokenEndpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'Accept': 'application/json' },
+      body,
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`${this.config.label} token error: ${response.status} - ${error}`);
+    }
+
+    const data = await response.json() as { id_token?: string };
+    if (!data.id_token) {
+      throw new Error(`${this.config.label} token response had no id_token`);
+    }
+
+    const claims = await this.verifyIdToken(data.id_token);
+    if (claims.nonce !== params.nonce) {
+      throw new Error(`${this.config.label} id token nonce mismatch`);
+    }
+
+    return {
+      subject: claims.sub,
+      email: claims.email ? claims.email.toLowerCase() : null,
+      email_verified: claims.email_verified === true || claims.email_verified === 'true',
+      name: claims.name || null,
+    };
+  }
+
+  private async verifyIdToken(idToken: string): Promise<IdTokenClaims> {
+    const decoded = jwt.decode(idToken, { complete: true });
+    const kid = decoded?.header.kid;
+    if (!kid) {
+      throw new Error(`${this.config.label} id token has no key id`);
+    }
+
+    const key = await this.getKey(kid);
+    const claims = jwt.verify(idToken, key, {
+      algorithms: ID_TOKEN_ALGORITHMS,
+      issuer: this.config.issuers as [string, ...string[]],
+      audience: this.config.clientId,
+    }) as IdTokenClaims;
+
+    if (!claims.sub) {
+      throw new Error(`${this.config.label} id token has no subject`);
+    }
+    return claims;
+  }
+
+  // Keys are cached, and refetched when a token names one we haven't seen
+  private async getKey(kid: string): Promise<crypto.KeyObject> {
+    const stale = Date.now() - this.keysFetchedAt > JWKS_CACHE_MS;
+    if (stale || !this.keys.has(kid)) {
+      await this.fetchKeys();
+    }
+
+    const key = this.keys.get(kid);
+    if (!key) {
+      throw new Error(`${this.config.label} signing key ${kid} not found`);
+    }
+    return key;
+  }
+
+  private async fetchKeys(): Promise<void> {
+    const response = await fetch(this.config.jwksUri);
+    if (!response.ok) {
+      throw new Error(`${this.config.label} JWKS error: ${response.status}`);
+    }
+
+    const { keys } = await response.json() as { keys: (crypto.JsonWebKey & { kid?: string })[] };
+    this.keys = new Map(
+      keys
+        .filter(jwk => jwk.kid)
+        .map(jwk => [jwk.kid as string, crypto.createPublicKey({ key: jwk, format: 'jwk' })])
+    );
+    this.keysFetchedAt = Date.now();
+  }
+}
+
+/**
+ * Apple's client secret is a JWT signed with a key from the developer
+ * account. It may live for up to six months; we sign a fresh one per use.
+ */
+function appleClientSecret(clientId: string, teamId: string, keyId: string, privateKey: string): string {
+  return jwt.sign({}, privateKey, {
+    algorithm: 'ES256',
+    keyid: keyId,
+    issuer: teamId,
+    subject: clientId,
+    audience: 'https://appleid.apple.com',
+    expiresIn: '5m',
+  });
+}
+
+export interface MockProviderOptions {
+  // Where the mock issuer routes are mounted, e.g. http://localhost:3001/api/auth/oauth/mock
+  issuerUrl: string;
+  clientId: string;
+  clientSecret: string;
+}
+
+/**
+ * Providers configured in the environment:
+ * - Google: GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET
+ * - Apple: APPLE_CLIENT_ID (the Services ID), APPLE_TEAM_ID, APPLE_KEY_ID,
+ *   APPLE_PRIVATE_KEY (the .p8 contents, newlines may be written as \n)
+ * - The local mock issuer, when one is passed in
+ */
+export function createProviders(mock?: MockProviderOptions): OAuthProvider[] {
+  const providers: OAuthProvider[] = [];
+
+  if (process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET) {
+    const clientSecret = process.env.GOOGLE_CLIENT_SECRET;
+    providers.push(new OidcProvider({
+      id: 'google',
+      label: 'Google',
+      issuers: ['https://accounts.google.com', 'accounts.google.com'],
+      authorizationEndpoint: 'https://accounts.google.com/o/oauth2/v2/auth',
+      tokenEndpoint: 'https://oauth2.googleapis.com/token',
+      jwksUri: 'https://www.googleapis.com/oauth2/v3/certs',
+      clientId: process.env.GOOGLE_CLIENT_ID,
+      getClientSecret: () => clientSecret,
+      scope: 'openid email profile',
+      usesPkce: true,
+      extraAuthorizationParams: { prompt: 'select_account' },
+    }));
+  }
+
+  const { APPLE_CLIENT_ID, APPLE_TEAM_ID, APPLE_KEY_ID, APPLE_PRIVATE_KEY } = process.env;
+  if (APPLE_CLIENT_ID && APPLE_TEAM_ID && APPLE_KEY_ID && APPLE_PRIVATE_KEY) {
+    const privateKey = APPLE_PRIVATE_KEY.replace(/\\n/g, '\n');
+    providers.push(new OidcProvider({
+      id: 'apple',
+      label: 'Apple',
+      issuers: ['https://appleid.apple.com'],
+      authorizationEndpoint: 'https://appleid.apple.com/auth/authorize',
+      tokenEndpoint: 'https://appleid.apple.com/auth/token',
+      jwksUri: 'https://appleid.apple.com/auth/keys',
+      clientId: APPLE_CLIENT_ID,
+      getClientSecret: () => appleClientSecret(APPLE_CLIENT_ID, APPLE_TEAM_ID, APPLE_KEY_ID, privateKey),
+      scope: 'name email',
+      usesPkce: false,
+      responseMode: 'form_post',
+    }));
+  }
+
+  if (mock) {
+    providers.push(new OidcProvider({
+      id: 'mock',
+      label: 'Mock Provider',
+      issuers: [mock.issuerUrl],
+      authorizationEndpoint: `${mock.issuerUrl}/authorize`,
+      tokenEndpoint: `${mock.issuerUrl}/token`,
+      jwksUri: `${mock.issuerUrl}/jwks`,
+      clientId: mock.clientId,
+      getClientSecret: () => mock.clientSecret,
+      scope: 'openid email profile',
+      usesPkce: true,
+    }));
+  }
+
+  return providers;
+}
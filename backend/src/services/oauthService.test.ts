@@ -0,0 +1,97 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { closeTestDatabase, resetTestDatabase } from '../db/testing.js';
+import { UserModel } from '../models/User.js';
+import { OAuthIdentity, OAuthProvider } from './oauthProviders.js';
+import { authSessionService } from './authSessionService.js';
+import { oauthService } from './oauthService.js';
+
+const identities = new Map<string, OAuthIdentity>();
+
+// Signs in whichever identity was registered under the authorization code
+const provider: OAuthProvider = {
+  id: 'test',
+  label: 'Test',
+  usesPkce: false,
+  postsCallback: false,
+  getAuthorizationUrl: ({ state }) => `https://provider.example.com/authorize?state=${state}`,
+  authenticate: async ({ code }) => identities.get(code)!,
+};
+
+before(async () => {
+  await resetTestDatabase();
+  oauthService.registerProvider(provider);
+});
+
+after(closeTestDatabase);
+
+async function signIn(identity: OAuthIdentity) {
+  const started = await oauthService.start(provider.id);
+  assert.ok('url' in started);
+  identities.set(identity.subject, identity);
+
+  const state = new URL(started.url).searchParams.get('state')!;
+  const callback = await oauthService.handleCallback(provider.id, { code: identity.subject, state }, started.state);
+  assert.ok('login_code' in callback, JSON.stringify(callback));
+
+  const exchanged = await oauthService.exchangeLoginCode(callback.login_code);
+  assert.ok('user' in exchanged);
+  return exchanged.user;
+}
+
+test('linking a verified email to an unverified account locks out its registrant', async () => {
+  const squatter = await UserModel.create({ email: 'victim@example.com', password: 'Password123!' });
+  await authSessionService.issue(squatter);
+
+  const user = await signIn({ subject: 'victim', email: 'victim@example.com', email_verified: true, name: null });
+  const linked = (await UserModel.findById(user.id))!;
+
+  assert.equal(user.id, squatter.id);
+  assert.equal(linked.email_verified, 1);
+  assert.equal(UserModel.hasPassword(linked), false);
+  assert.equal(await UserModel.verifyPassword(linked, 'Password123!'), false);
+  // Only the session the provider sign-in just issued is left
+  assert.equal((await authSessionService.list(user.id)).length, 1);
+});
+
+test('linking to a verified account keeps its password and sessions', async () => {
+  const owner = await UserModel.create({ email: 'owner@example.com', password: 'Password123!' });
+  await UserModel.markEmailVerified(owner.id);
+  await authSessionService.issue(owner);
+
+  const user = await signIn({ subject: 'owner', email: 'owner@example.com', email_verified: true, name: null });
+
+  assert.equal(user.id, owner.id);
+  assert.equal(await UserModel.verifyPassword((await UserModel.findById(owner.id))!, 'Password123!'), true);
+  assert.equal((await authSessionService.list(owner.id)).length, 2);
+});
+
+test('a callback is only finished in the browser that started the sign-in', async () => {
+  const started = await oauthService.start(provider.id);
+  assert.ok('url' in started);
+  identities.set('traveller', { subject: 'traveller', email: 'traveller@example.com', email_verified: true, name: null });
+  const params = { code: 'traveller', state: started.state };
+  const other = await oauthService.start(provider.id);
+  assert.ok('url' in other);
+
+  for (const browserState of [undefined, other.state]) {
+    const elsewhere = await oauthService.handleCallback(provider.id, params, browserState);
+    assert.ok('status' in elsewhere);
+    assert.equal(elsewhere.code, 'INVALID_STATE');
+  }
+
+  // The sign-in was not used up
+  assert.ok('login_code' in await oauthService.handleCallback(provider.id, params, started.state));
+});
+
+test('an account made through a provider has no password until one is set', async () => {
+  const user = await signIn({ subject: 'newcomer', email: 'newcomer@example.com', email_verified: true, name: 'Newcomer' });
+
+  assert.equal(UserModel.hasPassword(user), false);
+  assert.equal((await UserModel.getWithSubscription(user.id))!.has_password, false);
+
+  await UserModel.updatePassword(user.id, 'Password123!');
+  const withPassword = (await UserModel.findById(user.id))!;
+  assert.equal(await UserModel.verifyPassword(withPassword, 'Password123!'), true);
+  assert.equal((await UserModel.getWithSubscription(user.id))!.has_password, true);
+});
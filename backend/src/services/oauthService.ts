@@ -0,0 +1,258 @@
+import crypto from 'crypto';
+import { OAuthStateModel } from '../models/OAuthState.js';
+import { UserIdentityModel } from '../models/UserIdentity.js';
+import { User, UserModel } from '../models/User.js';
+import { SubscriptionModel } from '../models/Subscription.js';
+import { OAuthIdentity, OAuthProvider, createProviders } from './oauthProviders.js';
+import { MockOidcIssuer } from './mockOidcIssuer.js';
+import { accountService } from './accountService.js';
+import { authSessionService, IssuedTokens } from './authSessionService.js';
+
+const BACKEND_URL = process.env.BACKEND_URL || `http://localhost:${process.env.PORT || 3001}`;
+
+// Time allowed at the provider's sign-in page
+export const STATE_TTL_SECONDS = 10 * 60;
+// Time for the frontend to trade the login code for tokens
+const LOGIN_CODE_TTL_SECONDS = 2 * 60;
+
+export const MOCK_ISSUER_PATH = '/api/auth/oauth/mock';
+
+export type OAuthResult<T> = T | { status: number; error: string; code: string };
+
+function randomToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+function sameToken(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+// The mock issuer signs anyone in, so it is refused in production
+function createMockIssuer(): MockOidcIssuer | null {
+  if (process.env.OAUTH_MOCK_ENABLED !== 'true') return null;
+
+  if (process.env.NODE_ENV === 'production') {
+    console.warn('OAUTH_MOCK_ENABLED is ignored in production');
+    return null;
+  }
+
+  return new MockOidcIssuer(
+    `${BACKEND_URL}${MOCK_ISSUER_PATH}`,
+    'mock-client',
+    'mock-secret',
+    `${BACKEND_URL}/api/auth/oauth/mock/callback`
+  );
+}
+
+class OAuthService {
+  readonly mockIssuer: MockOidcIssuer | null;
+  private providers = new Map<string, OAuthProvider>();
+
+  constructor() {
+    this.mockIssuer = createMockIssuer();
+
+    const mock = this.mockIssuer
+      ? { issuerUrl: this.mockIssuer.issuerUrl, clientId: this.mockIssuer.clientId, clientSecret: this.mockIssuer.clientSecret }
+      : undefined;
+
+    for (const provider of createProviders(mock)) {
+      this.registerProvider(provider);
+    }
+  }
+
+  registerProvider(provider: OAuthProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  listProviders(): { id: string; label: string }[] {
+    return [...this.providers.values()].map(provider => ({ id: provider.id, label: provider.label }));
+  }
+
+  callbackUrl(providerId: string): string {
+    return `${BACKEND_URL}/api/auth/oauth/${providerId}/callback`;
+  }
+
+  /**
+   * Begin a sign-in: remember a state and nonce, and return the provider
+   * URL to send the browser to. The caller keeps the state in the browser
+   * (a cookie) so the callback can only be finished where it was started.
+   */
+  async start(
+    providerId: string,
+    loginHint?: string
+  ): Promise<OAuthResult<{ url: string; state: string; postsCallback: boolean }>> {
+    const provider = this.providers.get(providerId);
+    if (!provider) {
+      return { status: 404, error: 'Sign-in provider not available', code: 'UNKNOWN_PROVIDER' };
+    }
+
+    await OAuthStateModel.deleteExpired();
+
+    const state = randomToken();
+    const nonce = randomToken();
+    const codeVerifier = provider.usesPkce ? randomToken() : null;
+    await OAuthStateModel.create(state, provider.id, nonce, codeVerifier, STATE_TTL_SECONDS);
+
+    return {
+      url: provider.getAuthorizationUrl({
+        redirectUri: this.callbackUrl(provider.id),
+        state,
+        nonce,
+        codeChallenge: codeVerifier
+          ? crypto.createHash('sha256').update(codeVerifier).digest('base64url')
+          : undefined,
+        loginHint,
+      }),
+      state,
+      postsCallback: provider.postsCallback,
+    };
+  }
+
+  /**
+   * Finish the provider round trip, in the browser holding the state the
+   * sign-in started with. On success returns a one-time login code for the
+   * frontend to trade for tokens.
+   */
+  async handleCallback(
+    providerId: string,
+    params: { code?: string; state?: string; error?: string; name?: string | null },
+    browserState?: string
+  ): Promise<OAuthResult<{ login_code: string }>> {
+    const provider = this.providers.get(providerId);
+    if (!provider) {
+      return { status: 404, error: 'Sign-in provider not available', code: 'UNKNOWN_PROVIDER' };
+    }
+
+    // A callback link opened in another browser must not sign that browser
+    // in, nor use up the sign-in it belongs to
+    if (!params.state || !browserState || !sameToken(params.state, browserState)) {
+      return { status: 400, error: 'Sign-in expired - please try again', code: 'INVALID_STATE' };
+    }
+
+    const pending = await OAuthStateModel.findByState(params.state);
+    if (!pending || pending.provider !== provider.id || !OAuthStateModel.isUsable(pending)) {
+      return { status: 400, error: 'Sign-in expired - please try again', code: 'INVALID_STATE' };
+    }
+
+    if (params.error || !params.code) {
+      await OAuthStateModel.markUsed(pending.id);
+      return { status: 400, error: 'Sign-in was cancelled', code: 'PROVIDER_DENIED' };
+    }
+
+    let identity: OAuthIdentity;
+    try {
+      identity = await provider.authenticate({
+        code: params.code,
+        redirectUri: this.callbackUrl(provider.id),
+        nonce: pending.nonce,
+        codeVerifier: pending.code_verifier || undefined,
+      });
+    } catch (error) {
+      console.error('OAuth authenticate error:', error);
+      await OAuthStateModel.markUsed(pending.id);
+      return { status: 502, error: 'Could not confirm your sign-in', code: 'PROVIDER_ERROR' };
+    }
+
+    // Apple only sends the name on the first sign-in, outside the id token
+    const result = await this.resolveUser(provider.id, { ...identity, name: identity.name || params.name || null });
+    if ('status' in result) {
+      await OAuthStateModel.markUsed(pending.id);
+      return result;
+    }
+
+    const loginCode = randomToken();
+    if (!(await OAuthStateModel.complete(pending.id, result.user.id, loginCode, LOGIN_CODE_TTL_SECONDS))) {
+      return { status: 400, error: 'Sign-in expired - please try again', code: 'INVALID_STATE' };
+    }
+
+    return { login_code: loginCode };
+  }
+
+  async exchangeLoginCode(loginCode: string, userAgent?: string): Promise<OAuthResult<{ tokens: IssuedTokens; user: User }>> {
+    const pending = await OAuthStateModel.findByLoginCode(loginCode);
+    if (!pending || !pending.user_id || !OAuthStateModel.isUsable(pending) ||
+        !(await OAuthStateModel.markUsed(pending.id))) {
+      return { status: 400, error: 'Sign-in expired - please try again', code: 'INVALID_LOGIN_CODE' };
+    }
+
+    const user = await UserModel.findById(pending.user_id);
+    if (!user) {
+      return { status: 400, error: 'Sign-in expired - please try again', code: 'INVALID_LOGIN_CODE' };
+    }
+
+    return { tokens: await authSessionService.issue(user, userAgent), user };
+  }
+
+  /**
+   * Find the user for an external identity. An identity seen before signs
+   * in its user; otherwise it is linked to the account with the same email
+   * if the provider has verified that email, or a new account is created.
+   * Linking to an account whose email was never verified resets its password
+   * and signs out its sessions.
+   */
+  private async resolveUser(providerId: string, identity: OAuthIdentity): Promise<OAuthResult<{ user: User }>> {
+    const known = await UserIdentityModel.findByProviderSubject(providerId, identity.subject);
+    if (known) {
+      const user = await UserModel.findById(known.user_id);
+      if (user) {
+        await UserIdentityModel.recordLogin(known.id, identity.email);
+        return { user };
+      }
+    }
+
+    if (!identity.email) {
+      return { status: 400, error: 'Your account did not share an email address', code: 'EMAIL_REQUIRED' };
+    }
+
+    const existing = await UserModel.findByEmail(identity.email);
+    if (existing) {
+      // Linking on an unverified email would let anyone take over the account
+      if (!identity.email_verified) {
+        return {
+          status: 409,
+          error: 'An account with this email already exists - log in with your password',
+          code: 'ACCOUNT_EXISTS',
+        };
+      }
+
+      // Whoever registered the unverified account may not own the email, so
+      // their password and signed-in devices stop working before it is linked
+      if (!existing.email_verified) {
+        await UserModel.clearPassword(existing.id);
+        await authSessionService.revokeAll(existing.id);
+        await UserModel.markEmailVerified(existing.id);
+      }
+
+      await UserIdentityModel.create(existing.id, providerId, identity.subject, identity.email);
+      return { user: existing };
+    }
+
+    // No password until the user sets one through a reset
+    const user = await UserModel.create({
+      email: identity.email,
+      name: identity.name || undefined,
+    });
+
+    await SubscriptionModel.create({
+      user_id: user.id,
+      plan: 'free',
+      status: 'active',
+    });
+
+    if (identity.email_verified) {
+      await UserModel.markEmailVerified(user.id);
+    } else {
+      accountService.sendVerificationEmail(user).catch(error => {
+        console.error('Verification email error:', error);
+      });
+    }
+
+    await UserIdentityModel.create(user.id, providerId, identity.subject, identity.email);
+    return { user: (await UserModel.findById(user.id)) as User };
+  }
+}
+
+export const oauthService = new OAuthService();
+export { OAuthService };
@@ -0,0 +1,93 @@
+import {
+  Organisation,
+  OrganisationInviteModel,
+  OrganisationMember,
+  OrganisationMemberModel,
+  OrganisationModel,
+  OrganisationSubscription,
+  OrganisationSubscriptionModel,
+} from '../models/Organisation.js';
+import { CohortMemberModel } from '../models/Cohort.js';
+
+export interface SeatStatus {
+  subscription: OrganisationSubscription | null;
+  seats: number;
+  used: number;
+  available: number;
+}
+
+export type JoinResult =
+  | { organisation: Organisation; member: OrganisationMember; cohort_id: string | null; joined: boolean }
+  | { status: number; error: string; code?: string };
+
+class OrganisationService {
+  /**
+   * Seats in the organisation's active subscription and how many are taken
+   */
+  async getSeatStatus(organisationId: string): Promise<SeatStatus> {
+    const subscription = await OrganisationSubscriptionModel.findByOrganisationId(organisationId) || null;
+    const seats = subscription?.seats || 0;
+    const used = await OrganisationMemberModel.countSeatsUsed(organisationId);
+
+    return {
+      subscription,
+      seats,
+      used,
+      available: Math.max(0, seats - used),
+    };
+  }
+
+  /**
+   * Give a member a seat if one is free. Returns whether they hold one.
+   */
+  async assignSeat(organisationId: string, userId: string): Promise<boolean> {
+    const member = await OrganisationMemberModel.find(organisationId, userId);
+    if (!member) return false;
+    if (member.has_seat) return true;
+
+    if ((await this.getSeatStatus(organisationId)).available <= 0) return false;
+
+    await OrganisationMemberModel.update(organisationId, userId, { has_seat: true });
+    return true;
+  }
+
+  /**
+   * Join with an invite code. New learners take a free seat if there is one;
+   * existing members keep their role and are only added to the invite's
+   * cohort.
+   */
+  async join(userId: string, code: string): Promise<JoinResult> {
+    const invite = await OrganisationInviteModel.findByCode(code);
+    if (!invite) {
+      return { status: 404, error: 'Invite code not found', code: 'INVITE_NOT_FOUND' };
+    }
+
+    if (!OrganisationInviteModel.isUsable(invite)) {
+      return { status: 410, error: 'Invite code has expired or been used up', code: 'INVITE_EXPIRED' };
+    }
+
+    const joined = !(await OrganisationMemberModel.find(invite.organisation_id, userId));
+
+    if (joined) {
+      await OrganisationMemberModel.add(invite.organisation_id, userId, invite.role);
+      if (invite.role === 'learner') {
+        await this.assignSeat(invite.organisation_id, userId);
+      }
+      await OrganisationInviteModel.recordUse(invite.id);
+    }
+
+    if (invite.cohort_id) {
+      await CohortMemberModel.add(invite.cohort_id, userId);
+    }
+
+    return {
+      organisation: await OrganisationModel.findById(invite.organisation_id) as Organisation,
+      member: await OrganisationMemberModel.find(invite.organisation_id, userId) as OrganisationMember,
+      cohort_id: invite.cohort_id,
+      joined,
+    };
+  }
+}
+
+export const organisationService = new OrganisationService();
+export { OrganisationService };
@@ -0,0 +1,160 @@
+import { UserModel } from '../models/User.js';
+import { UserIdentityModel } from '../models/UserIdentity.js';
+import { SubscriptionModel } from '../models/Subscription.js';
+import { UsageModel, SessionModel } from '../models/Usage.js';
+import { ConversationTurnModel } from '../models/Conversation.js';
+import { SessionReportModel } from '../models/SessionReport.js';
+import { VoiceUsageModel } from '../models/VoiceUsage.js';
+import { QuizResultModel } from '../models/QuizResult.js';
+import { ProgressDocumentModel } from '../models/Progress.js';
+import { DeckModel, DeckTermModel } from '../models/Deck.js';
+import { PhraseListModel, PhraseListItemModel } from '../models/PhraseList.js';
+import { OrganisationModel, OrganisationMemberModel } from '../models/Organisation.js';
+import { StripeService } from './stripe.js';
+import { authSessionService } from './authSessionService.js';
+import { createZip, ZipEntry } from '../utils/zip.js';
+
+export type DeleteAccountResult =
+  | { deleted: true }
+  | { status: number; error: string; code: string; organisations?: string[] };
+
+const EXPORT_README = `Your data from Your Aussie Uncle
+
+profile.json            Your account, linked sign-ins, organisations and signed-in devices
+subscriptions.json      Every subscription on the account, including canceled ones
+usage_records.json      Practice minutes used per day
+practice_sessions.json  Practice sessions, with any AI feedback report
+transcripts/            Voice conversation transcripts, one file per practice session
+voice_usage.json        Speech and tutor usage per request
+quiz_results.json       Slang quiz scores
+progress.json           Progress synced from the app (streaks, reviews, achievements)
+decks.json              Your custom slang decks and their terms
+phrase_lists.json       Your pronunciation phrase lists
+`;
+
+function jsonEntry(name: string, data: unknown): ZipEntry {
+  return { name, data: Buffer.from(JSON.stringify(data, null, 2)) };
+}
+
+class PersonalDataService {
+  /**
+   * Everything the server holds about the user, as a zip of JSON files.
+   * Returns undefined if the user doesn't exist.
+   */
+  async buildExport(userId: string): Promise<Buffer | undefined> {
+    const user = await UserModel.findById(userId);
+    if (!user) return undefined;
+
+    const { password_hash: _passwordHash, ...profile } = user;
+    const sessions = await SessionModel.findAllByUserId(userId);
+
+    const entries: ZipEntry[] = [
+      { name: 'README.txt', data: Buffer.from(EXPORT_README) },
+      jsonEntry('profile.json', {
+        ...profile,
+        exported_at: new Date().toISOString(),
+        linked_accounts: (await UserIdentityModel.findByUserId(userId)).map(({ provider, email, created_at, last_login_at }) => ({
+          provider,
+          email,
+          created_at,
+          last_login_at,
+        })),
+        organisations: (await OrganisationModel.findByUserId(userId)).map(({ id, name, role, has_seat }) => ({
+          id,
+          name,
+          role,
+          has_seat,
+        })),
+        devices: await authSessionService.list(userId),
+      }),
+      jsonEntry('subscriptions.json', await SubscriptionModel.findAllByUserId(userId)),
+      jsonEntry('usage_records.json', await UsageModel.findAllByUserId(userId)),
+      jsonEntry('practice_sessions.json', await Promise.all(sessions.map(async session => ({
+        ...session,
+        report: (await SessionReportModel.findBySessionId(session.id))?.report ?? null,
+      })))),
+      jsonEntry('voice_usage.json', await VoiceUsageModel.findByUserId(userId)),
+      jsonEntry('quiz_results.json', await QuizResultModel.findAllByUserId(userId)),
+      jsonEntry('progress.json', await ProgressDocumentModel.findByUserId(userId)),
+      jsonEntry('decks.json', await Promise.all((await DeckModel.findByUserId(userId)).map(async deck => ({
+        ...deck,
+        terms: await DeckTermModel.findByDeckId(deck.id),
+      })))),
+      jsonEntry('phrase_lists.json', await Promise.all((await PhraseListModel.findByUserId(userId)).map(async list => ({
+        ...list,
+        phrases: await PhraseListItemModel.findByListId(list.id),
+      })))),
+    ];
+
+    for (const session of sessions) {
+      const turns = await ConversationTurnModel.findByPracticeSessionId(session.id);
+      if (turns.length === 0) continue;
+
+      entries.push(jsonEntry(`transcripts/${session.id}.json`, turns.map(({ turn_index, role, content, emotion, created_at }) => ({
+        turn_index,
+        role,
+        content,
+        emotion,
+        created_at,
+      }))));
+    }
+
+    return createZip(entries);
+  }
+
+  /**
+   * Delete the account and everything tied to it. Paid subscriptions are
+   * canceled in Stripe first, so a failure there leaves the account intact
+   * rather than billing someone who no longer has one.
+   */
+  async deleteAccount(userId: string): Promise<DeleteAccountResult> {
+    const user = await UserModel.findById(userId);
+    if (!user) {
+      return { status: 404, error: 'User not found', code: 'USER_NOT_FOUND' };
+    }
+
+    const organisations = await OrganisationModel.findByUserId(userId);
+
+    // An organisation with other members needs an admin to manage it
+    const orphaned = [];
+    for (const organisation of organisations) {
+      if (organisation.role === 'admin' &&
+          organisation.member_count > 1 &&
+          await OrganisationMemberModel.countByRole(organisation.id, 'admin') <= 1) {
+        orphaned.push(organisation);
+      }
+    }
+    if (orphaned.length > 0) {
+      return {
+        status: 409,
+        error: 'Make someone else an admin of your organisations before deleting your account',
+        code: 'SOLE_ORGANISATION_ADMIN',
+        organisations: orphaned.map(organisation => organisation.name),
+      };
+    }
+
+    // Organisations with nobody else in them go with the account
+    const solo = organisations.filter(organisation => organisation.member_count === 1);
+
+    try {
+      await StripeService.cancelUserSubscriptions(userId);
+      for (const organisation of solo) {
+        await StripeService.cancelOrganisationSubscription(organisation.id);
+      }
+    } catch (error) {
+      console.error('Cancel subscriptions error:', error);
+      return { status: 502, error: 'Could not cancel your subscription - please try again', code: 'BILLING_ERROR' };
+    }
+
+    for (const organisation of solo) {
+      await OrganisationModel.delete(organisation.id);
+    }
+    // Everything else keyed to the user is removed by ON DELETE CASCADE
+    await UserModel.delete(userId);
+
+    return { deleted: true };
+  }
+}
+
+export const personalDataService = new PersonalDataService();
+export { PersonalDataService };
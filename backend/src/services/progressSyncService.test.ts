@@ -0,0 +1,109 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { closeTestDatabase, resetTestDatabase } from '../db/testing.js';
+import { UserModel } from '../models/User.js';
+import { ProgressDocumentModel } from '../models/Progress.js';
+import { progressSyncService } from './progressSyncService.js';
+
+let userId: string;
+
+before(async () => {
+  await resetTestDatabase();
+  userId = (await UserModel.create({ email: 'sync@example.com', password: 'Password123!' })).id;
+});
+
+after(closeTestDatabase);
+
+function saved(result: Awaited<ReturnType<typeof progressSyncService.save>>) {
+  assert.ok('document' in result, `expected a saved document, got ${JSON.stringify(result)}`);
+  return result;
+}
+
+test('a stale write is merged into the stored document', async () => {
+  saved(await progressSyncService.save(userId, 'progress', { sessions: [{ id: 'a', startTime: 1 }] }, 0));
+  saved(await progressSyncService.save(userId, 'progress', { sessions: [{ id: 'a', startTime: 1 }, { id: 'b', startTime: 2 }] }, 1));
+
+  const { document, merged } = saved(
+    await progressSyncService.save(userId, 'progress', { sessions: [{ id: 'a', startTime: 1 }, { id: 'c', startTime: 3 }] }, 1)
+  );
+
+  assert.equal(merged, true);
+  assert.equal(document.version, 3);
+  assert.deepEqual((document.data as { sessions: { id: string }[] }).sessions.map((s) => s.id), ['a', 'b', 'c']);
+});
+
+test('merge rules keep the best of each document type', () => {
+  assert.deepEqual(
+    progressSyncService.merge('achievements',
+      [{ id: 'first', unlockedAt: '2024-01-02' }],
+      [{ id: 'first', unlockedAt: '2024-01-05' }, { id: 'second', unlockedAt: '2024-01-06' }]),
+    [{ id: 'first', unlockedAt: '2024-01-02' }, { id: 'second', unlockedAt: '2024-01-06' }]
+  );
+
+  const slang = progressSyncService.merge('slang-progress',
+    { cards: { arvo: { lastReview: 200 }, brekkie: { lastReview: 100 } }, quizHighScore: 9 },
+    { cards: { arvo: { lastReview: 100 }, brekkie: { lastReview: 300 } }, quizHighScore: 4 }
+  ) as { cards: Record<string, { lastReview: number }>; quizHighScore: number };
+  assert.equal(slang.cards.arvo.lastReview, 200);
+  assert.equal(slang.cards.brekkie.lastReview, 300);
+  assert.equal(slang.quizHighScore, 9);
+
+  const gamification = progressSyncService.merge('slang-gamification',
+    { xp: 500, streak: 4, lastActivity: '2024-03-02', favorites: ['arvo'] },
+    { xp: 300, streak: 1, lastActivity: '2024-03-01', favorites: ['servo'] }
+  ) as { xp: number; streak: number; favorites: string[] };
+  assert.equal(gamification.xp, 500);
+  assert.equal(gamification.streak, 4);
+  assert.deepEqual(gamification.favorites, ['arvo', 'servo']);
+
+  assert.deepEqual(progressSyncService.merge('onboarding', { level: 'beginner' }, { level: 'advanced' }), { level: 'advanced' });
+});
+
+test('a reset replaces the document and stale writes from before it are refused', async () => {
+  saved(await progressSyncService.save(userId, 'achievements', [{ id: 'old', unlockedAt: '2024-01-01' }], 0));
+  saved(await progressSyncService.save(userId, 'achievements', [{ id: 'old', unlockedAt: '2024-01-01' }, { id: 'older', unlockedAt: '2024-01-02' }], 1));
+
+  const reset = saved(await progressSyncService.save(userId, 'achievements', [], 1, true));
+  assert.equal(reset.merged, false);
+  assert.deepEqual(reset.document.data, []);
+  assert.equal(reset.document.reset_version, 3);
+
+  const stale = await progressSyncService.save(userId, 'achievements', [{ id: 'old', unlockedAt: '2024-01-01' }], 2);
+  assert.ok('status' in stale);
+  assert.equal(stale.status, 409);
+  assert.equal(stale.code, 'PROGRESS_RESET');
+  assert.deepEqual(stale.current?.data, []);
+
+  // Edits made after the reset still merge as usual
+  saved(await progressSyncService.save(userId, 'achievements', [{ id: 'new', unlockedAt: '2024-02-01' }], 3));
+  const { merged } = saved(await progressSyncService.save(userId, 'achievements', [{ id: 'newer', unlockedAt: '2024-02-02' }], 3));
+  assert.equal(merged, true);
+});
+
+test('a base version ahead of the stored document is refused', async () => {
+  const result = await progressSyncService.save(userId, 'pronunciation', { sessions: [] }, 5);
+
+  assert.ok('status' in result);
+  assert.equal(result.status, 409);
+  assert.equal(result.code, 'VERSION_AHEAD');
+  assert.equal(result.current, null);
+});
+
+test('a save racing another device\'s is merged on top of it, not over it', async () => {
+  saved(await progressSyncService.save(userId, 'pronunciation', { sessions: [{ sessionId: 'a' }] }, 0));
+  const before = await ProgressDocumentModel.findByKey(userId, 'pronunciation');
+
+  // This save reads version 1, then another device writes version 2 before it writes
+  const findByKey = mock.method(ProgressDocumentModel, 'findByKey');
+  findByKey.mock.mockImplementationOnce(async () => {
+    saved(await progressSyncService.save(userId, 'pronunciation', { sessions: [{ sessionId: 'a' }, { sessionId: 'b' }] }, 1));
+    return before;
+  });
+  const result = saved(await progressSyncService.save(userId, 'pronunciation', { sessions: [{ sessionId: 'a' }, { sessionId: 'c' }] }, 1));
+  findByKey.mock.restore();
+
+  assert.equal(result.merged, true);
+  assert.equal(result.document.version, 3);
+  const sessions = (result.document.data as { sessions: { sessionId: string }[] }).sessions;
+  assert.deepEqual(sessions.map(session => session.sessionId).sort(), ['a', 'b', 'c']);
+});
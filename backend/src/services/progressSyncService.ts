@@ -0,0 +1,273 @@
+import { ProgressDocument, ProgressDocumentModel } from '../models/Progress.js';
+
+// Documents the client keeps in localStorage and syncs through /api/progress
+export const PROGRESS_DOCUMENT_KEYS = [
+  'progress',
+  'achievements',
+  'pronunciation',
+  'slang-progress',
+  'slang-gamification',
+  'onboarding',
+] as const;
+
+export type ProgressDocumentKey = typeof PROGRESS_DOCUMENT_KEYS[number];
+
+type JsonObject = Record<string, unknown>;
+
+interface SaveRejection {
+  status: number;
+  error: string;
+  code: string;
+  current: ProgressDocument | null;
+}
+
+export type SaveResult =
+  | { document: ProgressDocument; merged: boolean }
+  | SaveRejection;
+
+// What a save writes over the stored copy
+interface PlannedWrite {
+  data: unknown;
+  resetVersion: number;
+  merged: boolean;
+}
+
+// Saves racing other devices' are redone on top of them this many times
+const MAX_SAVE_ATTEMPTS = 5;
+
+function asObject(value: unknown): JsonObject {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as JsonObject : {};
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function asNumber(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+function timestamp(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') {
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? 0 : time;
+  }
+  return 0;
+}
+
+/**
+ * Union two lists of records by id; `pick` decides between two copies of the same record
+ */
+function unionById(
+  server: unknown[],
+  client: unknown[],
+  idField: string,
+  pick: (server: JsonObject, client: JsonObject) => JsonObject = (_server, client) => client
+): JsonObject[] {
+  const merged = new Map<string, JsonObject>();
+
+  for (const item of server) {
+    const record = asObject(item);
+    if (typeof record[idField] === 'string') merged.set(record[idField] as string, record);
+  }
+
+  for (const item of client) {
+    const record = asObject(item);
+    const id = record[idField];
+    if (typeof id !== 'string') continue;
+    const existing = merged.get(id);
+    merged.set(id, existing ? pick(existing, record) : record);
+  }
+
+  return Array.from(merged.values());
+}
+
+// Practice sessions are append-only, so keep every session seen on any device
+function mergeProgress(server: JsonObject, client: JsonObject): JsonObject {
+  const sessions = unionById(asArray(server.sessions), asArray(client.sessions), 'id')
+    .sort((a, b) => timestamp(a.startTime) - timestamp(b.startTime));
+
+  return {
+    ...server,
+    ...client,
+    sessions,
+    studentName: client.studentName || server.studentName || '',
+  };
+}
+
+// Achievements can only be unlocked - keep the earliest unlock time
+function mergeAchievements(server: unknown[], client: unknown[]): JsonObject[] {
+  return unionById(server, client, 'id', (a, b) =>
+    timestamp(a.unlockedAt) <= timestamp(b.unlockedAt) ? a : b
+  );
+}
+
+function mergePronunciation(server: JsonObject, client: JsonObject): JsonObject {
+  return {
+    ...server,
+    ...client,
+    sessions: unionById(asArray(server.sessions), asArray(client.sessions), 'sessionId'),
+  };
+}
+
+// Per card, the most recently reviewed copy wins
+function mergeSlangProgress(server: JsonObject, client: JsonObject): JsonObject {
+  const serverCards = asObject(server.cards);
+  const clientCards = asObject(client.cards);
+  const cards: JsonObject = { ...serverCards };
+
+  for (const [id, card] of Object.entries(clientCards)) {
+    const existing = asObject(serverCards[id]);
+    if (!serverCards[id] || timestamp(asObject(card).lastReview) >= timestamp(existing.lastReview)) {
+      cards[id] = card;
+    }
+  }
+
+  return {
+    ...server,
+    ...client,
+    cards,
+    quizHighScore: Math.max(asNumber(server.quizHighScore), asNumber(client.quizHighScore)),
+    totalQuizzesTaken: Math.max(asNumber(server.totalQuizzesTaken), asNumber(client.totalQuizzesTaken)),
+  };
+}
+
+// Counters only grow, so take the larger of each
+const GAMIFICATION_COUNTERS = [
+  'xp',
+  'level',
+  'maxStreak',
+  'cardsViewed',
+  'quizzesCompleted',
+  'perfectQuizzes',
+  'highScore',
+  'dailyChallengesCompleted',
+  'voicePracticeCount',
+  'fillBlankCompleted',
+  'sentenceBuilderCompleted',
+];
+
+function mergeGamification(server: JsonObject, client: JsonObject): JsonObject {
+  const merged: JsonObject = { ...server, ...client };
+
+  for (const counter of GAMIFICATION_COUNTERS) {
+    merged[counter] = Math.max(asNumber(server[counter]), asNumber(client[counter]));
+  }
+
+  // The current streak belongs to whichever device practised most recently
+  if (timestamp(server.lastActivity) > timestamp(client.lastActivity)) {
+    merged.streak = server.streak;
+    merged.lastActivity = server.lastActivity;
+  }
+
+  for (const list of ['favorites', 'unlockedAchievements']) {
+    merged[list] = Array.from(new Set([...asArray(server[list]), ...asArray(client[list])]));
+  }
+
+  return merged;
+}
+
+class ProgressSyncService {
+  isDocumentKey(key: string): key is ProgressDocumentKey {
+    return (PROGRESS_DOCUMENT_KEYS as readonly string[]).includes(key);
+  }
+
+  /**
+   * Merge a client's copy of a document into the stored copy. Used when the
+   * client edited an out-of-date version; the client wins where records clash.
+   */
+  merge(key: ProgressDocumentKey, server: unknown, client: unknown): unknown {
+    switch (key) {
+      case 'progress':
+        return mergeProgress(asObject(server), asObject(client));
+      case 'achievements':
+        return mergeAchievements(asArray(server), asArray(client));
+      case 'pronunciation':
+        return mergePronunciation(asObject(server), asObject(client));
+      case 'slang-progress':
+        return mergeSlangProgress(asObject(server), asObject(client));
+      case 'slang-gamification':
+        return mergeGamification(asObject(server), asObject(client));
+      case 'onboarding':
+        // Answers are edited as a whole, so the last write wins
+        return client;
+    }
+  }
+
+  /**
+   * Save a document edited from `baseVersion`. A write based on the current
+   * version replaces the document; a stale write is merged into it, unless
+   * the document was reset since `baseVersion`. A reset replaces the
+   * document whatever it was based on.
+   *
+   * The write only lands on the version it was worked out from. If another
+   * device saved in between, the save is worked out again on top of that.
+   */
+  async save(
+    userId: string,
+    key: ProgressDocumentKey,
+    data: unknown,
+    baseVersion: number,
+    reset: boolean = false
+  ): Promise<SaveResult> {
+    for (let attempt = 0; attempt < MAX_SAVE_ATTEMPTS; attempt++) {
+      const current = await ProgressDocumentModel.findByKey(userId, key) ?? null;
+      const planned = this.planWrite(key, current, data, baseVersion, reset);
+      if ('error' in planned) return planned;
+
+      const currentVersion = current?.version ?? 0;
+      const document = await ProgressDocumentModel.saveIfVersion(
+        userId,
+        key,
+        planned.data,
+        currentVersion + 1,
+        planned.resetVersion,
+        currentVersion
+      );
+      if (document) return { document, merged: planned.merged };
+    }
+
+    return {
+      status: 409,
+      error: 'Progress is being saved from another device, try again',
+      code: 'SAVE_CONFLICT',
+      current: await ProgressDocumentModel.findByKey(userId, key) ?? null,
+    };
+  }
+
+  private planWrite(
+    key: ProgressDocumentKey,
+    current: ProgressDocument | null,
+    data: unknown,
+    baseVersion: number,
+    reset: boolean
+  ): PlannedWrite | SaveRejection {
+    const currentVersion = current?.version ?? 0;
+
+    // The client claims a version this server never handed out
+    if (baseVersion > currentVersion) {
+      return { status: 409, error: 'Base version is newer than the stored document', code: 'VERSION_AHEAD', current };
+    }
+
+    if (reset) {
+      return { data, resetVersion: currentVersion + 1, merged: false };
+    }
+
+    const resetVersion = current?.reset_version ?? 0;
+
+    if (!current || baseVersion === current.version) {
+      return { data, resetVersion, merged: false };
+    }
+
+    // Edits to a copy from before the reset would bring the old records back
+    if (baseVersion < resetVersion) {
+      return { status: 409, error: 'Progress was reset on another device', code: 'PROGRESS_RESET', current };
+    }
+
+    return { data: this.merge(key, current.data, data), resetVersion, merged: true };
+  }
+}
+
+export const progressSyncService = new ProgressSyncService();
+export { ProgressSyncService };
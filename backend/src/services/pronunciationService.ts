@@ -0,0 +1,510 @@
+import { PHONEMES, Phoneme, FormantTarget, isVowel } from '../data/phonemes.js';
+import { tokenizePhrase, lookupWord } from '../data/pronunciationDictionary.js';
+import {
+  extractFeatures,
+  formantDistance,
+  FrameFeatures,
+  Formants,
+  FRAME_STEP_SECONDS,
+} from '../utils/acoustics.js';
+
+// Shortest plausible length of each sound, in 10ms frames
+const MIN_FRAMES: Record<Phoneme['class'], number> = {
+  vowel: 4,
+  diphthong: 6,
+  stop: 3,
+  affricate: 4,
+  fricative: 3,
+  nasal: 3,
+  approximant: 3,
+  flap: 1,
+};
+const MIN_SCHWA_FRAMES = 2;
+
+// Fit values are floored so one odd frame cannot veto an alignment
+const MIN_FIT = 0.02;
+
+// Scale applied to measured formants is kept to realistic vocal tract sizes
+const SPEAKER_SCALE_RANGE: [number, number] = [0.75, 1.35];
+
+// Vowels matter most for an Aussie accent, so they count double in word scores
+const VOWEL_WEIGHT = 2;
+
+// Words the recogniser did not hear keep this share of their acoustic score
+const UNRECOGNISED_WORD_FACTOR = 0.6;
+
+export interface PronunciationTarget {
+  words: Array<{ word: string; phonemes: Phoneme[] }>;
+}
+
+export interface PhonemeScore {
+  symbol: string;
+  start: number;
+  end: number;
+  score: number;
+  target?: FormantTarget[];
+  measured?: Formants[];
+  tip?: string;
+}
+
+export interface WordScore {
+  word: string;
+  start: number;
+  end: number;
+  score: number;
+  // Whether speech recognition heard the word; null without a transcript
+  recognized: boolean | null;
+  phonemes: PhonemeScore[];
+}
+
+export interface PronunciationResult {
+  text: string;
+  transcript: string | null;
+  overall: number;
+  words: WordScore[];
+  feedback: string[];
+}
+
+export type TargetLookup =
+  | { target: PronunciationTarget }
+  | { unknownWords: string[] };
+
+// One state sequence element: a phone of the target, or an optional pause
+interface AlignmentUnit {
+  phoneIndex: number | null;
+  optional: boolean;
+  minFrames: number;
+}
+
+interface AlignedPhone {
+  phoneme: Phoneme;
+  wordIndex: number;
+  startFrame: number;
+  endFrame: number;
+}
+
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function roundTime(frame: number): number {
+  return Math.round(frame * FRAME_STEP_SECONDS * 100) / 100;
+}
+
+/**
+ * Distance from a measured vowel to its target - for a diphthong, to the
+ * nearest point on the glide between its two targets
+ */
+function distanceToTargets(measured: Formants, targets: FormantTarget[]): number {
+  if (targets.length === 1) return formantDistance(measured, targets[0]);
+
+  let best = Infinity;
+  for (let step = 0; step <= 10; step++) {
+    const t = step / 10;
+    best = Math.min(best, formantDistance(measured, {
+      f1: targets[0].f1 + (targets[1].f1 - targets[0].f1) * t,
+      f2: targets[0].f2 + (targets[1].f2 - targets[0].f2) * t,
+    }));
+  }
+  return best;
+}
+
+function formantScore(distance: number): number {
+  // 1 Bark off scores about 80, 2 Bark about 35
+  return 100 * Math.exp(-((distance / 2) ** 2) * 1.05);
+}
+
+class PronunciationService {
+  /**
+   * Look up the phonemes of every word in a target phrase
+   */
+  lookupTarget(text: string): TargetLookup {
+    const words = tokenizePhrase(text);
+    const unknownWords = words.filter(word => !lookupWord(word));
+    if (unknownWords.length > 0 || words.length === 0) {
+      return { unknownWords };
+    }
+
+    return {
+      target: {
+        words: words.map(word => ({
+          word,
+          phonemes: lookupWord(word)!.map(symbol => PHONEMES[symbol]),
+        })),
+      },
+    };
+  }
+
+  /**
+   * Score a recording of the target phrase: force-align its phonemes to the
+   * audio, then rate each phoneme against its expected sound (vowels against
+   * Australian English formant targets). The transcript, when available,
+   * marks words the recogniser did not hear.
+   */
+  score(
+    text: string,
+    target: PronunciationTarget,
+    samples: Float32Array,
+    sampleRate: number,
+    transcript: string | null
+  ): PronunciationResult | null {
+    const frames = extractFeatures(samples, sampleRate);
+    const phones = target.words.flatMap((word, wordIndex) =>
+      word.phonemes.map(phoneme => ({ phoneme, wordIndex }))
+    );
+
+    const aligned = this.align(frames, phones, target);
+    if (!aligned) return null;
+
+    const speakerScale = this.estimateSpeakerScale(frames, aligned);
+    const heardWords = transcript !== null ? new Set(tokenizePhrase(transcript)) : null;
+
+    const words: WordScore[] = target.words.map((word, wordIndex) => {
+      const wordPhones = aligned.filter(phone => phone.wordIndex === wordIndex);
+      const phonemes = wordPhones.map(phone => this.scorePhone(frames, phone, speakerScale));
+
+      let weightTotal = 0;
+      let weighted = 0;
+      wordPhones.forEach((phone, i) => {
+        const weight = isVowel(phone.phoneme) ? VOWEL_WEIGHT : 1;
+        weightTotal += weight;
+        weighted += phonemes[i].score * weight;
+      });
+
+      const recognized = heardWords ? heardWords.has(word.word) || heardWords.has(word.word.replace(/'/g, '')) : null;
+      const acousticScore = weighted / weightTotal;
+
+      return {
+        word: word.word,
+        start: roundTime(wordPhones[0].startFrame),
+        end: roundTime(wordPhones[wordPhones.length - 1].endFrame),
+        score: Math.round(recognized === false ? acousticScore * UNRECOGNISED_WORD_FACTOR : acousticScore),
+        recognized,
+        phonemes,
+      };
+    });
+
+    const phoneCount = words.reduce((sum, word) => sum + word.phonemes.length, 0);
+    const overall = Math.round(
+      words.reduce((sum, word) => sum + word.score * word.phonemes.length, 0) / phoneCount
+    );
+
+    return {
+      text,
+      transcript,
+      overall,
+      words,
+      feedback: this.buildFeedback(words, overall),
+    };
+  }
+
+  /**
+   * How well a frame sounds like a phoneme, from 0 to 1. Formants are
+   * divided by the speaker scale before comparing with vowel targets.
+   */
+  private phoneFit(phoneme: Phoneme, frame: FrameFeatures, speakerScale = 1): number {
+    const speech = sigmoid((frame.energyDb + 35) / 4);
+    const audible = sigmoid((frame.energyDb + 50) / 5);
+    const quiet = 1 - speech;
+    const highZcr = sigmoid((frame.zcr - 0.15) / 0.04);
+    const voicing = frame.voicing;
+
+    let fit: number;
+    switch (phoneme.class) {
+      case 'vowel':
+      case 'diphthong': {
+        let formantFit = 0.3;
+        if (frame.f1 !== null && frame.f2 !== null && phoneme.targets) {
+          const measured = { f1: frame.f1 / speakerScale, f2: frame.f2 / speakerScale };
+          formantFit = Math.exp(-(distanceToTargets(measured, phoneme.targets) ** 2) / 8);
+        }
+        fit = speech * voicing * (0.3 + 0.7 * formantFit);
+        break;
+      }
+      case 'fricative': {
+        const sibilant = ['s', 'z', 'ʃ', 'ʒ'].includes(phoneme.symbol);
+        const voicingFit = phoneme.voiced ? 0.5 + 0.5 * voicing : 1 - 0.7 * voicing;
+        fit = sibilant
+          ? audible * highZcr * voicingFit
+          : audible * (0.5 + 0.5 * highZcr) * (1 - 0.5 * speech * voicing);
+        break;
+      }
+      case 'stop':
+        fit = Math.max(quiet, 0.8 * audible * highZcr, phoneme.voiced ? 0.6 * voicing * quiet : 0);
+        break;
+      case 'affricate':
+        fit = Math.max(quiet, audible * highZcr);
+        break;
+      case 'nasal': {
+        const lowF1 = frame.f1 !== null ? sigmoid((550 - frame.f1) / 80) : 0.5;
+        fit = voicing * audible * (1 - 0.5 * highZcr) * (0.4 + 0.6 * lowF1);
+        break;
+      }
+      case 'approximant':
+        fit = voicing * audible * (1 - 0.5 * highZcr) * 0.9;
+        break;
+      case 'flap':
+        fit = voicing * audible * 0.8;
+        break;
+    }
+
+    return Math.max(MIN_FIT, fit);
+  }
+
+  /**
+   * Viterbi forced alignment: the single best way to lay the phone
+   * sequence over the frames in order, each phone lasting at least its
+   * minimum length, with optional pauses before, between and after words
+   */
+  private align(
+    frames: FrameFeatures[],
+    phones: Array<{ phoneme: Phoneme; wordIndex: number }>,
+    target: PronunciationTarget
+  ): AlignedPhone[] | null {
+    const units: AlignmentUnit[] = [{ phoneIndex: null, optional: true, minFrames: 1 }];
+    let phoneIndex = 0;
+    target.words.forEach(word => {
+      word.phonemes.forEach(phoneme => {
+        const minFrames = phoneme.symbol === 'ə' ? MIN_SCHWA_FRAMES : MIN_FRAMES[phoneme.class];
+        units.push({ phoneIndex: phoneIndex++, optional: false, minFrames });
+      });
+      units.push({ phoneIndex: null, optional: true, minFrames: 1 });
+    });
+
+    const requiredFrames = units.filter(unit => !unit.optional).reduce((sum, unit) => sum + unit.minFrames, 0);
+    if (frames.length < requiredFrames) return null;
+
+    // Expand units into states: a chain of minFrames states, the last of
+    // which can repeat
+    const stateUnit: number[] = [];
+    const unitFirstState: number[] = [];
+    units.forEach((unit, u) => {
+      unitFirstState.push(stateUnit.length);
+      for (let i = 0; i < unit.minFrames; i++) stateUnit.push(u);
+    });
+    const unitLastState = units.map((unit, u) => unitFirstState[u] + unit.minFrames - 1);
+
+    // Units reachable next from unit u: the following one, or past it when optional
+    const nextUnits = (u: number): number[] => {
+      const next: number[] = [];
+      for (let v = u + 1; v < units.length; v++) {
+        next.push(v);
+        if (!units[v].optional) break;
+      }
+      return next;
+    };
+
+    const stateCount = stateUnit.length;
+    const silenceFit = (frame: FrameFeatures) => Math.max(MIN_FIT, 1 - sigmoid((frame.energyDb + 35) / 4));
+    const emission = (state: number, frame: FrameFeatures): number => {
+      const unit = units[stateUnit[state]];
+      return Math.log(unit.phoneIndex === null ? silenceFit(frame) : this.phoneFit(phones[unit.phoneIndex].phoneme, frame));
+    };
+
+    let scores = new Float64Array(stateCount).fill(-Infinity);
+    const back = new Int32Array(frames.length * stateCount).fill(-1);
+
+    for (const u of [0, ...nextUnits(0)]) {
+      const state = unitFirstState[u];
+      scores[state] = emission(state, frames[0]);
+    }
+
+    for (let t = 1; t < frames.length; t++) {
+      const next = new Float64Array(stateCount).fill(-Infinity);
+
+      for (let state = 0; state < stateCount; state++) {
+        const score = scores[state];
+        if (score === -Infinity) continue;
+
+        const u = stateUnit[state];
+        const targets = state < unitLastState[u]
+          ? [state + 1]
+          : [state, ...nextUnits(u).map(v => unitFirstState[v])];
+
+        for (const to of targets) {
+          if (score > next[to]) {
+            next[to] = score;
+            back[t * stateCount + to] = state;
+          }
+        }
+      }
+
+      for (let state = 0; state < stateCount; state++) {
+        if (next[state] !== -Infinity) {
+          next[state] += emission(state, frames[t]);
+        }
+      }
+      scores = next;
+    }
+
+    // End in the last unit, or in the last phone when skipping the final pause
+    const lastUnit = units.length - 1;
+    const endStates = [unitLastState[lastUnit], unitLastState[lastUnit - 1]];
+    let state = endStates.reduce((best, s) => (scores[s] > scores[best] ? s : best), endStates[0]);
+    if (scores[state] === -Infinity) return null;
+
+    const path = new Int32Array(frames.length);
+    for (let t = frames.length - 1; t >= 0; t--) {
+      path[t] = state;
+      state = back[t * stateCount + state];
+    }
+
+    const aligned: AlignedPhone[] = [];
+    for (let t = 0; t < frames.length; t++) {
+      const unit = units[stateUnit[path[t]]];
+      if (unit.phoneIndex === null) continue;
+
+      const current = aligned[aligned.length - 1];
+      if (current && aligned.length - 1 === unit.phoneIndex) {
+        current.endFrame = t + 1;
+      } else {
+        const phone = phones[unit.phoneIndex];
+        aligned.push({ phoneme: phone.phoneme, wordIndex: phone.wordIndex, startFrame: t, endFrame: t + 1 });
+      }
+    }
+
+    return aligned;
+  }
+
+  /**
+   * Vowel formants scale with vocal tract length, so compare the speaker's
+   * monophthongs with the targets to find how much to scale measurements by
+   */
+  private estimateSpeakerScale(frames: FrameFeatures[], aligned: AlignedPhone[]): number {
+    const ratios: number[] = [];
+
+    for (const phone of aligned) {
+      if (phone.phoneme.class !== 'vowel' || !phone.phoneme.targets) continue;
+
+      const measured = this.measureFormants(frames, phone.startFrame, phone.endFrame);
+      if (!measured) continue;
+
+      ratios.push(measured.f1 / phone.phoneme.targets[0].f1, measured.f2 / phone.phoneme.targets[0].f2);
+    }
+
+    return ratios.length > 0 ? clamp(median(ratios), ...SPEAKER_SCALE_RANGE) : 1;
+  }
+
+  /**
+   * Median formants over a stretch of frames, trimming the transitions at
+   * either end
+   */
+  private measureFormants(frames: FrameFeatures[], start: number, end: number): Formants | null {
+    const trim = Math.floor((end - start) * 0.2);
+    const measured = frames
+      .slice(start + trim, Math.max(start + trim + 1, end - trim))
+      .filter(frame => frame.f1 !== null && frame.f2 !== null);
+
+    if (measured.length === 0) return null;
+
+    return {
+      f1: median(measured.map(frame => frame.f1!)),
+      f2: median(measured.map(frame => frame.f2!)),
+    };
+  }
+
+  private scorePhone(frames: FrameFeatures[], phone: AlignedPhone, speakerScale: number): PhonemeScore {
+    const { phoneme, startFrame, endFrame } = phone;
+    const span = frames.slice(startFrame, endFrame);
+    const fit = span.reduce((sum, frame) => sum + this.phoneFit(phoneme, frame, speakerScale), 0) / span.length;
+
+    const result: PhonemeScore = {
+      symbol: phoneme.symbol,
+      start: roundTime(startFrame),
+      end: roundTime(endFrame),
+      score: 0,
+    };
+
+    if (!isVowel(phoneme) || !phoneme.targets) {
+      result.score = Math.round(100 * Math.min(1, fit / 0.5));
+      return result;
+    }
+
+    // Diphthongs are measured at the start and end of the glide
+    const length = endFrame - startFrame;
+    const stretches: Array<[number, number]> = phoneme.class === 'diphthong'
+      ? [[startFrame, startFrame + Math.ceil(length / 3)], [endFrame - Math.ceil(length / 3), endFrame]]
+      : [[startFrame, endFrame]];
+
+    const measured = stretches.map(([from, to]) => this.measureFormants(frames, from, to));
+    const fitScore = 100 * Math.min(1, fit / 0.6);
+
+    result.target = phoneme.targets;
+    if (measured.every(Boolean)) {
+      const normalised = (measured as Formants[]).map(f => ({ f1: f.f1 / speakerScale, f2: f.f2 / speakerScale }));
+      const distance = normalised.reduce(
+        (sum, f, i) => sum + formantDistance(f, phoneme.targets![i]),
+        0
+      ) / normalised.length;
+
+      result.measured = (measured as Formants[]).map(f => ({ f1: Math.round(f.f1), f2: Math.round(f.f2) }));
+      result.score = Math.round(0.4 * fitScore + 0.6 * formantScore(distance));
+      if (result.score < 70) {
+        result.tip = [phoneme.tip, this.describeMiss(normalised[0], phoneme.targets[0])].filter(Boolean).join(' ');
+      }
+    } else {
+      result.score = Math.round(fitScore * 0.8);
+      if (result.score < 70) result.tip = phoneme.tip;
+    }
+
+    return result;
+  }
+
+  /**
+   * Which way the tongue or jaw should move to reach the target
+   */
+  private describeMiss(measured: Formants, target: FormantTarget): string | undefined {
+    const hints: string[] = [];
+    if (measured.f1 < target.f1 * 0.85) hints.push('open your mouth a little more');
+    if (measured.f1 > target.f1 * 1.15) hints.push('close your jaw slightly');
+    if (measured.f2 < target.f2 * 0.85) hints.push('bring your tongue further forward');
+    if (measured.f2 > target.f2 * 1.15) hints.push('pull your tongue further back');
+
+    if (hints.length === 0) return undefined;
+    const sentence = hints.join(' and ');
+    return `Try to ${sentence}.`;
+  }
+
+  private buildFeedback(words: WordScore[], overall: number): string[] {
+    const feedback: string[] = [];
+
+    const missed = words.filter(word => word.recognized === false).map(word => `"${word.word}"`);
+    if (missed.length > 0) {
+      feedback.push(`We didn't catch ${missed.join(', ')} - make sure you say every word.`);
+    }
+
+    // Tips for the weakest vowels, one per word
+    const weakest = words
+      .flatMap(word => word.phonemes
+        .filter(phoneme => phoneme.tip)
+        .map(phoneme => ({ word: word.word, phoneme })))
+      .sort((a, b) => a.phoneme.score - b.phoneme.score)
+      .filter((item, i, all) => all.findIndex(other => other.word === item.word) === i)
+      .slice(0, 3);
+
+    for (const { word, phoneme } of weakest) {
+      feedback.push(`"${word}" (/${phoneme.symbol}/): ${phoneme.tip}`);
+    }
+
+    if (overall >= 85) {
+      feedback.push('Ripper - your vowels are right on the Aussie targets.');
+    } else if (feedback.length === 0) {
+      feedback.push('Good effort - listen to the phrase again and match the rhythm.');
+    }
+
+    return feedback;
+  }
+}
+
+export const pronunciationService = new PronunciationService();
+export { PronunciationService };
@@ -0,0 +1,275 @@
+import { spawn } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { FishAudioService } from './fishAudioService.js';
+
+export const EMOTION_TYPES = [
+  'encouraging',
+  'calm',
+  'happy',
+  'empathetic',
+  'curious',
+  'excited',
+  'friendly',
+  'professional',
+] as const;
+
+export type EmotionType = typeof EMOTION_TYPES[number];
+
+export type AudioInputFormat = 'webm' | 'wav';
+export type AudioOutputFormat = 'mp3' | 'wav' | 'opus';
+
+export interface TranscriptionResult {
+  text: string;
+  duration?: number;
+  language?: string;
+}
+
+export interface SynthesisRequest {
+  text: string;
+  // Providers that can't express emotion ignore it
+  emotion?: EmotionType;
+  voiceId?: string;
+  format?: AudioOutputFormat;
+  latency?: 'normal' | 'balanced';
+}
+
+export interface SpeechChunk {
+  audio: Buffer;
+  done: boolean;
+}
+
+/**
+ * Speech recognition and synthesis. Pick one with SPEECH_PROVIDER, or plug
+ * in another with speechService.setProvider().
+ */
+export interface SpeechProvider {
+  readonly name: string;
+  isConfigured(): boolean;
+  transcribe(audio: Buffer, language?: string, format?: AudioInputFormat): Promise<TranscriptionResult>;
+  synthesize(request: SynthesisRequest): Promise<Buffer>;
+  // Yields audio as it is generated, ending with an empty `done` chunk
+  synthesizeStream(request: SynthesisRequest): AsyncGenerator<SpeechChunk>;
+}
+
+const SUBPROCESS_TIMEOUT_MS = 60_000;
+// whisper.cpp only reads 16 kHz mono WAV
+const WHISPER_SAMPLE_RATE = 16000;
+
+/**
+ * Run a command, writing `input` to its stdin, and resolve with its stdout
+ */
+function run(command: string, args: string[], input?: Buffer | string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { timeout: SUBPROCESS_TIMEOUT_MS });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+
+    child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+    child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+    child.on('error', error => reject(new Error(`Could not run ${command}: ${error.message}`)));
+    child.on('close', (code, signal) => {
+      if (code === 0) {
+        resolve(Buffer.concat(stdout));
+        return;
+      }
+      const detail = Buffer.concat(stderr).toString().trim().slice(-500);
+      reject(new Error(`${command} failed (${signal || `exit code ${code}`}): ${detail}`));
+    });
+
+    // The process may exit before reading everything, which 'close' reports
+    child.stdin.on('error', () => undefined);
+    child.stdin.end(input);
+  });
+}
+
+async function withTempDir<T>(work: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'speech-'));
+  try {
+    return await work(dir);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+export interface LocalSpeechConfig {
+  whisperBin: string;
+  whisperModel: string;
+  piperBin: string;
+  piperModel: string;
+  ffmpegBin: string;
+}
+
+/**
+ * Runs on the server with no API keys: whisper.cpp for recognition and
+ * Piper for synthesis, both as subprocesses, with ffmpeg converting audio
+ * to and from the formats they use
+ */
+export class LocalSpeechProvider implements SpeechProvider {
+  readonly name = 'local';
+
+  constructor(private readonly config: LocalSpeechConfig) {}
+
+  isConfigured(): boolean {
+    return !!this.config.whisperModel && !!this.config.piperModel;
+  }
+
+  async transcribe(audio: Buffer, language: string = 'en'): Promise<TranscriptionResult> {
+    if (!this.config.whisperModel) {
+      throw new Error('WHISPER_CPP_MODEL not configured');
+    }
+
+    const wav = await run(this.config.ffmpegBin, [
+      '-hide_banner', '-loglevel', 'error',
+      '-i', 'pipe:0',
+      '-ar', String(WHISPER_SAMPLE_RATE), '-ac', '1', '-c:a', 'pcm_s16le',
+      '-f', 'wav', 'pipe:1',
+    ], audio);
+
+    const output = await withTempDir(async dir => {
+      const input = path.join(dir, 'input.wav');
+      await fs.writeFile(input, wav);
+      return run(this.config.whisperBin, [
+        '--model', this.config.whisperModel,
+        '--file', input,
+        '--language', language,
+        '--no-timestamps',
+        '--no-prints',
+      ]);
+    });
+
+    return {
+      text: output.toString().split('\n').map(line => line.trim()).filter(Boolean).join(' '),
+      duration: Math.max(0, wav.length - 44) / (WHISPER_SAMPLE_RATE * 2),
+      language,
+    };
+  }
+
+  async synthesize(request: SynthesisRequest): Promise<Buffer> {
+    if (!this.config.piperModel) {
+      throw new Error('PIPER_MODEL not configured');
+    }
+
+    const wav = await withTempDir(async dir => {
+      const output = path.join(dir, 'output.wav');
+      await run(this.config.piperBin, ['--model', this.config.piperModel, '--output_file', output], request.text);
+      return fs.readFile(output);
+    });
+
+    const format = request.format || 'mp3';
+    if (format === 'wav') return wav;
+
+    const encoding = format === 'mp3' ? ['-f', 'mp3'] : ['-c:a', 'libopus', '-f', 'ogg'];
+    return run(this.config.ffmpegBin, [
+      '-hide_banner', '-loglevel', 'error',
+      '-i', 'pipe:0',
+      ...encoding,
+      'pipe:1',
+    ], wav);
+  }
+
+  /**
+   * Piper renders a whole utterance at once, so this yields one chunk
+   */
+  async *synthesizeStream(request: SynthesisRequest): AsyncGenerator<SpeechChunk> {
+    yield { audio: await this.synthesize(request), done: false };
+    yield { audio: Buffer.alloc(0), done: true };
+  }
+}
+
+const FAKE_AUDIO_PATTERN = /^fake-speech:[a-z0-9]+:([\s\S]*)$/;
+
+/**
+ * Deterministic stand-in for tests and offline development. "Audio" is the
+ * text tagged with its format, and transcribing that audio gives the text
+ * back; anything else transcribes to a fixed phrase.
+ */
+export class FakeSpeechProvider implements SpeechProvider {
+  readonly name = 'fake';
+
+  constructor(private readonly transcript: string = "G'day, how are you going?") {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async transcribe(audio: Buffer, language: string = 'en'): Promise<TranscriptionResult> {
+    const match = FAKE_AUDIO_PATTERN.exec(audio.toString('utf8'));
+    return { text: match ? match[1] : this.transcript, language };
+  }
+
+  async synthesize(request: SynthesisRequest): Promise<Buffer> {
+    return Buffer.from(`fake-speech:${request.format || 'mp3'}:${request.text}`);
+  }
+
+  async *synthesizeStream(request: SynthesisRequest): AsyncGenerator<SpeechChunk> {
+    yield { audio: await this.synthesize(request), done: false };
+    yield { audio: Buffer.alloc(0), done: true };
+  }
+}
+
+function createFishAudioProvider(): SpeechProvider {
+  if (!process.env.FISH_AUDIO_API_KEY) {
+    console.warn('FISH_AUDIO_API_KEY not set - Fish Audio features will be disabled');
+  }
+  return new FishAudioService(process.env.FISH_AUDIO_API_KEY || '', process.env.FISH_AUDIO_VOICE_ID || '');
+}
+
+function createProvider(): SpeechProvider {
+  const provider = process.env.SPEECH_PROVIDER || 'fish-audio';
+
+  if (provider === 'local') {
+    return new LocalSpeechProvider({
+      whisperBin: process.env.WHISPER_CPP_BIN || 'whisper-cli',
+      whisperModel: process.env.WHISPER_CPP_MODEL || '',
+      piperBin: process.env.PIPER_BIN || 'piper',
+      piperModel: process.env.PIPER_MODEL || '',
+      ffmpegBin: process.env.FFMPEG_BIN || 'ffmpeg',
+    });
+  }
+
+  if (provider === 'fake') {
+    return new FakeSpeechProvider(process.env.SPEECH_FAKE_TRANSCRIPT || undefined);
+  }
+
+  if (provider !== 'fish-audio') {
+    console.warn(`Unknown SPEECH_PROVIDER "${provider}" - using Fish Audio`);
+  }
+  return createFishAudioProvider();
+}
+
+class SpeechService {
+  private provider: SpeechProvider;
+
+  constructor() {
+    this.provider = createProvider();
+  }
+
+  setProvider(provider: SpeechProvider): void {
+    this.provider = provider;
+  }
+
+  getProviderName(): string {
+    return this.provider.name;
+  }
+
+  isConfigured(): boolean {
+    return this.provider.isConfigured();
+  }
+
+  transcribe(audio: Buffer, language?: string, format?: AudioInputFormat): Promise<TranscriptionResult> {
+    return this.provider.transcribe(audio, language, format);
+  }
+
+  synthesize(request: SynthesisRequest): Promise<Buffer> {
+    return this.provider.synthesize(request);
+  }
+
+  synthesizeStream(request: SynthesisRequest): AsyncGenerator<SpeechChunk> {
+    return this.provider.synthesizeStream(request);
+  }
+}
+
+export const speechService = new SpeechService();
+export { SpeechService };
@@ -1,6 +1,7 @@
 import Stripe from 'stripe';
 import { UserModel } from '../models/User.js';
 import { SubscriptionModel, PlanType } from '../models/Subscription.js';
+import { OrganisationMemberModel, OrganisationSubscriptionModel } from '../models/Organisation.js';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', {
   apiVersion: '2024-06-20',
@@ -13,6 +14,16 @@ const PRICE_IDS: Record<Exclude<PlanType, 'free'>, string> = {
   executive: process.env.STRIPE_PRICE_EXECUTIVE || '',
 };
 
+// Cancel straight away; a subscription Stripe no longer has is already gone
+async function cancelStripeSubscription(stripeSubscriptionId: string): Promise<void> {
+  try {
+    await stripe.subscriptions.cancel(stripeSubscriptionId);
+  } catch (error) {
+    if (error instanceof Stripe.errors.StripeError && error.code === 'resource_missing') return;
+    throw error;
+  }
+}
+
 export const StripeService = {
   async createCustomer(userId: string, email: string, name?: string): Promise<Stripe.Customer> {
     const customer = await stripe.customers.create({
@@ -21,12 +32,12 @@ export const StripeService = {
       metadata: { userId },
     });
 
-    UserModel.updateStripeCustomerId(userId, customer.id);
+    await UserModel.updateStripeCustomerId(userId, customer.id);
     return customer;
   },
 
   async getOrCreateCustomer(userId: string): Promise<Stripe.Customer> {
-    const user = UserModel.findById(userId);
+    const user = await UserModel.findById(userId);
     if (!user) throw new Error('User not found');
 
     if (user.stripe_customer_id) {
@@ -68,6 +79,45 @@ export const StripeService = {
     return session;
   },
 
+  /**
+   * Checkout for an organisation's pooled subscription, billed to the admin
+   * starting it - one unit of the plan's price per seat
+   */
+  async createOrganisationCheckoutSession(
+    userId: string,
+    organisationId: string,
+    plan: Exclude<PlanType, 'free'>,
+    seats: number,
+    successUrl: string,
+    cancelUrl: string
+  ): Promise<Stripe.Checkout.Session> {
+    const priceId = PRICE_IDS[plan];
+    if (!priceId) throw new Error(`No price configured for plan: ${plan}`);
+
+    const customer = await this.getOrCreateCustomer(userId);
+
+    const session = await stripe.checkout.sessions.create({
+      customer: customer.id,
+      payment_method_types: ['card'],
+      line_items: [
+        {
+          price: priceId,
+          quantity: seats,
+        },
+      ],
+      mode: 'subscription',
+      success_url: successUrl,
+      cancel_url: cancelUrl,
+      metadata: {
+        userId,
+        organisationId,
+        plan,
+      },
+    });
+
+    return session;
+  },
+
   async createPortalSession(userId: string, returnUrl: string): Promise<Stripe.BillingPortal.Session> {
     const customer = await this.getOrCreateCustomer(userId);
 
@@ -105,6 +155,11 @@ export const StripeService = {
   },
 
   async handleCheckoutComplete(session: Stripe.Checkout.Session): Promise<void> {
+    if (session.metadata?.organisationId) {
+      await this.handleOrganisationCheckoutComplete(session);
+      return;
+    }
+
     const userId = session.metadata?.userId;
     const plan = session.metadata?.plan as PlanType;
 
@@ -116,13 +171,13 @@ export const StripeService = {
     const stripeSubscription = await stripe.subscriptions.retrieve(session.subscription as string);
 
     // Cancel any existing subscription
-    const existingSub = SubscriptionModel.findByUserId(userId);
+    const existingSub = await SubscriptionModel.findByUserId(userId);
     if (existingSub) {
-      SubscriptionModel.cancel(existingSub.id);
+      await SubscriptionModel.cancel(existingSub.id);
     }
 
     // Create new subscription record
-    SubscriptionModel.create({
+    await SubscriptionModel.create({
       user_id: userId,
       plan,
       status: 'active',
@@ -133,17 +188,65 @@ export const StripeService = {
     });
   },
 
-  async handleSubscriptionUpdated(stripeSubscription: Stripe.Subscription): Promise<void> {
-    const subscription = SubscriptionModel.findByStripeSubscriptionId(stripeSubscription.id);
-    if (!subscription) return;
+  async handleOrganisationCheckoutComplete(session: Stripe.Checkout.Session): Promise<void> {
+    const organisationId = session.metadata?.organisationId;
+    const plan = session.metadata?.plan as Exclude<PlanType, 'free'>;
 
+    if (!organisationId || !plan) {
+      console.error('Missing metadata in organisation checkout session');
+      return;
+    }
+
+    const stripeSubscription = await stripe.subscriptions.retrieve(session.subscription as string);
+    const item = stripeSubscription.items.data[0];
+
+    // Replace any existing pooled subscription
+    const existingSub = await OrganisationSubscriptionModel.findByOrganisationId(organisationId);
+    if (existingSub) {
+      await OrganisationSubscriptionModel.update(existingSub.id, { status: 'canceled' });
+    }
+
+    await OrganisationSubscriptionModel.create({
+      organisation_id: organisationId,
+      plan,
+      seats: item.quantity || 1,
+      status: 'active',
+      stripe_subscription_id: stripeSubscription.id,
+      stripe_price_id: item.price.id,
+      current_period_start: new Date(stripeSubscription.current_period_start * 1000).toISOString(),
+      current_period_end: new Date(stripeSubscription.current_period_end * 1000).toISOString(),
+    });
+    await OrganisationMemberModel.releaseSeatsAbove(organisationId, item.quantity || 1);
+  },
+
+  async handleSubscriptionUpdated(stripeSubscription: Stripe.Subscription): Promise<void> {
     const priceId = stripeSubscription.items.data[0].price.id;
     const plan = Object.entries(PRICE_IDS).find(([_, id]) => id === priceId)?.[0] as PlanType | undefined;
+    const status = stripeSubscription.status === 'active' ? 'active' :
+                   stripeSubscription.status === 'past_due' ? 'past_due' :
+                   stripeSubscription.status === 'trialing' ? 'trialing' : 'canceled';
 
-    SubscriptionModel.update(subscription.id, {
-      status: stripeSubscription.status === 'active' ? 'active' :
-              stripeSubscription.status === 'past_due' ? 'past_due' :
-              stripeSubscription.status === 'trialing' ? 'trialing' : 'canceled',
+    const organisationSub = await OrganisationSubscriptionModel.findByStripeSubscriptionId(stripeSubscription.id);
+    if (organisationSub) {
+      // Seat count changes come through as a new quantity
+      const seats = stripeSubscription.items.data[0].quantity || organisationSub.seats;
+      await OrganisationSubscriptionModel.update(organisationSub.id, {
+        status,
+        plan: plan && plan !== 'free' ? plan : organisationSub.plan,
+        seats,
+        current_period_start: new Date(stripeSubscription.current_period_start * 1000).toISOString(),
+        current_period_end: new Date(stripeSubscription.current_period_end * 1000).toISOString(),
+        cancel_at_period_end: stripeSubscription.cancel_at_period_end ? 1 : 0,
+      });
+      await OrganisationMemberModel.releaseSeatsAbove(organisationSub.organisation_id, seats);
+      return;
+    }
+
+    const subscription = await SubscriptionModel.findByStripeSubscriptionId(stripeSubscription.id);
+    if (!subscription) return;
+
+    await SubscriptionModel.update(subscription.id, {
+      status,
       plan: plan || subscription.plan,
       current_period_start: new Date(stripeSubscription.current_period_start * 1000).toISOString(),
       current_period_end: new Date(stripeSubscription.current_period_end * 1000).toISOString(),
@@ -152,13 +255,20 @@ export const StripeService = {
   },
 
   async handleSubscriptionCanceled(stripeSubscription: Stripe.Subscription): Promise<void> {
-    const subscription = SubscriptionModel.findByStripeSubscriptionId(stripeSubscription.id);
+    // Seats stay assigned, so renewing restores everyone's access
+    const organisationSub = await OrganisationSubscriptionModel.findByStripeSubscriptionId(stripeSubscription.id);
+    if (organisationSub) {
+      await OrganisationSubscriptionModel.update(organisationSub.id, { status: 'canceled' });
+      return;
+    }
+
+    const subscription = await SubscriptionModel.findByStripeSubscriptionId(stripeSubscription.id);
     if (!subscription) return;
 
-    SubscriptionModel.update(subscription.id, { status: 'canceled' });
+    await SubscriptionModel.update(subscription.id, { status: 'canceled' });
 
     // Create a free tier subscription for the user
-    SubscriptionModel.create({
+    await SubscriptionModel.create({
       user_id: subscription.user_id,
       plan: 'free',
       status: 'active',
@@ -168,10 +278,37 @@ export const StripeService = {
   async handlePaymentFailed(invoice: Stripe.Invoice): Promise<void> {
     if (!invoice.subscription) return;
 
-    const subscription = SubscriptionModel.findByStripeSubscriptionId(invoice.subscription as string);
+    const organisationSub = await OrganisationSubscriptionModel.findByStripeSubscriptionId(invoice.subscription as string);
+    if (organisationSub) {
+      await OrganisationSubscriptionModel.update(organisationSub.id, { status: 'past_due' });
+      return;
+    }
+
+    const subscription = await SubscriptionModel.findByStripeSubscriptionId(invoice.subscription as string);
     if (!subscription) return;
 
-    SubscriptionModel.update(subscription.id, { status: 'past_due' });
+    await SubscriptionModel.update(subscription.id, { status: 'past_due' });
+  },
+
+  /**
+   * Cancel the user's own paid subscriptions immediately, e.g. before their
+   * account is deleted. Organisation subscriptions are left alone.
+   */
+  async cancelUserSubscriptions(userId: string): Promise<void> {
+    for (const subscription of await SubscriptionModel.findAllByUserId(userId)) {
+      if (!subscription.stripe_subscription_id || subscription.status === 'canceled') continue;
+
+      await cancelStripeSubscription(subscription.stripe_subscription_id);
+      await SubscriptionModel.update(subscription.id, { status: 'canceled' });
+    }
+  },
+
+  async cancelOrganisationSubscription(organisationId: string): Promise<void> {
+    const subscription = await OrganisationSubscriptionModel.findByOrganisationId(organisationId);
+    if (!subscription?.stripe_subscription_id || subscription.status === 'canceled') return;
+
+    await cancelStripeSubscription(subscription.stripe_subscription_id);
+    await OrganisationSubscriptionModel.update(subscription.id, { status: 'canceled' });
   },
 
   constructWebhookEvent(payload: string | Buffer, signature: string): Stripe.Event {
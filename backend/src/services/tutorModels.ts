@@ -0,0 +1,275 @@
+import Anthropic from '@anthropic-ai/sdk';
+import fs from 'fs';
+import type { PlanType } from '../models/Subscription.js';
+import type { TurnUsage } from '../models/Conversation.js';
+import type { PracticeMode, TutorTurn } from './conversationService.js';
+import type { FeedbackReport } from './feedbackReportService.js';
+
+export interface TutorMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface TutorRequest {
+  model: string;
+  maxTokens: number;
+  system: string;
+  // The whole conversation so far, opening greeting included, ending with
+  // the learner's new message
+  messages: TutorMessage[];
+  mode: PracticeMode;
+  scenarioId?: string;
+  // 'json' when the system prompt asks for a structured turn (a TutorTurn
+  // object) rather than plain spoken text, 'report' when it asks for a
+  // session's feedback report
+  format: 'text' | 'json' | 'report';
+}
+
+export interface TutorReply {
+  text: string;
+  usage: TurnUsage;
+}
+
+export type TutorStreamChunk =
+  | { text: string; done: false }
+  | { text: ''; done: true; usage: TurnUsage };
+
+/**
+ * The language model that writes the tutor's replies. Pick one with
+ * TUTOR_PROVIDER, or plug in another with conversationService.setTutorModel().
+ */
+export interface TutorModel {
+  readonly name: string;
+  isConfigured(): boolean;
+  complete(request: TutorRequest): Promise<TutorReply>;
+  // Yields the reply as it is written, ending with a `done` chunk
+  stream(request: TutorRequest): AsyncGenerator<TutorStreamChunk>;
+}
+
+export interface TutorModelConfig {
+  model: string;
+  maxTokens: number;
+}
+
+const DEFAULT_MODEL = process.env.TUTOR_MODEL || 'claude-sonnet-4-20250514';
+// Leaves room for the corrections and vocab around a structured turn's reply
+const DEFAULT_MAX_TOKENS = Number(process.env.TUTOR_MAX_TOKENS) || 600;
+
+// Each plan can use its own model, e.g. a faster one for the free tier
+const PLAN_MODELS: Record<PlanType, string> = {
+  free: process.env.TUTOR_MODEL_FREE || DEFAULT_MODEL,
+  starter: process.env.TUTOR_MODEL_STARTER || DEFAULT_MODEL,
+  professional: process.env.TUTOR_MODEL_PROFESSIONAL || DEFAULT_MODEL,
+  executive: process.env.TUTOR_MODEL_EXECUTIVE || DEFAULT_MODEL,
+};
+
+export function getTutorModelConfig(plan: PlanType): TutorModelConfig {
+  return { model: PLAN_MODELS[plan], maxTokens: DEFAULT_MAX_TOKENS };
+}
+
+/**
+ * Claude through the Anthropic API
+ */
+export class AnthropicTutorModel implements TutorModel {
+  readonly name = 'anthropic';
+  private client: Anthropic;
+
+  constructor(private readonly apiKey: string) {
+    this.client = new Anthropic({ apiKey });
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async complete(request: TutorRequest): Promise<TutorReply> {
+    const response = await this.client.messages.create(this.toParams(request));
+    const text = response.content[0]?.type === 'text' ? response.content[0].text : '';
+
+    return { text, usage: this.toUsage(response) };
+  }
+
+  async *stream(request: TutorRequest): AsyncGenerator<TutorStreamChunk> {
+    const stream = this.client.messages.stream(this.toParams(request));
+
+    for await (const event of stream) {
+      if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+        yield { text: event.delta.text, done: false };
+      }
+    }
+
+    yield { text: '', done: true, usage: this.toUsage(await stream.finalMessage()) };
+  }
+
+  private toParams(request: TutorRequest): Anthropic.MessageCreateParamsNonStreaming {
+    return {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      system: request.system,
+      messages: this.toModelMessages(request.messages),
+    };
+  }
+
+  /**
+   * The opening greeting is stored for the transcript but skipped here, as
+   * Claude expects the conversation to start with a user turn
+   */
+  private toModelMessages(messages: TutorMessage[]): Anthropic.MessageParam[] {
+    const firstUserIndex = messages.findIndex(msg => msg.role === 'user');
+    return messages.slice(Math.max(firstUserIndex, 0)).map(msg => ({
+      role: msg.role,
+      content: msg.content,
+    }));
+  }
+
+  private toUsage(message: Anthropic.Message): TurnUsage {
+    return {
+      model: message.model,
+      input_tokens: message.usage.input_tokens,
+      output_tokens: message.usage.output_tokens,
+    };
+  }
+}
+
+// A plain reply, or a structured turn with its teaching content
+export type ScriptedReply = string | TutorTurn;
+
+// What the model writes for a feedback report; missed vocab is worked out locally
+export type ScriptedReport = Omit<FeedbackReport, 'missed_vocab'>;
+
+/**
+ * Canned replies for the scripted tutor. A scenario's replies are used for
+ * its role-play, otherwise the mode's; the tutor works through them in
+ * order, starting again after the last. Every feedback report is `report`.
+ */
+export interface TutorScript {
+  modes: Record<PracticeMode, ScriptedReply[]>;
+  scenarios?: Record<string, ScriptedReply[]>;
+  report?: ScriptedReport;
+}
+
+const DEFAULT_SCRIPT: TutorScript = {
+  modes: {
+    everyday: [
+      "Good on ya! That sounded really natural. So, what have you got planned for the arvo?",
+      {
+        reply: "No worries. Aussies often shorten words, so afternoon becomes arvo. Can you try using it in a sentence?",
+        emotion: 'calm',
+        vocab: [{ term: 'arvo', meaning: 'afternoon', example: 'See you this arvo!' }],
+      },
+      "Spot on! You're getting the hang of it. How would you ask a mate how they're going?",
+    ],
+    slang: [
+      "Ripper! Let's try another one. Do you know what a servo is?",
+      {
+        reply: "Close, but a servo is actually a petrol station. How about a bottle-o?",
+        emotion: 'empathetic',
+        vocab: [
+          { term: 'servo', meaning: 'a petrol station' },
+          { term: 'bottle-o', meaning: 'a bottle shop, where you buy alcohol' },
+        ],
+      },
+      "Fair dinkum, you're a natural! Try using she'll be right in a sentence.",
+    ],
+    workplace: [
+      "That's a great start. In Australian workplaces it's common to keep things friendly but clear. How would you open a team meeting?",
+      "Nice one. You might also hear people say let's touch base. What would you say to follow up on an email?",
+      "Well done, that sounds professional and relaxed. How would you politely disagree with a colleague?",
+    ],
+  },
+  report: {
+    corrections: [],
+    aussie_phrases_used_well: [],
+    next_steps: [
+      'Use arvo when you talk about your afternoon plans',
+      "Ask a mate how they're going and answer the same question",
+      'Try a role-play scenario and aim to meet every goal',
+    ],
+  },
+};
+
+// Rough token count, about four characters per token
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Deterministic stand-in for tests and offline development: replays canned
+ * replies instead of calling a model, and reports estimated token usage
+ */
+export class ScriptedTutorModel implements TutorModel {
+  readonly name = 'scripted';
+
+  constructor(private readonly script: TutorScript = DEFAULT_SCRIPT) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(request: TutorRequest): Promise<TutorReply> {
+    const text = this.write(request);
+    return { text, usage: this.toUsage(request, text) };
+  }
+
+  async *stream(request: TutorRequest): AsyncGenerator<TutorStreamChunk> {
+    const text = this.write(request);
+    for (const word of text.match(/\S+\s*/g) ?? []) {
+      yield { text: word, done: false };
+    }
+    yield { text: '', done: true, usage: this.toUsage(request, text) };
+  }
+
+  private nextReply(request: TutorRequest): ScriptedReply {
+    const scenarioReplies = request.scenarioId ? this.script.scenarios?.[request.scenarioId] : undefined;
+    const replies = scenarioReplies?.length ? scenarioReplies : this.script.modes[request.mode];
+    const learnerTurns = request.messages.filter(message => message.role === 'user').length;
+
+    return replies[(learnerTurns - 1) % replies.length] ?? '';
+  }
+
+  /**
+   * Write the reply the way a model following the prompt would
+   */
+  private write(request: TutorRequest): string {
+    if (request.format === 'report') {
+      return JSON.stringify(this.script.report ?? DEFAULT_SCRIPT.report);
+    }
+
+    const reply = this.nextReply(request);
+    const turn = typeof reply === 'string' ? { reply } : reply;
+    if (request.format === 'text') return turn.reply;
+
+    return JSON.stringify({ corrections: [], vocab: [], goals_met: [], ...turn });
+  }
+
+  private toUsage(request: TutorRequest, text: string): TurnUsage {
+    const prompt = [request.system, ...request.messages.map(message => message.content)].join('\n');
+    return {
+      model: this.name,
+      input_tokens: estimateTokens(prompt),
+      output_tokens: estimateTokens(text),
+    };
+  }
+}
+
+function loadScript(file: string): TutorScript {
+  const script = JSON.parse(fs.readFileSync(file, 'utf8')) as Partial<TutorScript>;
+  return {
+    modes: { ...DEFAULT_SCRIPT.modes, ...script.modes },
+    scenarios: script.scenarios,
+    report: script.report,
+  };
+}
+
+export function createTutorModel(): TutorModel {
+  const provider = process.env.TUTOR_PROVIDER || 'anthropic';
+
+  if (provider === 'scripted') {
+    return new ScriptedTutorModel(process.env.TUTOR_SCRIPT_PATH ? loadScript(process.env.TUTOR_SCRIPT_PATH) : undefined);
+  }
+
+  if (provider !== 'anthropic') {
+    console.warn(`Unknown TUTOR_PROVIDER "${provider}" - using Anthropic`);
+  }
+  return new AnthropicTutorModel(process.env.ANTHROPIC_API_KEY || '');
+}
@@ -0,0 +1,131 @@
+// Energy-based voice activity detection for 16-bit mono PCM audio.
+// Used for server-side endpointing of streamed microphone audio.
+
+interface VoiceActivityOptions {
+  sampleRate: number;
+  frameMs?: number;
+  speechThreshold?: number;
+  minSpeechMs?: number;
+  endSilenceMs?: number;
+  preRollMs?: number;
+  maxUtteranceMs?: number;
+}
+
+export type VoiceActivityEvent =
+  | { type: 'speech_start' }
+  | { type: 'speech_end'; audio: Buffer };
+
+class VoiceActivityDetector {
+  private frameBytes: number;
+  private speechThreshold: number;
+  private minSpeechFrames: number;
+  private endSilenceFrames: number;
+  private preRollFrames: number;
+  private maxUtteranceFrames: number;
+
+  private remainder: Buffer = Buffer.alloc(0);
+  private inSpeech = false;
+  private recentFrames: Buffer[] = [];
+  private utteranceFrames: Buffer[] = [];
+  private voicedRun = 0;
+  private silenceRun = 0;
+
+  constructor(options: VoiceActivityOptions) {
+    const frameMs = options.frameMs ?? 20;
+    const msToFrames = (ms: number) => Math.max(1, Math.round(ms / frameMs));
+
+    this.frameBytes = Math.round((options.sampleRate * frameMs) / 1000) * 2;
+    this.speechThreshold = options.speechThreshold ?? 0.02;
+    this.minSpeechFrames = msToFrames(options.minSpeechMs ?? 200);
+    this.endSilenceFrames = msToFrames(options.endSilenceMs ?? 700);
+    this.preRollFrames = msToFrames(options.preRollMs ?? 300);
+    this.maxUtteranceFrames = msToFrames(options.maxUtteranceMs ?? 30000);
+  }
+
+  /**
+   * Feed a chunk of PCM audio, returning any speech start/end events it triggered
+   */
+  push(chunk: Buffer): VoiceActivityEvent[] {
+    const events: VoiceActivityEvent[] = [];
+    const audio = Buffer.concat([this.remainder, chunk]);
+
+    let offset = 0;
+    while (offset + this.frameBytes <= audio.length) {
+      const frame = audio.subarray(offset, offset + this.frameBytes);
+      offset += this.frameBytes;
+
+      const event = this.processFrame(Buffer.from(frame));
+      if (event) events.push(event);
+    }
+
+    this.remainder = Buffer.from(audio.subarray(offset));
+    return events;
+  }
+
+  /**
+   * Discard any buffered audio and return to waiting for speech
+   */
+  reset(): void {
+    this.remainder = Buffer.alloc(0);
+    this.inSpeech = false;
+    this.recentFrames = [];
+    this.utteranceFrames = [];
+    this.voicedRun = 0;
+    this.silenceRun = 0;
+  }
+
+  isSpeaking(): boolean {
+    return this.inSpeech;
+  }
+
+  private processFrame(frame: Buffer): VoiceActivityEvent | null {
+    const voiced = this.frameLevel(frame) >= this.speechThreshold;
+
+    if (!this.inSpeech) {
+      // Keep a short history so the start of the utterance isn't clipped
+      this.recentFrames.push(frame);
+      if (this.recentFrames.length > this.preRollFrames + this.minSpeechFrames) {
+        this.recentFrames.shift();
+      }
+
+      this.voicedRun = voiced ? this.voicedRun + 1 : 0;
+      if (this.voicedRun >= this.minSpeechFrames) {
+        this.inSpeech = true;
+        this.utteranceFrames = this.recentFrames;
+        this.recentFrames = [];
+        this.silenceRun = 0;
+        return { type: 'speech_start' };
+      }
+      return null;
+    }
+
+    this.utteranceFrames.push(frame);
+    this.silenceRun = voiced ? 0 : this.silenceRun + 1;
+
+    if (this.silenceRun >= this.endSilenceFrames || this.utteranceFrames.length >= this.maxUtteranceFrames) {
+      const audio = Buffer.concat(this.utteranceFrames);
+      this.inSpeech = false;
+      this.utteranceFrames = [];
+      this.voicedRun = 0;
+      this.silenceRun = 0;
+      return { type: 'speech_end', audio };
+    }
+
+    return null;
+  }
+
+  /**
+   * Root-mean-square level of a frame, normalised to 0-1
+   */
+  private frameLevel(frame: Buffer): number {
+    const samples = frame.length / 2;
+    let sumSquares = 0;
+    for (let i = 0; i < samples; i++) {
+      const sample = frame.readInt16LE(i * 2) / 32768;
+      sumSquares += sample * sample;
+    }
+    return Math.sqrt(sumSquares / samples);
+  }
+}
+
+export { VoiceActivityDetector };
@@ -0,0 +1,98 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { v4 as uuidv4 } from 'uuid';
+import { closeTestDatabase, resetTestDatabase } from '../db/testing.js';
+import { User, UserModel } from '../models/User.js';
+import { SessionModel, UsageModel } from '../models/Usage.js';
+import { VoiceUsageModel } from '../models/VoiceUsage.js';
+import { anonymousUsageService } from './anonymousUsageService.js';
+import { VoiceMeter, voiceMeteringService } from './voiceMeteringService.js';
+
+let user: User;
+
+before(async () => {
+  await resetTestDatabase();
+  user = await UserModel.create({ email: 'voice@example.com', password: 'Password123!' });
+});
+
+after(closeTestDatabase);
+
+async function meterFor(userId: string | null, sessionId?: string): Promise<VoiceMeter> {
+  const device = userId ? null : { deviceId: uuidv4(), ipHash: anonymousUsageService.hashIp(uuidv4()) };
+  const result = await voiceMeteringService.resolveMeter(userId, device, sessionId);
+  assert.ok('meter' in result);
+  return result.meter;
+}
+
+test('a request needs a user or a device, and only the owner\'s live session', async () => {
+  const missing = await voiceMeteringService.resolveMeter(null, null);
+  assert.ok('status' in missing);
+  assert.equal(missing.status, 401);
+  assert.equal(missing.code, 'DEVICE_TOKEN_REQUIRED');
+
+  const session = await SessionModel.create(user.id, 'everyday');
+  const other = await UserModel.create({ email: 'voice-other@example.com', password: 'Password123!' });
+  const foreign = await voiceMeteringService.resolveMeter(other.id, null, session.id);
+  assert.ok('status' in foreign);
+  assert.equal(foreign.status, 403);
+
+  assert.equal((await meterFor(user.id, session.id)).practiceSessionId, session.id);
+  // An id that isn't a practice session is billed per unit
+  assert.equal((await meterFor(user.id, uuidv4())).practiceSessionId, null);
+
+  await SessionModel.end(session.id);
+  const ended = await voiceMeteringService.resolveMeter(user.id, null, session.id);
+  assert.ok('status' in ended);
+  assert.equal(ended.status, 409);
+  assert.equal(ended.code, 'SESSION_ENDED');
+});
+
+test('units are charged as practice time until the free plan runs out', async () => {
+  const learner = await UserModel.create({ email: 'voice-units@example.com', password: 'Password123!' });
+  const meter = await meterFor(learner.id);
+
+  // 150 characters spoken (10s), 20s transcribed and one tutor reply (5s)
+  const record = await voiceMeteringService.record(meter, 'voice/test', { ttsCharacters: 150, sttSeconds: 20, llmTurns: 1 });
+  assert.equal(record.minutes, 35 / 60);
+  assert.equal((await UsageModel.getTodayUsage(learner.id)).minutes_used, 35 / 60);
+
+  const allowance = await voiceMeteringService.getAllowance(meter);
+  assert.equal(allowance.allowed, true);
+  assert.equal(allowance.daily_limit_minutes, 2);
+  assert.equal(allowance.remaining_minutes, 2 - 35 / 60);
+
+  await voiceMeteringService.record(meter, 'voice/test', { sttSeconds: 90 });
+  const spent = await voiceMeteringService.getAllowance(meter);
+  assert.equal(spent.allowed, false);
+  assert.equal(spent.remaining_minutes, 0);
+  assert.equal((await VoiceUsageModel.findByUserId(learner.id)).length, 2);
+});
+
+test('voice use inside a live session is logged but not charged twice', async () => {
+  const learner = await UserModel.create({ email: 'voice-session@example.com', password: 'Password123!' });
+  const session = await SessionModel.create(learner.id, 'everyday');
+  const meter = await meterFor(learner.id, session.id);
+
+  const record = await voiceMeteringService.record(meter, 'voice/test', { ttsCharacters: 600, llmTurns: 2 });
+  assert.equal(record.minutes, 0);
+  assert.equal(record.practice_session_id, session.id);
+  assert.equal((await UsageModel.getTodayUsage(learner.id)).minutes_used, 0);
+});
+
+test('trial devices are charged against the free plan\'s minutes', async () => {
+  const meter = await meterFor(null);
+
+  await voiceMeteringService.record(meter, 'voice/test', { sttSeconds: 60 });
+  const allowance = await voiceMeteringService.getAllowance(meter);
+  assert.equal(allowance.allowed, true);
+  assert.equal(allowance.minutes_used, 1);
+
+  await voiceMeteringService.record(meter, 'voice/test', { sttSeconds: 60 });
+  assert.equal((await voiceMeteringService.getAllowance(meter)).allowed, false);
+});
+
+test('recording length is estimated from the upload size', () => {
+  assert.equal(voiceMeteringService.estimateAudioSeconds(Buffer.alloc(8000)), 2);
+  assert.equal(voiceMeteringService.estimateAudioSeconds(Buffer.alloc(44 + 32000), 'wav'), 1);
+  assert.equal(voiceMeteringService.estimateAudioSeconds(Buffer.alloc(10), 'wav'), 0);
+});
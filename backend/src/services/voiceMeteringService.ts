@@ -0,0 +1,136 @@
+import { SessionModel, UsageModel } from '../models/Usage.js';
+import { SubscriptionModel } from '../models/Subscription.js';
+import { VoiceUsageModel, VoiceUsageRecord } from '../models/VoiceUsage.js';
+import { anonymousUsageService, AnonymousDevice } from './anonymousUsageService.js';
+
+// What each metered unit costs in practice time
+const TTS_CHARACTERS_PER_SECOND = 15; // typical speaking rate of the tutor voice
+const LLM_TURN_SECONDS = 5; // flat charge per tutor reply
+
+// Browser recordings are Opus in WebM at roughly 32kbps
+const WEBM_BYTES_PER_SECOND = 4000;
+const WAV_HEADER_BYTES = 44;
+const WAV_BYTES_PER_SECOND = 16000 * 2; // 16kHz 16-bit mono
+
+// Who a voice request is billed to
+export interface VoiceMeter {
+  userId: string | null;
+  // Trial device, for callers who are not signed in
+  device: AnonymousDevice | null;
+  // Set when the request belongs to the user's live practice session, whose
+  // elapsed time is billed instead of the individual units
+  practiceSessionId: string | null;
+}
+
+export interface VoiceUsageUnits {
+  ttsCharacters?: number;
+  sttSeconds?: number;
+  llmTurns?: number;
+}
+
+export interface VoiceAllowance {
+  allowed: boolean;
+  daily_limit_minutes: number;
+  minutes_used: number;
+  remaining_minutes: number;
+}
+
+export type VoiceMeterResult =
+  | { meter: VoiceMeter }
+  | { status: number; error: string; code?: string };
+
+class VoiceMeteringService {
+  /**
+   * Work out who pays for a request. A session id that matches a practice
+   * session must belong to the caller and still be live. Anonymous callers
+   * need a device token.
+   */
+  async resolveMeter(userId: string | null, device: AnonymousDevice | null, sessionId?: string): Promise<VoiceMeterResult> {
+    if (!userId && !device) {
+      return { status: 401, error: 'Device token required', code: 'DEVICE_TOKEN_REQUIRED' };
+    }
+
+    const session = sessionId ? await SessionModel.findById(sessionId) : undefined;
+    if (!session) {
+      return { meter: { userId, device: userId ? null : device, practiceSessionId: null } };
+    }
+
+    if (session.user_id !== userId) {
+      return { status: 403, error: 'Not authorized' };
+    }
+
+    if ((await SessionModel.closeIfStale(session)).ended_at) {
+      return { status: 409, error: 'Session already ended', code: 'SESSION_ENDED' };
+    }
+
+    return { meter: { userId, device: null, practiceSessionId: session.id } };
+  }
+
+  /**
+   * Remaining daily allowance - the user's plan, or the trial allowance for
+   * an anonymous device
+   */
+  async getAllowance(meter: VoiceMeter): Promise<VoiceAllowance> {
+    if (!meter.userId) {
+      // resolveMeter only lets anonymous callers through with a device
+      return anonymousUsageService.getUsageStatus(meter.device!);
+    }
+
+    const dailyLimit = await SubscriptionModel.getUserDailyLimit(meter.userId);
+    const minutesUsed = (await UsageModel.getTodayUsage(meter.userId)).minutes_used;
+    const remaining = Math.max(0, dailyLimit - minutesUsed);
+    return {
+      allowed: remaining > 0,
+      daily_limit_minutes: dailyLimit,
+      minutes_used: minutesUsed,
+      remaining_minutes: remaining,
+    };
+  }
+
+  /**
+   * Record what a request used and charge it against the daily allowance
+   */
+  async record(meter: VoiceMeter, route: string, units: VoiceUsageUnits): Promise<VoiceUsageRecord> {
+    const ttsCharacters = units.ttsCharacters || 0;
+    const sttSeconds = units.sttSeconds || 0;
+    const llmTurns = units.llmTurns || 0;
+
+    let minutes = (sttSeconds + ttsCharacters / TTS_CHARACTERS_PER_SECOND + llmTurns * LLM_TURN_SECONDS) / 60;
+
+    if (meter.practiceSessionId) {
+      // Voice use keeps the session alive; its elapsed time is the charge
+      await SessionModel.recordActivity(meter.practiceSessionId);
+      minutes = 0;
+    } else if (meter.userId) {
+      if (minutes > 0) {
+        await UsageModel.addMinutes(meter.userId, minutes);
+      }
+    } else if (meter.device) {
+      minutes = await anonymousUsageService.chargeMinutes(meter.device, minutes);
+    }
+
+    return VoiceUsageModel.record({
+      user_id: meter.userId,
+      device_id: meter.device?.deviceId || null,
+      practice_session_id: meter.practiceSessionId,
+      route,
+      tts_characters: ttsCharacters,
+      stt_seconds: sttSeconds,
+      llm_turns: llmTurns,
+      minutes,
+    });
+  }
+
+  /**
+   * Length of an uploaded recording, from its size
+   */
+  estimateAudioSeconds(audio: Buffer, format: 'webm' | 'wav' = 'webm'): number {
+    if (format === 'wav') {
+      return Math.max(0, audio.length - WAV_HEADER_BYTES) / WAV_BYTES_PER_SECOND;
+    }
+    return audio.length / WEBM_BYTES_PER_SECOND;
+  }
+}
+
+export const voiceMeteringService = new VoiceMeteringService();
+export { VoiceMeteringService };
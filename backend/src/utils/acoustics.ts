@@ -0,0 +1,189 @@
+// Frame-level acoustic measurements for pronunciation scoring: loudness,
+// zero-crossing rate, voicing and the first two formants (from an LPC
+// spectral envelope).
+
+export const FRAME_STEP_SECONDS = 0.01;
+const FRAME_SECONDS = 0.025;
+
+// Pitch range searched when measuring voicing
+const MIN_PITCH_HZ = 70;
+const MAX_PITCH_HZ = 400;
+
+// Formant search ranges and envelope resolution
+const F1_RANGE: [number, number] = [200, 1100];
+const F2_MAX_HZ = 3000;
+const ENVELOPE_MAX_HZ = 4000;
+const ENVELOPE_STEP_HZ = 20;
+
+export interface FrameFeatures {
+  // Loudness relative to the loudest frame of the recording (0 or below)
+  energyDb: number;
+  // Zero crossings per sample - high for hissy sounds like "s"
+  zcr: number;
+  // Normalised autocorrelation peak in the pitch range, 0-1
+  voicing: number;
+  f1: number | null;
+  f2: number | null;
+}
+
+export interface Formants {
+  f1: number;
+  f2: number;
+}
+
+/**
+ * Convert a frequency to the Bark scale, where equal steps sound roughly
+ * equally far apart
+ */
+export function hzToBark(hz: number): number {
+  return (26.81 * hz) / (1960 + hz) - 0.53;
+}
+
+/**
+ * Perceptual distance between two vowel qualities, in Bark
+ */
+export function formantDistance(a: Formants, b: Formants): number {
+  return Math.hypot(hzToBark(a.f1) - hzToBark(b.f1), hzToBark(a.f2) - hzToBark(b.f2));
+}
+
+function hamming(length: number): Float64Array {
+  const window = new Float64Array(length);
+  for (let i = 0; i < length; i++) {
+    window[i] = 0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (length - 1));
+  }
+  return window;
+}
+
+function autocorrelate(frame: Float64Array, maxLag: number): Float64Array {
+  const r = new Float64Array(maxLag + 1);
+  for (let lag = 0; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let i = lag; i < frame.length; i++) {
+      sum += frame[i] * frame[i - lag];
+    }
+    r[lag] = sum;
+  }
+  return r;
+}
+
+/**
+ * Linear prediction coefficients by the Levinson-Durbin recursion
+ * (a[0] = 1), or null for a silent frame
+ */
+function lpc(r: Float64Array, order: number): Float64Array | null {
+  if (r[0] <= 0) return null;
+
+  const a = new Float64Array(order + 1);
+  a[0] = 1;
+  let error = r[0];
+
+  for (let i = 1; i <= order; i++) {
+    let acc = r[i];
+    for (let j = 1; j < i; j++) {
+      acc += a[j] * r[i - j];
+    }
+    const k = -acc / error;
+
+    const previous = a.slice();
+    for (let j = 1; j < i; j++) {
+      a[j] = previous[j] + k * previous[i - j];
+    }
+    a[i] = k;
+
+    error *= 1 - k * k;
+    if (error <= 0) return null;
+  }
+
+  return a;
+}
+
+/**
+ * First two formants: peaks of the LPC envelope in the F1 and F2 ranges
+ */
+function findFormants(a: Float64Array, sampleRate: number): { f1: number | null; f2: number | null } {
+  const frequencies: number[] = [];
+  const magnitudes: number[] = [];
+
+  for (let hz = 0; hz <= ENVELOPE_MAX_HZ; hz += ENVELOPE_STEP_HZ) {
+    const w = (2 * Math.PI * hz) / sampleRate;
+    let re = 0;
+    let im = 0;
+    for (let k = 0; k < a.length; k++) {
+      re += a[k] * Math.cos(w * k);
+      im -= a[k] * Math.sin(w * k);
+    }
+    frequencies.push(hz);
+    magnitudes.push(-Math.log(re * re + im * im));
+  }
+
+  const peaks: number[] = [];
+  for (let i = 1; i < magnitudes.length - 1; i++) {
+    if (magnitudes[i] > magnitudes[i - 1] && magnitudes[i] >= magnitudes[i + 1]) {
+      peaks.push(frequencies[i]);
+    }
+  }
+
+  const f1 = peaks.find(hz => hz >= F1_RANGE[0] && hz <= F1_RANGE[1]) ?? null;
+  const f2 = f1 !== null ? peaks.find(hz => hz > f1 + 200 && hz <= F2_MAX_HZ) ?? null : null;
+
+  return { f1, f2 };
+}
+
+/**
+ * Measure every 10ms frame of a mono recording
+ */
+export function extractFeatures(samples: Float32Array, sampleRate: number): FrameFeatures[] {
+  const frameLength = Math.round(FRAME_SECONDS * sampleRate);
+  const step = Math.round(FRAME_STEP_SECONDS * sampleRate);
+  const window = hamming(frameLength);
+  const order = Math.min(20, Math.max(10, Math.round(sampleRate / 1000) + 2));
+  const minLag = Math.floor(sampleRate / MAX_PITCH_HZ);
+  const maxLag = Math.ceil(sampleRate / MIN_PITCH_HZ);
+
+  const frames: Array<FrameFeatures & { energy: number }> = [];
+
+  for (let start = 0; start + frameLength <= samples.length; start += step) {
+    const raw = new Float64Array(frameLength);
+    const emphasised = new Float64Array(frameLength);
+    let energy = 0;
+    let crossings = 0;
+
+    for (let i = 0; i < frameLength; i++) {
+      const sample = samples[start + i];
+      const previous = start + i > 0 ? samples[start + i - 1] : 0;
+      raw[i] = sample * window[i];
+      emphasised[i] = (sample - 0.97 * previous) * window[i];
+      energy += sample * sample;
+      if (i > 0 && (sample >= 0) !== (samples[start + i - 1] >= 0)) {
+        crossings++;
+      }
+    }
+
+    // Voicing: how strongly the frame repeats at some pitch period
+    const r = autocorrelate(raw, Math.min(maxLag, frameLength - 1));
+    let voicing = 0;
+    if (r[0] > 0) {
+      for (let lag = minLag; lag < r.length; lag++) {
+        voicing = Math.max(voicing, r[lag] / r[0]);
+      }
+    }
+
+    const coefficients = lpc(autocorrelate(emphasised, order), order);
+    const { f1, f2 } = coefficients ? findFormants(coefficients, sampleRate) : { f1: null, f2: null };
+
+    frames.push({
+      energy: energy / frameLength,
+      energyDb: 0,
+      zcr: crossings / frameLength,
+      voicing: Math.max(0, Math.min(1, voicing)),
+      f1,
+      f2,
+    });
+  }
+
+  const loudest = frames.reduce((max, frame) => Math.max(max, frame.energy), 1e-10);
+  return frames.map(({ energy, ...frame }) => ({
+    ...frame,
+    energyDb: 10 * Math.log10(Math.max(energy, 1e-10) / loudest),
+  }));
+}
@@ -1,21 +1,31 @@
 import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret-change-in-production';
-const JWT_EXPIRES_IN = '7d';
+// Access tokens are short-lived; clients renew them with a refresh token
+export const ACCESS_TOKEN_EXPIRES_IN_SECONDS = 15 * 60;
 
 export interface JWTPayload {
   userId: string;
   email: string;
+  // The signed-in device (auth_sessions row) the token was issued to
+  sessionId: string;
 }
 
 export function generateToken(payload: JWTPayload): string {
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: JWT_EXPIRES_IN });
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: ACCESS_TOKEN_EXPIRES_IN_SECONDS });
 }
 
 export function verifyToken(token: string): JWTPayload {
   return jwt.verify(token, JWT_SECRET) as JWTPayload;
 }
 
+// A keyed hash with the signing secret: values the server can work out
+// again later, but nobody without the secret can
+export function signValue(value: string): string {
+  return crypto.createHmac('sha256', JWT_SECRET).update(value).digest('base64url');
+}
+
 export function decodeToken(token: string): JWTPayload | null {
   try {
     return jwt.decode(token) as JWTPayload;
@@ -23,3 +33,25 @@ export function decodeToken(token: string): JWTPayload | null {
     return null;
   }
 }
+
+// Anonymous devices get a long-lived token of their own, which cannot be
+// used as a user token (it has no userId)
+const DEVICE_TOKEN_EXPIRES_IN = '365d';
+
+export interface DeviceTokenPayload {
+  deviceId: string;
+  type: 'device';
+}
+
+export function generateDeviceToken(deviceId: string): string {
+  const payload: DeviceTokenPayload = { deviceId, type: 'device' };
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: DEVICE_TOKEN_EXPIRES_IN });
+}
+
+export function verifyDeviceToken(token: string): DeviceTokenPayload {
+  const payload = jwt.verify(token, JWT_SECRET) as Partial<DeviceTokenPayload>;
+  if (payload.type !== 'device' || typeof payload.deviceId !== 'string') {
+    throw new Error('Not a device token');
+  }
+  return payload as DeviceTokenPayload;
+}
@@ -0,0 +1,73 @@
+/**
+ * Wrap raw 16-bit mono PCM samples in a WAV container
+ */
+export function encodeWav(pcm: Buffer, sampleRate: number): Buffer {
+  const header = Buffer.alloc(44);
+  const byteRate = sampleRate * 2;
+
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16); // PCM chunk size
+  header.writeUInt16LE(1, 20); // PCM format
+  header.writeUInt16LE(1, 22); // mono
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(byteRate, 28);
+  header.writeUInt16LE(2, 32); // block align
+  header.writeUInt16LE(16, 34); // bits per sample
+  header.write('data', 36);
+  header.writeUInt32LE(pcm.length, 40);
+
+  return Buffer.concat([header, pcm]);
+}
+
+/**
+ * Read a 16-bit PCM WAV file into samples in [-1, 1], mixing multiple
+ * channels down to mono. Returns null for anything else.
+ */
+export function decodeWav(wav: Buffer): { samples: Float32Array; sampleRate: number } | null {
+  if (wav.length < 12 || wav.toString('ascii', 0, 4) !== 'RIFF' || wav.toString('ascii', 8, 12) !== 'WAVE') {
+    return null;
+  }
+
+  let channels = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let offset = 12;
+
+  // Walk the chunks: fmt describes the audio, data holds it
+  while (offset + 8 <= wav.length) {
+    const chunkId = wav.toString('ascii', offset, offset + 4);
+    const chunkSize = wav.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ' && body + 16 <= wav.length) {
+      const format = wav.readUInt16LE(body);
+      channels = wav.readUInt16LE(body + 2);
+      sampleRate = wav.readUInt32LE(body + 4);
+      bitsPerSample = wav.readUInt16LE(body + 14);
+      if (format !== 1) return null;
+    } else if (chunkId === 'data') {
+      if (!channels || bitsPerSample !== 16) return null;
+
+      const end = Math.min(wav.length, body + chunkSize);
+      const frameCount = Math.floor((end - body) / (2 * channels));
+      const samples = new Float32Array(frameCount);
+
+      for (let i = 0; i < frameCount; i++) {
+        let sum = 0;
+        for (let c = 0; c < channels; c++) {
+          sum += wav.readInt16LE(body + (i * channels + c) * 2);
+        }
+        samples[i] = sum / channels / 32768;
+      }
+      return { samples, sampleRate };
+    }
+
+    // Chunks are padded to an even size
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  return null;
+}
@@ -1,22 +1,29 @@
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { useAuthProvider, AuthProvider } from './hooks/useAuth';
+import { useProgressSync } from './hooks/useProgressSync';
 import { AussieEnglishPractice } from './components/AussieEnglishPractice';
 import { SpeakFreePage } from './components/SpeakFreePage';
 import { SlangPage } from './components/slang/SlangPage';
+import { SyncErrorBanner } from './components/SyncErrorBanner';
 
 function AppRoutes() {
+  const { syncError, dismissSyncError } = useProgressSync();
+
   return (
-    <Routes>
-      <Route path="/app" element={
-        <div className="app">
-          <AussieEnglishPractice />
-        </div>
-      } />
-      <Route path="/speak" element={<SpeakFreePage />} />
-      <Route path="/slang" element={<SlangPage />} />
-      <Route path="/" element={<Navigate to="/app" replace />} />
-      <Route path="*" element={<Navigate to="/app" replace />} />
-    </Routes>
+    <>
+      <SyncErrorBanner message={syncError} onDismiss={dismissSyncError} />
+      <Routes>
+        <Route path="/app" element={
+          <div className="app">
+            <AussieEnglishPractice />
+          </div>
+        } />
+        <Route path="/speak" element={<SpeakFreePage />} />
+        <Route path="/slang" element={<SlangPage />} />
+        <Route path="/" element={<Navigate to="/app" replace />} />
+        <Route path="*" element={<Navigate to="/app" replace />} />
+      </Routes>
+    </>
   );
 }
 
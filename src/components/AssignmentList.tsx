@@ -0,0 +1,127 @@
+import { LearnerAssignment, AssignmentTask, TaskProgress } from '../hooks/useAssignments';
+import { categoryNames } from '../data/slangData';
+import { Scenario, getScenarioById } from '../data/scenarios';
+import './AssignmentList.css';
+
+interface AssignmentListProps {
+  assignments: LearnerAssignment[];
+  onSelectScenario: (scenario: Scenario) => void;
+}
+
+const STATUS_LABELS: Record<LearnerAssignment['progress']['status'], string> = {
+  not_started: 'Not started',
+  in_progress: 'In progress',
+  completed: 'Done',
+  overdue: 'Overdue',
+};
+
+function formatDue(dueAt: string): string {
+  const due = new Date(dueAt);
+  const days = Math.ceil((due.getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+  if (days < 0) return `Was due ${due.toLocaleDateString()}`;
+  if (days === 0) return 'Due today';
+  if (days === 1) return 'Due tomorrow';
+  return `Due in ${days} days`;
+}
+
+// Slang page link that opens the quiz set up for the task
+function quizLink(task: AssignmentTask): string {
+  const params = new URLSearchParams({ mode: 'quiz' });
+  if (task.category) params.set('category', task.category);
+  if (task.question_count) params.set('questions', String(task.question_count));
+  if (task.deck_id) params.set('deck', task.deck_id);
+  return `/slang?${params.toString()}`;
+}
+
+function quizLabel(task: AssignmentTask): string {
+  const topic = task.category ? `${categoryNames[task.category]} slang` : 'Slang';
+  const target = task.min_score ? ` - score ${task.min_score}%+` : '';
+  return `${topic} quiz, ${task.question_count ?? 10} questions${target}`;
+}
+
+function TaskItem({ task, progress, onSelectScenario }: {
+  task: AssignmentTask;
+  progress?: TaskProgress;
+  onSelectScenario: (scenario: Scenario) => void;
+}) {
+  const done = progress?.completed ?? false;
+
+  if (task.type === 'scenario') {
+    const scenario = task.scenario_id ? getScenarioById(task.scenario_id) : undefined;
+    if (!scenario) return null;
+
+    return (
+      <li className={`assignment-task ${done ? 'done' : ''}`}>
+        <span className="task-check">{done ? '✓' : '○'}</span>
+        <button className="task-action" onClick={() => onSelectScenario(scenario)} disabled={done}>
+          {scenario.icon} {scenario.title}
+        </button>
+      </li>
+    );
+  }
+
+  return (
+    <li className={`assignment-task ${done ? 'done' : ''}`}>
+      <span className="task-check">{done ? '✓' : '○'}</span>
+      {done ? (
+        <span className="task-action">{quizLabel(task)}</span>
+      ) : (
+        <a className="task-action" href={quizLink(task)}>{quizLabel(task)}</a>
+      )}
+      {!done && progress?.best_score != null && (
+        <span className="task-best">Best {progress.best_score}%</span>
+      )}
+    </li>
+  );
+}
+
+/**
+ * To-do list of the assignments a learner's teachers have set
+ */
+export function AssignmentList({ assignments, onSelectScenario }: AssignmentListProps) {
+  if (assignments.length === 0) return null;
+
+  return (
+    <div className="assignment-list">
+      <div className="assignment-list-header">
+        <span className="assignment-badge">Assigned to you</span>
+      </div>
+
+      {assignments.map(assignment => {
+        const { progress } = assignment;
+
+        return (
+          <div key={assignment.id} className={`assignment-card ${progress.status}`}>
+            <div className="assignment-card-header">
+              <div>
+                <span className="assignment-title">{assignment.title}</span>
+                <span className="assignment-cohort">{assignment.cohort_name}</span>
+              </div>
+              <span className={`assignment-status ${progress.status}`}>{STATUS_LABELS[progress.status]}</span>
+            </div>
+
+            {assignment.description && (
+              <p className="assignment-description">{assignment.description}</p>
+            )}
+
+            <ul className="assignment-tasks">
+              {assignment.tasks.map(task => (
+                <TaskItem
+                  key={task.id}
+                  task={task}
+                  progress={progress.tasks.find(t => t.task_id === task.id)}
+                  onSelectScenario={onSelectScenario}
+                />
+              ))}
+            </ul>
+
+            <div className="assignment-footer">
+              <span>{progress.completed_tasks}/{progress.total_tasks} done</span>
+              <span>{formatDue(assignment.due_at)}</span>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
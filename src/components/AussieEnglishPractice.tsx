@@ -1,15 +1,20 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useElevenLabsConversation } from '../hooks/useElevenLabsConversation';
 import { useProgressTracking } from '../hooks/useProgressTracking';
 import { useAchievements } from '../hooks/useAchievements';
 import { usePronunciationScoring } from '../hooks/usePronunciationScoring';
 import { useAuth } from '../hooks/useAuth';
 import { useSubscription } from '../hooks/useSubscription';
+import { useSessionHeartbeat } from '../hooks/useSessionHeartbeat';
 import { useAnonymousUsage } from '../hooks/useAnonymousUsage';
 import { useJourneyProgress } from '../hooks/useJourneyProgress';
 import { useOnboarding } from '../hooks/useOnboarding';
 import { useScenarioRecommendations, getDailyRecommendation } from '../hooks/useScenarioRecommendations';
+import { useSlangProgress } from '../hooks/useSlangProgress';
+import { useAssignments } from '../hooks/useAssignments';
 import { ScenarioSelector } from './ScenarioSelector';
+import { AssignmentList } from './AssignmentList';
 import { JourneyCompact } from './JourneyProgress';
 import { OnboardingFlow } from './OnboardingFlow';
 import { CelebrationToast, useCelebrations, CELEBRATIONS } from './CelebrationToast';
@@ -17,7 +22,7 @@ import { ScenarioIntro } from './ScenarioIntro';
 import { ProgressDashboard } from './ProgressDashboard';
 import { CultureModuleViewer } from './CultureModuleViewer';
 import { AudioVisualizer } from './AudioVisualizer';
-import { AuthModal } from './AuthModal';
+import { AuthModal, AuthModalMode } from './AuthModal';
 import { UserMenu } from './UserMenu';
 import { UsageBadge } from './UsageBadge';
 import { SubscriptionPlans } from './SubscriptionPlans';
@@ -25,7 +30,9 @@ import { SessionTimer } from './SessionTimer';
 import { PostSessionFeedback, SessionFeeling } from './PostSessionFeedback';
 import { FeedbackButton } from './FeedbackButton';
 import { NPSSurvey, useNPSSurvey } from './NPSSurvey';
+import { SlangReview } from './slang/SlangReview';
 import { Scenario, getCategoryInfo, scenarios } from '../data/scenarios';
+import { getScenarioVocabIds } from '../data/reviewItems';
 import './AussieEnglishPractice.css';
 
 interface Message {
@@ -43,14 +50,25 @@ export function AussieEnglishPractice() {
   const [error, setError] = useState<string | null>(null);
   const [showProgress, setShowProgress] = useState(false);
   const [showCultureGuide, setShowCultureGuide] = useState(false);
-  const [showAuthModal, setShowAuthModal] = useState(false);
+  const [showReview, setShowReview] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Password reset and email verification links land here with their token,
+  // and Google/Apple sign-ins with a login code or an error
+  const linkToken = searchParams.get('reset_token') || searchParams.get('verify_token') || searchParams.get('oauth_code');
+  const oauthError = searchParams.get('oauth_error');
+  const linkMode: AuthModalMode | undefined = searchParams.has('reset_token')
+    ? 'reset'
+    : searchParams.has('verify_token') ? 'verify'
+    : searchParams.has('oauth_code') ? 'oauth'
+    : oauthError ? 'login' : undefined;
+  const [showAuthModal, setShowAuthModal] = useState(linkMode !== undefined);
   const [showPlans, setShowPlans] = useState(false);
   const [sessionRemainingMinutes, setSessionRemainingMinutes] = useState(0);
   const [isStarting, setIsStarting] = useState(false);
   const [showPostSessionFeedback, setShowPostSessionFeedback] = useState(false);
   const [completedScenario, setCompletedScenario] = useState<Scenario | null>(null);
   const backendSessionId = useRef<string | null>(null);
-  const anonymousSessionStart = useRef<number | null>(null);
+  const anonymousSessionActive = useRef(false);
 
   const { isAuthenticated, isLoading: authLoading } = useAuth();
   const {
@@ -62,9 +80,17 @@ export function AussieEnglishPractice() {
   } = useSubscription();
   const {
     remainingMinutes: anonRemainingMinutes,
+    remainingSeconds: anonRemainingSeconds,
     canStartSession: canStartAnonSession,
+    startSessionTracking: startAnonSessionTracking,
     endSessionTracking: endAnonSessionTracking,
-  } = useAnonymousUsage();
+  } = useAnonymousUsage({
+    enabled: !authLoading && !isAuthenticated,
+    onLimitReached: () => {
+      setError("You've used your free minutes today. Sign up to get more practice time!");
+      endSession();
+    },
+  });
 
   const {
     sessions,
@@ -106,6 +132,11 @@ export function AussieEnglishPractice() {
 
   const recommendations = useScenarioRecommendations(onboardingData, sessions);
   const dailyRecommendation = getDailyRecommendation(recommendations, onboardingData);
+  const { todo: assignments, refreshAssignments } = useAssignments();
+
+  // Spaced repetition queue (slang, scenario vocab and practice phrases)
+  const { enrollItems: enrollReviewItems, getDueItems } = useSlangProgress();
+  const dueReviewCount = getDueItems().length;
 
   // Celebrations
   const { currentCelebration, showCelebration, dismissCelebration } = useCelebrations();
@@ -194,14 +225,13 @@ export function AussieEnglishPractice() {
       }
       setSessionRemainingMinutes(canStart.remaining || 0);
     } else {
-      const anonCheck = canStartAnonSession();
+      const anonCheck = await canStartAnonSession();
       if (!anonCheck.allowed) {
         setError(anonCheck.message || 'Cannot start session');
         setShowPlans(true);
         return;
       }
       setSessionRemainingMinutes(anonCheck.remaining || 0);
-      anonymousSessionStart.current = Date.now();
     }
 
     const hasPermission = await requestMicrophonePermission();
@@ -212,10 +242,13 @@ export function AussieEnglishPractice() {
       setError(null);
       setMessages([]);
 
-      // Start backend session for tracking (only for logged-in users)
+      // Start backend session for tracking (trial session for anonymous users)
       if (isAuthenticated) {
-        const sessionId = await startBackendSession(selectedScenario.category);
+        const sessionId = await startBackendSession({ scenarioId: selectedScenario.id });
         backendSessionId.current = sessionId;
+      } else {
+        await startAnonSessionTracking();
+        anonymousSessionActive.current = true;
       }
 
       await conversation.startSession({
@@ -236,6 +269,11 @@ export function AussieEnglishPractice() {
     try {
       await conversation.endSession();
 
+      // Queue the scenario's vocab for spaced repetition
+      if (selectedScenario) {
+        enrollReviewItems(getScenarioVocabIds(selectedScenario));
+      }
+
       // Finalize pronunciation scores if any
       if (currentSession && selectedScenario) {
         finalizeSessionScores(currentSession.id, selectedScenario.category as 'everyday' | 'slang' | 'workplace');
@@ -246,13 +284,18 @@ export function AussieEnglishPractice() {
         await recordSessionUsage(
           backendSessionId.current,
           feedback,
-          messages.filter(m => m.role === 'user').length
+          messages.filter(m => m.role === 'user').length,
+          messages.map(m => ({
+            role: m.role === 'user' ? 'user' as const : 'assistant' as const,
+            content: m.content,
+          }))
         );
         backendSessionId.current = null;
         refreshUsage();
-      } else if (anonymousSessionStart.current) {
-        endAnonSessionTracking(anonymousSessionStart.current);
-        anonymousSessionStart.current = null;
+        refreshAssignments();
+      } else if (anonymousSessionActive.current) {
+        anonymousSessionActive.current = false;
+        endAnonSessionTracking();
       }
 
       endTracking(feedback);
@@ -302,6 +345,18 @@ export function AussieEnglishPractice() {
     endSession();
   }, []);
 
+  // The server bills signed-in sessions as they run and ends them when the
+  // daily allowance is used up
+  const { remainingSeconds: serverRemainingSeconds } = useSessionHeartbeat(
+    viewState === 'session' ? backendSessionId.current : null,
+    {
+      onLimitReached: () => {
+        setError("You've used your daily practice time. Upgrade your plan for more practice time!");
+        endSession();
+      },
+    }
+  );
+
   const getInputFrequencyData = useCallback((): Uint8Array | null => {
     try {
       return getInputByteFrequencyData() ?? null;
@@ -361,16 +416,25 @@ export function AussieEnglishPractice() {
         <div className="header-toggles">
           <button
             className="toggle-progress-btn"
-            onClick={() => { setShowProgress(!showProgress); setShowCultureGuide(false); }}
+            onClick={() => { setShowProgress(!showProgress); setShowCultureGuide(false); setShowReview(false); }}
           >
             {showProgress ? 'Hide Progress' : 'Show Progress'}
           </button>
           <button
             className="toggle-culture-btn"
-            onClick={() => { setShowCultureGuide(!showCultureGuide); setShowProgress(false); }}
+            onClick={() => { setShowCultureGuide(!showCultureGuide); setShowProgress(false); setShowReview(false); }}
           >
             {showCultureGuide ? 'Hide Culture Guide' : 'Culture Guide'}
           </button>
+          <button
+            className="toggle-review-btn"
+            onClick={() => { setShowReview(!showReview); setShowProgress(false); setShowCultureGuide(false); }}
+          >
+            {showReview ? 'Hide Review' : 'Review'}
+            {!showReview && dueReviewCount > 0 && (
+              <span className="review-due-count">{dueReviewCount}</span>
+            )}
+          </button>
         </div>
       </header>
 
@@ -403,6 +467,12 @@ export function AussieEnglishPractice() {
         </div>
       )}
 
+      {showReview && (
+        <div className="review-section">
+          <SlangReview />
+        </div>
+      )}
+
       {showPlans && (
         <div className="plans-modal-overlay" onClick={() => setShowPlans(false)}>
           <div className="plans-modal" onClick={e => e.stopPropagation()}>
@@ -442,6 +512,9 @@ export function AussieEnglishPractice() {
             />
           </div>
 
+          {/* Teacher-set assignments */}
+          <AssignmentList assignments={assignments} onSelectScenario={handleSelectScenario} />
+
           {/* Daily recommendation */}
           {dailyRecommendation && (
             <div className="daily-recommendation">
@@ -483,6 +556,7 @@ export function AussieEnglishPractice() {
             isActive={viewState === 'session'}
             onTimeUp={handleTimeUp}
             warningThresholdSeconds={10}
+            serverRemainingSeconds={serverRemainingSeconds ?? anonRemainingSeconds}
           />
 
           <div className="session-mode-badge">
@@ -572,7 +646,15 @@ export function AussieEnglishPractice() {
 
       <AuthModal
         isOpen={showAuthModal}
-        onClose={() => setShowAuthModal(false)}
+        onClose={() => {
+          setShowAuthModal(false);
+          if (linkMode) {
+            setSearchParams({}, { replace: true });
+          }
+        }}
+        defaultMode={linkMode}
+        token={linkToken}
+        oauthError={oauthError}
       />
 
       {/* Onboarding flow for new users */}
@@ -1,22 +1,122 @@
-import { useState } from 'react';
-import { useAuth } from '../hooks/useAuth';
+import { useState, useEffect, useRef } from 'react';
+import { useAuth, getOAuthProviders, getOAuthStartUrl, OAuthProviderOption } from '../hooks/useAuth';
 import './AuthModal.css';
 
+export type AuthModalMode = 'login' | 'register' | 'forgot' | 'reset' | 'verify' | 'oauth';
+
 interface AuthModalProps {
   isOpen: boolean;
   onClose: () => void;
-  defaultMode?: 'login' | 'register';
+  defaultMode?: AuthModalMode;
+  // Token from an emailed reset or verification link
+  token?: string | null;
+  // Error code from a Google/Apple sign-in that didn't complete
+  oauthError?: string | null;
 }
 
-export function AuthModal({ isOpen, onClose, defaultMode = 'login' }: AuthModalProps) {
-  const [mode, setMode] = useState<'login' | 'register'>(defaultMode);
+const TITLES: Record<AuthModalMode, { title: string; subtitle: string }> = {
+  login: { title: 'Welcome Back!', subtitle: 'Log in to continue your Aussie English practice' },
+  register: { title: 'Create Account', subtitle: 'Sign up to start tracking your progress' },
+  forgot: { title: 'Forgot Password?', subtitle: "Enter your email and we'll send you a link to reset it" },
+  reset: { title: 'Choose a New Password', subtitle: 'Pick something at least 8 characters long' },
+  verify: { title: 'Verify Your Email', subtitle: 'Confirming your email address' },
+  oauth: { title: 'Signing You In', subtitle: 'Finishing your sign-in' },
+};
+
+const OAUTH_ERRORS: Record<string, string> = {
+  ACCOUNT_EXISTS: 'An account with this email already exists. Log in with your password instead.',
+  EMAIL_REQUIRED: 'We need an email address to create your account. Please allow access to your email.',
+  PROVIDER_DENIED: 'Sign-in was cancelled.',
+};
+
+export function AuthModal({ isOpen, onClose, defaultMode = 'login', token = null, oauthError = null }: AuthModalProps) {
+  const [mode, setMode] = useState<AuthModalMode>(defaultMode);
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [name, setName] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [providers, setProviders] = useState<OAuthProviderOption[]>([]);
+
+  const { login, register, requestPasswordReset, resetPassword, verifyEmail, completeOAuthLogin } = useAuth();
+
+  // Follow the mode when the modal is reopened for an emailed link
+  useEffect(() => {
+    if (isOpen) {
+      setMode(defaultMode);
+      setError(oauthError ? OAUTH_ERRORS[oauthError] || 'Sign-in failed. Please try again.' : null);
+      setNotice(null);
+    }
+  }, [isOpen, defaultMode, oauthError]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    getOAuthProviders()
+      .then(list => {
+        if (!cancelled) setProviders(list);
+      })
+      .catch(() => {
+        // Email and password still work without them
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen]);
+
+  // onClose changes every render; the exchange below must only run once
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  // The login code from a Google/Apple redirect is traded straight away
+  useEffect(() => {
+    if (!isOpen || mode !== 'oauth' || !token) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    completeOAuthLogin(token)
+      .then(() => {
+        if (!cancelled) onCloseRef.current();
+      })
+      .catch(err => {
+        if (!cancelled) {
+          setMode('login');
+          setError(err instanceof Error ? err.message : 'An error occurred');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, mode, token, completeOAuthLogin]);
+
+  // Verification links are checked straight away
+  useEffect(() => {
+    if (!isOpen || mode !== 'verify' || !token) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    verifyEmail(token)
+      .then(() => {
+        if (!cancelled) setNotice('Thanks - your email address is verified.');
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'An error occurred');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
 
-  const { login, register } = useAuth();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, mode, token, verifyEmail]);
 
   if (!isOpen) return null;
 
@@ -28,10 +128,17 @@ export function AuthModal({ isOpen, onClose, defaultMode = 'login' }: AuthModalP
     try {
       if (mode === 'login') {
         await login(email, password);
-      } else {
+        onClose();
+      } else if (mode === 'register') {
         await register(email, password, name || undefined);
+        onClose();
+      } else if (mode === 'forgot') {
+        await requestPasswordReset(email);
+        setNotice(`If ${email} has an account, a reset link is on its way. Check your inbox.`);
+      } else if (mode === 'reset' && token) {
+        await resetPassword(token, password);
+        onClose();
       }
-      onClose();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
@@ -39,11 +146,24 @@ export function AuthModal({ isOpen, onClose, defaultMode = 'login' }: AuthModalP
     }
   };
 
-  const switchMode = () => {
-    setMode(mode === 'login' ? 'register' : 'login');
+  const switchMode = (next: AuthModalMode) => {
+    setMode(next);
     setError(null);
+    setNotice(null);
   };
 
+  const submitLabel = {
+    login: 'Log In',
+    register: 'Create Account',
+    forgot: 'Send Reset Link',
+    reset: 'Set Password',
+    verify: '',
+    oauth: '',
+  }[mode];
+
+  const showForm = mode !== 'verify' && mode !== 'oauth' && !(mode === 'forgot' && notice);
+  const showProviders = (mode === 'login' || mode === 'register') && providers.length > 0;
+
   return (
     <div className="auth-modal-overlay" onClick={onClose}>
       <div className="auth-modal" onClick={e => e.stopPropagation()}>
@@ -51,75 +171,112 @@ export function AuthModal({ isOpen, onClose, defaultMode = 'login' }: AuthModalP
           &times;
         </button>
 
-        <h2>{mode === 'login' ? 'Welcome Back!' : 'Create Account'}</h2>
-        <p className="auth-modal-subtitle">
-          {mode === 'login'
-            ? 'Log in to continue your Aussie English practice'
-            : 'Sign up to start tracking your progress'}
-        </p>
+        <h2>{TITLES[mode].title}</h2>
+        <p className="auth-modal-subtitle">{TITLES[mode].subtitle}</p>
 
         {error && <div className="auth-error">{error}</div>}
+        {notice && <div className="auth-notice">{notice}</div>}
 
-        <form onSubmit={handleSubmit}>
-          {mode === 'register' && (
-            <div className="form-group">
-              <label htmlFor="name">Name (optional)</label>
-              <input
-                id="name"
-                type="text"
-                value={name}
-                onChange={e => setName(e.target.value)}
-                placeholder="Your name"
-              />
+        {(mode === 'verify' || mode === 'oauth') && isLoading && <p className="auth-modal-subtitle">Please wait...</p>}
+
+        {showProviders && (
+          <>
+            <div className="auth-providers">
+              {providers.map(provider => (
+                <a key={provider.id} className="auth-provider-btn" href={getOAuthStartUrl(provider.id)}>
+                  Continue with {provider.label}
+                </a>
+              ))}
             </div>
-          )}
+            <div className="auth-divider">or</div>
+          </>
+        )}
+
+        {mode === 'reset' && !token && (
+          <div className="auth-error">This reset link is incomplete. Ask for a new one below.</div>
+        )}
+
+        {showForm && (
+          <form onSubmit={handleSubmit}>
+            {mode === 'register' && (
+              <div className="form-group">
+                <label htmlFor="name">Name (optional)</label>
+                <input
+                  id="name"
+                  type="text"
+                  value={name}
+                  onChange={e => setName(e.target.value)}
+                  placeholder="Your name"
+                />
+              </div>
+            )}
+
+            {mode !== 'reset' && (
+              <div className="form-group">
+                <label htmlFor="email">Email</label>
+                <input
+                  id="email"
+                  type="email"
+                  value={email}
+                  onChange={e => setEmail(e.target.value)}
+                  placeholder="you@example.com"
+                  required
+                />
+              </div>
+            )}
+
+            {mode !== 'forgot' && (
+              <div className="form-group">
+                <label htmlFor="password">{mode === 'reset' ? 'New password' : 'Password'}</label>
+                <input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={e => setPassword(e.target.value)}
+                  placeholder={mode === 'login' ? 'Your password' : 'At least 8 characters'}
+                  minLength={mode === 'login' ? undefined : 8}
+                  required
+                />
+              </div>
+            )}
 
-          <div className="form-group">
-            <label htmlFor="email">Email</label>
-            <input
-              id="email"
-              type="email"
-              value={email}
-              onChange={e => setEmail(e.target.value)}
-              placeholder="you@example.com"
-              required
-            />
-          </div>
-
-          <div className="form-group">
-            <label htmlFor="password">Password</label>
-            <input
-              id="password"
-              type="password"
-              value={password}
-              onChange={e => setPassword(e.target.value)}
-              placeholder={mode === 'register' ? 'At least 8 characters' : 'Your password'}
-              minLength={mode === 'register' ? 8 : undefined}
-              required
-            />
-          </div>
-
-          <button type="submit" className="auth-submit-btn" disabled={isLoading}>
-            {isLoading
-              ? 'Please wait...'
-              : mode === 'login'
-              ? 'Log In'
-              : 'Create Account'}
-          </button>
-        </form>
+            {mode === 'login' && (
+              <button type="button" className="auth-forgot-link" onClick={() => switchMode('forgot')}>
+                Forgot password?
+              </button>
+            )}
+
+            <button type="submit" className="auth-submit-btn" disabled={isLoading || (mode === 'reset' && !token)}>
+              {isLoading ? 'Please wait...' : submitLabel}
+            </button>
+          </form>
+        )}
 
         <div className="auth-switch">
-          {mode === 'login' ? (
+          {mode === 'login' && (
             <>
               Don't have an account?{' '}
-              <button onClick={switchMode}>Sign up</button>
+              <button onClick={() => switchMode('register')}>Sign up</button>
             </>
-          ) : (
+          )}
+          {mode === 'register' && (
             <>
               Already have an account?{' '}
-              <button onClick={switchMode}>Log in</button>
+              <button onClick={() => switchMode('login')}>Log in</button>
+            </>
+          )}
+          {mode === 'forgot' && (
+            <>
+              Remembered it?{' '}
+              <button onClick={() => switchMode('login')}>Log in</button>
             </>
           )}
+          {mode === 'reset' && (
+            <button onClick={() => switchMode('forgot')}>Send a new reset link</button>
+          )}
+          {mode === 'verify' && !isLoading && (
+            <button onClick={onClose}>Continue</button>
+          )}
         </div>
       </div>
     </div>
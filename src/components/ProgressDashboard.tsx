@@ -8,6 +8,7 @@ import { ConfidenceScore, MilestoneDisplay } from './ConfidenceScore';
 import { JourneyProgressDisplay, JourneyTimeline } from './JourneyProgress';
 import { ExportMenu } from './ExportMenu';
 import { PronunciationStatsDisplay } from './PronunciationPractice';
+import { SessionReports } from './SessionReport';
 import './ProgressDashboard.css';
 
 interface PronunciationOverallStats {
@@ -61,7 +62,7 @@ const modeLabels: Record<PracticeMode, string> = {
   workplace: 'Workplace',
 };
 
-type TabType = 'overview' | 'journey' | 'confidence' | 'achievements' | 'pronunciation';
+type TabType = 'overview' | 'journey' | 'confidence' | 'achievements' | 'pronunciation' | 'reports';
 
 export function ProgressDashboard({
   stats,
@@ -159,6 +160,12 @@ export function ProgressDashboard({
         >
           Pronunciation
         </button>
+        <button
+          className={`tab-btn ${activeTab === 'reports' ? 'active' : ''}`}
+          onClick={() => setActiveTab('reports')}
+        >
+          Reports
+        </button>
       </div>
 
       {/* Overview Tab */}
@@ -272,6 +279,9 @@ export function ProgressDashboard({
       {activeTab === 'pronunciation' && pronunciationStats && (
         <PronunciationStatsDisplay stats={pronunciationStats} />
       )}
+
+      {/* Reports Tab */}
+      {activeTab === 'reports' && <SessionReports />}
     </div>
   );
 }
@@ -1,6 +1,8 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { PracticeMode } from '../hooks/useProgressTracking';
-import { PronunciationScore, usePronunciationScoring } from '../hooks/usePronunciationScoring';
+import { PronunciationScore, WordPronunciation, usePronunciationScoring } from '../hooks/usePronunciationScoring';
+import { useSlangProgress } from '../hooks/useSlangProgress';
+import { phraseItemId } from '../data/reviewItems';
 import { useSpeechRecognition } from '../hooks/useSpeechRecognition';
 import './PronunciationPractice.css';
 
@@ -21,15 +23,52 @@ export function PronunciationPractice({
     isScoring,
     startPronunciationPractice,
     submitPronunciationWithSpeech,
+    analyzeRecording,
     getNextPhrase,
   } = usePronunciationScoring();
 
+  const { enrollItems } = useSlangProgress();
+
   const [lastScore, setLastScore] = useState<PronunciationScore | null>(null);
   const [showScore, setShowScore] = useState(false);
   const [isPracticing, setIsPracticing] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
   const [recordedTranscript, setRecordedTranscript] = useState('');
   const [recordingConfidence, setRecordingConfidence] = useState(0);
+  const [recordedAudio, setRecordedAudio] = useState<Blob | null>(null);
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+
+  // The audio itself is recorded alongside speech recognition, for
+  // phoneme-level scoring on the server
+  const startAudioCapture = useCallback(async () => {
+    setRecordedAudio(null);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      recorder.onstop = () => {
+        stream.getTracks().forEach(track => track.stop());
+        setRecordedAudio(new Blob(chunks, { type: recorder.mimeType }));
+      };
+
+      recorder.start();
+      mediaRecorderRef.current = recorder;
+    } catch (error) {
+      // Scoring falls back to the transcript
+      console.error('Audio capture failed:', error);
+    }
+  }, []);
+
+  const stopAudioCapture = useCallback(() => {
+    if (mediaRecorderRef.current?.state === 'recording') {
+      mediaRecorderRef.current.stop();
+    }
+    mediaRecorderRef.current = null;
+  }, []);
 
   const handleSpeechResult = useCallback((result: { transcript: string; confidence: number; isFinal: boolean }) => {
     setRecordedTranscript(result.transcript);
@@ -40,12 +79,14 @@ export function PronunciationPractice({
 
   const handleSpeechEnd = useCallback(() => {
     setIsRecording(false);
-  }, []);
+    stopAudioCapture();
+  }, [stopAudioCapture]);
 
   const handleSpeechError = useCallback((error: string) => {
     console.error('Speech recognition error:', error);
     setIsRecording(false);
-  }, []);
+    stopAudioCapture();
+  }, [stopAudioCapture]);
 
   const {
     isSupported,
@@ -72,9 +113,14 @@ export function PronunciationPractice({
       setShowScore(false);
       setIsRecording(false);
       setRecordedTranscript('');
+      setRecordedAudio(null);
       stopListening();
+      stopAudioCapture();
     }
-  }, [isSessionActive, stopListening]);
+  }, [isSessionActive, stopListening, stopAudioCapture]);
+
+  // Release the microphone if unmounted mid-recording
+  useEffect(() => stopAudioCapture, [stopAudioCapture]);
 
   // Update transcript from speech recognition
   useEffect(() => {
@@ -100,29 +146,36 @@ export function PronunciationPractice({
     setRecordingConfidence(0);
     resetTranscript();
     startListening();
+    startAudioCapture();
     setIsRecording(true);
   };
 
   const handleStopRecording = () => {
     stopListening();
+    stopAudioCapture();
     setIsRecording(false);
   };
 
-  const handleSubmit = () => {
-    if (!recordedTranscript.trim()) {
+  const handleSubmit = async () => {
+    if (!recordedTranscript.trim() || !currentPhrase) {
       return;
     }
 
+    const analysis = recordedAudio ? await analyzeRecording(recordedAudio, currentPhrase.text) : null;
+
     const score = submitPronunciationWithSpeech(
       recordedTranscript,
       recordingConfidence || 0.7, // Default confidence if not available
-      mode
+      mode,
+      analysis
     );
 
     if (score) {
       setLastScore(score);
       setShowScore(true);
       onScoreUpdate?.(score);
+      // Bring the phrase back later for spaced repetition
+      enrollItems([phraseItemId(mode, currentPhrase.text)]);
     }
   };
 
@@ -132,6 +185,7 @@ export function PronunciationPractice({
     setLastScore(null);
     setRecordedTranscript('');
     setRecordingConfidence(0);
+    setRecordedAudio(null);
     resetTranscript();
   };
 
@@ -140,7 +194,9 @@ export function PronunciationPractice({
     setShowScore(false);
     setLastScore(null);
     setRecordedTranscript('');
+    setRecordedAudio(null);
     stopListening();
+    stopAudioCapture();
   };
 
   if (!isSessionActive) {
@@ -265,7 +321,11 @@ export function PronunciationPractice({
               <div className="comparison-section">
                 <div className="comparison-item">
                   <span className="comparison-label">Target:</span>
-                  <span className="comparison-text">{lastScore.phrase}</span>
+                  {lastScore.words && lastScore.words.length > 0 ? (
+                    <PronunciationHighlight words={lastScore.words} />
+                  ) : (
+                    <span className="comparison-text">{lastScore.phrase}</span>
+                  )}
                 </div>
                 <div className="comparison-item">
                   <span className="comparison-label">You said:</span>
@@ -320,6 +380,38 @@ export function PronunciationPractice({
   );
 }
 
+interface PronunciationHighlightProps {
+  words: WordPronunciation[];
+}
+
+// Target phrase coloured by word score, with each word's phonemes beneath it
+function PronunciationHighlight({ words }: PronunciationHighlightProps) {
+  return (
+    <div className="pronunciation-highlight">
+      {words.map((word, i) => (
+        <span
+          key={i}
+          className={`highlight-word ${getScoreClass(word.score)}`}
+          title={word.recognized === false ? `"${word.word}" wasn't heard clearly` : `${word.word}: ${word.score}`}
+        >
+          <span className="highlight-word-text">{word.word}</span>
+          <span className="highlight-phonemes">
+            {word.phonemes.map((phoneme, j) => (
+              <span
+                key={j}
+                className={`highlight-phoneme ${getScoreClass(phoneme.score)}`}
+                title={phoneme.tip || `/${phoneme.symbol}/: ${phoneme.score}`}
+              >
+                {phoneme.symbol}
+              </span>
+            ))}
+          </span>
+        </span>
+      ))}
+    </div>
+  );
+}
+
 interface ScoreBarProps {
   label: string;
   value: number;
@@ -0,0 +1,161 @@
+import { useState } from 'react';
+import { useSessionReports, FeedbackReport } from '../hooks/useSessionReports';
+import { getScenarioById } from '../data/scenarios';
+import './SessionReport.css';
+
+function formatSessionDate(isoDate: string): string {
+  return new Date(isoDate).toLocaleDateString('en-AU', {
+    day: 'numeric',
+    month: 'short',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+interface SessionReportViewProps {
+  report: FeedbackReport;
+}
+
+export function SessionReportView({ report }: SessionReportViewProps) {
+  return (
+    <div className="session-report">
+      <section className="report-section">
+        <h4>Corrections</h4>
+        {report.corrections.length === 0 ? (
+          <p className="report-empty">No corrections this time - nice work!</p>
+        ) : (
+          <ul className="report-corrections">
+            {report.corrections.map((correction, index) => (
+              <li key={index} className="report-correction">
+                <span className="correction-original">{correction.utterance}</span>
+                <span className="correction-improved">{correction.corrected}</span>
+                <span className="correction-explanation">{correction.explanation}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      {report.aussie_phrases_used_well.length > 0 && (
+        <section className="report-section">
+          <h4>Aussie phrases you nailed</h4>
+          <ul className="report-phrases">
+            {report.aussie_phrases_used_well.map((item, index) => (
+              <li key={index}>
+                <span className="report-phrase">"{item.phrase}"</span> - {item.comment}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {report.missed_vocab.length > 0 && (
+        <section className="report-section">
+          <h4>Try these next time</h4>
+          <ul className="report-vocab">
+            {report.missed_vocab.map((item) => (
+              <li key={item.term}>
+                <span className="report-vocab-term">{item.term}</span>
+                <span className="report-vocab-meaning">{item.meaning}</span>
+                {item.example && <span className="report-vocab-example">"{item.example}"</span>}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <section className="report-section">
+        <h4>Next steps</h4>
+        <ol className="report-next-steps">
+          {report.next_steps.map((step, index) => (
+            <li key={index}>{step}</li>
+          ))}
+        </ol>
+      </section>
+    </div>
+  );
+}
+
+export function SessionReports() {
+  const {
+    isAuthenticated,
+    sessions,
+    reports,
+    isLoading,
+    generatingId,
+    error,
+    loadReport,
+    generateReport,
+  } = useSessionReports();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  if (!isAuthenticated) {
+    return (
+      <div className="empty-progress">
+        <p>Log in to get an AI feedback report after each session.</p>
+      </div>
+    );
+  }
+
+  if (isLoading && sessions.length === 0) {
+    return <div className="empty-progress"><p>Loading sessions...</p></div>;
+  }
+
+  if (sessions.length === 0) {
+    return (
+      <div className="empty-progress">
+        <p>Finish a practice session to get your first feedback report.</p>
+      </div>
+    );
+  }
+
+  const handleSelect = (sessionId: string) => {
+    if (selectedId === sessionId) {
+      setSelectedId(null);
+      return;
+    }
+    setSelectedId(sessionId);
+    if (!(sessionId in reports)) {
+      loadReport(sessionId);
+    }
+  };
+
+  return (
+    <div className="session-reports">
+      {error && <div className="report-error">{error}</div>}
+
+      <ul className="report-session-list">
+        {sessions.map((session) => {
+          const scenario = session.scenario_id ? getScenarioById(session.scenario_id) : undefined;
+          const isSelected = selectedId === session.id;
+          const report = reports[session.id];
+
+          return (
+            <li key={session.id} className={`report-session ${isSelected ? 'selected' : ''}`}>
+              <button className="report-session-header" onClick={() => handleSelect(session.id)}>
+                <span className="report-session-icon">{scenario?.icon || '💬'}</span>
+                <span className="report-session-title">{scenario?.title || 'Practice session'}</span>
+                <span className="report-session-date">{formatSessionDate(session.started_at)}</span>
+              </button>
+
+              {isSelected && report && <SessionReportView report={report} />}
+
+              {isSelected && report === null && (
+                <div className="report-generate">
+                  <p>No report for this session yet.</p>
+                  <button
+                    className="report-generate-btn"
+                    onClick={() => generateReport(session.id)}
+                    disabled={generatingId === session.id}
+                  >
+                    {generatingId === session.id ? 'Reviewing your session...' : 'Get feedback report'}
+                  </button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
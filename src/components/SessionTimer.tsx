@@ -6,6 +6,8 @@ interface SessionTimerProps {
   isActive: boolean;
   onTimeUp: () => void;
   warningThresholdSeconds?: number;
+  // Authoritative remaining allowance from the server's session heartbeat
+  serverRemainingSeconds?: number | null;
 }
 
 export function SessionTimer({
@@ -13,6 +15,7 @@ export function SessionTimer({
   isActive,
   onTimeUp,
   warningThresholdSeconds = 10,
+  serverRemainingSeconds,
 }: SessionTimerProps) {
   const [remainingSeconds, setRemainingSeconds] = useState(Math.floor(remainingMinutes * 60));
   const [hasPlayedWarning, setHasPlayedWarning] = useState(false);
@@ -20,6 +23,7 @@ export function SessionTimer({
   const audioContextRef = useRef<AudioContext | null>(null);
   const startTimeRef = useRef<number | null>(null);
   const initialSecondsRef = useRef<number>(Math.floor(remainingMinutes * 60));
+  const totalSecondsRef = useRef<number>(Math.floor(remainingMinutes * 60));
 
   // Reset when session starts
   useEffect(() => {
@@ -27,12 +31,22 @@ export function SessionTimer({
       const seconds = Math.floor(remainingMinutes * 60);
       setRemainingSeconds(seconds);
       initialSecondsRef.current = seconds;
+      totalSecondsRef.current = seconds;
       startTimeRef.current = Date.now();
       setHasPlayedWarning(false);
       setIsWarning(false);
     }
   }, [isActive, remainingMinutes]);
 
+  // Count down from the server's figure whenever a heartbeat reports one
+  useEffect(() => {
+    if (isActive && serverRemainingSeconds != null) {
+      setRemainingSeconds(serverRemainingSeconds);
+      initialSecondsRef.current = serverRemainingSeconds;
+      startTimeRef.current = Date.now();
+    }
+  }, [isActive, serverRemainingSeconds]);
+
   // Play warning sound
   const playWarningSound = useCallback(() => {
     try {
@@ -105,7 +119,7 @@ export function SessionTimer({
 
   const minutes = Math.floor(remainingSeconds / 60);
   const seconds = remainingSeconds % 60;
-  const percentRemaining = (remainingSeconds / initialSecondsRef.current) * 100;
+  const percentRemaining = Math.min(100, (remainingSeconds / totalSecondsRef.current) * 100);
 
   return (
     <div className={`session-timer ${isWarning ? 'warning' : ''} ${remainingSeconds <= 0 ? 'expired' : ''}`}>
@@ -0,0 +1,20 @@
+import './SyncErrorBanner.css';
+
+interface SyncErrorBannerProps {
+  message: string | null;
+  onDismiss: () => void;
+}
+
+// Shown while progress only lives on this device because syncing failed
+export function SyncErrorBanner({ message, onDismiss }: SyncErrorBannerProps) {
+  if (!message) return null;
+
+  return (
+    <div className="sync-error-banner" role="alert">
+      <span className="sync-error-message">{message}</span>
+      <button className="sync-error-dismiss" onClick={onDismiss} aria-label="Dismiss">
+        &times;
+      </button>
+    </div>
+  );
+}
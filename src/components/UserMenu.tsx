@@ -7,13 +7,36 @@ interface UserMenuProps {
 }
 
 export function UserMenu({ onShowPlans }: UserMenuProps) {
-  const { user, isAuthenticated, logout } = useAuth();
+  const { user, isAuthenticated, logout, logoutAll, resendVerification, downloadMyData, deleteAccount } = useAuth();
   const [isOpen, setIsOpen] = useState(false);
+  const [verificationSent, setVerificationSent] = useState(false);
 
   if (!isAuthenticated || !user) {
     return null;
   }
 
+  const handleDeleteAccount = async () => {
+    setIsOpen(false);
+    if (!window.confirm('Delete your account and all your practice history? Any paid subscription is canceled straight away. This cannot be undone.')) {
+      return;
+    }
+
+    // Accounts that only sign in with Google or Apple confirm by having
+    // signed in recently instead
+    let password: string | undefined;
+    if (user.has_password !== false) {
+      const entered = window.prompt('Enter your password to confirm');
+      if (entered === null) return;
+      password = entered;
+    }
+
+    try {
+      await deleteAccount(password);
+    } catch (err) {
+      window.alert(err instanceof Error ? err.message : 'Could not delete your account');
+    }
+  };
+
   const displayName = user.name || user.email.split('@')[0];
   const initial = displayName.charAt(0).toUpperCase();
 
@@ -41,6 +64,19 @@ export function UserMenu({ onShowPlans }: UserMenuProps) {
               )}
             </div>
             <div className="dropdown-divider" />
+            {user.email_verified === 0 && (
+              <button
+                className="dropdown-item"
+                disabled={verificationSent}
+                onClick={() => {
+                  resendVerification()
+                    .then(() => setVerificationSent(true))
+                    .catch(err => console.error('Failed to resend verification email:', err));
+                }}
+              >
+                {verificationSent ? 'Verification email sent' : 'Verify your email'}
+              </button>
+            )}
             <button
               className="dropdown-item"
               onClick={() => {
@@ -50,6 +86,15 @@ export function UserMenu({ onShowPlans }: UserMenuProps) {
             >
               Subscription & Plans
             </button>
+            <button
+              className="dropdown-item"
+              onClick={() => {
+                setIsOpen(false);
+                downloadMyData().catch(err => console.error('Failed to download data:', err));
+              }}
+            >
+              Download My Data
+            </button>
             <button
               className="dropdown-item logout"
               onClick={() => {
@@ -59,6 +104,18 @@ export function UserMenu({ onShowPlans }: UserMenuProps) {
             >
               Log Out
             </button>
+            <button
+              className="dropdown-item logout"
+              onClick={() => {
+                setIsOpen(false);
+                logoutAll().catch(err => console.error('Failed to log out everywhere:', err));
+              }}
+            >
+              Log Out of All Devices
+            </button>
+            <button className="dropdown-item logout" onClick={handleDeleteAccount}>
+              Delete Account
+            </button>
           </div>
         </>
       )}
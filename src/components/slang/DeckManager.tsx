@@ -0,0 +1,227 @@
+import { useState } from 'react';
+import { SlangCategory, SlangDifficulty, SlangTerm, categoryNames, difficulties, difficultyNames } from '../../data/slangData';
+import { CustomDeck, DeckTermInput } from '../../hooks/useCustomDecks';
+import './DeckManager.css';
+
+interface DeckManagerProps {
+  decks: CustomDeck[];
+  selectedDeckId: string | null;
+  selectedTerms: SlangTerm[] | null;
+  error: string | null;
+  onSelectDeck: (deckId: string | null) => void;
+  onCreateDeck: (name: string, description?: string) => Promise<CustomDeck | null>;
+  onDeleteDeck: (deckId: string) => Promise<boolean>;
+  onAddTerm: (deckId: string, term: DeckTermInput) => Promise<boolean>;
+  onDeleteTerm: (deckId: string, termId: string) => Promise<boolean>;
+}
+
+const ALL_CATEGORIES = Object.keys(categoryNames) as SlangCategory[];
+
+const EMPTY_TERM: DeckTermInput = {
+  term: '',
+  meaning: '',
+  example: '',
+  category: 'workplace',
+  difficulty: 'beginner',
+};
+
+export function DeckManager({
+  decks,
+  selectedDeckId,
+  selectedTerms,
+  error,
+  onSelectDeck,
+  onCreateDeck,
+  onDeleteDeck,
+  onAddTerm,
+  onDeleteTerm,
+}: DeckManagerProps) {
+  const [newDeckName, setNewDeckName] = useState('');
+  const [newDeckDescription, setNewDeckDescription] = useState('');
+  const [newTerm, setNewTerm] = useState<DeckTermInput>(EMPTY_TERM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const selectedDeck = decks.find(d => d.id === selectedDeckId);
+
+  const handleCreateDeck = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newDeckName.trim()) return;
+
+    setIsSaving(true);
+    const deck = await onCreateDeck(newDeckName.trim(), newDeckDescription.trim());
+    setIsSaving(false);
+
+    if (deck) {
+      setNewDeckName('');
+      setNewDeckDescription('');
+      onSelectDeck(deck.id);
+    }
+  };
+
+  const handleDeleteDeck = async (deck: CustomDeck) => {
+    if (window.confirm(`Delete "${deck.name}" and all its terms?`)) {
+      await onDeleteDeck(deck.id);
+    }
+  };
+
+  const handleAddTerm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedDeckId) return;
+
+    setIsSaving(true);
+    const added = await onAddTerm(selectedDeckId, newTerm);
+    setIsSaving(false);
+
+    if (added) {
+      // Keep the category and difficulty for the next term
+      setNewTerm(prev => ({ ...EMPTY_TERM, category: prev.category, difficulty: prev.difficulty }));
+    }
+  };
+
+  const updateNewTerm = <K extends keyof DeckTermInput>(field: K, value: DeckTermInput[K]) => {
+    setNewTerm(prev => ({ ...prev, [field]: value }));
+  };
+
+  return (
+    <div className="deck-manager">
+      <h2>Your Decks</h2>
+      <p className="deck-manager-subtitle">
+        Add your own terms - like the lingo of your workplace - and practise them in every game.
+      </p>
+
+      {error && <div className="deck-error">{error}</div>}
+
+      <div className="deck-list">
+        <div className={`deck-item ${selectedDeckId === null ? 'selected' : ''}`}>
+          <div className="deck-info">
+            <span className="deck-name">Built-in Aussie slang</span>
+          </div>
+          <button className="deck-select-btn" onClick={() => onSelectDeck(null)} disabled={selectedDeckId === null}>
+            {selectedDeckId === null ? 'In use' : 'Use'}
+          </button>
+        </div>
+
+        {decks.map(deck => (
+          <div key={deck.id} className={`deck-item ${deck.id === selectedDeckId ? 'selected' : ''}`}>
+            <div className="deck-info">
+              <span className="deck-name">{deck.name}</span>
+              <span className="deck-meta">
+                {deck.term_count} {deck.term_count === 1 ? 'term' : 'terms'}
+                {deck.description && ` · ${deck.description}`}
+              </span>
+            </div>
+            <button
+              className="deck-select-btn"
+              onClick={() => onSelectDeck(deck.id)}
+              disabled={deck.id === selectedDeckId}
+            >
+              {deck.id === selectedDeckId ? 'In use' : 'Use'}
+            </button>
+            <button className="deck-delete-btn" onClick={() => handleDeleteDeck(deck)} aria-label={`Delete ${deck.name}`}>
+              &#x2715;
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <form className="deck-form" onSubmit={handleCreateDeck}>
+        <h3>New deck</h3>
+        <input
+          type="text"
+          placeholder="Deck name, e.g. Nursing handover"
+          value={newDeckName}
+          onChange={e => setNewDeckName(e.target.value)}
+          maxLength={100}
+        />
+        <input
+          type="text"
+          placeholder="Description (optional)"
+          value={newDeckDescription}
+          onChange={e => setNewDeckDescription(e.target.value)}
+          maxLength={500}
+        />
+        <button type="submit" className="deck-submit-btn" disabled={isSaving || !newDeckName.trim()}>
+          Create Deck
+        </button>
+      </form>
+
+      {selectedDeck && (
+        <div className="deck-terms">
+          <h3>Terms in {selectedDeck.name}</h3>
+
+          {selectedTerms && selectedTerms.length > 0 ? (
+            <ul className="deck-term-list">
+              {selectedTerms.map(term => (
+                <li key={term.id} className="deck-term">
+                  <div className="deck-term-text">
+                    <strong>{term.term}</strong> - {term.meaning}
+                    <span className="deck-term-example">"{term.example}"</span>
+                  </div>
+                  <button
+                    className="deck-delete-btn"
+                    onClick={() => onDeleteTerm(selectedDeck.id, term.id)}
+                    aria-label={`Remove ${term.term}`}
+                  >
+                    &#x2715;
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="deck-empty">No terms yet - add a few below. The games need at least four.</p>
+          )}
+
+          <form className="deck-form" onSubmit={handleAddTerm}>
+            <h3>Add a term</h3>
+            <input
+              type="text"
+              placeholder="Term, e.g. Obs"
+              value={newTerm.term}
+              onChange={e => updateNewTerm('term', e.target.value)}
+              maxLength={100}
+            />
+            <input
+              type="text"
+              placeholder="Meaning, e.g. Patient observations"
+              value={newTerm.meaning}
+              onChange={e => updateNewTerm('meaning', e.target.value)}
+              maxLength={300}
+            />
+            <input
+              type="text"
+              placeholder="Example using the term, e.g. Can you do bed 4's obs?"
+              value={newTerm.example}
+              onChange={e => updateNewTerm('example', e.target.value)}
+              maxLength={500}
+            />
+            <div className="deck-form-row">
+              <select
+                value={newTerm.category}
+                onChange={e => updateNewTerm('category', e.target.value as SlangCategory)}
+              >
+                {ALL_CATEGORIES.map(category => (
+                  <option key={category} value={category}>{categoryNames[category]}</option>
+                ))}
+              </select>
+              <select
+                value={newTerm.difficulty}
+                onChange={e => updateNewTerm('difficulty', e.target.value as SlangDifficulty)}
+              >
+                {difficulties.map(difficulty => (
+                  <option key={difficulty} value={difficulty}>{difficultyNames[difficulty]}</option>
+                ))}
+              </select>
+            </div>
+            <button
+              type="submit"
+              className="deck-submit-btn"
+              disabled={isSaving || !newTerm.term.trim() || !newTerm.meaning.trim() || !newTerm.example.trim()}
+            >
+              Add Term
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
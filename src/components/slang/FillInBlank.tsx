@@ -1,5 +1,5 @@
 import { useState, useCallback, useMemo } from 'react';
-import { slangData, categories, categoryNames, difficulties, difficultyNames, SlangCategory, SlangDifficulty, SlangTerm } from '../../data/slangData';
+import { slangData, getCategories, categoryNames, difficulties, difficultyNames, SlangCategory, SlangDifficulty, SlangTerm } from '../../data/slangData';
 import { useGamification } from '../../hooks/useGamification';
 import { useSoundEffects } from '../../hooks/useSoundEffects';
 import './FillInBlank.css';
@@ -51,7 +51,12 @@ function calculateSimilarity(str1: string, str2: string): number {
   return Math.round((1 - distance / maxLen) * 100);
 }
 
-export function FillInBlank() {
+interface FillInBlankProps {
+  // A custom deck's terms - the built-in slang list by default
+  terms?: SlangTerm[];
+}
+
+export function FillInBlank({ terms: deckTerms = slangData }: FillInBlankProps) {
   const [gameState, setGameState] = useState<GameState>('start');
   const [selectedCategory, setSelectedCategory] = useState<SlangCategory | 'all'>('all');
   const [selectedDifficulty, setSelectedDifficulty] = useState<SlangDifficulty | 'all'>('all');
@@ -64,8 +69,10 @@ export function FillInBlank() {
   const { recordFillBlankComplete, recordFillBlankCorrect, notification } = useGamification();
   const { playCorrect, playIncorrect, playSuccess } = useSoundEffects();
 
+  const categories = useMemo(() => getCategories(deckTerms), [deckTerms]);
+
   const filteredTerms = useMemo(() => {
-    let terms = slangData;
+    let terms = deckTerms;
     if (selectedCategory !== 'all') {
       terms = terms.filter(t => t.category === selectedCategory);
     }
@@ -73,7 +80,7 @@ export function FillInBlank() {
       terms = terms.filter(t => t.difficulty === selectedDifficulty);
     }
     return terms;
-  }, [selectedCategory, selectedDifficulty]);
+  }, [deckTerms, selectedCategory, selectedDifficulty]);
 
   const startGame = useCallback(() => {
     if (filteredTerms.length < 5) {
@@ -1,5 +1,5 @@
 import { useState, useCallback, useMemo } from 'react';
-import { sentenceTemplates, SentenceTemplate } from '../../data/slangData';
+import { sentenceTemplates, buildSentenceTemplates, SentenceTemplate, SlangTerm } from '../../data/slangData';
 import { useGamification } from '../../hooks/useGamification';
 import { useSoundEffects } from '../../hooks/useSoundEffects';
 import './SentenceBuilder.css';
@@ -17,7 +17,13 @@ function shuffleArray<T>(array: T[]): T[] {
   return shuffled;
 }
 
-export function SentenceBuilder() {
+interface SentenceBuilderProps {
+  // A custom deck's terms, blanked out of their examples - the built-in
+  // sentences by default
+  terms?: SlangTerm[];
+}
+
+export function SentenceBuilder({ terms }: SentenceBuilderProps) {
   const [gameState, setGameState] = useState<GameState>('start');
   const [sentences, setSentences] = useState<SentenceTemplate[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
@@ -30,6 +36,7 @@ export function SentenceBuilder() {
   const { recordSentenceBuilderComplete, recordSentenceBuilderCorrect, notification } = useGamification();
   const { playCorrect, playIncorrect, playSuccess, playFlip } = useSoundEffects();
 
+  const templates = useMemo(() => (terms ? buildSentenceTemplates(terms) : sentenceTemplates), [terms]);
   const currentSentence = sentences[currentIndex];
 
   // Generate word options for current sentence
@@ -39,16 +46,16 @@ export function SentenceBuilder() {
     const correctAnswer = currentSentence.answer;
 
     // Get distractors from other templates
-    const distractors = sentenceTemplates
+    const distractors = templates
       .filter(t => t.answer !== correctAnswer)
       .map(t => t.answer);
 
     const shuffledDistractors = shuffleArray(distractors).slice(0, 5);
     return shuffleArray([correctAnswer, ...shuffledDistractors]);
-  }, [currentSentence]);
+  }, [currentSentence, templates]);
 
   const startGame = useCallback(() => {
-    const shuffled = shuffleArray([...sentenceTemplates]).slice(0, Math.min(GAME_LENGTH, sentenceTemplates.length));
+    const shuffled = shuffleArray([...templates]).slice(0, Math.min(GAME_LENGTH, templates.length));
     setSentences(shuffled);
     setCurrentIndex(0);
     setScore(0);
@@ -58,7 +65,7 @@ export function SentenceBuilder() {
     setShowHint(false);
     setGameState('playing');
     playFlip();
-  }, [playFlip]);
+  }, [templates, playFlip]);
 
   const handleWordClick = useCallback((word: string) => {
     if (gameState !== 'playing' || isCorrect !== null) return;
@@ -215,7 +222,10 @@ export function SentenceBuilder() {
           <h2>Sentence Builder</h2>
           <p>Drag and drop the correct word to complete the sentence!</p>
           <p className="game-tip">Tip: Click or drag words to place them in the blank</p>
-          <button className="start-btn" onClick={startGame}>
+          {templates.length < 2 && (
+            <p className="game-tip">This deck needs at least two terms whose example uses the term.</p>
+          )}
+          <button className="start-btn" onClick={startGame} disabled={templates.length < 2}>
             Start Game
           </button>
         </div>
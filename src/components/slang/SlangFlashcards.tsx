@@ -1,12 +1,17 @@
 import { useState, useCallback, useMemo } from 'react';
-import { slangData, categories, categoryNames, difficulties, difficultyNames, SlangCategory, SlangDifficulty } from '../../data/slangData';
+import { slangData, getCategories, categoryNames, difficulties, difficultyNames, SlangCategory, SlangDifficulty, SlangTerm } from '../../data/slangData';
 import { useTextToSpeech } from '../../hooks/useTextToSpeech';
 import { useGamification } from '../../hooks/useGamification';
 import { useVoicePractice } from '../../hooks/useVoicePractice';
 import { useSoundEffects } from '../../hooks/useSoundEffects';
 import './SlangFlashcards.css';
 
-export function SlangFlashcards() {
+interface SlangFlashcardsProps {
+  // A custom deck's terms - the built-in slang list by default
+  terms?: SlangTerm[];
+}
+
+export function SlangFlashcards({ terms = slangData }: SlangFlashcardsProps) {
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isFlipped, setIsFlipped] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<SlangCategory | 'all'>('all');
@@ -27,8 +32,10 @@ export function SlangFlashcards() {
     reset: resetVoice,
   } = useVoicePractice();
 
+  const categories = useMemo(() => getCategories(terms), [terms]);
+
   const filteredCards = useMemo(() => {
-    let cards = slangData;
+    let cards = terms;
     if (selectedCategory !== 'all') {
       cards = cards.filter((card) => card.category === selectedCategory);
     }
@@ -36,7 +43,7 @@ export function SlangFlashcards() {
       cards = cards.filter((card) => card.difficulty === selectedDifficulty);
     }
     return cards;
-  }, [selectedCategory, selectedDifficulty]);
+  }, [terms, selectedCategory, selectedDifficulty]);
 
   const currentCard = filteredCards[currentIndex];
 
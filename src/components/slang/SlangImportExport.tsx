@@ -0,0 +1,187 @@
+import { useState } from 'react';
+import { SlangTerm, categoryNames, difficultyNames } from '../../data/slangData';
+import { CustomDeck, DeckTermInput } from '../../hooks/useCustomDecks';
+import { useSlangProgress } from '../../hooks/useSlangProgress';
+import { ImportResult, exportTermsToAnki, exportTermsToCSV, parseSlangFile } from '../../utils/slangTransfer';
+import './SlangImportExport.css';
+
+interface SlangImportExportProps {
+  terms: SlangTerm[];
+  deckName: string;
+  isAuthenticated: boolean;
+  error: string | null;
+  onImport: (name: string, terms: DeckTermInput[]) => Promise<CustomDeck | null>;
+}
+
+// Matches the backend's per-deck limit
+const MAX_IMPORT_TERMS = 500;
+const PREVIEW_ROWS = 5;
+
+export function SlangImportExport({ terms, deckName, isAuthenticated, error, onImport }: SlangImportExportProps) {
+  const { progress } = useSlangProgress();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [importName, setImportName] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [importedDeck, setImportedDeck] = useState<CustomDeck | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const text = await file.text();
+    setFileName(file.name);
+    setResult(parseSlangFile(text));
+    setImportName(file.name.replace(/\.[^.]+$/, ''));
+    setImportedDeck(null);
+    e.target.value = '';
+  };
+
+  const handleImport = async () => {
+    if (!result || !importName.trim()) return;
+
+    setIsImporting(true);
+    const deck = await onImport(importName.trim(), result.terms);
+    setIsImporting(false);
+
+    if (deck) {
+      setImportedDeck(deck);
+      setResult(null);
+      setFileName(null);
+    }
+  };
+
+  const handleAnkiExport = async () => {
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      await exportTermsToAnki(terms, progress.cards, deckName);
+    } catch (err) {
+      console.error('Anki export failed:', err);
+      setExportError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const reviewedCount = terms.filter(term => progress.cards[term.id]?.lastReview).length;
+  const tooMany = result !== null && result.terms.length > MAX_IMPORT_TERMS;
+
+  return (
+    <div className="slang-transfer">
+      <section className="transfer-section">
+        <h2>Export</h2>
+        <p className="transfer-subtitle">
+          {deckName}: {terms.length} terms, {reviewedCount} with review progress.
+          Anki packages keep your review schedule, so you can carry on in Anki.
+        </p>
+        {exportError && <div className="transfer-error">{exportError}</div>}
+        <div className="transfer-actions">
+          <button className="transfer-btn" onClick={() => exportTermsToCSV(terms, progress.cards, deckName)}>
+            Download CSV
+          </button>
+          <button className="transfer-btn" onClick={handleAnkiExport} disabled={isExporting}>
+            {isExporting ? 'Building...' : 'Download Anki (.apkg)'}
+          </button>
+        </div>
+      </section>
+
+      <section className="transfer-section">
+        <h2>Import</h2>
+        <p className="transfer-subtitle">
+          Load a CSV or TSV file with columns term, meaning, example, category, difficulty.
+          A header row is optional; Anki's Front/Back exports work too.
+        </p>
+
+        <label className="transfer-file">
+          <input type="file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values" onChange={handleFile} />
+          <span>{fileName ?? 'Choose a file'}</span>
+        </label>
+
+        {importedDeck && (
+          <p className="transfer-success">
+            Imported {importedDeck.term_count} terms into "{importedDeck.name}" - it's now your active deck.
+          </p>
+        )}
+
+        {result && (
+          <div className="transfer-preview">
+            <h3>
+              {result.terms.length} {result.terms.length === 1 ? 'term' : 'terms'} ready
+              {result.rejected.length > 0 && `, ${result.rejected.length} rejected`}
+            </h3>
+
+            {result.terms.length > 0 && (
+              <table className="transfer-table">
+                <thead>
+                  <tr>
+                    <th>Term</th>
+                    <th>Meaning</th>
+                    <th>Category</th>
+                    <th>Difficulty</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.terms.slice(0, PREVIEW_ROWS).map(term => (
+                    <tr key={term.term}>
+                      <td>{term.term}</td>
+                      <td>{term.meaning}</td>
+                      <td>{categoryNames[term.category]}</td>
+                      <td>{difficultyNames[term.difficulty]}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {result.terms.length > PREVIEW_ROWS && (
+              <p className="transfer-more">...and {result.terms.length - PREVIEW_ROWS} more</p>
+            )}
+
+            {result.rejected.length > 0 && (
+              <ul className="transfer-rejected">
+                {result.rejected.map(row => (
+                  <li key={row.line}>
+                    <span className="rejected-line">Line {row.line}</span>
+                    <span className="rejected-reason">{row.reason}</span>
+                    <span className="rejected-text">{row.text}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {tooMany && (
+              <div className="transfer-error">
+                A deck can hold up to {MAX_IMPORT_TERMS} terms - split the file and import it in parts.
+              </div>
+            )}
+            {error && <div className="transfer-error">{error}</div>}
+
+            {isAuthenticated ? (
+              <div className="transfer-actions">
+                <input
+                  type="text"
+                  className="transfer-name"
+                  placeholder="Deck name"
+                  value={importName}
+                  onChange={e => setImportName(e.target.value)}
+                  maxLength={100}
+                />
+                <button
+                  className="transfer-btn primary"
+                  onClick={handleImport}
+                  disabled={isImporting || tooMany || result.terms.length === 0 || !importName.trim()}
+                >
+                  Import {result.terms.length} {result.terms.length === 1 ? 'term' : 'terms'}
+                </button>
+              </div>
+            ) : (
+              <p className="transfer-subtitle">Sign in to save imported terms as a deck.</p>
+            )}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -1,17 +1,33 @@
-import { useState, useCallback, useMemo } from 'react';
+import { useState, useCallback, useMemo, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { SlangFlashcards } from './SlangFlashcards';
 import { SlangQuiz } from './SlangQuiz';
 import { SlangReview } from './SlangReview';
 import { FillInBlank } from './FillInBlank';
 import { SentenceBuilder } from './SentenceBuilder';
+import { DeckManager } from './DeckManager';
+import { SlangImportExport } from './SlangImportExport';
 import { useGamification } from '../../hooks/useGamification';
-import { slangData } from '../../data/slangData';
+import { useCustomDecks } from '../../hooks/useCustomDecks';
+import { slangData, categoryNames, SlangCategory } from '../../data/slangData';
 import './SlangPage.css';
 
-type SlangMode = 'flashcards' | 'quiz' | 'review' | 'fillblank' | 'builder' | 'favorites' | 'achievements' | 'stats';
+type SlangMode = 'flashcards' | 'quiz' | 'review' | 'fillblank' | 'builder' | 'favorites' | 'achievements' | 'stats' | 'decks' | 'transfer';
+
+const SLANG_MODES: SlangMode[] = ['flashcards', 'quiz', 'review', 'fillblank', 'builder', 'favorites', 'achievements', 'stats', 'decks', 'transfer'];
 
 export function SlangPage() {
-  const [activeMode, setActiveMode] = useState<SlangMode>('flashcards');
+  // Assignment links open a quiz set up as /slang?mode=quiz&category=..&questions=..&deck=..
+  const [searchParams] = useSearchParams();
+  const modeParam = searchParams.get('mode') as SlangMode | null;
+  const categoryParam = searchParams.get('category');
+  const quizCategory = categoryParam && categoryParam in categoryNames ? categoryParam as SlangCategory : undefined;
+  const quizLength = parseInt(searchParams.get('questions') || '') || undefined;
+  const deckParam = searchParams.get('deck');
+
+  const [activeMode, setActiveMode] = useState<SlangMode>(
+    modeParam && SLANG_MODES.includes(modeParam) ? modeParam : 'flashcards'
+  );
   const [searchQuery, setSearchQuery] = useState('');
   const [showSearch, setShowSearch] = useState(false);
 
@@ -35,6 +51,32 @@ export function SlangPage() {
     resetProgress,
   } = useGamification();
 
+  const {
+    isAuthenticated,
+    decks,
+    selectedDeck,
+    selectedDeckId,
+    selectedTerms,
+    error: deckError,
+    selectDeck,
+    createDeck,
+    importDeck,
+    deleteDeck,
+    addTerm,
+    deleteTerm,
+  } = useCustomDecks();
+
+  useEffect(() => {
+    if (deckParam && isAuthenticated) {
+      selectDeck(deckParam);
+    }
+  }, [deckParam, isAuthenticated, selectDeck]);
+
+  // Games run against the selected custom deck, or the built-in list
+  const deckTerms = selectedTerms ?? undefined;
+  const deckKey = selectedDeckId ?? 'built-in';
+  const isDeckLoading = selectedDeckId !== null && selectedTerms === null;
+
   const xpProgress = getXPProgress();
   const dailyTerm = getDailyChallengeTerm();
   const dailyCompleted = isDailyChallengeCompleted();
@@ -243,15 +285,87 @@ export function SlangPage() {
           >
             Stats
           </button>
+          {isAuthenticated && (
+            <button
+              className={`mode-btn small ${activeMode === 'decks' ? 'active' : ''}`}
+              onClick={() => setActiveMode('decks')}
+            >
+              Decks
+            </button>
+          )}
+          <button
+            className={`mode-btn small ${activeMode === 'transfer' ? 'active' : ''}`}
+            onClick={() => setActiveMode('transfer')}
+          >
+            Import/Export
+          </button>
         </div>
       </nav>
 
+      {isAuthenticated && (decks.length > 0 || selectedDeck) && activeMode !== 'decks' && (
+        <div className="deck-bar">
+          <label htmlFor="deck-select">Practising:</label>
+          <select
+            id="deck-select"
+            value={selectedDeckId ?? ''}
+            onChange={e => selectDeck(e.target.value || null)}
+          >
+            <option value="">Built-in Aussie slang</option>
+            {selectedDeck && !decks.some(deck => deck.id === selectedDeck.id) && (
+              <option value={selectedDeck.id}>{selectedDeck.name} (assigned)</option>
+            )}
+            {decks.map(deck => (
+              <option key={deck.id} value={deck.id}>{deck.name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
       <main className="slang-main">
-        {activeMode === 'flashcards' && <SlangFlashcards />}
-        {activeMode === 'quiz' && <SlangQuiz />}
+        {isDeckLoading && ['flashcards', 'quiz', 'fillblank', 'builder', 'transfer'].includes(activeMode) && (
+          <p className="deck-loading">Loading {selectedDeck?.name ?? 'deck'}...</p>
+        )}
+        {!isDeckLoading && (
+          <>
+            {activeMode === 'flashcards' && <SlangFlashcards key={deckKey} terms={deckTerms} />}
+            {activeMode === 'quiz' && (
+              <SlangQuiz
+                key={deckKey}
+                terms={deckTerms}
+                deckId={selectedDeckId}
+                initialCategory={quizCategory}
+                initialLength={quizLength}
+              />
+            )}
+            {activeMode === 'fillblank' && <FillInBlank key={deckKey} terms={deckTerms} />}
+            {activeMode === 'builder' && <SentenceBuilder key={deckKey} terms={deckTerms} />}
+          </>
+        )}
         {activeMode === 'review' && <SlangReview />}
-        {activeMode === 'fillblank' && <FillInBlank />}
-        {activeMode === 'builder' && <SentenceBuilder />}
+
+        {activeMode === 'decks' && (
+          <DeckManager
+            decks={decks}
+            selectedDeckId={selectedDeckId}
+            selectedTerms={selectedTerms}
+            error={deckError}
+            onSelectDeck={selectDeck}
+            onCreateDeck={createDeck}
+            onDeleteDeck={deleteDeck}
+            onAddTerm={addTerm}
+            onDeleteTerm={deleteTerm}
+          />
+        )}
+
+        {activeMode === 'transfer' && !isDeckLoading && (
+          <SlangImportExport
+            terms={deckTerms ?? slangData}
+            deckName={selectedDeck?.name ?? 'Aussie Slang'}
+            isAuthenticated={isAuthenticated}
+            error={deckError}
+            onImport={importDeck}
+          />
+        )}
 
         {activeMode === 'favorites' && (
           <div className="favorites-section">
@@ -1,8 +1,10 @@
 import { useState, useCallback, useMemo } from 'react';
-import { slangData, categories, categoryNames, difficulties, difficultyNames, SlangCategory, SlangDifficulty, SlangTerm } from '../../data/slangData';
+import { slangData, getCategories, categoryNames, difficulties, difficultyNames, SlangCategory, SlangDifficulty, SlangTerm } from '../../data/slangData';
 import { useSlangProgress } from '../../hooks/useSlangProgress';
 import { useSoundEffects } from '../../hooks/useSoundEffects';
 import { useGamification } from '../../hooks/useGamification';
+import { useAuth } from '../../hooks/useAuth';
+import { reportQuizResult } from '../../hooks/useAssignments';
 import './SlangQuiz.css';
 
 type QuizDirection = 'term-to-meaning' | 'meaning-to-term';
@@ -15,6 +17,9 @@ interface QuizQuestion {
 }
 
 const QUIZ_LENGTH = 10;
+const QUIZ_LENGTHS = [10, 20];
+// Each question needs three wrong answers
+const MIN_QUIZ_TERMS = 4;
 
 function shuffleArray<T>(array: T[]): T[] {
   const shuffled = [...array];
@@ -51,9 +56,25 @@ function generateQuestions(
   });
 }
 
-export function SlangQuiz() {
+interface SlangQuizProps {
+  // A custom deck's terms - the built-in slang list by default
+  terms?: SlangTerm[];
+  // The custom deck the terms come from, sent with the quiz result
+  deckId?: string | null;
+  // Starting setup, e.g. from an assignment link
+  initialCategory?: SlangCategory;
+  initialLength?: number;
+}
+
+export function SlangQuiz({
+  terms: deckTerms = slangData,
+  deckId = null,
+  initialCategory,
+  initialLength = QUIZ_LENGTH,
+}: SlangQuizProps) {
   const [quizState, setQuizState] = useState<QuizState>('start');
-  const [selectedCategory, setSelectedCategory] = useState<SlangCategory | 'all'>('all');
+  const [selectedCategory, setSelectedCategory] = useState<SlangCategory | 'all'>(initialCategory ?? 'all');
+  const [quizLength, setQuizLength] = useState(initialLength);
   const [selectedDifficulty, setSelectedDifficulty] = useState<SlangDifficulty | 'all'>('all');
   const [direction, setDirection] = useState<QuizDirection>('term-to-meaning');
   const [questions, setQuestions] = useState<QuizQuestion[]>([]);
@@ -65,9 +86,16 @@ export function SlangQuiz() {
   const { updateQuizScore, progress } = useSlangProgress();
   const { playCorrect, playIncorrect, playSuccess } = useSoundEffects();
   const { recordQuizComplete, recordQuizCorrect } = useGamification();
+  const { isAuthenticated } = useAuth();
+
+  const lengthOptions = QUIZ_LENGTHS.includes(initialLength)
+    ? QUIZ_LENGTHS
+    : [...QUIZ_LENGTHS, initialLength].sort((a, b) => a - b);
+
+  const categories = useMemo(() => getCategories(deckTerms), [deckTerms]);
 
   const filteredTerms = useMemo(() => {
-    let terms = slangData;
+    let terms = deckTerms;
     if (selectedCategory !== 'all') {
       terms = terms.filter((t) => t.category === selectedCategory);
     }
@@ -75,13 +103,13 @@ export function SlangQuiz() {
       terms = terms.filter((t) => t.difficulty === selectedDifficulty);
     }
     return terms;
-  }, [selectedCategory, selectedDifficulty]);
+  }, [deckTerms, selectedCategory, selectedDifficulty]);
 
   const startQuiz = useCallback(() => {
     const newQuestions = generateQuestions(
       filteredTerms,
       direction,
-      Math.min(QUIZ_LENGTH, filteredTerms.length)
+      Math.min(quizLength, filteredTerms.length)
     );
     setQuestions(newQuestions);
     setCurrentQuestion(0);
@@ -89,7 +117,7 @@ export function SlangQuiz() {
     setSelectedAnswer(null);
     setIsCorrect(null);
     setQuizState('playing');
-  }, [filteredTerms, direction]);
+  }, [filteredTerms, direction, quizLength]);
 
   const handleAnswer = useCallback(
     (answer: string) => {
@@ -118,6 +146,17 @@ export function SlangQuiz() {
       updateQuizScore(finalScore);
       recordQuizComplete(finalScore, questions.length);
       playSuccess();
+
+      // Results count towards assigned quizzes
+      if (isAuthenticated) {
+        reportQuizResult({
+          category: selectedCategory === 'all' ? null : selectedCategory,
+          difficulty: selectedDifficulty === 'all' ? null : selectedDifficulty,
+          deck_id: deckId,
+          question_count: questions.length,
+          correct_count: finalScore,
+        });
+      }
       setQuizState('results');
     } else {
       setCurrentQuestion((prev) => prev + 1);
@@ -125,7 +164,19 @@ export function SlangQuiz() {
       setIsCorrect(null);
       setQuizState('playing');
     }
-  }, [currentQuestion, questions.length, score, isCorrect, updateQuizScore, recordQuizComplete, playSuccess]);
+  }, [
+    currentQuestion,
+    questions.length,
+    score,
+    isCorrect,
+    updateQuizScore,
+    recordQuizComplete,
+    playSuccess,
+    isAuthenticated,
+    selectedCategory,
+    selectedDifficulty,
+    deckId,
+  ]);
 
   const getResultMessage = (finalScore: number, total: number) => {
     const percentage = (finalScore / total) * 100;
@@ -189,13 +240,28 @@ export function SlangQuiz() {
                 <option value="meaning-to-term">Meaning → Slang</option>
               </select>
             </div>
+
+            <div className="option-group">
+              <label>Questions</label>
+              <select
+                value={quizLength}
+                onChange={(e) => setQuizLength(Number(e.target.value))}
+                className="quiz-select"
+              >
+                {lengthOptions.map((length) => (
+                  <option key={length} value={length}>
+                    {length}
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
 
           {progress.quizHighScore > 0 && (
             <p className="high-score">High Score: {progress.quizHighScore}/{QUIZ_LENGTH}</p>
           )}
 
-          <button className="start-btn" onClick={startQuiz}>
+          <button className="start-btn" onClick={startQuiz} disabled={filteredTerms.length < MIN_QUIZ_TERMS}>
             Start Quiz
           </button>
         </div>
@@ -1,16 +1,23 @@
 import { useState, useCallback } from 'react';
-import { SlangTerm } from '../../data/slangData';
+import { ReviewItem, ReviewItemKind } from '../../data/reviewItems';
 import { useSlangProgress } from '../../hooks/useSlangProgress';
+import { ReviewRating, formatInterval } from '../../utils/spacedRepetition';
 import './SlangReview.css';
 
 type ReviewState = 'stats' | 'reviewing' | 'answer' | 'complete';
 
 interface RatingOption {
-  value: number;
+  value: ReviewRating;
   label: string;
   className: string;
 }
 
+const KIND_LABELS: Record<ReviewItemKind, string> = {
+  slang: 'Slang',
+  vocab: 'Scenario vocab',
+  phrase: 'Say it aloud',
+};
+
 const RATINGS: RatingOption[] = [
   { value: 1, label: "Didn't know", className: 'rating-1' },
   { value: 2, label: 'Hard', className: 'rating-2' },
@@ -21,20 +28,22 @@ const RATINGS: RatingOption[] = [
 
 export function SlangReview() {
   const [reviewState, setReviewState] = useState<ReviewState>('stats');
-  const [dueCards, setDueCards] = useState<SlangTerm[]>([]);
+  const [dueCards, setDueCards] = useState<ReviewItem[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isFlipped, setIsFlipped] = useState(false);
 
   const {
-    getDueCards,
+    getDueItems,
     getLearnedCount,
     getMasteredCount,
     updateCardProgress,
+    getRatingIntervals,
+    getReviewForecast,
     resetProgress,
   } = useSlangProgress();
 
   const startReview = useCallback(() => {
-    const cards = getDueCards();
+    const cards = getDueItems();
     if (cards.length === 0) {
       return;
     }
@@ -42,7 +51,7 @@ export function SlangReview() {
     setCurrentIndex(0);
     setIsFlipped(false);
     setReviewState('reviewing');
-  }, [getDueCards]);
+  }, [getDueItems]);
 
   const showAnswer = useCallback(() => {
     setIsFlipped(true);
@@ -50,7 +59,7 @@ export function SlangReview() {
   }, []);
 
   const handleRating = useCallback(
-    (rating: number) => {
+    (rating: ReviewRating) => {
       const currentCard = dueCards[currentIndex];
       updateCardProgress(currentCard.id, rating);
 
@@ -72,17 +81,23 @@ export function SlangReview() {
     setIsFlipped(false);
   }, []);
 
-  const dueCount = getDueCards().length;
+  const dueItems = getDueItems();
+  const dueCount = dueItems.length;
+  const dueVocabCount = dueItems.filter((item) => item.kind === 'vocab').length;
+  const duePhraseCount = dueItems.filter((item) => item.kind === 'phrase').length;
   const learnedCount = getLearnedCount();
   const masteredCount = getMasteredCount();
   const currentCard = dueCards[currentIndex];
+  const forecast = getReviewForecast();
+  const busiestDay = Math.max(1, ...forecast.map((day) => day.count));
+  const ratingIntervals = currentCard ? getRatingIntervals(currentCard.id) : null;
 
   return (
     <div className="slang-review">
       {reviewState === 'stats' && (
         <div className="review-stats">
           <h2>Spaced Repetition Review</h2>
-          <p className="stats-subtitle">Learn smarter with adaptive flashcards</p>
+          <p className="stats-subtitle">Slang, scenario vocab and phrases you've practised, in one queue</p>
 
           <div className="stats-grid">
             <div className="stat-card">
@@ -99,6 +114,34 @@ export function SlangReview() {
             </div>
           </div>
 
+          {(dueVocabCount > 0 || duePhraseCount > 0) && (
+            <p className="due-breakdown">
+              Includes {dueVocabCount} scenario vocab and {duePhraseCount} practice {duePhraseCount === 1 ? 'phrase' : 'phrases'}
+            </p>
+          )}
+
+          <div className="review-forecast">
+            <h3>Next 2 Weeks</h3>
+            <div className="forecast-bars">
+              {forecast.map((day, index) => (
+                <div
+                  key={day.date}
+                  className="forecast-day"
+                  title={`${new Date(day.date).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' })}: ${day.count} due`}
+                >
+                  <span className="forecast-count">{day.count > 0 ? day.count : ''}</span>
+                  <div
+                    className={`forecast-bar ${index === 0 ? 'today' : ''}`}
+                    style={{ height: `${(day.count / busiestDay) * 60}px` }}
+                  />
+                  <span className="forecast-label">
+                    {index === 0 ? 'Today' : new Date(day.date).toLocaleDateString(undefined, { weekday: 'narrow' })}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+
           <div className="review-actions">
             <button
               className="start-btn"
@@ -126,11 +169,15 @@ export function SlangReview() {
             <div className={`flashcard ${isFlipped ? 'flipped' : ''}`}>
               <div className="flashcard-inner">
                 <div className="flashcard-front">
-                  <span className="term">{currentCard.term}</span>
+                  <span className={`review-kind ${currentCard.kind}`}>
+                    {KIND_LABELS[currentCard.kind]}
+                    {currentCard.source && ` · ${currentCard.source}`}
+                  </span>
+                  <span className="term">{currentCard.front}</span>
                 </div>
                 <div className="flashcard-back">
-                  <span className="meaning">{currentCard.meaning}</span>
-                  <span className="example">"{currentCard.example}"</span>
+                  <span className="meaning">{currentCard.back}</span>
+                  {currentCard.example && <span className="example">"{currentCard.example}"</span>}
                 </div>
               </div>
             </div>
@@ -153,6 +200,9 @@ export function SlangReview() {
                     onClick={() => handleRating(rating.value)}
                   >
                     {rating.label}
+                    {ratingIntervals && (
+                      <span className="rating-interval">{formatInterval(ratingIntervals[rating.value])}</span>
+                    )}
                   </button>
                 ))}
               </div>
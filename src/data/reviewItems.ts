@@ -0,0 +1,71 @@
+import { slangData } from './slangData';
+import { Scenario, scenarios } from './scenarios';
+import { PRACTICE_PHRASES } from '../hooks/usePronunciationScoring';
+import { PracticeMode } from '../hooks/useProgressTracking';
+
+// Everything that can be reviewed with spaced repetition: slang terms,
+// scenario vocab and pronunciation practice phrases. Slang terms are always
+// in the review queue; vocab and phrases join it once they've been practised.
+
+export type ReviewItemKind = 'slang' | 'vocab' | 'phrase';
+
+export interface ReviewItem {
+  id: string;
+  kind: ReviewItemKind;
+  front: string;
+  back: string;
+  example?: string;
+  source?: string; // scenario or practice mode the item comes from
+}
+
+const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+// Slang items keep the plain term id, so existing slang progress still applies
+export const vocabItemId = (scenarioId: string, term: string) => `vocab:${scenarioId}:${slugify(term)}`;
+export const phraseItemId = (mode: PracticeMode, text: string) => `phrase:${mode}:${slugify(text)}`;
+
+const MODE_NAMES: Record<PracticeMode, string> = {
+  everyday: 'Everyday phrases',
+  slang: 'Slang phrases',
+  workplace: 'Workplace phrases',
+};
+
+export const reviewItems: ReviewItem[] = [
+  ...slangData.map((term): ReviewItem => ({
+    id: term.id,
+    kind: 'slang',
+    front: term.term,
+    back: term.meaning,
+    example: term.example,
+  })),
+  ...scenarios.flatMap(scenario =>
+    scenario.vocabPreview.map((vocab): ReviewItem => ({
+      id: vocabItemId(scenario.id, vocab.term),
+      kind: 'vocab',
+      front: vocab.term,
+      back: vocab.meaning,
+      example: vocab.example,
+      source: scenario.title,
+    }))
+  ),
+  ...(Object.keys(PRACTICE_PHRASES) as PracticeMode[]).flatMap(mode =>
+    PRACTICE_PHRASES[mode].map((phrase): ReviewItem => ({
+      id: phraseItemId(mode, phrase.text),
+      kind: 'phrase',
+      front: phrase.text,
+      back: `Say it: ${phrase.hint}`,
+      source: MODE_NAMES[mode],
+    }))
+  ),
+];
+
+const itemsById = new Map(reviewItems.map(item => [item.id, item]));
+
+export function getReviewItem(id: string): ReviewItem | undefined {
+  return itemsById.get(id);
+}
+
+export function getScenarioVocabIds(scenario: Scenario): string[] {
+  return scenario.vocabPreview.map(vocab => vocabItemId(scenario.id, vocab.term));
+}
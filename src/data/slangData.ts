@@ -201,7 +201,12 @@ export const slangData: SlangTerm[] = [
   { id: 'follow-up', term: 'Follow up', meaning: 'Check on progress / Continue discussion', example: "I'll follow up with the client tomorrow.", category: 'workplace', difficulty: 'beginner' },
 ];
 
-export const categories = [...new Set(slangData.map((item) => item.category))] as SlangCategory[];
+// Categories that have at least one term, in order of first use
+export function getCategories(terms: SlangTerm[]): SlangCategory[] {
+  return [...new Set(terms.map((item) => item.category))];
+}
+
+export const categories = getCategories(slangData);
 export const difficulties: SlangDifficulty[] = ['beginner', 'intermediate', 'advanced'];
 
 // Sentence templates for sentence builder game
@@ -233,3 +238,22 @@ export const sentenceTemplates: SentenceTemplate[] = [
   { sentence: "Let's meet for ___ at nine.", answer: 'brekkie', hint: 'breakfast' },
   { sentence: 'I made a vegemite ___ for lunch.', answer: 'sanga', hint: 'sandwich' },
 ];
+
+function escapeRegex(string: string): string {
+  return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Sentence templates for a custom deck: each term blanked out of its own
+// example (terms whose example doesn't contain them are skipped)
+export function buildSentenceTemplates(terms: SlangTerm[]): SentenceTemplate[] {
+  return terms.flatMap((term) => {
+    const match = term.example.match(new RegExp(escapeRegex(term.term), 'i'));
+    if (!match || match.index === undefined) return [];
+    return [{
+      sentence: term.example.slice(0, match.index) + '___' + term.example.slice(match.index + match[0].length),
+      answer: match[0],
+      hint: term.meaning.toLowerCase(),
+    }];
+  });
+}
+
@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
+import { notifyProgressChanged, notifyProgressReset, onProgressSynced } from '../utils/progressSync';
 import { ProgressStats } from './useProgressTracking';
 
 export interface Achievement {
@@ -178,10 +179,14 @@ export function useAchievements() {
   const [unlockedAchievements, setUnlockedAchievements] = useState<UnlockedAchievement[]>([]);
   const [newlyUnlocked, setNewlyUnlocked] = useState<Achievement[]>([]);
 
-  // Load from localStorage on mount
+  // Load from localStorage on mount, and again when synced from another device
   useEffect(() => {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
+    const loadAchievements = () => {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (!stored) {
+        setUnlockedAchievements([]);
+        return;
+      }
       try {
         const data: UnlockedAchievement[] = JSON.parse(stored);
         setUnlockedAchievements(data.map(a => ({
@@ -191,12 +196,16 @@ export function useAchievements() {
       } catch (e) {
         console.error('Failed to load achievements:', e);
       }
-    }
+    };
+
+    loadAchievements();
+    return onProgressSynced('achievements', loadAchievements);
   }, []);
 
   // Save to localStorage when achievements change
   useEffect(() => {
     localStorage.setItem(STORAGE_KEY, JSON.stringify(unlockedAchievements));
+    notifyProgressChanged('achievements');
   }, [unlockedAchievements]);
 
   const checkAchievements = useCallback((stats: ProgressStats) => {
@@ -240,9 +249,11 @@ export function useAchievements() {
   }, [unlockedAchievements]);
 
   const clearAchievements = useCallback(() => {
+    notifyProgressReset('achievements');
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([]));
+    notifyProgressChanged('achievements');
     setUnlockedAchievements([]);
     setNewlyUnlocked([]);
-    localStorage.removeItem(STORAGE_KEY);
   }, []);
 
   return {
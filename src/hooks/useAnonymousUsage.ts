@@ -1,107 +1,145 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { fetchWithDevice } from '../utils/deviceToken';
+import { UsageStatus } from './useSubscription';
 
-const STORAGE_KEY = 'aussie_anonymous_usage';
 const FREE_MINUTES_PER_DAY = 2;
 
-interface AnonymousUsage {
-  date: string;
-  minutesUsed: number;
-}
-
-function getTodayString(): string {
-  return new Date().toISOString().split('T')[0];
-}
-
-function getStoredUsage(): AnonymousUsage | null {
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (!stored) return null;
-    return JSON.parse(stored);
-  } catch {
-    return null;
-  }
-}
+// Must stay well under the backend's stale session window (90s)
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
 
-function setStoredUsage(usage: AnonymousUsage): void {
-  try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(usage));
-  } catch {
-    // localStorage might be full or disabled
-  }
+interface AnonymousUsageOptions {
+  // Only talk to the backend while signed out
+  enabled?: boolean;
+  onLimitReached?: () => void;
 }
 
-export function useAnonymousUsage() {
-  const [minutesUsed, setMinutesUsed] = useState(0);
+/**
+ * Free trial minutes for visitors who have not signed up. Usage is tracked
+ * by the backend against a device token, so clearing the browser does not
+ * reset it. A live trial session sends heartbeats so time is billed as it
+ * happens; onLimitReached fires once the server has ended the session.
+ */
+export function useAnonymousUsage({ enabled = true, onLimitReached }: AnonymousUsageOptions = {}) {
+  const [usage, setUsage] = useState<UsageStatus | null>(null);
+  const [sessionActive, setSessionActive] = useState(false);
+  const onLimitReachedRef = useRef(onLimitReached);
+  onLimitReachedRef.current = onLimitReached;
+
+  const refreshUsage = useCallback(async (): Promise<UsageStatus | null> => {
+    try {
+      const response = await fetchWithDevice('/anonymous/usage');
+      if (!response.ok) return null;
+
+      const data: UsageStatus = await response.json();
+      setUsage(data);
+      return data;
+    } catch (error) {
+      console.error('Failed to fetch trial usage:', error);
+      return null;
+    }
+  }, []);
 
-  // Load usage on mount
   useEffect(() => {
-    const stored = getStoredUsage();
-    const today = getTodayString();
-
-    if (stored && stored.date === today) {
-      setMinutesUsed(stored.minutesUsed);
-    } else {
-      // New day, reset usage
-      setMinutesUsed(0);
+    if (enabled) {
+      refreshUsage();
     }
-  }, []);
+  }, [enabled, refreshUsage]);
 
-  const getRemainingMinutes = useCallback((): number => {
-    const stored = getStoredUsage();
-    const today = getTodayString();
+  const canStartSession = useCallback(async (): Promise<{ allowed: boolean; remaining: number; message?: string }> => {
+    const status = await refreshUsage();
 
-    if (stored && stored.date === today) {
-      return Math.max(0, FREE_MINUTES_PER_DAY - stored.minutesUsed);
+    if (!status) {
+      return { allowed: false, remaining: 0, message: 'Unable to check usage status' };
     }
-    return FREE_MINUTES_PER_DAY;
-  }, []);
 
-  const canStartSession = useCallback((): { allowed: boolean; remaining: number; message?: string } => {
-    const remaining = getRemainingMinutes();
-
-    if (remaining <= 0) {
+    if (!status.allowed) {
       return {
         allowed: false,
         remaining: 0,
-        message: "You've used your free 2 minutes today. Sign up to get more practice time!",
+        message: `You've used your free ${status.daily_limit_minutes} minutes today. Sign up to get more practice time!`,
       };
     }
 
     return {
       allowed: true,
-      remaining,
+      remaining: status.remaining_minutes,
     };
-  }, [getRemainingMinutes]);
+  }, [refreshUsage]);
 
-  const recordUsage = useCallback((minutes: number): void => {
-    const today = getTodayString();
-    const stored = getStoredUsage();
+  const startSessionTracking = useCallback(async (): Promise<void> => {
+    const response = await fetchWithDevice('/anonymous/sessions/start', { method: 'POST' });
+    const data: { usage?: UsageStatus; error?: string } = await response.json();
 
-    let newMinutesUsed = minutes;
-    if (stored && stored.date === today) {
-      newMinutesUsed = stored.minutesUsed + minutes;
+    if (data.usage) {
+      setUsage(data.usage);
+    }
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to start session');
     }
 
-    setStoredUsage({ date: today, minutesUsed: newMinutesUsed });
-    setMinutesUsed(newMinutesUsed);
+    setSessionActive(true);
   }, []);
 
-  const startSessionTracking = useCallback((): { sessionStart: number } => {
-    return { sessionStart: Date.now() };
+  const endSessionTracking = useCallback(async (): Promise<void> => {
+    setSessionActive(false);
+
+    try {
+      const response = await fetchWithDevice('/anonymous/sessions/end', { method: 'POST' });
+      const data: { usage?: UsageStatus } = await response.json();
+      if (data.usage) {
+        setUsage(data.usage);
+      }
+    } catch (error) {
+      // The server closes a silent session at its last heartbeat
+      console.error('Failed to end trial session:', error);
+    }
   }, []);
 
-  const endSessionTracking = useCallback((sessionStart: number): void => {
-    const elapsedMs = Date.now() - sessionStart;
-    const elapsedMinutes = Math.ceil(elapsedMs / 60000); // Round up to nearest minute
-    recordUsage(elapsedMinutes);
-  }, [recordUsage]);
+  useEffect(() => {
+    if (!sessionActive) return;
+
+    let stopped = false;
+
+    const sendHeartbeat = async () => {
+      try {
+        const response = await fetchWithDevice('/anonymous/sessions/heartbeat', { method: 'POST' });
+        if (stopped) return;
+
+        const data: { usage?: UsageStatus; limit_reached?: boolean; code?: string } = await response.json();
+        if (data.usage) {
+          setUsage(data.usage);
+        }
+
+        if (data.limit_reached || data.code === 'SESSION_ENDED') {
+          stopped = true;
+          clearInterval(interval);
+          setSessionActive(false);
+          onLimitReachedRef.current?.();
+        }
+      } catch (error) {
+        // Missed heartbeats are billed by the next one or by /end
+        console.error('Trial session heartbeat failed:', error);
+      }
+    };
+
+    const interval = setInterval(sendHeartbeat, HEARTBEAT_INTERVAL_MS);
+
+    return () => {
+      stopped = true;
+      clearInterval(interval);
+    };
+  }, [sessionActive]);
+
+  const dailyLimit = usage?.daily_limit_minutes ?? FREE_MINUTES_PER_DAY;
 
   return {
-    minutesUsed,
-    remainingMinutes: getRemainingMinutes(),
-    dailyLimit: FREE_MINUTES_PER_DAY,
+    minutesUsed: usage?.minutes_used ?? 0,
+    remainingMinutes: usage ? Math.floor(usage.remaining_minutes) : dailyLimit,
+    // Server's remaining allowance during a live session, for the session timer
+    remainingSeconds: sessionActive && usage ? Math.floor(usage.remaining_minutes * 60) : null,
+    dailyLimit,
     canStartSession,
-    recordUsage,
+    refreshUsage,
     startSessionTracking,
     endSessionTracking,
   };
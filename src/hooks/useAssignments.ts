@@ -0,0 +1,110 @@
+import { useState, useEffect, useCallback } from 'react';
+import { fetchWithAuth, useAuth } from './useAuth';
+import { SlangCategory, SlangDifficulty } from '../data/slangData';
+
+export type AssignmentStatus = 'not_started' | 'in_progress' | 'completed' | 'overdue';
+
+export interface AssignmentTask {
+  id: string;
+  type: 'scenario' | 'slang_quiz';
+  scenario_id: string | null;
+  category: SlangCategory | null;
+  deck_id: string | null;
+  question_count: number | null;
+  min_score: number | null;
+}
+
+export interface TaskProgress {
+  task_id: string;
+  completed: boolean;
+  completed_at: string | null;
+  best_score?: number | null;
+}
+
+export interface LearnerAssignment {
+  id: string;
+  title: string;
+  description: string | null;
+  due_at: string;
+  cohort_name: string;
+  organisation_name: string;
+  tasks: AssignmentTask[];
+  progress: {
+    status: AssignmentStatus;
+    completed_tasks: number;
+    total_tasks: number;
+    completed_at: string | null;
+    late: boolean;
+    tasks: TaskProgress[];
+  };
+}
+
+export interface QuizResultInput {
+  category: SlangCategory | null;
+  difficulty: SlangDifficulty | null;
+  deck_id: string | null;
+  question_count: number;
+  correct_count: number;
+}
+
+/**
+ * Send a finished slang quiz to the backend, where it counts towards any
+ * assigned quizzes. Signed-in users only.
+ */
+export async function reportQuizResult(result: QuizResultInput): Promise<boolean> {
+  try {
+    const response = await fetchWithAuth('/quiz-results', {
+      method: 'POST',
+      body: JSON.stringify(result),
+    });
+    return response.ok;
+  } catch (err) {
+    console.error('Failed to report quiz result:', err);
+    return false;
+  }
+}
+
+/**
+ * Hook for the assignments teachers have set the signed-in user, with their
+ * progress on each. Completion is worked out by the backend from reported
+ * sessions and quiz results, so refresh after either.
+ */
+export function useAssignments() {
+  const { isAuthenticated } = useAuth();
+  const [assignments, setAssignments] = useState<LearnerAssignment[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchAssignments = useCallback(async () => {
+    if (!isAuthenticated) {
+      setAssignments([]);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await fetchWithAuth('/assignments');
+      if (response.ok) {
+        const data = await response.json();
+        setAssignments(data.assignments);
+      }
+    } catch (err) {
+      console.error('Failed to fetch assignments:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    fetchAssignments();
+  }, [fetchAssignments]);
+
+  // Completed assignments drop off the to-do list
+  const todo = assignments.filter(a => a.progress.status !== 'completed');
+
+  return {
+    assignments,
+    todo,
+    isLoading,
+    refreshAssignments: fetchAssignments,
+  };
+}
@@ -1,4 +1,6 @@
 import { useState, useEffect, useCallback, createContext, useContext } from 'react';
+import { getStoredDeviceToken } from '../utils/deviceToken';
+import { downloadBlob } from '../utils/exportProgress';
 
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
@@ -6,6 +8,9 @@ interface User {
   id: string;
   email: string;
   name: string | null;
+  email_verified?: number;
+  // False for accounts that only sign in with Google or Apple
+  has_password?: boolean;
   subscription: {
     plan: string;
     status: string;
@@ -24,26 +29,137 @@ interface AuthContextType extends AuthState {
   login: (email: string, password: string) => Promise<void>;
   register: (email: string, password: string, name?: string) => Promise<void>;
   logout: () => void;
+  logoutAll: () => Promise<void>;
   refreshUser: () => Promise<void>;
+  requestPasswordReset: (email: string) => Promise<void>;
+  resetPassword: (token: string, password: string) => Promise<void>;
+  verifyEmail: (token: string) => Promise<void>;
+  resendVerification: () => Promise<void>;
+  completeOAuthLogin: (loginCode: string) => Promise<void>;
+  downloadMyData: () => Promise<void>;
+  deleteAccount: (password?: string) => Promise<void>;
+}
+
+export interface OAuthProviderOption {
+  id: string;
+  label: string;
 }
 
 const TOKEN_KEY = 'aussie_auth_token';
+const REFRESH_TOKEN_KEY = 'aussie_refresh_token';
+// Fired when the refresh token stops working and the user is signed out
+const AUTH_EXPIRED_EVENT = 'aussie-auth-expired';
+// Renew access tokens this close to expiry before using them
+const EXPIRY_MARGIN_MS = 60 * 1000;
 
-async function fetchWithAuth(url: string, options: RequestInit = {}): Promise<Response> {
+function storeTokens(token: string | null, refreshToken: string | null = null) {
+  if (token) {
+    localStorage.setItem(TOKEN_KEY, token);
+  } else {
+    localStorage.removeItem(TOKEN_KEY);
+  }
+
+  if (refreshToken) {
+    localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+  } else if (!token) {
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+  }
+}
+
+let refreshInFlight: Promise<string | null> | null = null;
+
+/**
+ * Trade the stored refresh token for new tokens. Concurrent callers share one
+ * request, since each refresh token only works once. Returns the new access
+ * token, or null if the user has been signed out.
+ */
+function refreshAccessToken(): Promise<string | null> {
+  if (refreshInFlight) return refreshInFlight;
+
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+  if (!refreshToken) return Promise.resolve(null);
+
+  refreshInFlight = (async () => {
+    try {
+      const response = await fetch(`${API_URL}/auth/refresh`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refresh_token: refreshToken }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        storeTokens(data.token, data.refresh_token);
+        return data.token as string;
+      }
+
+      if (response.status === 401) {
+        storeTokens(null);
+        window.dispatchEvent(new Event(AUTH_EXPIRED_EVENT));
+      }
+      return null;
+    } catch (error) {
+      // Offline - keep the tokens and try again later
+      console.error('Failed to refresh access token:', error);
+      return null;
+    } finally {
+      refreshInFlight = null;
+    }
+  })();
+
+  return refreshInFlight;
+}
+
+function isExpiring(token: string): boolean {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof payload.exp === 'number' && payload.exp * 1000 - Date.now() < EXPIRY_MARGIN_MS;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The signed-in user's access token, renewed first if it is about to expire.
+ * For requests that can't go through fetchWithAuth (uploads, WebSockets).
+ */
+export async function getAccessToken(): Promise<string | null> {
   const token = localStorage.getItem(TOKEN_KEY);
-  const headers: HeadersInit = {
-    'Content-Type': 'application/json',
-    ...(options.headers || {}),
+  if (token && isExpiring(token) && localStorage.getItem(REFRESH_TOKEN_KEY)) {
+    return (await refreshAccessToken()) || localStorage.getItem(TOKEN_KEY);
+  }
+  return token;
+}
+
+async function fetchWithAuth(url: string, options: RequestInit = {}): Promise<Response> {
+  const send = (token: string | null) => {
+    const headers: HeadersInit = {
+      'Content-Type': 'application/json',
+      ...(options.headers || {}),
+    };
+
+    if (token) {
+      (headers as Record<string, string>)['Authorization'] = `Bearer ${token}`;
+    }
+
+    return fetch(`${API_URL}${url}`, {
+      ...options,
+      headers,
+    });
   };
 
-  if (token) {
-    (headers as Record<string, string>)['Authorization'] = `Bearer ${token}`;
+  const token = localStorage.getItem(TOKEN_KEY);
+  const response = await send(token);
+
+  // The access token expired or was revoked: refresh once and retry
+  if (response.status === 401 && token && !url.startsWith('/auth/refresh')) {
+    const newToken = await refreshAccessToken();
+    if (newToken) {
+      return send(newToken);
+    }
   }
 
-  return fetch(`${API_URL}${url}`, {
-    ...options,
-    headers,
-  });
+  return response;
 }
 
 export function useAuthProvider() {
@@ -54,12 +170,8 @@ export function useAuthProvider() {
     isAuthenticated: false,
   });
 
-  const setToken = useCallback((token: string | null) => {
-    if (token) {
-      localStorage.setItem(TOKEN_KEY, token);
-    } else {
-      localStorage.removeItem(TOKEN_KEY);
-    }
+  const setToken = useCallback((token: string | null, refreshToken: string | null = null) => {
+    storeTokens(token, refreshToken);
   }, []);
 
   const refreshUser = useCallback(async () => {
@@ -93,6 +205,15 @@ export function useAuthProvider() {
     refreshUser();
   }, [refreshUser]);
 
+  // Signed out elsewhere (logout-all, a revoked device or an expired session)
+  useEffect(() => {
+    const handleExpired = () => {
+      setState({ user: null, token: null, isLoading: false, isAuthenticated: false });
+    };
+    window.addEventListener(AUTH_EXPIRED_EVENT, handleExpired);
+    return () => window.removeEventListener(AUTH_EXPIRED_EVENT, handleExpired);
+  }, []);
+
   const login = useCallback(async (email: string, password: string) => {
     const response = await fetchWithAuth('/auth/login', {
       method: 'POST',
@@ -105,7 +226,7 @@ export function useAuthProvider() {
       throw new Error(data.error || 'Login failed');
     }
 
-    setToken(data.token);
+    setToken(data.token, data.refresh_token);
     setState({
       user: data.user,
       token: data.token,
@@ -117,7 +238,8 @@ export function useAuthProvider() {
   const register = useCallback(async (email: string, password: string, name?: string) => {
     const response = await fetchWithAuth('/auth/register', {
       method: 'POST',
-      body: JSON.stringify({ email, password, name }),
+      // Today's free trial minutes carry over to the new account
+      body: JSON.stringify({ email, password, name, device_token: getStoredDeviceToken() || undefined }),
     });
 
     const data = await response.json();
@@ -126,7 +248,7 @@ export function useAuthProvider() {
       throw new Error(data.error || 'Registration failed');
     }
 
-    setToken(data.token);
+    setToken(data.token, data.refresh_token);
     setState({
       user: data.user,
       token: data.token,
@@ -135,7 +257,138 @@ export function useAuthProvider() {
     });
   }, [setToken]);
 
+  const requestPasswordReset = useCallback(async (email: string) => {
+    const response = await fetchWithAuth('/auth/forgot-password', {
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    });
+
+    if (!response.ok) {
+      const data = await response.json();
+      throw new Error(data.error || 'Could not send the reset email');
+    }
+  }, []);
+
+  // Set a new password with an emailed token; logs the user in
+  const resetPassword = useCallback(async (token: string, password: string) => {
+    const response = await fetchWithAuth('/auth/reset-password', {
+      method: 'POST',
+      body: JSON.stringify({ token, password }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Password reset failed');
+    }
+
+    setToken(data.token, data.refresh_token);
+    setState({
+      user: data.user,
+      token: data.token,
+      isLoading: false,
+      isAuthenticated: true,
+    });
+  }, [setToken]);
+
+  const verifyEmail = useCallback(async (token: string) => {
+    const response = await fetchWithAuth('/auth/verify-email', {
+      method: 'POST',
+      body: JSON.stringify({ token }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Email verification failed');
+    }
+
+    // The link may be opened on a device where the user is signed in
+    if (localStorage.getItem(TOKEN_KEY)) {
+      await refreshUser();
+    }
+  }, [refreshUser]);
+
+  const resendVerification = useCallback(async () => {
+    const response = await fetchWithAuth('/auth/verify-email/resend', { method: 'POST' });
+
+    if (!response.ok) {
+      const data = await response.json();
+      throw new Error(data.error || 'Could not send the verification email');
+    }
+  }, []);
+
+  // Finish a Google/Apple sign-in with the code the backend redirected back with
+  const completeOAuthLogin = useCallback(async (loginCode: string) => {
+    const response = await fetchWithAuth('/auth/oauth/exchange', {
+      method: 'POST',
+      body: JSON.stringify({ login_code: loginCode }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Sign-in failed');
+    }
+
+    setToken(data.token, data.refresh_token);
+    setState({
+      user: data.user,
+      token: data.token,
+      isLoading: false,
+      isAuthenticated: true,
+    });
+  }, [setToken]);
+
+  // Everything the server holds about the user, as a zip of JSON files
+  const downloadMyData = useCallback(async () => {
+    const response = await fetchWithAuth('/auth/me/export');
+
+    if (!response.ok) {
+      const data = await response.json();
+      throw new Error(data.error || 'Could not download your data');
+    }
+
+    const date = new Date().toISOString().split('T')[0];
+    downloadBlob(await response.blob(), `aussie-english-data-${date}.zip`);
+  }, []);
+
+  // Permanently delete the account; accounts without a password leave it
+  // out, but must have signed in within the last 10 minutes
+  const deleteAccount = useCallback(async (password?: string) => {
+    const response = await fetchWithAuth('/auth/me', {
+      method: 'DELETE',
+      body: JSON.stringify({ password }),
+    });
+
+    if (!response.ok) {
+      const data = await response.json();
+      const organisations = data.organisations?.length ? ` (${data.organisations.join(', ')})` : '';
+      throw new Error((data.error || 'Could not delete your account') + organisations);
+    }
+
+    setToken(null);
+    setState({ user: null, token: null, isLoading: false, isAuthenticated: false });
+  }, [setToken]);
+
   const logout = useCallback(() => {
+    // Revoke the session server-side; signing out locally doesn't wait for it
+    if (localStorage.getItem(TOKEN_KEY)) {
+      fetchWithAuth('/auth/logout', { method: 'POST' }).catch(error => {
+        console.error('Failed to revoke session:', error);
+      });
+    }
+    setToken(null);
+    setState({ user: null, token: null, isLoading: false, isAuthenticated: false });
+  }, [setToken]);
+
+  // Sign out every device the user is signed in on, this one included
+  const logoutAll = useCallback(async () => {
+    const response = await fetchWithAuth('/auth/logout-all', { method: 'POST' });
+    if (!response.ok) {
+      const data = await response.json();
+      throw new Error(data.error || 'Could not sign out everywhere');
+    }
     setToken(null);
     setState({ user: null, token: null, isLoading: false, isAuthenticated: false });
   }, [setToken]);
@@ -145,7 +398,15 @@ export function useAuthProvider() {
     login,
     register,
     logout,
+    logoutAll,
     refreshUser,
+    requestPasswordReset,
+    resetPassword,
+    verifyEmail,
+    resendVerification,
+    completeOAuthLogin,
+    downloadMyData,
+    deleteAccount,
   };
 }
 
@@ -161,4 +422,17 @@ export function useAuth(): AuthContextType {
   return context;
 }
 
+// Sign-in providers the backend has configured, e.g. Google and Apple
+export async function getOAuthProviders(): Promise<OAuthProviderOption[]> {
+  const response = await fetch(`${API_URL}/auth/oauth/providers`);
+  if (!response.ok) return [];
+  const data = await response.json();
+  return data.providers;
+}
+
+// The browser leaves the app for the provider and comes back to /app
+export function getOAuthStartUrl(providerId: string): string {
+  return `${API_URL}/auth/oauth/${encodeURIComponent(providerId)}/start`;
+}
+
 export { fetchWithAuth };
@@ -0,0 +1,184 @@
+import { useState, useEffect, useCallback } from 'react';
+import { fetchWithAuth, useAuth } from './useAuth';
+import { SlangCategory, SlangDifficulty, SlangTerm } from '../data/slangData';
+
+export interface CustomDeck {
+  id: string;
+  name: string;
+  description: string | null;
+  term_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DeckTermInput {
+  term: string;
+  meaning: string;
+  example: string;
+  category: SlangCategory;
+  difficulty: SlangDifficulty;
+}
+
+const SELECTED_DECK_KEY = 'aussie-selected-deck';
+
+/**
+ * Hook for the signed-in user's custom slang decks (/api/decks). The
+ * selected deck's terms replace the built-in slang list in the slang games;
+ * null means the built-in list.
+ */
+export function useCustomDecks() {
+  const { isAuthenticated } = useAuth();
+  const [decks, setDecks] = useState<CustomDeck[]>([]);
+  const [selectedDeckId, setSelectedDeckId] = useState<string | null>(
+    () => localStorage.getItem(SELECTED_DECK_KEY)
+  );
+  const [selectedTerms, setSelectedTerms] = useState<SlangTerm[] | null>(null);
+  // The selected deck as loaded, which covers decks assigned by a teacher
+  // that aren't in the user's own list
+  const [loadedDeck, setLoadedDeck] = useState<CustomDeck | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDecks = useCallback(async () => {
+    if (!isAuthenticated) {
+      setDecks([]);
+      return;
+    }
+
+    try {
+      const response = await fetchWithAuth('/decks');
+      if (response.ok) {
+        const data = await response.json();
+        setDecks(data.decks);
+      }
+    } catch (err) {
+      console.error('Failed to fetch decks:', err);
+    }
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    fetchDecks();
+  }, [fetchDecks]);
+
+  const fetchTerms = useCallback(async (deckId: string) => {
+    setIsLoading(true);
+    try {
+      const response = await fetchWithAuth(`/decks/${deckId}`);
+      if (response.ok) {
+        const data = await response.json();
+        setSelectedTerms(data.terms);
+        setLoadedDeck({ ...data.deck, term_count: data.terms.length });
+      } else if (response.status === 404 || response.status === 403) {
+        // Deleted on another device - fall back to the built-in list
+        setSelectedDeckId(null);
+      }
+    } catch (err) {
+      console.error('Failed to load deck:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Load the selected deck's terms
+  useEffect(() => {
+    if (selectedDeckId) {
+      localStorage.setItem(SELECTED_DECK_KEY, selectedDeckId);
+    } else {
+      localStorage.removeItem(SELECTED_DECK_KEY);
+    }
+
+    setSelectedTerms(null);
+    if (selectedDeckId && isAuthenticated) {
+      fetchTerms(selectedDeckId);
+    }
+  }, [selectedDeckId, isAuthenticated, fetchTerms]);
+
+  // Run a request, refreshing the deck list afterwards; returns the response
+  // body, or null (with the error set) on failure
+  const mutate = useCallback(async (path: string, options: RequestInit) => {
+    setError(null);
+    try {
+      const response = await fetchWithAuth(path, options);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Something went wrong');
+      }
+
+      await fetchDecks();
+      return data;
+    } catch (err) {
+      console.error('Deck request failed:', err);
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+      return null;
+    }
+  }, [fetchDecks]);
+
+  const createDeck = useCallback(async (name: string, description?: string) => {
+    const data = await mutate('/decks', {
+      method: 'POST',
+      body: JSON.stringify({ name, description: description || null }),
+    });
+    return data ? (data.deck as CustomDeck) : null;
+  }, [mutate]);
+
+  // Create a deck from imported terms and switch to it
+  const importDeck = useCallback(async (name: string, terms: DeckTermInput[]) => {
+    const data = await mutate('/decks', {
+      method: 'POST',
+      body: JSON.stringify({ name, terms }),
+    });
+    if (data) {
+      setSelectedDeckId(data.deck.id);
+    }
+    return data ? (data.deck as CustomDeck) : null;
+  }, [mutate]);
+
+  const deleteDeck = useCallback(async (deckId: string) => {
+    const data = await mutate(`/decks/${deckId}`, { method: 'DELETE' });
+    if (data && deckId === selectedDeckId) {
+      setSelectedDeckId(null);
+    }
+    return data !== null;
+  }, [mutate, selectedDeckId]);
+
+  const addTerm = useCallback(async (deckId: string, term: DeckTermInput) => {
+    const data = await mutate(`/decks/${deckId}/terms`, {
+      method: 'POST',
+      body: JSON.stringify(term),
+    });
+    if (data && deckId === selectedDeckId) {
+      setSelectedTerms(prev => [...(prev || []), data.term]);
+    }
+    return data !== null;
+  }, [mutate, selectedDeckId]);
+
+  const deleteTerm = useCallback(async (deckId: string, termId: string) => {
+    const data = await mutate(`/decks/${deckId}/terms/${termId}`, { method: 'DELETE' });
+    if (data && deckId === selectedDeckId) {
+      setSelectedTerms(prev => (prev || []).filter(t => t.id !== termId));
+    }
+    return data !== null;
+  }, [mutate, selectedDeckId]);
+
+  const selectedDeck = decks.find(d => d.id === selectedDeckId)
+    || (loadedDeck?.id === selectedDeckId ? loadedDeck : null);
+
+  return {
+    isAuthenticated,
+    decks,
+    selectedDeck,
+    selectedDeckId: isAuthenticated ? selectedDeckId : null,
+    // null while using the built-in list (or still loading the deck)
+    selectedTerms: isAuthenticated && selectedDeckId ? selectedTerms : null,
+    isLoading,
+    error,
+    selectDeck: setSelectedDeckId,
+    refreshDecks: fetchDecks,
+    createDeck,
+    importDeck,
+    deleteDeck,
+    addTerm,
+    deleteTerm,
+  };
+}
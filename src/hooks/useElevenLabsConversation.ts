@@ -20,8 +20,8 @@ interface SessionOptions {
   scenario: Scenario;
 }
 
-// Your ElevenLabs Agent ID
-const AGENT_ID = 'g50Lc7IzLlbPiRpgNXQJ';
+// ElevenLabs Conversational AI agent, set per environment with VITE_ELEVENLABS_AGENT_ID
+const AGENT_ID = import.meta.env.VITE_ELEVENLABS_AGENT_ID || 'g50Lc7IzLlbPiRpgNXQJ';
 
 /**
  * Hook to manage voice conversations using ElevenLabs Conversational AI
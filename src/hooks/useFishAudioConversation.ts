@@ -1,4 +1,7 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useRef } from 'react';
+import { useSessionHeartbeat } from './useSessionHeartbeat';
+import { getDeviceToken } from '../utils/deviceToken';
+import { getAccessToken } from './useAuth';
 
 export type PracticeMode = 'everyday' | 'slang' | 'workplace';
 
@@ -9,15 +12,52 @@ interface Message {
   message: string;
 }
 
+export interface TutorCorrection {
+  original: string;
+  corrected: string;
+  explanation: string;
+}
+
+export interface TutorVocab {
+  term: string;
+  meaning: string;
+  example?: string;
+}
+
+// Teaching content the tutor returns alongside a reply
+export interface TutorFeedback {
+  corrections: TutorCorrection[];
+  vocab: TutorVocab[];
+  // Scenario goals the learner met with their last message
+  goalsMet: string[];
+}
+
 interface ConversationOptions {
   onConnect?: () => void;
   onDisconnect?: () => void;
   onMessage?: (message: Message) => void;
   onError?: (error: Error) => void;
+  // Stream replies over Server-Sent Events, playing audio as each sentence is ready
+  streaming?: boolean;
+  // Called with each piece of the AI reply as it streams in
+  onResponseDelta?: (delta: string) => void;
+  // Hands-free conversation over a WebSocket with server-side endpointing
+  // and barge-in (speaking over the tutor interrupts the reply)
+  duplex?: boolean;
+  // Called after the conversation was ended because the server closed the
+  // practice session (daily allowance used up)
+  onUsageLimitReached?: () => void;
+  // Called with the corrections, vocab and goals met of each tutor reply
+  onFeedback?: (feedback: TutorFeedback) => void;
 }
 
 interface SessionOptions {
   mode: PracticeMode;
+  // Scenario to role-play (see data/scenarios.ts) - overrides the mode prompt
+  scenarioId?: string;
+  // Backend practice session ID - links the conversation transcript to it
+  // and keeps the session's usage billed with heartbeats
+  sessionId?: string | null;
 }
 
 // Auto-detect production environment and use correct backend URL
@@ -40,20 +80,134 @@ function getApiBaseUrl(): string {
 
 const API_BASE_URL = getApiBaseUrl();
 
+/**
+ * Signed-out callers are metered against their device's free trial
+ */
+async function getDeviceHeaders(authToken: string | null): Promise<Record<string, string>> {
+  return authToken ? {} : { 'X-Device-Token': await getDeviceToken() };
+}
+
+/**
+ * A voice request refused because the daily allowance is used up
+ */
+class UsageLimitReachedError extends Error {
+  constructor() {
+    super("You've used your daily practice time");
+    this.name = 'UsageLimitReachedError';
+  }
+}
+
+/**
+ * Throw for a failed voice request, telling the usage limit apart
+ */
+async function assertVoiceResponse(response: Response, message: string): Promise<void> {
+  if (response.ok) return;
+
+  const data = await response.json().catch(() => ({}));
+  if (data.code === 'USAGE_LIMIT_REACHED') {
+    throw new UsageLimitReachedError();
+  }
+  throw new Error(message);
+}
+
+// Sample rate of the PCM audio streamed to the duplex voice socket
+const DUPLEX_SAMPLE_RATE = 16000;
+
+/**
+ * Downsample Web Audio float samples to 16-bit PCM at DUPLEX_SAMPLE_RATE
+ */
+function toPcm16(input: Float32Array, inputSampleRate: number): ArrayBuffer {
+  const ratio = inputSampleRate / DUPLEX_SAMPLE_RATE;
+  const length = Math.floor(input.length / ratio);
+  const output = new Int16Array(length);
+
+  for (let i = 0; i < length; i++) {
+    // Average the input samples that fall into this output sample
+    const start = Math.floor(i * ratio);
+    const end = Math.min(Math.floor((i + 1) * ratio), input.length);
+    let sum = 0;
+    for (let j = start; j < end; j++) {
+      sum += input[j];
+    }
+    const sample = Math.max(-1, Math.min(1, sum / Math.max(1, end - start)));
+    output[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+
+  return output.buffer;
+}
+
+/**
+ * Read a Server-Sent Events response body, calling onEvent for each event
+ */
+async function readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: string, data: any) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const rawEvent = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+
+        let event = 'message';
+        const dataLines: string[] = [];
+        for (const line of rawEvent.split('\n')) {
+          if (line.startsWith('event:')) {
+            event = line.slice(6).trim();
+          } else if (line.startsWith('data:')) {
+            dataLines.push(line.slice(5).trim());
+          }
+        }
+
+        if (dataLines.length > 0) {
+          onEvent(event, JSON.parse(dataLines.join('\n')));
+        }
+
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+  } catch (error) {
+    await reader.cancel();
+    throw error;
+  }
+}
+
 /**
  * Hook to manage Fish Audio conversations
  * Replaces the ElevenLabs useConversation hook
  */
 export function useFishAudioConversation(options: ConversationOptions = {}) {
-  const { onConnect, onDisconnect, onMessage, onError } = options;
+  const {
+    onConnect,
+    onDisconnect,
+    onMessage,
+    onError,
+    streaming = false,
+    onResponseDelta,
+    duplex = false,
+    onUsageLimitReached,
+    onFeedback,
+  } = options;
 
   const [status, setStatus] = useState<ConnectionStatus>('disconnected');
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [isListening, setIsListening] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [practiceSessionId, setPracticeSessionId] = useState<string | null>(null);
 
   const sessionIdRef = useRef<string | null>(null);
   const modeRef = useRef<PracticeMode>('everyday');
+  const scenarioIdRef = useRef<string | undefined>(undefined);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
   const audioContextRef = useRef<AudioContext | null>(null);
@@ -62,11 +216,30 @@ export function useFishAudioConversation(options: ConversationOptions = {}) {
   const audioElementRef = useRef<HTMLAudioElement | null>(null);
   const audioAnalyserRef = useRef<AnalyserNode | null>(null);
   const authTokenRef = useRef<string | null>(null);
+  const socketRef = useRef<WebSocket | null>(null);
+  const processorRef = useRef<ScriptProcessorNode | null>(null);
+  const mediaStreamRef = useRef<MediaStream | null>(null);
 
-  // Get auth token from localStorage
-  useEffect(() => {
-    authTokenRef.current = localStorage.getItem('auth_token');
-  }, []);
+  /**
+   * Report a failed request; running out of allowance also ends the session
+   */
+  const reportError = (error: unknown, fallbackMessage: string) => {
+    if (error instanceof UsageLimitReachedError) {
+      endSession().then(() => onUsageLimitReached?.());
+    }
+    onError?.(error instanceof Error ? error : new Error(fallbackMessage));
+  };
+
+  /**
+   * Pass on the teaching content of a tutor reply
+   */
+  const reportFeedback = (data: Partial<TutorFeedback>) => {
+    onFeedback?.({
+      corrections: data.corrections ?? [],
+      vocab: data.vocab ?? [],
+      goalsMet: data.goalsMet ?? [],
+    });
+  };
 
   /**
    * Start a new conversation session
@@ -74,10 +247,20 @@ export function useFishAudioConversation(options: ConversationOptions = {}) {
   const startSession = useCallback(async (sessionOptions: SessionOptions) => {
     try {
       setStatus('connecting');
+      // Access tokens are short-lived, so each request takes a fresh one
+      authTokenRef.current = await getAccessToken();
       modeRef.current = sessionOptions.mode;
+      scenarioIdRef.current = sessionOptions.scenarioId;
+
+      // The practice session ID if given; otherwise the backend issues an id
+      // for the conversation when it starts
+      sessionIdRef.current = sessionOptions.sessionId || null;
+      setPracticeSessionId(sessionOptions.sessionId || null);
 
-      // Generate a unique session ID
-      sessionIdRef.current = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      if (duplex) {
+        await startDuplexSession(sessionOptions);
+        return;
+      }
 
       // Initialize the conversation on the backend
       const response = await fetch(`${API_BASE_URL}/api/voice/conversation/start`, {
@@ -85,18 +268,19 @@ export function useFishAudioConversation(options: ConversationOptions = {}) {
         headers: {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${authTokenRef.current}`,
+          ...(await getDeviceHeaders(authTokenRef.current)),
         },
         body: JSON.stringify({
-          sessionId: sessionIdRef.current,
+          sessionId: sessionIdRef.current || undefined,
           mode: sessionOptions.mode,
+          scenarioId: sessionOptions.scenarioId,
         }),
       });
 
-      if (!response.ok) {
-        throw new Error('Failed to start conversation');
-      }
+      await assertVoiceResponse(response, 'Failed to start conversation');
 
       const data = await response.json();
+      sessionIdRef.current = data.sessionId;
 
       // Request microphone access
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
@@ -131,9 +315,142 @@ export function useFishAudioConversation(options: ConversationOptions = {}) {
     } catch (error) {
       console.error('Failed to start session:', error);
       setStatus('disconnected');
-      onError?.(error instanceof Error ? error : new Error('Failed to start session'));
+      reportError(error, 'Failed to start session');
+    }
+  }, [duplex, onConnect, onDisconnect, onError, onMessage]);
+
+  /**
+   * Open the duplex voice socket and stream microphone audio to it.
+   * The server detects when the learner starts and stops talking, so there
+   * is no push-to-talk in this mode.
+   */
+  const startDuplexSession = async (sessionOptions: SessionOptions) => {
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: true, noiseSuppression: true },
+    });
+    mediaStreamRef.current = stream;
+
+    // Set up audio context for visualization and capture
+    audioContextRef.current = new AudioContext();
+    analyserRef.current = audioContextRef.current.createAnalyser();
+    analyserRef.current.fftSize = 256;
+    sourceRef.current = audioContextRef.current.createMediaStreamSource(stream);
+    sourceRef.current.connect(analyserRef.current);
+
+    const deviceToken = authTokenRef.current ? undefined : await getDeviceToken();
+
+    const socket = new WebSocket(`${API_BASE_URL.replace(/^http/, 'ws')}/api/voice/ws`);
+    socket.binaryType = 'arraybuffer';
+    socketRef.current = socket;
+
+    socket.onopen = () => {
+      socket.send(JSON.stringify({
+        type: 'start',
+        sessionId: sessionIdRef.current || undefined,
+        mode: sessionOptions.mode,
+        scenarioId: sessionOptions.scenarioId,
+        token: authTokenRef.current || undefined,
+        deviceToken,
+      }));
+    };
+
+    socket.onmessage = (event) => {
+      handleSocketMessage(JSON.parse(event.data));
+    };
+
+    socket.onerror = () => {
+      onError?.(new Error('Voice connection error'));
+    };
+
+    socket.onclose = () => {
+      if (socketRef.current === socket) {
+        socketRef.current = null;
+        setStatus('disconnected');
+        setIsListening(false);
+        setIsProcessing(false);
+        onDisconnect?.();
+      }
+    };
+
+    // Stream microphone audio as 16kHz PCM
+    const context = audioContextRef.current;
+    const processor = context.createScriptProcessor(4096, 1, 1);
+    processor.onaudioprocess = (event) => {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(toPcm16(event.inputBuffer.getChannelData(0), context.sampleRate));
+      }
+    };
+    sourceRef.current.connect(processor);
+    processor.connect(context.destination);
+    processorRef.current = processor;
+  };
+
+  /**
+   * Handle a message from the duplex voice socket
+   */
+  const handleSocketMessage = (message: any) => {
+    switch (message.type) {
+      case 'started':
+        sessionIdRef.current = message.sessionId;
+        setStatus('connected');
+        onConnect?.();
+        onMessage?.({ source: 'ai', message: message.message });
+        break;
+      case 'speech_started':
+        // The learner is talking - stop the tutor straight away
+        stopPlayback();
+        setIsListening(true);
+        break;
+      case 'speech_ended':
+        setIsListening(false);
+        setIsProcessing(true);
+        break;
+      case 'transcription':
+        onMessage?.({ source: 'user', message: message.text });
+        break;
+      case 'response':
+        onMessage?.({ source: 'ai', message: message.text });
+        reportFeedback(message);
+        break;
+      case 'audio':
+        setIsProcessing(false);
+        playAudioResponse(message.audio, message.audioFormat);
+        break;
+      case 'interrupted':
+        stopPlayback();
+        break;
+      case 'error':
+        setIsProcessing(false);
+        reportError(
+          message.code === 'USAGE_LIMIT_REACHED'
+            ? new UsageLimitReachedError()
+            : new Error(message.error || 'Voice connection error'),
+          'Voice connection error'
+        );
+        break;
+    }
+  };
+
+  /**
+   * Stop any tutor audio that is currently playing
+   */
+  const stopPlayback = () => {
+    if (audioElementRef.current) {
+      audioElementRef.current.pause();
+      audioElementRef.current = null;
     }
-  }, [onConnect, onError, onMessage]);
+    setIsSpeaking(false);
+  };
+
+  /**
+   * Interrupt the tutor mid-reply (duplex mode)
+   */
+  const interrupt = useCallback(() => {
+    stopPlayback();
+    if (socketRef.current?.readyState === WebSocket.OPEN) {
+      socketRef.current.send(JSON.stringify({ type: 'interrupt' }));
+    }
+  }, []);
 
   /**
    * End the current session
@@ -150,6 +467,24 @@ export function useFishAudioConversation(options: ConversationOptions = {}) {
         mediaRecorderRef.current.stream.getTracks().forEach(track => track.stop());
       }
 
+      // Close the duplex voice socket and microphone capture
+      if (processorRef.current) {
+        processorRef.current.disconnect();
+        processorRef.current = null;
+      }
+      if (mediaStreamRef.current) {
+        mediaStreamRef.current.getTracks().forEach(track => track.stop());
+        mediaStreamRef.current = null;
+      }
+      const socket = socketRef.current;
+      socketRef.current = null;
+      if (socket) {
+        if (socket.readyState === WebSocket.OPEN) {
+          socket.send(JSON.stringify({ type: 'end' }));
+        }
+        socket.close();
+      }
+
       // Close audio context
       if (audioContextRef.current) {
         audioContextRef.current.close();
@@ -162,8 +497,9 @@ export function useFishAudioConversation(options: ConversationOptions = {}) {
         audioElementRef.current = null;
       }
 
-      // Notify backend
-      if (sessionIdRef.current) {
+      // Notify backend (the duplex socket ends its conversation itself)
+      if (sessionIdRef.current && !socket) {
+        authTokenRef.current = await getAccessToken();
         await fetch(`${API_BASE_URL}/api/voice/conversation/end`, {
           method: 'POST',
           headers: {
@@ -175,6 +511,7 @@ export function useFishAudioConversation(options: ConversationOptions = {}) {
       }
 
       sessionIdRef.current = null;
+      setPracticeSessionId(null);
       setStatus('disconnected');
       setIsSpeaking(false);
       setIsListening(false);
@@ -185,6 +522,14 @@ export function useFishAudioConversation(options: ConversationOptions = {}) {
     }
   }, [onDisconnect]);
 
+  // Stop talking as soon as the server ends the practice session
+  const { remainingSeconds: usageRemainingSeconds } = useSessionHeartbeat(practiceSessionId, {
+    onLimitReached: async () => {
+      await endSession();
+      onUsageLimitReached?.();
+    },
+  });
+
   /**
    * Start recording user speech
    */
@@ -216,39 +561,47 @@ export function useFishAudioConversation(options: ConversationOptions = {}) {
           formData.append('audio', audioBlob, 'recording.webm');
           formData.append('sessionId', sessionIdRef.current || '');
           formData.append('mode', modeRef.current);
-
-          const response = await fetch(`${API_BASE_URL}/api/voice/conversation/audio`, {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${authTokenRef.current}`,
-            },
-            body: formData,
-          });
-
-          if (!response.ok) {
-            throw new Error('Failed to process conversation');
+          if (scenarioIdRef.current) {
+            formData.append('scenarioId', scenarioIdRef.current);
           }
 
-          const data = await response.json();
-
-          // Notify about user message
-          if (data.userText) {
-            onMessage?.({ source: 'user', message: data.userText });
-          }
-
-          // Notify about AI response
-          if (data.aiText) {
-            onMessage?.({ source: 'ai', message: data.aiText });
-          }
-
-          // Play the audio response
-          if (data.audio) {
-            await playAudioResponse(data.audio, data.audioFormat);
+          authTokenRef.current = await getAccessToken();
+          if (streaming) {
+            await streamConversationTurn(formData);
+          } else {
+            const response = await fetch(`${API_BASE_URL}/api/voice/conversation/audio`, {
+              method: 'POST',
+              headers: {
+                'Authorization': `Bearer ${authTokenRef.current}`,
+                ...(await getDeviceHeaders(authTokenRef.current)),
+              },
+              body: formData,
+            });
+
+            await assertVoiceResponse(response, 'Failed to process conversation');
+
+            const data = await response.json();
+
+            // Notify about user message
+            if (data.userText) {
+              onMessage?.({ source: 'user', message: data.userText });
+            }
+
+            // Notify about AI response
+            if (data.aiText) {
+              onMessage?.({ source: 'ai', message: data.aiText });
+              reportFeedback(data);
+            }
+
+            // Play the audio response
+            if (data.audio) {
+              await playAudioResponse(data.audio, data.audioFormat);
+            }
           }
 
         } catch (error) {
           console.error('Failed to process recording:', error);
-          onError?.(error instanceof Error ? error : new Error('Failed to process recording'));
+          reportError(error, 'Failed to process recording');
         } finally {
           setIsProcessing(false);
         }
@@ -258,7 +611,7 @@ export function useFishAudioConversation(options: ConversationOptions = {}) {
 
       mediaRecorderRef.current!.stop();
     });
-  }, [isListening, onMessage, onError]);
+  }, [isListening, streaming, onMessage, onResponseDelta, onError, onFeedback]);
 
   /**
    * Send a text message (alternative to voice)
@@ -266,6 +619,14 @@ export function useFishAudioConversation(options: ConversationOptions = {}) {
   const sendUserMessage = useCallback(async (text: string) => {
     if (!sessionIdRef.current || status !== 'connected') return;
 
+    // In duplex mode the reply arrives over the voice socket
+    if (socketRef.current) {
+      onMessage?.({ source: 'user', message: text });
+      setIsProcessing(true);
+      socketRef.current.send(JSON.stringify({ type: 'text', text }));
+      return;
+    }
+
     setIsProcessing(true);
 
     try {
@@ -273,38 +634,87 @@ export function useFishAudioConversation(options: ConversationOptions = {}) {
       onMessage?.({ source: 'user', message: text });
 
       // Send to backend
+      authTokenRef.current = await getAccessToken();
       const response = await fetch(`${API_BASE_URL}/api/voice/conversation`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${authTokenRef.current}`,
+          ...(await getDeviceHeaders(authTokenRef.current)),
         },
         body: JSON.stringify({
           sessionId: sessionIdRef.current,
           mode: modeRef.current,
+          scenarioId: scenarioIdRef.current,
           userText: text,
         }),
       });
 
-      if (!response.ok) {
-        throw new Error('Failed to send message');
-      }
+      await assertVoiceResponse(response, 'Failed to send message');
 
       const data = await response.json();
 
       // Notify about AI response
       onMessage?.({ source: 'ai', message: data.text });
+      reportFeedback(data);
 
       // Get audio for the response
       await speakText(data.text, data.emotion);
 
     } catch (error) {
       console.error('Failed to send message:', error);
-      onError?.(error instanceof Error ? error : new Error('Failed to send message'));
+      reportError(error, 'Failed to send message');
     } finally {
       setIsProcessing(false);
     }
-  }, [status, onMessage, onError]);
+  }, [status, onMessage, onError, onFeedback]);
+
+  /**
+   * Send a recorded turn to the streaming endpoint, playing each audio
+   * segment as soon as it arrives rather than waiting for the full reply
+   */
+  const streamConversationTurn = async (formData: FormData) => {
+    const response = await fetch(`${API_BASE_URL}/api/voice/conversation/stream`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${authTokenRef.current}`,
+        ...(await getDeviceHeaders(authTokenRef.current)),
+      },
+      body: formData,
+    });
+
+    await assertVoiceResponse(response, 'Failed to process conversation');
+    if (!response.body) {
+      throw new Error('Failed to process conversation');
+    }
+
+    // Segments are queued so they play back-to-back in order
+    let playback: Promise<void> = Promise.resolve();
+
+    await readServerSentEvents(response.body, (event, data) => {
+      switch (event) {
+        case 'transcription':
+          onMessage?.({ source: 'user', message: data.text });
+          break;
+        case 'text':
+          onResponseDelta?.(data.delta);
+          break;
+        case 'audio':
+          playback = playback.then(() => playAudioResponse(data.audio, data.audioFormat));
+          break;
+        case 'done':
+          if (data.aiText) {
+            onMessage?.({ source: 'ai', message: data.aiText });
+          }
+          reportFeedback(data);
+          break;
+        case 'error':
+          throw new Error(data.error || 'Failed to process conversation');
+      }
+    });
+
+    await playback;
+  };
 
   /**
    * Convert text to speech and play it
@@ -313,11 +723,13 @@ export function useFishAudioConversation(options: ConversationOptions = {}) {
     try {
       setIsSpeaking(true);
 
+      authTokenRef.current = await getAccessToken();
       const response = await fetch(`${API_BASE_URL}/api/voice/tts`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${authTokenRef.current}`,
+          ...(await getDeviceHeaders(authTokenRef.current)),
         },
         body: JSON.stringify({
           text,
@@ -326,9 +738,7 @@ export function useFishAudioConversation(options: ConversationOptions = {}) {
         }),
       });
 
-      if (!response.ok) {
-        throw new Error('Failed to generate speech');
-      }
+      await assertVoiceResponse(response, 'Failed to generate speech');
 
       const audioBlob = await response.blob();
       const audioUrl = URL.createObjectURL(audioBlob);
@@ -339,6 +749,9 @@ export function useFishAudioConversation(options: ConversationOptions = {}) {
 
     } catch (error) {
       console.error('Failed to speak:', error);
+      if (error instanceof UsageLimitReachedError) {
+        reportError(error, 'Failed to generate speech');
+      }
     } finally {
       setIsSpeaking(false);
     }
@@ -394,6 +807,11 @@ export function useFishAudioConversation(options: ConversationOptions = {}) {
         resolve();
       };
 
+      // Stopped early (session ended or the tutor was interrupted)
+      audio.onpause = () => {
+        if (!audio.ended) resolve();
+      };
+
       audio.onerror = () => {
         reject(new Error('Failed to play audio'));
       };
@@ -446,11 +864,15 @@ export function useFishAudioConversation(options: ConversationOptions = {}) {
     // Session management
     startSession,
     endSession,
+    usageRemainingSeconds,
 
     // Recording
     startRecording,
     stopRecording,
 
+    // Barge-in (duplex mode)
+    interrupt,
+
     // Text messaging
     sendUserMessage,
     sendUserActivity,
@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import { slangData } from '../data/slangData';
+import { notifyProgressChanged, notifyProgressReset, onProgressSynced } from '../utils/progressSync';
 
 // XP rewards for different activities
 const XP_REWARDS = {
@@ -112,8 +113,14 @@ export function useGamification() {
   // Save to localStorage whenever state changes
   useEffect(() => {
     localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    notifyProgressChanged('slang-gamification');
   }, [state]);
 
+  // Reload when synced from another device
+  useEffect(() => {
+    return onProgressSynced('slang-gamification', () => setState(getInitialState()));
+  }, []);
+
   // Check and update daily challenge on mount
   useEffect(() => {
     const today = new Date().toDateString();
@@ -415,8 +422,8 @@ export function useGamification() {
 
   const resetProgress = useCallback(() => {
     if (window.confirm('Are you sure you want to reset all your progress? This cannot be undone.')) {
+      notifyProgressReset('slang-gamification');
       setState(defaultState);
-      localStorage.removeItem(STORAGE_KEY);
       showNotification('Progress reset');
     }
   }, [showNotification]);
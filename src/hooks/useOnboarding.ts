@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
+import { notifyProgressChanged, notifyProgressReset, onProgressSynced } from '../utils/progressSync';
 
 export type ExperienceLevel = 'new-to-australia' | 'settling-in' | 'been-here-awhile';
 export type GoalType = 'workplace-confidence' | 'social-connections' | 'sound-local' | 'all-of-above';
@@ -67,24 +68,30 @@ export function useOnboarding() {
     isLoading: true,
   });
 
-  // Load from localStorage on mount
+  // Load from localStorage on mount, and again when synced from another device
   useEffect(() => {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      try {
-        const data = JSON.parse(stored) as OnboardingData;
-        setState({ data, isLoading: false });
-      } catch {
+    const loadData = () => {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        try {
+          const data = JSON.parse(stored) as OnboardingData;
+          setState({ data, isLoading: false });
+        } catch {
+          setState({ data: DEFAULT_DATA, isLoading: false });
+        }
+      } else {
         setState({ data: DEFAULT_DATA, isLoading: false });
       }
-    } else {
-      setState({ data: DEFAULT_DATA, isLoading: false });
-    }
+    };
+
+    loadData();
+    return onProgressSynced('onboarding', loadData);
   }, []);
 
   // Save to localStorage
   const saveData = useCallback((data: OnboardingData) => {
     localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+    notifyProgressChanged('onboarding');
     setState({ data, isLoading: false });
   }, []);
 
@@ -92,6 +99,7 @@ export function useOnboarding() {
     setState(prev => {
       const newData = { ...prev.data, ...updates };
       localStorage.setItem(STORAGE_KEY, JSON.stringify(newData));
+      notifyProgressChanged('onboarding');
       return { ...prev, data: newData };
     });
   }, []);
@@ -125,10 +133,11 @@ export function useOnboarding() {
     updateOnboarding({ firstSessionCompleted: true });
   }, [updateOnboarding]);
 
+  // Saved rather than removed so the reset also reaches other devices
   const resetOnboarding = useCallback(() => {
-    localStorage.removeItem(STORAGE_KEY);
-    setState({ data: DEFAULT_DATA, isLoading: false });
-  }, []);
+    notifyProgressReset('onboarding');
+    saveData(DEFAULT_DATA);
+  }, [saveData]);
 
   const getRecommendedScenarios = useCallback((): string[] => {
     const { experienceLevel, goal } = state.data;
@@ -0,0 +1,43 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from './useAuth';
+import { onProgressSyncFailed, reportSyncFailure, syncProgress } from '../utils/progressSync';
+
+/**
+ * Keeps local progress in sync with the signed-in user's account.
+ * Syncs on sign-in and whenever the app comes back into view. Returns the
+ * last sync failure, until a sync succeeds or it is dismissed.
+ */
+export function useProgressSync() {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [syncError, setSyncError] = useState<string | null>(null);
+
+  useEffect(() => onProgressSyncFailed(setSyncError), []);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const sync = () => {
+      syncProgress(userId)
+        .then(() => setSyncError(null))
+        .catch((err) => {
+          console.error('Failed to sync progress:', err);
+          reportSyncFailure(err);
+        });
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        sync();
+      }
+    };
+
+    sync();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [userId]);
+
+  const dismissSyncError = useCallback(() => setSyncError(null), []);
+
+  return { syncError, dismissSyncError };
+}
@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
+import { notifyProgressChanged, notifyProgressReset, onProgressSynced } from '../utils/progressSync';
 
 export type PracticeMode = 'everyday' | 'slang' | 'workplace';
 
@@ -35,10 +36,15 @@ export function useProgressTracking() {
   const [currentSession, setCurrentSession] = useState<SessionRecord | null>(null);
   const [studentName, setStudentName] = useState<string>('');
 
-  // Load from localStorage on mount
+  // Load from localStorage on mount, and again when synced from another device
   useEffect(() => {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
+    const loadProgress = () => {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (!stored) {
+        setSessions([]);
+        setStudentName('');
+        return;
+      }
       try {
         const data: StoredProgress = JSON.parse(stored);
         setSessions(data.sessions.map(s => ({
@@ -50,13 +56,17 @@ export function useProgressTracking() {
       } catch (e) {
         console.error('Failed to load progress:', e);
       }
-    }
+    };
+
+    loadProgress();
+    return onProgressSynced('progress', loadProgress);
   }, []);
 
   // Save to localStorage when sessions change
   useEffect(() => {
     const data: StoredProgress = { sessions, studentName };
     localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+    notifyProgressChanged('progress');
   }, [sessions, studentName]);
 
   const startSession = useCallback((mode: PracticeMode): SessionRecord => {
@@ -165,11 +175,15 @@ export function useProgressTracking() {
     };
   }, [sessions]);
 
+  // Saved rather than removed so the reset also reaches other devices
   const clearProgress = useCallback(() => {
+    notifyProgressReset('progress');
+    const data: StoredProgress = { sessions: [], studentName };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+    notifyProgressChanged('progress');
     setSessions([]);
     setCurrentSession(null);
-    localStorage.removeItem(STORAGE_KEY);
-  }, []);
+  }, [studentName]);
 
   return {
     sessions,
@@ -1,5 +1,40 @@
-import { useState, useCallback } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { PracticeMode } from './useProgressTracking';
+import { notifyProgressChanged, notifyProgressReset, onProgressSynced } from '../utils/progressSync';
+import { getAccessToken } from './useAuth';
+import { getDeviceToken } from '../utils/deviceToken';
+import { recordingToWav } from '../utils/wav';
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+// Per-phoneme result of the backend's forced alignment
+export interface PhonemePronunciation {
+  symbol: string; // IPA
+  start: number; // seconds
+  end: number;
+  score: number; // 0-100
+  // Vowels only: expected and measured formants (two points for diphthongs)
+  target?: Array<{ f1: number; f2: number }>;
+  measured?: Array<{ f1: number; f2: number }>;
+  tip?: string;
+}
+
+export interface WordPronunciation {
+  word: string;
+  start: number;
+  end: number;
+  score: number; // 0-100
+  recognized: boolean | null;
+  phonemes: PhonemePronunciation[];
+}
+
+export interface PronunciationAnalysis {
+  text: string;
+  transcript: string | null;
+  overall: number;
+  words: WordPronunciation[];
+  feedback: string[];
+}
 
 export interface PronunciationScore {
   overall: number; // 0-100
@@ -12,6 +47,8 @@ export interface PronunciationScore {
   spokenText?: string;
   feedback?: string;
   detailedFeedback?: string[];
+  // Word and phoneme scores, when the recording was analysed on the server
+  words?: WordPronunciation[];
 }
 
 export interface SessionScores {
@@ -227,35 +264,44 @@ export interface ScoreFromSpeechParams {
   spokenText: string;
   confidence: number;
   mode: PracticeMode;
+  analysis?: PronunciationAnalysis | null;
 }
 
-export function usePronunciationScoring() {
-  const [sessionScores, setSessionScores] = useState<SessionScores[]>(() => {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      try {
-        const data: StoredScores = JSON.parse(stored);
-        return data.sessions.map(s => ({
-          ...s,
-          scores: s.scores.map(score => ({
-            ...score,
-            timestamp: new Date(score.timestamp),
-          })),
-        }));
-      } catch {
-        return [];
-      }
+const loadStoredScores = (): SessionScores[] => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (stored) {
+    try {
+      const data: StoredScores = JSON.parse(stored);
+      return data.sessions.map(s => ({
+        ...s,
+        scores: s.scores.map(score => ({
+          ...score,
+          timestamp: new Date(score.timestamp),
+        })),
+      }));
+    } catch {
+      return [];
     }
-    return [];
-  });
+  }
+  return [];
+};
+
+export function usePronunciationScoring() {
+  const [sessionScores, setSessionScores] = useState<SessionScores[]>(loadStoredScores);
 
   const [currentSessionScores, setCurrentSessionScores] = useState<PronunciationScore[]>([]);
   const [currentPhrase, setCurrentPhrase] = useState<{ text: string; hint: string; keywords: string[] } | null>(null);
   const [isScoring, setIsScoring] = useState(false);
 
+  // Reload when synced from another device
+  useEffect(() => {
+    return onProgressSynced('pronunciation', () => setSessionScores(loadStoredScores()));
+  }, []);
+
   // Save to localStorage
   const saveScores = useCallback((scores: SessionScores[]) => {
     localStorage.setItem(STORAGE_KEY, JSON.stringify({ sessions: scores }));
+    notifyProgressChanged('pronunciation');
   }, []);
 
   // Score pronunciation based on real speech recognition
@@ -263,6 +309,7 @@ export function usePronunciationScoring() {
     targetPhrase,
     spokenText,
     confidence,
+    analysis,
   }: ScoreFromSpeechParams): PronunciationScore => {
     // Calculate accuracy (how close spoken text is to target)
     const accuracy = calculateSimilarity(targetPhrase.text, spokenText);
@@ -276,21 +323,23 @@ export function usePronunciationScoring() {
     // Fluency combines accuracy and keyword match
     const fluency = Math.round((accuracy * 0.6 + keywordMatch * 0.4));
 
-    // Aussie accent score - bonus for getting Aussie-specific words right
+    // Aussie accent score - from the phoneme analysis when there is one,
+    // otherwise a bonus for getting Aussie-specific words right
     const aussieBonus = keywordMatch >= 80 ? 10 : keywordMatch >= 60 ? 5 : 0;
-    const aussieAccent = Math.min(100, Math.round(fluency * 0.8 + aussieBonus));
+    const aussieAccent = analysis
+      ? analysis.overall
+      : Math.min(100, Math.round(fluency * 0.8 + aussieBonus));
 
-    // Overall score
-    const overall = Math.round((clarity * 0.25 + fluency * 0.35 + accuracy * 0.25 + aussieAccent * 0.15));
+    // Overall score - the phoneme analysis is the best evidence of how it sounded
+    const overall = analysis
+      ? Math.round((clarity * 0.15 + fluency * 0.25 + accuracy * 0.2 + aussieAccent * 0.4))
+      : Math.round((clarity * 0.25 + fluency * 0.35 + accuracy * 0.25 + aussieAccent * 0.15));
 
     // Generate feedback
     const feedback = getFeedback(overall);
-    const detailedFeedback = generateDetailedFeedback(
-      targetPhrase.text,
-      spokenText,
-      accuracy,
-      keywordMatch
-    );
+    const detailedFeedback = analysis
+      ? analysis.feedback
+      : generateDetailedFeedback(targetPhrase.text, spokenText, accuracy, keywordMatch);
 
     return {
       overall,
@@ -303,9 +352,43 @@ export function usePronunciationScoring() {
       spokenText,
       feedback,
       detailedFeedback,
+      words: analysis?.words,
     };
   }, []);
 
+  // Score a recording per word and phoneme on the server. Returns null when
+  // that is unavailable, so callers fall back to transcript scoring.
+  const analyzeRecording = useCallback(async (
+    recording: Blob,
+    phrase: string
+  ): Promise<PronunciationAnalysis | null> => {
+    setIsScoring(true);
+    try {
+      const authToken = await getAccessToken();
+      const headers: Record<string, string> = authToken
+        ? { 'Authorization': `Bearer ${authToken}` }
+        : { 'X-Device-Token': await getDeviceToken() };
+
+      const formData = new FormData();
+      formData.append('audio', await recordingToWav(recording), 'recording.wav');
+      formData.append('text', phrase);
+
+      const response = await fetch(`${API_URL}/voice/pronunciation`, {
+        method: 'POST',
+        headers,
+        body: formData,
+      });
+      if (!response.ok) return null;
+
+      return await response.json();
+    } catch (error) {
+      console.error('Pronunciation analysis failed:', error);
+      return null;
+    } finally {
+      setIsScoring(false);
+    }
+  }, []);
+
   const startPronunciationPractice = useCallback((mode: PracticeMode) => {
     const phrases = PRACTICE_PHRASES[mode];
     const randomPhrase = phrases[Math.floor(Math.random() * phrases.length)];
@@ -316,7 +399,8 @@ export function usePronunciationScoring() {
   const submitPronunciationWithSpeech = useCallback((
     spokenText: string,
     confidence: number,
-    mode: PracticeMode
+    mode: PracticeMode,
+    analysis?: PronunciationAnalysis | null
   ): PronunciationScore | null => {
     if (!currentPhrase) return null;
 
@@ -327,6 +411,7 @@ export function usePronunciationScoring() {
       spokenText,
       confidence,
       mode,
+      analysis,
     });
 
     setCurrentSessionScores(prev => [...prev, score]);
@@ -424,11 +509,12 @@ export function usePronunciationScoring() {
   }, [sessionScores]);
 
   const clearPronunciationData = useCallback(() => {
+    notifyProgressReset('pronunciation');
     setSessionScores([]);
     setCurrentSessionScores([]);
     setCurrentPhrase(null);
-    localStorage.removeItem(STORAGE_KEY);
-  }, []);
+    saveScores([]);
+  }, [saveScores]);
 
   return {
     sessionScores,
@@ -437,6 +523,7 @@ export function usePronunciationScoring() {
     isScoring,
     startPronunciationPractice,
     submitPronunciationWithSpeech,
+    analyzeRecording,
     getNextPhrase,
     finalizeSessionScores,
     getOverallStats,
@@ -0,0 +1,61 @@
+import { useState, useEffect, useRef } from 'react';
+import { fetchWithAuth } from './useAuth';
+import { UsageStatus } from './useSubscription';
+
+// Must stay well under the backend's STALE_SESSION_SECONDS (90s)
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+interface SessionHeartbeatOptions {
+  onLimitReached: () => void;
+}
+
+/**
+ * Reports a live backend session to the server every 30 seconds so usage is
+ * billed as it happens. The server's remaining allowance is returned for the
+ * session timer, and onLimitReached fires once the server has ended the
+ * session (out of minutes, or closed as abandoned).
+ */
+export function useSessionHeartbeat(sessionId: string | null, { onLimitReached }: SessionHeartbeatOptions) {
+  const [remainingSeconds, setRemainingSeconds] = useState<number | null>(null);
+  const onLimitReachedRef = useRef(onLimitReached);
+  onLimitReachedRef.current = onLimitReached;
+
+  useEffect(() => {
+    setRemainingSeconds(null);
+    if (!sessionId) return;
+
+    let stopped = false;
+
+    const sendHeartbeat = async () => {
+      try {
+        const response = await fetchWithAuth(`/sessions/${sessionId}/heartbeat`, {
+          method: 'POST',
+        });
+        if (stopped) return;
+
+        const data: { usage?: UsageStatus; limit_reached?: boolean; code?: string } = await response.json();
+        if (data.usage) {
+          setRemainingSeconds(Math.floor(data.usage.remaining_minutes * 60));
+        }
+
+        if (data.limit_reached || data.code === 'SESSION_ENDED') {
+          stopped = true;
+          clearInterval(interval);
+          onLimitReachedRef.current();
+        }
+      } catch (error) {
+        // Missed heartbeats are billed by the next one or by /end
+        console.error('Session heartbeat failed:', error);
+      }
+    };
+
+    const interval = setInterval(sendHeartbeat, HEARTBEAT_INTERVAL_MS);
+
+    return () => {
+      stopped = true;
+      clearInterval(interval);
+    };
+  }, [sessionId]);
+
+  return { remainingSeconds };
+}
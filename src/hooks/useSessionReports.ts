@@ -0,0 +1,111 @@
+import { useState, useEffect, useCallback } from 'react';
+import { fetchWithAuth, useAuth } from './useAuth';
+import { VocabItem } from '../data/scenarios';
+
+export interface BackendSession {
+  id: string;
+  started_at: string;
+  ended_at: string | null;
+  duration_seconds: number;
+  scenario_id: string | null;
+  messages_count: number;
+}
+
+export interface FeedbackReport {
+  corrections: {
+    utterance: string;
+    corrected: string;
+    explanation: string;
+  }[];
+  aussie_phrases_used_well: {
+    phrase: string;
+    comment: string;
+  }[];
+  missed_vocab: VocabItem[];
+  next_steps: string[];
+}
+
+/**
+ * Hook for the signed-in user's recorded sessions and their AI feedback reports
+ */
+export function useSessionReports() {
+  const { isAuthenticated } = useAuth();
+  const [sessions, setSessions] = useState<BackendSession[]>([]);
+  const [reports, setReports] = useState<Record<string, FeedbackReport | null>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [generatingId, setGeneratingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSessions = useCallback(async () => {
+    if (!isAuthenticated) {
+      setSessions([]);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await fetchWithAuth('/sessions/history?limit=20');
+      if (response.ok) {
+        const data = await response.json();
+        setSessions((data.sessions as BackendSession[]).filter(s => s.ended_at));
+      }
+    } catch (err) {
+      console.error('Failed to fetch session history:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const loadReport = useCallback(async (sessionId: string) => {
+    try {
+      const response = await fetchWithAuth(`/sessions/${sessionId}/report`);
+      if (response.ok) {
+        const data = await response.json();
+        setReports(prev => ({ ...prev, [sessionId]: data.report }));
+      } else if (response.status === 404) {
+        setReports(prev => ({ ...prev, [sessionId]: null }));
+      }
+    } catch (err) {
+      console.error('Failed to load report:', err);
+    }
+  }, []);
+
+  const generateReport = useCallback(async (sessionId: string) => {
+    setGeneratingId(sessionId);
+    setError(null);
+
+    try {
+      const response = await fetchWithAuth(`/sessions/${sessionId}/report`, {
+        method: 'POST',
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to generate report');
+      }
+
+      setReports(prev => ({ ...prev, [sessionId]: data.report }));
+    } catch (err) {
+      console.error('Failed to generate report:', err);
+      setError(err instanceof Error ? err.message : 'Failed to generate report');
+    } finally {
+      setGeneratingId(null);
+    }
+  }, []);
+
+  return {
+    isAuthenticated,
+    sessions,
+    reports,
+    isLoading,
+    generatingId,
+    error,
+    refreshSessions: fetchSessions,
+    loadReport,
+    generateReport,
+  };
+}
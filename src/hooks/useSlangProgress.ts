@@ -1,11 +1,20 @@
-import { useState, useEffect, useCallback } from 'react';
-import { slangData } from '../data/slangData';
-
-interface CardProgress {
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ReviewItem, getReviewItem, reviewItems } from '../data/reviewItems';
+import { notifyProgressChanged, notifyProgressReset, onProgressSynced } from '../utils/progressSync';
+import {
+  ReviewRating,
+  ReviewSchedule,
+  createSchedule,
+  getReviewForecast as forecastReviews,
+  levelForInterval,
+  previewIntervals,
+  scheduleFromLegacyLevel,
+  scheduleReview,
+} from '../utils/spacedRepetition';
+
+export interface CardProgress extends ReviewSchedule {
   id: string;
-  level: number; // 0-5, where 5 is mastered
-  nextReview: number; // timestamp
-  lastReview: number;
+  level: number; // 0-5 from the current interval, where 5 is mastered
 }
 
 interface SlangProgress {
@@ -14,13 +23,42 @@ interface SlangProgress {
   totalQuizzesTaken: number;
 }
 
+// Holds review progress for every review item (slang, scenario vocab and
+// practice phrases) - the key predates vocab and phrases
 const STORAGE_KEY = 'aussie-slang-progress';
 
+// Lets other instances of the hook on the page pick up a save
+const PROGRESS_SAVED_EVENT = 'aussie-slang-progress-saved';
+
+// Cards saved by the old fixed-level scheduler have no ease factor - they
+// keep their level, interval and due date
+function migrateCard(card: CardProgress): CardProgress {
+  if (typeof card.ease === 'number') {
+    return card;
+  }
+  return {
+    ...scheduleFromLegacyLevel(card.level, card.nextReview, card.lastReview),
+    id: card.id,
+    level: card.level,
+  };
+}
+
+const newCard = (cardId: string): CardProgress => ({
+  ...createSchedule(),
+  id: cardId,
+  level: 0,
+});
+
 const getInitialProgress = (): SlangProgress => {
   try {
     const stored = localStorage.getItem(STORAGE_KEY);
     if (stored) {
-      return JSON.parse(stored);
+      const parsed: SlangProgress = JSON.parse(stored);
+      const cards: Record<string, CardProgress> = {};
+      for (const [id, card] of Object.entries(parsed.cards || {})) {
+        cards[id] = migrateCard(card);
+      }
+      return { ...parsed, cards };
     }
   } catch (e) {
     console.error('Failed to load slang progress:', e);
@@ -32,86 +70,101 @@ const getInitialProgress = (): SlangProgress => {
   };
 };
 
-// Spaced repetition intervals in milliseconds
-const INTERVALS = [
-  0, // Level 0: Review now
-  1 * 60 * 60 * 1000, // Level 1: 1 hour
-  24 * 60 * 60 * 1000, // Level 2: 1 day
-  3 * 24 * 60 * 60 * 1000, // Level 3: 3 days
-  7 * 24 * 60 * 60 * 1000, // Level 4: 1 week
-  30 * 24 * 60 * 60 * 1000, // Level 5: 1 month (mastered)
-];
-
 export function useSlangProgress() {
   const [progress, setProgress] = useState<SlangProgress>(getInitialProgress);
+  const savedJson = useRef<string | null>(null);
 
   // Save to localStorage whenever progress changes
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(progress));
+    const json = JSON.stringify(progress);
+    if (json === savedJson.current) return;
+    savedJson.current = json;
+    localStorage.setItem(STORAGE_KEY, json);
+    notifyProgressChanged('slang-progress');
+    window.dispatchEvent(new Event(PROGRESS_SAVED_EVENT));
   }, [progress]);
 
+  // Reload when another instance saves, so one doesn't overwrite the other
+  useEffect(() => {
+    const handleSaved = () => {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored !== savedJson.current) {
+        savedJson.current = stored;
+        setProgress(getInitialProgress());
+      }
+    };
+    window.addEventListener(PROGRESS_SAVED_EVENT, handleSaved);
+    return () => window.removeEventListener(PROGRESS_SAVED_EVENT, handleSaved);
+  }, []);
+
+  // Reload when synced from another device
+  useEffect(() => {
+    return onProgressSynced('slang-progress', () => setProgress(getInitialProgress()));
+  }, []);
+
   const getCardProgress = useCallback(
     (cardId: string): CardProgress => {
-      return (
-        progress.cards[cardId] || {
-          id: cardId,
-          level: 0,
-          nextReview: 0,
-          lastReview: 0,
-        }
-      );
+      return progress.cards[cardId] || newCard(cardId);
     },
     [progress.cards]
   );
 
-  const updateCardProgress = useCallback((cardId: string, rating: number) => {
+  const updateCardProgress = useCallback((cardId: string, rating: ReviewRating) => {
     // Rating: 1 = didn't know, 2 = hard, 3 = good, 4 = easy, 5 = perfect
     setProgress((prev) => {
-      const current = prev.cards[cardId] || {
-        id: cardId,
-        level: 0,
-        nextReview: 0,
-        lastReview: 0,
-      };
-
-      let newLevel = current.level;
-
-      if (rating <= 2) {
-        // Didn't know or hard - reset or decrease level
-        newLevel = Math.max(0, current.level - 1);
-      } else if (rating === 3) {
-        // Good - maintain or slightly increase
-        newLevel = Math.min(5, current.level + 1);
-      } else {
-        // Easy or perfect - increase more
-        newLevel = Math.min(5, current.level + (rating === 5 ? 2 : 1));
-      }
-
-      const now = Date.now();
-      const nextReview = now + INTERVALS[newLevel];
+      const schedule = scheduleReview(prev.cards[cardId] || newCard(cardId), rating);
 
       return {
         ...prev,
         cards: {
           ...prev.cards,
           [cardId]: {
+            ...schedule,
             id: cardId,
-            level: newLevel,
-            nextReview,
-            lastReview: now,
+            level: levelForInterval(schedule.interval),
           },
         },
       };
     });
   }, []);
 
-  const getDueCards = useCallback(() => {
-    const now = Date.now();
-    return slangData.filter((card) => {
-      const cardProgress = progress.cards[card.id];
-      if (!cardProgress) return true; // New card, always due
-      return cardProgress.nextReview <= now;
+  // Interval each rating would give a card, in days
+  const getRatingIntervals = useCallback(
+    (cardId: string) => previewIntervals(getCardProgress(cardId)),
+    [getCardProgress]
+  );
+
+  // Cards due per day, for the next two weeks by default (new cards aren't counted)
+  const getReviewForecast = useCallback(
+    (days: number = 14) => forecastReviews(Object.values(progress.cards), days),
+    [progress.cards]
+  );
+
+  // Add scenario vocab or practice phrases to the review queue, due now
+  const enrollItems = useCallback((itemIds: string[]) => {
+    setProgress((prev) => {
+      const added = itemIds.filter((id) => !prev.cards[id] && getReviewItem(id));
+      if (added.length === 0) return prev;
+
+      const cards = { ...prev.cards };
+      for (const id of added) {
+        cards[id] = newCard(id);
+      }
+      return { ...prev, cards };
     });
+  }, []);
+
+  // One mixed queue: scheduled items that are due, most overdue first, then
+  // slang terms not yet studied
+  const getDueItems = useCallback((): ReviewItem[] => {
+    const now = Date.now();
+    const scheduled = Object.values(progress.cards)
+      .filter((card) => card.nextReview <= now)
+      .sort((a, b) => a.nextReview - b.nextReview)
+      .map((card) => getReviewItem(card.id))
+      .filter((item): item is ReviewItem => item !== undefined);
+    const unseen = reviewItems.filter((item) => item.kind === 'slang' && !progress.cards[item.id]);
+    return [...scheduled, ...unseen];
   }, [progress.cards]);
 
   const getLearnedCount = useCallback(() => {
@@ -132,6 +185,7 @@ export function useSlangProgress() {
 
   const resetProgress = useCallback(() => {
     if (window.confirm('Are you sure you want to reset all your slang learning progress?')) {
+      notifyProgressReset('slang-progress');
       setProgress({
         cards: {},
         quizHighScore: 0,
@@ -144,7 +198,10 @@ export function useSlangProgress() {
     progress,
     getCardProgress,
     updateCardProgress,
-    getDueCards,
+    getRatingIntervals,
+    getReviewForecast,
+    enrollItems,
+    getDueItems,
     getLearnedCount,
     getMasteredCount,
     updateQuizScore,
@@ -16,6 +16,11 @@ export interface Plan {
   description: string;
 }
 
+export interface TranscriptMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
 interface SubscriptionState {
   usage: UsageStatus | null;
   plans: Plan[];
@@ -153,12 +158,13 @@ export function useSubscription() {
   const recordSessionUsage = useCallback(async (
     sessionId: string,
     feedback?: boolean,
-    messagesCount?: number
+    messagesCount?: number,
+    transcript?: TranscriptMessage[]
   ) => {
     try {
       await fetchWithAuth(`/sessions/${sessionId}/end`, {
         method: 'POST',
-        body: JSON.stringify({ feedback, messages_count: messagesCount }),
+        body: JSON.stringify({ feedback, messages_count: messagesCount, transcript }),
       });
       await fetchUsage();
       await refreshUser();
@@ -167,11 +173,13 @@ export function useSubscription() {
     }
   }, [fetchUsage, refreshUser]);
 
-  const startBackendSession = useCallback(async (mode?: string): Promise<string | null> => {
+  const startBackendSession = useCallback(async (
+    options: { mode?: 'everyday' | 'slang' | 'workplace'; scenarioId?: string } = {}
+  ): Promise<string | null> => {
     try {
       const response = await fetchWithAuth('/sessions/start', {
         method: 'POST',
-        body: JSON.stringify({ mode }),
+        body: JSON.stringify({ mode: options.mode, scenario_id: options.scenarioId }),
       });
 
       if (!response.ok) {
@@ -0,0 +1,73 @@
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+const DEVICE_TOKEN_KEY = 'aussie_device_token';
+
+let pendingToken: Promise<string> | null = null;
+
+export function getStoredDeviceToken(): string | null {
+  try {
+    return localStorage.getItem(DEVICE_TOKEN_KEY);
+  } catch {
+    return null;
+  }
+}
+
+function clearDeviceToken(): void {
+  try {
+    localStorage.removeItem(DEVICE_TOKEN_KEY);
+  } catch {
+    // localStorage might be disabled
+  }
+}
+
+/**
+ * Token the backend issued for this browser's free trial, sent as
+ * X-Device-Token so anonymous usage is tracked on the server. Fetched once
+ * and kept in localStorage.
+ */
+export function getDeviceToken(): Promise<string> {
+  const stored = getStoredDeviceToken();
+  if (stored) return Promise.resolve(stored);
+
+  if (!pendingToken) {
+    pendingToken = (async () => {
+      const response = await fetch(`${API_URL}/anonymous/token`, { method: 'POST' });
+      if (!response.ok) {
+        throw new Error('Failed to get device token');
+      }
+
+      const data: { device_token: string } = await response.json();
+      try {
+        localStorage.setItem(DEVICE_TOKEN_KEY, data.device_token);
+      } catch {
+        // Still usable for this page load
+      }
+      return data.device_token;
+    })().finally(() => {
+      pendingToken = null;
+    });
+  }
+
+  return pendingToken;
+}
+
+/**
+ * fetch for the anonymous trial endpoints. A rejected token (expired, or the
+ * server's secret changed) is replaced once and the request retried.
+ */
+export async function fetchWithDevice(url: string, options: RequestInit = {}): Promise<Response> {
+  const send = async () => fetch(`${API_URL}${url}`, {
+    ...options,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(options.headers || {}),
+      'X-Device-Token': await getDeviceToken(),
+    },
+  });
+
+  const response = await send();
+  if (response.status !== 401) return response;
+
+  clearDeviceToken();
+  return send();
+}
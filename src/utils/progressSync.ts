@@ -0,0 +1,286 @@
+import { fetchWithAuth } from '../hooks/useAuth';
+
+/**
+ * Syncs progress kept in localStorage with the backend (/api/progress).
+ *
+ * Each localStorage entry is one versioned document on the server. Hooks keep
+ * reading and writing localStorage as before and call notifyProgressChanged()
+ * after a write; signed-in changes are pushed after a short delay. A push based
+ * on an out-of-date version is merged on the server and the merged copy is
+ * written back locally. syncProgress() runs on sign-in and pulls changes made
+ * on other devices - the first time, it uploads whatever was stored locally.
+ *
+ * Hooks that clear a document save its empty state and call
+ * notifyProgressReset(): the reset replaces the server copy, and other
+ * devices' edits from before it are dropped rather than merged back in.
+ */
+
+export type ProgressDocumentKey =
+  | 'progress'
+  | 'achievements'
+  | 'pronunciation'
+  | 'slang-progress'
+  | 'slang-gamification'
+  | 'onboarding';
+
+// localStorage key holding each synced document
+export const PROGRESS_STORAGE_KEYS: Record<ProgressDocumentKey, string> = {
+  'progress': 'aussie-english-progress',
+  'achievements': 'aussie-english-achievements',
+  'pronunciation': 'aussie-english-pronunciation',
+  'slang-progress': 'aussie-slang-progress',
+  'slang-gamification': 'aussie_slang_gamification',
+  'onboarding': 'speakaussie-onboarding',
+};
+
+const DOCUMENT_KEYS = Object.keys(PROGRESS_STORAGE_KEYS) as ProgressDocumentKey[];
+
+const SYNC_STATE_KEY = 'aussie-progress-sync';
+const TOKEN_KEY = 'aussie_auth_token';
+const PUSH_DELAY_MS = 2000;
+
+const PROGRESS_SYNCED_EVENT = 'aussie-progress-synced';
+const PROGRESS_SYNC_FAILED_EVENT = 'aussie-progress-sync-failed';
+
+interface SyncedDocument {
+  version: number;
+  hash: string; // hash of the JSON last synced, to spot local edits
+}
+
+interface SyncState {
+  userId: string | null;
+  documents: Partial<Record<ProgressDocumentKey, SyncedDocument>>;
+  // Documents cleared locally whose reset has not reached the server yet
+  pendingResets?: ProgressDocumentKey[];
+}
+
+interface RemoteDocument {
+  key: ProgressDocumentKey;
+  data: unknown;
+  version: number;
+  updated_at: string;
+}
+
+const pushTimers: Partial<Record<ProgressDocumentKey, ReturnType<typeof setTimeout>>> = {};
+let activeSync: Promise<void> | null = null;
+
+function loadSyncState(): SyncState {
+  try {
+    const stored = localStorage.getItem(SYNC_STATE_KEY);
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (e) {
+    console.error('Failed to load progress sync state:', e);
+  }
+  return { userId: null, documents: {} };
+}
+
+function saveSyncState(state: SyncState) {
+  localStorage.setItem(SYNC_STATE_KEY, JSON.stringify(state));
+}
+
+// Small string hash (djb2) - only used to compare against the last synced copy
+function hashJson(json: string): string {
+  let hash = 5381;
+  for (let i = 0; i < json.length; i++) {
+    hash = ((hash << 5) + hash + json.charCodeAt(i)) | 0;
+  }
+  return hash.toString(36);
+}
+
+function hasLocalChanges(key: ProgressDocumentKey, state: SyncState): boolean {
+  const local = localStorage.getItem(PROGRESS_STORAGE_KEYS[key]);
+  if (local === null) return false;
+  return state.documents[key]?.hash !== hashJson(local);
+}
+
+// Tell the hook holding a document to reload it from localStorage
+function dispatchSynced(key: ProgressDocumentKey) {
+  window.dispatchEvent(new CustomEvent(PROGRESS_SYNCED_EVENT, { detail: { key } }));
+}
+
+// Store a server copy locally
+function applyRemoteDocument(document: RemoteDocument, state: SyncState) {
+  const json = JSON.stringify(document.data);
+  if (localStorage.getItem(PROGRESS_STORAGE_KEYS[document.key]) !== json) {
+    localStorage.setItem(PROGRESS_STORAGE_KEYS[document.key], json);
+    dispatchSynced(document.key);
+  }
+  state.documents[document.key] = { version: document.version, hash: hashJson(json) };
+}
+
+async function pushDocument(key: ProgressDocumentKey): Promise<void> {
+  const local = localStorage.getItem(PROGRESS_STORAGE_KEYS[key]);
+  if (local === null) return;
+
+  const state = loadSyncState();
+  const reset = state.pendingResets?.includes(key) ?? false;
+  const response = await fetchWithAuth(`/progress/${key}`, {
+    method: 'PUT',
+    body: JSON.stringify({
+      data: JSON.parse(local),
+      base_version: state.documents[key]?.version ?? 0,
+      reset,
+    }),
+  });
+
+  if (response.status === 409) {
+    const conflict: { code: string; document: RemoteDocument | null } = await response.json();
+    const latest = loadSyncState();
+    if (conflict.code === 'PROGRESS_RESET' && conflict.document) {
+      // Reset on another device since this copy was synced - take the reset copy
+      applyRemoteDocument(conflict.document, latest);
+    } else {
+      // The server doesn't know the version this copy came from, so merge it in afresh
+      delete latest.documents[key];
+      schedulePush(key);
+    }
+    saveSyncState(latest);
+    return;
+  }
+
+  if (response.status === 413) {
+    throw new Error('Your progress has grown too large to sync. It is still saved on this device.');
+  }
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Failed to sync ${key}`);
+  }
+
+  const document: RemoteDocument = await response.json();
+
+  // Re-read: the hooks may have written again while the request was in flight
+  const latest = loadSyncState();
+  if (reset) {
+    latest.pendingResets = latest.pendingResets?.filter(pending => pending !== key);
+  }
+  if (localStorage.getItem(PROGRESS_STORAGE_KEYS[key]) === local) {
+    applyRemoteDocument(document, latest);
+  } else {
+    latest.documents[key] = { version: document.version, hash: hashJson(JSON.stringify(document.data)) };
+    schedulePush(key);
+  }
+  saveSyncState(latest);
+}
+
+function schedulePush(key: ProgressDocumentKey) {
+  clearTimeout(pushTimers[key]);
+  pushTimers[key] = setTimeout(() => {
+    pushDocument(key).catch((err) => {
+      console.error('Failed to push progress:', err);
+      reportSyncFailure(err);
+    });
+  }, PUSH_DELAY_MS);
+}
+
+// Tell the app a sync failed, so the learner knows their progress is only local
+export function reportSyncFailure(err: unknown) {
+  const message = err instanceof Error ? err.message : 'Failed to sync progress';
+  window.dispatchEvent(new CustomEvent(PROGRESS_SYNC_FAILED_EVENT, { detail: { message } }));
+}
+
+/**
+ * Called by the progress hooks when they clear a document, before saving
+ * its empty state
+ */
+export function notifyProgressReset(key: ProgressDocumentKey) {
+  const state = loadSyncState();
+  if (!state.pendingResets?.includes(key)) {
+    state.pendingResets = [...(state.pendingResets ?? []), key];
+    saveSyncState(state);
+  }
+}
+
+/**
+ * Called by the progress hooks after they write their localStorage entry
+ */
+export function notifyProgressChanged(key: ProgressDocumentKey) {
+  if (!localStorage.getItem(TOKEN_KEY)) return;
+
+  const state = loadSyncState();
+  // Until the first sync for this account, syncProgress() uploads local data
+  if (!state.userId) return;
+
+  if (hasLocalChanges(key, state)) {
+    schedulePush(key);
+  }
+}
+
+async function runSync(userId: string): Promise<void> {
+  const response = await fetchWithAuth('/progress');
+  if (!response.ok) {
+    throw new Error('Failed to load synced progress');
+  }
+
+  const { documents }: { documents: RemoteDocument[] } = await response.json();
+  const remote = new Map(documents.map(d => [d.key, d]));
+
+  let state = loadSyncState();
+
+  // Local data belongs to another account - replace it rather than merge it in
+  if (state.userId && state.userId !== userId) {
+    for (const key of DOCUMENT_KEYS) {
+      localStorage.removeItem(PROGRESS_STORAGE_KEYS[key]);
+      dispatchSynced(key);
+    }
+    state = { userId, documents: {} };
+  }
+
+  const toPush: ProgressDocumentKey[] = [];
+
+  for (const key of DOCUMENT_KEYS) {
+    const document = remote.get(key);
+
+    if (hasLocalChanges(key, state)) {
+      // Edited offline, or never uploaded (first sign-in on this device)
+      toPush.push(key);
+    } else if (document && document.version !== state.documents[key]?.version) {
+      applyRemoteDocument(document, state);
+    }
+  }
+
+  state.userId = userId;
+  saveSyncState(state);
+
+  for (const key of toPush) {
+    await pushDocument(key);
+  }
+}
+
+/**
+ * Pull other devices' changes and push local ones for the signed-in user
+ */
+export function syncProgress(userId: string): Promise<void> {
+  if (!activeSync) {
+    activeSync = runSync(userId).finally(() => {
+      activeSync = null;
+    });
+  }
+  return activeSync;
+}
+
+/**
+ * Subscribe to a document being replaced by a synced copy
+ */
+export function onProgressSynced(key: ProgressDocumentKey, listener: () => void): () => void {
+  const handler = (event: Event) => {
+    if ((event as CustomEvent<{ key: ProgressDocumentKey }>).detail.key === key) {
+      listener();
+    }
+  };
+  window.addEventListener(PROGRESS_SYNCED_EVENT, handler);
+  return () => window.removeEventListener(PROGRESS_SYNCED_EVENT, handler);
+}
+
+/**
+ * Subscribe to syncs that failed in the background
+ */
+export function onProgressSyncFailed(listener: (message: string) => void): () => void {
+  const handler = (event: Event) => {
+    listener((event as CustomEvent<{ message: string }>).detail.message);
+  };
+  window.addEventListener(PROGRESS_SYNC_FAILED_EVENT, handler);
+  return () => window.removeEventListener(PROGRESS_SYNC_FAILED_EVENT, handler);
+}
@@ -0,0 +1,279 @@
+import {
+  SlangCategory,
+  SlangDifficulty,
+  SlangTerm,
+  categoryNames,
+  difficulties,
+  difficultyNames,
+} from '../data/slangData';
+import { CardProgress } from '../hooks/useSlangProgress';
+import { DeckTermInput } from '../hooks/useCustomDecks';
+import { downloadBlob } from './exportProgress';
+
+/**
+ * Import of slang terms from CSV/TSV spreadsheets, and export of terms with
+ * their review progress to CSV or an Anki package (.apkg, built by the
+ * backend's /exports/apkg).
+ */
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+export interface RejectedRow {
+  line: number;
+  text: string;
+  reason: string;
+}
+
+export interface ImportResult {
+  terms: DeckTermInput[];
+  rejected: RejectedRow[];
+}
+
+const DEFAULT_CATEGORY: SlangCategory = 'expressions';
+const DEFAULT_DIFFICULTY: SlangDifficulty = 'beginner';
+
+const COLUMNS = ['term', 'meaning', 'example', 'category', 'difficulty'] as const;
+type Column = typeof COLUMNS[number];
+
+// Header names accepted for each column (Anki's "Front"/"Back" included)
+const HEADER_ALIASES: Record<string, Column> = {
+  term: 'term',
+  front: 'term',
+  slang: 'term',
+  word: 'term',
+  meaning: 'meaning',
+  back: 'meaning',
+  definition: 'meaning',
+  example: 'example',
+  sentence: 'example',
+  category: 'category',
+  difficulty: 'difficulty',
+};
+
+/**
+ * Split delimited text into rows of cells. Handles quoted cells with
+ * embedded delimiters, doubled quotes and line breaks.
+ */
+export function parseDelimited(text: string, delimiter: string): { line: number; cells: string[] }[] {
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      cells.push(cell);
+      rows.push({ line: rowLine, cells });
+      cells = [];
+      cell = '';
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || cells.length > 0) {
+    cells.push(cell);
+    rows.push({ line: rowLine, cells });
+  }
+
+  return rows.filter(row => row.cells.some(c => c.trim() !== ''));
+}
+
+// Tabs win if the first line has any - spreadsheets copy out as TSV
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  if (firstLine.includes('\t')) return '\t';
+  if (firstLine.includes(';') && !firstLine.includes(',')) return ';';
+  return ',';
+}
+
+function matchOption<T extends string>(value: string, options: T[], names: Record<T, string>): T | undefined {
+  const normalised = value.trim().toLowerCase();
+  return options.find(option => option === normalised || names[option].toLowerCase() === normalised);
+}
+
+/**
+ * Parse a CSV or TSV file into slang terms. A header row is optional: with
+ * one, columns can be in any order; without, they are term, meaning,
+ * example, category, difficulty. Missing categories and difficulties get
+ * defaults; rows that can't be used are returned with the reason.
+ */
+export function parseSlangFile(text: string): ImportResult {
+  const rows = parseDelimited(text.replace(/^\uFEFF/, ''), detectDelimiter(text));
+  const terms: DeckTermInput[] = [];
+  const rejected: RejectedRow[] = [];
+  if (rows.length === 0) return { terms, rejected };
+
+  // Map columns from the header row if there is one
+  let columns: (Column | undefined)[] = [...COLUMNS];
+  const headerColumns = rows[0].cells.map(cell => HEADER_ALIASES[cell.trim().toLowerCase()]);
+  if (headerColumns.includes('term') && headerColumns.includes('meaning')) {
+    columns = headerColumns;
+    rows.shift();
+  }
+
+  const allCategories = Object.keys(categoryNames) as SlangCategory[];
+  const seen = new Set<string>();
+
+  for (const row of rows) {
+    const values: Partial<Record<Column, string>> = {};
+    columns.forEach((column, index) => {
+      if (column && row.cells[index] !== undefined) {
+        values[column] = row.cells[index].trim();
+      }
+    });
+
+    const reject = (reason: string) => rejected.push({ line: row.line, text: row.cells.join(' | '), reason });
+
+    if (!values.term) {
+      reject('Missing term');
+      continue;
+    }
+    if (!values.meaning) {
+      reject('Missing meaning');
+      continue;
+    }
+    if (values.term.length > 100 || values.meaning.length > 300 || (values.example || '').length > 500) {
+      reject('Too long (term 100, meaning 300, example 500 characters)');
+      continue;
+    }
+
+    const category = values.category ? matchOption(values.category, allCategories, categoryNames) : DEFAULT_CATEGORY;
+    if (!category) {
+      reject(`Unknown category "${values.category}"`);
+      continue;
+    }
+
+    const difficulty = values.difficulty ? matchOption(values.difficulty, difficulties, difficultyNames) : DEFAULT_DIFFICULTY;
+    if (!difficulty) {
+      reject(`Unknown difficulty "${values.difficulty}"`);
+      continue;
+    }
+
+    const key = values.term.toLowerCase();
+    if (seen.has(key)) {
+      reject('Duplicate term');
+      continue;
+    }
+    seen.add(key);
+
+    terms.push({
+      term: values.term,
+      meaning: values.meaning,
+      // Examples are required by the games - fall back to the term itself
+      example: values.example || values.term,
+      category,
+      difficulty,
+    });
+  }
+
+  return { terms, rejected };
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const formatTimestamp = (timestamp: number) => (timestamp ? new Date(timestamp).toISOString() : '');
+
+/**
+ * Download terms with their review progress as CSV. The first five columns
+ * re-import as-is.
+ */
+export function exportTermsToCSV(terms: SlangTerm[], cards: Record<string, CardProgress>, name: string): void {
+  const headers = [
+    ...COLUMNS,
+    'level', 'ease', 'interval_days', 'repetitions', 'lapses', 'next_review', 'last_review',
+  ];
+
+  const rows = terms.map(term => {
+    const card = cards[term.id];
+    return [
+      term.term,
+      term.meaning,
+      term.example,
+      term.category,
+      term.difficulty,
+      card ? card.level : '',
+      card ? card.ease.toFixed(2) : '',
+      card ? Math.round(card.interval * 100) / 100 : '',
+      card ? card.repetitions : '',
+      card ? card.lapses : '',
+      card ? formatTimestamp(card.nextReview) : '',
+      card ? formatTimestamp(card.lastReview) : '',
+    ];
+  });
+
+  const csvContent = [headers, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  downloadBlob(blob, `${slugify(name)}-${Date.now()}.csv`);
+}
+
+/**
+ * Download terms with their review progress as an Anki package
+ */
+export async function exportTermsToAnki(
+  terms: SlangTerm[],
+  cards: Record<string, CardProgress>,
+  name: string
+): Promise<void> {
+  const response = await fetch(`${API_URL}/exports/apkg`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      deck_name: name,
+      cards: terms.map(term => {
+        const card = cards[term.id];
+        return {
+          id: term.id,
+          term: term.term,
+          meaning: term.meaning,
+          example: term.example,
+          tags: [term.category, term.difficulty],
+          // Cards never reviewed go in as new
+          review: card && card.lastReview ? {
+            next_review: card.nextReview,
+            interval: card.interval,
+            ease: card.ease,
+            repetitions: card.repetitions,
+            lapses: card.lapses,
+          } : undefined,
+        };
+      }),
+    }),
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to build Anki package');
+  }
+
+  downloadBlob(await response.blob(), `${slugify(name)}.apkg`);
+}
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'slang';
+}
@@ -0,0 +1,223 @@
+/**
+ * SM-2 style spaced repetition scheduling.
+ *
+ * Each card keeps its own ease factor: remembering it easily stretches the
+ * next interval further, struggling shrinks it, and forgetting it (a lapse)
+ * sends it back to be relearned. Intervals are in days and are fuzzed a
+ * little so cards learned together don't all come due on the same day.
+ */
+
+// Ratings: 1 = didn't know, 2 = hard, 3 = good, 4 = easy, 5 = perfect
+export type ReviewRating = 1 | 2 | 3 | 4 | 5;
+
+export interface ReviewSchedule {
+  ease: number;
+  interval: number; // days
+  repetitions: number; // successful reviews since the last lapse
+  lapses: number;
+  nextReview: number; // timestamp
+  lastReview: number;
+}
+
+export interface ForecastDay {
+  date: number; // local midnight
+  count: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const MAX_INTERVAL_DAYS = 365;
+
+// A forgotten card comes back after ten minutes
+const RELEARN_INTERVAL_DAYS = 10 / (24 * 60);
+
+const EASE_CHANGE: Record<ReviewRating, number> = {
+  1: -0.2,
+  2: -0.15,
+  3: 0,
+  4: 0.1,
+  5: 0.15,
+};
+
+// First interval for a new or relearned card
+const FIRST_INTERVAL_DAYS: Record<ReviewRating, number> = {
+  1: RELEARN_INTERVAL_DAYS,
+  2: 1,
+  3: 1,
+  4: 3,
+  5: 4,
+};
+
+// The second successful review follows SM-2's fixed six days for "good"
+const SECOND_INTERVAL_DAYS = 6;
+
+const EASY_BONUS = 1.3;
+const PERFECT_BONUS = 1.5;
+const HARD_MULTIPLIER = 1.2;
+
+// Intervals of a few days or more are moved by up to 5% (at least a day)
+const FUZZ_MIN_DAYS = 3;
+const FUZZ_FACTOR = 0.05;
+
+// Interval thresholds for the 0-5 levels shown to learners
+const LEVEL_THRESHOLDS_DAYS = [1 / 24, 1, 3, 7, 30];
+
+// Intervals of the old fixed six-level scheduler, used when migrating
+const LEGACY_LEVEL_INTERVALS_DAYS = [0, 1 / 24, 1, 3, 7, 30];
+
+export function createSchedule(): ReviewSchedule {
+  return {
+    ease: DEFAULT_EASE,
+    interval: 0,
+    repetitions: 0,
+    lapses: 0,
+    nextReview: 0,
+    lastReview: 0,
+  };
+}
+
+/**
+ * Schedule from the old fixed-level scheduler - keeps the card's current
+ * interval and due date, with the default ease
+ */
+export function scheduleFromLegacyLevel(level: number, nextReview: number, lastReview: number): ReviewSchedule {
+  const clamped = Math.max(0, Math.min(LEGACY_LEVEL_INTERVALS_DAYS.length - 1, Math.round(level) || 0));
+  return {
+    ease: DEFAULT_EASE,
+    interval: LEGACY_LEVEL_INTERVALS_DAYS[clamped],
+    repetitions: clamped,
+    lapses: 0,
+    nextReview,
+    lastReview,
+  };
+}
+
+function fuzzInterval(days: number): number {
+  if (days < FUZZ_MIN_DAYS) return days;
+  const range = Math.max(1, Math.round(days * FUZZ_FACTOR));
+  return days + Math.round((Math.random() * 2 - 1) * range);
+}
+
+/**
+ * Next interval in days for a rating, without fuzz
+ */
+function nextInterval(schedule: ReviewSchedule, rating: ReviewRating, ease: number): number {
+  if (rating === 1) return RELEARN_INTERVAL_DAYS;
+
+  // New cards, and cards being relearned after a lapse
+  if (schedule.repetitions === 0 || schedule.interval < 1) {
+    return FIRST_INTERVAL_DAYS[rating];
+  }
+
+  if (schedule.repetitions === 1 && rating === 3) {
+    return Math.max(SECOND_INTERVAL_DAYS, schedule.interval + 1);
+  }
+
+  const multiplier =
+    rating === 2 ? HARD_MULTIPLIER :
+    rating === 3 ? ease :
+    rating === 4 ? ease * EASY_BONUS :
+    ease * PERFECT_BONUS;
+
+  // Always move on by at least a day
+  return Math.max(schedule.interval + 1, schedule.interval * multiplier);
+}
+
+/**
+ * Apply a review to a card's schedule
+ */
+export function scheduleReview(
+  schedule: ReviewSchedule,
+  rating: ReviewRating,
+  now: number = Date.now(),
+  options: { fuzz?: boolean } = {}
+): ReviewSchedule {
+  const ease = Math.max(MIN_EASE, schedule.ease + EASE_CHANGE[rating]);
+  let interval = Math.min(MAX_INTERVAL_DAYS, nextInterval(schedule, rating, ease));
+
+  if (interval >= 1) {
+    interval = Math.round(interval);
+    if (options.fuzz !== false) {
+      interval = Math.min(MAX_INTERVAL_DAYS, fuzzInterval(interval));
+    }
+  }
+
+  const lapsed = rating === 1 && schedule.repetitions > 0;
+
+  return {
+    ease,
+    interval,
+    repetitions: rating === 1 ? 0 : schedule.repetitions + 1,
+    lapses: schedule.lapses + (lapsed ? 1 : 0),
+    nextReview: now + interval * DAY_MS,
+    lastReview: now,
+  };
+}
+
+/**
+ * Interval each rating would give, in days (unfuzzed), for previewing on
+ * the rating buttons
+ */
+export function previewIntervals(schedule: ReviewSchedule): Record<ReviewRating, number> {
+  const ratings: ReviewRating[] = [1, 2, 3, 4, 5];
+  return Object.fromEntries(
+    ratings.map(rating => [rating, scheduleReview(schedule, rating, 0, { fuzz: false }).interval])
+  ) as Record<ReviewRating, number>;
+}
+
+/**
+ * 0-5 level for an interval - 5 (mastered) is a month or more
+ */
+export function levelForInterval(days: number): number {
+  return LEVEL_THRESHOLDS_DAYS.filter(threshold => days >= threshold).length;
+}
+
+/**
+ * Short label for an interval, e.g. "10m", "4d", "3mo"
+ */
+export function formatInterval(days: number): string {
+  const minutes = Math.round(days * 24 * 60);
+  if (minutes < 60) return `${minutes}m`;
+  if (days < 1) return `${Math.round(minutes / 60)}h`;
+  if (days < 30) return `${Math.round(days)}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${Math.round((days / 365) * 10) / 10}y`;
+}
+
+function startOfDay(timestamp: number): number {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+/**
+ * Number of scheduled cards due on each of the next `days` days. Overdue
+ * cards count towards today.
+ */
+export function getReviewForecast(
+  schedules: Iterable<Pick<ReviewSchedule, 'nextReview'>>,
+  days: number = 14,
+  now: number = Date.now()
+): ForecastDay[] {
+  const forecast: ForecastDay[] = [];
+  let date = startOfDay(now);
+  for (let i = 0; i < days; i++) {
+    forecast.push({ date, count: 0 });
+    // Step by calendar day so daylight saving changes don't drift
+    const next = new Date(date);
+    next.setDate(next.getDate() + 1);
+    date = next.getTime();
+  }
+
+  for (const schedule of schedules) {
+    if (!schedule.nextReview) continue;
+    if (schedule.nextReview >= date) continue;
+    // The last day starting at or before the due time, or today if overdue
+    const day = forecast.reduce((due, candidate) => (candidate.date <= schedule.nextReview ? candidate : due), forecast[0]);
+    day.count++;
+  }
+
+  return forecast;
+}